@@ -1,8 +1,9 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, matchRoute, useLocation, useRouter } from "wouter";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as SonnerToaster } from "sonner";
 import NotFound from "@/pages/not-found";
 import { ProtectedRoute } from "@/components/protected-route";
+import { RoleGuard } from "@/components/role-guard";
 import DashboardPage from "./pages/dashboard-page";
 import NewEntryPage from "@/pages/new-entry-page";
 import ScanPage from "@/pages/tracability/scan-page";
@@ -10,10 +11,19 @@ import LotDetailPage from "@/pages/lot-detail-page";
 import MultiLotDetailPage from "@/pages/multi-lot-detail-page";
 import FarmsPage from "@/pages/farms-page";
 import UsersPage from "@/pages/users-page";
+import AuditTrailPage from "@/pages/audit-trail-page";
 import WarehousesPage from "@/pages/warehouses-page";
 import WarehouseDetailPage from "@/pages/warehouse-detail-page";
 import LotsPage from "@/pages/lots-page";
 import ReportsPage from "@/pages/tracability/ReportsPage";
+import LotGenealogyPage from "@/pages/tracability/lot-genealogy-page";
+import DigitalLinkPage from "@/pages/tracability/digital-link-page";
+import PublicLotPage from "@/pages/tracability/public-lot-page";
+import RecallSimulationPage from "@/pages/tracability/recall-simulation-page";
+import ScanAnalyticsPage from "@/pages/tracability/scan-analytics-page";
+import OrderAllocationPage from "@/pages/orders/order-allocation-page";
+import ClientsPage from "@/pages/orders/clients-page";
+import ProductionPlanningPage from "@/pages/production/production-planning-page";
 import StatisticsPage from "@/pages/statistics-page";
 import MainLayout from "@/components/layout/main-layout";
 import { LoginPage } from "@/pages/login-page";
@@ -23,6 +33,12 @@ import RapportGenerating from "./pages/logistique/rapport-generating";
 import facturestemplates from "./pages/logistique/factures-templates";
 import inventory from "./pages/logistique/inventory";
 import QualityControl from "./pages/quality/qualitycontrol";
+import ToleranceProfilesPage from "@/pages/quality/tolerance-profiles-page";
+import ColdChainPage from "@/pages/logistique/cold-chain-page";
+import WeighbridgeDiscrepancyPage from "@/pages/reception/weighbridge-discrepancy-page";
+import SupplierScorecardsPage from "@/pages/reception/supplier-scorecards-page";
+import PalletsPage from "@/pages/production/pallets-page";
+import PalletLabelsPage from "@/pages/production/pallet-labels-page";
 import personnelmanagement from "./pages/personnele/personnelmanagement";
 import calculedeconsomation from "./pages/production/calculedeconsomation";
 import archifage from "./pages/src/archifage";
@@ -34,6 +50,7 @@ import FicheDePaie from "./pages/personnele/FicheDePaie";
 import historiquedeconsomation from "./pages/production/historiquedeconsomation";
 import Archivagedesfacture from "@/pages/comptability/Archivagedesfacture"
 import DocumentTemplates from "@/pages/comptability/DocumentTemplates";
+import InvoicesPage from "@/pages/comptability/invoices-page";
 import FichedExpidition from "@/pages/logistique/FichedExpidition";
 import Rapportqualité from "@/pages/quality/Rapportqualité";
 import ArchiveRapportqualité from "@/pages/quality/Archivagedescontroles";
@@ -71,11 +88,13 @@ import SuiviEmballages from "./pages/reception/SuiviEmballages"
 function PublicRoutes() {
   return (
     <Switch>
-      {/* Public lot detail routes */}
-      <Route path="/tracability/lot/:lotNumber" component={LotDetailPage} />
-      <Route path="/lots/:lotNumber" component={LotDetailPage} />
-      <Route path="/api/avocado-tracking/:lotNumber/pdf" component={LotDetailPage} />
-      <Route path="/api/avocado-tracking/:lotNumber/generate-pdf" component={LotDetailPage} />
+      {/* Public lot routes: consumer view served by /api/public/lots (internal page: /lot-detail) */}
+      <Route path="/tracability/lot/:lotNumber" component={PublicLotPage} />
+      <Route path="/lots/:lotNumber" component={PublicLotPage} />
+      {/* GS1 Digital Link QR codes (/01/{gtin}/10/{lot}) */}
+      <Route path="/01/:gtin/10/:lot" component={DigitalLinkPage} />
+      <Route path="/api/avocado-tracking/:lotNumber/pdf" component={PublicLotPage} />
+      <Route path="/api/avocado-tracking/:lotNumber/generate-pdf" component={PublicLotPage} />
       <Route path="/login" component={LoginPage} />
       <Route path="/archifage" component={Archifage} />
       <Route path="/box/:boxId" component={BoxDetail} />
@@ -88,76 +107,146 @@ function PublicRoutes() {
   );
 }
 
+// Permission module required to open a route (wouter patterns, lower-case); other routes need an assigned role
+const ROUTE_SECTIONS: Array<[pattern: string, section: string]> = [
+  ['/users', 'admin'],
+  ['/journal-audit', 'admin'],
+  ['/warehouses', 'admin'],
+  ['/warehouses/:id', 'admin'],
+  ['/farms', 'admin'],
+  ['/farms/:id', 'admin'],
+  ['/rapport-generating', 'logistics'],
+  ['/inventory', 'logistics'],
+  ['/logistique/fichedexpidition', 'logistics'],
+  ['/logistique/history', 'logistics'],
+  ['/chaine-du-froid', 'logistics'],
+  ['/commandeclinet', 'logistics'],
+  ['/commande-client', 'logistics'],
+  ['/gererlescommandesclinet', 'logistics'],
+  ['/orders', 'logistics'],
+  ['/allocation-commandes', 'logistics'],
+  ['/clients', 'logistics'],
+  ['/qualitycontrol', 'quality'],
+  ['/rapportqualité', 'quality'],
+  ['/archive-rapportqualité', 'quality'],
+  ['/archivagedescontroles', 'quality'],
+  ['/profils-tolerance', 'quality'],
+  ['/genealogie', 'quality'],
+  ['/rappel-simulation', 'quality'],
+  ['/reception', 'reception'],
+  ['/controle-reception', 'reception'],
+  ['/suivi-reception', 'reception'],
+  ['/suivi-dechets', 'reception'],
+  ['/ecarts-pesee', 'reception'],
+  ['/fiches-fournisseurs', 'reception'],
+  ['/suivi-emballages', 'reception'],
+  ['/calculedeconsomation', 'production'],
+  ['/historiquedeconsomation', 'production'],
+  ['/suivi-production', 'production'],
+  ['/palettes', 'production'],
+  ['/planification-production', 'production'],
+  ['/palettes/etiquettes', 'production'],
+  ['/personnelmanagement', 'personnel'],
+  ['/schedules', 'personnel'],
+  ['/work-hours-history', 'payroll'],
+  ['/fiche-de-paie', 'payroll'],
+  ['/templates', 'invoices'],
+  ['/factures-templates', 'invoices'],
+  ['/archivagedesfacture', 'invoices'],
+  ['/factures', 'invoices'],
+];
+
 // Routes that require authentication
 function AuthenticatedRoutes() {
+  const [location] = useLocation();
+  const { parser } = useRouter();
+  const path = decodeURIComponent(location).toLowerCase();
+  const section = ROUTE_SECTIONS.find(([pattern]) => matchRoute(parser, pattern, path)[0])?.[1] || 'menu';
+
   return (
     <MainLayout>
-      <Switch>
-        <Route path="/" component={DashboardPage} />
-        <Route path="/new-entry" component={NewEntryPage} />
-        <Route path="/new-product" component={NewProductPage} />
-        <Route path="/scan" component={ScanPage} />
-        <Route path="/communication-dashboard" component={CommunicationDashboard} />
-        <Route path="/gererlescommandesclinet" component={GererCommandesClient} />
-        <Route path="/commandeclinet" component={OrderTrackingView} />
-        <Route path="/commande-client" component={CommandeClient} />
-        <Route path="/lots" component={LotsPage} />
-        <Route path="/lots/:id/barcode" component={LotBarcodePage} />
-        <Route path="/lot-detail/:lotNumber" component={LotDetailPage} />
-        <Route path="/multi-lot-detail/:id" component={MultiLotDetailPage} />
-        <Route path="/farms" component={FarmsPage} />
-        <Route path="/farms/:id" component={FarmDetailPage} />
-        <Route path="/users" component={UsersPage} />
-        <Route path="/warehouses" component={WarehousesPage} />
-        <Route path="/warehouses/:id" component={WarehouseDetailPage} />
-        <Route path="/reports" component={ReportsPage} />
-        <Route path="/rapport-generating" component={RapportGenerating} />
-        <Route path="/factures-templates" component={facturestemplates} />
-        <Route path="/traceability" component={StatisticsPage} />
-        <Route path="/inventory" component={inventory} />
-        <Route path="/qualitycontrol" component={QualityControl} />
-        {/* <Route path="/quality-test" component={QualityControlTestPage} /> */}
-        <Route path="/firebase-test" component={FirebaseConnectionTest} />
-        <Route path="/firebase-expedition-test" component={FirebaseExpeditionTest} />
-        <Route path="/firebase-expedition-simple" component={FirebaseExpeditionTestSimple} />
-        <Route path="/firebase-debugger" component={FirebaseDebugger} />
-        <Route path="/expedition-history-test" component={ExpeditionHistoryTest} />
-        <Route path="/quality-debug" component={QualityControlDebug} />
-        <Route path="/quality-save-test" component={QualityControlSaveTest} />
-        <Route path="/personnelmanagement" component={personnelmanagement} />
-        <Route path="/calculedeconsomation" component={calculedeconsomation} />
-        <Route path="/logistique/history" component={DocumentArchive} />
-        <Route path="/reception" component={reception} />
-        <Route path="/new" component={newEntry} />
-        <Route path="/schedules" component={Horaires} />
-        <Route path="/work-hours-history" component={WorkHoursHistory} />
-        <Route path="/fiche-de-paie" component={FicheDePaie} />
-        <Route path="/historiquedeconsomation" component={historiquedeconsomation} />
-        <Route path="/Templates" component={DocumentTemplates} />
-        <Route path="/logistique/fichedexpidition" component={FichedExpidition} />
-        <Route path="/Rapportqualité" component={Rapportqualité} />
-        <Route path="/archive-rapportqualité" component={ArchiveRapportqualité} />
-        <Route path="/Archivagedescontroles" component={Archivagedescontroles} />
-        <Route path="/Archivagedesfacture" component={Archivagedesfacture} />
-        <Route path="/DocumentArchive" component={DocumentArchive} />
-        <Route path="/archifage" component={archifage} />
-        {/* Client Orders */}
-        <Route path="/suivi-production" component={SuiviProduction} />
-  <Route path="/suivi-reception" component={SuiviReception} />
-  <Route path="/suivi-dechets" component={SuiviDechets} />
-  <Route path="/controle-reception" component={ControleReception} />
-  <Route path="/suivi-emballages" component={SuiviEmballages} />
-        {/* Client Orders */}
-        {/* Maintenance Routes */}
-        <Route path="/maintenance" component={Dashboard} />
-        <Route path="/automatisationdemaintenance" component={AutomatisationDeMaintenance} />
-        <Route path="/piecesderechangemaintenance" component={PiecesDeRechangeMaintenance} />
-        <Route path="/dossieredemaintenance" component={historiquedemaintenance} />
-        <Route path="/orders" component={GererCommandesClient} />
-        <Route path="/archifage" component={Archifage} />
-        <Route path="/box/:boxId" component={BoxDetail} />
-        <Route path="*" component={NotFound} />
-      </Switch>
+      <RoleGuard requiredSection={section}>
+        <Switch>
+          <Route path="/" component={DashboardPage} />
+          <Route path="/new-entry" component={NewEntryPage} />
+          <Route path="/new-product" component={NewProductPage} />
+          <Route path="/scan" component={ScanPage} />
+          <Route path="/genealogie" component={LotGenealogyPage} />
+          <Route path="/rappel-simulation" component={RecallSimulationPage} />
+          <Route path="/analyses-scans" component={ScanAnalyticsPage} />
+          <Route path="/communication-dashboard" component={CommunicationDashboard} />
+          <Route path="/gererlescommandesclinet" component={GererCommandesClient} />
+          <Route path="/commandeclinet" component={OrderTrackingView} />
+          <Route path="/commande-client" component={CommandeClient} />
+          <Route path="/allocation-commandes" component={OrderAllocationPage} />
+          <Route path="/clients" component={ClientsPage} />
+          <Route path="/planification-production" component={ProductionPlanningPage} />
+          <Route path="/lots" component={LotsPage} />
+          <Route path="/lots/:id/barcode" component={LotBarcodePage} />
+          <Route path="/lot-detail/:lotNumber" component={LotDetailPage} />
+          <Route path="/multi-lot-detail/:id" component={MultiLotDetailPage} />
+          <Route path="/farms" component={FarmsPage} />
+          <Route path="/farms/:id" component={FarmDetailPage} />
+          <Route path="/users" component={UsersPage} />
+          <Route path="/journal-audit" component={AuditTrailPage} />
+          <Route path="/warehouses" component={WarehousesPage} />
+          <Route path="/warehouses/:id" component={WarehouseDetailPage} />
+          <Route path="/reports" component={ReportsPage} />
+          <Route path="/rapport-generating" component={RapportGenerating} />
+          <Route path="/factures-templates" component={facturestemplates} />
+          <Route path="/traceability" component={StatisticsPage} />
+          <Route path="/inventory" component={inventory} />
+          <Route path="/qualitycontrol" component={QualityControl} />
+          <Route path="/profils-tolerance" component={ToleranceProfilesPage} />
+          {/* <Route path="/quality-test" component={QualityControlTestPage} /> */}
+          <Route path="/firebase-test" component={FirebaseConnectionTest} />
+          <Route path="/firebase-expedition-test" component={FirebaseExpeditionTest} />
+          <Route path="/firebase-expedition-simple" component={FirebaseExpeditionTestSimple} />
+          <Route path="/firebase-debugger" component={FirebaseDebugger} />
+          <Route path="/expedition-history-test" component={ExpeditionHistoryTest} />
+          <Route path="/quality-debug" component={QualityControlDebug} />
+          <Route path="/quality-save-test" component={QualityControlSaveTest} />
+          <Route path="/personnelmanagement" component={personnelmanagement} />
+          <Route path="/calculedeconsomation" component={calculedeconsomation} />
+          <Route path="/logistique/history" component={DocumentArchive} />
+          <Route path="/reception" component={reception} />
+          <Route path="/new" component={newEntry} />
+          <Route path="/schedules" component={Horaires} />
+          <Route path="/work-hours-history" component={WorkHoursHistory} />
+          <Route path="/fiche-de-paie" component={FicheDePaie} />
+          <Route path="/historiquedeconsomation" component={historiquedeconsomation} />
+          <Route path="/Templates" component={DocumentTemplates} />
+          <Route path="/logistique/fichedexpidition" component={FichedExpidition} />
+          <Route path="/chaine-du-froid" component={ColdChainPage} />
+          <Route path="/ecarts-pesee" component={WeighbridgeDiscrepancyPage} />
+          <Route path="/fiches-fournisseurs" component={SupplierScorecardsPage} />
+          <Route path="/palettes" component={PalletsPage} />
+          <Route path="/palettes/etiquettes" component={PalletLabelsPage} />
+          <Route path="/Rapportqualité" component={Rapportqualité} />
+          <Route path="/archive-rapportqualité" component={ArchiveRapportqualité} />
+          <Route path="/Archivagedescontroles" component={Archivagedescontroles} />
+          <Route path="/Archivagedesfacture" component={Archivagedesfacture} />
+          <Route path="/factures" component={InvoicesPage} />
+          <Route path="/DocumentArchive" component={DocumentArchive} />
+          <Route path="/archifage" component={archifage} />
+          {/* Client Orders */}
+          <Route path="/suivi-production" component={SuiviProduction} />
+    <Route path="/suivi-reception" component={SuiviReception} />
+    <Route path="/suivi-dechets" component={SuiviDechets} />
+    <Route path="/controle-reception" component={ControleReception} />
+    <Route path="/suivi-emballages" component={SuiviEmballages} />
+          {/* Client Orders */}
+          {/* Maintenance Routes */}
+          <Route path="/maintenance" component={Dashboard} />
+          <Route path="/automatisationdemaintenance" component={AutomatisationDeMaintenance} />
+          <Route path="/piecesderechangemaintenance" component={PiecesDeRechangeMaintenance} />
+          <Route path="/dossieredemaintenance" component={historiquedemaintenance} />
+          <Route path="/orders" component={GererCommandesClient} />
+          <Route path="/archifage" component={Archifage} />
+          <Route path="/box/:boxId" component={BoxDetail} />
+          <Route path="*" component={NotFound} />
+        </Switch>
+      </RoleGuard>
     </MainLayout>
   );
 }
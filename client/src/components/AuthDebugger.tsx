@@ -3,8 +3,8 @@ import { useAuth } from '@/hooks/use-auth';
 
 const AuthDebugger: React.FC = () => {
   const { signIn } = useAuth();
-  const [email, setEmail] = useState('admin@example.com');
-  const [password, setPassword] = useState('Demo@2024!');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
   const [result, setResult] = useState<string>('');
 
   const testAuth = async () => {
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { History, ShieldCheck, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { AuditAction, AuditEntry, getRecordHistory, verifyRecordIntegrity } from "@/lib/auditTrailService";
+
+interface RecordHistoryDrawerProps {
+  collection: string;
+  docId?: string;
+  label?: string;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: "Création",
+  update: "Modification",
+  delete: "Suppression",
+  approve: "Approbation",
+  reject: "Rejet",
+  sign: "Signature",
+  reopen: "Réouverture",
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+const formatAt = (at?: string) =>
+  at ? format(new Date(at), "dd/MM/yyyy HH:mm:ss", { locale: fr }) : "—";
+
+// Who changed what and when on one record, with a check that the record still
+// matches its last recorded state
+export function RecordHistoryDrawer({ collection, docId, label }: RecordHistoryDrawerProps) {
+  const [open, setOpen] = useState(false);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [intact, setIntact] = useState<boolean | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !docId) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    getRecordHistory(collection, docId)
+      .then(async history => {
+        const check = await verifyRecordIntegrity(collection, docId, history);
+        if (cancelled) return;
+        setEntries(history);
+        setIntact(check);
+      })
+      .catch(err => {
+        console.error("Erreur lors du chargement de l'historique:", err);
+        if (!cancelled) setError("Impossible de charger l'historique");
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, collection, docId]);
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!docId}>
+          <History className="h-4 w-4 mr-2" />
+          Historique
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>Historique des modifications</SheetTitle>
+          <SheetDescription>{label || docId}</SheetDescription>
+        </SheetHeader>
+
+        {!loading && intact !== null && (
+          <div
+            className={`mt-4 flex items-center gap-2 rounded-md p-3 text-sm ${
+              intact ? "bg-green-50 text-green-800" : "bg-red-50 text-red-800"
+            }`}
+          >
+            {intact ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+            {intact
+              ? "L'enregistrement correspond à sa dernière version tracée."
+              : "L'enregistrement a été modifié en dehors du journal d'audit."}
+          </div>
+        )}
+
+        <ScrollArea className="mt-4 h-[calc(100vh-12rem)] pr-4">
+          {loading && <p className="text-sm text-gray-500">Chargement...</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          {!loading && !error && entries.length === 0 && (
+            <p className="text-sm text-gray-500">Aucune modification enregistrée.</p>
+          )}
+          <ol className="space-y-4">
+            {[...entries].reverse().map(entry => (
+              <li key={entry.id} className="rounded-md border p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <Badge variant={entry.action === "reject" || entry.action === "delete" ? "destructive" : "secondary"}>
+                    {AUDIT_ACTION_LABELS[entry.action]}
+                  </Badge>
+                  <span className="text-xs text-gray-500">{formatAt(entry.at)}</span>
+                </div>
+                <p className="mt-1 text-sm text-gray-700">{entry.userEmail || entry.userId}</p>
+                {entry.reason && <p className="mt-1 text-sm italic text-gray-600">Motif : {entry.reason}</p>}
+                {entry.changes.length > 0 && (
+                  <table className="mt-2 w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1 pr-2 font-medium">Champ</th>
+                        <th className="py-1 pr-2 font-medium">Avant</th>
+                        <th className="py-1 font-medium">Après</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entry.changes.map(change => (
+                        <tr key={change.field} className="border-t align-top">
+                          <td className="py-1 pr-2 font-mono break-all">{change.field}</td>
+                          <td className="py-1 pr-2 break-all text-red-700">{formatAuditValue(change.before)}</td>
+                          <td className="py-1 break-all text-green-700">{formatAuditValue(change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </li>
+            ))}
+          </ol>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from "react";
+import { Thermometer } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { findTemperatureExcursions } from "@shared/domain";
+import {
+  getLotTemperatureReadings,
+  getTemperatureRanges,
+  resolveTemperatureRange,
+  TemperatureRange,
+  TemperatureReading,
+} from "@/lib/temperatureService";
+import { TemperatureChart } from "./temperature-chart";
+
+interface LotTemperatureCardProps {
+  lotNumber: string;
+  variety?: string;
+  storage?: { roomId?: string; from?: string; to?: string };
+  transport?: { vehicleId?: string; from?: string; to?: string };
+}
+
+// Temperature history of a lot across reception truck, chambre froide and pallets.
+// The lot page is also opened from public QR codes: without an account the readings
+// cannot be read and the card is left out.
+export function LotTemperatureCard({ lotNumber, variety, storage, transport }: LotTemperatureCardProps) {
+  const [readings, setReadings] = useState<TemperatureReading[] | null>(null);
+  const [range, setRange] = useState<TemperatureRange | null>(null);
+
+  // storage / transport are rebuilt by the parent on each render: their fields are the dependencies
+  const { roomId, from: storageFrom, to: storageTo } = storage || {};
+  const { vehicleId, from: transportFrom, to: transportTo } = transport || {};
+  const loadReadings = useCallback(() => getLotTemperatureReadings({
+    lotNumber,
+    storage: { roomId, from: storageFrom, to: storageTo },
+    transport: { vehicleId, from: transportFrom, to: transportTo }
+  }), [lotNumber, roomId, storageFrom, storageTo, vehicleId, transportFrom, transportTo]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadReadings(), getTemperatureRanges()])
+      .then(([lotReadings, ranges]) => {
+        if (cancelled) return;
+        setReadings(lotReadings);
+        setRange(resolveTemperatureRange(ranges, variety));
+      })
+      .catch(error => console.warn('Relevés de température indisponibles:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [loadReadings, variety]);
+
+  if (!readings || !range) return null;
+  // Each source is its own series: a cold chambre reading does not end an excursion of the truck
+  const sources = new Set(readings.map(r => `${r.sourceType}|${r.sourceId}`));
+  const excursions = Array.from(sources).flatMap(source =>
+    findTemperatureExcursions(readings.filter(r => `${r.sourceType}|${r.sourceId}` === source), range)
+  ).filter(excursion => excursion.alerting);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Thermometer className="h-5 w-5" />
+          Chaîne du froid
+          <span className="text-sm font-normal text-gray-500">
+            plage {range.min} - {range.max}°C{range.variety ? ` (${range.variety})` : ''}
+          </span>
+          {readings.length > 0 && (
+            <Badge variant={excursions.length > 0 ? "destructive" : "secondary"} className="ml-auto">
+              {excursions.length > 0 ? `${excursions.length} écart(s)` : 'Conforme'}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <TemperatureChart readings={readings} range={range} />
+      </CardContent>
+    </Card>
+  );
+}
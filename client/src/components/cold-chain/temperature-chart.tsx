@@ -0,0 +1,76 @@
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { TEMPERATURE_SOURCE_LABELS, TemperatureRange, TemperatureReading } from "@/lib/temperatureService";
+
+interface TemperatureChartProps {
+  readings: TemperatureReading[];
+  range?: Pick<TemperatureRange, 'min' | 'max'>;
+  height?: number;
+}
+
+const SERIES_COLORS = ['#2563eb', '#16a34a', '#d97706', '#9333ea', '#dc2626', '#0891b2'];
+
+const formatTime = (time: number) => format(new Date(time), "dd/MM HH:mm", { locale: fr });
+
+// One line per source (chambre, camion, palette) on a shared time axis, the accepted
+// range of the variety shaded in green
+export function TemperatureChart({ readings, range, height = 280 }: TemperatureChartProps) {
+  if (readings.length === 0) {
+    return <p className="text-sm text-gray-500">Aucun relevé de température.</p>;
+  }
+
+  const series = new Map<string, Array<{ time: number; value: number }>>();
+  readings.forEach(reading => {
+    const key = `${TEMPERATURE_SOURCE_LABELS[reading.sourceType]} ${reading.sourceId}`;
+    series.set(key, [...(series.get(key) || []), { time: Date.parse(reading.recordedAt), value: reading.value }]);
+  });
+
+  const values = readings.map(r => r.value);
+  const low = Math.floor(Math.min(...values, range?.min ?? Infinity) - 1);
+  const high = Math.ceil(Math.max(...values, range?.max ?? -Infinity) + 1);
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <LineChart margin={{ top: 10, right: 20, bottom: 0, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="time"
+          type="number"
+          scale="time"
+          domain={['dataMin', 'dataMax']}
+          tickFormatter={formatTime}
+          allowDuplicatedCategory={false}
+        />
+        <YAxis domain={[low, high]} unit="°C" width={55} />
+        {range && <ReferenceArea y1={range.min} y2={range.max} fill="#22c55e" fillOpacity={0.1} />}
+        <Tooltip
+          labelFormatter={(time) => formatTime(Number(time))}
+          formatter={(value: number) => [`${value.toFixed(1)}°C`]}
+        />
+        <Legend />
+        {Array.from(series.entries()).map(([name, data], index) => (
+          <Line
+            key={name}
+            name={name}
+            data={data.sort((a, b) => a.time - b.time)}
+            dataKey="value"
+            stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+            dot={data.length < 50}
+            isAnimationActive={false}
+          />
+        ))}
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { cn } from "@/lib/utils";
 import Sidebar from "./sidebar";
+import OfflineSyncIndicator from "./offline-sync-indicator";
 import { useLocation } from "wouter";
 import { LanguageSwitcher } from "@/components/ui/LanguageSwitcher";
 import { useLanguage } from "@/contexts/LanguageContext";
@@ -102,6 +103,7 @@ export default function MainLayout({ children }: MainLayoutProps) {
               )}
             </div>
             <div className="flex items-center space-x-4">
+              <OfflineSyncIndicator />
               <Button variant="ghost" size="icon" onClick={() => navigate('/communication-dashboard')}>
                 <Bell className="h-5 w-5" />
               </Button>
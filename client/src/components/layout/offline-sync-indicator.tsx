@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { Cloud, CloudOff, RefreshCw, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { NetworkMonitor } from "@/lib/performanceUtils";
+import {
+  discardPendingWrite,
+  overwriteWithPendingWrite,
+  PendingWrite,
+  replayPendingWrites,
+  startOfflineSync,
+  subscribePendingWrites
+} from "@/lib/offlineQueue";
+// Register the replay handlers of every form that can be queued
+import "@/lib/receptionControlService";
+import "@/lib/qualityControlService";
+import "@/lib/emballagesService";
+import "@/lib/dechetArchiveService";
+import "@/lib/expeditionService";
+
+export default function OfflineSyncIndicator() {
+  const { toast } = useToast();
+  const [online, setOnline] = useState(NetworkMonitor.isOnline());
+  const [writes, setWrites] = useState<PendingWrite[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(() => {
+    const stopSync = startOfflineSync();
+    const unsubscribeNetwork = NetworkMonitor.subscribe(setOnline);
+    const unsubscribeWrites = subscribePendingWrites(setWrites);
+    return () => {
+      stopSync();
+      unsubscribeNetwork();
+      unsubscribeWrites();
+    };
+  }, []);
+
+  const syncNow = async () => {
+    setSyncing(true);
+    try {
+      const { synced, conflicts, remaining } = await replayPendingWrites();
+      toast({
+        title: "Synchronisation",
+        description: `${synced} envoyée(s), ${conflicts} conflit(s), ${remaining} en attente`
+      });
+    } catch (error) {
+      console.error('Error replaying offline writes:', error);
+      toast({ title: "Erreur", description: "La synchronisation a échoué", variant: "destructive" });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const overwrite = async (write: PendingWrite) => {
+    try {
+      await overwriteWithPendingWrite(write.id);
+    } catch (error) {
+      console.error('Error overwriting remote document:', error);
+      toast({ title: "Erreur", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const discard = async (write: PendingWrite) => {
+    if (!window.confirm(`Abandonner la modification locale "${write.label}" ?`)) return;
+    await discardPendingWrite(write.id);
+  };
+
+  const conflicts = writes.filter(w => w.status === 'conflict').length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" title={online ? "En ligne" : "Hors ligne"}>
+          {online ? <Cloud className="h-5 w-5 text-green-600" /> : <CloudOff className="h-5 w-5 text-red-600" />}
+          {writes.length > 0 && (
+            <span className={`ml-1 rounded-full px-1.5 text-xs text-white ${conflicts > 0 ? 'bg-red-600' : 'bg-amber-500'}`}>
+              {writes.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <div className="flex items-center justify-between mb-2">
+          <div className="font-semibold">
+            {online ? "En ligne" : "Hors ligne"} - {writes.length} modification(s) en attente
+          </div>
+          <Button size="sm" variant="outline" onClick={syncNow} disabled={!online || syncing || writes.length === 0}>
+            <RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        {writes.length === 0 ? (
+          <p className="text-sm text-gray-500">Toutes les saisies sont synchronisées.</p>
+        ) : (
+          <ul className="space-y-2 max-h-80 overflow-auto">
+            {writes.map(write => (
+              <li key={write.id} className="border rounded p-2 text-sm">
+                <div className="flex items-center gap-1 font-medium">
+                  {write.status === 'conflict' && <AlertTriangle className="h-4 w-4 text-red-600" />}
+                  {write.label}
+                </div>
+                <div className="text-xs text-gray-500">
+                  Saisi le {new Date(write.queuedAt).toLocaleString('fr-FR')}
+                  {write.attempts > 0 && ` - ${write.attempts} tentative(s)`}
+                </div>
+                {write.lastError && <div className="text-xs text-red-600">{write.lastError}</div>}
+                {write.status === 'conflict' && (
+                  <div className="flex gap-2 mt-1">
+                    <Button size="sm" variant="destructive" onClick={() => overwrite(write)} disabled={!online}>
+                      Écraser avec ma version
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => discard(write)}>
+                      Abandonner
+                    </Button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -4,6 +4,7 @@ import {
   Home,
   PlusSquare,
   QrCode,
+  Barcode,
   FileText,
   ChartBar,
   Calculator,
@@ -32,12 +33,24 @@ import {
   Lock,
   Clock,
   DollarSign,
+  GitBranch,
+  AlertTriangle,
+  ScrollText,
+  Scale,
+  Award,
+  SlidersHorizontal,
+  Thermometer,
+  Boxes,
+  Building2,
+  CalendarRange,
+  Receipt,
 
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/use-auth";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { ROLE_LABELS } from "@shared/domain";
 
 export default function Sidebar() {
   const [location] = useLocation();
@@ -89,7 +102,8 @@ export default function Sidebar() {
         </div>
         {hasAccessToSection && expandedSections.includes(sectionKey) && (
           <ul>
-            {items.map((item, index) => (
+            {/* Items restricted to another module (e.g. payroll inside personnel) */}
+            {items.filter(item => !item.section || hasAccess(item.section)).map((item, index) => (
               <li key={index} className="mb-1">
                 {item.isExternal ? (
                   <a href={item.path} target="_blank" rel="noopener noreferrer">
@@ -161,12 +175,42 @@ export default function Sidebar() {
       title: t('common.clientOrder'),
       icon: <PlusSquare className="h-5 w-5 mr-2" />,
       path: "/commandeclinet",
+      section: "logistics",
+    },
+    {
+      title: t('common.orderAllocation'),
+      icon: <Boxes className="h-5 w-5 mr-2" />,
+      path: "/allocation-commandes",
+      section: "logistics",
+    },
+    {
+      title: t('common.clients'),
+      icon: <Building2 className="h-5 w-5 mr-2" />,
+      path: "/clients",
+      section: "logistics",
     },
     {
       title: t('common.scanCode'),
       icon: <QrCode className="h-5 w-5 mr-2" />,
       path: "/scan",
     },
+    {
+      title: t('common.lotGenealogy'),
+      icon: <GitBranch className="h-5 w-5 mr-2" />,
+      path: "/genealogie",
+      section: "quality",
+    },
+    {
+      title: t('common.recallSimulation'),
+      icon: <AlertTriangle className="h-5 w-5 mr-2" />,
+      path: "/rappel-simulation",
+      section: "quality",
+    },
+    {
+      title: t('common.scanAnalytics'),
+      icon: <BarChart3 className="h-5 w-5 mr-2" />,
+      path: "/analyses-scans",
+    },
   ];
 
   // const traceabilityItems = [
@@ -203,6 +247,11 @@ export default function Sidebar() {
       icon: <Tractor className="h-5 w-5 mr-2" />,
       path: "/farms",
     },
+    {
+      title: t('common.auditTrail'),
+      icon: <ScrollText className="h-5 w-5 mr-2" />,
+      path: "/journal-audit",
+    },
 
   ];
 
@@ -222,6 +271,11 @@ export default function Sidebar() {
       icon: <ClipboardList className="h-5 w-5 mr-2" />,
       path: "/logistique/fichedexpidition",
     },
+    {
+      title: t('logistics.coldChain'),
+      icon: <Thermometer className="h-5 w-5 mr-2" />,
+      path: "/chaine-du-froid",
+    },
     {
       title: t('common.archive'),
       icon: <ClipboardList className="h-5 w-5 mr-2" />,
@@ -246,6 +300,11 @@ export default function Sidebar() {
       icon: <ArchiveRestore className="h-5 w-5 mr-2" />,
       path: "/Archivagedescontroles",
     },
+    {
+      title: t('quality.toleranceProfiles'),
+      icon: <SlidersHorizontal className="h-5 w-5 mr-2" />,
+      path: "/profils-tolerance",
+    },
   ];
 
   const ReceptionItems = [
@@ -271,6 +330,16 @@ export default function Sidebar() {
       icon: <ClipboardList className="h-5 w-5 mr-2" />,
       path: "/suivi-dechets",
     },
+    {
+      title: 'Écarts de pesée',
+      icon: <Scale className="h-5 w-5 mr-2" />,
+      path: "/ecarts-pesee",
+    },
+    {
+      title: 'Fiches fournisseurs',
+      icon: <Award className="h-5 w-5 mr-2" />,
+      path: "/fiches-fournisseurs",
+    },
   ];
 
   const personnelItems = [
@@ -288,11 +357,13 @@ export default function Sidebar() {
       title: t('personnel.workHoursHistory'),
       icon: <Clock className="h-5 w-5 mr-2" />,
       path: "/work-hours-history",
+      section: "payroll",
     },
     {
       title: t('personnel.payroll'),
       icon: <DollarSign className="h-5 w-5 mr-2" />,
       path: "/fiche-de-paie",
+      section: "payroll",
     },
   ];
 
@@ -312,6 +383,16 @@ export default function Sidebar() {
       icon: <History className="h-5 w-5 mr-2" />,
       path: "/suivi-production",
     },
+    {
+      title: t('production.pallets'),
+      icon: <Barcode className="h-5 w-5 mr-2" />,
+      path: "/palettes",
+    },
+    {
+      title: t('production.planning'),
+      icon: <CalendarRange className="h-5 w-5 mr-2" />,
+      path: "/planification-production",
+    },
   ];
 
   const Comptabilité = [
@@ -320,6 +401,11 @@ export default function Sidebar() {
       icon: <LayoutTemplate className="h-5 w-5 mr-2" />,
       path: "/Templates",
     },
+    {
+      title: t('accounting.invoices'),
+      icon: <Receipt className="h-5 w-5 mr-2" />,
+      path: "/factures",
+    },
     {
       title: t('accounting.invoiceArchive'),
       icon: <ArchiveRestore className="h-5 w-5 mr-2" />,
@@ -355,7 +441,7 @@ export default function Sidebar() {
           <div className="p-4 bg-neutral-900 border-b border-neutral-700">
             <div className="text-sm text-green-400 font-medium">{user.email}</div>
             <div className="text-xs text-neutral-500 capitalize">
-              {t('common.role')}: {user.role === 'comptabilite' ? t('nav.accounting') : user.role}
+              {t('common.role')}: {user.role === 'comptabilite' ? t('nav.accounting') : user.role ? ROLE_LABELS[user.role] : '-'}
             </div>
           </div>
         )}
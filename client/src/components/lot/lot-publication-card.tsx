@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { Globe, Save } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import {
+  getLotPublication,
+  LotPublicationWrite,
+  PUBLIC_LOT_FIELD_LABELS,
+  PUBLIC_LOT_FIELDS,
+  saveLotPublication
+} from "@/lib/publicLotService";
+import { DomainValidationError } from "@shared/domain";
+
+interface LotPublicationCardProps {
+  lotId: string;
+  lotNumber: string;
+}
+
+const STORY_LANGUAGES: Array<{ code: 'fr' | 'ar' | 'en'; label: string }> = [
+  { code: 'fr', label: 'Français' },
+  { code: 'ar', label: 'العربية' },
+  { code: 'en', label: 'English' }
+];
+
+// What the public lot page (QR codes) shows for this lot
+export function LotPublicationCard({ lotId, lotNumber }: LotPublicationCardProps) {
+  const { toast } = useToast();
+  const [publication, setPublication] = useState<LotPublicationWrite | null>(null);
+  const [certifications, setCertifications] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getLotPublication(lotId, lotNumber)
+      .then(loaded => {
+        setPublication(loaded);
+        setCertifications(loaded.certifications.join(', '));
+      })
+      .catch(error => console.error('Error loading lot publication:', error));
+  }, [lotId, lotNumber]);
+
+  if (!publication) return null;
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await saveLotPublication(lotId, {
+        ...publication,
+        certifications: certifications.split(',').map(c => c.trim()).filter(Boolean)
+      });
+      toast({ title: "Publication enregistrée", description: `Lot ${lotNumber}` });
+    } catch (error) {
+      console.error('Error saving lot publication:', error);
+      const description = error instanceof DomainValidationError ? error.message : "L'enregistrement a échoué";
+      toast({ title: "Erreur", description, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Page publique du lot
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Switch
+            checked={publication.published}
+            onCheckedChange={checked => setPublication({ ...publication, published: checked })}
+          />
+          <Label>{publication.published ? 'Publiée (QR codes actifs)' : 'Non publiée'}</Label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {PUBLIC_LOT_FIELDS.map(field => (
+            <div key={field} className="flex items-center gap-3">
+              <Switch
+                checked={publication.fields[field] !== false}
+                disabled={!publication.published}
+                onCheckedChange={checked => setPublication({ ...publication, fields: { ...publication.fields, [field]: checked } })}
+              />
+              <Label>{PUBLIC_LOT_FIELD_LABELS[field]}</Label>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <Label>Certifications (séparées par des virgules)</Label>
+          <Input value={certifications} onChange={e => setCertifications(e.target.value)} placeholder="GLOBALG.A.P., Bio" />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {STORY_LANGUAGES.map(({ code, label }) => (
+            <div key={code}>
+              <Label>Histoire du lot ({label})</Label>
+              <Textarea
+                dir={code === 'ar' ? 'rtl' : 'ltr'}
+                value={publication.story[code] || ''}
+                onChange={e => setPublication({ ...publication, story: { ...publication.story, [code]: e.target.value } })}
+                rows={3}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={save} disabled={saving}>
+            <Save className="h-4 w-4 mr-2" />
+            Enregistrer
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
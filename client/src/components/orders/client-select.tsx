@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import { Client, getClients } from "@/lib/clientService";
+
+interface ClientSelectProps {
+  value?: string;
+  onSelect: (client: Client | undefined) => void;
+  className?: string;
+}
+
+// Active clients of the clients file; 'Autre client' leaves the order fields free
+export function ClientSelect({ value, onSelect, className }: ClientSelectProps) {
+  const [clients, setClients] = useState<Client[]>([]);
+
+  useEffect(() => {
+    getClients()
+      .then(all => setClients(all.filter(c => c.active)))
+      .catch(error => console.error('Error loading clients:', error));
+  }, []);
+
+  return (
+    <select
+      value={value || ''}
+      onChange={(e) => onSelect(clients.find(c => c.id === e.target.value))}
+      className={className || 'w-full border border-gray-300 rounded-lg px-3 py-2'}
+    >
+      <option value="">Autre client (saisie libre)</option>
+      {clients.map(client => (
+        <option key={client.id} value={client.id}>
+          {client.code ? `${client.code} · ` : ''}{client.name}
+        </option>
+      ))}
+    </select>
+  );
+}
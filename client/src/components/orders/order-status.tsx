@@ -0,0 +1,57 @@
+import { ClientOrderStatus, ORDER_STATUS_LABELS, ORDER_TRANSITIONS } from "@/lib/firebaseService";
+
+export const ORDER_STATUS_COLORS: Record<ClientOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800 border-gray-200',
+  confirmed: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  in_production: 'bg-blue-100 text-blue-800 border-blue-200',
+  packed: 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  shipped: 'bg-purple-100 text-purple-800 border-purple-200',
+  delivered: 'bg-green-100 text-green-800 border-green-200',
+  invoiced: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  cancelled: 'bg-red-100 text-red-800 border-red-200'
+};
+
+export function OrderStatusBadge({ status }: { status: ClientOrderStatus }) {
+  return (
+    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${ORDER_STATUS_COLORS[status]}`}>
+      {ORDER_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+interface OrderStatusSelectProps {
+  status: ClientOrderStatus;
+  onChange: (status: ClientOrderStatus, reason?: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Current status and the ones it may move to; a cancellation asks for its reason
+export function OrderStatusSelect({ status, onChange, disabled, className }: OrderStatusSelectProps) {
+  const next = ORDER_TRANSITIONS[status];
+
+  const handleChange = (value: ClientOrderStatus) => {
+    if (value === status) return;
+    if (value === 'cancelled') {
+      const reason = window.prompt("Motif d'annulation");
+      if (!reason?.trim()) return;
+      onChange(value, reason.trim());
+      return;
+    }
+    onChange(value);
+  };
+
+  return (
+    <select
+      value={status}
+      disabled={disabled || next.length === 0}
+      onChange={(e) => handleChange(e.target.value as ClientOrderStatus)}
+      className={className || `text-xs font-medium border rounded-full px-2.5 py-0.5 ${ORDER_STATUS_COLORS[status]}`}
+    >
+      <option value={status}>{ORDER_STATUS_LABELS[status]}</option>
+      {next.map(to => (
+        <option key={to} value={to}>→ {ORDER_STATUS_LABELS[to]}</option>
+      ))}
+    </select>
+  );
+}
@@ -1,16 +1,23 @@
 import { useAuth } from "@/hooks/use-auth";
 import { Lock } from "lucide-react";
+import { PermissionAction, ROLE_LABELS } from "@shared/domain";
 
 interface RoleGuardProps {
   children: React.ReactNode;
+  // Sidebar section key ('quality', 'Comptabilité'...) or permission module ('payroll', 'invoices'...)
   requiredSection: string;
+  requiredAction?: PermissionAction;
   fallback?: React.ReactNode;
 }
 
-export function RoleGuard({ children, requiredSection, fallback }: RoleGuardProps) {
-  const { hasAccess, user } = useAuth();
+export function RoleGuard({ children, requiredSection, requiredAction = 'read', fallback }: RoleGuardProps) {
+  const { hasAccess, user, loading } = useAuth();
 
-  if (!hasAccess(requiredSection)) {
+  if (loading) {
+    return null;
+  }
+
+  if (!hasAccess(requiredSection, requiredAction)) {
     if (fallback) {
       return <>{fallback}</>;
     }
@@ -18,12 +25,14 @@ export function RoleGuard({ children, requiredSection, fallback }: RoleGuardProp
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px] text-center">
         <Lock className="h-16 w-16 text-gray-400 mb-4" />
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Accès refusé</h2>
         <p className="text-gray-600 mb-4">
-          You don't have permission to access this section.
+          {user?.role
+            ? "Vous n'avez pas la permission d'accéder à cette section."
+            : "Votre compte n'a pas encore de rôle. Contactez un administrateur."}
         </p>
         <p className="text-sm text-gray-500">
-          Your role: <span className="font-medium capitalize">{user?.role}</span>
+          Votre rôle : <span className="font-medium">{user?.role ? ROLE_LABELS[user.role] : 'Non attribué'}</span>
         </p>
       </div>
     );
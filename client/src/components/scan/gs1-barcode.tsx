@@ -0,0 +1,33 @@
+import { useMemo } from "react";
+import { code128Bars, code128Width } from "@shared/domain";
+
+interface Gs1BarcodeProps {
+  data: string;           // Element string without parentheses, e.g. '00' + SSCC
+  gs1?: boolean;          // GS1-128 (FNC1 after the start symbol) or plain Code 128
+  moduleWidth?: number;   // px per module
+  height?: number;
+  className?: string;
+}
+
+// Code 128 / GS1-128 symbol drawn as SVG, with the 10-module quiet zones
+export default function Gs1Barcode({ data, gs1 = true, moduleWidth = 2, height = 100, className }: Gs1BarcodeProps) {
+  const { bars, width } = useMemo(() => ({ bars: code128Bars(data, gs1), width: code128Width(data, gs1) + 20 }), [data, gs1]);
+
+  return (
+    <svg
+      className={className}
+      width={width * moduleWidth}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={data}
+    >
+      <rect x={0} y={0} width={width} height={height} fill="#fff" />
+      {bars.map(([x, w]) => (
+        <rect key={x} x={x + 10} y={0} width={w} height={height} fill="#000" />
+      ))}
+    </svg>
+  );
+}
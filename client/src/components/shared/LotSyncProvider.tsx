@@ -34,8 +34,7 @@ export const LotCountDisplay: React.FC = () => {
       await addLot({
         lotNumber: `QL-${Date.now()}`,
         status: 'draft',
-        type: 'quality',
-        data: { testData: 'Quality control lot' }
+        type: 'quality'
       });
     } catch (error) {
       console.error('Error adding quality lot:', error);
@@ -47,8 +46,7 @@ export const LotCountDisplay: React.FC = () => {
       await addLot({
         lotNumber: `PR-${Date.now()}`,
         status: 'brouillon',
-        type: 'production',
-        data: { testData: 'Production lot' }
+        type: 'production'
       });
     } catch (error) {
       console.error('Error adding production lot:', error);
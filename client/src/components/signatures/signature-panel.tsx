@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useState } from "react";
+import { Lock, LockOpen, PenLine, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  formatSignature,
+  getRecordSignatures,
+  RecordSignatureState,
+  reopenRecord,
+  SIGNABLE_RECORDS,
+  SignableRecordKind,
+  signRecord,
+  VisaDefinition,
+} from "@/lib/signatureService";
+import { chiefApproveLot } from "@/lib/qualityControlService";
+
+interface SignaturePanelProps {
+  kind: SignableRecordKind;
+  docId?: string;                     // Undefined while the record has not been saved yet
+  onStateChange?: (state: RecordSignatureState | null) => void;   // Stable: a state setter or a useCallback
+}
+
+type PendingAction = { type: 'sign'; visa: string } | { type: 'reopen' } | null;
+
+// Visas of a record: apply one (password required), see who signed and whether the
+// content changed since, reopen a locked record with a reason
+export function SignaturePanel({ kind, docId, onStateChange }: SignaturePanelProps) {
+  const { can } = useAuth();
+  const record = SIGNABLE_RECORDS[kind];
+  const [state, setState] = useState<RecordSignatureState | null>(null);
+  const [pending, setPending] = useState<PendingAction>(null);
+  const [password, setPassword] = useState('');
+  const [comment, setComment] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!docId) {
+      setState(null);
+      onStateChange?.(null);
+      return;
+    }
+    try {
+      const next = await getRecordSignatures(kind, docId);
+      setState(next);
+      onStateChange?.(next);
+    } catch (err) {
+      console.error('Erreur lors du chargement des visas:', err);
+    }
+  }, [kind, docId, onStateChange]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const close = () => {
+    setPending(null);
+    setPassword('');
+    setComment('');
+    setError(null);
+  };
+
+  const submit = async (approved = true) => {
+    if (!pending || !docId) return;
+    setBusy(true);
+    setError(null);
+    try {
+      if (pending.type === 'reopen') {
+        await reopenRecord(kind, docId, comment);
+      } else if (kind === 'quality') {
+        await chiefApproveLot(docId, approved, password, comment);
+      } else {
+        await signRecord(kind, docId, pending.visa, { password });
+      }
+      close();
+      await refresh();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const visas = Object.entries(record.visas) as Array<[string, VisaDefinition]>;
+  const pendingVisa = pending?.type === 'sign' ? visas.find(([key]) => key === pending.visa)?.[1] : undefined;
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          {state?.locked ? <Lock className="h-4 w-4 text-amber-600" /> : <PenLine className="h-4 w-4" />}
+          Visas électroniques
+        </h3>
+        {state?.locked && can(record.module, 'approve') && (
+          <Button variant="outline" size="sm" onClick={() => setPending({ type: 'reopen' })}>
+            <LockOpen className="h-4 w-4 mr-2" />
+            Rouvrir
+          </Button>
+        )}
+      </div>
+
+      {state?.locked && (
+        <p className="text-sm text-amber-700">Enregistrement signé : lecture seule jusqu'à sa réouverture.</p>
+      )}
+      {!docId && <p className="text-sm text-gray-500">Enregistrez le document pour pouvoir le signer.</p>}
+
+      <ul className="space-y-2">
+        {visas.map(([key, visa]) => {
+          const signature = state?.signatures?.[key];
+          return (
+            <li key={key} className="flex items-center justify-between gap-2 text-sm">
+              <span className="font-medium">{visa.label}</span>
+              {signature ? (
+                <span className="flex items-center gap-1 text-right">
+                  {state?.valid[key]
+                    ? <ShieldCheck className="h-4 w-4 text-green-600" />
+                    : <ShieldAlert className="h-4 w-4 text-red-600" aria-label="Contenu modifié depuis la signature" />}
+                  {formatSignature(signature)}
+                </span>
+              ) : (
+                <Button
+                  size="sm"
+                  disabled={!docId || !can(visa.module, visa.action)}
+                  onClick={() => setPending({ type: 'sign', visa: key })}
+                >
+                  Signer
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && close()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pending?.type === 'reopen' ? 'Rouvrir l\'enregistrement' : pendingVisa?.label}</DialogTitle>
+            <DialogDescription>
+              {pending?.type === 'reopen'
+                ? 'Tous les visas seront retirés. Le motif est conservé dans le journal d\'audit.'
+                : 'Saisissez à nouveau votre mot de passe pour apposer votre visa. L\'enregistrement sera verrouillé.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {pending?.type === 'sign' && (
+              <div>
+                <Label>Mot de passe</Label>
+                <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoFocus />
+              </div>
+            )}
+            {(pending?.type === 'reopen' || kind === 'quality') && (
+              <div>
+                <Label>{pending?.type === 'reopen' ? 'Motif de réouverture' : 'Commentaire'}</Label>
+                <Textarea value={comment} onChange={(e) => setComment(e.target.value)} />
+              </div>
+            )}
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={close} disabled={busy}>Annuler</Button>
+            {pending?.type === 'reopen' ? (
+              <Button onClick={() => submit()} disabled={busy || !comment.trim()}>Rouvrir</Button>
+            ) : kind === 'quality' ? (
+              <>
+                <Button variant="destructive" onClick={() => submit(false)} disabled={busy || !password}>Rejeter</Button>
+                <Button onClick={() => submit(true)} disabled={busy || !password}>Approuver</Button>
+              </>
+            ) : (
+              <Button onClick={() => submit()} disabled={busy || !password}>Signer</Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { Award } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  buildSupplierScorecards,
+  findFarmScorecard,
+  getSupplierScorecardData,
+  supplierCampaigns,
+  SupplierScorecard,
+} from "@/lib/supplierScorecardService";
+
+const rate = (value: number | null, digits = 1) => (value === null ? '-' : `${value.toFixed(digits)}%`);
+
+// Scorecard of the farm as a supplier, for the latest campaign with reception controls
+export function FarmScorecardCard({ farm }: { farm: { name: string; code?: string } }) {
+  const [card, setCard] = useState<SupplierScorecard | null | undefined>(undefined);
+  const [ranked, setRanked] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    getSupplierScorecardData()
+      .then(data => {
+        if (cancelled) return;
+        const scorecards = buildSupplierScorecards(data.controls, data.deliveries, supplierCampaigns(data.controls)[0] || '');
+        setCard(findFarmScorecard(farm, scorecards) || null);
+        setRanked(scorecards.length);
+      })
+      .catch(error => {
+        console.warn('Fiche fournisseur indisponible:', error);
+        if (!cancelled) setCard(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [farm.name, farm.code]);
+
+  return (
+    <Card className="md:col-span-2">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <Award className="h-5 w-5 mr-2" />
+          Fiche fournisseur
+          {card && (
+            <Badge className="ml-auto" variant={card.score >= 80 ? 'default' : card.score >= 60 ? 'secondary' : 'destructive'}>
+              {card.score}/100 - {card.rank}e sur {ranked}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {card === undefined ? (
+          <p className="text-sm text-neutral-500">Chargement...</p>
+        ) : card === null ? (
+          <p className="text-sm text-neutral-500">
+            Aucun contrôle réception au nom de cette ferme (producteur « {farm.name} »{farm.code ? ` ou « ${farm.code} »` : ''}).
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            <div>
+              <p className="text-neutral-500">Campagne</p>
+              <p className="font-medium">{card.campaign || 'Toutes'}</p>
+            </div>
+            <div>
+              <p className="text-neutral-500">Défauts moyens</p>
+              <p className="font-medium">{rate(card.avgTotalDefects, 2)}</p>
+            </div>
+            <div>
+              <p className="text-neutral-500">Livraisons refusées</p>
+              <p className="font-medium">{rate(card.rejectionRate)} ({card.controls} contrôles)</p>
+            </div>
+            <div>
+              <p className="text-neutral-500">Camions conformes</p>
+              <p className="font-medium">{rate(card.truckHygieneRate)}</p>
+            </div>
+            <div>
+              <p className="text-neutral-500">Écart de pesée</p>
+              <p className="font-medium">{rate(card.weightEcartPct, 2)}</p>
+            </div>
+            <Link
+              href={`/fiches-fournisseurs?fournisseur=${encodeURIComponent(card.supplier)}`}
+              className="text-blue-600 hover:underline col-span-2 md:col-span-5"
+            >
+              Voir le détail et l'évolution
+            </Link>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
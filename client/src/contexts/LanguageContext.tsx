@@ -14,6 +14,9 @@ const LanguageContext = createContext<LanguageContextType | undefined>(undefined
 
 export const LanguageProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [language, setLanguage] = useState<Language>(() => {
+    // ?lang= comes from the Digital Link resolver on the public lot pages
+    const requested = new URLSearchParams(window.location.search).get('lang');
+    if (requested === 'fr' || requested === 'ar' || requested === 'en') return requested;
     const saved = localStorage.getItem('language');
     return (saved as Language) || 'fr';
   });
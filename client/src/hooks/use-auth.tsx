@@ -3,16 +3,26 @@ import {
   User,
   signInWithEmailAndPassword,
   signOut as firebaseSignOut,
-  onAuthStateChanged,
-  signInAnonymously
+  onAuthStateChanged
 } from "firebase/auth";
 import { auth } from "@/lib/firebase";
+import { ensureOwnProfile, subscribeUserProfile } from "@/lib/userProfileService";
+import {
+  hasPermission,
+  moduleForSection,
+  PermissionAction,
+  PermissionModule,
+  UserPermissions,
+  UserRole
+} from "@shared/domain";
 import { toast } from "sonner";
 
-export type UserRole = 'admin' | 'quality' | 'logistics' | 'reception' | 'production' | 'personnel' | 'comptabilite';
+export type { UserRole } from "@shared/domain";
 
 interface CustomUser extends User {
-  role?: UserRole;
+  role?: UserRole | null;
+  permissions?: UserPermissions;
+  active?: boolean;
 }
 
 interface AuthContextType {
@@ -20,33 +30,10 @@ interface AuthContextType {
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
-  hasAccess: (section: string) => boolean;
+  hasAccess: (section: string, action?: PermissionAction) => boolean;
+  can: (module: PermissionModule, action?: PermissionAction) => boolean;
 }
 
-// Role permissions mapping
-const rolePermissions: Record<UserRole, string[]> = {
-  admin: ['menu', 'admin', 'logistics', 'quality', 'reception', 'production', 'personnel', 'Comptabilité'],
-  quality: ['menu', 'quality'],
-  logistics: ['menu', 'logistics'],
-  reception: ['menu', 'reception'],
-  production: ['menu', 'production'],
-  personnel: ['menu', 'personnel'],
-  comptabilite: ['menu', 'Comptabilité'],
-};
-
-// Demo role mapping based on email
-const getRoleFromEmail = (email: string): UserRole => {
-  if (email.includes('admin')) return 'admin';
-  if (email.includes('quality')) return 'quality';
-  if (email.includes('logistics')) return 'logistics';
-  if (email.includes('reception')) return 'reception';
-  if (email.includes('production')) return 'production';
-  if (email.includes('personnel')) return 'personnel';
-  if (email.includes('comptabilite')) return 'comptabilite';
-  if (email.includes('maintenance')) return 'maintenance';
-  return 'admin'; // Default to admin
-};
-
 const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
@@ -54,85 +41,70 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
+    let unsubscribeProfile: (() => void) | null = null;
+
     const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
-      if (firebaseUser) {
-        const customUser: CustomUser = {
-          ...firebaseUser,
-          role: getRoleFromEmail(firebaseUser.email || '')
-        };
-        setUser(customUser);
-      } else {
+      unsubscribeProfile?.();
+      unsubscribeProfile = null;
+
+      if (!firebaseUser) {
         setUser(null);
+        setLoading(false);
+        return;
       }
-      setLoading(false);
+      // Anonymous sessions never hold a role (the Firestore rules refuse them too)
+      if (firebaseUser.isAnonymous) {
+        setUser({ ...firebaseUser, role: null, permissions: {}, active: false });
+        setLoading(false);
+        return;
+      }
+
+      // Role and permissions come from users/{uid} and follow its changes live.
+      // No profile, or a profile without role, means no access.
+      setLoading(true);
+      unsubscribeProfile = subscribeUserProfile(
+        firebaseUser.uid,
+        (profile) => {
+          if (!profile) {
+            ensureOwnProfile(firebaseUser).catch(err => console.error('Profil utilisateur non créé:', err));
+          }
+          setUser({
+            ...firebaseUser,
+            role: profile?.role ?? null,
+            permissions: profile?.permissions ?? {},
+            active: profile?.active ?? false
+          });
+          setLoading(false);
+        },
+        (error) => {
+          console.error('Error loading user profile:', error);
+          setUser({ ...firebaseUser, role: null, permissions: {}, active: false });
+          setLoading(false);
+        }
+      );
     });
 
-    return () => unsubscribe();
+    return () => {
+      unsubscribe();
+      unsubscribeProfile?.();
+    };
   }, []);
 
-  const hasAccess = (section: string): boolean => {
-    if (!user || !user.role) return false;
-    return rolePermissions[user.role]?.includes(section) || false;
+  const can = (module: PermissionModule, action: PermissionAction = 'read'): boolean =>
+    hasPermission(user ? { role: user.role ?? null, permissions: user.permissions, active: user.active ?? false } : null, module, action);
+
+  // Sidebar sections map to a permission module; 'menu' is open to every assigned account
+  const hasAccess = (section: string, action: PermissionAction = 'read'): boolean => {
+    if (!user || !user.role || user.active === false) return false;
+    if (section === 'menu') return true;
+    const module = moduleForSection(section);
+    return module ? can(module, action) : false;
   };
 
   const signIn = async (email: string, password: string) => {
     try {
-      // Check if it's a demo user first
-      const demoUsers: Record<string, { email: string; role: UserRole }> = {
-        "admin@example.com": { email: "admin@example.com", role: "admin" },
-        "quality@example.com": { email: "quality@example.com", role: "quality" },
-        "logistics@example.com": { email: "logistics@example.com", role: "logistics" },
-        "reception@example.com": { email: "reception@example.com", role: "reception" },
-        "production@example.com": { email: "production@example.com", role: "production" },
-        "personnel@example.com": { email: "personnel@example.com", role: "personnel" },
-        "comptabilite@example.com": { email: "comptabilite@example.com", role: "comptabilite" },
-      };
-
-      // Check if it's a demo user
-      const isDemoUser = !!demoUsers[email];
-      const passwordMatch = password === "Demo@2024!";
-      
-      console.log("Authentication attempt:", { email, isDemoUser, passwordMatch });
-      
-      if (isDemoUser && passwordMatch) {
-        console.log("Demo user login successful");
-        // Ensure a Firebase-authenticated session so Firestore rules (isAuthenticated) pass
-        try {
-          await signInAnonymously(auth);
-        } catch (e) {
-          console.warn('Anonymous sign-in failed, continuing with demo user context only', e);
-        }
-        // Create a demo user object
-        const demoUser: CustomUser = {
-          uid: `demo-${demoUsers[email].role}`,
-          email,
-          displayName: `${demoUsers[email].role.charAt(0).toUpperCase() + demoUsers[email].role.slice(1)} User`,
-          role: demoUsers[email].role,
-          emailVerified: true,
-          isAnonymous: false,
-          phoneNumber: null,
-          photoURL: null,
-          providerId: "demo",
-          metadata: {} as any,
-          providerData: [],
-          refreshToken: "",
-          tenantId: null,
-          delete: async () => {},
-          getIdToken: async () => "",
-          getIdTokenResult: async () => ({} as any),
-          reload: async () => {},
-          toJSON: () => ({}),
-        };
-        setUser(demoUser);
-        toast.success("Connexion réussie");
-        return;
-      }
-
-      console.log("Attempting Firebase authentication");
-      // If not a demo user, try Firebase authentication
-      const userCredential = await signInWithEmailAndPassword(auth, email, password);
-      const userData = userCredential.user;
-      console.log("Firebase login successful");
+      // Role and permissions are loaded from the profile by onAuthStateChanged
+      await signInWithEmailAndPassword(auth, email, password);
       toast.success("Connexion réussie");
     } catch (error) {
       console.error("Login error:", error);
@@ -154,7 +126,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signOut, hasAccess }}>
+    <AuthContext.Provider value={{ user, loading, signIn, signOut, hasAccess, can }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,257 @@
+import {
+  collection,
+  CollectionReference,
+  doc,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  SetOptions,
+  Timestamp,
+  Transaction,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { auth, db } from './firebase';
+import {
+  AuditAction,
+  AuditEntry,
+  auditEntrySchema,
+  canonicalRecord,
+  diffRecords,
+  parseDocuments
+} from '@shared/domain';
+
+export type { AuditEntry, AuditChange, AuditAction } from '@shared/domain';
+
+const COLLECTION = 'audit_trail';
+
+interface AuditOptions {
+  label?: string; // Defaults to the record's lot number or name
+  action?: AuditAction;
+  reason?: string;
+}
+
+// Write sentinels (serverTimestamp(), arrayUnion()...): class instances exposing isEqual
+// (Timestamps, the other such class stored in these records, are excluded)
+const isSentinel = (value: unknown): boolean =>
+  !!value && typeof value === 'object' && !(value instanceof Timestamp) &&
+  value.constructor?.name !== 'Object' && !Array.isArray(value) &&
+  typeof (value as { isEqual?: unknown }).isEqual === 'function';
+
+// Firestore values -> plain JSON: Timestamps become ISO strings, sentinels are dropped
+// since their value is only known once the server applies the write
+const toPlain = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (isSentinel(value)) return undefined;
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).reduce((acc, [key, item]) => {
+      const plain = toPlain(item);
+      if (plain !== undefined) acc[key] = plain;
+      return acc;
+    }, {} as Record<string, unknown>);
+  }
+  return value;
+};
+
+// Paths written with a sentinel: left out of the content hash until read back
+const sentinelPaths = (data: Record<string, unknown>, prefix = ''): string[] =>
+  Object.entries(data).flatMap(([key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isSentinel(value)) return [path];
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Timestamp) && !(value instanceof Date)) {
+      return sentinelPaths(value as Record<string, unknown>, path);
+    }
+    return [];
+  });
+
+const asRecord = (value: unknown): Record<string, unknown> => (toPlain(value) as Record<string, unknown>) || {};
+
+// updateDoc semantics: top-level keys replaced, dotted keys set a nested field
+const applyUpdate = (before: Record<string, unknown>, updates: Record<string, unknown>) => {
+  const after: Record<string, unknown> = JSON.parse(JSON.stringify(before));
+  Object.entries(updates).forEach(([path, value]) => {
+    const keys = path.split('.');
+    let target = after;
+    keys.slice(0, -1).forEach(key => {
+      if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+      target = target[key] as Record<string, unknown>;
+    });
+    if (value === undefined) delete target[keys[keys.length - 1]];
+    else target[keys[keys.length - 1]] = value;
+  });
+  return after;
+};
+
+// setDoc(..., { merge: true }) semantics: nested maps merged, everything else replaced
+const applyMerge = (before: Record<string, unknown>, data: Record<string, unknown>): Record<string, unknown> => {
+  const after: Record<string, unknown> = { ...before };
+  Object.entries(data).forEach(([key, value]) => {
+    const previous = after[key];
+    const isMap = (v: unknown) => !!v && typeof v === 'object' && !Array.isArray(v);
+    after[key] = isMap(value) && isMap(previous)
+      ? applyMerge(previous as Record<string, unknown>, value as Record<string, unknown>)
+      : value;
+  });
+  return after;
+};
+
+// SHA-256 of the record content, used to show a record was not altered since an entry
+export const hashRecord = async (record: Record<string, unknown> | null, excludedPaths: string[] = []): Promise<string> => {
+  if (!record) return '';
+  const content: Record<string, unknown> = JSON.parse(JSON.stringify(asRecord(record)));
+  excludedPaths.forEach(path => {
+    const keys = path.split('.');
+    const parent = keys.slice(0, -1).reduce<unknown>((target, key) => (target && typeof target === 'object' ? (target as Record<string, unknown>)[key] : undefined), content);
+    if (parent && typeof parent === 'object') delete (parent as Record<string, unknown>)[keys[keys.length - 1]];
+  });
+  const bytes = new TextEncoder().encode(canonicalRecord(content));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+type WriteKind =
+  | { kind: 'set'; data: Record<string, unknown>; merge?: boolean }
+  | { kind: 'update'; data: Record<string, unknown> }
+  | { kind: 'delete' };
+
+// What a batch and a transaction have in common
+interface AuditWriter {
+  set(ref: DocumentReference, data: DocumentData, options?: SetOptions): unknown;
+  update(ref: DocumentReference, data: DocumentData): unknown;
+  delete(ref: DocumentReference): unknown;
+}
+
+// Stage a write to a regulated record and its audit entry on the same batch or transaction,
+// so a change can never land without its trace. `snap` is the record before the write.
+const stageAuditedWrite = async (writer: AuditWriter, snap: DocumentSnapshot, write: WriteKind, options: AuditOptions): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Utilisateur non authentifié');
+
+  const ref = snap.ref;
+  const before = snap.exists() ? asRecord(snap.data()) : null;
+  let after: Record<string, unknown> | null;
+  if (write.kind === 'delete') after = null;
+  else if (write.kind === 'update') after = applyUpdate(before || {}, asRecord(write.data));
+  else after = write.merge ? applyMerge(before || {}, asRecord(write.data)) : asRecord(write.data);
+
+  const action: AuditAction = options.action || (write.kind === 'delete' ? 'delete' : before ? 'update' : 'create');
+  const changes = diffRecords(before, after);
+  const serverFields = write.kind === 'delete' ? [] : sentinelPaths(write.data);
+  // Nothing but bookkeeping fields changed (e.g. an autosave of identical data)
+  const unchanged = action === 'update' && changes.length === 0;
+
+  const record = after || before || {};
+  const label = options.label || String(record.lotNumber || record.name || ref.id);
+
+  if (write.kind === 'delete') writer.delete(ref);
+  else if (write.kind === 'update') writer.update(ref, write.data as DocumentData);
+  else writer.set(ref, write.data, { merge: !!write.merge });
+
+  if (!unchanged) {
+    writer.set(doc(collection(db, COLLECTION)), {
+      collection: ref.parent.path,
+      docId: ref.id,
+      label,
+      action,
+      changes: JSON.parse(JSON.stringify(changes)),
+      afterHash: await hashRecord(after, serverFields),
+      serverFields,
+      reason: options.reason || '',
+      userId: user.uid,
+      userEmail: user.email || '',
+      at: serverTimestamp()
+    });
+  }
+};
+
+const auditedWrite = async (ref: DocumentReference, write: WriteKind, options: AuditOptions): Promise<void> => {
+  const snap = await getDoc(ref);
+  const batch = writeBatch(db);
+  await stageAuditedWrite(batch, snap, write, options);
+  await batch.commit();
+};
+
+// auditedUpdate inside a transaction, `snap` being the record read in it
+export const auditedTransactionUpdate = (
+  transaction: Transaction,
+  snap: DocumentSnapshot,
+  data: Record<string, unknown>,
+  options: AuditOptions = {}
+) => stageAuditedWrite(transaction, snap, { kind: 'update', data }, options);
+
+export const auditedSet = (ref: DocumentReference, data: Record<string, unknown>, options: AuditOptions & { merge?: boolean } = {}) =>
+  auditedWrite(ref, { kind: 'set', data, merge: options.merge }, options);
+
+export const auditedUpdate = (ref: DocumentReference, data: Record<string, unknown>, options: AuditOptions = {}) =>
+  auditedWrite(ref, { kind: 'update', data }, options);
+
+export const auditedDelete = (ref: DocumentReference, options: AuditOptions = {}) =>
+  auditedWrite(ref, { kind: 'delete' }, options);
+
+// addDoc equivalent: the id is generated first so the entry can reference it
+export const auditedAdd = async (
+  collectionRef: CollectionReference,
+  data: Record<string, unknown>,
+  options: AuditOptions = {}
+): Promise<string> => {
+  const ref = doc(collectionRef);
+  await auditedWrite(ref, { kind: 'set', data }, options);
+  return ref.id;
+};
+
+// History of one record, oldest first
+export const getRecordHistory = async (collectionName: string, docId: string): Promise<AuditEntry[]> => {
+  const snap = await getDocs(query(
+    collection(db, COLLECTION),
+    where('collection', '==', collectionName),
+    where('docId', '==', docId)
+  ));
+  const { items, errors } = parseDocuments(auditEntrySchema, snap.docs, COLLECTION);
+  errors.forEach(error => console.error(error.message));
+  return items.sort((a, b) => (a.at || '').localeCompare(b.at || ''));
+};
+
+// Entries of a period for the auditors' export, newest first
+export const getAuditEntries = async (from: Date, to: Date, collectionName?: string): Promise<AuditEntry[]> => {
+  const constraints = [
+    where('at', '>=', Timestamp.fromDate(from)),
+    where('at', '<=', Timestamp.fromDate(to)),
+    orderBy('at', 'desc')
+  ];
+  const snap = await getDocs(query(collection(db, COLLECTION), ...constraints));
+  const { items, errors } = parseDocuments(auditEntrySchema, snap.docs, COLLECTION);
+  errors.forEach(error => console.error(error.message));
+  return collectionName ? items.filter(entry => entry.collection === collectionName) : items;
+};
+
+// Whether the record still has the content recorded by its latest entry
+export const verifyRecordIntegrity = async (collectionName: string, docId: string, history: AuditEntry[]): Promise<boolean | null> => {
+  const latest = history[history.length - 1];
+  if (!latest || !latest.afterHash) return null;
+  const snap = await getDoc(doc(db, collectionName, docId));
+  return (await hashRecord(snap.exists() ? snap.data() : null, latest.serverFields)) === latest.afterHash;
+};
+
+const csvCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+// One line per changed field, the format requested by certification auditors
+export const auditEntriesToCsv = (entries: AuditEntry[]): string => {
+  const header = ['Date', 'Utilisateur', 'Collection', 'Document', 'Enregistrement', 'Action', 'Champ', 'Avant', 'Après', 'Motif', 'Empreinte SHA-256'];
+  const rows = entries.flatMap(entry => {
+    const base = [entry.at || '', entry.userEmail || entry.userId, entry.collection, entry.docId, entry.label, entry.action];
+    const tail = [entry.reason, entry.afterHash];
+    if (entry.changes.length === 0) return [[...base, '', '', '', ...tail]];
+    return entry.changes.map(change => [...base, change.field, change.before, change.after, ...tail]);
+  });
+  return [header, ...rows].map(row => row.map(csvCell).join(';')).join('\n');
+};
@@ -0,0 +1,83 @@
+import { collection, doc, getDocs, serverTimestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { auditedAdd, auditedSet, auditedUpdate } from './auditTrailService';
+import {
+  Client,
+  clientOrderDocSchema,
+  clientSchema,
+  clientWriteSchema,
+  ClientWrite,
+  nextSiteCode,
+  parseDocuments,
+  parseDomain,
+  resolveClient
+} from '@shared/domain';
+
+export { clientAddress, clientKey, normalizeClientName, orderClientFields, resolveClient } from '@shared/domain';
+export type { Client, ClientAddress, ClientContact, ClientPackaging, ClientWrite, PaymentTerms } from '@shared/domain';
+
+const COLLECTION = 'clients';
+
+export const getClients = async (): Promise<Client[]> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDocs(collection(db, COLLECTION));
+  const { items, errors } = parseDocuments(clientSchema, snap.docs, COLLECTION);
+  errors.forEach(error => console.error(error.message));
+  return items.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Clients are deactivated rather than deleted: orders and invoices keep pointing to them
+export const saveClient = async (client: ClientWrite & { id?: string }): Promise<string> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const { id, ...data } = client;
+  const parsed = parseDomain(clientWriteSchema, data, COLLECTION);
+  // Firestore refuses undefined fields
+  const payload = { ...JSON.parse(JSON.stringify(parsed)), updatedAt: serverTimestamp() };
+
+  if (id) {
+    await auditedSet(doc(db, COLLECTION, id), payload, { label: `Client ${parsed.name}`, merge: true });
+    return id;
+  }
+
+  if (!payload.code) {
+    const existing = await getDocs(collection(db, COLLECTION));
+    payload.code = nextSiteCode('CL', existing.docs.map(d => String(d.get('code') || '')));
+  }
+  return auditedAdd(collection(db, COLLECTION), { ...payload, createdAt: serverTimestamp() }, { label: `Client ${parsed.name}` });
+};
+
+/**
+ * Sets clientId on the orders taken before the clients module, matching their client name
+ * against the client names and aliases. Names matching no client are returned so they can
+ * be added as aliases (or as new clients) and the linking run again.
+ */
+export const linkOrdersToClients = async (clients: Client[]): Promise<{ linked: number; unmatched: string[] }> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDocs(collection(db, 'client-orders'));
+  const { items, errors } = parseDocuments(clientOrderDocSchema, snap.docs, 'client-orders');
+  errors.forEach(error => console.error(error.message));
+
+  let linked = 0;
+  const unmatched = new Set<string>();
+  for (const order of items) {
+    if (order.clientId) continue;
+    const client = resolveClient(clients, { clientName: order.clientName });
+    if (!client) {
+      unmatched.add(order.clientName);
+      continue;
+    }
+    await auditedUpdate(doc(db, 'client-orders', order.id), { clientId: client.id, updatedAt: serverTimestamp() }, {
+      label: `Commande ${order.orderNumber}`,
+      reason: `Rattachée au client ${client.code || client.name}`
+    });
+    linked++;
+  }
+  return { linked, unmatched: Array.from(unmatched).sort() };
+};
@@ -1,9 +1,7 @@
 import { 
   collection,
-  addDoc,
-  updateDoc,
-  deleteDoc,
   doc,
+  getDoc,
   onSnapshot,
   query,
   orderBy,
@@ -11,30 +9,13 @@ import {
   Timestamp
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { documentUpdatedAt, newDocumentId, registerReplayHandler, runOrQueue } from '@/lib/offlineQueue';
+import { auditedDelete, auditedSet, auditedUpdate } from '@/lib/auditTrailService';
 
-// Data model for waste tracking
-export interface DechetRow {
-  numeroPalette: string;     // N° palette
-  nombreCaisses: string;     // Nombre de caisses
-  poidsBrut: string;         // Poids Brut
-  poidsNet: string;          // Poids Net
-  natureDechet: string;      // Nature de déchet
-  variete: string;           // Variété
-}
+import { dechetFormSchema, DechetFormData, DomainValidationError, parseDomain } from '@shared/domain';
 
-export interface DechetFormData {
-  header: {
-    code: string;              // F.S.D
-    date: string;              // Date creation
-    version: string;           // version
-    dateTraitement: string;    // Date traitement
-    responsableTracabilite: string; // Responsable Traçabilité
-    produit: string;           // AVOCAT
-    conventionnel: boolean;
-    biologique: boolean;
-  };
-  rows: DechetRow[];
-}
+// Data model for waste tracking
+export type { DechetRow, DechetFormData } from '@shared/domain';
 
 export interface DechetArchive {
   id: string;
@@ -54,29 +35,55 @@ export interface UpdateDechetArchive {
   data?: DechetFormData;
 }
 
+// Fields of one archive written by add / update, as kept in the offline queue
+interface DechetArchiveWrite {
+  id: string;
+  lotNumber?: string;
+  data?: DechetFormData;
+}
+
 class DechetArchiveService {
   private collectionName = 'dechet_archives';
 
   async add(archiveData: CreateDechetArchive): Promise<string> {
-    const docRef = await addDoc(collection(db, this.collectionName), {
-      ...archiveData,
-      createdAt: serverTimestamp(),
-      updatedAt: serverTimestamp(),
-    });
-    return docRef.id;
+    const id = newDocumentId(this.collectionName);
+    const data = parseDomain(dechetFormSchema, archiveData.data, `${this.collectionName} (création)`);
+    return this.queueWrite({ id, lotNumber: archiveData.lotNumber, data }, `Déchets ${archiveData.lotNumber}`);
   }
 
   async update(id: string, updates: UpdateDechetArchive): Promise<void> {
+    if (updates.data) {
+      updates = { ...updates, data: parseDomain(dechetFormSchema, updates.data, `${this.collectionName}/${id}`) };
+    }
+    await this.queueWrite({ id, ...updates }, `Déchets ${updates.lotNumber || id}`);
+  }
+
+  private queueWrite(archive: DechetArchiveWrite, label: string): Promise<string> {
+    return runOrQueue(
+      { kind: 'dechet_archive', docId: archive.id, label, payload: archive },
+      () => this.write(archive),
+      archive.id
+    );
+  }
+
+  // Creates the document when it does not exist yet (archive added while offline)
+  async write({ id, ...fields }: DechetArchiveWrite): Promise<string> {
+    const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
     const docRef = doc(db, this.collectionName, id);
-    await updateDoc(docRef, {
-      ...updates,
-      updatedAt: serverTimestamp(),
-    });
+    const snap = await getDoc(docRef);
+    const audit = { label: `Déchets ${defined.lotNumber || snap.data()?.lotNumber || id}` };
+    if (snap.exists()) {
+      await auditedUpdate(docRef, { ...defined, updatedAt: serverTimestamp() }, audit);
+    } else {
+      await auditedSet(docRef, { ...defined, createdAt: serverTimestamp(), updatedAt: serverTimestamp() }, audit);
+    }
+    return id;
   }
 
   async delete(id: string): Promise<void> {
     const docRef = doc(db, this.collectionName, id);
-    await deleteDoc(docRef);
+    const snap = await getDoc(docRef);
+    await auditedDelete(docRef, { label: `Déchets ${snap.data()?.lotNumber || id}` });
   }
 
   subscribe(
@@ -92,13 +99,25 @@ class DechetArchiveService {
       q,
       (querySnapshot) => {
         const archives: DechetArchive[] = [];
+        const invalid: DomainValidationError[] = [];
         querySnapshot.forEach((doc) => {
-          archives.push({
-            id: doc.id,
-            ...(doc.data() as any),
-          } as DechetArchive);
+          const raw = doc.data();
+          try {
+            archives.push({
+              id: doc.id,
+              lotNumber: String(raw.lotNumber || ''),
+              data: parseDomain(dechetFormSchema, raw.data, `${this.collectionName}/${doc.id}`),
+              createdAt: raw.createdAt,
+              updatedAt: raw.updatedAt,
+            });
+          } catch (error) {
+            if (!(error instanceof DomainValidationError)) throw error;
+            console.error(error.message, error.issues);
+            invalid.push(error);
+          }
         });
         onUpdate(archives);
+        if (invalid.length > 0) onError(invalid[0]);
       },
       (error) => {
         console.error('Archive subscription error:', error);
@@ -109,3 +128,8 @@ class DechetArchiveService {
 }
 
 export const dechetArchiveService = new DechetArchiveService();
+
+registerReplayHandler('dechet_archive', {
+  write: (archive: DechetArchiveWrite) => dechetArchiveService.write(archive),
+  remoteUpdatedAt: (_archive, docId) => documentUpdatedAt('dechet_archives', docId)
+});
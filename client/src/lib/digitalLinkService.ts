@@ -0,0 +1,22 @@
+import { buildDigitalLink, SsccSettings, tradeItemForVariety } from '@shared/domain';
+
+export {
+  buildDigitalLink,
+  DIGITAL_LINK_LANGUAGES,
+  negotiateLanguage,
+  parseDigitalLink,
+  tradeItemForVariety
+} from '@shared/domain';
+export type { DigitalLinkLanguage, ParsedDigitalLink, TradeItem } from '@shared/domain';
+
+// Domain of the resolver printed in the QR codes (the Express server). Without it the
+// web app itself answers /01/... URIs, see pages/tracability/digital-link-page.tsx.
+export const DIGITAL_LINK_BASE: string = import.meta.env.VITE_DIGITAL_LINK_BASE || window.location.origin;
+
+// Digital Link of a lot for the box QR; null when no GTIN is configured for its variety
+export const lotDigitalLink = (settings: SsccSettings | null, lotNumber: string, variety?: string): string | null => {
+  const item = tradeItemForVariety(settings?.tradeItems || [], variety);
+  return item ? buildDigitalLink(DIGITAL_LINK_BASE, { gtin: item.gtin, lot: lotNumber }) : null;
+};
+
+export const palletDigitalLink = (sscc: string): string => buildDigitalLink(DIGITAL_LINK_BASE, { sscc });
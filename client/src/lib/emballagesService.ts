@@ -1,26 +1,12 @@
-import { addDoc, collection, deleteDoc, doc, getDoc, getDocs, orderBy, query, serverTimestamp, Timestamp, updateDoc, where } from 'firebase/firestore';
+import { collection, doc, getDoc, getDocs, orderBy, query, serverTimestamp, where } from 'firebase/firestore';
 import { auth, db } from './firebase';
 import { onAuthStateChanged } from 'firebase/auth';
+import { auditedAdd, auditedDelete, auditedSet, auditedUpdate } from './auditTrailService';
+import { documentUpdatedAt, newDocumentId, registerReplayHandler, runOrQueue } from './offlineQueue';
+import { syncEmballageGenealogy } from './lotGenealogyService';
+import { emballageFormSchema, EmballageFormData, emballageLotSchema, parseDomain } from '@shared/domain';
 
-export interface EmballageRow {
-  dateConditionnement: string;
-  produit: string;
-  typeEmballage: string;
-  numeroLot: string;
-  quantite: string;
-  fournisseur: string;
-}
-
-export interface EmballageFormData {
-  header: {
-    code: string;
-    version: string;
-    date: string;
-    responsableEmballage: string;
-    responsableQualite: string;
-  };
-  rows: EmballageRow[];
-}
+export type { EmballageRow, EmballageFormData } from '@shared/domain';
 
 export interface EmballageLotDoc {
   id: string;
@@ -46,15 +32,21 @@ export const waitForAuth = (): Promise<boolean> => {
   });
 };
 
-const tsToIso = (v: any): string => {
-  if (!v) return new Date().toISOString();
-  if (v instanceof Timestamp) return v.toDate().toISOString();
-  return typeof v === 'string' ? v : new Date(v).toISOString();
+const toEmballageLotDoc = (d: { id: string; data: () => unknown }): EmballageLotDoc => {
+  const lot = parseDomain(emballageLotSchema, { ...(d.data() as object), id: d.id }, `${COLLECTION}/${d.id}`);
+  const now = new Date().toISOString();
+  return {
+    ...lot,
+    createdAt: lot.createdAt || now,
+    updatedAt: lot.updatedAt || now,
+    archived: !!lot.archived,
+    createdBy: lot.createdBy || undefined,
+  };
 };
 
-export const saveEmballageLot = async (
-  lot: Omit<EmballageLotDoc, 'id' | 'createdAt' | 'updatedAt' | 'archived'> & { id?: string }
-): Promise<string> => {
+type EmballageLotInput = Omit<EmballageLotDoc, 'id' | 'createdAt' | 'updatedAt' | 'archived'> & { id?: string };
+
+const writeEmballageLot = async (lot: EmballageLotInput & { id: string }): Promise<string> => {
   const isAuth = await waitForAuth();
   if (!isAuth) throw new Error('Utilisateur non authentifié');
 
@@ -62,24 +54,45 @@ export const saveEmballageLot = async (
   const payload = {
     lotNumber: lot.lotNumber,
     status: lot.status || 'brouillon',
-    emballageData: lot.emballageData,
+    emballageData: parseDomain(emballageFormSchema, lot.emballageData, COLLECTION),
     updatedAt: now,
     createdAt: now,
     archived: false,
     createdBy: auth.currentUser?.uid || null,
   };
 
-  if (lot.id) {
-    const d = doc(db, COLLECTION, lot.id);
-    const snap = await getDoc(d);
-    if (snap.exists()) {
-      await updateDoc(d, { ...payload, createdAt: snap.data().createdAt || now });
-      return lot.id;
-    }
+  const d = doc(db, COLLECTION, lot.id);
+  const snap = await getDoc(d);
+  const audit = { label: `Emballage ${lot.lotNumber}` };
+  if (snap.exists()) {
+    await auditedUpdate(d, { ...payload, createdAt: snap.data().createdAt || now }, audit);
+  } else {
+    await auditedSet(d, payload, audit);
   }
 
-  const newDoc = await addDoc(collection(db, COLLECTION), payload);
-  return newDoc.id;
+  // Link the packaging lots to the production lots packed the same day
+  syncEmballageGenealogy({ collection: COLLECTION, docId: lot.id }, { lotNumber: lot.lotNumber, rows: payload.emballageData.rows })
+    .catch(err => console.warn('Généalogie non synchronisée:', err));
+  return lot.id;
+};
+
+registerReplayHandler('emballage_lot', {
+  write: writeEmballageLot,
+  remoteUpdatedAt: (_lot, docId) => documentUpdatedAt(COLLECTION, docId)
+});
+
+// Saved immediately when online, queued on the tablet otherwise
+export const saveEmballageLot = async (lot: EmballageLotInput): Promise<string> => {
+  const pending = {
+    ...lot,
+    id: lot.id || newDocumentId(COLLECTION),
+    emballageData: parseDomain(emballageFormSchema, lot.emballageData, COLLECTION)
+  };
+  return runOrQueue(
+    { kind: 'emballage_lot', docId: pending.id, label: `Emballage ${lot.lotNumber}`, payload: pending },
+    () => writeEmballageLot(pending),
+    pending.id
+  );
 };
 
 export const archiveEmballageLot = async (
@@ -92,7 +105,7 @@ export const archiveEmballageLot = async (
   const base = {
     lotNumber: lot.lotNumber,
     status: lot.status || 'termine',
-    emballageData: lot.emballageData,
+    emballageData: parseDomain(emballageFormSchema, lot.emballageData, COLLECTION),
     updatedAt: now,
     createdAt: now,
     archived: true,
@@ -100,17 +113,17 @@ export const archiveEmballageLot = async (
     createdBy: auth.currentUser?.uid || null,
   };
 
+  const audit = { label: `Emballage ${lot.lotNumber}` };
   if (lot.id) {
     const d = doc(db, COLLECTION, lot.id);
     const snap = await getDoc(d);
     if (snap.exists()) {
-      await updateDoc(d, { ...base, createdAt: snap.data().createdAt || now });
+      await auditedUpdate(d, { ...base, createdAt: snap.data().createdAt || now }, audit);
       return lot.id;
     }
   }
 
-  const newDoc = await addDoc(collection(db, COLLECTION), base);
-  return newDoc.id;
+  return auditedAdd(collection(db, COLLECTION), base, audit);
 };
 
 export const getEmballageArchives = async (): Promise<EmballageLotDoc[]> => {
@@ -124,20 +137,7 @@ export const getEmballageArchives = async (): Promise<EmballageLotDoc[]> => {
       orderBy('archivedAt', 'desc')
     );
     const snap = await getDocs(q);
-    return snap.docs.map(d => {
-      const data = d.data() as any;
-      return {
-        id: d.id,
-        lotNumber: data.lotNumber,
-        status: data.status,
-        emballageData: data.emballageData,
-        createdAt: tsToIso(data.createdAt),
-        updatedAt: tsToIso(data.updatedAt),
-        archived: !!data.archived,
-        archivedAt: data.archivedAt ? tsToIso(data.archivedAt) : undefined,
-        createdBy: data.createdBy || undefined,
-      } as EmballageLotDoc;
-    });
+    return snap.docs.map(toEmballageLotDoc);
   } catch (err: any) {
     // Fallback when composite index is missing
     const qSimple = query(
@@ -145,20 +145,7 @@ export const getEmballageArchives = async (): Promise<EmballageLotDoc[]> => {
       where('archived', '==', true)
     );
     const snap = await getDocs(qSimple);
-    const items = snap.docs.map(d => {
-      const data = d.data() as any;
-      return {
-        id: d.id,
-        lotNumber: data.lotNumber,
-        status: data.status,
-        emballageData: data.emballageData,
-        createdAt: tsToIso(data.createdAt),
-        updatedAt: tsToIso(data.updatedAt),
-        archived: !!data.archived,
-        archivedAt: data.archivedAt ? tsToIso(data.archivedAt) : undefined,
-        createdBy: data.createdBy || undefined,
-      } as EmballageLotDoc;
-    });
+    const items = snap.docs.map(toEmballageLotDoc);
     items.sort((a, b) => new Date(b.archivedAt || b.updatedAt).getTime() - new Date(a.archivedAt || a.updatedAt).getTime());
     return items;
   }
@@ -167,11 +154,13 @@ export const getEmballageArchives = async (): Promise<EmballageLotDoc[]> => {
 export const deleteEmballageArchive = async (id: string): Promise<void> => {
   const isAuth = await waitForAuth();
   if (!isAuth) throw new Error('Utilisateur non authentifié');
-  await deleteDoc(doc(db, COLLECTION, id));
+  const d = doc(db, COLLECTION, id);
+  const snap = await getDoc(d);
+  await auditedDelete(d, { label: `Emballage ${snap.data()?.lotNumber || id}` });
 };
 
 export const renameEmballageArchive = async (id: string, lotNumber: string): Promise<void> => {
   const isAuth = await waitForAuth();
   if (!isAuth) throw new Error('Utilisateur non authentifié');
-  await updateDoc(doc(db, COLLECTION, id), { lotNumber, updatedAt: serverTimestamp() });
+  await auditedUpdate(doc(db, COLLECTION, id), { lotNumber, updatedAt: serverTimestamp() }, { label: `Emballage ${lotNumber}` });
 };
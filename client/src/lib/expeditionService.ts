@@ -0,0 +1,81 @@
+import { collection, doc, getDocs, query, serverTimestamp, Timestamp, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { auditedSet, auditedUpdate } from './auditTrailService';
+import { deriveExpeditionEdges, syncGenealogySource } from './lotGenealogyService';
+import { deriveExpeditionMovements, syncStockMovements } from './stockLedgerService';
+import { markPalletsShipped } from './palletRegistryService';
+import { registerReplayHandler, runOrQueue } from './offlineQueue';
+import { recordExpeditionTemperatures } from './temperatureService';
+import { expeditionFormSchema, ExpeditionFormData, parseDomain } from '@shared/domain';
+
+const COLLECTION = 'expeditions';
+
+interface ExpeditionWrite {
+  expedition: ExpeditionFormData;
+  userId: string;
+}
+
+// Expeditions are looked up by their own `id` field (exp_...), older documents have a random document id
+const findExpeditionDoc = async (expeditionId: string) => {
+  const snap = await getDocs(query(collection(db, COLLECTION), where('id', '==', expeditionId)));
+  return snap.empty ? null : snap.docs[0];
+};
+
+const writeExpedition = async ({ expedition, userId }: ExpeditionWrite): Promise<'created' | 'updated'> => {
+  const data = parseDomain(expeditionFormSchema, expedition, COLLECTION);
+  const expeditionId = data.id as string;
+  const existing = await findExpeditionDoc(expeditionId);
+
+  const audit = { label: `Expédition ${data.name}` };
+  let outcome: 'created' | 'updated';
+  if (existing) {
+    await auditedUpdate(existing.ref, { ...data, userId, updatedAt: serverTimestamp() }, audit);
+    outcome = 'updated';
+  } else {
+    // Document id = expedition id so a replayed creation cannot produce a duplicate
+    await auditedSet(doc(db, COLLECTION, expeditionId), {
+      ...data,
+      userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    }, audit);
+    outcome = 'created';
+  }
+
+  // Link shipped pallets to their internal lots for traceability
+  const genealogySource = { collection: COLLECTION, docId: expeditionId };
+  syncGenealogySource(genealogySource, deriveExpeditionEdges(data, genealogySource))
+    .catch(err => console.warn('Généalogie non synchronisée:', err));
+
+  // Shipped pallets leave the chambres froides
+  syncStockMovements(genealogySource, deriveExpeditionMovements(data, genealogySource))
+    .catch(err => console.warn('Registre de stock non synchronisé:', err));
+
+  // Scanned SSCC labels: the pallets are shipped with this expedition
+  markPalletsShipped(data)
+    .catch(err => console.warn('Registre des palettes non synchronisé:', err));
+
+  // T° camion / T° produit go to the cold-chain log, where they are checked against the variety range
+  recordExpeditionTemperatures(data)
+    .catch(err => console.warn('Températures non enregistrées:', err));
+
+  return outcome;
+};
+
+registerReplayHandler('expedition', {
+  write: writeExpedition,
+  remoteUpdatedAt: async ({ expedition }: ExpeditionWrite) => {
+    const existing = await findExpeditionDoc(expedition.id as string);
+    const updatedAt = existing?.data().updatedAt;
+    if (!updatedAt) return null;
+    return updatedAt instanceof Timestamp ? updatedAt.toDate() : new Date(updatedAt);
+  }
+});
+
+// Saved immediately when online, queued on the tablet otherwise
+export const saveExpedition = (expedition: ExpeditionFormData, userId: string): Promise<'created' | 'updated' | 'queued'> =>
+  runOrQueue<'created' | 'updated' | 'queued'>(
+    { kind: 'expedition', docId: expedition.id as string, label: `Expédition ${expedition.name}`, payload: { expedition, userId } },
+    () => writeExpedition({ expedition, userId }),
+    'queued'
+  );
@@ -0,0 +1,49 @@
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { getSupplierScorecardData } from './supplierScorecardService';
+import {
+  FarmHarvestRecord,
+  FarmRef,
+  matchesFarm,
+  SupplierControl,
+  toFarmHarvestRecord,
+  WeighbridgeDelivery
+} from '@shared/domain';
+
+export { campaignRange, computeFarmStats, farmCampaigns } from '@shared/domain';
+export type { FarmHarvestRecord, FarmStats, FarmStatsRange } from '@shared/domain';
+
+export interface FarmStatsData {
+  records: FarmHarvestRecord[];
+  controls: SupplierControl[];
+  deliveries: WeighbridgeDelivery[];
+}
+
+// Everything recorded for the farm; the page filters it by campaign with computeFarmStats
+export const getFarmStatsData = async (farm: FarmRef): Promise<FarmStatsData> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const [multiLotsSnap, trackingSnap, supplierData] = await Promise.all([
+    getDocs(collection(db, 'multi_lots')),
+    getDocs(collection(db, 'avocado-tracking')),
+    getSupplierScorecardData()
+  ]);
+
+  // Multi-lots keep the farm picked in the form (its id), legacy tracking only the typed fields
+  const records = [
+    ...multiLotsSnap.docs
+      .filter(d => matchesFarm(farm, [d.data().selectedFarm, d.data().harvest?.farmLocation, d.data().harvest?.farmerId]))
+      .map(d => toFarmHarvestRecord(d.id, 'multi_lots', d.data())),
+    ...trackingSnap.docs
+      .filter(d => matchesFarm(farm, [d.data().harvest?.farmLocation, d.data().harvest?.farmerId]))
+      .map(d => toFarmHarvestRecord(d.id, 'avocado-tracking', d.data()))
+  ];
+
+  return {
+    records,
+    controls: supplierData.controls.filter(c => matchesFarm(farm, [c.supplier])),
+    deliveries: supplierData.deliveries.filter(d => matchesFarm(farm, [d.supplier]))
+  };
+};
@@ -9,11 +9,31 @@ import {
   query, 
   where, 
   orderBy,
+  limit,
+  onSnapshot,
   Timestamp,
   serverTimestamp
 } from "firebase/firestore";
-import { db } from "./firebase";
+import { auth, db } from "./firebase";
+import { auditedDelete, auditedSet, auditedUpdate } from "./auditTrailService";
+import { releaseOrder } from "./orderAllocationService";
+import { clientKey, getClients } from "./clientService";
 import { Farm, Lot, AvocadoTracking, StatsData } from "@shared/schema";
+import {
+  ClientOrder,
+  clientOrderDocSchema,
+  clientOrderFromAvocadoOrder,
+  ClientOrderStatus,
+  ClientOrderWrite,
+  clientOrderWriteSchema,
+  lotNumberKey,
+  migratedOrderStatus,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES,
+  orderStatusChange,
+  parseDocuments,
+  parseDomain
+} from "@shared/domain";
 import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
 import { storage } from './firebase';
 import { generateLotPDF } from './pdfGenerator';
@@ -179,7 +199,8 @@ export const addFarm = async (data: Omit<Farm, 'id' | 'createdAt' | 'updatedAt'>
     };
     
     console.log("Creating farm document with data:", newFarm);
-    const docRef = await addDoc(farmsRef, newFarm);
+    const docRef = doc(farmsRef);
+    await auditedSet(docRef, newFarm);
     console.log("Farm document created with ID:", docRef.id);
     
     const docSnap = await getDoc(docRef);
@@ -217,7 +238,7 @@ export const updateFarm = async (id: string, data: Partial<Omit<Farm, 'id' | 'cr
     };
     
     console.log("Updating farm document with data:", updateData);
-    await updateDoc(farmRef, updateData);
+    await auditedUpdate(farmRef, updateData);
     
     const docSnap = await getDoc(farmRef);
     const farm = convertFarmDoc(docSnap);
@@ -234,7 +255,7 @@ export const deleteFarm = async (id: string): Promise<void> => {
   try {
     console.log("Deleting farm from Firestore:", id);
     const farmRef = doc(db, "farms", id);
-    await deleteDoc(farmRef);
+    await auditedDelete(farmRef);
     console.log("Farm deleted successfully");
   } catch (error) {
     console.error("Error deleting farm:", error);
@@ -263,7 +284,8 @@ export const addLot = async (data: Omit<Lot, 'id' | 'createdAt' | 'updatedAt'>):
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp()
     };
-    const docRef = await addDoc(lotsRef, newLot);
+    const docRef = doc(lotsRef);
+    await auditedSet(docRef, newLot);
     const docSnap = await getDoc(docRef);
     return convertLotDoc(docSnap);
   } catch (error) {
@@ -279,7 +301,7 @@ export const updateLot = async (id: string, data: Partial<Omit<Lot, 'id' | 'crea
       ...data,
       updatedAt: serverTimestamp()
     };
-    await updateDoc(lotRef, updateData);
+    await auditedUpdate(lotRef, updateData);
     const docSnap = await getDoc(lotRef);
     return convertLotDoc(docSnap);
   } catch (error) {
@@ -291,7 +313,7 @@ export const updateLot = async (id: string, data: Partial<Omit<Lot, 'id' | 'crea
 export const deleteLot = async (id: string): Promise<void> => {
   try {
     const lotRef = doc(db, "lots", id);
-    await deleteDoc(lotRef);
+    await auditedDelete(lotRef);
   } catch (error) {
     console.error("Error deleting lot:", error);
     throw error;
@@ -354,24 +376,16 @@ export const getAvocadoTrackingByLotNumber = async (lotNumber: string): Promise<
         return result;
       }
       
-      // If no exact match, try case-insensitive search by fetching all and filtering
-      // This is a fallback for cases where lot numbers might have different casing
-      console.log("No exact match found, trying fallback search");
-      const allQuery = query(trackingRef);
-      querySnapshot = await getDocs(allQuery);
+      // If no exact match, compare the normalized key stored with the lot
+      // (lot numbers might have different casing or spacing)
+      console.log("No exact match found, trying normalized lot number");
+      const keyQuery = query(trackingRef, where("lotNumberKey", "==", lotNumberKey(lotNumber)), limit(1));
+      querySnapshot = await getDocs(keyQuery);
       
-      const foundDoc = querySnapshot.docs.find(doc => {
-        const data = doc.data();
-        const docLotNumber = data.harvest?.lotNumber;
-        if (!docLotNumber) return false;
-        
-        return docLotNumber.toLowerCase() === lotNumber.toLowerCase() ||
-               docLotNumber.toUpperCase() === lotNumber.toUpperCase() ||
-               docLotNumber === lotNumber;
-      });
+      const foundDoc = querySnapshot.docs[0];
       
       if (foundDoc) {
-        console.log("Found match with fallback search:", foundDoc.data().harvest?.lotNumber);
+        console.log("Found match with normalized lot number:", foundDoc.data().harvest?.lotNumber);
         const result = convertAvocadoTrackingDoc(foundDoc);
         LotCache.set(lotNumber, result);
         return result;
@@ -399,6 +413,7 @@ export const addAvocadoTracking = async (data: Omit<AvocadoTracking, 'id' | 'cre
         lotNumber: data.harvest?.lotNumber || "",
         variety: data.harvest?.variety || "hass"
       },
+      lotNumberKey: lotNumberKey(data.harvest?.lotNumber || ""),
       transport: {
         lotNumber: data.transport?.lotNumber || "",
         transportCompany: data.transport?.transportCompany || "",
@@ -451,7 +466,8 @@ export const addAvocadoTracking = async (data: Omit<AvocadoTracking, 'id' | 'cre
       updatedAt: serverTimestamp()
     };
 
-    const docRef = await addDoc(trackingRef, cleanData);
+    const docRef = doc(trackingRef);
+    await auditedSet(docRef, cleanData);
     const docSnap = await getDoc(docRef);
     return convertAvocadoTrackingDoc(docSnap);
   } catch (error) {
@@ -465,9 +481,10 @@ export const updateAvocadoTracking = async (id: string, data: Partial<Omit<Avoca
     const trackingRef = doc(db, "avocado-tracking", id);
     const updateData = {
       ...data,
+      ...(data.harvest?.lotNumber !== undefined ? { lotNumberKey: lotNumberKey(data.harvest.lotNumber) } : {}),
       updatedAt: serverTimestamp()
     };
-    await updateDoc(trackingRef, updateData);
+    await auditedUpdate(trackingRef, updateData);
     const docSnap = await getDoc(trackingRef);
     return convertAvocadoTrackingDoc(docSnap);
   } catch (error) {
@@ -479,7 +496,7 @@ export const updateAvocadoTracking = async (id: string, data: Partial<Omit<Avoca
 export const deleteAvocadoTracking = async (id: string): Promise<void> => {
   try {
     const trackingRef = doc(db, "avocado-tracking", id);
-    await deleteDoc(trackingRef);
+    await auditedDelete(trackingRef);
   } catch (error) {
     console.error("Error deleting avocado tracking:", error);
     throw error;
@@ -872,71 +889,18 @@ export const getUsers = async (): Promise<{ email: string; name: string }[]> =>
 };
 
 // Orders API
-export interface ClientOrder {
-  id: string;
-  orderNumber: string;
-  clientName: string;
-  clientEmail: string;
-  clientPhone?: string;
-  products: Array<{
-    id: string;
-    name: string;
-    quantity: number;
-    unit: string;
-    pricePerUnit: number;
-    totalPrice: number;
-  }>;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
-  orderDate: string;
-  requestedDeliveryDate: string;
-  actualDeliveryDate?: string;
-  totalAmount: number;
-  priority: 'high' | 'medium' | 'low';
-  notes?: string;
-  selected?: boolean;
-  shippingAddress: {
-    street: string;
-    city: string;
-    state: string;
-    zipCode: string;
-    country: string;
-  };
-  paymentStatus: 'pending' | 'paid' | 'failed' | 'refunded';
-  createdAt: string;
-  updatedAt: string;
-}
+export type { ClientOrder, ClientOrderStatus, ClientOrderWrite, OrderStatusChange } from '@shared/domain';
+export { canTransitionOrder, ORDER_STATUS_LABELS, ORDER_STATUSES, ORDER_TRANSITIONS } from '@shared/domain';
 
 // Helper function to convert Firestore document to ClientOrder type
 const convertClientOrderDoc = (doc: any): ClientOrder => {
-  const data = doc.data();
-  return {
-    id: doc.id,
-    orderNumber: data.orderNumber || '',
-    clientName: data.clientName || '',
-    clientEmail: data.clientEmail || '',
-    clientPhone: data.clientPhone || '',
-    products: data.products || [],
-    status: data.status || 'pending',
-    orderDate: timestampToISOString(data.orderDate),
-    requestedDeliveryDate: timestampToISOString(data.requestedDeliveryDate),
-    actualDeliveryDate: data.actualDeliveryDate ? timestampToISOString(data.actualDeliveryDate) : undefined,
-    totalAmount: data.totalAmount || 0,
-    priority: data.priority || 'medium',
-    notes: data.notes || '',
-    selected: false,
-    shippingAddress: data.shippingAddress || {
-      street: '',
-      city: '',
-      state: '',
-      zipCode: '',
-      country: ''
-    },
-    paymentStatus: data.paymentStatus || 'pending',
-    createdAt: timestampToISOString(data.createdAt),
-    updatedAt: timestampToISOString(data.updatedAt)
-  };
+  const { selected, ...data } = doc.data() || {};
+  const order = parseDomain(clientOrderDocSchema, { ...data, id: doc.id }, `client-orders/${doc.id}`);
+  return { ...order, selected: false };
 };
 
+const currentUserLabel = () => auth.currentUser?.email || auth.currentUser?.uid || 'inconnu';
+
 // Get all client orders
 export const getClientOrders = async (): Promise<ClientOrder[]> => {
   try {
@@ -953,20 +917,37 @@ export const getClientOrders = async (): Promise<ClientOrder[]> => {
   }
 };
 
-// Add new client order
-export const addClientOrder = async (data: Omit<ClientOrder, 'id' | 'createdAt' | 'updatedAt' | 'selected'>): Promise<ClientOrder> => {
+// Live list of the orders, newest first; a malformed document is logged and left out
+export const subscribeToClientOrders = (onChange: (orders: ClientOrder[]) => void): (() => void) => {
+  const q = query(collection(db, "client-orders"), orderBy("createdAt", "desc"));
+  return onSnapshot(q, snapshot => {
+    const { items, errors } = parseDocuments(clientOrderDocSchema, snapshot.docs, "client-orders");
+    errors.forEach(error => console.error(error.message));
+    onChange(items.map(order => ({ ...order, selected: false })));
+  }, error => console.error("Error listening to client orders:", error));
+};
+
+// Add new client order, as a draft unless the client already confirmed it
+export const addClientOrder = async (
+  data: ClientOrderWrite,
+  status: Extract<ClientOrderStatus, 'draft' | 'confirmed'> = 'draft'
+): Promise<ClientOrder> => {
   try {
     console.log("Adding client order to Firestore:", data);
     
     const ordersRef = collection(db, "client-orders");
     const newOrder = {
-      ...data,
+      // Firestore refuses undefined fields (optional client, calibre, notes...)
+      ...JSON.parse(JSON.stringify(parseDomain(clientOrderWriteSchema, data, "client-orders (création)"))),
+      status,
+      statusHistory: [{ from: null, to: status, at: new Date().toISOString(), by: currentUserLabel() }],
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp()
     };
     
     console.log("Creating order document with data:", newOrder);
-    const docRef = await addDoc(ordersRef, newOrder);
+    const docRef = doc(ordersRef);
+    await auditedSet(docRef, newOrder);
     console.log("Order document created with ID:", docRef.id);
     
     const docSnap = await getDoc(docRef);
@@ -988,19 +969,19 @@ export const addClientOrder = async (data: Omit<ClientOrder, 'id' | 'createdAt'
   }
 };
 
-// Update client order
-export const updateClientOrder = async (id: string, data: Partial<Omit<ClientOrder, 'id' | 'createdAt' | 'updatedAt' | 'selected'>>): Promise<ClientOrder> => {
+// Update client order (content only: the status moves through changeClientOrderStatus)
+export const updateClientOrder = async (id: string, data: Partial<ClientOrderWrite>): Promise<ClientOrder> => {
   try {
     console.log("Updating client order in Firestore:", { id, data });
     
     const orderRef = doc(db, "client-orders", id);
     const updateData = {
-      ...data,
+      ...JSON.parse(JSON.stringify(parseDomain(clientOrderWriteSchema.partial(), data, `client-orders/${id}`))),
       updatedAt: serverTimestamp()
     };
     
     console.log("Updating order document with data:", updateData);
-    await updateDoc(orderRef, updateData);
+    await auditedUpdate(orderRef, updateData);
     
     const docSnap = await getDoc(orderRef);
     const order = convertClientOrderDoc(docSnap);
@@ -1013,12 +994,44 @@ export const updateClientOrder = async (id: string, data: Partial<Omit<ClientOrd
   }
 };
 
+/**
+ * Moves an order to its next status. The transition is checked against the lifecycle
+ * (the rules check it again) and recorded in the order's statusHistory; a cancelled
+ * order gives back the pallets reserved for it.
+ */
+export const changeClientOrderStatus = async (id: string, to: ClientOrderStatus, reason?: string): Promise<ClientOrder> => {
+  const orderRef = doc(db, "client-orders", id);
+  const snap = await getDoc(orderRef);
+  if (!snap.exists()) throw new Error(`Commande ${id} introuvable`);
+  const order = convertClientOrderDoc(snap);
+
+  const change = orderStatusChange(order, to, currentUserLabel(), reason);
+  await auditedUpdate(orderRef, { ...change, updatedAt: serverTimestamp() }, {
+    label: `Commande ${order.orderNumber}`,
+    reason: reason?.trim() || `${ORDER_STATUS_LABELS[order.status]} → ${ORDER_STATUS_LABELS[to]}`
+  });
+  if (to === 'cancelled') await releaseOrder(id);
+
+  return { ...order, ...change };
+};
+
+// Ticks a line of the preparation checklist, the other fields of the line untouched
+export const setOrderLineCompleted = async (orderId: string, lineId: string, completed: boolean): Promise<ClientOrder> => {
+  const snap = await getDoc(doc(db, "client-orders", orderId));
+  if (!snap.exists()) throw new Error(`Commande ${orderId} introuvable`);
+  const order = convertClientOrderDoc(snap);
+  const products = order.products.map(({ completedAt, ...product }) => (product.id === lineId
+    ? { ...product, completed, ...(completed ? { completedAt: new Date().toISOString() } : {}) }
+    : { ...product, ...(completedAt ? { completedAt } : {}) }));
+  return updateClientOrder(orderId, { products });
+};
+
 // Delete client order
 export const deleteClientOrder = async (id: string): Promise<void> => {
   try {
     console.log("Deleting client order from Firestore:", id);
     const orderRef = doc(db, "client-orders", id);
-    await deleteDoc(orderRef);
+    await auditedDelete(orderRef);
     console.log("Order deleted successfully");
   } catch (error) {
     console.error("Error deleting client order:", error);
@@ -1026,50 +1039,45 @@ export const deleteClientOrder = async (id: string): Promise<void> => {
   }
 };
 
-// Bulk update client orders status
-export const bulkUpdateOrderStatus = async (orderIds: string[], status: ClientOrder['status']): Promise<void> => {
-  try {
-    console.log("Bulk updating order status:", { orderIds, status });
-    const promises = orderIds.map(id => {
-      const orderRef = doc(db, "client-orders", id);
-      return updateDoc(orderRef, {
-        status,
-        updatedAt: serverTimestamp()
-      });
-    });
-    await Promise.all(promises);
-    console.log("Bulk update completed successfully");
-  } catch (error) {
-    console.error("Error bulk updating orders:", error);
-    throw error;
+// Bulk status change: orders whose current status does not allow it are left as they are
+export const bulkUpdateOrderStatus = async (orderIds: string[], status: ClientOrderStatus, reason?: string): Promise<{ updated: number; errors: string[] }> => {
+  console.log("Bulk updating order status:", { orderIds, status });
+  const errors: string[] = [];
+  let updated = 0;
+  for (const id of orderIds) {
+    try {
+      await changeClientOrderStatus(id, status, reason);
+      updated++;
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
   }
+  console.log("Bulk update completed:", { updated, errors });
+  return { updated, errors };
 };
 
 // Get order statistics
 export const getOrderStats = async (): Promise<{
   total: number;
-  pending: number;
-  processing: number;
-  shipped: number;
-  delivered: number;
-  cancelled: number;
+  byStatus: Record<ClientOrderStatus, number>;
   totalRevenue: number;
   averageOrderValue: number;
+  clients: number;
 }> => {
   try {
     const ordersRef = collection(db, "client-orders");
-    const querySnapshot = await getDocs(ordersRef);
+    const [querySnapshot, clients] = await Promise.all([getDocs(ordersRef), getClients()]);
     const orders = querySnapshot.docs.map(convertClientOrderDoc);
     
+    const byStatus = Object.fromEntries(ORDER_STATUSES.map(status => [status, 0])) as Record<ClientOrderStatus, number>;
+    orders.forEach(o => { byStatus[o.status]++; });
     const stats = {
       total: orders.length,
-      pending: orders.filter(o => o.status === 'pending').length,
-      processing: orders.filter(o => o.status === 'processing').length,
-      shipped: orders.filter(o => o.status === 'shipped').length,
-      delivered: orders.filter(o => o.status === 'delivered').length,
-      cancelled: orders.filter(o => o.status === 'cancelled').length,
+      byStatus,
       totalRevenue: orders.filter(o => o.status !== 'cancelled').reduce((sum, order) => sum + order.totalAmount, 0),
-      averageOrderValue: 0
+      averageOrderValue: 0,
+      // Spellings of one client count once (clients aliases)
+      clients: new Set(orders.map(o => clientKey(clients, o))).size
     };
     
     stats.averageOrderValue = stats.total > 0 ? stats.totalRevenue / stats.total : 0;
@@ -1080,3 +1088,44 @@ export const getOrderStats = async (): Promise<{
     throw error;
   }
 };
+
+/**
+ * Brings the orders written before the lifecycle into client-orders: avocado_orders
+ * documents are copied (once, found again by legacySource) and old statuses of
+ * client-orders are mapped to the new ones. Safe to run again.
+ */
+export const migrateLegacyOrders = async (): Promise<{ copied: number; updated: number }> => {
+  const at = new Date().toISOString();
+  const [avocadoSnap, ordersSnap] = await Promise.all([
+    getDocs(collection(db, "avocado_orders")),
+    getDocs(collection(db, "client-orders"))
+  ]);
+
+  const alreadyCopied = new Set(ordersSnap.docs
+    .map(d => d.data().legacySource)
+    .filter(source => source?.collection === 'avocado_orders')
+    .map(source => source.id));
+
+  let copied = 0;
+  for (const legacy of avocadoSnap.docs) {
+    if (alreadyCopied.has(legacy.id)) continue;
+    const order = clientOrderFromAvocadoOrder(legacy.id, legacy.data(), at);
+    // Firestore refuses undefined fields
+    const data = JSON.parse(JSON.stringify(order));
+    await auditedSet(doc(collection(db, "client-orders")), { ...data, createdAt: serverTimestamp(), updatedAt: serverTimestamp() }, {
+      label: `Commande ${order.orderNumber}`,
+      reason: 'Reprise des commandes avocado_orders'
+    });
+    copied++;
+  }
+
+  let updated = 0;
+  for (const orderDoc of ordersSnap.docs) {
+    const status = migratedOrderStatus(orderDoc.data(), at);
+    if (!status) continue;
+    await auditedUpdate(orderDoc.ref, { ...status, updatedAt: serverTimestamp() }, { reason: 'Reprise du statut de commande' });
+    updated++;
+  }
+
+  return { copied, updated };
+};
@@ -1,12 +1,12 @@
 import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from './firebase';
-import { ClientOrder } from './firebaseService';
+import { ClientOrderStatus, ClientOrderWrite } from './firebaseService';
 
 export const initializeClientOrders = async () => {
   try {
     console.log("Initializing client orders collection with sample data...");
     
-    const sampleOrders: Omit<ClientOrder, 'id' | 'createdAt' | 'updatedAt' | 'selected'>[] = [
+    const sampleOrders: Array<ClientOrderWrite & { status: ClientOrderStatus }> = [
       {
         orderNumber: 'ORD-2025-001',
         clientName: 'Fresh Markets International',
@@ -30,7 +30,7 @@ export const initializeClientOrders = async () => {
             totalPrice: 1200.00
           }
         ],
-        status: 'processing',
+        status: 'in_production',
         orderDate: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(),
         requestedDeliveryDate: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
         totalAmount: 2950.00,
@@ -106,7 +106,7 @@ export const initializeClientOrders = async () => {
             totalPrice: 3000.00
           }
         ],
-        status: 'pending',
+        status: 'confirmed',
         orderDate: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(),
         requestedDeliveryDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
         totalAmount: 3000.00,
@@ -229,7 +229,7 @@ export const initializeClientOrders = async () => {
             totalPrice: 1125.00
           }
         ],
-        status: 'processing',
+        status: 'in_production',
         orderDate: new Date().toISOString(),
         requestedDeliveryDate: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000).toISOString(),
         totalAmount: 2175.00,
@@ -251,6 +251,7 @@ export const initializeClientOrders = async () => {
     for (const orderData of sampleOrders) {
       const docRef = await addDoc(ordersRef, {
         ...orderData,
+        statusHistory: [{ from: null, to: orderData.status, at: new Date().toISOString(), by: 'exemple' }],
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp()
       });
@@ -0,0 +1,98 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Invoice, InvoiceSettings } from '@shared/domain';
+
+const amount = (value: number, currency: string) =>
+  `${value.toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+const frenchDate = (value: string | null) => (value ? value.slice(0, 10).split('-').reverse().join('/') : '-');
+
+const lastY = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+const paymentTermsLabel = (invoice: Invoice) =>
+  `${invoice.paymentTerms.days} jours${invoice.paymentTerms.endOfMonth ? ' fin de mois' : ''}`
+  + (invoice.paymentTerms.method ? ` · ${invoice.paymentTerms.method}` : '');
+
+/**
+ * The invoice as sent to the client. A draft is printed with 'PROJET' across the page and
+ * no number: only the issued invoice is a legal document.
+ */
+export const buildInvoicePDF = (invoice: Invoice, settings: Omit<InvoiceSettings, 'updatedAt'>): jsPDF => {
+  const doc = new jsPDF();
+
+  doc.setFontSize(14);
+  doc.text(settings.sellerName, 14, 18);
+  doc.setFontSize(9);
+  const seller = [settings.sellerAddress, settings.sellerTaxIds, settings.sellerVatNumber ? `TVA : ${settings.sellerVatNumber}` : '']
+    .filter(Boolean)
+    .flatMap(text => doc.splitTextToSize(text, 90) as string[]);
+  doc.text(seller, 14, 24);
+
+  doc.setFontSize(16);
+  doc.text(invoice.number ? `Facture ${invoice.number}` : 'Projet de facture', 196, 18, { align: 'right' });
+  doc.setFontSize(10);
+  doc.text(`Date : ${frenchDate(invoice.issueDate)}`, 196, 25, { align: 'right' });
+  doc.text(`Échéance : ${frenchDate(invoice.dueDate)}`, 196, 31, { align: 'right' });
+  doc.text(`Commande : ${invoice.orderNumber}`, 196, 37, { align: 'right' });
+
+  const address = invoice.billingAddress;
+  const client = [
+    invoice.clientLegalName || invoice.clientName,
+    address.street,
+    [address.zipCode, address.city].filter(Boolean).join(' '),
+    [address.state, address.country].filter(Boolean).join(', '),
+    invoice.clientVatNumber ? `TVA : ${invoice.clientVatNumber}` : ''
+  ].filter(Boolean);
+  doc.setFontSize(10);
+  doc.text('Facturé à :', 120, 48);
+  doc.text(client, 120, 54);
+
+  autoTable(doc, {
+    startY: 54 + client.length * 5 + 6,
+    head: [['Désignation', 'Calibre', 'Quantité', 'Prix unitaire', 'TVA', 'Montant HT']],
+    body: invoice.lines.map(line => [
+      line.description,
+      line.calibre || '-',
+      `${line.quantity} ${line.unit}`,
+      amount(line.unitPrice, invoice.currency),
+      `${line.vatRatePct}%`,
+      amount(line.netAmount, invoice.currency)
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: [39, 174, 96], fontSize: 9 },
+    bodyStyles: { fontSize: 9 },
+    columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } }
+  });
+
+  autoTable(doc, {
+    startY: lastY(doc) + 4,
+    margin: { left: 120 },
+    body: [
+      ['Total HT', amount(invoice.netTotal, invoice.currency)],
+      ['TVA', amount(invoice.vatTotal, invoice.currency)],
+      ['Total TTC', amount(invoice.grossTotal, invoice.currency)]
+    ],
+    theme: 'plain',
+    bodyStyles: { fontSize: 10 },
+    columnStyles: { 1: { halign: 'right', fontStyle: 'bold' } }
+  });
+
+  doc.setFontSize(9);
+  const conditions = [
+    invoice.incoterm ? `Incoterm : ${invoice.incoterm}` : '',
+    `Conditions de paiement : ${paymentTermsLabel(invoice)}`,
+    settings.bankDetails ? `Coordonnées bancaires : ${settings.bankDetails}` : '',
+    invoice.notes,
+    settings.legalMentions
+  ].filter(Boolean).flatMap(text => doc.splitTextToSize(text, 182) as string[]);
+  doc.text(conditions, 14, Math.min(lastY(doc) + 10, 250));
+
+  if (!invoice.number) {
+    doc.setFontSize(60);
+    doc.setTextColor(200, 200, 200);
+    doc.text('PROJET', 105, 160, { align: 'center', angle: 30 });
+    doc.setTextColor(0, 0, 0);
+  }
+
+  return doc;
+};
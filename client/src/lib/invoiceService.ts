@@ -0,0 +1,320 @@
+import {
+  arrayUnion,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where
+} from 'firebase/firestore';
+import { getDownloadURL, ref, uploadBytes } from 'firebase/storage';
+import { format } from 'date-fns';
+import { auth, db, storage } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { auditedAdd, auditedDelete, auditedSet, auditedTransactionUpdate, auditedUpdate } from './auditTrailService';
+import { changeClientOrderStatus, updateClientOrder } from './firebaseService';
+import { getClients } from './clientService';
+import { buildInvoicePDF } from './invoicePDF';
+import {
+  ClientOrder,
+  clientOrderDocSchema,
+  DEFAULT_INVOICE_SETTINGS,
+  draftInvoiceFromOrder,
+  expeditionFormSchema,
+  Invoice,
+  INVOICEABLE_ORDER_STATUSES,
+  invoiceDraftSchema,
+  invoiceDueDate,
+  InvoiceLine,
+  invoiceLineAmounts,
+  invoiceNumber,
+  invoiceSchema,
+  invoiceSettingsSchema,
+  InvoiceSettings,
+  invoiceSettingsWriteSchema,
+  InvoiceSettingsWrite,
+  invoiceStatusOn,
+  invoiceTotals,
+  orderPaymentStatusFor,
+  parseDocuments,
+  parseDomain,
+  resolveClient
+} from '@shared/domain';
+
+export { buildInvoicePDF } from './invoicePDF';
+export { DEFAULT_INVOICE_SETTINGS, INVOICE_STATUS_LABELS, invoiceLineAmounts, invoiceStatusOn, invoiceTotals } from '@shared/domain';
+export type { Invoice, InvoiceLine, InvoiceSettings, InvoiceSettingsWrite, InvoiceStatus } from '@shared/domain';
+
+const COLLECTION = 'invoices';
+const SETTINGS_COLLECTION = 'invoice_settings';
+const SETTINGS_ID = 'default';
+const COUNTERS_COLLECTION = 'invoice_counters';
+
+// Accounting archive (Archivagedesfacture): category and container of the generated invoices
+const ARCHIVE_CATEGORY = 'client-invoices';
+const ARCHIVE_CONTAINER_NAME = 'Factures clients';
+
+// Calendar day where the accountant is, not in UTC
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+export const getInvoiceSettings = async (): Promise<InvoiceSettings> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDoc(doc(db, SETTINGS_COLLECTION, SETTINGS_ID));
+  if (!snap.exists()) return DEFAULT_INVOICE_SETTINGS;
+  return parseDomain(invoiceSettingsSchema, snap.data(), `${SETTINGS_COLLECTION}/${SETTINGS_ID}`);
+};
+
+// The number prefix only applies to invoices issued afterwards
+export const saveInvoiceSettings = async (settings: InvoiceSettingsWrite): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const payload = parseDomain(invoiceSettingsWriteSchema, settings, SETTINGS_COLLECTION);
+  await auditedSet(
+    doc(db, SETTINGS_COLLECTION, SETTINGS_ID),
+    { ...payload, updatedAt: serverTimestamp() },
+    { label: 'Paramètres de facturation' }
+  );
+};
+
+// Invoices, newest first
+export const getInvoices = async (): Promise<Invoice[]> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDocs(collection(db, COLLECTION));
+  const { items, errors } = parseDocuments(invoiceSchema, snap.docs, COLLECTION);
+  errors.forEach(error => console.error(error.message));
+  return items.sort((a, b) => (b.number || '~').localeCompare(a.number || '~') || (b.createdAt || '').localeCompare(a.createdAt || ''));
+};
+
+// Shipped or delivered orders without an invoice yet
+export const getInvoiceableOrders = async (invoices: Invoice[]): Promise<ClientOrder[]> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDocs(collection(db, 'client-orders'));
+  const { items, errors } = parseDocuments(clientOrderDocSchema, snap.docs, 'client-orders');
+  errors.forEach(error => console.error(error.message));
+  const invoiced = new Set(invoices.map(invoice => invoice.orderId));
+  return items
+    .filter(order => INVOICEABLE_ORDER_STATUSES.includes(order.status) && !invoiced.has(order.id))
+    .sort((a, b) => a.orderNumber.localeCompare(b.orderNumber));
+};
+
+// Expedition sheets of an order (N° de commande client of the header)
+const getOrderExpeditions = async (orderNumber: string) => {
+  const snap = await getDocs(query(collection(db, 'expeditions'), where('headerData.commandeClient', '==', orderNumber)));
+  const { items, errors } = parseDocuments(expeditionFormSchema, snap.docs, 'expeditions');
+  errors.forEach(error => console.error(error.message));
+  return items;
+};
+
+// One invoice per order: the draft takes the id of the order, so two accountants
+// invoicing the same order at once write the same document
+export const createInvoiceDraft = async (order: ClientOrder): Promise<string> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const invoiceRef = doc(db, COLLECTION, order.id);
+  if ((await getDoc(invoiceRef)).exists()) throw new Error(`La commande ${order.orderNumber} a déjà une facture`);
+
+  const [settings, clients, expeditions] = await Promise.all([
+    getInvoiceSettings(),
+    getClients(),
+    getOrderExpeditions(order.orderNumber)
+  ]);
+  const draft = draftInvoiceFromOrder(order, expeditions, resolveClient(clients, order), settings);
+  const payload = JSON.parse(JSON.stringify(parseDomain(invoiceDraftSchema, draft, COLLECTION)));
+  await auditedSet(
+    invoiceRef,
+    { ...payload, createdAt: serverTimestamp(), updatedAt: serverTimestamp() },
+    { label: `Facture (commande ${order.orderNumber})` }
+  );
+  return invoiceRef.id;
+};
+
+// Lines, Incoterm and notes of a draft; amounts and totals are computed again
+export const updateInvoiceDraft = async (
+  invoice: Invoice,
+  changes: { lines: InvoiceLine[]; incoterm: string; notes: string }
+): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+  if (invoice.status !== 'draft') throw new Error(`Facture ${invoice.number} émise : elle ne peut plus être modifiée`);
+
+  const lines = changes.lines.map(line => ({ ...line, ...invoiceLineAmounts(line) }));
+  const data = parseDomain(invoiceSchema.pick({ lines: true, incoterm: true, notes: true }), { ...changes, lines }, COLLECTION);
+  await auditedUpdate(doc(db, COLLECTION, invoice.id), { ...data, ...invoiceTotals(data.lines), updatedAt: serverTimestamp() }, {
+    label: `Facture (commande ${invoice.orderNumber})`
+  });
+};
+
+// Only a draft never numbered can be deleted: a number once given is never lost
+export const deleteInvoiceDraft = async (invoice: Invoice): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+  if (invoice.number) throw new Error(`Facture ${invoice.number} numérotée : elle ne peut pas être supprimée`);
+
+  await auditedDelete(doc(db, COLLECTION, invoice.id), { label: `Facture (commande ${invoice.orderNumber})` });
+};
+
+/**
+ * Numbers and issues a draft in one transaction on the year's counter: two accountants
+ * issuing at once never share a number, and numbers follow the issue dates without gaps.
+ * A draft numbered by an earlier, interrupted version of the issue keeps its number.
+ */
+const issueNumbered = async (invoiceId: string, prefix: string, issueDate: string): Promise<void> =>
+  runTransaction(db, async transaction => {
+    const year = Number(issueDate.slice(0, 4));
+    const invoiceRef = doc(db, COLLECTION, invoiceId);
+    const counterRef = doc(db, COUNTERS_COLLECTION, String(year));
+    const [invoiceSnap, counterSnap] = await Promise.all([transaction.get(invoiceRef), transaction.get(counterRef)]);
+    if (!invoiceSnap.exists()) throw new Error(`Facture ${invoiceId} introuvable`);
+    const current = parseDomain(invoiceSchema, { ...invoiceSnap.data(), id: invoiceSnap.id }, COLLECTION);
+    if (current.status !== 'draft') throw new Error(`Facture ${current.number} déjà émise`);
+
+    let number = current.number;
+    let numbering = {};
+    if (!number) {
+      const sequence = counterSnap.exists() ? Number(counterSnap.get('next')) : 1;
+      number = invoiceNumber(prefix, year, sequence);
+      transaction.set(counterRef, { next: sequence + 1, lastNumber: number, updatedAt: new Date().toISOString() });
+      numbering = { number, fiscalYear: year, sequence };
+    }
+    await auditedTransactionUpdate(transaction, invoiceSnap, {
+      ...numbering,
+      status: 'issued',
+      issueDate,
+      dueDate: invoiceDueDate(issueDate, current.paymentTerms),
+      updatedAt: serverTimestamp()
+    }, { label: `Facture ${number}`, reason: 'Émission de la facture' });
+  });
+
+// Stores the PDF and files it in the accounting archive under 'client-invoices'
+const archiveInvoicePdf = async (invoice: Invoice, pdf: Blob): Promise<{ pdfURL: string; archiveId: string }> => {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Utilisateur non authentifié');
+
+  const fileName = `${invoice.number}.pdf`;
+  const storageRef = ref(storage, `factures/${ARCHIVE_CATEGORY}/${fileName}`);
+  await uploadBytes(storageRef, pdf, { contentType: 'application/pdf' });
+  const pdfURL = await getDownloadURL(storageRef);
+
+  const containers = await getDocs(query(collection(db, 'containers'), where('userId', '==', user.uid)));
+  const existing = containers.docs.find(container => container.get('name') === ARCHIVE_CONTAINER_NAME);
+  const containerId = existing
+    ? existing.id
+    : await auditedAdd(collection(db, 'containers'), {
+      name: ARCHIVE_CONTAINER_NAME,
+      description: 'Factures émises aux clients, archivées à leur émission',
+      userId: user.uid,
+      factures: [],
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    }, { label: ARCHIVE_CONTAINER_NAME });
+
+  const now = new Date().toISOString();
+  const item = {
+    name: fileName,
+    date: now,
+    type: 'application/pdf',
+    category: ARCHIVE_CATEGORY,
+    status: 'validated',
+    reference: invoice.number,
+    amount: invoice.grossTotal,
+    lastModified: now,
+    fileSize: pdf.size,
+    fileUrl: pdfURL,
+    containerId
+  };
+  const archiveId = await auditedAdd(collection(db, 'factures'), { ...item, invoiceId: invoice.id, userId: user.uid }, {
+    label: `Facture ${invoice.number}`
+  });
+  await auditedUpdate(doc(db, 'containers', containerId), { factures: arrayUnion({ ...item, id: archiveId }), updatedAt: serverTimestamp() }, {
+    label: ARCHIVE_CONTAINER_NAME
+  });
+  return { pdfURL, archiveId };
+};
+
+const getInvoice = async (invoiceId: string): Promise<Invoice> => {
+  const snap = await getDoc(doc(db, COLLECTION, invoiceId));
+  if (!snap.exists()) throw new Error(`Facture ${invoiceId} introuvable`);
+  return parseDomain(invoiceSchema, { ...snap.data(), id: snap.id }, COLLECTION);
+};
+
+/**
+ * PDF of an issued invoice, built from the stored number and dates and filed in the
+ * accounting archive. Run by the issue, and again for an invoice whose archiving failed.
+ */
+export const archiveInvoice = async (invoiceId: string): Promise<Invoice> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const invoice = await getInvoice(invoiceId);
+  if (invoice.status === 'draft') throw new Error('Une facture non émise ne peut pas être archivée');
+  if (invoice.pdfURL) return invoice;
+
+  const settings = await getInvoiceSettings();
+  const pdf = buildInvoicePDF(invoice, settings).output('blob');
+  const { pdfURL, archiveId } = await archiveInvoicePdf(invoice, pdf);
+  await auditedUpdate(doc(db, COLLECTION, invoice.id), { pdfURL, archiveId, updatedAt: serverTimestamp() }, {
+    label: `Facture ${invoice.number}`,
+    reason: 'Archivage de la facture'
+  });
+  return { ...invoice, pdfURL, archiveId };
+};
+
+/**
+ * Issues a draft: number, issue and due dates, the order moved to 'invoiced' with its
+ * payment pending, then the PDF archived in the accounting archive.
+ */
+export const issueInvoice = async (invoice: Invoice): Promise<Invoice> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+  if (invoice.status !== 'draft') throw new Error(`Facture ${invoice.number} déjà émise`);
+
+  const settings = await getInvoiceSettings();
+  await issueNumbered(invoice.id, settings.numberPrefix, today());
+  const issued = await getInvoice(invoice.id);
+
+  const orderSnap = await getDoc(doc(db, 'client-orders', invoice.orderId));
+  if (orderSnap.exists() && orderSnap.get('status') !== 'invoiced') {
+    await changeClientOrderStatus(invoice.orderId, 'invoiced', `Facture ${issued.number}`);
+  }
+  if (orderSnap.exists() && orderSnap.get('paymentStatus') !== orderPaymentStatusFor('issued')) {
+    await updateClientOrder(invoice.orderId, { paymentStatus: orderPaymentStatusFor('issued') });
+  }
+  return archiveInvoice(issued.id);
+};
+
+// Payment received: the invoice and its order are paid
+export const markInvoicePaid = async (invoice: Invoice, paidAt: string): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+  if (invoice.status === 'draft') throw new Error('Une facture non émise ne peut pas être payée');
+
+  await auditedUpdate(doc(db, COLLECTION, invoice.id), { status: 'paid', paidAt, updatedAt: serverTimestamp() }, {
+    label: `Facture ${invoice.number}`,
+    reason: `Paiement reçu le ${paidAt.split('-').reverse().join('/')}`
+  });
+  await updateClientOrder(invoice.orderId, { paymentStatus: orderPaymentStatusFor('paid') });
+};
+
+// Issued invoices past their due date become overdue, and so does the payment of their
+// order; returns how many changed
+export const markOverdueInvoices = async (invoices: Invoice[]): Promise<number> => {
+  const overdue = invoices.filter(invoice => invoice.status === 'issued' && invoiceStatusOn(invoice, today()) === 'overdue');
+  for (const invoice of overdue) {
+    await auditedUpdate(doc(db, COLLECTION, invoice.id), { status: 'overdue', updatedAt: serverTimestamp() }, {
+      label: `Facture ${invoice.number}`,
+      reason: `Échéance du ${invoice.dueDate?.split('-').reverse().join('/')} dépassée`
+    });
+    await updateClientOrder(invoice.orderId, { paymentStatus: orderPaymentStatusFor('overdue') });
+  }
+  return overdue.length;
+};
@@ -0,0 +1,482 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import {
+  emballageLotSchema,
+  expeditionFormSchema,
+  LotGenealogyEdge,
+  lotGenealogyEdgeSchema,
+  LotGenealogySource,
+  LotNodeKind,
+  LotNodeRef,
+  LotRelation,
+  parseDocuments,
+  qualityControlLotSchema,
+  receptionControlLotSchema,
+  sharedLotSchema
+} from '@shared/domain';
+
+export type { LotGenealogyEdge, LotGenealogySource, LotNodeKind, LotNodeRef, LotRelation } from '@shared/domain';
+
+export interface LotGenealogyTrace {
+  query: string;
+  roots: LotNodeRef[];
+  upstream: LotNodeRef[];
+  downstream: LotNodeRef[];
+  edges: LotGenealogyEdge[];
+}
+
+export const LOT_NODE_LABELS: Record<LotNodeKind, string> = {
+  reception_lot: 'Lot réception',
+  reception_control: 'Contrôle réception',
+  internal_lot: 'Lot interne',
+  quality_lot: 'Contrôle qualité',
+  production_lot: 'Lot production',
+  production_pallet: 'Palette production',
+  dechet_pallet: 'Palette déchets',
+  packaging_material: 'Emballage',
+  expedition_pallet: 'Palette expédiée'
+};
+
+const COLLECTION = 'lot_genealogy';
+
+// Minimal shapes of the source documents the graph is derived from
+export interface ReceptionGenealogyInput {
+  lotNumber: string;
+  header?: { bonReception?: string; date?: string };
+  rows?: Array<{ numeroLotInterne?: string; poidsNet?: string; variete?: string }>;
+}
+
+export interface ReceptionControlGenealogyInput {
+  lotNumber: string;
+  header?: { receptionBonNumber?: string; productLotNumber?: string; date?: string; variety?: string };
+}
+
+export interface QualityGenealogyInput {
+  lotNumber: string;
+  date?: string;
+  variety?: string;
+  palettes?: Array<{ internalLotNumber?: string | number | boolean }>;
+}
+
+export interface ProductionGenealogyInput {
+  lotNumber: string;
+  headerData?: { date?: string };
+  productionRows?: Array<{
+    numero: number;
+    date?: string;
+    calibre?: string;
+    poidsNet?: string;
+    numeroLotInterne?: string;
+    variete?: string;
+    nbrCP?: string;
+  }>;
+}
+
+export interface DechetGenealogyInput {
+  lotNumber: string;
+  header?: { dateTraitement?: string };
+  rows?: Array<{
+    numeroPalette?: string;
+    poidsNet?: string;
+    variete?: string;
+    numeroLotInterne?: string;
+    natureDechet?: string;
+  }>;
+}
+
+export interface EmballageGenealogyInput {
+  lotNumber: string;
+  rows?: Array<{ numeroLot?: string; dateConditionnement?: string }>;
+}
+
+export interface ExpeditionGenealogyInput {
+  name: string;
+  date?: string;
+  rows?: Array<{
+    palletNo: number;
+    nbrColis?: string;
+    produitVariete?: string;
+    calibre?: string;
+    numeroLotInterne?: string;
+  }>;
+}
+
+export const normalizeLotId = (value: string | number | boolean | undefined | null): string =>
+  String(value ?? '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+export const nodeKey = (node: Pick<LotNodeRef, 'kind' | 'id'>): string => `${node.kind}:${node.id}`;
+
+const makeNode = (kind: LotNodeKind, label: string | number): LotNodeRef => ({
+  kind,
+  id: normalizeLotId(label),
+  label: String(label).trim()
+});
+
+const parseKg = (value?: string): number => {
+  const n = parseFloat(String(value ?? '').replace(',', '.'));
+  return isNaN(n) ? 0 : n;
+};
+
+const parseCount = (value?: string): number | undefined => {
+  const n = parseInt(String(value ?? ''), 10);
+  return isNaN(n) ? undefined : n;
+};
+
+// One document per source: two sheets recording the same link each keep their own edge,
+// so re-syncing one never deletes the edge the other still needs.
+// Firestore ids cannot contain '/', keep them readable for debugging
+const edgeId = (parent: LotNodeRef, child: LotNodeRef, relation: LotRelation, source: LotGenealogySource): string =>
+  `${source.collection}:${source.docId}|${nodeKey(parent)}>${relation}>${nodeKey(child)}`.replace(/[\/\s]+/g, '_').slice(0, 1400);
+
+const makeEdge = (
+  parent: LotNodeRef,
+  child: LotNodeRef,
+  relation: LotRelation,
+  source: LotGenealogySource,
+  extra: Partial<Pick<LotGenealogyEdge, 'quantityKg' | 'packageCount' | 'variety' | 'calibre' | 'wasteNature' | 'date'>> = {}
+): LotGenealogyEdge => ({
+  id: edgeId(parent, child, relation, source),
+  parent,
+  child,
+  relation,
+  source,
+  ...Object.fromEntries(Object.entries(extra).filter(([, v]) => v !== undefined && v !== ''))
+});
+
+export const receptionLotNode = (input: ReceptionGenealogyInput): LotNodeRef =>
+  makeNode('reception_lot', input.header?.bonReception?.trim() || input.lotNumber);
+
+export const productionPalletNode = (productionLotNumber: string, numero: number | string): LotNodeRef =>
+  makeNode('production_pallet', `${productionLotNumber}-P${numero}`);
+
+export const expeditionPalletNode = (expeditionName: string, palletNo: number | string): LotNodeRef =>
+  makeNode('expedition_pallet', `${expeditionName}-P${palletNo}`);
+
+// ---- Edge derivation (pure) ----
+
+export const deriveReceptionEdges = (input: ReceptionGenealogyInput, source: LotGenealogySource): LotGenealogyEdge[] => {
+  const parent = receptionLotNode(input);
+  const byInternalLot = new Map<string, { label: string; kg: number; variety?: string }>();
+
+  (input.rows || []).forEach(row => {
+    if (!row.numeroLotInterne?.trim()) return;
+    const key = normalizeLotId(row.numeroLotInterne);
+    const entry = byInternalLot.get(key) || { label: row.numeroLotInterne, kg: 0, variety: row.variete };
+    entry.kg += parseKg(row.poidsNet);
+    byInternalLot.set(key, entry);
+  });
+
+  return Array.from(byInternalLot.values()).map(entry =>
+    makeEdge(parent, makeNode('internal_lot', entry.label), 'split_into', source, {
+      quantityKg: entry.kg,
+      variety: entry.variety,
+      date: input.header?.date
+    })
+  );
+};
+
+export const deriveReceptionControlEdges = (
+  input: ReceptionControlGenealogyInput,
+  source: LotGenealogySource
+): LotGenealogyEdge[] => {
+  const control = makeNode('reception_control', input.lotNumber);
+  const edges: LotGenealogyEdge[] = [];
+  const extra = { date: input.header?.date, variety: input.header?.variety };
+
+  if (input.header?.receptionBonNumber?.trim()) {
+    edges.push(makeEdge(makeNode('reception_lot', input.header.receptionBonNumber), control, 'controlled_by', source, extra));
+  }
+  if (input.header?.productLotNumber?.trim()) {
+    edges.push(makeEdge(makeNode('internal_lot', input.header.productLotNumber), control, 'controlled_by', source, extra));
+  }
+  return edges;
+};
+
+export const deriveQualityEdges = (input: QualityGenealogyInput, source: LotGenealogySource): LotGenealogyEdge[] => {
+  const qualityLot = makeNode('quality_lot', input.lotNumber);
+  const internalLots = new Set<string>();
+
+  (input.palettes || []).forEach(p => {
+    const label = String(p?.internalLotNumber ?? '').trim();
+    if (label) internalLots.add(label);
+  });
+
+  return Array.from(internalLots).map(label =>
+    makeEdge(makeNode('internal_lot', label), qualityLot, 'controlled_by', source, {
+      date: input.date,
+      variety: input.variety
+    })
+  );
+};
+
+export const deriveProductionEdges = (input: ProductionGenealogyInput, source: LotGenealogySource): LotGenealogyEdge[] => {
+  const productionLot = makeNode('production_lot', input.lotNumber);
+  const edges: LotGenealogyEdge[] = [];
+
+  (input.productionRows || []).forEach(row => {
+    if (!row.numeroLotInterne?.trim() && !row.poidsNet?.trim()) return;
+    const pallet = productionPalletNode(input.lotNumber, row.numero);
+    const extra = {
+      quantityKg: parseKg(row.poidsNet),
+      packageCount: parseCount(row.nbrCP),
+      variety: row.variete,
+      calibre: row.calibre,
+      date: row.date || input.headerData?.date
+    };
+    edges.push(makeEdge(productionLot, pallet, 'contains', source, extra));
+    if (row.numeroLotInterne?.trim()) {
+      edges.push(makeEdge(makeNode('internal_lot', row.numeroLotInterne), pallet, 'packed_into', source, extra));
+    }
+  });
+
+  return edges;
+};
+
+export const deriveDechetEdges = (input: DechetGenealogyInput, source: LotGenealogySource): LotGenealogyEdge[] =>
+  (input.rows || []).flatMap((row, index) => {
+    if (!row.numeroLotInterne?.trim()) return [];
+    const pallet = makeNode('dechet_pallet', `${input.lotNumber}-${row.numeroPalette?.trim() || `D${index + 1}`}`);
+    return [
+      makeEdge(makeNode('internal_lot', row.numeroLotInterne), pallet, 'discarded_as', source, {
+        quantityKg: parseKg(row.poidsNet),
+        variety: row.variete,
+        wasteNature: row.natureDechet?.trim(),
+        date: input.header?.dateTraitement
+      })
+    ];
+  });
+
+// Packaging material is linked to the production lots packed on the same day
+export const deriveEmballageEdges = (
+  input: EmballageGenealogyInput,
+  productionLots: ProductionGenealogyInput[],
+  source: LotGenealogySource
+): LotGenealogyEdge[] =>
+  (input.rows || []).flatMap(row => {
+    if (!row.numeroLot?.trim() || !row.dateConditionnement) return [];
+    const material = makeNode('packaging_material', row.numeroLot);
+    return productionLots
+      .filter(p => p.headerData?.date === row.dateConditionnement)
+      .map(p => makeEdge(material, makeNode('production_lot', p.lotNumber), 'used_on', source, { date: row.dateConditionnement }));
+  });
+
+export const deriveExpeditionEdges = (input: ExpeditionGenealogyInput, source: LotGenealogySource): LotGenealogyEdge[] =>
+  (input.rows || []).flatMap(row => {
+    const pallet = expeditionPalletNode(input.name, row.palletNo);
+    const extra = {
+      packageCount: parseCount(row.nbrColis),
+      variety: row.produitVariete,
+      calibre: row.calibre,
+      date: input.date
+    };
+    if (!row.numeroLotInterne?.trim()) return [];
+    return [makeEdge(makeNode('internal_lot', row.numeroLotInterne), pallet, 'shipped_as', source, extra)];
+  });
+
+// ---- Graph walking (pure) ----
+
+/**
+ * Collects every node reachable from `startKeys` following edges
+ * parent -> child ('down') or child -> parent ('up').
+ */
+export const walkGenealogy = (
+  edges: LotGenealogyEdge[],
+  startKeys: string[],
+  direction: 'up' | 'down'
+): { nodes: LotNodeRef[]; edges: LotGenealogyEdge[] } => {
+  const adjacency = new Map<string, LotGenealogyEdge[]>();
+  edges.forEach(edge => {
+    const from = nodeKey(direction === 'down' ? edge.parent : edge.child);
+    adjacency.set(from, [...(adjacency.get(from) || []), edge]);
+  });
+
+  const visited = new Set<string>(startKeys);
+  const nodes: LotNodeRef[] = [];
+  const walked: LotGenealogyEdge[] = [];
+  const queue = [...startKeys];
+
+  while (queue.length) {
+    const current = queue.shift()!;
+    (adjacency.get(current) || []).forEach(edge => {
+      walked.push(edge);
+      const next = direction === 'down' ? edge.child : edge.parent;
+      const key = nodeKey(next);
+      if (!visited.has(key)) {
+        visited.add(key);
+        nodes.push(next);
+        queue.push(key);
+      }
+    });
+  }
+
+  return { nodes, edges: walked };
+};
+
+export const findNodesById = (edges: LotGenealogyEdge[], identifier: string): LotNodeRef[] => {
+  const id = normalizeLotId(identifier);
+  const found = new Map<string, LotNodeRef>();
+  edges.forEach(edge => {
+    [edge.parent, edge.child].forEach(node => {
+      if (node.id === id) found.set(nodeKey(node), node);
+    });
+  });
+  return Array.from(found.values());
+};
+
+export const traceInEdges = (edges: LotGenealogyEdge[], identifier: string): LotGenealogyTrace => {
+  const roots = findNodesById(edges, identifier);
+  const startKeys = roots.map(nodeKey);
+  const up = walkGenealogy(edges, startKeys, 'up');
+  const down = walkGenealogy(edges, startKeys, 'down');
+  const used = new Map<string, LotGenealogyEdge>();
+  [...up.edges, ...down.edges].forEach(e => used.set(e.id, e));
+
+  return {
+    query: identifier,
+    roots,
+    upstream: up.nodes,
+    downstream: down.nodes,
+    edges: Array.from(used.values())
+  };
+};
+
+// ---- Firestore persistence ----
+
+export const getAllGenealogyEdges = async (): Promise<LotGenealogyEdge[]> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+  const snap = await getDocs(collection(db, COLLECTION));
+  const { items, errors } = parseDocuments(lotGenealogyEdgeSchema, snap.docs, COLLECTION);
+  errors.forEach(error => console.error(error.message));
+  return items;
+};
+
+/**
+ * Replaces every edge previously recorded for `source` with `edges`.
+ * Called whenever a source form is saved so the graph follows edits.
+ */
+export const syncGenealogySource = async (source: LotGenealogySource, edges: LotGenealogyEdge[]): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const existing = await getDocs(query(
+    collection(db, COLLECTION),
+    where('source.collection', '==', source.collection),
+    where('source.docId', '==', source.docId)
+  ));
+
+  const keep = new Set(edges.map(e => e.id));
+  const batch = writeBatch(db);
+  existing.docs.forEach(d => {
+    if (!keep.has(d.id)) batch.delete(d.ref);
+  });
+  const recordedAt = new Date().toISOString();
+  edges.forEach(({ id, ...edge }) => {
+    batch.set(doc(db, COLLECTION, id), { ...edge, recordedAt });
+  });
+  await batch.commit();
+};
+
+// Packaging edges depend on the production lots of the same days, read from shared_lots
+const getProductionGenealogyInputs = async (): Promise<ProductionGenealogyInput[]> => {
+  const snap = await getDocs(query(collection(db, 'shared_lots'), where('type', '==', 'production')));
+  const lots = parseDocuments(sharedLotSchema, snap.docs, 'shared_lots');
+  lots.errors.forEach(error => console.error(error.message));
+  return lots.items.flatMap(lot => (lot.productionData ? [{ lotNumber: lot.lotNumber, ...lot.productionData }] : []));
+};
+
+export const syncEmballageGenealogy = async (source: LotGenealogySource, input: EmballageGenealogyInput): Promise<void> => {
+  const productionLots = await getProductionGenealogyInputs();
+  await syncGenealogySource(source, deriveEmballageEdges(input, productionLots, source));
+};
+
+export const traceLot = async (identifier: string): Promise<LotGenealogyTrace> => {
+  const edges = await getAllGenealogyEdges();
+  return traceInEdges(edges, identifier);
+};
+
+/**
+ * Rebuilds the whole graph from the source collections. Used for the
+ * initial back-fill and to repair edges after manual Firestore edits.
+ */
+export const rebuildLotGenealogy = async (): Promise<{ sources: number; edges: number }> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const [sharedSnap, controlsSnap, qualitySnap, packagingSnap, expeditionsSnap] = await Promise.all([
+    getDocs(collection(db, 'shared_lots')),
+    getDocs(collection(db, 'reception_controls')),
+    getDocs(collection(db, 'quality_control_lots')),
+    getDocs(collection(db, 'packaging_traces')),
+    getDocs(collection(db, 'expeditions'))
+  ]);
+
+  // Documents that do not match their schema are reported and left out of the graph
+  const shared = parseDocuments(sharedLotSchema, sharedSnap.docs, 'shared_lots');
+  const controls = parseDocuments(receptionControlLotSchema, controlsSnap.docs, 'reception_controls');
+  const quality = parseDocuments(qualityControlLotSchema, qualitySnap.docs, 'quality_control_lots');
+  const packaging = parseDocuments(emballageLotSchema, packagingSnap.docs, 'packaging_traces');
+  // Expeditions are identified by their own id field, older ones by the document id
+  const expeditions = parseDocuments(
+    expeditionFormSchema,
+    expeditionsSnap.docs.map(d => ({ id: String(d.get('id') || d.id), data: () => d.data() })),
+    'expeditions'
+  );
+  [...shared.errors, ...controls.errors, ...quality.errors, ...packaging.errors, ...expeditions.errors]
+    .forEach(error => console.error(error.message));
+
+  const perSource: Array<{ source: LotGenealogySource; edges: LotGenealogyEdge[] }> = [];
+  const productionInputs: ProductionGenealogyInput[] = [];
+
+  shared.items.forEach(lot => {
+    const source = { collection: 'shared_lots', docId: lot.id };
+    if (lot.type === 'reception' && lot.receptionData) {
+      perSource.push({ source, edges: deriveReceptionEdges({ lotNumber: lot.lotNumber, ...lot.receptionData }, source) });
+    } else if (lot.type === 'production' && lot.productionData) {
+      const input = { lotNumber: lot.lotNumber, ...lot.productionData };
+      productionInputs.push(input);
+      perSource.push({ source, edges: deriveProductionEdges(input, source) });
+    } else if (lot.type === 'dechets' && lot.dechetData) {
+      perSource.push({ source, edges: deriveDechetEdges({ lotNumber: lot.lotNumber, ...lot.dechetData }, source) });
+    }
+  });
+
+  controls.items.forEach(c => {
+    const source = { collection: 'reception_controls', docId: c.id };
+    perSource.push({ source, edges: deriveReceptionControlEdges({ lotNumber: c.lotNumber, header: c.data.header }, source) });
+  });
+
+  quality.items.forEach(q => {
+    const source = { collection: 'quality_control_lots', docId: q.id };
+    perSource.push({ source, edges: deriveQualityEdges({ lotNumber: q.lotNumber, ...q.formData }, source) });
+  });
+
+  packaging.items.forEach(p => {
+    const source = { collection: 'packaging_traces', docId: p.id };
+    perSource.push({
+      source,
+      edges: deriveEmballageEdges({ lotNumber: p.lotNumber, rows: p.emballageData.rows }, productionInputs, source)
+    });
+  });
+
+  expeditions.items.forEach(e => {
+    const source = { collection: 'expeditions', docId: e.id as string };
+    perSource.push({ source, edges: deriveExpeditionEdges({ name: e.name, date: e.date, rows: e.rows }, source) });
+  });
+
+  let edgeCount = 0;
+  for (const { source, edges } of perSource) {
+    await syncGenealogySource(source, edges);
+    edgeCount += edges.length;
+  }
+
+  return { sources: perSource.length, edges: edgeCount };
+};
@@ -4,24 +4,18 @@ import {
   collection,
   doc,
   onSnapshot,
-  addDoc,
-  updateDoc,
-  deleteDoc,
   serverTimestamp,
   query,
   orderBy
 } from 'firebase/firestore';
+import { auditedAdd, auditedDelete, auditedUpdate } from './auditTrailService';
 
-// Universal Lot interface for synchronization
-export interface UniversalLot {
-  id: string;
-  lotNumber: string;
-  status: string;
-  type: 'quality' | 'production';
-  createdAt: any;
-  updatedAt: any;
-  data?: any; // Store any additional data
-}
+import { DomainValidationError, parseDomain, UniversalLot, universalLotSchema } from '@shared/domain';
+
+// Universal Lot for synchronization
+export type { UniversalLot } from '@shared/domain';
+
+const universalLotWriteSchema = universalLotSchema.omit({ id: true, createdAt: true, updatedAt: true });
 
 // Collection name for universal lots
 const UNIVERSAL_LOTS_COLLECTION = 'universal_lots';
@@ -43,7 +37,13 @@ class LotSyncService {
       this.unsubscribe = onSnapshot(lotsQuery, (snapshot) => {
         const lots: UniversalLot[] = [];
         snapshot.forEach((doc) => {
-          lots.push({ id: doc.id, ...doc.data() } as UniversalLot);
+          try {
+            lots.push(parseDomain(universalLotSchema, { ...doc.data(), id: doc.id }, `${UNIVERSAL_LOTS_COLLECTION}/${doc.id}`));
+          } catch (error) {
+            if (!(error instanceof DomainValidationError)) throw error;
+            // Keep the malformed document out of the list but make it visible
+            console.error(error.message, error.issues);
+          }
         });
 
         // Notify all listeners
@@ -70,12 +70,11 @@ class LotSyncService {
   // Add a new lot
   async addLot(lot: Omit<UniversalLot, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     try {
-      const docRef = await addDoc(collection(firestore, UNIVERSAL_LOTS_COLLECTION), {
-        ...lot,
+      return await auditedAdd(collection(firestore, UNIVERSAL_LOTS_COLLECTION), {
+        ...parseDomain(universalLotWriteSchema, lot, `${UNIVERSAL_LOTS_COLLECTION} (création)`),
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp()
       });
-      return docRef.id;
     } catch (error) {
       console.error('Error adding lot:', error);
       throw error;
@@ -85,9 +84,10 @@ class LotSyncService {
   // Update a lot
   async updateLot(lotId: string, updates: Partial<UniversalLot>): Promise<void> {
     try {
+      const { id, createdAt, updatedAt, ...fields } = updates;
       const lotRef = doc(firestore, UNIVERSAL_LOTS_COLLECTION, lotId);
-      await updateDoc(lotRef, {
-        ...updates,
+      await auditedUpdate(lotRef, {
+        ...parseDomain(universalLotWriteSchema.partial(), fields, `${UNIVERSAL_LOTS_COLLECTION}/${lotId}`),
         updatedAt: serverTimestamp()
       });
     } catch (error) {
@@ -99,7 +99,7 @@ class LotSyncService {
   // Delete a lot
   async deleteLot(lotId: string): Promise<void> {
     try {
-      await deleteDoc(doc(firestore, UNIVERSAL_LOTS_COLLECTION, lotId));
+      await auditedDelete(doc(firestore, UNIVERSAL_LOTS_COLLECTION, lotId));
     } catch (error) {
       console.error('Error deleting lot:', error);
       throw error;
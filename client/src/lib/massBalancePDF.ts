@@ -0,0 +1,179 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import logo from '../../assets/logo.png';
+import { MASS_BALANCE_STATUS_LABELS, MassBalanceLine, sumMassBalances } from './massBalanceService';
+
+export interface MassBalancePDFOptions {
+  title: string;          // 'Lots réception' / 'Lots internes'
+  period: string;
+  lossThresholdPct: number;
+}
+
+const colors = {
+  primary: [39, 174, 96] as [number, number, number],     // Green for header
+  secondary: [41, 128, 185] as [number, number, number],  // Blue for subheadings
+  text: [44, 62, 80] as [number, number, number],         // Dark blue-gray for text
+  light: [236, 240, 241] as [number, number, number],     // Light gray for backgrounds
+  alert: [192, 57, 43] as [number, number, number]
+};
+
+const kg = (value: number) => `${value.toFixed(1)} kg`;
+const rate = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}%`);
+
+const lastY = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+const sectionTitle = (doc: jsPDF, title: string, y: number) => {
+  doc.setFillColor(...colors.secondary);
+  doc.rect(14, y, 182, 8, 'F');
+  doc.setTextColor(255, 255, 255);
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title, 105, y + 5.5, { align: 'center' });
+};
+
+const metricBox = (doc: jsPDF, x: number, y: number, label: string, value: string, alert = false) => {
+  doc.setFillColor(...colors.light);
+  doc.roundedRect(x, y, 56, 26, 3, 3, 'F');
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(...colors.secondary);
+  doc.setFontSize(10);
+  doc.text(label, x + 28, y + 8, { align: 'center' });
+  doc.setTextColor(...(alert ? colors.alert : colors.primary));
+  doc.setFontSize(16);
+  doc.text(value, x + 28, y + 20, { align: 'center' });
+};
+
+// Mass-balance report of the lots on screen: totals, one row per lot, then the packed
+// kilos per calibre and the waste per nature over all these lots
+export const generateMassBalancePDF = (lines: MassBalanceLine[], options: MassBalancePDFOptions): void => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', putOnlyUsedFonts: true });
+  const totals = sumMassBalances(lines);
+
+  doc.setProperties({
+    title: `Bilan matière - ${options.period}`,
+    subject: 'Bilan matière et rendement par lot',
+    author: 'Fruit For You',
+    creator: 'Système de Gestion'
+  });
+
+  doc.addImage(logo, 'PNG', 14, 12, 15, 15);
+  doc.setFontSize(20);
+  doc.setTextColor(...colors.primary);
+  doc.setFont('helvetica', 'bold');
+  doc.text('Bilan matière', 35, 20);
+  doc.setFontSize(12);
+  doc.text(`${options.title} - ${options.period}`, 35, 27);
+
+  doc.setDrawColor(...colors.primary);
+  doc.setLineWidth(0.5);
+  doc.line(14, 32, 196, 32);
+
+  doc.setFontSize(9);
+  doc.setTextColor(...colors.text);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Généré le ${new Date().toLocaleDateString('fr-FR', { day: '2-digit', month: 'long', year: 'numeric' })}`, 14, 38);
+  doc.text(`Seuil de perte inexpliquée: ${options.lossThresholdPct}%`, 196, 38, { align: 'right' });
+
+  autoTable(doc, {
+    startY: 42,
+    head: [['Description', 'Quantité']],
+    body: [
+      ['Avocats entrants', kg(totals.receivedKg)],
+      ['Avocats emballés', `${kg(totals.packedKg)} (${Math.round(totals.packedPackages)} colis)`],
+      ['Déchets', kg(totals.wasteKg)],
+      ['Pertes inexpliquées', kg(totals.unexplainedKg)],
+      ['Colis expédiés', `${Math.round(totals.shippedPackages)}`]
+    ],
+    theme: 'grid',
+    headStyles: { fillColor: colors.primary, textColor: 255, fontStyle: 'bold', halign: 'center' },
+    bodyStyles: { fontSize: 10, textColor: colors.text },
+    columnStyles: { 0: { fontStyle: 'bold' }, 1: { halign: 'center' } },
+    margin: { left: 14, right: 14 }
+  });
+
+  const metricsY = lastY(doc) + 6;
+  metricBox(doc, 14, metricsY, 'RENDEMENT', rate(totals.yieldPct));
+  metricBox(doc, 77, metricsY, 'TAUX DE DÉCHETS', rate(totals.wastePct));
+  metricBox(doc, 140, metricsY, 'TAUX DE PERTES', rate(totals.lossPct), (totals.lossPct ?? 0) > options.lossThresholdPct);
+
+  sectionTitle(doc, 'DÉTAIL PAR LOT', metricsY + 32);
+  autoTable(doc, {
+    startY: metricsY + 42,
+    head: [['Lot', 'Date', 'Variété', 'Entrée', 'Emballé', 'Déchets', 'Perte', 'Rdt', 'Perte %', 'Statut']],
+    body: lines.map(line => [
+      line.lot.label,
+      line.date || '-',
+      line.variety || '-',
+      line.receivedKg.toFixed(1),
+      line.packedKg.toFixed(1),
+      line.wasteKg.toFixed(1),
+      line.unexplainedKg.toFixed(1),
+      rate(line.yieldPct),
+      rate(line.lossPct),
+      MASS_BALANCE_STATUS_LABELS[line.status]
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: colors.primary, textColor: 255, fontSize: 8 },
+    bodyStyles: { fontSize: 8, textColor: colors.text },
+    margin: { left: 14, right: 14 },
+    didParseCell: (data) => {
+      if (data.section !== 'body') return;
+      const status = lines[data.row.index]?.status;
+      if (status === 'perte' || status === 'excedent') data.cell.styles.textColor = colors.alert;
+    }
+  });
+
+  const calibres = new Map<string, { kg: number; packages: number }>();
+  const natures = new Map<string, number>();
+  lines.forEach(line => {
+    line.packedByCalibre.forEach(c => {
+      const entry = calibres.get(c.calibre) || { kg: 0, packages: 0 };
+      calibres.set(c.calibre, { kg: entry.kg + c.kg, packages: entry.packages + c.packages });
+    });
+    line.wasteByNature.forEach(n => natures.set(n.nature, (natures.get(n.nature) || 0) + n.kg));
+  });
+
+  let y = lastY(doc) + 8;
+  if (y > 240) {
+    doc.addPage();
+    y = 20;
+  }
+  sectionTitle(doc, 'EMBALLÉ PAR CALIBRE / DÉCHETS PAR NATURE', y);
+  autoTable(doc, {
+    startY: y + 10,
+    head: [['Calibre', 'Kg', 'Colis']],
+    body: Array.from(calibres.entries())
+      .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+      .map(([calibre, v]) => [calibre, v.kg.toFixed(1), String(Math.round(v.packages))]),
+    theme: 'grid',
+    headStyles: { fillColor: colors.primary, textColor: 255, fontSize: 9 },
+    bodyStyles: { fontSize: 9, textColor: colors.text },
+    margin: { left: 14, right: 108 }
+  });
+  autoTable(doc, {
+    startY: y + 10,
+    head: [['Nature de déchet', 'Kg']],
+    body: Array.from(natures.entries())
+      .sort(([, a], [, b]) => b - a)
+      .map(([nature, value]) => [nature, value.toFixed(1)]),
+    theme: 'grid',
+    headStyles: { fillColor: colors.primary, textColor: 255, fontSize: 9 },
+    bodyStyles: { fontSize: 9, textColor: colors.text },
+    margin: { left: 108, right: 14 }
+  });
+
+  const pageCount = doc.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    doc.setPage(i);
+    doc.setDrawColor(...colors.primary);
+    doc.setLineWidth(0.5);
+    doc.line(14, 280, 196, 280);
+    doc.setFontSize(8);
+    doc.setTextColor(...colors.text);
+    doc.setFont('helvetica', 'italic');
+    doc.text('Fruit For You - Rapport généré automatiquement', 105, 285, { align: 'center' });
+    doc.text(`Page ${i} sur ${pageCount}`, 196, 290, { align: 'right' });
+  }
+
+  doc.save(`Bilan_Matiere_${options.period.replace(/[\/\s]+/g, '_')}.pdf`);
+};
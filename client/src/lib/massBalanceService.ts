@@ -0,0 +1,270 @@
+import { doc, getDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { auditedSet } from './auditTrailService';
+import { getAllGenealogyEdges, LotGenealogyEdge, LotNodeRef, nodeKey } from './lotGenealogyService';
+import {
+  DEFAULT_MASS_BALANCE_SETTINGS,
+  massBalanceSettingsSchema,
+  massBalanceSettingsWriteSchema,
+  massBalanceStatus,
+  MassBalanceSettings,
+  MassBalanceStatus,
+  parseDomain
+} from '@shared/domain';
+
+export { DEFAULT_MASS_BALANCE_SETTINGS, MASS_BALANCE_STATUS_LABELS } from '@shared/domain';
+export type { MassBalanceSettings, MassBalanceStatus } from '@shared/domain';
+
+const COLLECTION = 'mass_balance_settings';
+const SETTINGS_ID = 'default';
+
+export const UNKNOWN_CALIBRE = 'Sans calibre';
+export const UNKNOWN_WASTE_NATURE = 'Non précisée';
+
+export interface MassBalanceLine {
+  key: string;                // nodeKey of the lot
+  lot: LotNodeRef;            // reception_lot or internal_lot
+  date?: string;              // Reception date, packing date for lots never received
+  variety?: string;
+  linkedLots: LotNodeRef[];   // Internal lots of a reception lot, reception lots of an internal lot
+  packedByDate: Array<{ date: string; kg: number; packages: number }>; // Days on the packing line
+  receivedKg: number;
+  packedKg: number;
+  packedPackages: number;
+  packedByCalibre: Array<{ calibre: string; kg: number; packages: number }>;
+  wasteKg: number;
+  wasteByNature: Array<{ nature: string; kg: number }>;
+  shippedPackages: number;
+  unexplainedKg: number;      // received - packed - waste
+  yieldPct: number | null;    // packed / received
+  wastePct: number | null;
+  lossPct: number | null;     // unexplained / received
+  status: MassBalanceStatus;
+}
+
+export interface MassBalanceReport {
+  lossThresholdPct: number;
+  receptionLots: MassBalanceLine[];
+  internalLots: MassBalanceLine[];
+}
+
+interface Accumulator {
+  lot: LotNodeRef;
+  dates: Set<string>;
+  varieties: Set<string>;
+  linked: Map<string, LotNodeRef>;
+  packedDates: Map<string, { kg: number; packages: number }>;
+  receivedKg: number;
+  packedKg: number;
+  packedPackages: number;
+  calibres: Map<string, { kg: number; packages: number }>;
+  wasteKg: number;
+  natures: Map<string, number>;
+  shippedPackages: number;
+}
+
+const newAccumulator = (lot: LotNodeRef): Accumulator => ({
+  lot,
+  dates: new Set(),
+  varieties: new Set(),
+  linked: new Map(),
+  packedDates: new Map(),
+  receivedKg: 0,
+  packedKg: 0,
+  packedPackages: 0,
+  calibres: new Map(),
+  wasteKg: 0,
+  natures: new Map(),
+  shippedPackages: 0
+});
+
+const pct = (part: number, total: number): number | null => (total > 0 ? (part / total) * 100 : null);
+
+const toLine = (acc: Accumulator, lossThresholdPct: number): MassBalanceLine => {
+  const unexplainedKg = acc.receivedKg - acc.packedKg - acc.wasteKg;
+  const dates = Array.from(acc.dates).sort();
+  const packedByDate = Array.from(acc.packedDates.entries())
+    .map(([date, v]) => ({ date, ...v }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    key: nodeKey(acc.lot),
+    lot: acc.lot,
+    date: dates[0] || packedByDate[0]?.date,
+    variety: acc.varieties.size > 0 ? Array.from(acc.varieties).join(', ') : undefined,
+    linkedLots: Array.from(acc.linked.values()).sort((a, b) => a.label.localeCompare(b.label)),
+    packedByDate,
+    receivedKg: acc.receivedKg,
+    packedKg: acc.packedKg,
+    packedPackages: acc.packedPackages,
+    packedByCalibre: Array.from(acc.calibres.entries())
+      .map(([calibre, v]) => ({ calibre, ...v }))
+      .sort((a, b) => a.calibre.localeCompare(b.calibre, undefined, { numeric: true })),
+    wasteKg: acc.wasteKg,
+    wasteByNature: Array.from(acc.natures.entries())
+      .map(([nature, kg]) => ({ nature, kg }))
+      .sort((a, b) => b.kg - a.kg),
+    shippedPackages: acc.shippedPackages,
+    unexplainedKg,
+    yieldPct: pct(acc.packedKg, acc.receivedKg),
+    wastePct: pct(acc.wasteKg, acc.receivedKg),
+    lossPct: pct(unexplainedKg, acc.receivedKg),
+    status: massBalanceStatus(acc, lossThresholdPct)
+  };
+};
+
+const addPacked = (map: Map<string, { kg: number; packages: number }>, key: string, kg: number, packages: number) => {
+  const entry = map.get(key) || { kg: 0, packages: 0 };
+  map.set(key, { kg: entry.kg + kg, packages: entry.packages + packages });
+};
+
+const addShares = (
+  target: Map<string, { kg: number; packages: number }>,
+  source: Map<string, { kg: number; packages: number }>,
+  share: number
+) => source.forEach((v, key) => addPacked(target, key, v.kg * share, v.packages * share));
+
+// Adds the outputs of an internal lot to `target`, scaled by `share` (the part of the
+// internal lot's reception weight coming from the target reception lot)
+const addOutputs = (target: Accumulator, source: Accumulator, share: number) => {
+  addShares(target.packedDates, source.packedDates, share);
+  target.packedKg += source.packedKg * share;
+  target.packedPackages += source.packedPackages * share;
+  addShares(target.calibres, source.calibres, share);
+  target.wasteKg += source.wasteKg * share;
+  source.natures.forEach((kg, nature) => target.natures.set(nature, (target.natures.get(nature) || 0) + kg * share));
+  target.shippedPackages += source.shippedPackages * share;
+};
+
+/**
+ * Reconciles every lot of the genealogy graph: kilos in from the reception sheets
+ * (split_into), kilos packed per calibre (packed_into), kilos discarded per nature
+ * (discarded_as) and colis shipped (shipped_as). An internal lot fed by several
+ * reception lots has its outputs shared between them pro rata of the kilos received.
+ */
+export const computeMassBalances = (edges: LotGenealogyEdge[], lossThresholdPct: number): MassBalanceReport => {
+  const internal = new Map<string, Accumulator>();
+  const reception = new Map<string, Accumulator>();
+  const contributions: Array<{ receptionKey: string; internalKey: string; kg: number }> = [];
+
+  const internalOf = (node: LotNodeRef) => {
+    const key = nodeKey(node);
+    if (!internal.has(key)) internal.set(key, newAccumulator(node));
+    return internal.get(key)!;
+  };
+
+  edges.forEach(edge => {
+    if (edge.relation === 'split_into' && edge.child.kind === 'internal_lot') {
+      const kg = edge.quantityKg || 0;
+      const lot = internalOf(edge.child);
+      const receptionKey = nodeKey(edge.parent);
+      if (!reception.has(receptionKey)) reception.set(receptionKey, newAccumulator(edge.parent));
+      const receptionLot = reception.get(receptionKey)!;
+
+      lot.receivedKg += kg;
+      receptionLot.receivedKg += kg;
+      lot.linked.set(receptionKey, edge.parent);
+      receptionLot.linked.set(nodeKey(edge.child), edge.child);
+      [lot, receptionLot].forEach(acc => {
+        if (edge.date) acc.dates.add(edge.date);
+        if (edge.variety) acc.varieties.add(edge.variety);
+      });
+      contributions.push({ receptionKey, internalKey: nodeKey(edge.child), kg });
+      return;
+    }
+
+    // controlled_by edges carry no quantity and do not make a lot appear in the balance
+    if (edge.parent.kind !== 'internal_lot' || edge.relation === 'controlled_by') return;
+    const lot = internalOf(edge.parent);
+    if (edge.relation === 'packed_into') {
+      const kg = edge.quantityKg || 0;
+      const packages = edge.packageCount || 0;
+      addPacked(lot.calibres, edge.calibre?.trim() || UNKNOWN_CALIBRE, kg, packages);
+      if (edge.date) addPacked(lot.packedDates, edge.date, kg, packages);
+      lot.packedKg += kg;
+      lot.packedPackages += packages;
+    } else if (edge.relation === 'discarded_as') {
+      const kg = edge.quantityKg || 0;
+      const nature = edge.wasteNature?.trim() || UNKNOWN_WASTE_NATURE;
+      lot.natures.set(nature, (lot.natures.get(nature) || 0) + kg);
+      lot.wasteKg += kg;
+    } else if (edge.relation === 'shipped_as') {
+      lot.shippedPackages += edge.packageCount || 0;
+    }
+  });
+
+  contributions.forEach(({ receptionKey, internalKey, kg }) => {
+    const lot = internal.get(internalKey)!;
+    // Rows without weight still link the lots; split evenly between the reception lots then
+    const share = lot.receivedKg > 0 ? kg / lot.receivedKg : 1 / lot.linked.size;
+    addOutputs(reception.get(receptionKey)!, lot, share);
+  });
+
+  const byDateDesc = (a: MassBalanceLine, b: MassBalanceLine) =>
+    (b.date || '').localeCompare(a.date || '') || a.lot.label.localeCompare(b.lot.label);
+
+  return {
+    lossThresholdPct,
+    receptionLots: Array.from(reception.values()).map(acc => toLine(acc, lossThresholdPct)).sort(byDateDesc),
+    internalLots: Array.from(internal.values()).map(acc => toLine(acc, lossThresholdPct)).sort(byDateDesc)
+  };
+};
+
+// Lots that went through the packing line on `date`, for the daily consumption sheet
+export const massBalancesPackedOn = (lines: MassBalanceLine[], date: string): MassBalanceLine[] =>
+  lines.filter(line => line.packedByDate.some(d => d.date === date));
+
+export const packedOn = (lines: MassBalanceLine[], date: string): { kg: number; packages: number } =>
+  lines.reduce((acc, line) => {
+    const day = line.packedByDate.find(d => d.date === date);
+    return day ? { kg: acc.kg + day.kg, packages: acc.packages + day.packages } : acc;
+  }, { kg: 0, packages: 0 });
+
+export const sumMassBalances = (lines: MassBalanceLine[]) => {
+  const totals = lines.reduce(
+    (acc, line) => ({
+      receivedKg: acc.receivedKg + line.receivedKg,
+      packedKg: acc.packedKg + line.packedKg,
+      packedPackages: acc.packedPackages + line.packedPackages,
+      wasteKg: acc.wasteKg + line.wasteKg,
+      shippedPackages: acc.shippedPackages + line.shippedPackages
+    }),
+    { receivedKg: 0, packedKg: 0, packedPackages: 0, wasteKg: 0, shippedPackages: 0 }
+  );
+  const unexplainedKg = totals.receivedKg - totals.packedKg - totals.wasteKg;
+  return {
+    ...totals,
+    unexplainedKg,
+    yieldPct: pct(totals.packedKg, totals.receivedKg),
+    wastePct: pct(totals.wasteKg, totals.receivedKg),
+    lossPct: pct(unexplainedKg, totals.receivedKg)
+  };
+};
+
+// ---- Firestore ----
+
+export const getMassBalanceSettings = async (): Promise<MassBalanceSettings> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDoc(doc(db, COLLECTION, SETTINGS_ID));
+  if (!snap.exists()) return DEFAULT_MASS_BALANCE_SETTINGS;
+  return parseDomain(massBalanceSettingsSchema, snap.data(), `${COLLECTION}/${SETTINGS_ID}`);
+};
+
+export const saveMassBalanceSettings = async (settings: Omit<MassBalanceSettings, 'updatedAt'>): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const payload = parseDomain(massBalanceSettingsWriteSchema, settings, COLLECTION);
+  await auditedSet(
+    doc(db, COLLECTION, SETTINGS_ID),
+    { ...payload, updatedAt: serverTimestamp() },
+    { label: 'Seuil de perte du bilan matière', merge: true }
+  );
+};
+
+export const getMassBalanceReport = async (): Promise<MassBalanceReport> => {
+  const [edges, settings] = await Promise.all([getAllGenealogyEdges(), getMassBalanceSettings()]);
+  return computeMassBalances(edges, settings.lossThresholdPct);
+};
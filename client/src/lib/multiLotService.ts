@@ -2,18 +2,15 @@ import { firestore } from './firebase';
 import {
   collection,
   doc,
-  setDoc,
   getDoc,
   onSnapshot,
-  addDoc,
-  updateDoc,
-  deleteDoc,
   serverTimestamp,
   query,
   orderBy,
   where,
   getDocs
 } from 'firebase/firestore';
+import { auditedAdd, auditedDelete, auditedUpdate } from './auditTrailService';
 
 export interface MultiLot {
   id: string;
@@ -144,12 +141,11 @@ class MultiLotService {
   // Add a new lot
   async addLot(lotData: Omit<MultiLot, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     try {
-      const docRef = await addDoc(collection(firestore, MULTI_LOTS_COLLECTION), {
+      return await auditedAdd(collection(firestore, MULTI_LOTS_COLLECTION), {
         ...lotData,
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp()
       });
-      return docRef.id;
     } catch (error) {
       console.error('Error adding lot:', error);
       throw error;
@@ -160,7 +156,7 @@ class MultiLotService {
   async updateLot(lotId: string, updates: Partial<MultiLot>): Promise<void> {
     try {
       const lotRef = doc(firestore, MULTI_LOTS_COLLECTION, lotId);
-      await updateDoc(lotRef, {
+      await auditedUpdate(lotRef, {
         ...updates,
         updatedAt: serverTimestamp()
       });
@@ -174,7 +170,7 @@ class MultiLotService {
   async completeLot(lotId: string): Promise<void> {
     try {
       const lotRef = doc(firestore, MULTI_LOTS_COLLECTION, lotId);
-      await updateDoc(lotRef, {
+      await auditedUpdate(lotRef, {
         status: 'completed',
         completedAt: serverTimestamp(),
         updatedAt: serverTimestamp()
@@ -189,7 +185,7 @@ class MultiLotService {
   async archiveLot(lotId: string): Promise<void> {
     try {
       const lotRef = doc(firestore, MULTI_LOTS_COLLECTION, lotId);
-      await updateDoc(lotRef, {
+      await auditedUpdate(lotRef, {
         status: 'archived',
         updatedAt: serverTimestamp()
       });
@@ -202,7 +198,7 @@ class MultiLotService {
   // Delete a lot
   async deleteLot(lotId: string): Promise<void> {
     try {
-      await deleteDoc(doc(firestore, MULTI_LOTS_COLLECTION, lotId));
+      await auditedDelete(doc(firestore, MULTI_LOTS_COLLECTION, lotId));
     } catch (error) {
       console.error('Error deleting lot:', error);
       throw error;
@@ -307,7 +303,7 @@ class MultiLotService {
         updates.completedAt = serverTimestamp();
       }
       
-      await updateDoc(lotRef, updates);
+      await auditedUpdate(lotRef, updates);
       
       // Auto-archive if completed
       if (isCompleted) {
@@ -336,7 +332,7 @@ class MultiLotService {
       
       if (!assignedUsers.includes(userId)) {
         assignedUsers.push(userId);
-        await updateDoc(lotRef, {
+        await auditedUpdate(lotRef, {
           assignedUsers,
           updatedAt: serverTimestamp()
         });
@@ -360,7 +356,7 @@ class MultiLotService {
       const currentLot = lotDoc.data() as MultiLot;
       const assignedUsers = (currentLot.assignedUsers || []).filter(id => id !== userId);
       
-      await updateDoc(lotRef, {
+      await auditedUpdate(lotRef, {
         assignedUsers,
         updatedAt: serverTimestamp()
       });
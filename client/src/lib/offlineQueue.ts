@@ -0,0 +1,349 @@
+import { collection, doc, getDoc, Timestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { NetworkMonitor } from './performanceUtils';
+
+// Offline write queue for the packhouse floor.
+// Form saves go through runOrQueue: when the tablet is offline (or Firestore does not
+// answer) the write is kept in IndexedDB and replayed when the connection returns.
+// Before replaying, the remote document's updatedAt is compared with the one the local
+// edit started from, so a newer edit from another device is never silently overwritten.
+
+export type OfflineWriteKind =
+  | 'reception_control'
+  | 'quality_control_lot'
+  | 'emballage_lot'
+  | 'dechet_archive'
+  | 'expedition';
+
+export interface PendingWrite {
+  id: string;                 // `${kind}:${docId}`, one entry per document (latest edit wins)
+  kind: OfflineWriteKind;
+  docId: string;
+  label: string;              // Shown in the pending-changes indicator
+  payload: unknown;           // Argument passed back to the replay handler
+  queuedAt: string;           // ISO, first unsynced edit of this document
+  // Remote updatedAt (server time, ISO) the edit started from, null for a new document,
+  // absent when it could not be read (edit made offline on a document not in cache)
+  baseUpdatedAt?: string | null;
+  revision?: number;          // Bumped by every edit merged into the entry
+  attempts: number;
+  status: 'pending' | 'conflict';
+  lastError?: string;
+}
+
+// P is the payload each service queues for its kind; the queue itself only stores it.
+// Method syntax so a handler of any payload can be kept in the registry.
+export interface ReplayHandler<P = unknown> {
+  write(payload: P): Promise<unknown>;
+  // updatedAt of the remote document, null when it does not exist yet
+  remoteUpdatedAt?(payload: P, docId: string): Promise<Date | null>;
+}
+
+export class OfflineConflictError extends Error {
+  constructor(label: string) {
+    super(`${label} a été modifié sur un autre poste pendant la coupure réseau`);
+    this.name = 'OfflineConflictError';
+  }
+}
+
+const DB_NAME = 'fruitsforyou-offline';
+const STORE = 'pending_writes';
+const WRITE_TIMEOUT_MS = 15000;
+
+const handlers = new Map<OfflineWriteKind, ReplayHandler>();
+const listeners = new Set<(writes: PendingWrite[]) => void>();
+let replaying = false;
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE)) {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(database.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+export const listPendingWrites = async (): Promise<PendingWrite[]> => {
+  const writes = await withStore<PendingWrite[]>('readonly', store => store.getAll());
+  return writes.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+const notify = async () => {
+  const writes = await listPendingWrites();
+  listeners.forEach(listener => listener(writes));
+};
+
+const putPendingWrite = async (write: PendingWrite) => {
+  await withStore('readwrite', store => store.put(write));
+  await notify();
+};
+
+// Outcome of a replay, applied in one transaction to the entry as stored, and only if no
+// edit was merged into it meanwhile: the newer payload is kept and replayed on the next run.
+const recordReplayOutcome = async (write: PendingWrite, update: (current: PendingWrite) => PendingWrite) => {
+  const database = await openDatabase();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = database.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      const request = store.get(write.id);
+      request.onsuccess = () => {
+        const current: PendingWrite | undefined = request.result;
+        if (current && (current.revision ?? 0) === (write.revision ?? 0)) store.put(update(current));
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+  await notify();
+};
+
+export const discardPendingWrite = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  await notify();
+};
+
+export const subscribePendingWrites = (listener: (writes: PendingWrite[]) => void): (() => void) => {
+  listeners.add(listener);
+  listPendingWrites().then(listener).catch(error => console.error('Offline queue unavailable:', error));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const registerReplayHandler = <P>(kind: OfflineWriteKind, handler: ReplayHandler<P>) => {
+  handlers.set(kind, handler);
+};
+
+const getPendingWrite = (id: string) =>
+  withStore<PendingWrite | undefined>('readonly', store => store.get(id));
+
+// Firestore id generated locally, so a document created offline keeps the same id once synced
+export const newDocumentId = (collectionName: string): string => doc(collection(db, collectionName)).id;
+
+// updatedAt of a document addressed by its Firestore id
+export const documentUpdatedAt = async (collectionName: string, docId: string): Promise<Date | null> => {
+  const snap = await getDoc(doc(db, collectionName, docId));
+  if (!snap.exists()) return null;
+  const updatedAt = snap.data().updatedAt;
+  if (updatedAt instanceof Timestamp) return updatedAt.toDate();
+  return updatedAt ? new Date(updatedAt) : null;
+};
+
+// Errors meaning "the server could not be reached", as opposed to a rejected write
+export const isOfflineError = (error: unknown): boolean => {
+  if (!NetworkMonitor.isOnline()) return true;
+  const code = (error as { code?: string })?.code || '';
+  const message = (error as Error)?.message || '';
+  return code === 'unavailable' || code === 'deadline-exceeded' || /offline|network|timeout/i.test(message);
+};
+
+const withTimeout = <T>(promise: Promise<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('Firestore timeout')), WRITE_TIMEOUT_MS);
+    promise.then(
+      value => { clearTimeout(timer); resolve(value); },
+      error => { clearTimeout(timer); reject(error); }
+    );
+  });
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+type QueueEntry = Pick<PendingWrite, 'kind' | 'docId' | 'label' | 'payload'>;
+
+// Remote version of the document, undefined when it cannot be read (offline, not in cache)
+const readRemoteVersion = async (entry: QueueEntry): Promise<string | null | undefined> => {
+  const handler = handlers.get(entry.kind);
+  if (!handler?.remoteUpdatedAt) return undefined;
+  try {
+    const remote = await withTimeout(handler.remoteUpdatedAt(entry.payload, entry.docId));
+    return remote ? remote.toISOString() : null;
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    return undefined;
+  }
+};
+
+// Another device wrote the document after the local edit started
+const changedSinceEdit = (write: PendingWrite, remote: Date | null): boolean => {
+  if (write.baseUpdatedAt !== undefined) return (remote ? remote.toISOString() : null) !== write.baseUpdatedAt;
+  // Edit made offline on a document never read here: only the local clock is left
+  return !!remote && remote.getTime() > new Date(write.queuedAt).getTime();
+};
+
+// A write of the entry reached Firestore. The entry is done unless it was edited again
+// meanwhile; the committed version is then the base of the remaining edit.
+const settleCommitted = async (id: string, revision: number) => {
+  const current = await getPendingWrite(id);
+  if (!current) return;
+  if ((current.revision ?? 0) === revision) {
+    await discardPendingWrite(id);
+  } else {
+    await putPendingWrite({ ...current, baseUpdatedAt: await readRemoteVersion(current) });
+  }
+};
+
+// A timed-out write is not cancelled: the SDK keeps it and commits it once the connection
+// returns. Its queue entry is settled then, so the user's own edit is not replayed as a conflict.
+const settleWhenCommitted = (attempt: Promise<unknown>, id: string, revision: number) => {
+  attempt
+    .then(() => settleCommitted(id, revision))
+    .catch(error => console.warn('Écriture hors ligne abandonnée:', error));
+};
+
+// A second offline edit of the same document is merged into the pending one, so a
+// partial update (e.g. a rename) never drops the fields of an earlier unsynced save
+// Returns the revision of the entry after the merge.
+const enqueue = async (entry: QueueEntry, baseUpdatedAt: string | null | undefined): Promise<number> => {
+  const id = `${entry.kind}:${entry.docId}`;
+  const existing = await getPendingWrite(id);
+  const payload = isPlainObject(existing?.payload) && isPlainObject(entry.payload)
+    ? { ...existing!.payload, ...entry.payload }
+    : entry.payload;
+  const revision = (existing?.revision ?? 0) + 1;
+  await putPendingWrite({
+    ...entry,
+    payload,
+    id,
+    queuedAt: existing?.queuedAt || new Date().toISOString(),
+    baseUpdatedAt: existing ? existing.baseUpdatedAt : baseUpdatedAt,
+    revision,
+    attempts: existing?.attempts || 0,
+    status: existing?.status || 'pending'
+  });
+  return revision;
+};
+
+// Run a Firestore write, or queue it when the network is not there.
+// The remote version is read before writing: a queued edit is checked against it on replay.
+// Writes must be idempotent for a given docId: a timed-out write may land while its
+// entry is being replayed.
+export const runOrQueue = async <T>(
+  entry: QueueEntry,
+  write: () => Promise<T>,
+  queuedResult: T
+): Promise<T> => {
+  const id = `${entry.kind}:${entry.docId}`;
+  // An older edit of this document is still waiting: keep the order, queue behind it
+  const pending = await getPendingWrite(id);
+  if (pending) {
+    await enqueue(entry, pending.baseUpdatedAt);
+    replayPendingWrites().catch(error => console.error('Offline replay failed:', error));
+    return queuedResult;
+  }
+  const baseUpdatedAt = await readRemoteVersion(entry);
+  if (!NetworkMonitor.isOnline()) {
+    await enqueue(entry, baseUpdatedAt);
+    return queuedResult;
+  }
+  const attempt = write();
+  try {
+    return await withTimeout(attempt);
+  } catch (error) {
+    if (!isOfflineError(error)) throw error;
+    console.warn(`Écriture mise en file hors ligne (${entry.label}):`, error);
+    settleWhenCommitted(attempt, id, await enqueue(entry, baseUpdatedAt));
+    return queuedResult;
+  }
+};
+
+const replayOne = async (write: PendingWrite, force: boolean) => {
+  const handler = handlers.get(write.kind);
+  if (!handler) return; // Service not loaded yet, kept for a later replay
+
+  if (!force && handler.remoteUpdatedAt) {
+    const remote = await handler.remoteUpdatedAt(write.payload, write.docId);
+    if (changedSinceEdit(write, remote)) {
+      throw new OfflineConflictError(write.label);
+    }
+  }
+  const revision = write.revision ?? 0;
+  const attempt = Promise.resolve(handler.write(write.payload));
+  try {
+    await withTimeout(attempt);
+  } catch (error) {
+    if (isOfflineError(error)) settleWhenCommitted(attempt, write.id, revision);
+    throw error;
+  }
+  await settleCommitted(write.id, revision);
+};
+
+// Replay queued writes in the order they were made. Stops at the first network failure;
+// conflicts are kept in the queue for the user to overwrite or discard.
+export const replayPendingWrites = async (): Promise<{ synced: number; conflicts: number; remaining: number }> => {
+  if (replaying || !NetworkMonitor.isOnline()) {
+    const remaining = (await listPendingWrites()).length;
+    return { synced: 0, conflicts: 0, remaining };
+  }
+  replaying = true;
+  let synced = 0;
+  let conflicts = 0;
+  try {
+    for (const write of await listPendingWrites()) {
+      if (write.status === 'conflict') {
+        conflicts++;
+        continue;
+      }
+      try {
+        await replayOne(write, false);
+        if (handlers.has(write.kind)) synced++;
+      } catch (error) {
+        if (error instanceof OfflineConflictError) {
+          conflicts++;
+          await recordReplayOutcome(write, current => ({ ...current, status: 'conflict', lastError: error.message }));
+          continue;
+        }
+        await recordReplayOutcome(write, current => ({ ...current, attempts: current.attempts + 1, lastError: (error as Error).message }));
+        if (isOfflineError(error)) break;
+      }
+    }
+  } finally {
+    replaying = false;
+  }
+  const remaining = (await listPendingWrites()).length;
+  return { synced, conflicts, remaining };
+};
+
+// Keep the local version of a conflicting write and push it over the remote document
+export const overwriteWithPendingWrite = async (id: string): Promise<void> => {
+  const write = await getPendingWrite(id);
+  if (!write) return;
+  await replayOne(write, true);
+};
+
+// Replay on start-up, whenever the connection comes back, and periodically for
+// connections that drop without the browser noticing
+export const startOfflineSync = (): (() => void) => {
+  const replay = () => {
+    replayPendingWrites().catch(error => console.error('Offline replay failed:', error));
+  };
+  replay();
+  const unsubscribe = NetworkMonitor.subscribe(online => {
+    if (online) replay();
+  });
+  const interval = setInterval(replay, 60000);
+  return () => {
+    unsubscribe();
+    clearInterval(interval);
+  };
+};
@@ -0,0 +1,162 @@
+import { collection, doc, getDocs, query, runTransaction, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { getStockLedger } from './stockLedgerService';
+import {
+  AllocationLine,
+  allocationLinesFromOrders,
+  ClientOrder,
+  clientOrderDocSchema,
+  freePackagesFor,
+  LineAllocation,
+  LotQualityVerdict,
+  PalletReservation,
+  palletReservationId,
+  PalletReservationLine,
+  palletReservationSchema,
+  PalletStock,
+  parseDocuments,
+  parseDomain,
+  qualityControlLotSchema,
+  qualityVerdictsByLot,
+  reservationOrderIds,
+  reservationsReleasedBy
+} from '@shared/domain';
+
+export { ALLOCATION_UNIT_LABELS, planAllocations } from '@shared/domain';
+export type {
+  AllocationLine,
+  AllocationPlan,
+  AllocationUnit,
+  CalibreShortfall,
+  LineAllocation,
+  LotQualityVerdict,
+  PalletReservation,
+  ProposedPallet
+} from '@shared/domain';
+
+const COLLECTION = 'pallet_reservations';
+
+export interface AllocationData {
+  orders: ClientOrder[];
+  lines: AllocationLine[];
+  pallets: PalletStock[];           // In stock today
+  reservations: PalletReservation[];
+  conformity: Map<string, LotQualityVerdict>;
+}
+
+// Everything planAllocations needs: open order lines, pallets in stock, quality verdicts, reservations
+export const getAllocationData = async (): Promise<AllocationData> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const [ordersSnap, { ledger }, controlsSnap, reservationsSnap] = await Promise.all([
+    getDocs(collection(db, 'client-orders')),
+    getStockLedger(),
+    getDocs(collection(db, 'quality_control_lots')),
+    getDocs(collection(db, COLLECTION))
+  ]);
+
+  const orders = parseDocuments(clientOrderDocSchema, ordersSnap.docs, 'client-orders');
+  const controls = parseDocuments(qualityControlLotSchema, controlsSnap.docs, 'quality_control_lots');
+  const reservations = parseDocuments(palletReservationSchema, reservationsSnap.docs, COLLECTION);
+  [...orders.errors, ...controls.errors, ...reservations.errors].forEach(error => console.error(error.message));
+
+  return {
+    orders: orders.items,
+    lines: allocationLinesFromOrders(orders.items),
+    pallets: ledger.pallets.filter(pallet => pallet.exitedOn === null),
+    reservations: reservations.items,
+    conformity: qualityVerdictsByLot(controls.items)
+  };
+};
+
+// Reservation documents holding colis of the order. Transactions of the client SDK cannot
+// run queries: they are listed just before the transaction, which reads each one again.
+const reservationIdsOf = async (orderId: string): Promise<string[]> => {
+  const snap = await getDocs(query(collection(db, COLLECTION), where('orderIds', 'array-contains', orderId)));
+  return snap.docs.map(d => d.id);
+};
+
+/**
+ * Replaces the reservations of an order by the pallets of its allocation (held and
+ * proposed). Each pallet is read again in the transaction: colis reserved meanwhile by
+ * another order make the whole reservation fail rather than overbook the pallet.
+ */
+export const reserveOrder = async (
+  orderId: string,
+  allocations: LineAllocation[],
+  palletsInStock: PalletStock[]
+): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const now = new Date().toISOString();
+  const wanted = new Map<string, PalletReservationLine[]>();
+  allocations.forEach(({ line, pallets }) => pallets.forEach(pallet => {
+    const held = wanted.get(pallet.palletId) || [];
+    const existing = held.find(r => r.lineId === line.lineId);
+    if (existing) {
+      existing.packages += pallet.packages;
+      existing.kg += pallet.kg;
+    } else {
+      held.push({ orderId, orderNumber: line.orderNumber, lineId: line.lineId, packages: pallet.packages, kg: pallet.kg, reservedAt: now });
+    }
+    wanted.set(pallet.palletId, held);
+  }));
+
+  const stock = new Map(palletsInStock.map(pallet => [pallet.palletId, pallet]));
+  const previous = await reservationIdsOf(orderId);
+  const wantedByDoc = new Map(Array.from(wanted.keys()).map(palletId => [palletReservationId(palletId), palletId]));
+  const reservationIds = Array.from(new Set(Array.from(wantedByDoc.keys()).concat(previous)));
+
+  await runTransaction(db, async transaction => {
+    const snaps = await Promise.all(reservationIds.map(id => transaction.get(doc(db, COLLECTION, id))));
+
+    snaps.forEach(snap => {
+      const current = snap.exists() ? parseDomain(palletReservationSchema, { ...snap.data(), id: snap.id }, COLLECTION) : null;
+      const palletId = wantedByDoc.get(snap.id) ?? current?.palletId ?? snap.id;
+      const mine = wanted.get(palletId) || [];
+      const pallet = stock.get(palletId);
+      if (mine.length > 0) {
+        if (!pallet) throw new Error(`Palette ${palletId} absente du stock`);
+        const free = freePackagesFor(pallet, current, orderId);
+        const asked = mine.reduce((sum, r) => sum + r.packages, 0);
+        if (asked > free) {
+          const others = Array.from(new Set((current?.reservations || []).filter(r => r.orderId !== orderId).map(r => r.orderNumber)));
+          throw new Error(`Palette ${palletId} : ${Math.max(0, free)} colis libres, déjà réservée par ${others.join(', ')}`);
+        }
+      }
+
+      const kept = [...(current?.reservations || []).filter(r => r.orderId !== orderId), ...mine];
+      if (kept.length === 0) {
+        transaction.delete(snap.ref);
+      } else {
+        transaction.set(snap.ref, {
+          palletId,
+          sscc: pallet?.sscc ?? current?.sscc ?? null,
+          reservations: kept,
+          orderIds: reservationOrderIds(kept),
+          updatedAt: now
+        });
+      }
+    });
+  });
+};
+
+// Gives back every colis reserved for the order (cancelled, or to be planned again)
+export const releaseOrder = async (orderId: string): Promise<void> => {
+  const reservationIds = await reservationIdsOf(orderId);
+  await runTransaction(db, async transaction => {
+    const snaps = await Promise.all(reservationIds.map(id => transaction.get(doc(db, COLLECTION, id))));
+    const held = snaps
+      .filter(snap => snap.exists())
+      .map(snap => parseDomain(palletReservationSchema, { ...snap.data(), id: snap.id }, COLLECTION));
+    const now = new Date().toISOString();
+    reservationsReleasedBy(held, orderId).forEach(({ id, reservations: kept }) => {
+      const ref = doc(db, COLLECTION, id);
+      if (kept.length === 0) transaction.delete(ref);
+      else transaction.update(ref, { reservations: kept, orderIds: reservationOrderIds(kept), updatedAt: now });
+    });
+  });
+};
@@ -0,0 +1,193 @@
+import {
+  collection,
+  deleteField,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { auditedSet } from './auditTrailService';
+import {
+  buildSscc,
+  ExpeditionFormData,
+  palletContentFromRow,
+  PalletRecord,
+  palletRecordSchema,
+  parseDocuments,
+  parseDomain,
+  ProductionFormData,
+  ProductionRow,
+  productionRowNeedsLabel,
+  SsccSettings,
+  ssccSettingsSchema,
+  SsccSettingsWrite,
+  ssccSettingsWriteSchema
+} from '@shared/domain';
+
+export {
+  expeditionRowFromPallet,
+  formatSscc,
+  isValidSscc,
+  PALLET_STATUS_LABELS,
+  parseSsccScan,
+  productionRowNeedsLabel,
+  ssccSerialCapacity
+} from '@shared/domain';
+export type { PalletRecord, PalletStatus, SsccSettings, SsccSettingsWrite } from '@shared/domain';
+
+const COLLECTION = 'pallets';
+const SETTINGS_COLLECTION = 'sscc_settings';
+const SETTINGS_DOC = 'default';
+
+interface ProductionLotRef {
+  id: string;
+  lotNumber: string;
+  formData: ProductionFormData;
+}
+
+const settingsRef = () => doc(db, SETTINGS_COLLECTION, SETTINGS_DOC);
+
+export const getSsccSettings = async (): Promise<SsccSettings | null> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDoc(settingsRef());
+  if (!snap.exists()) return null;
+  return parseDomain(ssccSettingsSchema, snap.data(), SETTINGS_COLLECTION);
+};
+
+// The serial counter is only moved by issuePalletSsccs, a prefix change keeps it
+export const saveSsccSettings = async (settings: SsccSettingsWrite): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const data = parseDomain(ssccSettingsWriteSchema, settings, SETTINGS_COLLECTION);
+  const existing = await getDoc(settingsRef());
+  await auditedSet(settingsRef(), {
+    ...data,
+    ...(existing.exists() ? {} : { nextSerial: 1 }),
+    updatedAt: new Date().toISOString()
+  }, { merge: true, label: 'Paramètres SSCC' });
+};
+
+/**
+ * Gives an SSCC to every pallet of the fiche de production that has none yet and
+ * registers the pallets. Serials are reserved in a transaction on the settings
+ * document so two packing stations never print the same code.
+ * Returns the production rows with their SSCC, to be saved on the lot.
+ */
+export const issuePalletSsccs = async (lot: ProductionLotRef): Promise<{ rows: ProductionRow[]; issued: PalletRecord[] }> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const rows = lot.formData.productionRows || [];
+  const toLabel = rows.filter(row => !row.sscc && productionRowNeedsLabel(row));
+  if (toLabel.length === 0) return { rows, issued: [] };
+
+  const issued = await runTransaction(db, async transaction => {
+    const snap = await transaction.get(settingsRef());
+    if (!snap.exists()) throw new Error('Préfixe entreprise GS1 non configuré');
+    const settings = parseDomain(ssccSettingsSchema, snap.data(), SETTINGS_COLLECTION);
+
+    const now = new Date().toISOString();
+    const pallets: PalletRecord[] = toLabel.map((row, index) => {
+      const sscc = buildSscc(settings, settings.nextSerial + index);
+      return {
+        id: sscc,
+        sscc,
+        productionLotId: lot.id,
+        productionLotNumber: lot.lotNumber,
+        ...palletContentFromRow(row, lot.formData.headerData?.date || ''),
+        status: 'emise',
+        createdAt: now,
+        updatedAt: now
+      };
+    });
+
+    transaction.update(settingsRef(), { nextSerial: settings.nextSerial + pallets.length, updatedAt: now });
+    pallets.forEach(({ id, ...pallet }) => transaction.set(doc(db, COLLECTION, id), pallet));
+    return pallets;
+  });
+
+  const byNumero = new Map(issued.map(p => [p.palletNumber, p.sscc]));
+  return {
+    rows: rows.map(row => (byNumero.has(row.numero) ? { ...row, sscc: byNumero.get(row.numero) } : row)),
+    issued
+  };
+};
+
+export const getPallet = async (sscc: string): Promise<PalletRecord | null> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDoc(doc(db, COLLECTION, sscc));
+  if (!snap.exists()) return null;
+  return parseDomain(palletRecordSchema, { ...snap.data(), id: snap.id }, COLLECTION);
+};
+
+// Pallets of the registry, newest first; of one fiche de production when `productionLotId` is given
+export const getPallets = async (productionLotId?: string): Promise<PalletRecord[]> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDocs(productionLotId
+    ? query(collection(db, COLLECTION), where('productionLotId', '==', productionLotId))
+    : collection(db, COLLECTION));
+  const { items, errors } = parseDocuments(palletRecordSchema, snap.docs, COLLECTION);
+  errors.forEach(error => console.error(error.message));
+  return items.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || '') || a.palletNumber - b.palletNumber);
+};
+
+/**
+ * Follows edits of the fiche de production: labelled rows update their pallet,
+ * pallets whose SSCC was removed from the sheet are cancelled (a cancelled SSCC is
+ * never issued again).
+ */
+export const syncProductionPallets = async (lot: ProductionLotRef): Promise<void> => {
+  const existing = await getPallets(lot.id);
+  if (existing.length === 0) return;
+
+  const rows = new Map((lot.formData.productionRows || []).filter(row => row.sscc).map(row => [row.sscc!, row]));
+  const now = new Date().toISOString();
+  const batch = writeBatch(db);
+  existing.forEach(pallet => {
+    const ref = doc(db, COLLECTION, pallet.id);
+    const row = rows.get(pallet.sscc);
+    if (row) {
+      batch.set(ref, { ...palletContentFromRow(row, lot.formData.headerData?.date || ''), updatedAt: now }, { merge: true });
+    } else if (pallet.status === 'emise') {
+      batch.set(ref, { status: 'annulee', updatedAt: now }, { merge: true });
+    }
+  });
+  await batch.commit();
+};
+
+/**
+ * Marks the pallets scanned on an expedition as shipped, and puts back in stock the
+ * pallets that were removed from the sheet since its last save.
+ */
+export const markPalletsShipped = async (expedition: ExpeditionFormData): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const expeditionId = expedition.id as string;
+  const shipped = new Set(expedition.rows.map(row => row.sscc).filter((sscc): sscc is string => !!sscc));
+  const previous = await getDocs(query(collection(db, COLLECTION), where('expeditionId', '==', expeditionId)));
+
+  const now = new Date().toISOString();
+  const batch = writeBatch(db);
+  previous.docs
+    .filter(d => !shipped.has(d.id))
+    .forEach(d => batch.update(d.ref, { status: 'emise', expeditionId: deleteField(), expeditionName: deleteField(), updatedAt: now }));
+
+  const known = await Promise.all(Array.from(shipped).map(sscc => getDoc(doc(db, COLLECTION, sscc))));
+  known
+    .filter(snap => snap.exists())
+    .forEach(snap => batch.update(snap.ref, { status: 'expediee', expeditionId, expeditionName: expedition.name, updatedAt: now }));
+  await batch.commit();
+};
@@ -70,6 +70,18 @@ export class NetworkMonitor {
     console.log(`📶 Connection Type: ${this.getConnectionType()}`);
     console.log(`⚡ Connection Speed: ${this.getConnectionSpeed()}`);
   }
+
+  // Notify when the browser goes online / offline; returns the unsubscribe function
+  static subscribe(listener: (online: boolean) => void): () => void {
+    const handleOnline = () => listener(true);
+    const handleOffline = () => listener(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }
 }
 
 // Cache utility for lot data
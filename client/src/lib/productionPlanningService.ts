@@ -0,0 +1,172 @@
+import { collection, deleteField, doc, getDoc, getDocs, serverTimestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { auditedSet, auditedUpdate } from './auditTrailService';
+import { AllocationData, getAllocationData } from './orderAllocationService';
+import { getMassBalanceReport } from './massBalanceService';
+import { getClients } from './clientService';
+import {
+  ClientOrder,
+  DEFAULT_PRODUCTION_PLANNING_SETTINGS,
+  OrderForecast,
+  PackingDemand,
+  packingDemands,
+  parseDocuments,
+  parseDomain,
+  personnelSchema,
+  planAllocations,
+  productionPlanningSettingsSchema,
+  productionPlanningSettingsWriteSchema,
+  ProductionPlanningSettings,
+  resolveClient,
+  scheduledHours,
+  workScheduleSchema
+} from '@shared/domain';
+
+export { DEFAULT_PRODUCTION_PLANNING_SETTINGS, planProduction } from '@shared/domain';
+export type {
+  OrderForecast,
+  PackingDemand,
+  PackingLine,
+  PlanDay,
+  PlanSlot,
+  ProductionPlan,
+  ProductionPlanningSettings,
+  RawMaterialShortfall
+} from '@shared/domain';
+
+const COLLECTION = 'production_planning_settings';
+const SETTINGS_ID = 'default';
+
+// Staff of these departments work on the packing lines
+const PACKING_DEPARTMENTS = ['Production', 'Packaging'];
+
+// Reception lots whose fruit is not all packed: nothing packed yet, or more left than the loss threshold
+const RAW_STOCK_STATUSES = ['en_cours', 'perte'];
+
+export const getPlanningSettings = async (): Promise<ProductionPlanningSettings> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDoc(doc(db, COLLECTION, SETTINGS_ID));
+  if (!snap.exists()) return DEFAULT_PRODUCTION_PLANNING_SETTINGS;
+  return parseDomain(productionPlanningSettingsSchema, snap.data(), `${COLLECTION}/${SETTINGS_ID}`);
+};
+
+export const savePlanningSettings = async (settings: Omit<ProductionPlanningSettings, 'updatedAt'>): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const payload = parseDomain(productionPlanningSettingsWriteSchema, settings, COLLECTION);
+  await auditedSet(
+    doc(db, COLLECTION, SETTINGS_ID),
+    { ...payload, updatedAt: serverTimestamp() },
+    { label: 'Lignes et paramètres de planification' }
+  );
+};
+
+export interface PlanningData {
+  settings: ProductionPlanningSettings;
+  allocation: AllocationData;
+  demands: PackingDemand[];
+  staffHoursByDay: Map<string, number>;
+  rawStockKg: Map<string, number>;    // By variety, lowercase
+}
+
+// Hours scheduled per day for the packing staff (absences excluded)
+const packingStaffHours = async (from: string): Promise<Map<string, number>> => {
+  const [personnelSnap, schedulesSnap] = await Promise.all([
+    getDocs(collection(db, 'personnel')),
+    getDocs(collection(db, 'work_schedules'))
+  ]);
+  const personnel = parseDocuments(personnelSchema, personnelSnap.docs, 'personnel');
+  const schedules = parseDocuments(workScheduleSchema, schedulesSnap.docs, 'work_schedules');
+  [...personnel.errors, ...schedules.errors].forEach(error => console.error(error.message));
+
+  const packers = new Set(personnel.items.filter(p => PACKING_DEPARTMENTS.includes(p.department)).map(p => p.id));
+  const hours = new Map<string, number>();
+  schedules.items
+    .filter(s => s.date.slice(0, 10) >= from && s.status !== 'absent' && packers.has(s.employeeId))
+    .forEach(s => {
+      const date = s.date.slice(0, 10);
+      hours.set(date, (hours.get(date) || 0) + scheduledHours(s.entryTime, s.exitTime, s.pauseDuration));
+    });
+  return hours;
+};
+
+/**
+ * Everything planProduction needs. Order lines ticked as prepared are left out; the rest
+ * is what the stock allocation leaves uncovered, in boxes of the client's packaging.
+ */
+export const getPlanningData = async (today: string): Promise<PlanningData> => {
+  const [settings, allocation, massBalance, clients, staffHoursByDay] = await Promise.all([
+    getPlanningSettings(),
+    getAllocationData(),
+    getMassBalanceReport(),
+    getClients(),
+    packingStaffHours(today)
+  ]);
+
+  const prepared = new Set(allocation.orders.flatMap(order => order.products.filter(p => p.completed).map(p => p.id)));
+  const plan = planAllocations(
+    allocation.lines.filter(line => !prepared.has(line.lineId)),
+    allocation.pallets,
+    allocation.reservations,
+    allocation.conformity
+  );
+
+  const ordersById = new Map(allocation.orders.map(order => [order.id, order]));
+  const demands = packingDemands(
+    plan.lines.map(({ line, shortfall }) => ({ ...line, shortfall })),
+    orderId => {
+      const order = ordersById.get(orderId);
+      return order ? resolveClient(clients, order)?.packaging : undefined;
+    },
+    settings
+  );
+
+  const rawStockKg = new Map<string, number>();
+  massBalance.receptionLots
+    .filter(lot => RAW_STOCK_STATUSES.includes(lot.status) && lot.unexplainedKg > 0)
+    .forEach(lot => {
+      const key = (lot.variety || '').trim().toLowerCase();
+      rawStockKg.set(key, (rawStockKg.get(key) || 0) + lot.unexplainedKg);
+    });
+
+  return { settings, allocation, demands, staffHoursByDay, rawStockKg };
+};
+
+/**
+ * Writes the predicted delays on the orders: delayReason of the late ones, and clears the
+ * reasons the plan wrote earlier on orders no longer late. Reasons typed by hand are kept.
+ */
+export const publishPredictedDelays = async (
+  forecasts: OrderForecast[],
+  orders: ClientOrder[]
+): Promise<{ flagged: number; cleared: number }> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const now = new Date().toISOString();
+  const late = new Map(forecasts.filter(f => f.late).map(f => [f.orderId, f]));
+  let flagged = 0;
+  let cleared = 0;
+  for (const order of orders) {
+    const forecast = late.get(order.id);
+    const ref = doc(db, 'client-orders', order.id);
+    if (forecast?.delayReason && forecast.delayReason !== order.delayReason) {
+      await auditedUpdate(ref, { delayReason: forecast.delayReason, delayPredictedAt: now, updatedAt: serverTimestamp() }, {
+        label: `Commande ${order.orderNumber}`,
+        reason: 'Retard prévu par la planification'
+      });
+      flagged++;
+    } else if (!forecast && order.delayPredictedAt) {
+      await auditedUpdate(ref, { delayReason: deleteField(), delayPredictedAt: deleteField(), updatedAt: serverTimestamp() }, {
+        label: `Commande ${order.orderNumber}`,
+        reason: 'Plus de retard prévu'
+      });
+      cleared++;
+    }
+  }
+  return { flagged, cleared };
+};
@@ -0,0 +1,51 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { auditedSet } from './auditTrailService';
+import {
+  defaultLotPublication,
+  DigitalLinkLanguage,
+  LotPublicationWrite,
+  lotPublicationWriteSchema,
+  parseDomain,
+  PublicLotView
+} from '@shared/domain';
+
+export { defaultLotPublication, PUBLIC_JOURNEY_STEPS, PUBLIC_LOT_FIELD_LABELS, PUBLIC_LOT_FIELDS } from '@shared/domain';
+export type { LotPublicationWrite, PublicLotField, PublicLotView } from '@shared/domain';
+
+const COLLECTION = 'lot_publications';
+
+// Express server answering /api/public/lots (same origin when it serves the app)
+const API_BASE: string = import.meta.env.VITE_API_BASE || '';
+
+/**
+ * Consumer view of a lot, from the server projection: the public pages never read
+ * avocado-tracking themselves. Null when the lot does not exist or is not published.
+ */
+export const fetchPublicLot = async (lotNumber: string, language: DigitalLinkLanguage): Promise<PublicLotView | null> => {
+  const response = await fetch(`${API_BASE}/api/public/lots/${encodeURIComponent(lotNumber)}?lang=${language}`);
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Lot ${lotNumber}: ${response.status}`);
+  return response.json();
+};
+
+// Publication settings of a lot (same document id as avocado-tracking)
+export const getLotPublication = async (lotId: string, lotNumber: string): Promise<LotPublicationWrite> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDoc(doc(db, COLLECTION, lotId));
+  if (!snap.exists()) return defaultLotPublication(lotNumber);
+  return parseDomain(lotPublicationWriteSchema, snap.data(), COLLECTION);
+};
+
+export const saveLotPublication = async (lotId: string, publication: LotPublicationWrite): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const data = parseDomain(lotPublicationWriteSchema, publication, COLLECTION);
+  await auditedSet(doc(db, COLLECTION, lotId), { ...data, updatedAt: new Date().toISOString() }, {
+    label: `Publication lot ${data.lotNumber}`
+  });
+};
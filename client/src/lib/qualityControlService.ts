@@ -3,9 +3,6 @@ import {
   doc, 
   getDocs, 
   getDoc, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
   query, 
   where, 
   orderBy,
@@ -13,9 +10,22 @@ import {
   serverTimestamp
 } from "firebase/firestore";
 import { db, auth } from "./firebase";
+import { auditedAdd, auditedDelete, auditedSet, auditedUpdate } from './auditTrailService';
+import { documentUpdatedAt, isOfflineError, newDocumentId, registerReplayHandler, runOrQueue } from './offlineQueue';
 import { ref, uploadBytes, uploadBytesResumable, getDownloadURL, deleteObject, getMetadata, UploadTaskSnapshot } from 'firebase/storage';
 import { storage } from './firebase';
 import { onAuthStateChanged } from 'firebase/auth';
+import {
+  evaluateQualityForm,
+  isRecordLocked,
+  parseDomain,
+  qualityControlFormSchema,
+  QualityControlFormData,
+  RecordLockedError,
+  SignedRecord
+} from '@shared/domain';
+import { signRecord } from './signatureService';
+import { deriveQualityEdges, syncGenealogySource } from './lotGenealogyService';
 
 // Helper function to check if user is authenticated
 export const ensureAuthenticated = (): Promise<boolean> => {
@@ -53,39 +63,7 @@ const removeUndefinedValues = <T extends Record<string, any>>(obj: T): Partial<T
 };
 
 // Types for Quality Control
-export interface QualityControlFormData {
-  date: string;
-  product: string;
-  variety: string;
-  campaign: string;
-  clientLot: string;
-  shipmentNumber: string;
-  packagingType: string;
-  category: string;
-  exporterNumber: string;
-  frequency: string;
-  palettes: any[];
-  tolerance?: any;
-  // Enhanced data structure
-  calculatedResults?: {
-    minCharacteristics: number;
-    totalDefects: number;
-    missingBrokenGrains: number;
-    weightConformity: number;
-    isConform: boolean;
-  };
-  averages?: {
-    [key: string]: string;
-  };
-  submissionMetadata?: {
-    submittedBy: string;
-    submittedAt: string;
-    paletteCount: number;
-    activeTab: number;
-    browserInfo: string;
-    version: string;
-  };
-}
+export type { QualityControlFormData } from '@shared/domain';
 
 export interface QualityControlLot {
   id: string;
@@ -138,12 +116,25 @@ export interface QualityRapport {
   archivedAt?: string;
   chiefComments?: string;
   chiefApprovalDate?: string;
+  metadata?: {
+    totalCalibresTested?: number;
+    totalImagesUploaded?: number;
+    inputMode?: string;
+    completedBy?: string;
+    processingTime?: string;
+    qualityScore?: number;
+    formData?: QualityControlFormData; // Control form of the lot, used for the conformity verdict
+  };
 }
 
 // Collections
 const QUALITY_CONTROL_COLLECTION = 'quality_control_lots';
 const QUALITY_REPORTS_COLLECTION = 'quality_reports';
 
+// Malformed form payloads are reported with the document path instead of rendering as blank palettes
+const parseQualityFormData = (docId: string, formData: unknown): QualityControlFormData =>
+  parseDomain(qualityControlFormSchema, formData, `${QUALITY_CONTROL_COLLECTION}/${docId}`);
+
 // Helper function to convert Firestore timestamp to ISO string
 const timestampToISOString = (timestamp: any) => {
   if (!timestamp) return new Date().toISOString();
@@ -747,8 +738,15 @@ export const uploadCalibreImages = async (
   }
 };
 
+// Keep the lot genealogy graph in step with the saved control (palettes -> internal lots)
+const syncQualityGenealogy = (docId: string, lotNumber: string, formData: QualityControlFormData) => {
+  const source = { collection: QUALITY_CONTROL_COLLECTION, docId };
+  syncGenealogySource(source, deriveQualityEdges({ lotNumber, ...formData }, source))
+    .catch(err => console.warn('Généalogie non synchronisée:', err));
+};
+
 // Save Quality Control Lot to Firestore
-export const saveQualityControlLot = async (lot: QualityControlLot): Promise<string> => {
+const writeQualityControlLot = async (lot: QualityControlLot): Promise<string> => {
   try {
     // Ensure user is authenticated
     const isAuthenticated = await waitForAuth();
@@ -762,16 +760,11 @@ export const saveQualityControlLot = async (lot: QualityControlLot): Promise<str
     }
 
     // Validate form data structure
-    const requiredFields = ['date', 'product', 'variety', 'campaign'];
-    for (const field of requiredFields) {
-      const val = lot.formData[field as keyof QualityControlFormData] as any;
-      if (val === undefined || val === null) {
-        throw new Error(`Required field missing: ${field}`);
-      }
-    }
+    const formData = parseQualityFormData(lot.id, lot.formData);
 
-    // Clean up data to remove undefined values
-    const cleanData = removeUndefinedValues(lot);
+    // Clean up data to remove undefined values. Visas and the lock are only written
+    // by signatureService, a stale copy held by the page must not overwrite them.
+    const { signatures, locked, reopenings, ...cleanData } = removeUndefinedValues(lot) as QualityControlLot & SignedRecord;
 
     // Prepare comprehensive lot data for Firebase
     // Safely handle createdAt which may be an invalid/empty string
@@ -790,16 +783,14 @@ export const saveQualityControlLot = async (lot: QualityControlLot): Promise<str
       ...cleanData,
       // Ensure all required fields are present
       lotNumber: lot.lotNumber,
-      formData: {
-        ...lot.formData,
-        // Ensure palettes array exists
-        palettes: lot.formData.palettes || [],
+      formData: removeUndefinedValues({
+        ...formData,
         // Add metadata if not present
-        submissionMetadata: lot.formData.submissionMetadata || {
+        submissionMetadata: formData.submissionMetadata || {
           submittedAt: new Date().toISOString(),
           version: "2.0"
         }
-      },
+      }),
       images: lot.images || [],
       status: lot.status || 'draft',
       phase: lot.phase || 'controller',
@@ -816,6 +807,7 @@ export const saveQualityControlLot = async (lot: QualityControlLot): Promise<str
     
     // Check if the ID looks like a temporary ID (starts with 'lot-' followed by timestamp)
     const isTemporaryId = lot.id.startsWith('lot-') && /^lot-\d+$/.test(lot.id);
+    const audit = { label: `Contrôle qualité ${lot.lotNumber}` };
     
     if (lot.id && !isTemporaryId) {
       // Check if document exists before updating
@@ -823,24 +815,28 @@ export const saveQualityControlLot = async (lot: QualityControlLot): Promise<str
       const docSnap = await getDoc(docRef);
       
       if (docSnap.exists()) {
+        if (isRecordLocked(docSnap.data())) throw new RecordLockedError(`Le contrôle qualité ${lot.lotNumber}`);
         // Update existing lot
         console.log('Updating existing lot:', lot.id);
-        await updateDoc(docRef, lotData);
-        return lot.id;
+        await auditedUpdate(docRef, lotData, audit);
       } else {
-        // Document doesn't exist, create new one
+        // Document doesn't exist yet (id generated on the tablet), create it with that id
         console.log('Creating new lot (document not found):', lot.id);
-        const newDocRef = await addDoc(collection(db, QUALITY_CONTROL_COLLECTION), lotData);
-        return newDocRef.id;
+        await auditedSet(docRef, lotData, audit);
       }
+      syncQualityGenealogy(lot.id, lot.lotNumber, formData);
+      return lot.id;
     } else {
       // Create new lot (for temporary IDs or no ID)
       console.log('Creating new lot (temporary ID):', lot.id);
-      const docRef = await addDoc(collection(db, QUALITY_CONTROL_COLLECTION), lotData);
-      return docRef.id;
+      const id = await auditedAdd(collection(db, QUALITY_CONTROL_COLLECTION), lotData, audit);
+      syncQualityGenealogy(id, lot.lotNumber, formData);
+      return id;
     }
   } catch (error) {
     console.error('Error saving quality control lot:', error);
+    // Left as is so the offline queue recognises it
+    if (isOfflineError(error)) throw error;
     
     // Enhanced error messages
     if (error instanceof Error) {
@@ -857,6 +853,25 @@ export const saveQualityControlLot = async (lot: QualityControlLot): Promise<str
   }
 };
 
+registerReplayHandler('quality_control_lot', {
+  write: writeQualityControlLot,
+  remoteUpdatedAt: (_lot, docId) => documentUpdatedAt(QUALITY_CONTROL_COLLECTION, docId)
+});
+
+// Saved immediately when online, queued on the tablet otherwise.
+// Temporary ids ('lot-<timestamp>') are replaced by a Firestore id generated locally.
+export const saveQualityControlLot = async (lot: QualityControlLot): Promise<string> => {
+  const { imageFiles, ...rest } = lot;
+  const isTemporaryId = !lot.id || /^lot-\d+$/.test(lot.id);
+  const pending: QualityControlLot = { ...rest, id: isTemporaryId ? newDocumentId(QUALITY_CONTROL_COLLECTION) : lot.id };
+  parseQualityFormData(pending.id, pending.formData);
+  return runOrQueue(
+    { kind: 'quality_control_lot', docId: pending.id, label: `Contrôle qualité ${lot.lotNumber}`, payload: pending },
+    () => writeQualityControlLot(pending),
+    pending.id
+  );
+};
+
 // Get Quality Control Lot by ID
 export const getQualityControlLot = async (lotId: string): Promise<QualityControlLot | null> => {
   try {
@@ -868,7 +883,7 @@ export const getQualityControlLot = async (lotId: string): Promise<QualityContro
       return {
         id: docSnap.id,
         lotNumber: data.lotNumber,
-        formData: data.formData,
+        formData: parseQualityFormData(docSnap.id, data.formData),
         images: data.images || [],
         status: data.status,
         phase: data.phase || 'controller',
@@ -937,7 +952,7 @@ export const getQualityControlLots = async (phase?: 'controller' | 'chief'): Pro
       lots.push({
         id: doc.id,
         lotNumber: data.lotNumber,
-        formData: data.formData,
+        formData: parseQualityFormData(doc.id, data.formData),
         images: data.images || [],
         status: data.status,
         phase: data.phase || 'controller',
@@ -972,7 +987,7 @@ export const getQualityControlLots = async (phase?: 'controller' | 'chief'): Pro
             lots.push({
               id: doc.id,
               lotNumber: data.lotNumber,
-              formData: data.formData,
+              formData: parseQualityFormData(doc.id, data.formData),
               images: data.images || [],
               status: data.status,
               phase: data.phase || 'controller',
@@ -1016,7 +1031,7 @@ export const getLotsForChiefApproval = async (): Promise<QualityControlLot[]> =>
         lots.push({
           id: doc.id,
           lotNumber: data.lotNumber,
-          formData: data.formData,
+          formData: parseQualityFormData(doc.id, data.formData),
           images: data.images || [],
           status: data.status,
           phase: data.phase || 'controller',
@@ -1052,7 +1067,7 @@ export const getLotsForChiefApproval = async (): Promise<QualityControlLot[]> =>
           lots.push({
             id: doc.id,
             lotNumber: data.lotNumber,
-            formData: data.formData,
+            formData: parseQualityFormData(doc.id, data.formData),
             images: data.images || [],
             status: data.status,
             phase: data.phase || 'controller',
@@ -1075,22 +1090,25 @@ export const getLotsForChiefApproval = async (): Promise<QualityControlLot[]> =>
 };
 
 // Chief approve/reject lot
+// The decision is an electronic signature: password re-entered, chief name taken from
+// the profile, lot locked afterwards
 export const chiefApproveLot = async (
   lotId: string,
   approved: boolean,
-  chiefName: string,
+  password: string,
   comments?: string
 ): Promise<void> => {
   try {
-    const status = approved ? 'chief_approved' : 'chief_rejected';
-    
-    await updateDoc(doc(db, QUALITY_CONTROL_COLLECTION, lotId), {
-      status,
-      phase: 'chief',
-      chief: chiefName,
-      chiefComments: comments || '',
-      chiefApprovalDate: serverTimestamp(),
-      updatedAt: serverTimestamp()
+    await signRecord('quality', lotId, 'chiefApproval', {
+      password,
+      updates: {
+        status: approved ? 'chief_approved' : 'chief_rejected',
+        phase: 'chief',
+        chiefComments: comments || '',
+        chiefApprovalDate: serverTimestamp()
+      },
+      action: approved ? 'approve' : 'reject',
+      reason: comments || ''
     });
   } catch (error) {
     console.error('Error updating lot approval:', error);
@@ -1110,14 +1128,14 @@ export const saveQualityControlReport = async (report: QualityControlReport): Pr
       chiefApprovalDate: report.chiefApprovalDate ? Timestamp.fromDate(new Date(report.chiefApprovalDate)) : null
     };
     
+    const audit = { label: `Rapport contrôle qualité ${report.lotId}` };
     if (report.id && report.id !== `report-${Date.now()}`) {
       // Update existing report
-      await updateDoc(doc(db, QUALITY_REPORTS_COLLECTION, report.id), reportData);
+      await auditedUpdate(doc(db, QUALITY_REPORTS_COLLECTION, report.id), reportData, audit);
       return report.id;
     } else {
       // Create new report
-      const docRef = await addDoc(collection(db, QUALITY_REPORTS_COLLECTION), reportData);
-      return docRef.id;
+      return auditedAdd(collection(db, QUALITY_REPORTS_COLLECTION), reportData, audit);
     }
   } catch (error) {
     console.error('Error saving quality control report:', error);
@@ -1175,7 +1193,11 @@ export const getQualityControlReports = async (phase?: 'controller' | 'chief'):
 // Delete Quality Control Lot
 export const deleteQualityControlLot = async (lotId: string): Promise<void> => {
   try {
-    await deleteDoc(doc(db, QUALITY_CONTROL_COLLECTION, lotId));
+    const lotRef = doc(db, QUALITY_CONTROL_COLLECTION, lotId);
+    const snap = await getDoc(lotRef);
+    const lotNumber = snap.data()?.lotNumber || lotId;
+    if (isRecordLocked(snap.data())) throw new RecordLockedError(`Le contrôle qualité ${lotNumber}`);
+    await auditedDelete(lotRef, { label: `Contrôle qualité ${lotNumber}` });
   } catch (error) {
     console.error('Error deleting quality control lot:', error);
     throw error;
@@ -1213,8 +1235,7 @@ export const saveQualityRapport = async (rapport: Omit<QualityRapport, 'id'>): P
       archivedAt: rapport.archivedAt ? Timestamp.fromDate(new Date(rapport.archivedAt)) : null
     });
 
-    const docRef = await addDoc(collection(db, RAPPORT_COLLECTION), cleanedRapport);
-    return docRef.id;
+    return auditedAdd(collection(db, RAPPORT_COLLECTION), cleanedRapport, { label: `Rapport qualité ${rapport.lotNumber}` });
   } catch (error) {
     console.error('Error saving quality rapport:', error);
     throw error;
@@ -1244,7 +1265,7 @@ export const updateQualityRapport = async (rapportId: string, updates: Partial<Q
       archivedAt: updates.archivedAt ? Timestamp.fromDate(new Date(updates.archivedAt)) : undefined
     });
 
-    await updateDoc(docRef, cleanedUpdates);
+    await auditedUpdate(docRef, cleanedUpdates, { label: `Rapport qualité ${docSnap.data().lotNumber || rapportId}` });
   } catch (error) {
     console.error('Error updating quality rapport:', error);
     throw error;
@@ -1327,7 +1348,7 @@ export const getQualityControlLotByNumber = async (lotNumber: string): Promise<Q
       return {
         id: doc.id,
         lotNumber: data.lotNumber,
-        formData: data.formData,
+        formData: parseQualityFormData(doc.id, data.formData),
         images: data.images || [],
         status: data.status,
         phase: data.phase || 'controller',
@@ -1391,6 +1412,8 @@ export const getQualityControlStatistics = async (): Promise<{
   completedLots: number;
   draftLots: number;
   submittedLots: number;
+  conformLots: number;
+  nonConformLots: number;
   lotsByStatus: Record<string, number>;
   recentActivity: QualityControlLot[];
 }> => {
@@ -1402,6 +1425,9 @@ export const getQualityControlStatistics = async (): Promise<{
       completedLots: lots.filter(l => l.status === 'completed').length,
       draftLots: lots.filter(l => l.status === 'draft').length,
       submittedLots: lots.filter(l => l.status === 'submitted').length,
+      // Recomputed from the palettes rather than read from the stored calculatedResults
+      conformLots: lots.filter(l => evaluateQualityForm(l.formData).isConform).length,
+      nonConformLots: lots.filter(l => !evaluateQualityForm(l.formData).isConform).length,
       lotsByStatus: {} as Record<string, number>,
       recentActivity: lots.slice(0, 10) // Last 10 lots
     };
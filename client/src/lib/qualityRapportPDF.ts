@@ -1,5 +1,6 @@
 import { jsPDF } from 'jspdf';
 import { QualityRapport } from './qualityControlService';
+import { evaluateQualityForm, formatAverage, thresholdsForForm } from '@shared/domain';
 
 // Add image to PDF with proper scaling
 const addImageToPDF = (doc: jsPDF, imageData: string, x: number, y: number, width: number, height: number) => {
@@ -61,6 +62,35 @@ export const generateQualityRapportPDF = async (rapport: QualityRapport): Promis
   doc.text(`Statut: ${rapport.status}`, 20, yPosition);
   yPosition += 15;
 
+  // Conformity of the controlled palettes, same verdict as the control form
+  const formData = rapport.metadata?.formData;
+  if (formData) {
+    const lot = evaluateQualityForm(formData);
+    const thresholds = thresholdsForForm(formData);
+    doc.setFontSize(14);
+    doc.text('Conformité du lot', 20, yPosition);
+    yPosition += 10;
+    doc.setFontSize(12);
+    if (formData.toleranceProfile) {
+      doc.text(`Profil de tolérance: ${formData.toleranceProfile.name}`, 30, yPosition);
+      yPosition += 7;
+    }
+    doc.text(`Caractéristiques minimales: ${formatAverage(lot.minCharacteristics)}% (max ${thresholds.maxMinCharacteristics}%)`, 30, yPosition);
+    yPosition += 7;
+    doc.text(`Total des défauts: ${formatAverage(lot.totalDefects)}% (max ${thresholds.maxTotalDefects}%)`, 30, yPosition);
+    yPosition += 7;
+    doc.text(`Grains manquants et cassés: ${formatAverage(lot.missingBrokenGrains)}% (max ${thresholds.maxMissingBrokenGrains}%)`, 30, yPosition);
+    yPosition += 7;
+    doc.text(`Poids net: ${formatAverage(lot.weightConformity) || '-'}% (min +${thresholds.minWeightConformity}%)`, 30, yPosition);
+    yPosition += 7;
+    if (lot.nonConformPalettes.length > 0) {
+      doc.text(`Palettes avec un contrôle NC: ${lot.nonConformPalettes.map(i => i + 1).join(', ')}`, 30, yPosition);
+      yPosition += 7;
+    }
+    doc.text(`Verdict: ${lot.isConform ? 'Conforme' : 'Non conforme'}`, 30, yPosition);
+    yPosition += 15;
+  }
+
   // Process each calibre
   for (const calibre of rapport.calibres) {
     const calibreImages = rapport.images[calibre] || [];
@@ -0,0 +1,120 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { RecallCriteria, RecallSimulation } from './recallService';
+
+const CRITERIA_LABELS: Record<keyof RecallCriteria, string> = {
+  supplier: 'Fournisseur',
+  receptionBon: 'Bon de réception',
+  variety: 'Variété',
+  dateFrom: 'Du',
+  dateTo: 'Au',
+  internalLot: 'Lot interne'
+};
+
+const kg = (value: number) => `${value.toFixed(1)} kg`;
+
+const formatCriteria = (criteria: RecallCriteria): string =>
+  (Object.keys(CRITERIA_LABELS) as Array<keyof RecallCriteria>)
+    .filter(key => criteria[key]?.trim())
+    .map(key => `${CRITERIA_LABELS[key]}: ${criteria[key]}`)
+    .join(' | ');
+
+// jspdf-autotable keeps the last table drawn on the document, outside the jsPDF types
+const lastY = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+// Generate the mock-recall dossier handed to auditors
+export const generateRecallDossierPDF = (simulation: RecallSimulation): Blob => {
+  const doc = new jsPDF();
+  const { massBalance } = simulation;
+
+  doc.setFontSize(18);
+  doc.text('Dossier de simulation de rappel', 105, 18, { align: 'center' });
+  doc.setFontSize(10);
+  doc.text(`Critères: ${formatCriteria(simulation.criteria) || '-'}`, 14, 28);
+  doc.text(
+    `Démarré le ${new Date(simulation.startedAt).toLocaleString('fr-FR')} - durée ${(simulation.durationMs / 1000).toFixed(1)} s`,
+    14,
+    34
+  );
+
+  autoTable(doc, {
+    startY: 40,
+    theme: 'grid',
+    head: [['Bilan matière', 'Valeur']],
+    body: [
+      ['Reçu (réception)', kg(massBalance.receivedKg)],
+      ['Conditionné (production)', `${kg(massBalance.packedKg)} / ${massBalance.packedPackages} colis`],
+      ['Déchets', kg(massBalance.wasteKg)],
+      ['Expédié', `${massBalance.shippedPackages} colis (~${kg(massBalance.estimatedShippedKg)})`],
+      ['Écart non expliqué', kg(massBalance.unaccountedKg)]
+    ],
+    headStyles: { fillColor: [22, 163, 74] }
+  });
+
+  autoTable(doc, {
+    startY: lastY(doc) + 8,
+    theme: 'grid',
+    head: [['Lots réception', 'Lots internes', 'Palettes production', 'Palettes déchets']],
+    body: [[
+      simulation.receptionLots.map(n => n.label).join('\n') || '-',
+      simulation.internalLots.map(n => n.label).join('\n') || '-',
+      String(simulation.productionPallets.length),
+      String(simulation.dechetPallets.length)
+    ]],
+    headStyles: { fillColor: [22, 163, 74] }
+  });
+
+  autoTable(doc, {
+    startY: lastY(doc) + 8,
+    theme: 'grid',
+    head: [['Expédition', 'Date', 'Destination', 'Transporteur', 'Matricule', 'Commande / Client', 'Palette', 'Lot interne', 'Calibre', 'Colis']],
+    body: simulation.expeditions.flatMap(e =>
+      e.pallets.map(p => [
+        e.name,
+        e.date,
+        e.destination,
+        e.transporteur,
+        e.matricule,
+        [e.commandeClient, e.clientName].filter(Boolean).join(' / '),
+        p.pallet.label,
+        p.internalLot,
+        p.calibre || '',
+        p.packageCount !== undefined ? String(p.packageCount) : ''
+      ])
+    ),
+    styles: { fontSize: 7 },
+    headStyles: { fillColor: [22, 163, 74] }
+  });
+
+  if (simulation.clientOrders.length > 0) {
+    autoTable(doc, {
+      startY: lastY(doc) + 8,
+      theme: 'grid',
+      head: [['Commande', 'Client', 'Statut']],
+      body: simulation.clientOrders.map(o => [o.orderNumber, o.clientName, o.status]),
+      headStyles: { fillColor: [22, 163, 74] }
+    });
+  }
+
+  doc.setFontSize(8);
+  doc.text('Dossier généré automatiquement - ' + new Date().toLocaleDateString('fr-FR'), 105, 287, { align: 'center' });
+
+  return doc.output('blob');
+};
+
+const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",;\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One line per shipped pallet, the format requested by retail customers
+export const recallDossierToCSV = (simulation: RecallSimulation): string => {
+  const header = ['Expedition', 'Date', 'Destination', 'Transporteur', 'Matricule', 'Commande', 'Client', 'Palette', 'Lot interne', 'Variete', 'Calibre', 'Colis'];
+  const lines = simulation.expeditions.flatMap(e =>
+    e.pallets.map(p => [
+      e.name, e.date, e.destination, e.transporteur, e.matricule, e.commandeClient, e.clientName,
+      p.pallet.label, p.internalLot, p.variety, p.calibre, p.packageCount
+    ].map(csvCell).join(','))
+  );
+  return [header.join(','), ...lines].join('\n');
+};
@@ -0,0 +1,263 @@
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { ClientOrder, getClientOrders } from './firebaseService';
+import { expeditionFormSchema, parseDocuments, receptionControlLotSchema } from '@shared/domain';
+import {
+  getAllGenealogyEdges,
+  LotGenealogyEdge,
+  LotNodeRef,
+  nodeKey,
+  normalizeLotId,
+  walkGenealogy
+} from './lotGenealogyService';
+
+// Any combination of criteria is allowed; all given criteria must match
+export interface RecallCriteria {
+  supplier?: string;     // prestataire / producteur du contrôle réception
+  receptionBon?: string; // N° bon de réception
+  variety?: string;
+  dateFrom?: string;     // yyyy-MM-dd (date de réception)
+  dateTo?: string;
+  internalLot?: string;  // N° de lot interne
+}
+
+export interface RecallControlInput {
+  lotNumber: string;
+  header?: { provider?: string; producer?: string; receptionBonNumber?: string };
+}
+
+export interface RecallExpeditionInput {
+  id: string;
+  name: string;
+  date: string;
+  headerData?: {
+    transporteur?: string;
+    matricule?: string;
+    destination?: string;
+    commandeClient?: string;
+  };
+}
+
+export interface RecallShippedPallet {
+  pallet: LotNodeRef;
+  internalLot: string;
+  calibre?: string;
+  variety?: string;
+  packageCount?: number;
+}
+
+export interface RecallExpedition {
+  expeditionId: string;
+  name: string;
+  date: string;
+  destination: string;
+  transporteur: string;
+  matricule: string;
+  commandeClient: string;
+  clientName?: string;
+  pallets: RecallShippedPallet[];
+}
+
+export interface RecallMassBalance {
+  receivedKg: number;
+  packedKg: number;
+  packedPackages: number;
+  wasteKg: number;
+  shippedPackages: number;
+  estimatedShippedKg: number;
+  unaccountedKg: number;
+}
+
+export interface RecallSimulation {
+  criteria: RecallCriteria;
+  startedAt: string;   // ISO
+  completedAt: string; // ISO
+  durationMs: number;
+  receptionLots: LotNodeRef[];
+  internalLots: LotNodeRef[];
+  productionPallets: LotNodeRef[];
+  dechetPallets: LotNodeRef[];
+  expeditions: RecallExpedition[];
+  clientOrders: Array<Pick<ClientOrder, 'id' | 'orderNumber' | 'clientName' | 'status'>>;
+  massBalance: RecallMassBalance;
+}
+
+export const hasRecallCriteria = (criteria: RecallCriteria): boolean =>
+  Object.values(criteria).some(v => typeof v === 'string' && v.trim() !== '');
+
+const contains = (value: string | undefined, search: string) =>
+  normalizeLotId(value).includes(normalizeLotId(search));
+
+const uniqueNodes = (nodes: LotNodeRef[]): LotNodeRef[] =>
+  Array.from(new Map(nodes.map(n => [nodeKey(n), n])).values());
+
+const sum = (edges: LotGenealogyEdge[], field: 'quantityKg' | 'packageCount') =>
+  edges.reduce((acc, e) => acc + (e[field] || 0), 0);
+
+/**
+ * Selects the reception -> internal lot edges matching the criteria.
+ * Supplier filtering goes through the reception controls, which are the
+ * only records carrying the provider/producer of a bon de réception.
+ */
+export const selectRecallSeeds = (
+  criteria: RecallCriteria,
+  edges: LotGenealogyEdge[],
+  controls: RecallControlInput[]
+): { receptionEdges: LotGenealogyEdge[]; internalLots: LotNodeRef[] } => {
+  const supplierBons = criteria.supplier?.trim()
+    ? new Set(
+        controls
+          .filter(c => contains(c.header?.provider, criteria.supplier!) || contains(c.header?.producer, criteria.supplier!))
+          .map(c => normalizeLotId(c.header?.receptionBonNumber))
+          .filter(Boolean)
+      )
+    : null;
+
+  const receptionEdges = edges.filter(e => {
+    if (e.relation !== 'split_into') return false;
+    if (supplierBons && !supplierBons.has(e.parent.id)) return false;
+    if (criteria.receptionBon?.trim() && e.parent.id !== normalizeLotId(criteria.receptionBon)) return false;
+    if (criteria.internalLot?.trim() && e.child.id !== normalizeLotId(criteria.internalLot)) return false;
+    if (criteria.variety?.trim() && !contains(e.variety, criteria.variety)) return false;
+    if (criteria.dateFrom && (!e.date || e.date < criteria.dateFrom)) return false;
+    if (criteria.dateTo && (!e.date || e.date > criteria.dateTo)) return false;
+    return true;
+  });
+
+  const internalLots = new Map<string, LotNodeRef>();
+  receptionEdges.forEach(e => internalLots.set(nodeKey(e.child), e.child));
+
+  // An internal lot typed on production/expedition sheets may have no reception sheet yet
+  const onlyInternalLot = criteria.internalLot?.trim()
+    && !criteria.supplier?.trim() && !criteria.receptionBon?.trim()
+    && !criteria.variety?.trim() && !criteria.dateFrom && !criteria.dateTo;
+  if (onlyInternalLot && internalLots.size === 0) {
+    const id = normalizeLotId(criteria.internalLot);
+    edges.forEach(e => {
+      if (e.parent.kind === 'internal_lot' && e.parent.id === id) internalLots.set(nodeKey(e.parent), e.parent);
+    });
+  }
+
+  return { receptionEdges, internalLots: Array.from(internalLots.values()) };
+};
+
+export const computeRecall = (
+  criteria: RecallCriteria,
+  edges: LotGenealogyEdge[],
+  controls: RecallControlInput[],
+  expeditions: RecallExpeditionInput[],
+  orders: ClientOrder[],
+  startedAt: Date = new Date()
+): RecallSimulation => {
+  const { receptionEdges, internalLots } = selectRecallSeeds(criteria, edges, controls);
+  const down = walkGenealogy(edges, internalLots.map(nodeKey), 'down');
+  const seedKeys = new Set(internalLots.map(nodeKey));
+  const fromSeeds = (relation: LotGenealogyEdge['relation']) =>
+    down.edges.filter(e => e.relation === relation && seedKeys.has(nodeKey(e.parent)));
+
+  const packedEdges = fromSeeds('packed_into');
+  const wasteEdges = fromSeeds('discarded_as');
+  const shippedEdges = fromSeeds('shipped_as');
+
+  const expeditionsById = new Map(expeditions.map(e => [e.id, e]));
+  const ordersByNumber = new Map(orders.map(o => [normalizeLotId(o.orderNumber), o]));
+  const affectedExpeditions = new Map<string, RecallExpedition>();
+
+  shippedEdges.forEach(edge => {
+    const expedition = expeditionsById.get(edge.source.docId);
+    const key = edge.source.docId;
+    if (!affectedExpeditions.has(key)) {
+      const commandeClient = expedition?.headerData?.commandeClient || '';
+      affectedExpeditions.set(key, {
+        expeditionId: key,
+        name: expedition?.name || key,
+        date: expedition?.date || edge.date || '',
+        destination: expedition?.headerData?.destination || '',
+        transporteur: expedition?.headerData?.transporteur || '',
+        matricule: expedition?.headerData?.matricule || '',
+        commandeClient,
+        clientName: commandeClient ? ordersByNumber.get(normalizeLotId(commandeClient))?.clientName : undefined,
+        pallets: []
+      });
+    }
+    affectedExpeditions.get(key)!.pallets.push({
+      pallet: edge.child,
+      internalLot: edge.parent.label,
+      calibre: edge.calibre,
+      variety: edge.variety,
+      packageCount: edge.packageCount
+    });
+  });
+
+  const clientOrders = Array.from(affectedExpeditions.values())
+    .filter(e => e.commandeClient)
+    .map(e => ordersByNumber.get(normalizeLotId(e.commandeClient)))
+    .filter((o): o is ClientOrder => !!o)
+    .filter((o, i, all) => all.findIndex(x => x.id === o.id) === i)
+    .map(({ id, orderNumber, clientName, status }) => ({ id, orderNumber, clientName, status }));
+
+  const receivedKg = sum(receptionEdges, 'quantityKg');
+  const packedKg = sum(packedEdges, 'quantityKg');
+  const packedPackages = sum(packedEdges, 'packageCount');
+  const wasteKg = sum(wasteEdges, 'quantityKg');
+  const shippedPackages = sum(shippedEdges, 'packageCount');
+  const completedAt = new Date();
+
+  return {
+    criteria,
+    startedAt: startedAt.toISOString(),
+    completedAt: completedAt.toISOString(),
+    durationMs: completedAt.getTime() - startedAt.getTime(),
+    receptionLots: uniqueNodes(receptionEdges.map(e => e.parent)),
+    internalLots,
+    productionPallets: uniqueNodes(packedEdges.map(e => e.child)),
+    dechetPallets: uniqueNodes(wasteEdges.map(e => e.child)),
+    expeditions: Array.from(affectedExpeditions.values()),
+    clientOrders,
+    massBalance: {
+      receivedKg,
+      packedKg,
+      packedPackages,
+      wasteKg,
+      shippedPackages,
+      estimatedShippedKg: packedPackages > 0 ? (shippedPackages * packedKg) / packedPackages : 0,
+      unaccountedKg: receivedKg - packedKg - wasteKg
+    }
+  };
+};
+
+export const simulateRecall = async (criteria: RecallCriteria): Promise<RecallSimulation> => {
+  const startedAt = new Date();
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const [edges, controlsSnap, expeditionsSnap, orders] = await Promise.all([
+    getAllGenealogyEdges(),
+    getDocs(collection(db, 'reception_controls')),
+    getDocs(collection(db, 'expeditions')),
+    getClientOrders().catch(err => {
+      console.warn('Commandes clients indisponibles pour la simulation:', err);
+      return [] as ClientOrder[];
+    })
+  ]);
+
+  const parsedControls = parseDocuments(receptionControlLotSchema, controlsSnap.docs, 'reception_controls');
+  // Expeditions are identified by their own id field, older ones by the document id
+  const parsedExpeditions = parseDocuments(
+    expeditionFormSchema,
+    expeditionsSnap.docs.map(d => ({ id: String(d.get('id') || d.id), data: () => d.data() })),
+    'expeditions'
+  );
+  [...parsedControls.errors, ...parsedExpeditions.errors].forEach(error => console.error(error.message));
+
+  const controls: RecallControlInput[] = parsedControls.items.map(c => ({ lotNumber: c.lotNumber, header: c.data.header }));
+  const expeditions: RecallExpeditionInput[] = parsedExpeditions.items.map(e => ({
+    id: e.id as string,
+    name: e.name,
+    date: e.date,
+    headerData: e.headerData
+  }));
+
+  return computeRecall(criteria, edges, controls, expeditions, orders, startedAt);
+};
@@ -1,20 +1,20 @@
 import { firestore } from './firebase';
 import {
   collection,
-  addDoc,
-  updateDoc,
-  deleteDoc,
   doc,
+  getDoc,
   onSnapshot,
   serverTimestamp,
   query,
   orderBy
 } from 'firebase/firestore';
+import { auditedAdd, auditedDelete, auditedUpdate } from './auditTrailService';
+import { DomainValidationError, parseDomain, receptionFormSchema, ReceptionFormData } from '@shared/domain';
 
 export interface ReceptionArchive {
   id: string;
   lotNumber: string;
-  data: any; // ReceptionFormData shape
+  data: ReceptionFormData;
   createdAt?: any;
   updatedAt?: any;
 }
@@ -28,8 +28,25 @@ export const receptionArchiveService = {
       q,
       (snap) => {
         const items: ReceptionArchive[] = [];
-        snap.forEach((d) => items.push({ id: d.id, ...(d.data() as any) }));
+        const invalid: DomainValidationError[] = [];
+        snap.forEach((d) => {
+          const raw = d.data();
+          try {
+            items.push({
+              id: d.id,
+              lotNumber: String(raw.lotNumber || ''),
+              data: parseDomain(receptionFormSchema, raw.data, `${COLLECTION}/${d.id}`),
+              createdAt: raw.createdAt,
+              updatedAt: raw.updatedAt
+            });
+          } catch (error) {
+            if (!(error instanceof DomainValidationError)) throw error;
+            console.error(error.message, error.issues);
+            invalid.push(error);
+          }
+        });
         cb(items);
+        if (invalid.length > 0 && onError) onError(invalid[0]);
       },
       (err) => {
         console.error('reception_archives subscribe error:', err);
@@ -39,22 +56,29 @@ export const receptionArchiveService = {
   },
 
   async add(item: Omit<ReceptionArchive, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
-    const ref = await addDoc(collection(firestore, COLLECTION), {
+    return auditedAdd(collection(firestore, COLLECTION), {
       ...item,
+      data: parseDomain(receptionFormSchema, item.data, `${COLLECTION} (création)`),
       createdAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
-    });
-    return ref.id;
+    }, { label: `Réception ${item.lotNumber}` });
   },
 
   async update(id: string, updates: Partial<ReceptionArchive>): Promise<void> {
-    await updateDoc(doc(firestore, COLLECTION, id), {
+    if (updates.data) {
+      updates = { ...updates, data: parseDomain(receptionFormSchema, updates.data, `${COLLECTION}/${id}`) };
+    }
+    const ref = doc(firestore, COLLECTION, id);
+    const lotNumber = updates.lotNumber || (await getDoc(ref)).data()?.lotNumber || id;
+    await auditedUpdate(ref, {
       ...updates,
       updatedAt: serverTimestamp(),
-    } as any);
+    }, { label: `Réception ${lotNumber}` });
   },
 
   async delete(id: string): Promise<void> {
-    await deleteDoc(doc(firestore, COLLECTION, id));
+    const ref = doc(firestore, COLLECTION, id);
+    const snap = await getDoc(ref);
+    await auditedDelete(ref, { label: `Réception ${snap.data()?.lotNumber || id}` });
   },
 };
@@ -1,63 +1,32 @@
 import { 
-  addDoc,
   collection,
-  deleteDoc,
   doc,
   getDoc,
   getDocs,
   orderBy,
   query,
   serverTimestamp,
-  Timestamp,
-  updateDoc,
   where
 } from 'firebase/firestore';
 import { db, auth } from './firebase';
 import { waitForAuth } from './qualityControlService';
-
-// Types mirrored from the Reception page with minimal duplication
-export interface ReceptionQualityControlData {
-  header: {
-    ref: string;
-    version: string;
-    date: string;
-    deliveryDate: string;
-    productRange: string;
-    provider: string;
-    protocol: string;
-    conventionnel: boolean;
-    bio: boolean;
-    deliveryBonNumber: string;
-    receptionBonNumber: string;
-    receptionTime: string;
-    boxState: string;
-    matricule: string;
-    variety: string;
-    producer: string;
-    truckQuality: string;
-    totalPallets: string;
-    netWeight: string;
-    productLotNumber: string;
-  };
-  qualityChecks: {
-    diseaseTraces: { count: string; weight: string; percentage: string };
-    ripeFruit: { count: string; weight: string; percentage: string };
-    dirtyFruit: { count: string; weight: string; percentage: string };
-    sunBurns: { count: string; weight: string; percentage: string };
-    withoutStem: { count: string; weight: string; percentage: string };
-  };
-  totalDefects: string;
-  color: string;
-  odor: string;
-  decision: string;
-  responsibleSignature: string;
-}
+import { auditedAdd, auditedDelete, auditedSet, auditedUpdate } from './auditTrailService';
+import { documentUpdatedAt, newDocumentId, registerReplayHandler, runOrQueue } from './offlineQueue';
+import { deriveReceptionControlEdges, syncGenealogySource } from './lotGenealogyService';
+import {
+  isRecordLocked,
+  parseDomain,
+  receptionControlDataSchema,
+  ReceptionControlData,
+  receptionControlLotSchema,
+  RecordLockedError
+} from '@shared/domain';
 
 export interface ReceptionQualityControlLot {
   id: string; // document id
   lotNumber: string;
   status: 'brouillon' | 'en_cours' | 'termine';
-  data: ReceptionQualityControlData;
+  data: ReceptionControlData;
   createdAt: string; // ISO
   updatedAt: string; // ISO
   archived?: boolean;
@@ -67,15 +36,21 @@ export interface ReceptionQualityControlLot {
 
 const COLLECTION = 'reception_controls';
 
-const tsToIso = (v: any): string => {
-  if (!v) return new Date().toISOString();
-  if (v instanceof Timestamp) return v.toDate().toISOString();
-  return typeof v === 'string' ? v : new Date(v).toISOString();
+const toReceptionControlLot = (d: { id: string; data: () => unknown }): ReceptionQualityControlLot => {
+  const lot = parseDomain(receptionControlLotSchema, { ...(d.data() as object), id: d.id }, `${COLLECTION}/${d.id}`);
+  const now = new Date().toISOString();
+  return {
+    ...lot,
+    createdAt: lot.createdAt || now,
+    updatedAt: lot.updatedAt || now,
+    archived: !!lot.archived,
+    createdBy: lot.createdBy || undefined,
+  };
 };
 
-export const saveReceptionControl = async (
-  lot: Omit<ReceptionQualityControlLot, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }
-): Promise<string> => {
+type ReceptionControlInput = Omit<ReceptionQualityControlLot, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+const writeReceptionControl = async (lot: ReceptionControlInput & { id: string }): Promise<string> => {
   const isAuth = await waitForAuth();
   if (!isAuth) throw new Error('Utilisateur non authentifié');
 
@@ -83,24 +58,47 @@ export const saveReceptionControl = async (
   const payload = {
     lotNumber: lot.lotNumber,
     status: lot.status || 'brouillon',
-    data: lot.data,
+    data: parseDomain(receptionControlDataSchema, lot.data, COLLECTION),
     updatedAt: now,
     createdAt: now,
     archived: false,
     createdBy: auth.currentUser?.uid || null,
   };
 
-  if (lot.id) {
-    const d = doc(db, COLLECTION, lot.id);
-    const snap = await getDoc(d);
-    if (snap.exists()) {
-      await updateDoc(d, { ...payload, createdAt: snap.data().createdAt || now });
-      return lot.id;
-    }
+  const d = doc(db, COLLECTION, lot.id);
+  const snap = await getDoc(d);
+  const audit = { label: `Contrôle réception ${lot.lotNumber}` };
+  if (snap.exists()) {
+    if (isRecordLocked(snap.data())) throw new RecordLockedError(`Le contrôle réception ${lot.lotNumber}`);
+    await auditedUpdate(d, { ...payload, createdAt: snap.data().createdAt || now }, audit);
+  } else {
+    await auditedSet(d, payload, audit);
   }
 
-  const newDoc = await addDoc(collection(db, COLLECTION), payload);
-  return newDoc.id;
+  // Link the control to the reception bon and internal lot it checked
+  const source = { collection: COLLECTION, docId: lot.id };
+  syncGenealogySource(source, deriveReceptionControlEdges({ lotNumber: lot.lotNumber, header: payload.data.header }, source))
+    .catch(err => console.warn('Généalogie non synchronisée:', err));
+  return lot.id;
+};
+
+registerReplayHandler('reception_control', {
+  write: writeReceptionControl,
+  remoteUpdatedAt: (_lot, docId) => documentUpdatedAt(COLLECTION, docId)
+});
+
+// Saved immediately when online, queued on the tablet otherwise
+export const saveReceptionControl = async (lot: ReceptionControlInput): Promise<string> => {
+  const pending = {
+    ...lot,
+    id: lot.id || newDocumentId(COLLECTION),
+    data: parseDomain(receptionControlDataSchema, lot.data, COLLECTION)
+  };
+  return runOrQueue(
+    { kind: 'reception_control', docId: pending.id, label: `Contrôle réception ${lot.lotNumber}`, payload: pending },
+    () => writeReceptionControl(pending),
+    pending.id
+  );
 };
 
 export const archiveReceptionControl = async (
@@ -113,7 +111,7 @@ export const archiveReceptionControl = async (
   const base = {
     lotNumber: lot.lotNumber,
     status: lot.status || 'termine',
-    data: lot.data,
+    data: parseDomain(receptionControlDataSchema, lot.data, COLLECTION),
     updatedAt: now,
     createdAt: now,
     archived: true,
@@ -121,17 +119,20 @@ export const archiveReceptionControl = async (
     createdBy: auth.currentUser?.uid || null,
   };
 
+  const audit = { label: `Contrôle réception ${lot.lotNumber}` };
   if (lot.id) {
     const d = doc(db, COLLECTION, lot.id);
     const snap = await getDoc(d);
     if (snap.exists()) {
-      await updateDoc(d, { ...base, createdAt: snap.data().createdAt || now });
+      // A signed control is archived as signed: its content stays the stored one
+      const { data, ...unsigned } = base;
+      const archived = isRecordLocked(snap.data()) ? unsigned : base;
+      await auditedUpdate(d, { ...archived, createdAt: snap.data().createdAt || now }, audit);
       return lot.id;
     }
   }
 
-  const newDoc = await addDoc(collection(db, COLLECTION), base);
-  return newDoc.id;
+  return auditedAdd(collection(db, COLLECTION), base, audit);
 };
 
 export const getReceptionArchives = async (): Promise<ReceptionQualityControlLot[]> => {
@@ -145,20 +146,7 @@ export const getReceptionArchives = async (): Promise<ReceptionQualityControlLot
       orderBy('archivedAt', 'desc')
     );
     const snap = await getDocs(q);
-    return snap.docs.map(d => {
-      const data = d.data() as any;
-      return {
-        id: d.id,
-        lotNumber: data.lotNumber,
-        status: data.status,
-        data: data.data,
-        createdAt: tsToIso(data.createdAt),
-        updatedAt: tsToIso(data.updatedAt),
-        archived: !!data.archived,
-        archivedAt: data.archivedAt ? tsToIso(data.archivedAt) : undefined,
-        createdBy: data.createdBy || undefined,
-      } as ReceptionQualityControlLot;
-    });
+    return snap.docs.map(toReceptionControlLot);
   } catch (err: any) {
     // Fallback when composite index is missing
     if (typeof err?.message === 'string' && err.message.includes('index')) {
@@ -167,20 +155,7 @@ export const getReceptionArchives = async (): Promise<ReceptionQualityControlLot
         where('archived', '==', true)
       );
       const snap = await getDocs(qSimple);
-      const items = snap.docs.map(d => {
-        const data = d.data() as any;
-        return {
-          id: d.id,
-          lotNumber: data.lotNumber,
-          status: data.status,
-          data: data.data,
-          createdAt: tsToIso(data.createdAt),
-          updatedAt: tsToIso(data.updatedAt),
-          archived: !!data.archived,
-          archivedAt: data.archivedAt ? tsToIso(data.archivedAt) : undefined,
-          createdBy: data.createdBy || undefined,
-        } as ReceptionQualityControlLot;
-      });
+      const items = snap.docs.map(toReceptionControlLot);
       // Sort client-side by archivedAt desc
       items.sort((a, b) => new Date(b.archivedAt || b.updatedAt).getTime() - new Date(a.archivedAt || a.updatedAt).getTime());
       return items;
@@ -192,5 +167,9 @@ export const getReceptionArchives = async (): Promise<ReceptionQualityControlLot
 export const deleteReceptionArchive = async (id: string): Promise<void> => {
   const isAuth = await waitForAuth();
   if (!isAuth) throw new Error('Utilisateur non authentifié');
-  await deleteDoc(doc(db, COLLECTION, id));
+  const d = doc(db, COLLECTION, id);
+  const snap = await getDoc(d);
+  const lotNumber = snap.data()?.lotNumber || id;
+  if (isRecordLocked(snap.data())) throw new RecordLockedError(`Le contrôle réception ${lotNumber}`);
+  await auditedDelete(d, { label: `Contrôle réception ${lotNumber}` });
 };
@@ -1,6 +1,7 @@
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { storage, db, auth } from './firebase';
-import { doc, updateDoc, arrayUnion, getDoc, setDoc } from 'firebase/firestore';
+import { doc, getDoc } from 'firebase/firestore';
+import { auditedSet, auditedUpdate } from './auditTrailService';
 import { getAuth } from 'firebase/auth';
 
 // Types for the report system
@@ -80,19 +81,19 @@ export const uploadImageToReport = async (
     const docSnap = await getDoc(reportDocRef);
     if (!docSnap.exists()) {
       console.log('📄 Creating new report document...');
-      await setDoc(reportDocRef, {
+      await auditedSet(reportDocRef, {
         id: reportId,
         images: [downloadURL],
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
-      });
+      }, { label: `Rapport ${reportId}` });
     } else {
       console.log('📄 Updating existing report document...');
-      // Update existing document
-      await updateDoc(reportDocRef, {
-        images: arrayUnion(downloadURL),
+      // Update existing document (explicit list rather than arrayUnion so the audit entry records it)
+      await auditedUpdate(reportDocRef, {
+        images: [...(docSnap.data().images || []), downloadURL],
         updatedAt: new Date().toISOString()
-      });
+      }, { label: `Rapport ${reportId}` });
     }
     
     console.log('✅ SUCCESS! Image uploaded and saved to Firestore');
@@ -203,10 +204,10 @@ export const updateReportMetadata = async (
 ): Promise<void> => {
   try {
     const reportDocRef = doc(db, 'reports', reportId);
-    await updateDoc(reportDocRef, {
+    await auditedUpdate(reportDocRef, {
       ...metadata,
       updatedAt: new Date().toISOString()
-    });
+    }, { label: `Rapport ${reportId}` });
     console.log('✅ Report metadata updated');
   } catch (error) {
     console.error('❌ Error updating report metadata:', error);
@@ -230,10 +231,10 @@ export const removeImageFromReport = async (
       const currentImages = data.images || [];
       const updatedImages = currentImages.filter((url: string) => url !== imageUrl);
       
-      await updateDoc(reportDocRef, {
+      await auditedUpdate(reportDocRef, {
         images: updatedImages,
         updatedAt: new Date().toISOString()
-      });
+      }, { label: `Rapport ${reportId}` });
       
       console.log('✅ Image removed from report');
     }
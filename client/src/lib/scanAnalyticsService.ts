@@ -0,0 +1,70 @@
+import { auth } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { ScanAnalytics, ScanGranularity, TrackScanRequest } from '@shared/domain';
+
+export { DEDUP_WINDOW_MINUTES } from '@shared/domain';
+export type { ScanAnalytics, ScanBreakdownEntry, ScanGranularity } from '@shared/domain';
+
+// Express server answering /api/analytics (same origin when it serves the app)
+const API_BASE: string = import.meta.env.VITE_API_BASE || '';
+
+const DEVICE_KEY = 'scanDeviceId';
+
+// Random id kept by the browser: repeated scans of a lot are counted once
+const deviceId = (): string | undefined => {
+  try {
+    let id = localStorage.getItem(DEVICE_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(DEVICE_KEY, id);
+    }
+    return id;
+  } catch {
+    return undefined;  // Private browsing: the server falls back to IP and user agent
+  }
+};
+
+// Coarse location only: the region of the browser language (fr-MA → MA), no geolocation
+const browserCountry = (): string | undefined => {
+  const region = navigator.language?.split('-')[1];
+  return region && /^[A-Za-z]{2}$/.test(region) ? region.toUpperCase() : undefined;
+};
+
+/** Records the opening of a public lot page. Never throws: tracking must not break the page. */
+export const trackScan = async (lotNumber: string, scanType: TrackScanRequest['scanType']): Promise<void> => {
+  const body: TrackScanRequest = {
+    lotNumber,
+    scanType,
+    timestamp: new Date().toISOString(),
+    userAgent: navigator.userAgent,
+    deviceId: deviceId(),
+    country: browserCountry()
+  };
+  try {
+    await fetch(`${API_BASE}/api/analytics/track-scan`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      keepalive: true
+    });
+  } catch (error) {
+    console.error('Failed to track scan:', error);
+  }
+};
+
+export const getScanAnalytics = async (
+  from: string,
+  to: string,
+  granularity: ScanGranularity
+): Promise<ScanAnalytics> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth || !auth.currentUser) throw new Error('Utilisateur non authentifié');
+
+  const token = await auth.currentUser.getIdToken();
+  const params = new URLSearchParams({ from, to, granularity });
+  const response = await fetch(`${API_BASE}/api/analytics/scans?${params}`, {
+    headers: { Authorization: `Bearer ${token}` }
+  });
+  if (!response.ok) throw new Error(`Analyses des scans: ${response.status}`);
+  return response.json();
+};
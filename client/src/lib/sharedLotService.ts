@@ -5,28 +5,28 @@ import {
   setDoc,
   getDoc,
   onSnapshot,
-  addDoc,
-  updateDoc,
-  deleteDoc,
   serverTimestamp,
   query,
   orderBy
 } from 'firebase/firestore';
+import { auditedAdd, auditedDelete, auditedUpdate } from './auditTrailService';
+import { syncGenealogySource } from './lotGenealogyService';
 
-// Shared Lot Interface - common fields between Quality Control and Production
-export interface SharedLot {
-  id: string;
-  lotNumber: string;
-  status: string;
-  createdAt: string;
-  updatedAt: string;
-  type: 'quality' | 'production' | 'reception' | 'dechets'; // Track which type of lot this is
-  // Store both quality and production data
-  qualityData?: any;
-  productionData?: any;
-  receptionData?: any;
-  dechetData?: any;
-}
+import {
+  DomainValidationError,
+  isRecordLocked,
+  parseDomain,
+  RecordLockedError,
+  SharedLot,
+  sharedLotSchema,
+  sharedLotWriteSchema
+} from '@shared/domain';
+
+// Shared Lot - common fields between Quality Control, Production, Reception and Dechets
+export type { SharedLot } from '@shared/domain';
+
+const parseSharedLot = (id: string, data: unknown): SharedLot =>
+  parseDomain(sharedLotSchema, { ...(data as object), id }, `shared_lots/${id}`);
 
 // Firestore collection for shared lots
 const SHARED_LOTS_COLLECTION = 'shared_lots';
@@ -49,11 +49,20 @@ class SharedLotService {
         lotsQuery,
         (snapshot) => {
           const lots: SharedLot[] = [];
+          const invalid: DomainValidationError[] = [];
           snapshot.forEach((doc) => {
-            lots.push({ id: doc.id, ...doc.data() } as SharedLot);
+            try {
+              lots.push(parseSharedLot(doc.id, doc.data()));
+            } catch (error) {
+              if (!(error instanceof DomainValidationError)) throw error;
+              console.error(error.message, error.issues);
+              invalid.push(error);
+            }
           });
           // Notify all listeners
           this.listeners.forEach(listener => listener(lots));
+          // Malformed documents are left out of the list and reported instead of shown blank
+          if (invalid.length > 0 && onError) onError(invalid[0]);
         },
         (error) => {
           console.error('shared_lots subscription error:', error);
@@ -74,12 +83,12 @@ class SharedLotService {
   // Add a new lot
   async addLot(lotData: Omit<SharedLot, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
     try {
-      const docRef = await addDoc(collection(firestore, SHARED_LOTS_COLLECTION), {
-        ...lotData,
+      const validated = parseDomain(sharedLotWriteSchema, lotData, 'shared_lots (création)');
+      return await auditedAdd(collection(firestore, SHARED_LOTS_COLLECTION), {
+        ...validated,
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp()
-      });
-      return docRef.id;
+      }, { label: `Lot ${validated.lotNumber}` });
     } catch (error) {
       console.error('Error adding lot:', error);
       throw error;
@@ -89,11 +98,17 @@ class SharedLotService {
   // Update an existing lot
   async updateLot(lotId: string, updates: Partial<SharedLot>): Promise<void> {
     try {
+      const { id, createdAt, updatedAt, signatures, locked, reopenings, ...fields } = updates;
+      const validated = parseDomain(sharedLotWriteSchema.partial(), fields, `shared_lots/${lotId}`);
       const lotRef = doc(firestore, SHARED_LOTS_COLLECTION, lotId);
-      await updateDoc(lotRef, {
-        ...updates,
+      const current = (await getDoc(lotRef)).data();
+      const lotNumber = validated.lotNumber || current?.lotNumber || lotId;
+      // Visas and the lock are written by signatureService only
+      if (isRecordLocked(current)) throw new RecordLockedError(`Le lot ${lotNumber}`);
+      await auditedUpdate(lotRef, {
+        ...validated,
         updatedAt: serverTimestamp()
-      });
+      }, { label: `Lot ${lotNumber}` });
     } catch (error) {
       console.error('Error updating lot:', error);
       throw error;
@@ -103,7 +118,12 @@ class SharedLotService {
   // Delete a lot
   async deleteLot(lotId: string): Promise<void> {
     try {
-      await deleteDoc(doc(firestore, SHARED_LOTS_COLLECTION, lotId));
+      const lotRef = doc(firestore, SHARED_LOTS_COLLECTION, lotId);
+      const snap = await getDoc(lotRef);
+      if (isRecordLocked(snap.data())) throw new RecordLockedError(`Le lot ${snap.data()?.lotNumber || lotId}`);
+      await auditedDelete(lotRef, { label: `Lot ${snap.data()?.lotNumber || lotId}` });
+      // Edges derived from the lot's sheets go with it, so tracing never reaches a deleted lot
+      await syncGenealogySource({ collection: SHARED_LOTS_COLLECTION, docId: lotId }, []);
     } catch (error) {
       console.error('Error deleting lot:', error);
       throw error;
@@ -115,7 +135,7 @@ class SharedLotService {
     try {
       const docSnap = await getDoc(doc(firestore, SHARED_LOTS_COLLECTION, lotId));
       if (docSnap.exists()) {
-        return { id: docSnap.id, ...docSnap.data() } as SharedLot;
+        return parseSharedLot(docSnap.id, docSnap.data());
       }
       return null;
     } catch (error) {
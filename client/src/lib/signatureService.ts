@@ -0,0 +1,150 @@
+import { EmailAuthProvider, reauthenticateWithCredential } from 'firebase/auth';
+import { doc, getDoc, serverTimestamp } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import { auth, db } from './firebase';
+import { auditedUpdate, hashRecord } from './auditTrailService';
+import {
+  parseDomain,
+  Signature,
+  SIGNABLE_RECORDS,
+  SignableRecordKind,
+  signedContent,
+  SignedRecord,
+  signedRecordSchema,
+  visaDefinition
+} from '@shared/domain';
+
+export type { Signature, SignableRecordKind, SignedRecord, VisaDefinition } from '@shared/domain';
+export { SIGNABLE_RECORDS, isRecordLocked, RecordLockedError } from '@shared/domain';
+
+export interface RecordSignatureState extends SignedRecord {
+  // Visa -> whether the record content still matches what was signed
+  valid: Record<string, boolean>;
+}
+
+// Applying a visa requires the password again, so a session left open on a shared
+// tablet cannot be used to sign in someone else's name
+const reauthenticate = async (password: string) => {
+  const user = auth.currentUser;
+  if (!user || !user.email) throw new Error('Utilisateur non authentifié');
+  try {
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+  } catch (error) {
+    const code = (error as { code?: string }).code || '';
+    if (['auth/wrong-password', 'auth/invalid-credential', 'auth/invalid-login-credentials'].includes(code)) {
+      throw new Error('Mot de passe incorrect');
+    }
+    throw error;
+  }
+  return user;
+};
+
+const recordRef = (kind: SignableRecordKind, docId: string) => doc(db, SIGNABLE_RECORDS[kind].collection, docId);
+
+const recordLabel = (kind: SignableRecordKind, data: Record<string, unknown>, docId: string) =>
+  `${kind === 'production' ? 'Production' : kind === 'reception' ? 'Contrôle réception' : 'Contrôle qualité'} ${(typeof data.lotNumber === 'string' && data.lotNumber) || docId}`;
+
+const contentHash = (kind: SignableRecordKind, data: Record<string, unknown>) =>
+  hashRecord(signedContent(kind, data));
+
+export const getRecordSignatures = async (kind: SignableRecordKind, docId: string): Promise<RecordSignatureState> => {
+  const snap = await getDoc(recordRef(kind, docId));
+  if (!snap.exists()) return { signatures: {}, locked: false, reopenings: [], valid: {} };
+  const data = snap.data();
+  const state = parseDomain(signedRecordSchema, {
+    signatures: data.signatures || {},
+    locked: data.locked || false,
+    reopenings: data.reopenings || []
+  }, `${SIGNABLE_RECORDS[kind].collection}/${docId}`);
+  const hash = await contentHash(kind, data);
+  const valid = Object.fromEntries(
+    Object.entries(state.signatures || {}).map(([visa, signature]) => [visa, signature.contentHash === hash])
+  );
+  return { ...state, valid };
+};
+
+export const signRecord = async (
+  kind: SignableRecordKind,
+  docId: string,
+  visa: string,
+  options: {
+    password: string;
+    // Fields written together with the visa (status of a chief approval...)
+    updates?: Record<string, unknown>;
+    action?: 'sign' | 'approve' | 'reject';
+    reason?: string;
+  }
+): Promise<void> => {
+  const definition = visaDefinition(kind, visa);
+  if (!definition) throw new Error(`Visa inconnu : ${visa}`);
+  const user = await reauthenticate(options.password);
+
+  const ref = recordRef(kind, docId);
+  const snap = await getDoc(ref);
+  if (!snap.exists()) throw new Error('Enregistrez le document avant de le signer');
+  const data = snap.data();
+  if (data.signatures?.[visa]) throw new Error(`${definition.label} déjà apposé`);
+
+  // Name from the profile rather than from the form, so a visa cannot be typed in for someone else
+  const profile = (await getDoc(doc(db, 'users', user.uid))).data();
+  const signerName = profile?.fullName || user.displayName || user.email || user.uid;
+
+  await auditedUpdate(ref, {
+    ...(options.updates || {}),
+    [`signatures.${visa}`]: {
+      signerId: user.uid,
+      signerEmail: user.email || '',
+      signerName,
+      signedAt: serverTimestamp(),
+      contentHash: await contentHash(kind, data)
+    },
+    ...(definition.field ? { [definition.field]: signerName } : {}),
+    locked: true,
+    updatedAt: serverTimestamp()
+  }, {
+    label: recordLabel(kind, data, docId),
+    action: options.action || 'sign',
+    reason: options.reason || definition.label
+  });
+};
+
+// Unlocks a signed record for correction. Every visa is withdrawn since the content
+// they covered is about to change.
+export const reopenRecord = async (kind: SignableRecordKind, docId: string, reason: string): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user) throw new Error('Utilisateur non authentifié');
+  if (!reason.trim()) throw new Error('Le motif de réouverture est obligatoire');
+
+  const ref = recordRef(kind, docId);
+  const snap = await getDoc(ref);
+  if (!snap.exists()) throw new Error('Document introuvable');
+  const data = snap.data();
+
+  const clearedVisas = Object.fromEntries(
+    Object.values(SIGNABLE_RECORDS[kind].visas)
+      .filter(visa => visa.field)
+      .map(visa => [visa.field, ''])
+  );
+  await auditedUpdate(ref, {
+    ...clearedVisas,
+    signatures: {},
+    locked: false,
+    reopenings: [
+      ...(data.reopenings || []),
+      { userId: user.uid, userEmail: user.email || '', reason: reason.trim(), at: new Date().toISOString() }
+    ],
+    updatedAt: serverTimestamp()
+  }, {
+    label: recordLabel(kind, data, docId),
+    action: 'reopen',
+    reason: reason.trim()
+  });
+};
+
+export const formatSignedAt = (signature: Signature): string =>
+  signature.signedAt ? format(new Date(signature.signedAt), 'dd/MM/yyyy HH:mm', { locale: fr }) : 'en cours';
+
+// "Jean Dupont - signé électroniquement le 12/03/2025 14:05", for PDFs and forms
+export const formatSignature = (signature: Signature): string =>
+  `${signature.signerName} - signé électroniquement le ${formatSignedAt(signature)}`;
@@ -0,0 +1,130 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import {
+  buildStockLedger,
+  deriveExpeditionMovements,
+  deriveProductionMovements,
+  expeditionFormSchema,
+  parseDocuments,
+  sharedLotSchema,
+  StockLedger,
+  StockMovement,
+  StockMovementSource,
+  stockMovementSchema,
+  StorageLocation
+} from '@shared/domain';
+
+export {
+  computeWarehouseStockStats,
+  deriveExpeditionMovements,
+  deriveProductionMovements,
+  parseStorageCapacity,
+  resolveStorageLocation,
+  STOCK_AGE_BUCKETS
+} from '@shared/domain';
+export type { PalletStock, StockLedger, StockMovement, StorageLocation, WarehouseStockStats } from '@shared/domain';
+
+const COLLECTION = 'stock_movements';
+
+export const getStorageLocations = async (): Promise<StorageLocation[]> => {
+  const snap = await getDocs(collection(db, 'entrepots'));
+  return snap.docs
+    .filter(d => d.data().active !== false)
+    .map(d => ({
+      id: d.id,
+      name: d.data().name || '',
+      code: d.data().code || '',
+      capacity: d.data().capacity || ''
+    }));
+};
+
+/**
+ * Replaces every movement previously recorded for `source` with `movements`.
+ * Called whenever a production or expedition sheet is saved so the ledger follows edits.
+ */
+export const syncStockMovements = async (source: StockMovementSource, movements: StockMovement[]): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const existing = await getDocs(query(
+    collection(db, COLLECTION),
+    where('source.collection', '==', source.collection),
+    where('source.docId', '==', source.docId)
+  ));
+
+  const keep = new Set(movements.map(m => m.id));
+  const batch = writeBatch(db);
+  existing.docs.forEach(d => {
+    if (!keep.has(d.id)) batch.delete(d.ref);
+  });
+  const recordedAt = new Date().toISOString();
+  movements.forEach(({ id, ...movement }) => {
+    batch.set(doc(db, COLLECTION, id), { ...movement, recordedAt });
+  });
+  await batch.commit();
+};
+
+export const getStockMovements = async (): Promise<StockMovement[]> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDocs(collection(db, COLLECTION));
+  const { items, errors } = parseDocuments(stockMovementSchema, snap.docs, COLLECTION);
+  errors.forEach(error => console.error(error.message));
+  return items;
+};
+
+// Pallets of every entrepôt, replayed from the movements up to today
+export const getStockLedger = async (): Promise<{ locations: StorageLocation[]; ledger: StockLedger }> => {
+  const [locations, movements] = await Promise.all([getStorageLocations(), getStockMovements()]);
+  return { locations, ledger: buildStockLedger(movements, locations) };
+};
+
+/**
+ * Rebuilds the ledger from every production and expedition sheet. Used for the
+ * initial back-fill and after manual Firestore edits.
+ */
+export const rebuildStockLedger = async (): Promise<{ sources: number; movements: number }> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const [productionSnap, expeditionsSnap] = await Promise.all([
+    getDocs(query(collection(db, 'shared_lots'), where('type', '==', 'production'))),
+    getDocs(collection(db, 'expeditions'))
+  ]);
+
+  const lots = parseDocuments(sharedLotSchema, productionSnap.docs, 'shared_lots');
+  // Expeditions are identified by their own id field, older ones by the document id
+  const expeditions = parseDocuments(
+    expeditionFormSchema,
+    expeditionsSnap.docs.map(d => ({ id: String(d.get('id') || d.id), data: () => d.data() })),
+    'expeditions'
+  );
+  [...lots.errors, ...expeditions.errors].forEach(error => console.error(error.message));
+
+  const perSource: Array<{ source: StockMovementSource; movements: StockMovement[] }> = [];
+  lots.items.forEach(lot => {
+    if (!lot.productionData) return;
+    const source = { collection: 'shared_lots', docId: lot.id };
+    perSource.push({ source, movements: deriveProductionMovements({ lotNumber: lot.lotNumber, ...lot.productionData }, source) });
+  });
+  expeditions.items.forEach(e => {
+    const source = { collection: 'expeditions', docId: e.id as string };
+    perSource.push({ source, movements: deriveExpeditionMovements({ name: e.name, date: e.date, headerData: e.headerData, rows: e.rows }, source) });
+  });
+
+  let count = 0;
+  for (const { source, movements } of perSource) {
+    await syncStockMovements(source, movements);
+    count += movements.length;
+  }
+  return { sources: perSource.length, movements: count };
+};
@@ -0,0 +1,62 @@
+import { collection, getDocs } from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { getWeighbridgeDeliveries, WEIGHBRIDGE_TOLERANCE_PCT } from './weighbridgeService';
+import {
+  DomainValidationError,
+  normalizeSupplierName,
+  parseDomain,
+  receptionControlDataSchema,
+  SupplierControl,
+  SupplierScorecard,
+  toSupplierControl,
+  WeighbridgeDelivery
+} from '@shared/domain';
+
+export {
+  buildSupplierScorecards,
+  RECEPTION_DEFECT_LABELS,
+  supplierCampaigns,
+  campaignOf
+} from '@shared/domain';
+export type { ReceptionDefectKey, SupplierControl, SupplierScorecard } from '@shared/domain';
+
+export interface SupplierScorecardData {
+  controls: SupplierControl[];
+  deliveries: WeighbridgeDelivery[];
+}
+
+// Every reception control (in progress or archived) with the weighbridge figures of
+// the reception sheets; the scorecards are built from these for any campaign
+export const getSupplierScorecardData = async (): Promise<SupplierScorecardData> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const [controlsSnap, deliveries] = await Promise.all([
+    getDocs(collection(db, 'reception_controls')),
+    getWeighbridgeDeliveries({}, WEIGHBRIDGE_TOLERANCE_PCT)
+  ]);
+
+  const controls: SupplierControl[] = [];
+  controlsSnap.docs.forEach(d => {
+    try {
+      const data = parseDomain(receptionControlDataSchema, d.data().data, `reception_controls/${d.id}`);
+      const control = toSupplierControl(d.id, data);
+      if (control) controls.push(control);
+    } catch (error) {
+      if (!(error instanceof DomainValidationError)) throw error;
+      console.error(error.message);
+    }
+  });
+
+  return { controls, deliveries };
+};
+
+// A farm is the supplier whose name (or farm code) is the producer written on the controls
+export const findFarmScorecard = (
+  farm: { name: string; code?: string },
+  scorecards: SupplierScorecard[]
+): SupplierScorecard | undefined => {
+  const keys = [normalizeSupplierName(farm.name), normalizeSupplierName(farm.code)].filter(Boolean);
+  return scorecards.find(card => keys.includes(normalizeSupplierName(card.supplier)));
+};
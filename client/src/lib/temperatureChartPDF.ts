@@ -0,0 +1,77 @@
+import type { jsPDF } from 'jspdf';
+import { TEMPERATURE_SOURCE_LABELS, TemperatureRange, TemperatureReading } from './temperatureService';
+
+const SERIES_COLORS: Array<[number, number, number]> = [
+  [37, 99, 235], [22, 163, 74], [217, 119, 6], [147, 51, 234], [220, 38, 38], [8, 145, 178]
+];
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString('fr-FR', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+// Temperature curve drawn with jsPDF primitives (the PDFs are built without a canvas):
+// accepted range shaded, one polyline per source, single readings as dots.
+// Returns the y below the chart and its legend.
+export const drawTemperatureChart = (
+  doc: jsPDF,
+  readings: TemperatureReading[],
+  range: Pick<TemperatureRange, 'min' | 'max'>,
+  box: { x: number; y: number; width: number; height: number }
+): number => {
+  const axisWidth = 12;
+  const plot = { x: box.x + axisWidth, y: box.y, width: box.width - axisWidth, height: box.height - 6 };
+  const times = readings.map(r => Date.parse(r.recordedAt));
+  const values = readings.map(r => r.value);
+  const tMin = Math.min(...times);
+  const tMax = Math.max(...times);
+  const vMin = Math.floor(Math.min(...values, range.min) - 1);
+  const vMax = Math.ceil(Math.max(...values, range.max) + 1);
+  const px = (time: number) => plot.x + (tMax === tMin ? plot.width / 2 : ((time - tMin) / (tMax - tMin)) * plot.width);
+  const py = (value: number) => plot.y + plot.height - ((value - vMin) / (vMax - vMin)) * plot.height;
+
+  doc.setFillColor(220, 252, 231);
+  doc.rect(plot.x, py(range.max), plot.width, py(range.min) - py(range.max), 'F');
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.2);
+  doc.rect(plot.x, plot.y, plot.width, plot.height);
+
+  doc.setFontSize(6);
+  doc.setTextColor(80, 80, 80);
+  [vMin, range.min, range.max, vMax].forEach(value => {
+    doc.text(`${value}°C`, plot.x - 1, py(value) + 1, { align: 'right' });
+  });
+  doc.text(formatTime(tMin), plot.x, plot.y + plot.height + 3);
+  if (tMax !== tMin) doc.text(formatTime(tMax), plot.x + plot.width, plot.y + plot.height + 3, { align: 'right' });
+
+  const series = new Map<string, TemperatureReading[]>();
+  readings.forEach(reading => {
+    const key = `${TEMPERATURE_SOURCE_LABELS[reading.sourceType]} ${reading.sourceId}`;
+    series.set(key, [...(series.get(key) || []), reading]);
+  });
+
+  let legendX = box.x;
+  let legendY = box.y + box.height + 1;
+  Array.from(series.entries()).forEach(([name, points], index) => {
+    const [r, g, b] = SERIES_COLORS[index % SERIES_COLORS.length];
+    const sorted = [...points].sort((a, c) => a.recordedAt.localeCompare(c.recordedAt));
+    doc.setDrawColor(r, g, b);
+    doc.setFillColor(r, g, b);
+    doc.setLineWidth(0.4);
+    sorted.forEach((point, i) => {
+      const x = px(Date.parse(point.recordedAt));
+      const y = py(point.value);
+      if (i > 0) doc.line(px(Date.parse(sorted[i - 1].recordedAt)), py(sorted[i - 1].value), x, y);
+      if (sorted.length < 50) doc.circle(x, y, 0.5, 'F');
+    });
+    if (legendX + doc.getTextWidth(name) + 3 > box.x + box.width) {
+      legendX = box.x;
+      legendY += 3;
+    }
+    doc.rect(legendX, legendY - 1.5, 2, 2, 'F');
+    doc.text(name, legendX + 3, legendY);
+    legendX += doc.getTextWidth(name) + 8;
+  });
+
+  doc.setTextColor(0, 0, 0);
+  doc.setDrawColor(0, 0, 0);
+  return legendY + 3;
+};
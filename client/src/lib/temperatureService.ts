@@ -0,0 +1,323 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { auth, db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { auditedAdd, auditedDelete, auditedSet, auditedUpdate } from './auditTrailService';
+import { addCommunicationNotification } from './firebaseService';
+import {
+  ExpeditionFormData,
+  findTemperatureExcursions,
+  parseDocuments,
+  parseDomain,
+  resolveTemperatureRange,
+  temperatureAlertId,
+  temperatureAlertSchema,
+  TEMPERATURE_RANGE_PRESETS,
+  TEMPERATURE_SOURCE_LABELS,
+  TemperatureAlert,
+  TemperatureRange,
+  temperatureRangeSchema,
+  temperatureRangeWriteSchema,
+  TemperatureReading,
+  TemperatureReadingInput,
+  temperatureReadingSchema,
+  temperatureReadingWriteSchema,
+  TemperatureSourceType
+} from '@shared/domain';
+
+export { TEMPERATURE_RANGE_PRESETS, TEMPERATURE_SOURCE_LABELS, parseTemperatureCsv, resolveTemperatureRange } from '@shared/domain';
+export type {
+  TemperatureAlert,
+  TemperatureRange,
+  TemperatureReading,
+  TemperatureReadingInput,
+  TemperatureSourceType
+} from '@shared/domain';
+
+const READINGS = 'temperature_readings';
+const RANGES = 'temperature_ranges';
+const ALERTS = 'temperature_alerts';
+
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 450;
+// Readings around an import that are evaluated with it, so an excursion spanning two
+// logger files is seen as one
+const EVALUATION_MARGIN_MS = 12 * 3600 * 1000;
+
+const requireAuth = async () => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+};
+
+// Presets followed by the ranges stored in Firestore
+export const getTemperatureRanges = async (): Promise<TemperatureRange[]> => {
+  await requireAuth();
+  const snap = await getDocs(collection(db, RANGES));
+  const { items, errors } = parseDocuments(temperatureRangeSchema, snap.docs, RANGES);
+  errors.forEach(error => console.error(error.message));
+  items.sort((a, b) => a.variety.localeCompare(b.variety));
+  return [...TEMPERATURE_RANGE_PRESETS, ...items];
+};
+
+export const saveTemperatureRange = async (
+  range: Pick<TemperatureRange, 'variety' | 'min' | 'max' | 'toleranceMinutes'> & { id?: string }
+): Promise<string> => {
+  await requireAuth();
+  if (TEMPERATURE_RANGE_PRESETS.some(p => p.id === range.id)) {
+    throw new Error('Les plages par défaut ne sont pas modifiables');
+  }
+  const { id, ...data } = range;
+  const payload = {
+    ...parseDomain(temperatureRangeWriteSchema, data, RANGES),
+    updatedAt: serverTimestamp()
+  };
+  const label = `Plage de température ${payload.variety}`;
+  if (id) {
+    await auditedSet(doc(db, RANGES, id), payload, { label, merge: true });
+    return id;
+  }
+  return auditedAdd(collection(db, RANGES), { ...payload, createdAt: serverTimestamp() }, { label });
+};
+
+export const deleteTemperatureRange = async (id: string): Promise<void> => {
+  await requireAuth();
+  if (TEMPERATURE_RANGE_PRESETS.some(p => p.id === id)) {
+    throw new Error('Les plages par défaut ne peuvent pas être supprimées');
+  }
+  await auditedDelete(doc(db, RANGES, id));
+};
+
+export const getTemperatureReadings = async (
+  sourceType: TemperatureSourceType,
+  sourceId: string,
+  from: Date,
+  to: Date
+): Promise<TemperatureReading[]> => {
+  await requireAuth();
+  const snap = await getDocs(query(
+    collection(db, READINGS),
+    where('sourceType', '==', sourceType),
+    where('sourceId', '==', sourceId),
+    where('recordedAt', '>=', from.toISOString()),
+    where('recordedAt', '<=', to.toISOString()),
+    orderBy('recordedAt', 'asc')
+  ));
+  const { items, errors } = parseDocuments(temperatureReadingSchema, snap.docs, READINGS);
+  errors.forEach(error => console.error(error.message));
+  return items;
+};
+
+// Every reading that concerns a lot: the ones tagged with its number, plus the chambre
+// and the truck it went through while it was there
+export const getLotTemperatureReadings = async (lot: {
+  lotNumber: string;
+  storage?: { roomId?: string; from?: string; to?: string };
+  transport?: { vehicleId?: string; from?: string; to?: string };
+}): Promise<TemperatureReading[]> => {
+  await requireAuth();
+  const tagged = getDocs(query(collection(db, READINGS), where('lotNumber', '==', lot.lotNumber)))
+    .then(snap => {
+      const { items, errors } = parseDocuments(temperatureReadingSchema, snap.docs, READINGS);
+      errors.forEach(error => console.error(error.message));
+      return items;
+    });
+  const during = (sourceType: TemperatureSourceType, sourceId?: string, from?: string, to?: string) =>
+    sourceId && from && !isNaN(Date.parse(from))
+      ? getTemperatureReadings(sourceType, sourceId, new Date(from), to && !isNaN(Date.parse(to)) ? new Date(to) : new Date())
+      : Promise.resolve([] as TemperatureReading[]);
+
+  const results = await Promise.all([
+    tagged,
+    during('chambre', lot.storage?.roomId, lot.storage?.from, lot.storage?.to),
+    during('camion', lot.transport?.vehicleId, lot.transport?.from, lot.transport?.to)
+  ]);
+  const byId = new Map(results.flat().map(reading => [reading.id, reading]));
+  return Array.from(byId.values()).sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+};
+
+export const getTemperatureAlerts = async (status?: TemperatureAlert['status']): Promise<TemperatureAlert[]> => {
+  await requireAuth();
+  const ref = collection(db, ALERTS);
+  const snap = await getDocs(status ? query(ref, where('status', '==', status)) : ref);
+  const { items, errors } = parseDocuments(temperatureAlertSchema, snap.docs, ALERTS);
+  errors.forEach(error => console.error(error.message));
+  return items.sort((a, b) => b.startAt.localeCompare(a.startAt));
+};
+
+export const acknowledgeTemperatureAlert = async (alert: TemperatureAlert, comment: string): Promise<void> => {
+  await requireAuth();
+  if (!comment.trim()) throw new Error('Indiquez la mesure prise pour acquitter l\'alerte');
+  await auditedUpdate(doc(db, ALERTS, alert.id), {
+    status: 'acquittee',
+    acknowledgedBy: auth.currentUser?.email || auth.currentUser?.uid || '',
+    acknowledgedAt: serverTimestamp(),
+    comment: comment.trim()
+  }, {
+    label: `Alerte température ${TEMPERATURE_SOURCE_LABELS[alert.sourceType]} ${alert.sourceId}`,
+    action: 'approve',
+    reason: comment.trim()
+  });
+};
+
+// Check the series of one source around the new readings and raise the alerts not raised yet
+const evaluateSource = async (
+  sourceType: TemperatureSourceType,
+  sourceId: string,
+  readings: TemperatureReadingInput[],
+  ranges: TemperatureRange[],
+  knownAlertIds: Set<string>
+): Promise<TemperatureAlert[]> => {
+  const times = readings.map(r => Date.parse(r.recordedAt));
+  const series = await getTemperatureReadings(
+    sourceType,
+    sourceId,
+    new Date(Math.min(...times) - EVALUATION_MARGIN_MS),
+    new Date(Math.max(...times) + EVALUATION_MARGIN_MS)
+  );
+  const variety = readings.find(r => r.variety)?.variety || series.find(r => r.variety)?.variety || '';
+  const lotNumber = readings.find(r => r.lotNumber)?.lotNumber;
+  const range = resolveTemperatureRange(ranges, variety);
+
+  const raised: TemperatureAlert[] = [];
+  const batch = writeBatch(db);
+  findTemperatureExcursions(series, range)
+    .filter(excursion => excursion.alerting)
+    .forEach(excursion => {
+      const id = temperatureAlertId(sourceType, sourceId, excursion.startAt);
+      if (knownAlertIds.has(id)) return;
+      const alert: TemperatureAlert = {
+        id,
+        sourceType,
+        sourceId,
+        ...(lotNumber ? { lotNumber } : {}),
+        variety: range.variety || variety,
+        min: range.min,
+        max: range.max,
+        direction: excursion.direction,
+        peak: excursion.peak,
+        startAt: excursion.startAt,
+        endAt: excursion.endAt,
+        durationMinutes: excursion.durationMinutes,
+        readingCount: excursion.readingCount,
+        status: 'ouverte'
+      };
+      batch.set(doc(db, ALERTS, id), { ...alert, createdAt: serverTimestamp() });
+      raised.push(alert);
+    });
+  if (raised.length === 0) return raised;
+  await batch.commit();
+
+  // Announce in the communication feed so the alert is seen outside this page
+  await Promise.all(raised.map(alert =>
+    addCommunicationNotification(
+      `Alerte température ${TEMPERATURE_SOURCE_LABELS[alert.sourceType]} ${alert.sourceId} : ` +
+      `${alert.peak}°C (plage ${alert.min}-${alert.max}°C) le ${new Date(alert.startAt).toLocaleString('fr-FR')}`
+    ).catch(error => console.error('Error announcing temperature alert:', error))
+  ));
+  return raised;
+};
+
+// Store readings (manual entry, logger import, fiche d'expédition) and evaluate their
+// sources. An id makes the write idempotent: re-saving the same reading replaces it.
+export const recordTemperatureReadings = async (
+  readings: Array<TemperatureReadingInput & { id?: string }>
+): Promise<{ saved: number; alerts: TemperatureAlert[] }> => {
+  await requireAuth();
+  if (readings.length === 0) return { saved: 0, alerts: [] };
+  const recordedBy = auth.currentUser?.email || auth.currentUser?.uid || '';
+
+  const payloads = readings.map(({ id, ...reading }) => ({
+    id,
+    data: parseDomain(temperatureReadingWriteSchema, { ...reading, recordedBy: reading.recordedBy || recordedBy }, READINGS)
+  }));
+  for (let i = 0; i < payloads.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    payloads.slice(i, i + BATCH_SIZE).forEach(({ id, data }) => {
+      const clean = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+      batch.set(id ? doc(db, READINGS, id) : doc(collection(db, READINGS)), { ...clean, createdAt: serverTimestamp() });
+    });
+    await batch.commit();
+  }
+
+  const [ranges, existing] = await Promise.all([getTemperatureRanges(), getTemperatureAlerts()]);
+  const knownAlertIds = new Set(existing.map(alert => alert.id));
+  const bySource = new Map<string, TemperatureReadingInput[]>();
+  payloads.forEach(({ data }) => {
+    const key = `${data.sourceType}|${data.sourceId}`;
+    bySource.set(key, [...(bySource.get(key) || []), data]);
+  });
+
+  const alerts: TemperatureAlert[] = [];
+  for (const sourceReadings of Array.from(bySource.values())) {
+    const { sourceType, sourceId } = sourceReadings[0];
+    alerts.push(...await evaluateSource(sourceType, sourceId, sourceReadings, ranges, knownAlertIds));
+  }
+  return { saved: payloads.length, alerts };
+};
+
+export const expeditionPalletId = (expeditionId: string, palletNo: number) => `${expeditionId}-P${palletNo}`;
+
+// T° camion and T° produit of a fiche d'expédition, logged as spot checks of the truck
+// and of each pallet. Ids derive from the expedition so saving the fiche again updates them.
+export const recordExpeditionTemperatures = (expedition: ExpeditionFormData) => {
+  const recordedAt = new Date(`${expedition.headerData.date}T${expedition.headerData.heure || '00:00'}`);
+  if (!expedition.id || isNaN(recordedAt.getTime())) return Promise.resolve({ saved: 0, alerts: [] as TemperatureAlert[] });
+  const base = { recordedAt: recordedAt.toISOString(), origin: 'expedition' as const };
+  const variety = expedition.rows.find(row => row.produitVariete)?.produitVariete;
+
+  const readings: Array<TemperatureReadingInput & { id: string }> = [];
+  const truckValue = parseFloat(expedition.headerData.tempCamion.replace(',', '.'));
+  if (expedition.headerData.matricule.trim() && !isNaN(truckValue)) {
+    readings.push({
+      ...base,
+      id: `${expedition.id}_camion`,
+      sourceType: 'camion',
+      sourceId: expedition.headerData.matricule.trim(),
+      value: truckValue,
+      ...(variety ? { variety } : {})
+    });
+  }
+  expedition.rows.forEach(row => {
+    const value = parseFloat(row.temperatureProduit.replace(',', '.'));
+    if (isNaN(value)) return;
+    readings.push({
+      ...base,
+      id: `${expedition.id}_P${row.palletNo}`,
+      sourceType: 'palette',
+      sourceId: expeditionPalletId(expedition.id as string, row.palletNo),
+      value,
+      ...(row.numeroLotInterne ? { lotNumber: row.numeroLotInterne } : {}),
+      ...(row.produitVariete ? { variety: row.produitVariete } : {})
+    });
+  });
+  return recordTemperatureReadings(readings);
+};
+
+// Readings shown on the expedition PDF: the truck around loading time and the shipped pallets
+export const getExpeditionTemperatureReadings = async (expedition: ExpeditionFormData): Promise<TemperatureReading[]> => {
+  const loadedAt = new Date(`${expedition.headerData.date}T${expedition.headerData.heure || '00:00'}`);
+  if (!expedition.id || isNaN(loadedAt.getTime())) return [];
+  const truck = expedition.headerData.matricule.trim();
+  const results = await Promise.all([
+    truck
+      ? getTemperatureReadings('camion', truck, new Date(loadedAt.getTime() - EVALUATION_MARGIN_MS), new Date(loadedAt.getTime() + EVALUATION_MARGIN_MS))
+      : Promise.resolve([] as TemperatureReading[]),
+    ...expedition.rows
+      .filter(row => row.temperatureProduit)
+      .map(row => getTemperatureReadings(
+        'palette',
+        expeditionPalletId(expedition.id as string, row.palletNo),
+        new Date(0),
+        new Date(loadedAt.getTime() + EVALUATION_MARGIN_MS)
+      ))
+  ]);
+  return results.flat();
+};
@@ -0,0 +1,96 @@
+import { collection, doc, getDocs, serverTimestamp } from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { auditedAdd, auditedDelete, auditedSet } from './auditTrailService';
+import {
+  parseDocuments,
+  parseDomain,
+  toleranceProfileSchema,
+  toleranceProfileWriteSchema,
+  toQualityCategory,
+  TOLERANCE_PRESETS,
+  ToleranceProfile,
+  ToleranceProfileSnapshot
+} from '@shared/domain';
+
+export { TOLERANCE_PRESETS, toQualityCategory } from '@shared/domain';
+export type { ToleranceProfile, ToleranceThresholds, ToleranceProfileSnapshot } from '@shared/domain';
+
+const COLLECTION = 'quality_tolerance_profiles';
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+// Presets followed by the client overrides stored in Firestore
+export const getToleranceProfiles = async (): Promise<ToleranceProfile[]> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDocs(collection(db, COLLECTION));
+  const { items, errors } = parseDocuments(toleranceProfileSchema, snap.docs, COLLECTION);
+  errors.forEach(error => console.error(error.message));
+  items.sort((a, b) => a.name.localeCompare(b.name));
+  return [...TOLERANCE_PRESETS, ...items];
+};
+
+export const saveToleranceProfile = async (
+  profile: Omit<ToleranceProfile, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }
+): Promise<string> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+  if (profile.preset || TOLERANCE_PRESETS.some(p => p.id === profile.id)) {
+    throw new Error('Les profils normalisés ne sont pas modifiables');
+  }
+
+  const { id, ...data } = profile;
+  const payload = {
+    ...parseDomain(toleranceProfileWriteSchema, data, COLLECTION),
+    updatedAt: serverTimestamp()
+  };
+
+  if (id) {
+    await auditedSet(doc(db, COLLECTION, id), payload, { label: `Profil de tolérance ${payload.name}`, merge: true });
+    return id;
+  }
+  return auditedAdd(collection(db, COLLECTION), { ...payload, createdAt: serverTimestamp() }, { label: `Profil de tolérance ${payload.name}` });
+};
+
+export const deleteToleranceProfile = async (id: string): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+  if (TOLERANCE_PRESETS.some(p => p.id === id)) {
+    throw new Error('Les profils normalisés ne peuvent pas être supprimés');
+  }
+  await auditedDelete(doc(db, COLLECTION, id));
+};
+
+// Most specific profile for a lot: client + variety > client > variety > category preset.
+// A profile restricted to another client or variety never applies.
+export const resolveToleranceProfile = (
+  profiles: ToleranceProfile[],
+  criteria: { category?: string; variety?: string; clientName?: string }
+): ToleranceProfile => {
+  const category = toQualityCategory(criteria.category);
+  const variety = normalize(criteria.variety);
+  const clientName = normalize(criteria.clientName);
+
+  let best: ToleranceProfile | undefined;
+  let bestScore = -1;
+  profiles.forEach(profile => {
+    if (profile.category !== category) return;
+    if (profile.clientName && normalize(profile.clientName) !== clientName) return;
+    if (profile.variety && normalize(profile.variety) !== variety) return;
+    const score = (profile.clientName ? 2 : 0) + (profile.variety ? 1 : 0);
+    if (score > bestScore) {
+      best = profile;
+      bestScore = score;
+    }
+  });
+
+  return best || TOLERANCE_PRESETS.find(p => p.category === category) || TOLERANCE_PRESETS[1];
+};
+
+export const toToleranceSnapshot = (profile: ToleranceProfile): ToleranceProfileSnapshot => ({
+  id: profile.id,
+  name: profile.name,
+  thresholds: { ...profile.thresholds }
+});
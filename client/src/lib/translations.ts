@@ -70,6 +70,7 @@ export const translations = {
       controls: "Contrôles",
       reports: "Rapports",
       archive: "Archive",
+      toleranceProfiles: "Profils de tolérance",
       lotNumber: "Numéro de lot",
       productType: "Type de produit",
       controlDate: "Date de contrôle",
@@ -117,7 +118,8 @@ export const translations = {
       inTransit: "En transit",
       delayed: "Retardé",
       inventory: "Inventaire",
-      expeditionSheet: "Fiche d'expédition"
+      expeditionSheet: "Fiche d'expédition",
+      coldChain: "Chaîne du froid"
     },
 
     // Reception
@@ -156,7 +158,34 @@ export const translations = {
       efficiency: "Efficacité",
       downtime: "Temps d'arrêt",
       yield: "Rendement",
-      consumption: "Calcul de consommation"
+      consumption: "Bilan matière",
+      pallets: "Palettes SSCC"
+    },
+
+    // Public lot page (consumers)
+    publicLot: {
+      title: "Votre avocat",
+      lot: "Lot",
+      farm: "Ferme d'origine",
+      harvestDate: "Date de récolte",
+      variety: "Variété",
+      qualityGrade: "Grade qualité",
+      certifications: "Certifications",
+      journey: "Son parcours",
+      packhouseTitle: "Notre station",
+      packhouseStory: "Cueillis à maturité dans les vergers de nos producteurs partenaires, nos avocats sont triés, calibrés et conditionnés dans notre station, puis conservés au froid jusqu'à leur expédition.",
+      loading: "Chargement du lot...",
+      notFound: "Ce lot n'existe pas ou n'est pas publié.",
+      error: "Impossible de charger les informations du lot.",
+      steps: {
+        harvest: "Récolte",
+        reception: "Réception à la station",
+        sorting: "Tri",
+        packaging: "Conditionnement",
+        storage: "Mise au froid",
+        export: "Expédition",
+        delivery: "Livraison"
+      }
     },
 
     // Personnel
@@ -213,9 +242,15 @@ export const translations = {
       entry: "Entrée",
       clientOrder: "Commande client",
       scanCode: "Scanner Code",
+      lotGenealogy: "Généalogie des lots",
+      recallSimulation: "Simulation de rappel",
+      scanAnalytics: "Analyses des scans",
+      orderAllocation: "Allocation des commandes",
+      clients: "Clients",
       warehouses: "Entrepôts",
       manageLots: "Gestion Lots",
       manageFarms: "Gérer Fermes",
+      auditTrail: "Journal d'audit",
       manageClientOrders: "Gérer les commandes client",
       archive: "Archive",
       avocadoTraceability: "Traçabilité d'Avocat",
@@ -431,6 +466,7 @@ export const translations = {
       controls: "المراقبات",
       reports: "التقارير",
       archive: "الأرشيف",
+      toleranceProfiles: "ملفات التفاوت",
       lotNumber: "رقم الدفعة",
       productType: "نوع المنتج",
       controlDate: "تاريخ المراقبة",
@@ -478,7 +514,8 @@ export const translations = {
       inTransit: "قيد النقل",
       delayed: "متأخر",
       inventory: "الجرد",
-      expeditionSheet: "بيان الشحنة"
+      expeditionSheet: "بيان الشحنة",
+      coldChain: "سلسلة التبريد"
     },
 
     // Reception
@@ -517,7 +554,34 @@ export const translations = {
       efficiency: "الكفاءة",
       downtime: "وقت التوقف",
       yield: "المردود",
-      consumption: "حساب الاستهلاك"
+      consumption: "موازنة المواد",
+      pallets: "منصات SSCC"
+    },
+
+    // Public lot page (consumers)
+    publicLot: {
+      title: "الأفوكادو الخاص بك",
+      lot: "الدفعة",
+      farm: "المزرعة الأصلية",
+      harvestDate: "تاريخ الجني",
+      variety: "الصنف",
+      qualityGrade: "درجة الجودة",
+      certifications: "الشهادات",
+      journey: "مساره",
+      packhouseTitle: "محطتنا",
+      packhouseStory: "تُقطف ثمار الأفوكادو عند نضجها في بساتين منتجينا الشركاء، ثم تُفرز وتُعاير وتُعبأ في محطتنا، وتُحفظ في التبريد حتى شحنها.",
+      loading: "جاري تحميل الدفعة...",
+      notFound: "هذه الدفعة غير موجودة أو غير منشورة.",
+      error: "تعذر تحميل معلومات الدفعة.",
+      steps: {
+        harvest: "الجني",
+        reception: "الاستلام في المحطة",
+        sorting: "الفرز",
+        packaging: "التعبئة",
+        storage: "التبريد",
+        export: "الشحن",
+        delivery: "التسليم"
+      }
     },
 
     // Personnel
@@ -574,9 +638,15 @@ export const translations = {
       entry: "إدخال",
       clientOrder: "طلب العميل",
       scanCode: "مسح الكود",
+      lotGenealogy: "سلسلة تتبع الدفعات",
+      recallSimulation: "محاكاة سحب المنتج",
+      scanAnalytics: "تحليلات المسح",
+      orderAllocation: "تخصيص الطلبيات",
+      clients: "الزبناء",
       warehouses: "المستودعات",
       manageLots: "إدارة الدفعات",
       manageFarms: "إدارة المزارع",
+      auditTrail: "سجل التدقيق",
       manageClientOrders: "إدارة طلبات العميل",
       archive: "أرشيف",
       avocadoTraceability: "تتبع الأفوكادو",
@@ -792,6 +862,7 @@ export const translations = {
       controls: "Controls",
       reports: "Reports",
       archive: "Archive",
+      toleranceProfiles: "Tolerance profiles",
       lotNumber: "Lot Number",
       productType: "Product Type",
       controlDate: "Control Date",
@@ -839,7 +910,8 @@ export const translations = {
       inTransit: "In Transit",
       delayed: "Delayed",
       inventory: "Inventory",
-      expeditionSheet: "Expedition Sheet"
+      expeditionSheet: "Expedition Sheet",
+      coldChain: "Cold chain"
     },
 
     // Reception
@@ -878,7 +950,34 @@ export const translations = {
       efficiency: "Efficiency",
       downtime: "Downtime",
       yield: "Yield",
-      consumption: "Consumption Calculation"
+      consumption: "Mass balance",
+      pallets: "SSCC pallets"
+    },
+
+    // Public lot page (consumers)
+    publicLot: {
+      title: "Your avocado",
+      lot: "Lot",
+      farm: "Farm of origin",
+      harvestDate: "Harvest date",
+      variety: "Variety",
+      qualityGrade: "Quality grade",
+      certifications: "Certifications",
+      journey: "Its journey",
+      packhouseTitle: "Our packhouse",
+      packhouseStory: "Picked ripe in the orchards of our partner growers, our avocados are sorted, sized and packed in our packhouse, then kept cold until they are shipped.",
+      loading: "Loading lot...",
+      notFound: "This lot does not exist or is not published.",
+      error: "Unable to load the lot information.",
+      steps: {
+        harvest: "Harvest",
+        reception: "Arrival at the packhouse",
+        sorting: "Sorting",
+        packaging: "Packing",
+        storage: "Cold storage",
+        export: "Shipping",
+        delivery: "Delivery"
+      }
     },
 
     // Personnel
@@ -935,9 +1034,15 @@ export const translations = {
       entry: "Entry",
       clientOrder: "Client Order",
       scanCode: "Scan Code",
+      lotGenealogy: "Lot genealogy",
+      recallSimulation: "Recall simulation",
+      scanAnalytics: "Scan analytics",
+      orderAllocation: "Order allocation",
+      clients: "Clients",
       warehouses: "Warehouses",
       manageLots: "Manage Lots",
       manageFarms: "Manage Farms",
+      auditTrail: "Audit trail",
       manageClientOrders: "Manage Client Orders",
       archive: "Archive",
       avocadoTraceability: "Avocado Traceability",
@@ -0,0 +1,136 @@
+import { getApp, getApps, initializeApp } from 'firebase/app';
+import { createUserWithEmailAndPassword, getAuth, signOut, User } from 'firebase/auth';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  serverTimestamp,
+  setDoc
+} from 'firebase/firestore';
+import { db, firebaseConfig } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { auditedDelete, auditedSet } from './auditTrailService';
+import {
+  parseDomain,
+  ROLE_PERMISSIONS,
+  userProfileSchema,
+  userProfileWriteSchema,
+  UserPermissions,
+  UserProfile,
+  UserRole
+} from '@shared/domain';
+
+const COLLECTION = 'users';
+
+// Older profiles use displayName and may lack uid / email
+const toProfile = (id: string, data: Record<string, unknown>): UserProfile =>
+  parseDomain(userProfileSchema, {
+    ...data,
+    uid: data.uid || id,
+    email: data.email || '',
+    fullName: data.fullName || data.displayName || 'Nouvel utilisateur',
+    role: data.role ?? null
+  }, `${COLLECTION}/${id}`);
+
+// Live profile of the signed-in account, null when it has no profile yet
+export const subscribeUserProfile = (
+  uid: string,
+  onChange: (profile: UserProfile | null) => void,
+  onError: (error: Error) => void
+): (() => void) =>
+  onSnapshot(
+    doc(db, COLLECTION, uid),
+    snap => {
+      try {
+        onChange(snap.exists() ? toProfile(snap.id, snap.data()) : null);
+      } catch (error) {
+        onError(error as Error);
+      }
+    },
+    onError
+  );
+
+// Unassigned profile for an account signing in for the first time, so it shows up
+// in the users page; it grants nothing until an administrator gives it a role
+export const ensureOwnProfile = async (user: User): Promise<void> => {
+  const ref = doc(db, COLLECTION, user.uid);
+  if ((await getDoc(ref)).exists()) return;
+  await setDoc(ref, {
+    uid: user.uid,
+    email: user.email || '',
+    fullName: user.displayName || 'Nouvel utilisateur',
+    displayName: user.displayName || 'Nouvel utilisateur',
+    role: null,
+    permissions: {},
+    active: true,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  });
+};
+
+export const getUserProfiles = async (): Promise<UserProfile[]> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const snap = await getDocs(collection(db, COLLECTION));
+  const profiles: UserProfile[] = [];
+  snap.docs.forEach(d => {
+    try {
+      profiles.push(toProfile(d.id, d.data()));
+    } catch (error) {
+      console.error((error as Error).message);
+    }
+  });
+  return profiles.sort((a, b) => a.fullName.localeCompare(b.fullName));
+};
+
+// Permissions of a role, used as the starting point when a role is assigned
+export const defaultPermissions = (role: UserRole | null): UserPermissions =>
+  role ? JSON.parse(JSON.stringify(ROLE_PERMISSIONS[role])) : {};
+
+export const saveUserProfile = async (profile: Omit<UserProfile, 'createdAt' | 'updatedAt'>): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const data = parseDomain(userProfileWriteSchema, profile, COLLECTION);
+  // Role, permissions and activation are access changes: audited like the regulated records
+  await auditedSet(doc(db, COLLECTION, data.uid), {
+    ...data,
+    displayName: data.fullName,
+    updatedAt: serverTimestamp()
+  }, { merge: true, label: `Utilisateur ${data.email || data.fullName}` });
+};
+
+// Creates the Firebase Auth account on a secondary app instance: creating it on the
+// main instance would sign the administrator out and in as the new user
+export const createUserAccount = async (
+  account: { email: string; password: string; fullName: string; role: UserRole; permissions: UserPermissions }
+): Promise<string> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const secondaryApp = getApps().some(a => a.name === 'user-admin')
+    ? getApp('user-admin')
+    : initializeApp(firebaseConfig, 'user-admin');
+  const secondaryAuth = getAuth(secondaryApp);
+  const credential = await createUserWithEmailAndPassword(secondaryAuth, account.email, account.password);
+  await signOut(secondaryAuth);
+
+  const uid = credential.user.uid;
+  const { password, ...profile } = account;
+  await auditedSet(doc(db, COLLECTION, uid), {
+    ...parseDomain(userProfileWriteSchema, { ...profile, uid, active: true }, COLLECTION),
+    displayName: account.fullName,
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp()
+  }, { label: `Utilisateur ${account.email}` });
+  return uid;
+};
+
+export const deleteUserProfile = async (uid: string): Promise<void> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+  await auditedDelete(doc(db, COLLECTION, uid), { label: `Utilisateur ${uid}` });
+};
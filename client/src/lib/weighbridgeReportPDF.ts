@@ -0,0 +1,85 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import {
+  SupplierDiscrepancySummary,
+  WEIGHT_DISCREPANCY_LABELS,
+  WeighbridgeDelivery
+} from './weighbridgeService';
+
+const kg = (value: number | null) => (value === null ? '-' : value.toFixed(1));
+const rate = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}%`);
+
+const lastY = (doc: jsPDF) => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+
+// Discrepancy statement of one supplier, sent with the dispute of its deliveries
+export const generateSupplierDiscrepancyPDF = (
+  summary: SupplierDiscrepancySummary,
+  deliveries: WeighbridgeDelivery[],
+  options: { period: string; tolerancePct: number }
+): void => {
+  const doc = new jsPDF();
+
+  doc.setFontSize(16);
+  doc.text('Relevé des écarts de pesée', 105, 18, { align: 'center' });
+  doc.setFontSize(11);
+  doc.text(`Fournisseur: ${summary.supplier}`, 14, 28);
+  doc.text(`Période: ${options.period}`, 14, 34);
+  doc.text(`Tolérance pont-bascule / usine: ±${options.tolerancePct}%`, 14, 40);
+
+  autoTable(doc, {
+    startY: 46,
+    head: [['Livraisons', 'Poids ticket (kg)', 'Poids usine (kg)', 'Écart (kg)', 'Écart', 'Hors tolérance']],
+    body: [[
+      String(summary.deliveries),
+      kg(summary.ticketKg),
+      kg(summary.factoryKg),
+      kg(summary.ecartKg),
+      rate(summary.ecartPct),
+      `${summary.shortCount} manquant(s), ${summary.overCount} excédent(s)`
+    ]],
+    theme: 'grid',
+    headStyles: { fillColor: [39, 174, 96], fontSize: 9 },
+    bodyStyles: { fontSize: 9 }
+  });
+
+  autoTable(doc, {
+    startY: lastY(doc) + 8,
+    head: [['Date', 'Bon de livraison', 'Bon de réception', 'Ticket (kg)', 'Usine (kg)', 'Écart (kg)', 'Écart', 'Statut']],
+    body: deliveries.map(d => [
+      d.date,
+      d.bonLivraison || '-',
+      d.bonReception || '-',
+      kg(d.ticketKg),
+      kg(d.factoryKg),
+      kg(d.ecartKg),
+      rate(d.ecartPct),
+      WEIGHT_DISCREPANCY_LABELS[d.status]
+    ]),
+    theme: 'grid',
+    headStyles: { fillColor: [41, 128, 185], fontSize: 8 },
+    bodyStyles: { fontSize: 8 },
+    didParseCell: (data) => {
+      if (data.section === 'body' && deliveries[data.row.index]?.status === 'manquant') {
+        data.cell.styles.textColor = [192, 57, 43];
+      }
+    }
+  });
+
+  if (summary.monthly.length > 1) {
+    autoTable(doc, {
+      startY: lastY(doc) + 8,
+      head: [['Mois', 'Livraisons', 'Écart (kg)', 'Écart']],
+      body: summary.monthly.map(m => [m.month, String(m.deliveries), kg(m.ecartKg), rate(m.ecartPct)]),
+      theme: 'grid',
+      headStyles: { fillColor: [41, 128, 185], fontSize: 8 },
+      bodyStyles: { fontSize: 8 }
+    });
+  }
+
+  const y = Math.min(lastY(doc) + 20, 270);
+  doc.setFontSize(9);
+  doc.text('Poids usine: somme des poids bruts pesés à la réception moins les tares palettes.', 14, y);
+  doc.text(`Édité le ${new Date().toLocaleDateString('fr-FR')}`, 14, y + 6);
+
+  doc.save(`Ecarts_pesee_${summary.supplier.replace(/[^A-Za-z0-9]+/g, '_')}_${options.period.replace(/[^0-9]+/g, '_')}.pdf`);
+};
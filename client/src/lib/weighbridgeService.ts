@@ -0,0 +1,69 @@
+import { collection, getDocs, query, where } from 'firebase/firestore';
+import { db } from './firebase';
+import { waitForAuth } from './qualityControlService';
+import { normalizeLotId } from './lotGenealogyService';
+import {
+  computeWeighbridgeFigures,
+  parseDocuments,
+  ReceptionFormData,
+  receptionControlLotSchema,
+  sharedLotSchema,
+  WeighbridgeDelivery
+} from '@shared/domain';
+
+export {
+  summarizeSupplierDiscrepancies,
+  classifyWeightDiscrepancy,
+  SYSTEMATIC_MIN_DELIVERIES,
+  WEIGHBRIDGE_TOLERANCE_PCT,
+  WEIGHT_DISCREPANCY_LABELS
+} from '@shared/domain';
+export type { SupplierDiscrepancySummary, WeighbridgeDelivery, WeightDiscrepancyStatus } from '@shared/domain';
+
+export const toWeighbridgeDelivery = (
+  lot: { id: string; lotNumber: string; receptionData: ReceptionFormData },
+  tolerancePct: number,
+  supplierByBon: Map<string, string> = new Map()
+): WeighbridgeDelivery => {
+  const { header } = lot.receptionData;
+  return {
+    lotId: lot.id,
+    lotNumber: lot.lotNumber,
+    date: header.date,
+    // Older sheets have no supplier: the reception control of the same bon names it
+    supplier: header.fournisseur?.trim() || supplierByBon.get(normalizeLotId(header.bonReception)) || '',
+    bonLivraison: header.bonLivraison,
+    bonReception: header.bonReception,
+    ...computeWeighbridgeFigures(lot.receptionData, tolerancePct)
+  };
+};
+
+// Every reception sheet of the period with its weighbridge écart
+export const getWeighbridgeDeliveries = async (
+  range: { from?: string; to?: string },
+  tolerancePct: number
+): Promise<WeighbridgeDelivery[]> => {
+  const isAuth = await waitForAuth();
+  if (!isAuth) throw new Error('Utilisateur non authentifié');
+
+  const [lotsSnap, controlsSnap] = await Promise.all([
+    getDocs(query(collection(db, 'shared_lots'), where('type', '==', 'reception'))),
+    getDocs(collection(db, 'reception_controls'))
+  ]);
+
+  const supplierByBon = new Map<string, string>();
+  parseDocuments(receptionControlLotSchema, controlsSnap.docs, 'reception_controls').items.forEach(control => {
+    const header = control.data.header;
+    const supplier = (header.producer || header.provider || '').trim();
+    if (header.receptionBonNumber && supplier) supplierByBon.set(normalizeLotId(header.receptionBonNumber), supplier);
+  });
+
+  const { items, errors } = parseDocuments(sharedLotSchema, lotsSnap.docs, 'shared_lots');
+  errors.forEach(error => console.error(error.message));
+
+  return items
+    .filter(lot => lot.receptionData)
+    .map(lot => toWeighbridgeDelivery({ id: lot.id, lotNumber: lot.lotNumber, receptionData: lot.receptionData! }, tolerancePct, supplierByBon))
+    .filter(d => (!range.from || d.date >= range.from) && (!range.to || d.date <= range.to))
+    .sort((a, b) => b.date.localeCompare(a.date));
+};
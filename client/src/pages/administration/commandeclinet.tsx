@@ -14,12 +14,17 @@ import {
 } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { 
-  getClientOrders, 
   addClientOrder, 
-  updateClientOrder, 
+  changeClientOrderStatus,
   deleteClientOrder,
-  ClientOrder 
+  setOrderLineCompleted,
+  subscribeToClientOrders,
+  ClientOrder,
+  ClientOrderStatus,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES
 } from '../../lib/firebaseService';
+import { OrderStatusSelect } from '@/components/orders/order-status';
 import { getAvocadoTrackingData } from '../../lib/firebaseService';
 import { multiLotService } from '../../lib/multiLotService';
 import { 
@@ -65,7 +70,7 @@ interface ClientOrderExtended {
   clientPhone?: string;
   orderDate: string;
   requestedDeliveryDate: string;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: ClientOrderStatus;
   priority: 'high' | 'medium' | 'low';
   items: OrderItem[];
   totalAmount: number;
@@ -75,6 +80,24 @@ interface ClientOrderExtended {
   selected?: boolean;
 }
 
+// Lines of the order as the checklist shows them
+const toExtendedOrder = (order: ClientOrder): ClientOrderExtended => ({
+  ...order,
+  items: order.products.map(product => ({
+    id: product.id,
+    clientName: order.clientName,
+    lotNumber: product.lotNumber || '-',
+    quantity: product.quantity,
+    unit: product.unit,
+    caliber: product.caliber || 'Mixed',
+    type: product.name,
+    processingTime: product.processingHours || 0,
+    completed: !!product.completed,
+    completedAt: product.completedAt,
+    notes: ''
+  }))
+});
+
 export default function CommandeClient() {
   const [orders, setOrders] = useState<ClientOrderExtended[]>([]);
   const [lots, setLots] = useState<any[]>([]);
@@ -107,25 +130,6 @@ export default function CommandeClient() {
       try {
         setLoading(true);
         
-        // Fetch client orders
-        const clientOrders = await getClientOrders();
-        const transformedOrders = clientOrders.map(order => ({
-          ...order,
-          items: order.products?.map((product, index) => ({
-            id: `${order.id}-${index}`,
-            clientName: order.clientName,
-            lotNumber: `LOT-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
-            quantity: product.quantity,
-            unit: product.unit,
-            caliber: 'Mixed',
-            type: product.name,
-            processingTime: Math.floor(Math.random() * 24) + 1,
-            completed: false,
-            notes: ''
-          })) || []
-        }));
-        setOrders(transformedOrders);
-
         // Fetch lot data
         const avocadoLots = await getAvocadoTrackingData();
         setLots(avocadoLots);
@@ -144,6 +148,9 @@ export default function CommandeClient() {
     fetchData();
   }, []);
 
+  // Client orders, live
+  useEffect(() => subscribeToClientOrders(clientOrders => setOrders(clientOrders.map(toExtendedOrder))), []);
+
   // Filter and search functionality
   const filteredOrders = useMemo(() => {
     return orders.filter(order => {
@@ -162,39 +169,9 @@ export default function CommandeClient() {
   const handleItemToggle = async (orderId: string, itemId: string) => {
     try {
       setSaving(true);
-      const order = orders.find(o => o.id === orderId);
-      if (!order) return;
-
-      const updatedItems = order.items.map(item => {
-        if (item.id === itemId) {
-          return {
-            ...item,
-            completed: !item.completed,
-            completedAt: !item.completed ? new Date().toISOString() : undefined
-          };
-        }
-        return item;
-      });
-
-      // Update local state
-      setOrders(prev => prev.map(o => 
-        o.id === orderId ? { ...o, items: updatedItems } : o
-      ));
-
-      // Update in Firebase
-      await updateDoc(doc(db, 'client-orders', orderId), {
-        products: updatedItems.map(item => ({
-          id: item.id,
-          name: item.type,
-          quantity: item.quantity,
-          unit: item.unit,
-          pricePerUnit: 0,
-          totalPrice: 0,
-          completed: item.completed,
-          completedAt: item.completedAt
-        })),
-        updatedAt: serverTimestamp()
-      });
+      const item = orders.find(o => o.id === orderId)?.items.find(i => i.id === itemId);
+      if (!item) return;
+      await setOrderLineCompleted(orderId, itemId, !item.completed);
 
     } catch (error) {
       console.error('Error updating item:', error);
@@ -203,6 +180,19 @@ export default function CommandeClient() {
     }
   };
 
+  // Move the order along its lifecycle
+  const handleStatusChange = async (orderId: string, status: ClientOrderStatus, reason?: string) => {
+    try {
+      setSaving(true);
+      await changeClientOrderStatus(orderId, status, reason);
+    } catch (error) {
+      console.error('Error changing order status:', error);
+      alert(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
   // Handle order selection
   const handleOrderSelect = (orderId: string) => {
     const newSelected = new Set(selectedOrders);
@@ -267,9 +257,10 @@ export default function CommandeClient() {
           quantity: item.quantity,
           unit: item.unit,
           pricePerUnit: 0,
-          totalPrice: 0
+          totalPrice: 0,
+          ...(item.caliber ? { caliber: item.caliber } : {}),
+          ...(item.lotNumber ? { lotNumber: item.lotNumber } : {})
         })),
-        status: 'pending' as const,
         orderDate: new Date().toISOString(),
         requestedDeliveryDate: newOrder.requestedDeliveryDate,
         totalAmount: 0,
@@ -285,7 +276,7 @@ export default function CommandeClient() {
         paymentStatus: 'pending' as const
       };
 
-      await addClientOrder(orderData);
+      await addClientOrder(orderData, 'confirmed');
       
       // Reset form
       setNewOrder({
@@ -300,25 +291,6 @@ export default function CommandeClient() {
       });
       setShowAddModal(false);
 
-      // Refresh orders
-      const updatedOrders = await getClientOrders();
-      const transformedOrders = updatedOrders.map(order => ({
-        ...order,
-        items: order.products?.map((product, index) => ({
-          id: `${order.id}-${index}`,
-          clientName: order.clientName,
-          lotNumber: `LOT-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
-          quantity: product.quantity,
-          unit: product.unit,
-          caliber: 'Mixed',
-          type: product.name,
-          processingTime: Math.floor(Math.random() * 24) + 1,
-          completed: false,
-          notes: ''
-        })) || []
-      }));
-      setOrders(transformedOrders);
-
     } catch (error) {
       console.error('Error saving order:', error);
     } finally {
@@ -341,18 +313,6 @@ export default function CommandeClient() {
     }
   };
 
-  // Get status color
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending': return 'bg-yellow-100 text-yellow-800 border-yellow-200';
-      case 'processing': return 'bg-blue-100 text-blue-800 border-blue-200';
-      case 'shipped': return 'bg-purple-100 text-purple-800 border-purple-200';
-      case 'delivered': return 'bg-green-100 text-green-800 border-green-200';
-      case 'cancelled': return 'bg-red-100 text-red-800 border-red-200';
-      default: return 'bg-gray-100 text-gray-800 border-gray-200';
-    }
-  };
-
   // Get priority color
   const getPriorityColor = (priority: string) => {
     switch (priority) {
@@ -411,9 +371,9 @@ export default function CommandeClient() {
           <div className="bg-white p-6 rounded-xl shadow-sm border border-gray-200">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-500">Pending</p>
+                <p className="text-sm font-medium text-gray-500">Confirmed</p>
                 <p className="text-3xl font-bold text-gray-900">
-                  {orders.filter(o => o.status === 'pending').length}
+                  {orders.filter(o => o.status === 'confirmed').length}
                 </p>
               </div>
               <div className="bg-yellow-100 p-3 rounded-lg">
@@ -427,7 +387,7 @@ export default function CommandeClient() {
               <div>
                 <p className="text-sm font-medium text-gray-500">In Progress</p>
                 <p className="text-3xl font-bold text-gray-900">
-                  {orders.filter(o => o.status === 'processing').length}
+                  {orders.filter(o => o.status === 'in_production' || o.status === 'packed').length}
                 </p>
               </div>
               <div className="bg-blue-100 p-3 rounded-lg">
@@ -471,11 +431,9 @@ export default function CommandeClient() {
                 onChange={(e) => setStatusFilter(e.target.value)}
               >
                 <option value="all">All Status</option>
-                <option value="pending">Pending</option>
-                <option value="processing">Processing</option>
-                <option value="shipped">Shipped</option>
-                <option value="delivered">Delivered</option>
-                <option value="cancelled">Cancelled</option>
+                {ORDER_STATUSES.map(status => (
+                  <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -583,9 +541,11 @@ export default function CommandeClient() {
 
                       <td className="px-6 py-4">
                         <div className="flex flex-col gap-2">
-                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(order.status)}`}>
-                            {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                          </span>
+                          <OrderStatusSelect
+                            status={order.status}
+                            disabled={saving}
+                            onChange={(status, reason) => handleStatusChange(order.id, status, reason)}
+                          />
                           <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ring-1 ring-inset ${getPriorityColor(order.priority)}`}>
                             {order.priority.charAt(0).toUpperCase() + order.priority.slice(1)}
                           </span>
@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, ScrollText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { AuditEntry, auditEntriesToCsv, getAuditEntries } from "@/lib/auditTrailService";
+import { AUDIT_ACTION_LABELS, formatAuditValue } from "@/components/audit/record-history-drawer";
+
+// Regulated collections whose writes go through the audit trail
+const AUDITED_COLLECTIONS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'Toutes' },
+  { value: 'quality_control_lots', label: 'Contrôles qualité' },
+  { value: 'quality_reports', label: 'Rapports contrôle qualité' },
+  { value: 'qualityRapports', label: 'Rapports qualité' },
+  { value: 'quality_tolerance_profiles', label: 'Profils de tolérance' },
+  { value: 'temperature_ranges', label: 'Plages de température' },
+  { value: 'temperature_alerts', label: 'Alertes de température' },
+  { value: 'reception_controls', label: 'Contrôles réception' },
+  { value: 'reception_archives', label: 'Archives réception' },
+  { value: 'packaging_traces', label: 'Emballages' },
+  { value: 'dechet_archives', label: 'Déchets' },
+  { value: 'production_suivi', label: 'Suivi production' },
+  { value: 'mass_balance_settings', label: 'Bilan matière' },
+  { value: 'sscc_settings', label: 'Paramètres SSCC' },
+  { value: 'production_planning_settings', label: 'Planification production' },
+  { value: 'lot_publications', label: 'Publication des lots' },
+  { value: 'expeditions', label: 'Expéditions' },
+  { value: 'work_schedules', label: 'Horaires' },
+  { value: 'client-orders', label: 'Commandes clients' },
+  { value: 'clients', label: 'Clients' },
+  { value: 'invoices', label: 'Factures clients' },
+  { value: 'invoice_settings', label: 'Paramètres de facturation' },
+  { value: 'avocado-tracking', label: 'Lots (traçabilité)' },
+  { value: 'farms', label: 'Fermes' },
+  { value: 'entrepots', label: 'Entrepôts' },
+  { value: 'users', label: 'Utilisateurs' }
+];
+
+const today = () => new Date().toISOString().slice(0, 10);
+const monthAgo = () => new Date(Date.now() - 30 * 24 * 3600 * 1000).toISOString().slice(0, 10);
+
+export default function AuditTrailPage() {
+  const { toast } = useToast();
+  const [from, setFrom] = useState(monthAgo());
+  const [to, setTo] = useState(today());
+  const [collectionName, setCollectionName] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const search = async () => {
+    if (!from || !to || from > to) {
+      toast({ title: "Période invalide", description: "Vérifiez les dates de début et de fin", variant: "destructive" });
+      return;
+    }
+    setLoading(true);
+    try {
+      setEntries(await getAuditEntries(
+        new Date(`${from}T00:00:00`),
+        new Date(`${to}T23:59:59.999`),
+        collectionName || undefined
+      ));
+    } catch (error) {
+      console.error('Error loading audit trail:', error);
+      toast({ title: "Erreur", description: "Impossible de charger le journal d'audit", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const exportCSV = () => {
+    if (!entries) return;
+    // BOM so spreadsheet software reads the accents correctly
+    const blob = new Blob(['﻿' + auditEntriesToCsv(entries)], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `journal_audit_${from}_${to}${collectionName ? `_${collectionName}` : ''}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-6">
+      <div>
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <ScrollText className="h-6 w-6 text-green-700" />
+          Journal d'audit
+        </h2>
+        <p className="text-sm text-gray-500">
+          Historique non modifiable des changements sur les enregistrements qualité, traçabilité et personnel
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label>Du</Label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label>Au</Label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <div>
+            <Label>Enregistrements</Label>
+            <select
+              value={collectionName}
+              onChange={(e) => setCollectionName(e.target.value)}
+              className="w-full h-10 px-3 border rounded-md bg-background"
+            >
+              {AUDITED_COLLECTIONS.map(c => (
+                <option key={c.value} value={c.value}>{c.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={search} disabled={loading}>
+              {loading ? 'Chargement...' : 'Rechercher'}
+            </Button>
+            <Button variant="outline" onClick={exportCSV} disabled={!entries || entries.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {entries && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{entries.length} modification(s)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Utilisateur</TableHead>
+                  <TableHead>Enregistrement</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Champs modifiés</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.id} className="align-top">
+                    <TableCell className="whitespace-nowrap">
+                      {entry.at ? format(new Date(entry.at), "dd/MM/yyyy HH:mm:ss", { locale: fr }) : '—'}
+                    </TableCell>
+                    <TableCell>{entry.userEmail || entry.userId}</TableCell>
+                    <TableCell>
+                      <div>{entry.label}</div>
+                      <div className="text-xs text-gray-500">{entry.collection}/{entry.docId}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={entry.action === 'reject' || entry.action === 'delete' ? 'destructive' : 'secondary'}>
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </Badge>
+                      {entry.reason && <div className="text-xs italic text-gray-600 mt-1">{entry.reason}</div>}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {entry.changes.slice(0, 5).map(change => (
+                        <div key={change.field} className="break-all">
+                          <span className="font-mono">{change.field}</span> : {formatAuditValue(change.before)} → {formatAuditValue(change.after)}
+                        </div>
+                      ))}
+                      {entry.changes.length > 5 && (
+                        <div className="text-gray-500">+ {entry.changes.length - 5} autre(s) champ(s)</div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,512 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle, Download, FilePlus, Pencil, Receipt, RefreshCw, Save, Send, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ClientOrder } from "@shared/domain";
+import {
+  archiveInvoice,
+  buildInvoicePDF,
+  createInvoiceDraft,
+  DEFAULT_INVOICE_SETTINGS,
+  deleteInvoiceDraft,
+  getInvoiceableOrders,
+  getInvoices,
+  getInvoiceSettings,
+  Invoice,
+  INVOICE_STATUS_LABELS,
+  InvoiceLine,
+  invoiceLineAmounts,
+  InvoiceSettings,
+  InvoiceSettingsWrite,
+  InvoiceStatus,
+  invoiceStatusOn,
+  invoiceTotals,
+  issueInvoice,
+  markInvoicePaid,
+  markOverdueInvoices,
+  saveInvoiceSettings,
+  updateInvoiceDraft
+} from "@/lib/invoiceService";
+
+const STATUS_BADGES: Record<InvoiceStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  issued: 'bg-blue-100 text-blue-800',
+  paid: 'bg-green-100 text-green-800',
+  overdue: 'bg-red-100 text-red-800'
+};
+
+const money = (value: number, currency: string) =>
+  `${value.toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+const day = (value: string | null) => (value ? value.slice(0, 10).split('-').reverse().join('/') : '-');
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const StatTile = ({ label, value }: { label: string; value: string }) => (
+  <div className="p-4 rounded-lg border bg-gray-50">
+    <div className="text-xs uppercase text-gray-500">{label}</div>
+    <div className="text-xl font-semibold">{value}</div>
+  </div>
+);
+
+const toSettingsDraft = ({ updatedAt, ...settings }: InvoiceSettings): InvoiceSettingsWrite => settings;
+
+// Invoices of the shipped and delivered orders, from draft to payment
+export default function InvoicesPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canWrite = can('invoices', 'write');
+  // Seller identity and numbering prefix are printed on every invoice
+  const canEditSettings = can('invoices', 'approve');
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [orders, setOrders] = useState<ClientOrder[]>([]);
+  const [settings, setSettings] = useState<InvoiceSettingsWrite>(toSettingsDraft(DEFAULT_INVOICE_SETTINGS));
+  const [editing, setEditing] = useState<Invoice | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const [loadedInvoices, loadedSettings] = await Promise.all([getInvoices(), getInvoiceSettings()]);
+      if (canWrite && (await markOverdueInvoices(loadedInvoices)) > 0) {
+        setInvoices(await getInvoices());
+      } else {
+        setInvoices(loadedInvoices);
+      }
+      setOrders(await getInvoiceableOrders(loadedInvoices));
+      setSettings(toSettingsDraft(loadedSettings));
+    } catch (error) {
+      console.error('Error loading invoices:', error);
+      toast({ title: "Erreur", description: "Impossible de charger les factures", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>, success: string, errorLog: string) => {
+    setSaving(true);
+    try {
+      await action();
+      toast({ title: success });
+      await load();
+    } catch (error) {
+      console.error(errorLog, error);
+      toast({ title: "Erreur", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const prepare = (order: ClientOrder) =>
+    run(async () => {
+      const id = await createInvoiceDraft(order);
+      const created = (await getInvoices()).find(invoice => invoice.id === id);
+      if (created) setEditing(created);
+    }, `Facture préparée pour la commande ${order.orderNumber}`, 'Error creating invoice draft:');
+
+  const updateLine = (index: number, changes: Partial<InvoiceLine>) => {
+    if (!editing) return;
+    const lines = editing.lines.map((line, i) => {
+      if (i !== index) return line;
+      const updated = { ...line, ...changes };
+      return { ...updated, ...invoiceLineAmounts(updated) };
+    });
+    setEditing({ ...editing, lines, ...invoiceTotals(lines) });
+  };
+
+  const saveDraft = (invoice: Invoice) =>
+    run(async () => {
+      await updateInvoiceDraft(invoice, { lines: invoice.lines, incoterm: invoice.incoterm, notes: invoice.notes });
+    }, 'Brouillon enregistré', 'Error saving invoice draft:');
+
+  const issue = (invoice: Invoice) => {
+    if (!window.confirm(`Émettre la facture de la commande ${invoice.orderNumber} ? Elle ne pourra plus être modifiée.`)) return;
+    run(async () => {
+      // A numbered draft (issue interrupted) is issued as it was numbered
+      if (!invoice.number) {
+        await updateInvoiceDraft(invoice, { lines: invoice.lines, incoterm: invoice.incoterm, notes: invoice.notes });
+      }
+      const issued = await issueInvoice(invoice);
+      setEditing(null);
+      window.open(issued.pdfURL, '_blank');
+    }, 'Facture émise et archivée', 'Error issuing invoice:');
+  };
+
+  const remove = (invoice: Invoice) => {
+    if (!window.confirm(`Supprimer le brouillon de la commande ${invoice.orderNumber} ?`)) return;
+    run(async () => {
+      await deleteInvoiceDraft(invoice);
+      setEditing(null);
+    }, 'Brouillon supprimé', 'Error deleting invoice draft:');
+  };
+
+  const markPaid = (invoice: Invoice) => {
+    const paidAt = window.prompt(`Date du paiement de la facture ${invoice.number} (AAAA-MM-JJ)`, today());
+    if (!paidAt) return;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(paidAt)) {
+      toast({ title: "Date invalide", description: "Format attendu : AAAA-MM-JJ", variant: "destructive" });
+      return;
+    }
+    run(() => markInvoicePaid(invoice, paidAt), `Facture ${invoice.number} payée`, 'Error marking invoice paid:');
+  };
+
+  const download = (invoice: Invoice) => {
+    if (invoice.pdfURL) {
+      window.open(invoice.pdfURL, '_blank');
+    } else if (invoice.status !== 'draft') {
+      // Issued, but its archiving failed: archived now from the stored number
+      run(async () => {
+        const archived = await archiveInvoice(invoice.id);
+        window.open(archived.pdfURL, '_blank');
+      }, `Facture ${invoice.number} archivée`, 'Error archiving invoice:');
+    } else {
+      buildInvoicePDF(invoice, settings).save(`Projet_facture_${invoice.orderNumber}.pdf`);
+    }
+  };
+
+  const saveSettings = () =>
+    run(() => saveInvoiceSettings({
+      ...settings,
+      numberPrefix: settings.numberPrefix.trim().toUpperCase(),
+      defaultIncoterm: settings.defaultIncoterm.trim().toUpperCase()
+    }), 'Paramètres de facturation enregistrés', 'Error saving invoice settings:');
+
+  const statusOf = (invoice: Invoice) => invoiceStatusOn(invoice, today());
+  const unpaid = invoices.filter(invoice => ['issued', 'overdue'].includes(statusOf(invoice)));
+  const textField = (key: 'sellerName' | 'sellerAddress' | 'sellerTaxIds' | 'sellerVatNumber' | 'bankDetails' | 'numberPrefix' | 'defaultIncoterm') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => setSettings({ ...settings, [key]: e.target.value });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Receipt className="h-6 w-6" />
+          Facturation clients
+        </h1>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Actualiser
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatTile label="Commandes à facturer" value={String(orders.length)} />
+        <StatTile label="Brouillons" value={String(invoices.filter(invoice => invoice.status === 'draft').length)} />
+        <StatTile label="Factures impayées" value={String(unpaid.length)} />
+        <StatTile label="Échues impayées" value={String(unpaid.filter(invoice => statusOf(invoice) === 'overdue').length)} />
+      </div>
+
+      {editing && (
+        <Card>
+          <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+            <CardTitle className="text-base">
+              Brouillon · commande {editing.orderNumber} · {editing.clientName}
+            </CardTitle>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => download(editing)}>
+                <Download className="h-4 w-4 mr-2" />
+                Aperçu PDF
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setEditing(null)}>Fermer</Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Désignation</TableHead>
+                  <TableHead>Calibre</TableHead>
+                  <TableHead className="text-right">Quantité</TableHead>
+                  <TableHead className="text-right">Prix unitaire</TableHead>
+                  <TableHead className="text-right">TVA (%)</TableHead>
+                  <TableHead className="text-right">Montant HT</TableHead>
+                  <TableHead>Origine</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {editing.lines.map((line, index) => (
+                  <TableRow key={line.orderLineId}>
+                    <TableCell>
+                      <Input value={line.description} onChange={e => updateLine(index, { description: e.target.value })} />
+                    </TableCell>
+                    <TableCell>{line.calibre || '-'}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-1">
+                        <Input
+                          type="number"
+                          min={0}
+                          className="w-24 text-right"
+                          value={line.quantity}
+                          onChange={e => updateLine(index, { quantity: Number(e.target.value) || 0 })}
+                        />
+                        <span className="text-sm text-gray-500">{line.unit}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        className="w-28 text-right ml-auto"
+                        value={line.unitPrice}
+                        onChange={e => updateLine(index, { unitPrice: Number(e.target.value) || 0 })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        className="w-20 text-right ml-auto"
+                        value={line.vatRatePct}
+                        onChange={e => updateLine(index, { vatRatePct: Number(e.target.value) || 0 })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right">{money(line.netAmount, editing.currency)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{line.source === 'expedition' ? 'Expédié' : 'Commandé'}</Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label>Incoterm</Label>
+                <Input value={editing.incoterm} onChange={e => setEditing({ ...editing, incoterm: e.target.value.toUpperCase() })} />
+              </div>
+              <div className="md:col-span-2">
+                <Label>Notes</Label>
+                <Textarea value={editing.notes} onChange={e => setEditing({ ...editing, notes: e.target.value })} rows={2} />
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="text-sm space-x-4">
+                <span>HT {money(editing.netTotal, editing.currency)}</span>
+                <span>TVA {money(editing.vatTotal, editing.currency)}</span>
+                <span className="font-semibold">TTC {money(editing.grossTotal, editing.currency)}</span>
+              </div>
+              {canWrite && (
+                <div className="flex gap-2">
+                  {!editing.number && (
+                    <>
+                      <Button variant="outline" onClick={() => remove(editing)} disabled={saving}>
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Supprimer
+                      </Button>
+                      <Button variant="outline" onClick={() => saveDraft(editing)} disabled={saving}>
+                        <Save className="h-4 w-4 mr-2" />
+                        Enregistrer
+                      </Button>
+                    </>
+                  )}
+                  <Button onClick={() => issue(editing)} disabled={saving}>
+                    <Send className="h-4 w-4 mr-2" />
+                    Émettre
+                  </Button>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Commandes à facturer</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {orders.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucune commande expédiée ou livrée sans facture.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Commande</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Statut</TableHead>
+                  <TableHead>Livraison</TableHead>
+                  <TableHead className="text-right">Montant commandé</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map(order => (
+                  <TableRow key={order.id}>
+                    <TableCell className="font-medium">{order.orderNumber}</TableCell>
+                    <TableCell>{order.clientName}</TableCell>
+                    <TableCell>{order.status === 'delivered' ? 'Livrée' : 'Expédiée'}</TableCell>
+                    <TableCell>{day(order.actualDeliveryDate || order.requestedDeliveryDate)}</TableCell>
+                    <TableCell className="text-right">{order.totalAmount.toLocaleString('fr-FR')}</TableCell>
+                    <TableCell className="text-right">
+                      {canWrite && (
+                        <Button size="sm" onClick={() => prepare(order)} disabled={saving}>
+                          <FilePlus className="h-4 w-4 mr-2" />
+                          Préparer la facture
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Factures</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-sm text-gray-500">{loading ? 'Chargement...' : 'Aucune facture.'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Numéro</TableHead>
+                  <TableHead>Commande</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Échéance</TableHead>
+                  <TableHead className="text-right">Total TTC</TableHead>
+                  <TableHead>Statut</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invoices.map(invoice => {
+                  const status = statusOf(invoice);
+                  return (
+                    <TableRow key={invoice.id}>
+                      <TableCell className="font-medium">{invoice.number || '-'}</TableCell>
+                      <TableCell>{invoice.orderNumber}</TableCell>
+                      <TableCell>{invoice.clientName}</TableCell>
+                      <TableCell>{day(invoice.issueDate)}</TableCell>
+                      <TableCell>{day(invoice.dueDate)}</TableCell>
+                      <TableCell className="text-right">{money(invoice.grossTotal, invoice.currency)}</TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGES[status]}>{INVOICE_STATUS_LABELS[status]}</Badge>
+                        {invoice.paidAt && <div className="text-xs text-gray-500 mt-1">le {day(invoice.paidAt)}</div>}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button variant="ghost" size="icon" onClick={() => download(invoice)} title="PDF">
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        {canWrite && status === 'draft' && (
+                          <Button variant="ghost" size="icon" onClick={() => setEditing(invoice)} title="Modifier">
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canWrite && (status === 'issued' || status === 'overdue') && (
+                          <Button variant="outline" size="sm" onClick={() => markPaid(invoice)} disabled={saving}>
+                            <CheckCircle className="h-4 w-4 mr-2" />
+                            Payée
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Paramètres de facturation</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Raison sociale</Label>
+              <Input value={settings.sellerName} onChange={textField('sellerName')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>Adresse</Label>
+              <Input value={settings.sellerAddress} onChange={textField('sellerAddress')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>Identifiants (ICE, IF, RC)</Label>
+              <Input value={settings.sellerTaxIds} onChange={textField('sellerTaxIds')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>N° de TVA</Label>
+              <Input value={settings.sellerVatNumber} onChange={textField('sellerVatNumber')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>Coordonnées bancaires</Label>
+              <Input value={settings.bankDetails} onChange={textField('bankDetails')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>Préfixe de numérotation</Label>
+              <Input value={settings.numberPrefix} onChange={textField('numberPrefix')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>TVA par défaut (%)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={settings.defaultVatRatePct}
+                onChange={e => setSettings({ ...settings, defaultVatRatePct: Number(e.target.value) || 0 })}
+                disabled={!canEditSettings}
+              />
+            </div>
+            <div>
+              <Label>Incoterm par défaut</Label>
+              <Input value={settings.defaultIncoterm} onChange={textField('defaultIncoterm')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>Colis par défaut (kg)</Label>
+              <Input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={settings.defaultBoxNetKg}
+                onChange={e => setSettings({ ...settings, defaultBoxNetKg: Number(e.target.value) || 0 })}
+                disabled={!canEditSettings}
+              />
+            </div>
+          </div>
+          <div>
+            <Label>Mentions légales</Label>
+            <Textarea
+              value={settings.legalMentions}
+              onChange={e => setSettings({ ...settings, legalMentions: e.target.value })}
+              rows={2}
+              disabled={!canEditSettings}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Numérotation : {settings.numberPrefix || 'FA'}-{new Date().getFullYear()}-00001, sans rupture, par année.
+            </p>
+            {canEditSettings && (
+              <Button onClick={saveSettings} disabled={saving}>
+                <Save className="h-4 w-4 mr-2" />
+                Enregistrer
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
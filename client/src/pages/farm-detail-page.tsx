@@ -1,5 +1,5 @@
 import { useParams, Link, useLocation } from "wouter";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -20,9 +20,17 @@ import {
   Activity,
   Clock
 } from "lucide-react";
-import { doc, getDoc, deleteDoc, collection, query, where, getDocs } from "firebase/firestore";
+import { doc, getDoc, deleteDoc } from "firebase/firestore";
 import { firestore as db } from "@/lib/firebase";
 import { useToast } from "@/hooks/use-toast";
+import { FarmScorecardCard } from "@/components/suppliers/farm-scorecard-card";
+import {
+  campaignRange,
+  computeFarmStats,
+  farmCampaigns,
+  FarmStatsData,
+  getFarmStatsData,
+} from "@/lib/farmStatsService";
 import {
   ResponsiveContainer,
   BarChart,
@@ -37,7 +45,6 @@ import {
   Cell,
   LineChart,
   Line,
-  AreaChart,
   Area,
   ComposedChart,
   RadialBarChart,
@@ -70,260 +77,17 @@ type Farm = {
   updatedAt: string;
 };
 
-// Define Farm Statistics type
-interface FarmStats {
-  totalLots: number;
-  totalProduction: number; // in kg
-  activeHarvests: number;
-  averageQuality: string;
-  monthlyProduction: Array<{
-    month: string;
-    production: number;
-    lots: number;
-  }>;
-  varietyDistribution: Array<{
-    variety: string;
-    count: number;
-    percentage: number;
-  }>;
-  qualityGrades: Array<{
-    grade: string;
-    count: number;
-    percentage: number;
-  }>;
-  performanceMetrics: {
-    productionEfficiency: number;
-    qualityRate: number;
-    harvestFrequency: number;
-  };
-  seasonalTrends: Array<{
-    season: string;
-    avgProduction: number;
-    avgQuality: number;
-    lotCount: number;
-  }>;
-  productionTrend: Array<{
-    month: string;
-    production: number;
-    efficiency: number;
-    quality: number;
-  }>;
-  dailyHarvestPattern: Array<{
-    hour: number;
-    harvests: number;
-  }>;
-}
-
 export default function FarmDetailPage() {
   const { id } = useParams();
   const { toast } = useToast();
   const [farm, setFarm] = useState<Farm | null>(null);
-  const [farmStats, setFarmStats] = useState<FarmStats | null>(null);
+  const [statsData, setStatsData] = useState<FarmStatsData | null>(null);
+  const [campaign, setCampaign] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [statsLoading, setStatsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [, setLocation] = useLocation();
 
-  // Fetch farm statistics from lots collection
-  const fetchFarmStats = async (farmId: string, farmName: string): Promise<FarmStats> => {
-    try {
-      // Query lots that belong to this farm
-      const lotsQuery = query(
-        collection(db, "lots"),
-        where("harvest.farmLocation", "==", farmId)
-      );
-      
-      // Also try with farm name as fallback
-      const lotsQuery2 = query(
-        collection(db, "lots"),
-        where("selectedFarm", "==", farmId)
-      );
-
-      const [lotsSnapshot, lotsSnapshot2] = await Promise.all([
-        getDocs(lotsQuery),
-        getDocs(lotsQuery2)
-      ]);
-
-      // Combine results and remove duplicates
-      const allLots = new Map();
-      [...lotsSnapshot.docs, ...lotsSnapshot2.docs].forEach(doc => {
-        allLots.set(doc.id, { id: doc.id, ...doc.data() });
-      });
-
-      const lots = Array.from(allLots.values());
-
-      // Calculate statistics
-      const totalLots = lots.length;
-      const activeHarvests = lots.filter(lot => lot.status === 'in-progress' || lot.status === 'draft').length;
-      
-      // Calculate total production (sum of avocado counts)
-      const totalProduction = lots.reduce((sum, lot) => {
-        const avocadoCount = lot.packaging?.avocadoCount || lot.avocadoCount || 0;
-        return sum + avocadoCount;
-      }, 0);
-
-      // Calculate average quality
-      const qualityGrades = lots.filter(lot => lot.sorting?.qualityGrade).map(lot => lot.sorting.qualityGrade);
-      const gradeValues = { 'A': 3, 'B': 2, 'C': 1 };
-      const avgQualityNum = qualityGrades.length > 0 
-        ? qualityGrades.reduce((sum, grade) => sum + (gradeValues[grade] || 0), 0) / qualityGrades.length
-        : 0;
-      const averageQuality = avgQualityNum >= 2.5 ? 'A' : avgQualityNum >= 1.5 ? 'B' : 'C';
-
-      // Monthly production analysis
-      const monthlyData = {};
-      lots.forEach(lot => {
-        if (lot.harvest?.harvestDate) {
-          const date = new Date(lot.harvest.harvestDate);
-          const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-          
-          if (!monthlyData[monthKey]) {
-            monthlyData[monthKey] = { production: 0, lots: 0 };
-          }
-          
-          monthlyData[monthKey].production += lot.packaging?.avocadoCount || lot.avocadoCount || 0;
-          monthlyData[monthKey].lots += 1;
-        }
-      });
-
-      const monthlyProduction = Object.entries(monthlyData)
-        .sort(([a], [b]) => a.localeCompare(b))
-        .slice(-12) // Last 12 months
-        .map(([month, data]: [string, any]) => ({
-          month: new Date(month + '-01').toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' }),
-          production: data.production,
-          lots: data.lots
-        }));
-
-      // Variety distribution
-      const varietyCount = {};
-      lots.forEach(lot => {
-        const variety = lot.harvest?.variety || 'Unknown';
-        varietyCount[variety] = (varietyCount[variety] || 0) + 1;
-      });
-
-      const varietyDistribution = Object.entries(varietyCount).map(([variety, count]: [string, number]) => ({
-        variety: variety.charAt(0).toUpperCase() + variety.slice(1),
-        count,
-        percentage: Math.round((count / totalLots) * 100)
-      }));
-
-      // Quality grades distribution
-      const qualityCount = {};
-      lots.forEach(lot => {
-        const grade = lot.sorting?.qualityGrade || 'Unknown';
-        qualityCount[grade] = (qualityCount[grade] || 0) + 1;
-      });
-
-      const qualityGradesData = Object.entries(qualityCount).map(([grade, count]: [string, number]) => ({
-        grade,
-        count,
-        percentage: Math.round((count / totalLots) * 100)
-      }));
-
-      // Performance metrics
-      const completedLots = lots.filter(lot => lot.status === 'completed').length;
-      const highQualityLots = lots.filter(lot => lot.sorting?.qualityGrade === 'A').length;
-      
-      const performanceMetrics = {
-        productionEfficiency: totalLots > 0 ? Math.round((completedLots / totalLots) * 100) : 0,
-        qualityRate: totalLots > 0 ? Math.round((highQualityLots / totalLots) * 100) : 0,
-        harvestFrequency: monthlyProduction.length > 0 
-          ? Math.round(monthlyProduction.reduce((sum, month) => sum + month.lots, 0) / monthlyProduction.length)
-          : 0
-      };
-
-      // Seasonal trends analysis
-      const seasonalData = {};
-      lots.forEach(lot => {
-        if (lot.harvest?.harvestDate) {
-          const date = new Date(lot.harvest.harvestDate);
-          const month = date.getMonth();
-          const season = month >= 2 && month <= 4 ? 'Printemps' : 
-                        month >= 5 && month <= 7 ? 'Été' :
-                        month >= 8 && month <= 10 ? 'Automne' : 'Hiver';
-          
-          if (!seasonalData[season]) {
-            seasonalData[season] = { production: 0, qualitySum: 0, lotCount: 0 };
-          }
-          
-          seasonalData[season].production += lot.packaging?.avocadoCount || lot.avocadoCount || 0;
-          seasonalData[season].qualitySum += gradeValues[lot.sorting?.qualityGrade] || 0;
-          seasonalData[season].lotCount += 1;
-        }
-      });
-
-      const seasonalTrends = Object.entries(seasonalData).map(([season, data]: [string, any]) => ({
-        season,
-        avgProduction: data.lotCount > 0 ? Math.round(data.production / data.lotCount) : 0,
-        avgQuality: data.lotCount > 0 ? Math.round((data.qualitySum / data.lotCount) * 100) / 100 : 0,
-        lotCount: data.lotCount
-      }));
-
-      // Production trend with efficiency and quality
-      const productionTrend = monthlyProduction.map(month => {
-        const monthLots = lots.filter(lot => {
-          if (!lot.harvest?.harvestDate) return false;
-          const date = new Date(lot.harvest.harvestDate);
-          const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-          return monthKey.includes(month.month.split(' ')[1] + '-' + (month.month.split(' ')[0] === 'jan' ? '01' : 
-                                                                      month.month.split(' ')[0] === 'fév' ? '02' :
-                                                                      month.month.split(' ')[0] === 'mar' ? '03' :
-                                                                      month.month.split(' ')[0] === 'avr' ? '04' :
-                                                                      month.month.split(' ')[0] === 'mai' ? '05' :
-                                                                      month.month.split(' ')[0] === 'jui' ? '06' :
-                                                                      month.month.split(' ')[0] === 'jul' ? '07' :
-                                                                      month.month.split(' ')[0] === 'aoû' ? '08' :
-                                                                      month.month.split(' ')[0] === 'sep' ? '09' :
-                                                                      month.month.split(' ')[0] === 'oct' ? '10' :
-                                                                      month.month.split(' ')[0] === 'nov' ? '11' : '12'));
-        });
-        
-        const completedInMonth = monthLots.filter(lot => lot.status === 'completed').length;
-        const highQualityInMonth = monthLots.filter(lot => lot.sorting?.qualityGrade === 'A').length;
-        
-        return {
-          month: month.month,
-          production: month.production,
-          efficiency: month.lots > 0 ? Math.round((completedInMonth / month.lots) * 100) : 0,
-          quality: month.lots > 0 ? Math.round((highQualityInMonth / month.lots) * 100) : 0
-        };
-      });
-
-      // Daily harvest pattern (simulate based on harvest dates)
-      const hourlyData = {};
-      lots.forEach(lot => {
-        if (lot.harvest?.harvestDate) {
-          const date = new Date(lot.harvest.harvestDate);
-          const hour = date.getHours();
-          hourlyData[hour] = (hourlyData[hour] || 0) + 1;
-        }
-      });
-
-      const dailyHarvestPattern = Array.from({ length: 24 }, (_, hour) => ({
-        hour,
-        harvests: hourlyData[hour] || 0
-      }));
-
-      return {
-        totalLots,
-        totalProduction,
-        activeHarvests,
-        averageQuality,
-        monthlyProduction,
-        varietyDistribution,
-        qualityGrades: qualityGradesData,
-        performanceMetrics,
-        seasonalTrends,
-        productionTrend,
-        dailyHarvestPattern
-      };
-    } catch (error) {
-      console.error('Error fetching farm statistics:', error);
-      throw error;
-    }
-  };
-
   useEffect(() => {
     const fetchFarm = async () => {
       if (!id) return;
@@ -350,8 +114,9 @@ export default function FarmDetailPage() {
           // Fetch statistics
           setStatsLoading(true);
           try {
-            const stats = await fetchFarmStats(farmData.id, farmData.name);
-            setFarmStats(stats);
+            const data = await getFarmStatsData(farmData);
+            setStatsData(data);
+            setCampaign(farmCampaigns(data.records, data.controls, data.deliveries)[0] ?? '');
           } catch (statsError) {
             console.error('Failed to load farm statistics:', statsError);
             // Continue without statistics
@@ -372,6 +137,20 @@ export default function FarmDetailPage() {
     fetchFarm();
   }, [id]);
 
+  const campaigns = useMemo(
+    () => (statsData ? farmCampaigns(statsData.records, statsData.controls, statsData.deliveries) : []),
+    [statsData]
+  );
+  const farmStats = useMemo(
+    () => statsData && campaign !== null
+      ? computeFarmStats(statsData.records, statsData.controls, statsData.deliveries, campaignRange(campaign))
+      : null,
+    [statsData, campaign]
+  );
+  const hasStats = !!farmStats && (farmStats.totalLots > 0 || farmStats.deliveries > 0);
+  const monthLabel = (month: string) =>
+    new Date(`${month}-01`).toLocaleDateString('fr-FR', { month: 'short', year: '2-digit' });
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('fr-FR', {
       year: 'numeric',
@@ -539,12 +318,24 @@ export default function FarmDetailPage() {
           </CardContent>
         </Card>
 
+        <FarmScorecardCard farm={farm} />
+
         {/* Statistiques de production */}
         <Card className="md:col-span-2">
           <CardHeader>
             <CardTitle className="text-lg flex items-center">
               <Package className="h-5 w-5 mr-2" />
               Statistiques de production
+              {campaigns.length > 0 && (
+                <select
+                  value={campaign ?? ''}
+                  onChange={(e) => setCampaign(e.target.value)}
+                  className="ml-auto h-9 px-3 border rounded-md bg-background text-sm font-normal"
+                >
+                  {campaigns.map(c => <option key={c} value={c}>Campagne {c}</option>)}
+                  <option value="">Toutes les campagnes</option>
+                </select>
+              )}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -553,7 +344,7 @@ export default function FarmDetailPage() {
                 <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-green-500"></div>
                 <span className="ml-2 text-neutral-500">Chargement des statistiques...</span>
               </div>
-            ) : farmStats ? (
+            ) : hasStats && farmStats ? (
               <div className="space-y-6">
                 {/* Enhanced Key Metrics */}
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
@@ -563,8 +354,8 @@ export default function FarmDetailPage() {
                     </div>
                     <div className="space-y-1">
                       <div className="text-2xl font-bold text-green-700">{farmStats.totalLots.toLocaleString()}</div>
-                      <div className="text-sm font-medium text-green-600">Lots totaux</div>
-                      <div className="text-xs text-green-500">Depuis le début</div>
+                      <div className="text-sm font-medium text-green-600">Lots récoltés</div>
+                      <div className="text-xs text-green-500">{campaign ? `Campagne ${campaign}` : 'Toutes campagnes'}</div>
                     </div>
                   </div>
                   
@@ -573,9 +364,9 @@ export default function FarmDetailPage() {
                       <TrendingUp className="h-6 w-6 text-blue-300" />
                     </div>
                     <div className="space-y-1">
-                      <div className="text-2xl font-bold text-blue-700">{farmStats.totalProduction.toLocaleString()}</div>
-                      <div className="text-sm font-medium text-blue-600">Avocats produits</div>
-                      <div className="text-xs text-blue-500">Production totale</div>
+                      <div className="text-2xl font-bold text-blue-700">{farmStats.totalProduction.toLocaleString('fr-FR')} kg</div>
+                      <div className="text-sm font-medium text-blue-600">Poids reçu à l'usine</div>
+                      <div className="text-xs text-blue-500">{farmStats.deliveries} livraison(s) pesée(s)</div>
                     </div>
                   </div>
                   
@@ -595,9 +386,13 @@ export default function FarmDetailPage() {
                       <BarChart3 className="h-6 w-6 text-purple-300" />
                     </div>
                     <div className="space-y-1">
-                      <div className="text-2xl font-bold text-purple-700">Grade {farmStats.averageQuality}</div>
+                      <div className="text-2xl font-bold text-purple-700">
+                        {farmStats.averageQuality === '-' ? '-' : `Grade ${farmStats.averageQuality}`}
+                      </div>
                       <div className="text-sm font-medium text-purple-600">Qualité moyenne</div>
-                      <div className="text-xs text-purple-500">Performance globale</div>
+                      <div className="text-xs text-purple-500">
+                        Défauts réception {farmStats.performanceMetrics.averageDefects === null ? '-' : `${farmStats.performanceMetrics.averageDefects}%`}
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -620,9 +415,9 @@ export default function FarmDetailPage() {
                             </linearGradient>
                           </defs>
                           <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                          <XAxis dataKey="month" />
-                          <YAxis yAxisId="left" />
-                          <YAxis yAxisId="right" orientation="right" />
+                          <XAxis dataKey="month" tickFormatter={monthLabel} />
+                          <YAxis yAxisId="left" unit=" kg" width={80} />
+                          <YAxis yAxisId="right" orientation="right" unit="%" />
                           <Tooltip 
                             contentStyle={{ 
                               backgroundColor: 'white', 
@@ -630,10 +425,10 @@ export default function FarmDetailPage() {
                               borderRadius: '8px',
                               boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
                             }}
+                            labelFormatter={monthLabel}
                             formatter={(value, name) => [
-                              name === 'production' ? `${value} avocats` : `${value}%`,
-                              name === 'production' ? 'Production' : 
-                              name === 'efficiency' ? 'Efficacité' : 'Qualité'
+                              name === 'Poids reçu' ? `${Number(value).toLocaleString('fr-FR')} kg` : `${value}%`,
+                              name
                             ]}
                           />
                           <Legend />
@@ -644,25 +439,27 @@ export default function FarmDetailPage() {
                             fill="url(#productionGradient)" 
                             stroke="#10b981"
                             strokeWidth={3}
-                            name="Production"
+                            name="Poids reçu"
                           />
                           <Line 
                             yAxisId="right"
                             type="monotone" 
-                            dataKey="efficiency" 
+                            dataKey="defects" 
                             stroke="#3b82f6" 
                             strokeWidth={2}
                             dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
-                            name="Efficacité (%)"
+                            connectNulls
+                            name="Défauts moyens"
                           />
                           <Line 
                             yAxisId="right"
                             type="monotone" 
-                            dataKey="quality" 
+                            dataKey="rejection" 
                             stroke="#f59e0b" 
                             strokeWidth={2}
                             dot={{ fill: '#f59e0b', strokeWidth: 2, r: 4 }}
-                            name="Qualité (%)"
+                            connectNulls
+                            name="Livraisons refusées"
                           />
                         </ComposedChart>
                       </ResponsiveContainer>
@@ -686,7 +483,7 @@ export default function FarmDetailPage() {
                               fill="#8884d8"
                             />
                             <Tooltip 
-                              formatter={(value, name) => [`${value} avocats/lot`, 'Production moyenne']}
+                              formatter={(value) => [`${Number(value).toLocaleString('fr-FR')} kg/livraison`, 'Poids moyen']}
                               contentStyle={{ 
                                 backgroundColor: 'white', 
                                 border: '1px solid #e5e7eb', 
@@ -731,7 +528,7 @@ export default function FarmDetailPage() {
                               ))}
                             </Pie>
                             <Tooltip 
-                              formatter={(value) => [`${value} lots`, 'Nombre']}
+                              formatter={(value) => [`${value} lot(s)`, 'Nombre']}
                               contentStyle={{ 
                                 backgroundColor: 'white', 
                                 border: '1px solid #e5e7eb', 
@@ -744,44 +541,30 @@ export default function FarmDetailPage() {
                     </div>
                   </div>
 
-                  {/* Daily Harvest Pattern */}
+                  {/* Monthly deliveries */}
                   <div className="space-y-2">
                     <h4 className="font-semibold flex items-center">
                       <Clock className="h-4 w-4 mr-2" />
-                      Modèle de récolte quotidien
+                      Livraisons et lots par mois
                     </h4>
                     <div className="h-64">
                       <ResponsiveContainer width="100%" height="100%">
-                        <AreaChart data={farmStats.dailyHarvestPattern}>
-                          <defs>
-                            <linearGradient id="harvestGradient" x1="0" y1="0" x2="0" y2="1">
-                              <stop offset="5%" stopColor="#8b5cf6" stopOpacity={0.8}/>
-                              <stop offset="95%" stopColor="#8b5cf6" stopOpacity={0.1}/>
-                            </linearGradient>
-                          </defs>
+                        <BarChart data={farmStats.monthlyProduction}>
                           <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-                          <XAxis 
-                            dataKey="hour" 
-                            tickFormatter={(hour) => `${hour}h`}
-                          />
-                          <YAxis />
+                          <XAxis dataKey="month" tickFormatter={monthLabel} />
+                          <YAxis allowDecimals={false} />
                           <Tooltip 
-                            labelFormatter={(hour) => `${hour}h00`}
-                            formatter={(value) => [`${value} récoltes`, 'Nombre']}
+                            labelFormatter={monthLabel}
                             contentStyle={{ 
                               backgroundColor: 'white', 
                               border: '1px solid #e5e7eb', 
                               borderRadius: '8px'
                             }}
                           />
-                          <Area
-                            type="monotone"
-                            dataKey="harvests"
-                            stroke="#8b5cf6"
-                            strokeWidth={2}
-                            fill="url(#harvestGradient)"
-                          />
-                        </AreaChart>
+                          <Legend />
+                          <Bar dataKey="deliveries" name="Livraisons" fill="#8b5cf6" />
+                          <Bar dataKey="lots" name="Lots récoltés" fill="#10b981" />
+                        </BarChart>
                       </ResponsiveContainer>
                     </div>
                   </div>
@@ -818,17 +601,22 @@ export default function FarmDetailPage() {
                         <div className="p-2 bg-blue-100 rounded-lg">
                           <BarChart3 className="h-6 w-6 text-blue-600" />
                         </div>
-                        <span className="text-2xl font-bold text-blue-600">{farmStats.performanceMetrics.qualityRate}%</span>
+                        <span className="text-2xl font-bold text-blue-600">
+                          {farmStats.performanceMetrics.acceptanceRate === null ? '-' : `${farmStats.performanceMetrics.acceptanceRate}%`}
+                        </span>
                       </div>
                       <div className="space-y-2">
-                        <span className="text-sm font-medium text-blue-700">Taux de qualité A</span>
+                        <span className="text-sm font-medium text-blue-700">Livraisons acceptées</span>
                         <div className="w-full bg-blue-200 rounded-full h-3">
                           <div 
                             className="bg-gradient-to-r from-blue-400 to-blue-600 h-3 rounded-full transition-all duration-500 ease-in-out" 
-                            style={{ width: `${farmStats.performanceMetrics.qualityRate}%` }}
+                            style={{ width: `${farmStats.performanceMetrics.acceptanceRate ?? 0}%` }}
                           ></div>
                         </div>
-                        <p className="text-xs text-blue-600">Pourcentage de lots grade A</p>
+                        <p className="text-xs text-blue-600">
+                          Contrôles réception · écart de pesée{' '}
+                          {farmStats.performanceMetrics.weightEcartPct === null ? '-' : `${farmStats.performanceMetrics.weightEcartPct}%`}
+                        </p>
                       </div>
                     </div>
                     
@@ -847,7 +635,7 @@ export default function FarmDetailPage() {
                             style={{ width: `${Math.min(farmStats.performanceMetrics.harvestFrequency * 10, 100)}%` }}
                           ></div>
                         </div>
-                        <p className="text-xs text-purple-600">Lots par mois en moyenne</p>
+                        <p className="text-xs text-purple-600">Livraisons par mois de livraison</p>
                       </div>
                     </div>
                   </div>
@@ -928,9 +716,11 @@ export default function FarmDetailPage() {
                               <div className="text-2xl mb-2">{colors.icon}</div>
                               <div className={`text-lg font-bold ${colors.text}`}>{season.season}</div>
                               <div className="space-y-1 mt-3">
-                                <div className={`text-sm ${colors.text} opacity-75`}>Production moyenne</div>
-                                <div className={`text-xl font-bold ${colors.text}`}>{season.avgProduction}</div>
-                                <div className={`text-xs ${colors.text} opacity-75`}>{season.lotCount} lots</div>
+                                <div className={`text-sm ${colors.text} opacity-75`}>Poids moyen par livraison</div>
+                                <div className={`text-xl font-bold ${colors.text}`}>{season.avgProduction.toLocaleString('fr-FR')} kg</div>
+                                <div className={`text-xs ${colors.text} opacity-75`}>
+                                  {season.lotCount} livraison(s) · défauts {season.avgQuality === null ? '-' : `${season.avgQuality}%`}
+                                </div>
                               </div>
                             </div>
                           </div>
@@ -943,8 +733,11 @@ export default function FarmDetailPage() {
             ) : (
               <div className="text-center text-neutral-500 py-8">
                 <Package className="h-12 w-12 mx-auto mb-4 text-neutral-300" />
-                <p>Aucune donnée de production disponible.</p>
-                <p className="text-sm">Les statistiques apparaîtront une fois que des lots seront créés pour cette ferme.</p>
+                <p>Aucune donnée de production disponible{campaign ? ` pour la campagne ${campaign}` : ''}.</p>
+                <p className="text-sm">
+                  Les statistiques reprennent les lots de récolte de cette ferme, les fiches de réception
+                  et les contrôles réception dont le producteur est « {farm.name} »{farm.code ? ` ou « ${farm.code} »` : ''}.
+                </p>
               </div>
             )}
           </CardContent>
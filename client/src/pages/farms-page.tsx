@@ -42,6 +42,13 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Plus, MapPin, Edit2, Trash2, Eye } from "lucide-react";
 import { useLocation } from "wouter";
+import {
+  buildSupplierScorecards,
+  findFarmScorecard,
+  getSupplierScorecardData,
+  supplierCampaigns,
+  SupplierScorecard,
+} from "@/lib/supplierScorecardService";
 
 // Using shared Firebase instance from lib/firebase.ts
 // No need to initialize Firebase again here
@@ -68,6 +75,7 @@ const FarmsPage = () => {
   const [selectedFarm, setSelectedFarm] = useState<Farm | null>(null);
   const [farms, setFarms] = useState<Farm[]>([]);
   const [loading, setLoading] = useState(true);
+  const [scorecards, setScorecards] = useState<SupplierScorecard[]>([]);
 
   // Add farm form
   const addFarmForm = useForm<z.infer<typeof farmSchema>>({
@@ -96,8 +104,25 @@ const FarmsPage = () => {
   // Fetch farms from Firebase on component mount
   useEffect(() => {
     fetchFarms();
+    getSupplierScorecardData()
+      .then(data => setScorecards(buildSupplierScorecards(data.controls, data.deliveries, supplierCampaigns(data.controls)[0] || '')))
+      .catch(error => console.warn('Fiches fournisseurs indisponibles:', error));
   }, []);
 
+  // Link to the farm's supplier scorecard, when it delivered this campaign
+  const renderScoreLink = (farm: Farm) => {
+    const card = findFarmScorecard(farm, scorecards);
+    if (!card) return null;
+    return (
+      <button
+        className="text-xs text-blue-600 hover:underline"
+        onClick={() => setLocation(`/fiches-fournisseurs?fournisseur=${encodeURIComponent(card.supplier)}`)}
+      >
+        Score fournisseur {card.score}/100
+      </button>
+    );
+  };
+
   const fetchFarms = async () => {
     try {
       setLoading(true);
@@ -333,6 +358,7 @@ const FarmsPage = () => {
                   <p className="text-neutral-600">{farm.description}</p>
                   <div className="mt-4 flex items-center justify-between">
                     <span className="text-sm font-mono text-neutral-500">{farm.code}</span>
+                    {renderScoreLink(farm)}
                     <span className={`px-2 py-1 text-xs rounded-full ${farm.active
                         ? "bg-green-100 text-green-800"
                         : "bg-red-100 text-red-800"
@@ -3,11 +3,29 @@ import { format } from 'date-fns';
 import { fr } from 'date-fns/locale/fr';
 import jsPDF from 'jspdf';
 import 'jspdf-autotable';
-import { FilePlus, Printer, RefreshCw, Check, Save, ExternalLink } from 'lucide-react';
+import { FilePlus, Printer, RefreshCw, Check, Save, ExternalLink, ScanLine, Camera } from 'lucide-react';
 import { addItemToBox } from '../../lib/firebaseService';
-import { collection, getDocs, query, where, addDoc, updateDoc, doc as firestoreDoc, serverTimestamp } from 'firebase/firestore';
+import { collection, getDocs, query, where, doc as firestoreDoc, serverTimestamp } from 'firebase/firestore';
 import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
 import { firestore, auth, storage } from '@/lib/firebase';
+import { saveExpedition as saveExpeditionDoc } from '@/lib/expeditionService';
+import { auditedUpdate } from '@/lib/auditTrailService';
+import { RecordHistoryDrawer } from '@/components/audit/record-history-drawer';
+import { ClientSelect } from '@/components/orders/client-select';
+import { clientAddress } from '@/lib/clientService';
+import BarcodeScanner from '@/components/scan/barcode-scanner';
+import { expeditionRowFromPallet, getPallet, parseSsccScan } from '@/lib/palletRegistryService';
+import { parseDigitalLink } from '@/lib/digitalLinkService';
+import { getExpeditionTemperatureReadings, getTemperatureRanges, resolveTemperatureRange } from '@/lib/temperatureService';
+import { drawTemperatureChart } from '@/lib/temperatureChartPDF';
+import {
+  DomainValidationError,
+  ExpeditionFormData,
+  expeditionFormSchema,
+  ExpeditionHeader,
+  ExpeditionRow,
+  parseDomain
+} from '@shared/domain';
 import { v4 as uuidv4 } from 'uuid';
 
 // Add logo import
@@ -25,43 +43,6 @@ const getBase64Image = async (url: string): Promise<string> => {
   });
 };
 
-// Define row type
-interface ExpeditionRow {
-  palletNo: number;
-  nbrColis: string;
-  produitVariete: string;
-  calibre: string;
-  temperatureProduit: string;
-  etatPalette: string;
-  conformiteEtiquettes: string;
-  dessiccation: string;
-}
-
-// Add new form data interface
-interface HeaderData {
-  date: string;
-  heure: string;
-  transporteur: string;
-  matricule: string;
-  tempCamion: string;
-  hygiene: 'Bon' | 'Mauvais' | '';
-  odeur: 'Bon' | 'Mauvais' | '';
-  destination: string;
-  thermokingEtat: 'Bon' | 'Mauvais' | '';
-}
-
-// Add expedition form data interface for saving
-interface ExpeditionFormData {
-  id?: string;
-  name: string;
-  date: string;
-  headerData: HeaderData;
-  rows: ExpeditionRow[];
-  createdAt?: string;
-  updatedAt?: string;
-  pdfURL?: string; // Add PDF URL field
-}
-
 // Product varieties options
 const productVarieties = ['Hass', 'Fuerte', 'Pinkerton', 'Reed', 'Zutano', 'Bacon', 'Gwen', 'Lamb Hass'];
 
@@ -75,6 +56,7 @@ const createEmptyRow = (index: number): ExpeditionRow => ({
   nbrColis: '',
   produitVariete: '',
   calibre: '',
+  numeroLotInterne: '',
   temperatureProduit: '',
   etatPalette: '',
   conformiteEtiquettes: '',
@@ -93,7 +75,9 @@ export default function FichedExpidition() {
   const [expeditionDate, setExpeditionDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [clientName, setClientName] = useState('');
   const [expeditionId, setExpeditionId] = useState<string | null>(null);
-  const [headerData, setHeaderData] = useState<HeaderData>({
+  const [scanInput, setScanInput] = useState('');
+  const [showCamera, setShowCamera] = useState(false);
+  const [headerData, setHeaderData] = useState<ExpeditionHeader>({
     date: format(new Date(), 'yyyy-MM-dd'),
     heure: format(new Date(), 'HH:mm'),
     transporteur: '',
@@ -102,6 +86,7 @@ export default function FichedExpidition() {
     hygiene: '',
     odeur: '',
     destination: '',
+    commandeClient: '',
     thermokingEtat: ''
   });
 
@@ -169,7 +154,7 @@ export default function FichedExpidition() {
         const querySnapshot = await getDocs(q);
         
         if (!querySnapshot.empty) {
-          const expeditionData = querySnapshot.docs[0].data() as ExpeditionFormData;
+          const expeditionData = parseDomain(expeditionFormSchema, querySnapshot.docs[0].data(), `expeditions/${id}`);
           console.log('Found expedition in Firestore:', expeditionData);
           setExpeditionId(id);
           setHeaderData(expeditionData.headerData);
@@ -288,8 +273,53 @@ export default function FichedExpidition() {
     setRows(updatedRows);
   };
 
+  // A scanned SSCC label fills the first empty row with the pallet content
+  const handleScan = async (text: string) => {
+    setScanInput('');
+    setShowCamera(false);
+    // GS1-128 barcode, or the Digital Link QR of the label read by a 2D scanner
+    const sscc = parseSsccScan(text) ?? parseDigitalLink(text)?.sscc ?? null;
+    if (!sscc) {
+      alert(`Code non reconnu comme SSCC: ${text}`);
+      return;
+    }
+    if (rows.some(row => row.sscc === sscc)) {
+      alert(`La palette ${sscc} est déjà sur cette fiche.`);
+      return;
+    }
+
+    try {
+      const pallet = await getPallet(sscc);
+      if (!pallet) {
+        alert(`Palette ${sscc} introuvable dans le registre.`);
+        return;
+      }
+      if (pallet.status === 'annulee') {
+        alert(`L'étiquette ${sscc} a été annulée.`);
+        return;
+      }
+      if (pallet.status === 'expediee' && pallet.expeditionId !== expeditionId
+        && !window.confirm(`La palette ${sscc} est déjà expédiée (${pallet.expeditionName || pallet.expeditionId}). L'ajouter quand même ?`)) {
+        return;
+      }
+
+      setRows(current => {
+        const isEmpty = (row: ExpeditionRow) => !row.sscc && !row.nbrColis && !row.calibre && !row.numeroLotInterne;
+        const index = current.findIndex(isEmpty);
+        const target = index >= 0 ? index : current.length;
+        const base = index >= 0 ? current[index] : createEmptyRow(current.length);
+        const updated = [...current];
+        updated[target] = { ...base, ...expeditionRowFromPallet(pallet, base.palletNo) };
+        return updated;
+      });
+    } catch (error) {
+      console.error('Error reading pallet:', error);
+      alert('Erreur lors de la lecture de la palette.');
+    }
+  };
+
   // Add header data change handler
-  const handleHeaderChange = (field: keyof HeaderData, value: string) => {
+  const handleHeaderChange = (field: keyof ExpeditionHeader, value: string) => {
     setHeaderData(prev => ({
       ...prev,
       [field]: value
@@ -595,8 +625,32 @@ export default function FichedExpidition() {
         }
       });
       
+      // Cold-chain curve of the truck and the shipped pallets (needs the fiche to be saved)
+      let chartBottom = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+      if (expeditionId) {
+        try {
+          const expedition = { id: expeditionId, name: '', date: headerData.date, headerData, rows };
+          const [readings, ranges] = await Promise.all([getExpeditionTemperatureReadings(expedition), getTemperatureRanges()]);
+          if (readings.length > 0) {
+            if (chartBottom + 75 > doc.internal.pageSize.getHeight()) {
+              doc.addPage();
+              chartBottom = 10;
+            }
+            const range = resolveTemperatureRange(ranges, rows.find(row => row.produitVariete)?.produitVariete);
+            doc.setFont("helvetica", "bold");
+            doc.setFontSize(9);
+            doc.setTextColor(darkGreen[0], darkGreen[1], darkGreen[2]);
+            doc.text(`Suivi des températures (plage ${range.min} - ${range.max}°C)`, 10, chartBottom + 8);
+            doc.setFont("helvetica", "normal");
+            chartBottom = drawTemperatureChart(doc, readings, range, { x: 10, y: chartBottom + 11, width: pageWidth - 20, height: 40 });
+          }
+        } catch (temperatureError) {
+          console.warn('Courbe de température non disponible:', temperatureError);
+        }
+      }
+
       // Add simple signature section
-      const finalY = (doc as any).lastAutoTable.finalY + 20;
+      const finalY = chartBottom + 20;
       
       // Left signature
       doc.setFont("helvetica", "bold");
@@ -657,7 +711,7 @@ export default function FichedExpidition() {
             
             if (!querySnapshot.empty) {
               const docId = querySnapshot.docs[0].id;
-              await updateDoc(firestoreDoc(firestore, 'expeditions', docId), {
+              await auditedUpdate(firestoreDoc(firestore, 'expeditions', docId), {
                 pdfURL: localPdfUrl,  // Store reference to local PDF
                 updatedAt: serverTimestamp()
               });
@@ -734,7 +788,7 @@ export default function FichedExpidition() {
       console.log('Using expedition ID for save:', newExpeditionId);
 
       // Prepare the expedition data object
-      const expeditionData: ExpeditionFormData = {
+      const expeditionData = parseDomain(expeditionFormSchema, {
         id: newExpeditionId,
         name: `Expedition_${headerData.transporteur}_${format(new Date(headerData.date), 'yyyy-MM-dd')}`,
         date: headerData.date,
@@ -743,7 +797,7 @@ export default function FichedExpidition() {
         pdfURL: "", // Will be updated after PDF generation if needed
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString()
-      };
+      }, 'expeditions');
 
       // Save to localStorage first for immediate persistence
       const savedExpeditions = localStorage.getItem('savedExpeditions');
@@ -798,36 +852,21 @@ export default function FichedExpidition() {
       localStorage.setItem('archiveBoxes', JSON.stringify(archiveBoxes));
 
       // Try to save to Firestore with fallback for unauthenticated users
+      let queuedOffline = false;
       try {
         const currentUserId = auth.currentUser?.uid || 'USER123'; // Use fallback ID if not authenticated
         console.log('🔄 Attempting to save to Firebase with user ID:', currentUserId);
         
-        // Check if expedition already exists in Firestore
-        const expeditionsRef = collection(firestore, 'expeditions');
-        const q = query(expeditionsRef, where('id', '==', newExpeditionId));
-        const querySnapshot = await getDocs(q);
-        
-        if (!querySnapshot.empty) {
-          // Update existing document
-          const docId = querySnapshot.docs[0].id;
-          console.log('🔄 Updating existing document with ID:', docId);
-          await updateDoc(firestoreDoc(firestore, 'expeditions', docId), {
-            ...expeditionData,
-            userId: currentUserId,
-            updatedAt: serverTimestamp()
-          });
+        const outcome = await saveExpeditionDoc(expeditionData, currentUserId);
+        if (outcome === 'queued') {
+          queuedOffline = true;
+          console.log('⏳ Expedition queued until the connection returns');
+          setSuccessMessageText('⏳ Hors ligne : fiche d\'expédition enregistrée sur l\'appareil, synchronisation automatique au retour du réseau');
+        } else if (outcome === 'updated') {
           console.log('✅ Updated existing expedition in Firestore');
           setSuccessMessageText('✅ Fiche d\'expédition mise à jour dans Firebase et localStorage!');
         } else {
-          // Create new document
-          console.log('🔄 Creating new document in Firebase...');
-          const docRef = await addDoc(expeditionsRef, {
-            ...expeditionData,
-            userId: currentUserId,
-            createdAt: serverTimestamp(),
-            updatedAt: serverTimestamp()
-          });
-          console.log('✅ Created new expedition in Firestore with doc ID:', docRef.id);
+          console.log('✅ Created new expedition in Firestore');
           setSuccessMessageText('✅ Fiche d\'expédition sauvegardée dans Firebase et localStorage!');
         }
         
@@ -854,14 +893,14 @@ export default function FichedExpidition() {
         await generatePDF();
       }
       
-      setSuccessMessageText('Fiche d\'expédition sauvegardée avec succès!');
+      if (!queuedOffline) setSuccessMessageText('Fiche d\'expédition sauvegardée avec succès!');
       setShowSuccessMessage(true);
       setTimeout(() => setShowSuccessMessage(false), 3000);
       
       return newExpeditionId;
     } catch (error) {
       console.error('Error saving expedition:', error);
-      alert("Une erreur s'est produite lors de la sauvegarde.");
+      alert(error instanceof DomainValidationError ? error.message : "Une erreur s'est produite lors de la sauvegarde.");
       return null;
     } finally {
       setIsSaving(false);
@@ -964,6 +1003,23 @@ export default function FichedExpidition() {
                     <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500">°C</span>
                   </div>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Client
+                  </label>
+                  <ClientSelect
+                    value={headerData.clientId}
+                    onSelect={(client) => setHeaderData(({ clientId, ...prev }) => client
+                      ? {
+                        ...prev,
+                        clientId: client.id,
+                        // Default delivery address of the client unless a destination was typed
+                        destination: prev.destination || clientAddress(client)?.label || client.name
+                      }
+                      : prev)}
+                    className="w-full p-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-all"
+                  />
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Destination
@@ -976,6 +1032,18 @@ export default function FichedExpidition() {
                     className="w-full p-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-all"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    N° Commande client
+                  </label>
+                  <input
+                    type="text"
+                    value={headerData.commandeClient || ''}
+                    onChange={(e) => handleHeaderChange('commandeClient', e.target.value)}
+                    placeholder="ex: CMD-2025-001"
+                    className="w-full p-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-all"
+                  />
+                </div>
               </div>
 
               {/* Status Checkboxes - Full Width */}
@@ -1086,6 +1154,9 @@ export default function FichedExpidition() {
                 </>
               )}
             </button>
+
+            {/* Expeditions saved since the document id became the expedition id */}
+            <RecordHistoryDrawer collection="expeditions" docId={expeditionId || undefined} />
             
             <button
               onClick={() => {
@@ -1169,6 +1240,39 @@ export default function FichedExpidition() {
           </div>
         )}
         
+        {/* SSCC label scan: USB scanners type the code followed by Enter */}
+        <div className="mb-4 bg-white rounded-xl shadow-sm border border-gray-200 p-4">
+          <div className="flex items-center gap-3">
+            <ScanLine className="h-5 w-5 text-gray-600" />
+            <input
+              type="text"
+              value={scanInput}
+              onChange={(e) => setScanInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && scanInput.trim()) {
+                  e.preventDefault();
+                  handleScan(scanInput.trim());
+                }
+              }}
+              placeholder="Scanner l'étiquette palette (SSCC)"
+              className="flex-1 p-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-all"
+            />
+            <button
+              type="button"
+              onClick={() => setShowCamera(!showCamera)}
+              className="flex items-center gap-2 bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-all"
+            >
+              <Camera size={18} />
+              {showCamera ? 'Fermer' : 'Caméra'}
+            </button>
+          </div>
+          {showCamera && (
+            <div className="mt-4 max-w-md">
+              <BarcodeScanner onDetected={handleScan} />
+            </div>
+          )}
+        </div>
+
         {/* Enhanced Table Section */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
           <div className="overflow-x-auto">
@@ -1187,6 +1291,9 @@ export default function FichedExpidition() {
                   <th className="px-4 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider border-r">
                     Calibre
                   </th>
+                  <th className="px-4 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider border-r">
+                    N° Lot Interne
+                  </th>
                   <th className="px-4 py-4 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider border-r">
                     Température
                   </th>
@@ -1209,6 +1316,7 @@ export default function FichedExpidition() {
                       }`}>
                     <td className="px-4 py-3 border-r whitespace-nowrap text-sm font-medium text-gray-900">
                       {row.palletNo}
+                      {row.sscc && <div className="font-mono text-xs text-gray-500">{row.sscc}</div>}
                     </td>
                     
                     <td className="px-4 py-3 border-r">
@@ -1231,6 +1339,9 @@ export default function FichedExpidition() {
                         {productVarieties.map((variety) => (
                           <option key={variety} value={variety}>{variety}</option>
                         ))}
+                        {row.produitVariete && !productVarieties.includes(row.produitVariete) && (
+                          <option value={row.produitVariete}>{row.produitVariete}</option>
+                        )}
                       </select>
                     </td>
                     
@@ -1243,6 +1354,15 @@ export default function FichedExpidition() {
                         className="w-full p-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-all"
                       />
                     </td>
+
+                    <td className="px-4 py-3 border-r">
+                      <input
+                        type="text"
+                        value={row.numeroLotInterne || ''}
+                        onChange={(e) => handleChange(rowIndex, 'numeroLotInterne', e.target.value)}
+                        className="w-full p-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-green-500 focus:border-green-500 transition-all"
+                      />
+                    </td>
                     
                     <td className="px-4 py-3 border-r">
                       <div className="relative">
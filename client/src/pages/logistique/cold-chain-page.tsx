@@ -0,0 +1,488 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Check, Pencil, Save, Thermometer, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { TemperatureChart } from "@/components/cold-chain/temperature-chart";
+import {
+  acknowledgeTemperatureAlert,
+  deleteTemperatureRange,
+  getTemperatureAlerts,
+  getTemperatureRanges,
+  getTemperatureReadings,
+  parseTemperatureCsv,
+  recordTemperatureReadings,
+  resolveTemperatureRange,
+  saveTemperatureRange,
+  TEMPERATURE_RANGE_PRESETS,
+  TEMPERATURE_SOURCE_LABELS,
+  TemperatureAlert,
+  TemperatureRange,
+  TemperatureReading,
+  TemperatureSourceType,
+} from "@/lib/temperatureService";
+import { DomainValidationError } from "@shared/domain";
+
+const SOURCE_TYPES = Object.keys(TEMPERATURE_SOURCE_LABELS) as TemperatureSourceType[];
+
+const VARIETIES = ['Hass', 'Fuerte', 'Pinkerton', 'Reed', 'Zutano', 'Bacon', 'Gwen', 'Lamb Hass'];
+
+interface SourceDraft {
+  sourceType: TemperatureSourceType;
+  sourceId: string;
+  lotNumber: string;
+  variety: string;
+}
+
+type RangeDraft = Pick<TemperatureRange, 'variety' | 'min' | 'max' | 'toleranceMinutes'> & { id?: string };
+
+const emptySource = (): SourceDraft => ({ sourceType: 'chambre', sourceId: '', lotNumber: '', variety: 'Hass' });
+const emptyRange = (): RangeDraft => ({ variety: '', min: 4, max: 7, toleranceMinutes: 30 });
+
+const nowLocal = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+const dayAgoLocal = () => format(new Date(Date.now() - 24 * 3600 * 1000), "yyyy-MM-dd'T'HH:mm");
+const formatAt = (at: string) => format(new Date(at), "dd/MM/yyyy HH:mm", { locale: fr });
+
+// Source fields shared by the manual entry and the logger import
+function SourceFields({ value, onChange }: { value: SourceDraft; onChange: (value: SourceDraft) => void }) {
+  return (
+    <>
+      <div>
+        <Label>Source</Label>
+        <select
+          value={value.sourceType}
+          onChange={(e) => onChange({ ...value, sourceType: e.target.value as TemperatureSourceType })}
+          className="w-full h-10 px-3 border rounded-md bg-background"
+        >
+          {SOURCE_TYPES.map(type => <option key={type} value={type}>{TEMPERATURE_SOURCE_LABELS[type]}</option>)}
+        </select>
+      </div>
+      <div>
+        <Label>{value.sourceType === 'camion' ? 'Matricule' : value.sourceType === 'palette' ? 'N° de palette' : 'Chambre'}</Label>
+        <Input value={value.sourceId} onChange={(e) => onChange({ ...value, sourceId: e.target.value })} />
+      </div>
+      <div>
+        <Label>N° de lot (optionnel)</Label>
+        <Input value={value.lotNumber} onChange={(e) => onChange({ ...value, lotNumber: e.target.value })} />
+      </div>
+      <div>
+        <Label>Variété</Label>
+        <select
+          value={value.variety}
+          onChange={(e) => onChange({ ...value, variety: e.target.value })}
+          className="w-full h-10 px-3 border rounded-md bg-background"
+        >
+          <option value="">Mélange / inconnue</option>
+          {VARIETIES.map(variety => <option key={variety} value={variety}>{variety}</option>)}
+        </select>
+      </div>
+    </>
+  );
+}
+
+export default function ColdChainPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  // Ranges decide which excursions alert: a quality chief decision
+  const canEditRanges = can('quality', 'approve');
+
+  const [alerts, setAlerts] = useState<TemperatureAlert[]>([]);
+  const [showAcknowledged, setShowAcknowledged] = useState(false);
+  const [ranges, setRanges] = useState<TemperatureRange[]>(TEMPERATURE_RANGE_PRESETS);
+  const [rangeDraft, setRangeDraft] = useState<RangeDraft>(emptyRange);
+
+  const [manualSource, setManualSource] = useState<SourceDraft>(emptySource);
+  const [manualValue, setManualValue] = useState('');
+  const [manualAt, setManualAt] = useState(nowLocal());
+
+  const [importSource, setImportSource] = useState<SourceDraft>(emptySource);
+  const [importFile, setImportFile] = useState<{ name: string; readings: Array<{ recordedAt: string; value: number }>; errors: string[] } | null>(null);
+
+  const [viewSource, setViewSource] = useState<SourceDraft>(emptySource);
+  const [viewFrom, setViewFrom] = useState(dayAgoLocal());
+  const [viewTo, setViewTo] = useState(nowLocal());
+  const [viewReadings, setViewReadings] = useState<TemperatureReading[] | null>(null);
+
+  const [busy, setBusy] = useState(false);
+
+  const loadAlerts = async () => {
+    try {
+      setAlerts(await getTemperatureAlerts(showAcknowledged ? undefined : 'ouverte'));
+    } catch (error) {
+      console.error('Error loading temperature alerts:', error);
+      toast({ title: "Erreur", description: "Impossible de charger les alertes", variant: "destructive" });
+    }
+  };
+
+  const loadRanges = async () => {
+    try {
+      setRanges(await getTemperatureRanges());
+    } catch (error) {
+      console.error('Error loading temperature ranges:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadAlerts();
+  }, [showAcknowledged]);
+
+  useEffect(() => {
+    loadRanges();
+  }, []);
+
+  const reportSaved = (saved: number, raised: TemperatureAlert[]) => {
+    toast({
+      title: `${saved} relevé(s) enregistré(s)`,
+      description: raised.length > 0 ? `${raised.length} nouvelle(s) alerte(s) de température` : "Aucun écart détecté",
+      variant: raised.length > 0 ? "destructive" : undefined
+    });
+    if (raised.length > 0) loadAlerts();
+  };
+
+  const readingSource = (source: SourceDraft) => ({
+    sourceType: source.sourceType,
+    sourceId: source.sourceId.trim(),
+    ...(source.lotNumber.trim() ? { lotNumber: source.lotNumber.trim() } : {}),
+    ...(source.variety ? { variety: source.variety } : {})
+  });
+
+  const saveManual = async () => {
+    const value = parseFloat(manualValue.replace(',', '.'));
+    if (!manualSource.sourceId.trim() || isNaN(value) || !manualAt) {
+      toast({ title: "Relevé incomplet", description: "Source, température et date sont obligatoires", variant: "destructive" });
+      return;
+    }
+    setBusy(true);
+    try {
+      const { saved, alerts: raised } = await recordTemperatureReadings([{
+        ...readingSource(manualSource),
+        value,
+        recordedAt: new Date(manualAt).toISOString(),
+        origin: 'manuel'
+      }]);
+      setManualValue('');
+      reportSaved(saved, raised);
+    } catch (error) {
+      console.error('Error saving temperature reading:', error);
+      const description = error instanceof DomainValidationError ? error.message : "L'enregistrement du relevé a échoué";
+      toast({ title: "Erreur", description, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const selectFile = async (file?: File) => {
+    if (!file) {
+      setImportFile(null);
+      return;
+    }
+    setImportFile({ name: file.name, ...parseTemperatureCsv(await file.text()) });
+  };
+
+  const runImport = async () => {
+    if (!importFile || importFile.readings.length === 0 || !importSource.sourceId.trim()) return;
+    setBusy(true);
+    try {
+      const source = readingSource(importSource);
+      const { saved, alerts: raised } = await recordTemperatureReadings(importFile.readings.map(reading => ({
+        ...source,
+        ...reading,
+        origin: 'import' as const,
+        importFile: importFile.name
+      })));
+      setImportFile(null);
+      reportSaved(saved, raised);
+    } catch (error) {
+      console.error('Error importing temperature readings:', error);
+      toast({ title: "Erreur", description: "L'import du fichier a échoué", variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const showSeries = async () => {
+    if (!viewSource.sourceId.trim()) return;
+    try {
+      setViewReadings(await getTemperatureReadings(viewSource.sourceType, viewSource.sourceId.trim(), new Date(viewFrom), new Date(viewTo)));
+    } catch (error) {
+      console.error('Error loading temperature readings:', error);
+      toast({ title: "Erreur", description: "Impossible de charger les relevés", variant: "destructive" });
+    }
+  };
+
+  const acknowledge = async (alert: TemperatureAlert) => {
+    const comment = window.prompt('Mesure prise (contrôle du produit, réglage du groupe froid...)');
+    if (comment === null) return;
+    try {
+      await acknowledgeTemperatureAlert(alert, comment);
+      await loadAlerts();
+    } catch (error) {
+      console.error('Error acknowledging temperature alert:', error);
+      toast({ title: "Erreur", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const saveRange = async () => {
+    try {
+      await saveTemperatureRange({ ...rangeDraft, variety: rangeDraft.variety.trim() });
+      toast({ title: "Plage enregistrée", description: rangeDraft.variety || 'Autres variétés' });
+      setRangeDraft(emptyRange());
+      await loadRanges();
+    } catch (error) {
+      console.error('Error saving temperature range:', error);
+      const description = error instanceof DomainValidationError ? error.message : "L'enregistrement de la plage a échoué";
+      toast({ title: "Erreur", description, variant: "destructive" });
+    }
+  };
+
+  const removeRange = async (range: TemperatureRange) => {
+    if (!window.confirm(`Supprimer la plage "${range.variety}" ?`)) return;
+    try {
+      await deleteTemperatureRange(range.id);
+      await loadRanges();
+    } catch (error) {
+      console.error('Error deleting temperature range:', error);
+      toast({ title: "Erreur", description: "La suppression de la plage a échoué", variant: "destructive" });
+    }
+  };
+
+  const viewRange = resolveTemperatureRange(ranges, viewSource.variety);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <Thermometer className="h-6 w-6 text-green-700" />
+        <h1 className="text-2xl font-bold">Chaîne du froid</h1>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-red-600" />
+            Alertes de température
+          </CardTitle>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={showAcknowledged} onChange={(e) => setShowAcknowledged(e.target.checked)} />
+            Afficher les alertes acquittées
+          </label>
+        </CardHeader>
+        <CardContent>
+          {alerts.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucune alerte.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Début</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Écart</TableHead>
+                  <TableHead>Durée</TableHead>
+                  <TableHead>Statut</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map(alert => (
+                  <TableRow key={alert.id}>
+                    <TableCell className="whitespace-nowrap">{formatAt(alert.startAt)}</TableCell>
+                    <TableCell>{TEMPERATURE_SOURCE_LABELS[alert.sourceType]} {alert.sourceId}</TableCell>
+                    <TableCell>{alert.lotNumber || '—'}</TableCell>
+                    <TableCell>
+                      {alert.direction === 'haute' ? 'Max' : 'Min'} {alert.peak}°C
+                      <span className="text-xs text-gray-500"> (plage {alert.min}-{alert.max}°C{alert.variety ? `, ${alert.variety}` : ''})</span>
+                    </TableCell>
+                    <TableCell>{alert.durationMinutes} min / {alert.readingCount} relevé(s)</TableCell>
+                    <TableCell>
+                      {alert.status === 'ouverte' ? (
+                        <Badge variant="destructive">Ouverte</Badge>
+                      ) : (
+                        <div>
+                          <Badge variant="secondary">Acquittée</Badge>
+                          <div className="text-xs text-gray-600 mt-1">{alert.acknowledgedBy} : {alert.comment}</div>
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {alert.status === 'ouverte' && can('logistics', 'write') && (
+                        <Button size="sm" variant="outline" onClick={() => acknowledge(alert)}>
+                          <Check className="h-4 w-4 mr-1" /> Acquitter
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Saisie manuelle</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <SourceFields value={manualSource} onChange={setManualSource} />
+              <div>
+                <Label>Température (°C)</Label>
+                <Input value={manualValue} onChange={(e) => setManualValue(e.target.value)} inputMode="decimal" />
+              </div>
+              <div>
+                <Label>Date et heure</Label>
+                <Input type="datetime-local" value={manualAt} onChange={(e) => setManualAt(e.target.value)} />
+              </div>
+            </div>
+            <Button onClick={saveManual} disabled={busy}>
+              <Save className="h-4 w-4 mr-2" /> Enregistrer le relevé
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Import enregistreur (CSV)</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <SourceFields value={importSource} onChange={setImportSource} />
+            </div>
+            <Input type="file" accept=".csv,.txt" onChange={(e) => selectFile(e.target.files?.[0])} />
+            {importFile && (
+              <div className="text-sm space-y-1">
+                <p>{importFile.readings.length} relevé(s) lus dans {importFile.name}</p>
+                {importFile.readings.length > 0 && (
+                  <p className="text-gray-500">
+                    Du {formatAt(importFile.readings[0].recordedAt)} au {formatAt(importFile.readings[importFile.readings.length - 1].recordedAt)}
+                  </p>
+                )}
+                {importFile.errors.slice(0, 5).map(error => <p key={error} className="text-amber-700">{error}</p>)}
+                {importFile.errors.length > 5 && <p className="text-amber-700">+ {importFile.errors.length - 5} autre(s) ligne(s) ignorée(s)</p>}
+              </div>
+            )}
+            <Button
+              onClick={runImport}
+              disabled={busy || !importFile || importFile.readings.length === 0 || !importSource.sourceId.trim()}
+            >
+              <Upload className="h-4 w-4 mr-2" /> Importer
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Historique d'une source</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+            <SourceFields value={viewSource} onChange={setViewSource} />
+            <div>
+              <Label>Du</Label>
+              <Input type="datetime-local" value={viewFrom} onChange={(e) => setViewFrom(e.target.value)} />
+            </div>
+            <div>
+              <Label>Au</Label>
+              <Input type="datetime-local" value={viewTo} onChange={(e) => setViewTo(e.target.value)} />
+            </div>
+          </div>
+          <Button variant="outline" onClick={showSeries} disabled={!viewSource.sourceId.trim()}>Afficher</Button>
+          {viewReadings && <TemperatureChart readings={viewReadings} range={viewRange} />}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Plages de température par variété</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {canEditRanges && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+              <div>
+                <Label>Variété</Label>
+                <Input
+                  value={rangeDraft.variety}
+                  placeholder="Vide : autres variétés"
+                  onChange={(e) => setRangeDraft({ ...rangeDraft, variety: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Min (°C)</Label>
+                <Input type="number" step="0.5" value={rangeDraft.min} onChange={(e) => setRangeDraft({ ...rangeDraft, min: Number(e.target.value) })} />
+              </div>
+              <div>
+                <Label>Max (°C)</Label>
+                <Input type="number" step="0.5" value={rangeDraft.max} onChange={(e) => setRangeDraft({ ...rangeDraft, max: Number(e.target.value) })} />
+              </div>
+              <div>
+                <Label>Tolérance (min)</Label>
+                <Input type="number" value={rangeDraft.toleranceMinutes} onChange={(e) => setRangeDraft({ ...rangeDraft, toleranceMinutes: Number(e.target.value) })} />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={saveRange}>
+                  <Save className="h-4 w-4 mr-2" /> {rangeDraft.id ? 'Modifier' : 'Ajouter'}
+                </Button>
+                {rangeDraft.id && <Button variant="outline" onClick={() => setRangeDraft(emptyRange())}>Annuler</Button>}
+              </div>
+            </div>
+          )}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Variété</TableHead>
+                <TableHead>Plage</TableHead>
+                <TableHead>Tolérance</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ranges.map(range => (
+                <TableRow key={range.id}>
+                  <TableCell>
+                    {range.variety || 'Autres variétés'}
+                    {range.preset && <Badge variant="outline" className="ml-2">Défaut</Badge>}
+                  </TableCell>
+                  <TableCell>{range.min} - {range.max}°C</TableCell>
+                  <TableCell>{range.toleranceMinutes} min</TableCell>
+                  <TableCell className="text-right">
+                    {canEditRanges && (
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setRangeDraft({
+                            id: range.preset ? undefined : range.id,
+                            variety: range.variety,
+                            min: range.min,
+                            max: range.max,
+                            toleranceMinutes: range.toleranceMinutes
+                          })}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        {!range.preset && (
+                          <Button size="sm" variant="outline" onClick={() => removeRange(range)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -29,6 +29,9 @@ import {
 } from "lucide-react";
 import { Link } from "wouter";
 import { AvocadoTracking } from "@shared/schema";
+import { LotTemperatureCard } from "@/components/cold-chain/lot-temperature-card";
+import { LotPublicationCard } from "@/components/lot/lot-publication-card";
+import { useAuth } from "@/hooks/use-auth";
 
 // Extended interface for the actual data structure used by Firebase
 interface ExtendedAvocadoTracking extends Omit<AvocadoTracking, 'sorting' | 'packaging' | 'storage' | 'export'> {
@@ -73,6 +76,7 @@ export default function LotDetailPage() {
   const [currentLotNumber, setCurrentLotNumber] = useState<string | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [retryAttempt, setRetryAttempt] = useState(0);
+  const { can } = useAuth();
 
   // Monitor network status
   useEffect(() => {
@@ -536,6 +540,17 @@ export default function LotDetailPage() {
           </Card>
         </div>
 
+        <LotTemperatureCard
+          lotNumber={lotData.harvest.lotNumber}
+          variety={lotData.harvest.variety}
+          storage={{ roomId: lotData.storage?.storageRoomId, from: lotData.storage?.entryDate, to: lotData.storage?.exitDate }}
+          transport={{ vehicleId: lotData.transport?.vehicleId, from: lotData.transport?.departureDateTime, to: lotData.transport?.arrivalDateTime }}
+        />
+
+        {can('admin', 'write') && lotData.id && (
+          <LotPublicationCard lotId={lotData.id} lotNumber={lotData.harvest.lotNumber} />
+        )}
+
         {/* Timeline */}
         <Card>
           <CardHeader>
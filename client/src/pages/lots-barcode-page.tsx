@@ -1,15 +1,27 @@
 import { useRoute } from "wouter";
 import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import Gs1Barcode from "@/components/scan/gs1-barcode";
+import { getSsccSettings } from "@/lib/palletRegistryService";
+import { lotDigitalLink } from "@/lib/digitalLinkService";
 
 export default function LotBarcodePage() {
   const [match, params] = useRoute("/lots/:id/barcode");
-  const [lot, setLot] = useState<any>(null);
-  const lotId = params?.id;
+  const lotId = params?.id ? decodeURIComponent(params.id) : undefined;
+  const [digitalLink, setDigitalLink] = useState<string | null>(null);
+  const [qr, setQr] = useState('');
 
+  // Box QR: GS1 Digital Link of the GTIN of the variety (?variety=) and the lot
   useEffect(() => {
-    // Fetch lot data if needed, or just use the id for barcode
-    // Example: fetch(`/api/lots/${lotId}`)
-    setLot({ id: lotId });
+    if (!lotId) return;
+    const variety = new URLSearchParams(window.location.search).get('variety') || undefined;
+    getSsccSettings()
+      .then(async settings => {
+        const link = lotDigitalLink(settings, lotId, variety);
+        setDigitalLink(link);
+        setQr(link ? await QRCode.toDataURL(link, { margin: 1 }) : '');
+      })
+      .catch(error => console.error('Error building digital link:', error));
   }, [lotId]);
 
   if (!lotId) return <div>Lot ID not found in URL.</div>;
@@ -17,11 +29,25 @@ export default function LotBarcodePage() {
   return (
     <div style={{ padding: 32 }}>
       <h1>Impression du code-barres pour le lot {lotId}</h1>
-      {/* Replace with your barcode component or image */}
-      <div style={{ margin: '32px 0', fontSize: 32, letterSpacing: 8, border: '1px solid #ccc', padding: 16 }}>
-        [Barcode for Lot {lotId}]
+      <div style={{ margin: '32px 0', display: 'flex', gap: 32, alignItems: 'flex-start' }}>
+        <div style={{ border: '1px solid #ccc', padding: 16, textAlign: 'center' }}>
+          <Gs1Barcode data={lotId} gs1={false} height={80} />
+          <div style={{ fontFamily: 'monospace', fontSize: 20, letterSpacing: 4, marginTop: 8 }}>{lotId}</div>
+        </div>
+        {qr ? (
+          <div style={{ border: '1px solid #ccc', padding: 16, textAlign: 'center' }}>
+            <img src={qr} alt={digitalLink || lotId} style={{ width: 160, height: 160 }} />
+            <div style={{ fontFamily: 'monospace', fontSize: 10, marginTop: 8, maxWidth: 220, wordBreak: 'break-all' }}>{digitalLink}</div>
+          </div>
+        ) : (
+          <div style={{ color: '#888', maxWidth: 260 }}>
+            Aucun GTIN configuré pour ce produit : QR Digital Link indisponible (Registre des palettes, Paramètres GS1).
+          </div>
+        )}
+      </div>
+      <div>
+        <button onClick={() => window.print()}>Imprimer</button>
       </div>
-      <button onClick={() => window.print()}>Imprimer</button>
     </div>
   );
 }
@@ -0,0 +1,412 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Building2, Link2, Pencil, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Client, ClientWrite, getClients, linkOrdersToClients, saveClient } from "@/lib/clientService";
+import { getToleranceProfiles, ToleranceProfile } from "@/lib/toleranceProfileService";
+import { DomainValidationError } from "@shared/domain";
+
+type ClientDraft = ClientWrite & { id?: string };
+
+const emptyDraft = (): ClientDraft => ({
+  code: '',
+  name: '',
+  aliases: [],
+  legalName: '',
+  vatNumber: '',
+  country: '',
+  contacts: [],
+  addresses: [],
+  defaultAddressId: undefined,
+  packaging: { boxType: '', boxNetWeightKg: 0, boxGrossWeightKg: 0 },
+  calibrePreferences: [],
+  labelRequirements: [],
+  paymentTerms: { days: 30, endOfMonth: false, method: '', currency: 'EUR' },
+  incoterm: '',
+  toleranceProfileIds: [],
+  notes: '',
+  active: true
+});
+
+// 'Hass, Fuerte' <-> ['Hass', 'Fuerte']
+const toList = (value: string, separator: RegExp = /,/) =>
+  value.split(separator).map(v => v.trim()).filter(Boolean);
+
+const paymentLabel = (client: Client) =>
+  `${client.paymentTerms.days} j${client.paymentTerms.endOfMonth ? ' fin de mois' : ''}${client.paymentTerms.method ? ` · ${client.paymentTerms.method}` : ''}`;
+
+export default function ClientsPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canEdit = can('logistics', 'write');
+  const [clients, setClients] = useState<Client[]>([]);
+  const [profiles, setProfiles] = useState<ToleranceProfile[]>([]);
+  const [draft, setDraft] = useState<ClientDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+
+  const loadClients = async () => {
+    try {
+      setClients(await getClients());
+    } catch (error) {
+      console.error('Error loading clients:', error);
+      toast({ title: "Erreur", description: "Impossible de charger les clients", variant: "destructive" });
+    }
+  };
+
+  useEffect(() => {
+    loadClients();
+    getToleranceProfiles().then(setProfiles).catch(error => console.error('Error loading tolerance profiles:', error));
+  }, []);
+
+  const editClient = (client: Client) => {
+    const { id, createdAt, updatedAt, ...data } = client;
+    setDraft({ ...data, id });
+  };
+
+  const saveDraft = async () => {
+    setSaving(true);
+    try {
+      await saveClient(draft);
+      toast({ title: "Client enregistré", description: draft.name });
+      setDraft(emptyDraft());
+      await loadClients();
+    } catch (error) {
+      console.error('Error saving client:', error);
+      const description = error instanceof DomainValidationError ? error.message : "L'enregistrement du client a échoué";
+      toast({ title: "Erreur", description, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const linkOrders = async () => {
+    setSaving(true);
+    try {
+      const { linked, unmatched } = await linkOrdersToClients(clients);
+      toast({
+        title: `${linked} commande(s) rattachée(s)`,
+        description: unmatched.length > 0 ? `Sans client : ${unmatched.join(', ')}` : 'Toutes les commandes ont un client'
+      });
+    } catch (error) {
+      console.error('Error linking orders to clients:', error);
+      toast({ title: "Erreur", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateContact = (index: number, field: keyof ClientDraft['contacts'][number], value: string) =>
+    setDraft({ ...draft, contacts: draft.contacts.map((c, i) => (i === index ? { ...c, [field]: value } : c)) });
+
+  const updateAddress = (index: number, field: keyof ClientDraft['addresses'][number], value: string) =>
+    setDraft({ ...draft, addresses: draft.addresses.map((a, i) => (i === index ? { ...a, [field]: value } : a)) });
+
+  const toggleProfile = (id: string) =>
+    setDraft({
+      ...draft,
+      toleranceProfileIds: draft.toleranceProfileIds.includes(id)
+        ? draft.toleranceProfileIds.filter(p => p !== id)
+        : [...draft.toleranceProfileIds, id]
+    });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Building2 className="h-6 w-6 text-green-700" />
+          <h1 className="text-2xl font-bold">Clients</h1>
+        </div>
+        {canEdit && (
+          <Button variant="outline" onClick={linkOrders} disabled={saving || clients.length === 0}>
+            <Link2 className="h-4 w-4 mr-2" />
+            Rattacher les commandes
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{draft.id ? `Modifier ${draft.code || draft.name}` : 'Nouveau client'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label>Nom</Label>
+              <Input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div>
+              <Label>Raison sociale</Label>
+              <Input value={draft.legalName || ''} onChange={e => setDraft({ ...draft, legalName: e.target.value })} />
+            </div>
+            <div>
+              <Label>N° TVA / ICE</Label>
+              <Input value={draft.vatNumber || ''} onChange={e => setDraft({ ...draft, vatNumber: e.target.value })} />
+            </div>
+            <div>
+              <Label>Pays</Label>
+              <Input value={draft.country} onChange={e => setDraft({ ...draft, country: e.target.value })} />
+            </div>
+          </div>
+
+          <div>
+            <Label>Autres orthographes (séparées par des virgules)</Label>
+            <Input
+              value={draft.aliases.join(', ')}
+              onChange={e => setDraft({ ...draft, aliases: toList(e.target.value) })}
+              placeholder="Noms saisis sur les anciennes commandes"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Contacts</Label>
+              <Button size="sm" variant="ghost" onClick={() => setDraft({ ...draft, contacts: [...draft.contacts, { name: '', role: '', email: '', phone: '' }] })}>
+                <Plus className="h-4 w-4 mr-1" /> Contact
+              </Button>
+            </div>
+            {draft.contacts.map((contact, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-5 gap-2">
+                <Input placeholder="Nom" value={contact.name} onChange={e => updateContact(index, 'name', e.target.value)} />
+                <Input placeholder="Fonction" value={contact.role || ''} onChange={e => updateContact(index, 'role', e.target.value)} />
+                <Input placeholder="Email" value={contact.email} onChange={e => updateContact(index, 'email', e.target.value)} />
+                <Input placeholder="Téléphone" value={contact.phone || ''} onChange={e => updateContact(index, 'phone', e.target.value)} />
+                <Button size="sm" variant="ghost" onClick={() => setDraft({ ...draft, contacts: draft.contacts.filter((_, i) => i !== index) })}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Adresses de livraison</Label>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setDraft({
+                  ...draft,
+                  addresses: [...draft.addresses, { id: `addr-${Date.now()}`, label: '', street: '', city: '', state: '', zipCode: '', country: draft.country }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-1" /> Adresse
+              </Button>
+            </div>
+            {draft.addresses.map((address, index) => (
+              <div key={address.id} className="grid grid-cols-1 md:grid-cols-7 gap-2 items-center">
+                <Input placeholder="Libellé" value={address.label} onChange={e => updateAddress(index, 'label', e.target.value)} />
+                <Input placeholder="Rue" value={address.street} onChange={e => updateAddress(index, 'street', e.target.value)} />
+                <Input placeholder="Ville" value={address.city} onChange={e => updateAddress(index, 'city', e.target.value)} />
+                <Input placeholder="Code postal" value={address.zipCode} onChange={e => updateAddress(index, 'zipCode', e.target.value)} />
+                <Input placeholder="Pays" value={address.country} onChange={e => updateAddress(index, 'country', e.target.value)} />
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    checked={(draft.defaultAddressId || draft.addresses[0]?.id) === address.id}
+                    onChange={() => setDraft({ ...draft, defaultAddressId: address.id })}
+                  />
+                  Par défaut
+                </label>
+                <Button size="sm" variant="ghost" onClick={() => setDraft({ ...draft, addresses: draft.addresses.filter((_, i) => i !== index) })}>
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label>Type de colis</Label>
+              <Input
+                value={draft.packaging.boxType}
+                onChange={e => setDraft({ ...draft, packaging: { ...draft.packaging, boxType: e.target.value } })}
+                placeholder="Carton 4 kg, plateau 10 kg..."
+              />
+            </div>
+            <div>
+              <Label>Poids net colis (kg)</Label>
+              <Input
+                type="number"
+                step="0.1"
+                value={draft.packaging.boxNetWeightKg}
+                onChange={e => setDraft({ ...draft, packaging: { ...draft.packaging, boxNetWeightKg: parseFloat(e.target.value) || 0 } })}
+              />
+            </div>
+            <div>
+              <Label>Poids brut colis (kg)</Label>
+              <Input
+                type="number"
+                step="0.1"
+                value={draft.packaging.boxGrossWeightKg}
+                onChange={e => setDraft({ ...draft, packaging: { ...draft.packaging, boxGrossWeightKg: parseFloat(e.target.value) || 0 } })}
+              />
+            </div>
+            <div>
+              <Label>Colis par palette</Label>
+              <Input
+                type="number"
+                value={draft.packaging.boxesPerPallet ?? ''}
+                onChange={e => setDraft({ ...draft, packaging: { ...draft.packaging, boxesPerPallet: e.target.value ? parseInt(e.target.value, 10) : undefined } })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label>Calibres préférés (séparés par des virgules)</Label>
+              <Input
+                value={draft.calibrePreferences.join(', ')}
+                onChange={e => setDraft({ ...draft, calibrePreferences: toList(e.target.value) })}
+                placeholder="16, 18, 20"
+              />
+            </div>
+            <div>
+              <Label>Exigences d'étiquetage (une par ligne)</Label>
+              <Textarea
+                rows={3}
+                value={draft.labelRequirements.join('\n')}
+                onChange={e => setDraft({ ...draft, labelRequirements: toList(e.target.value, /\n/) })}
+                placeholder={"Origine Maroc\nGGN du producteur"}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div>
+              <Label>Délai de paiement (jours)</Label>
+              <Input
+                type="number"
+                value={draft.paymentTerms.days}
+                onChange={e => setDraft({ ...draft, paymentTerms: { ...draft.paymentTerms, days: parseInt(e.target.value, 10) || 0 } })}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm mt-6">
+              <input
+                type="checkbox"
+                checked={draft.paymentTerms.endOfMonth}
+                onChange={e => setDraft({ ...draft, paymentTerms: { ...draft.paymentTerms, endOfMonth: e.target.checked } })}
+              />
+              Fin de mois
+            </label>
+            <div>
+              <Label>Mode de paiement</Label>
+              <Input
+                value={draft.paymentTerms.method || ''}
+                onChange={e => setDraft({ ...draft, paymentTerms: { ...draft.paymentTerms, method: e.target.value } })}
+                placeholder="Virement, LC, CAD..."
+              />
+            </div>
+            <div>
+              <Label>Devise</Label>
+              <Input
+                value={draft.paymentTerms.currency}
+                onChange={e => setDraft({ ...draft, paymentTerms: { ...draft.paymentTerms, currency: e.target.value.toUpperCase() } })}
+              />
+            </div>
+            <div>
+              <Label>Incoterm</Label>
+              <Input
+                value={draft.incoterm || ''}
+                onChange={e => setDraft({ ...draft, incoterm: e.target.value.toUpperCase() })}
+                placeholder="FOB, CIF, DAP..."
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label>Profils de tolérance qualité attendus</Label>
+            <div className="flex flex-wrap gap-3 mt-2">
+              {profiles.map(profile => (
+                <label key={profile.id} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={draft.toleranceProfileIds.includes(profile.id)}
+                    onChange={() => toggleProfile(profile.id)}
+                  />
+                  {profile.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-3">
+              <Label>Notes</Label>
+              <Textarea rows={2} value={draft.notes || ''} onChange={e => setDraft({ ...draft, notes: e.target.value })} />
+            </div>
+            <label className="flex items-center gap-2 text-sm mt-6">
+              <input type="checkbox" checked={draft.active} onChange={e => setDraft({ ...draft, active: e.target.checked })} />
+              Client actif
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={saveDraft} disabled={saving || !canEdit || !draft.name.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              Enregistrer
+            </Button>
+            {draft.id && (
+              <Button variant="outline" onClick={() => setDraft(emptyDraft())}>Annuler</Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Fichier clients</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {clients.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucun client enregistré.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Pays</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Colis</TableHead>
+                  <TableHead>Calibres</TableHead>
+                  <TableHead>Paiement</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {clients.map(client => (
+                  <TableRow key={client.id} className={client.active ? '' : 'opacity-60'}>
+                    <TableCell className="font-mono">{client.code || '-'}</TableCell>
+                    <TableCell className="font-medium">
+                      {client.name} {!client.active && <Badge variant="secondary">Inactif</Badge>}
+                    </TableCell>
+                    <TableCell>{client.country || '-'}</TableCell>
+                    <TableCell>{client.contacts[0] ? `${client.contacts[0].name} (${client.contacts[0].email})` : '-'}</TableCell>
+                    <TableCell>
+                      {client.packaging.boxType
+                        ? `${client.packaging.boxType} · ${client.packaging.boxNetWeightKg} kg`
+                        : '-'}
+                    </TableCell>
+                    <TableCell>{client.calibrePreferences.join(', ') || '-'}</TableCell>
+                    <TableCell>{paymentLabel(client)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="ghost" onClick={() => editClient(client)} disabled={!canEdit}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -30,21 +30,30 @@ import {
   Table
 } from 'lucide-react';
 import { 
-  getClientOrders, 
+  subscribeToClientOrders,
   updateClientOrder, 
+  changeClientOrderStatus,
   deleteClientOrder, 
   bulkUpdateOrderStatus,
   getOrderStats,
   addClientOrder,
   ClientOrder,
+  ClientOrderStatus,
+  ClientOrderWrite,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES,
   addCommunicationNotification
 } from '../../lib/firebaseService';
 import { initializeClientOrders } from '../../lib/initClientOrders';
-import { collection, onSnapshot, query, orderBy, doc, updateDoc, addDoc, serverTimestamp } from 'firebase/firestore';
+import { ORDER_STATUS_COLORS, OrderStatusSelect } from '@/components/orders/order-status';
+import { ClientSelect } from '@/components/orders/client-select';
+import { orderClientFields } from '../../lib/clientService';
+import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { toast } from 'sonner';
 import { sharedLotService } from '../../lib/sharedLotService';
 import { saveQualityControlLot } from '../../lib/qualityControlService';
+import { emptyQualityPalette } from '@shared/domain';
 
 const CommandeClient = () => {
   const [orders, setOrders] = useState<ClientOrder[]>([]);
@@ -58,13 +67,10 @@ const CommandeClient = () => {
   const [saving, setSaving] = useState(false);
   const [stats, setStats] = useState({
     total: 0,
-    pending: 0,
-    processing: 0,
-    shipped: 0,
-    delivered: 0,
-    cancelled: 0,
+    byStatus: Object.fromEntries(ORDER_STATUSES.map(status => [status, 0])) as Record<ClientOrderStatus, number>,
     totalRevenue: 0,
-    averageOrderValue: 0
+    averageOrderValue: 0,
+    clients: 0
   });
   const [sortConfig, setSortConfig] = useState<{
     key: keyof ClientOrder;
@@ -76,56 +82,10 @@ const CommandeClient = () => {
   const [viewMode, setViewMode] = useState<'grid' | 'table'>('grid');
 
   // Real-time orders listener
-  useEffect(() => {
-    const ordersRef = collection(db, "client-orders");
-    const q = query(ordersRef, orderBy("createdAt", "desc"));
-    
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      try {
-        const fetchedOrders = snapshot.docs.map(doc => {
-          const data = doc.data();
-          return {
-            id: doc.id,
-            orderNumber: data.orderNumber || '',
-            clientName: data.clientName || '',
-            clientEmail: data.clientEmail || '',
-            clientPhone: data.clientPhone || '',
-            products: data.products || [],
-            status: data.status || 'pending',
-            orderDate: data.orderDate?.toDate ? data.orderDate.toDate().toISOString() : new Date().toISOString(),
-            requestedDeliveryDate: data.requestedDeliveryDate?.toDate ? data.requestedDeliveryDate.toDate().toISOString() : new Date().toISOString(),
-            actualDeliveryDate: data.actualDeliveryDate?.toDate ? data.actualDeliveryDate.toDate().toISOString() : undefined,
-            totalAmount: data.totalAmount || 0,
-            priority: data.priority || 'medium',
-            notes: data.notes || '',
-            selected: false,
-            shippingAddress: data.shippingAddress || {
-              street: '',
-              city: '',
-              state: '',
-              zipCode: '',
-              country: ''
-            },
-            paymentStatus: data.paymentStatus || 'pending',
-            createdAt: data.createdAt?.toDate ? data.createdAt.toDate().toISOString() : new Date().toISOString(),
-            updatedAt: data.updatedAt?.toDate ? data.updatedAt.toDate().toISOString() : new Date().toISOString()
-          } as ClientOrder;
-        });
-        setOrders(fetchedOrders);
-        setLoading(false);
-      } catch (error) {
-        console.error("Error processing orders:", error);
-        toast.error("Error loading orders");
-        setLoading(false);
-      }
-    }, (error) => {
-      console.error("Error listening to orders:", error);
-      toast.error("Error connecting to database");
-      setLoading(false);
-    });
-
-    return () => unsubscribe();
-  }, []);
+  useEffect(() => subscribeToClientOrders(clientOrders => {
+    setOrders(clientOrders);
+    setLoading(false);
+  }), []);
 
   // Load stats
   useEffect(() => {
@@ -195,16 +155,7 @@ const CommandeClient = () => {
     setFilteredOrders(filtered);
   }, [orders, searchTerm, statusFilter, priorityFilter, dateRange, sortConfig]);
 
-  const getStatusColor = (status: ClientOrder['status']) => {
-    const colors = {
-      pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
-      processing: 'bg-blue-100 text-blue-800 border-blue-200',
-      shipped: 'bg-purple-100 text-purple-800 border-purple-200',
-      delivered: 'bg-green-100 text-green-800 border-green-200',
-      cancelled: 'bg-red-100 text-red-800 border-red-200'
-    };
-    return colors[status];
-  };
+  const getStatusColor = (status: ClientOrderStatus) => ORDER_STATUS_COLORS[status];
 
   const getPriorityColor = (priority: ClientOrder['priority']) => {
     const colors = {
@@ -215,13 +166,16 @@ const CommandeClient = () => {
     return colors[priority];
   };
 
-  const getStatusIcon = (status: ClientOrder['status']) => {
-    const icons = {
-      pending: <Clock className="h-4 w-4" />,
-      processing: <Package className="h-4 w-4" />,
-      shipped: <Truck className="h-4 w-4" />,
-      delivered: <CheckCircle className="h-4 w-4" />,
-      cancelled: <XCircle className="h-4 w-4" />
+  const getStatusIcon = (status: ClientOrderStatus, className = "h-4 w-4") => {
+    const icons: Record<ClientOrderStatus, JSX.Element> = {
+      draft: <Edit className={className} />,
+      confirmed: <Clock className={className} />,
+      in_production: <Package className={className} />,
+      packed: <ShoppingBag className={className} />,
+      shipped: <Truck className={className} />,
+      delivered: <CheckCircle className={className} />,
+      invoiced: <DollarSign className={className} />,
+      cancelled: <XCircle className={className} />
     };
     return icons[status];
   };
@@ -259,9 +213,12 @@ const CommandeClient = () => {
     try {
       setSaving(true);
       if (bulkAction.startsWith('status:')) {
-        const status = bulkAction.split(':')[1] as ClientOrder['status'];
-        await bulkUpdateOrderStatus(Array.from(selectedOrders), status);
-        toast.success(`Updated ${selectedOrders.size} orders to ${status}`);
+        const status = bulkAction.split(':')[1] as ClientOrderStatus;
+        const reason = status === 'cancelled' ? window.prompt("Motif d'annulation")?.trim() : undefined;
+        if (status === 'cancelled' && !reason) return;
+        const { updated, errors } = await bulkUpdateOrderStatus(Array.from(selectedOrders), status, reason);
+        if (updated > 0) toast.success(`${updated} commande(s) : ${ORDER_STATUS_LABELS[status]}`);
+        errors.forEach(message => toast.error(message));
       } else if (bulkAction === 'delete') {
         // Bulk delete functionality
         const promises = Array.from(selectedOrders).map(orderId => deleteClientOrder(orderId));
@@ -278,14 +235,17 @@ const CommandeClient = () => {
     }
   };
 
-  const handleUpdateOrderStatus = async (orderId: string, status: ClientOrder['status']) => {
+  // Resolves to false when the transition was refused
+  const handleUpdateOrderStatus = async (orderId: string, status: ClientOrderStatus, reason?: string) => {
     try {
       setSaving(true);
-      await updateClientOrder(orderId, { status });
-      toast.success(`Order status updated to ${status}`);
+      await changeClientOrderStatus(orderId, status, reason);
+      toast.success(`Statut : ${ORDER_STATUS_LABELS[status]}`);
+      return true;
     } catch (error) {
       console.error("Error updating order:", error);
-      toast.error("Error updating order");
+      toast.error((error as Error).message);
+      return false;
     } finally {
       setSaving(false);
     }
@@ -323,6 +283,7 @@ const CommandeClient = () => {
   const NewOrderModal = () => {
     const [newOrder, setNewOrder] = useState({
       orderNumber: `ORD-${new Date().getFullYear()}-${String(orders.length + 1).padStart(3, '0')}`,
+      clientId: '',
       clientName: '',
       clientEmail: '',
       clientPhone: '',
@@ -379,8 +340,9 @@ const CommandeClient = () => {
       try {
         setSaving(true);
         
-        const orderData: Omit<ClientOrder, 'id' | 'createdAt' | 'updatedAt' | 'selected'> = {
+        const orderData: ClientOrderWrite = {
           orderNumber: newOrder.orderNumber,
+          clientId: newOrder.clientId || undefined,
           clientName: newOrder.clientName,
           clientEmail: newOrder.clientEmail,
           clientPhone: newOrder.clientPhone,
@@ -392,7 +354,6 @@ const CommandeClient = () => {
             pricePerUnit: product.pricePerUnit,
             totalPrice: product.quantity * product.pricePerUnit
           })),
-          status: 'pending',
           orderDate: new Date().toISOString(),
           requestedDeliveryDate: new Date(newOrder.requestedDeliveryDate).toISOString(),
           totalAmount: calculateTotal(),
@@ -403,7 +364,7 @@ const CommandeClient = () => {
         };
 
         // 1) Create the order
-        const createdOrder = await addClientOrder(orderData);
+        const createdOrder = await addClientOrder(orderData, 'confirmed');
 
         // 2) Create linked lots (production + quality) and archived QC lot
         try {
@@ -477,7 +438,7 @@ const CommandeClient = () => {
             category: 'I',
             exporterNumber: '106040',
             frequency: '1 Carton/palette',
-            palettes: Array.from({ length: 5 }, () => ({ }))
+            palettes: Array.from({ length: 5 }, emptyQualityPalette)
           };
 
           const qcLotId = await saveQualityControlLot({
@@ -492,11 +453,10 @@ const CommandeClient = () => {
           } as any);
 
           // Link back to order
-          await updateDoc(doc(db, 'client-orders', createdOrder.id), {
+          await updateClientOrder(createdOrder.id, {
             linkedProductionLotId: productionLotId,
             linkedQualitySharedLotId: qualitySharedLotId,
-            linkedQualityLotId: qcLotId,
-            updatedAt: serverTimestamp()
+            linkedQualityLotId: qcLotId
           });
 
           console.log('Linked lots created:', { productionLotId, qualitySharedLotId });
@@ -518,7 +478,7 @@ const CommandeClient = () => {
                 category: 'I',
                 exporterNumber: '106040',
                 frequency: '1 Carton/palette',
-                palettes: Array.from({ length: 5 }, () => ({}))
+                palettes: Array.from({ length: 5 }, emptyQualityPalette)
               },
               images: [],
               status: 'draft',
@@ -539,6 +499,7 @@ const CommandeClient = () => {
         // Reset form
         setNewOrder({
           orderNumber: `ORD-${new Date().getFullYear()}-${String(orders.length + 2).padStart(3, '0')}`,
+          clientId: '',
           clientName: '',
           clientEmail: '',
           clientPhone: '',
@@ -612,6 +573,18 @@ const CommandeClient = () => {
             {/* Client Information */}
             <div className="border-t border-gray-200 pt-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Client Information</h3>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Client
+                </label>
+                <ClientSelect
+                  value={newOrder.clientId}
+                  onSelect={(client) => setNewOrder(prev => client
+                    ? { ...prev, ...orderClientFields(client), clientPhone: client.contacts[0]?.phone || '' }
+                    : { ...prev, clientId: '' })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -926,7 +899,7 @@ const CommandeClient = () => {
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm font-medium text-gray-500">Active Clients</p>
-                <p className="text-3xl font-bold text-gray-900">{new Set(orders.map(o => o.clientEmail)).size}</p>
+                <p className="text-3xl font-bold text-gray-900">{stats.clients}</p>
                 <p className="text-sm text-orange-600 mt-1">
                   <Users className="h-4 w-4 inline mr-1" />
                   Unique customers
@@ -942,42 +915,16 @@ const CommandeClient = () => {
         {/* Status Overview */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Order Status Overview</h3>
-          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-            <div className="text-center">
-              <div className="bg-yellow-100 text-yellow-800 rounded-lg p-3 mb-2">
-                <Clock className="h-6 w-6 mx-auto" />
-              </div>
-              <p className="text-2xl font-bold text-gray-900">{stats.pending}</p>
-              <p className="text-sm text-gray-600">Pending</p>
-            </div>
-            <div className="text-center">
-              <div className="bg-blue-100 text-blue-800 rounded-lg p-3 mb-2">
-                <Package className="h-6 w-6 mx-auto" />
-              </div>
-              <p className="text-2xl font-bold text-gray-900">{stats.processing}</p>
-              <p className="text-sm text-gray-600">Processing</p>
-            </div>
-            <div className="text-center">
-              <div className="bg-purple-100 text-purple-800 rounded-lg p-3 mb-2">
-                <Truck className="h-6 w-6 mx-auto" />
-              </div>
-              <p className="text-2xl font-bold text-gray-900">{stats.shipped}</p>
-              <p className="text-sm text-gray-600">Shipped</p>
-            </div>
-            <div className="text-center">
-              <div className="bg-green-100 text-green-800 rounded-lg p-3 mb-2">
-                <CheckCircle className="h-6 w-6 mx-auto" />
-              </div>
-              <p className="text-2xl font-bold text-gray-900">{stats.delivered}</p>
-              <p className="text-sm text-gray-600">Delivered</p>
-            </div>
-            <div className="text-center">
-              <div className="bg-red-100 text-red-800 rounded-lg p-3 mb-2">
-                <XCircle className="h-6 w-6 mx-auto" />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {ORDER_STATUSES.map(status => (
+              <div key={status} className="text-center">
+                <div className={`${ORDER_STATUS_COLORS[status]} rounded-lg p-3 mb-2`}>
+                  <span className="flex justify-center">{getStatusIcon(status, "h-6 w-6")}</span>
+                </div>
+                <p className="text-2xl font-bold text-gray-900">{stats.byStatus[status]}</p>
+                <p className="text-sm text-gray-600">{ORDER_STATUS_LABELS[status]}</p>
               </div>
-              <p className="text-2xl font-bold text-gray-900">{stats.cancelled}</p>
-              <p className="text-sm text-gray-600">Cancelled</p>
-            </div>
+            ))}
           </div>
         </div>
 
@@ -1004,11 +951,9 @@ const CommandeClient = () => {
                   onChange={(e) => setStatusFilter(e.target.value)}
                 >
                   <option value="all">All Statuses</option>
-                  <option value="pending">Pending</option>
-                  <option value="processing">Processing</option>
-                  <option value="shipped">Shipped</option>
-                  <option value="delivered">Delivered</option>
-                  <option value="cancelled">Cancelled</option>
+                  {ORDER_STATUSES.map(status => (
+                    <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                  ))}
                 </select>
               </div>
 
@@ -1092,10 +1037,9 @@ const CommandeClient = () => {
                     onChange={(e) => setBulkAction(e.target.value)}
                   >
                     <option value="">Choose action...</option>
-                    <option value="status:processing">🔄 Mark as Processing</option>
-                    <option value="status:shipped">🚚 Mark as Shipped</option>
-                    <option value="status:delivered">✅ Mark as Delivered</option>
-                    <option value="status:cancelled">❌ Mark as Cancelled</option>
+                    {ORDER_STATUSES.filter(status => status !== 'draft').map(status => (
+                      <option key={status} value={`status:${status}`}>→ {ORDER_STATUS_LABELS[status]}</option>
+                    ))}
                     <option value="delete">🗑️ Delete Selected</option>
                   </select>
                   <button
@@ -1211,29 +1155,22 @@ const CommandeClient = () => {
                           <div className="p-2 rounded-lg bg-gray-50">
                             {getStatusIcon(order.status)}
                           </div>
-                          <select
-                            value={order.status}
-                            onChange={async (e) => {
-                              const newStatus = e.target.value as ClientOrder['status'];
-                              await handleUpdateOrderStatus(order.id, newStatus);
+                          <OrderStatusSelect
+                            status={order.status}
+                            disabled={saving}
+                            onChange={async (newStatus, reason) => {
+                              if (!await handleUpdateOrderStatus(order.id, newStatus, reason)) return;
                               // Send automatic notification about status change
                               try {
                                 await addCommunicationNotification(
-                                  `🔄 Order ${order.orderNumber} status updated to ${newStatus} for client ${order.clientName}`
+                                  `🔄 Order ${order.orderNumber} status updated to ${ORDER_STATUS_LABELS[newStatus]} for client ${order.clientName}`
                                 );
-                                toast.success(`Status updated to ${newStatus}`);
                               } catch (error) {
                                 console.error('Error adding notification:', error);
                               }
                             }}
                             className={`flex-1 text-sm font-medium border rounded-lg px-3 py-2 ${getStatusColor(order.status)} focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors`}
-                          >
-                            <option value="pending">⏳ Pending</option>
-                            <option value="processing">🔄 Processing</option>
-                            <option value="shipped">🚚 Shipped</option>
-                            <option value="delivered">✅ Delivered</option>
-                            <option value="cancelled">❌ Cancelled</option>
-                          </select>
+                          />
                         </div>
                       </div>
 
@@ -1648,15 +1585,16 @@ const CommandeClient = () => {
                         <td className="px-6 py-4">
                           <div className="flex items-center gap-2">
                             {getStatusIcon(order.status)}
-                            <select
-                              value={order.status}
-                              onChange={async (e) => {
-                                await handleUpdateOrderStatus(order.id, e.target.value as ClientOrder['status']);
+                            <OrderStatusSelect
+                              status={order.status}
+                              disabled={saving}
+                              onChange={async (newStatus, reason) => {
+                                if (!await handleUpdateOrderStatus(order.id, newStatus, reason)) return;
                                 // Send automatic notification about status change
                                 if (order.clientEmail) {
                                   try {
                                     await addCommunicationNotification(
-                                      `Order ${order.orderNumber} status updated to ${e.target.value} for client ${order.clientName}`
+                                      `Order ${order.orderNumber} status updated to ${ORDER_STATUS_LABELS[newStatus]} for client ${order.clientName}`
                                     );
                                   } catch (error) {
                                     console.error('Error adding notification:', error);
@@ -1664,13 +1602,7 @@ const CommandeClient = () => {
                                 }
                               }}
                               className={`text-xs font-medium border-0 rounded-full px-2.5 py-0.5 ${getStatusColor(order.status)} focus:ring-2 focus:ring-blue-500`}
-                            >
-                              <option value="pending">Pending</option>
-                              <option value="processing">Processing</option>
-                              <option value="shipped">Shipped</option>
-                              <option value="delivered">Delivered</option>
-                              <option value="cancelled">Cancelled</option>
-                            </select>
+                            />
                           </div>
                         </td>
                         <td className="px-6 py-4">
@@ -1,14 +1,26 @@
 import React, { useState } from 'react';
-import { Calendar, Clock, Package, Truck, Filter, Search, AlertTriangle, CheckCircle } from 'lucide-react';
-import { collection, addDoc, onSnapshot, query, orderBy } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { Calendar, Clock, Package, Truck, Filter, Search, AlertTriangle, CheckCircle, Database } from 'lucide-react';
+import {
+  subscribeToClientOrders,
+  addClientOrder,
+  migrateLegacyOrders,
+  ClientOrder,
+  ClientOrderStatus,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES
+} from '../../lib/firebaseService';
+import { OrderStatusBadge } from '@/components/orders/order-status';
+import { ClientSelect } from '@/components/orders/client-select';
+import { Client, orderClientFields } from '../../lib/clientService';
+import { useAuth } from '@/hooks/use-auth';
 
 interface AvocadoOrder {
   id: string;
+  orderNumber: string;
   clientName: string;
   orderDate: Date;
   requestedDeliveryDate: Date;
-  status: 'pending' | 'processing' | 'delayed' | 'completed' | 'cancelled';
+  status: ClientOrderStatus;
   items: Array<{
     caliber: string;
     quantity: number;
@@ -22,37 +34,44 @@ interface AvocadoOrder {
   delayReason?: string;
 }
 
+// Lines of a client order read as calibre lines in palettes
+const toAvocadoOrder = (order: ClientOrder): AvocadoOrder => ({
+  id: order.id,
+  orderNumber: order.orderNumber,
+  clientName: order.clientName,
+  orderDate: new Date(order.orderDate),
+  requestedDeliveryDate: new Date(order.requestedDeliveryDate),
+  status: order.status,
+  items: order.products.map(product => ({
+    caliber: product.caliber || '',
+    quantity: product.quantity,
+    type: product.variety || product.name,
+    processingTime: product.processingHours || 0
+  })),
+  priority: order.priority,
+  totalProcessingTime: order.totalProcessingTime || 0,
+  actualDeliveryDate: order.actualDeliveryDate ? new Date(order.actualDeliveryDate) : undefined,
+  notes: order.notes,
+  delayReason: order.delayReason
+});
+
 export default function GererLesCommandesClient() {
   const [orders, setOrders] = useState<AvocadoOrder[]>([]);
   const [showAddModal, setShowAddModal] = useState(false);
   const [filterStatus, setFilterStatus] = useState('all');
   const [searchTerm, setSearchTerm] = useState('');
+  const [migrating, setMigrating] = useState(false);
+  const [selectedClient, setSelectedClient] = useState<Client | undefined>();
+  const { can } = useAuth();
 
   // New order form state
   const [newOrder, setNewOrder] = useState<Partial<AvocadoOrder>>({
     items: [],
-    status: 'pending',
     orderDate: new Date()
   });
 
-  React.useEffect(() => {
-    // Listen for real-time updates from Firestore
-    const q = query(collection(db, 'avocado_orders'), orderBy('orderDate', 'desc'));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const fetchedOrders = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          ...data,
-          id: doc.id,
-          orderDate: data.orderDate?.toDate ? data.orderDate.toDate() : new Date(data.orderDate),
-          requestedDeliveryDate: data.requestedDeliveryDate?.toDate ? data.requestedDeliveryDate.toDate() : new Date(data.requestedDeliveryDate),
-          actualDeliveryDate: data.actualDeliveryDate?.toDate ? data.actualDeliveryDate.toDate() : data.actualDeliveryDate ? new Date(data.actualDeliveryDate) : undefined,
-        } as AvocadoOrder;
-      });
-      setOrders(fetchedOrders);
-    });
-    return () => unsubscribe();
-  }, []);
+  // Listen for real-time updates from Firestore
+  React.useEffect(() => subscribeToClientOrders(clientOrders => setOrders(clientOrders.map(toAvocadoOrder))), []);
 
   const calculateProcessingTime = (items: AvocadoOrder['items']) => {
     return items.reduce((total, item) => {
@@ -70,17 +89,6 @@ export default function GererLesCommandesClient() {
     }, 0);
   };
 
-  const getStatusColor = (status: AvocadoOrder['status']) => {
-    const colors = {
-      pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
-      processing: 'bg-blue-100 text-blue-800 border-blue-200',
-      delayed: 'bg-red-100 text-red-800 border-red-200',
-      completed: 'bg-green-100 text-green-800 border-green-200',
-      cancelled: 'bg-gray-100 text-gray-800 border-gray-200'
-    };
-    return colors[status] || colors.pending;
-  };
-
   const addOrderItem = () => {
     if (!newOrder.items) return;
     setNewOrder({
@@ -95,26 +103,53 @@ export default function GererLesCommandesClient() {
   const handleSubmitOrder = async () => {
     if (!newOrder.clientName || !newOrder.items?.length) return;
     const processingTime = calculateProcessingTime(newOrder.items);
-    const newOrderComplete: Omit<AvocadoOrder, 'id'> = {
-      ...newOrder as Omit<AvocadoOrder, 'id'>,
-      totalProcessingTime: processingTime,
-      orderDate: new Date(),
-      status: 'pending',
-    };
+    const orderDate = new Date().toISOString();
     try {
-      await addDoc(collection(db, 'avocado_orders'), {
-        ...newOrderComplete,
-        orderDate: new Date(),
-        requestedDeliveryDate: newOrder.requestedDeliveryDate,
-        actualDeliveryDate: newOrder.actualDeliveryDate || null,
-      });
+      await addClientOrder({
+        orderNumber: `CMD-${Date.now().toString().slice(-8)}`,
+        clientName: newOrder.clientName,
+        clientEmail: '',
+        products: newOrder.items.map((item, index) => ({
+          id: `prod-${Date.now()}-${index}`,
+          name: item.type || 'Avocat',
+          variety: item.type || undefined,
+          caliber: item.caliber || undefined,
+          quantity: item.quantity,
+          unit: 'palettes',
+          pricePerUnit: 0,
+          totalPrice: 0
+        })),
+        orderDate,
+        requestedDeliveryDate: newOrder.requestedDeliveryDate ? newOrder.requestedDeliveryDate.toISOString() : orderDate,
+        totalAmount: 0,
+        priority: newOrder.priority || 'medium',
+        notes: newOrder.notes,
+        totalProcessingTime: processingTime,
+        shippingAddress: { street: '', city: '', state: '', zipCode: '', country: '' },
+        paymentStatus: 'pending',
+        ...(selectedClient ? orderClientFields(selectedClient) : {})
+      }, 'confirmed');
       setShowAddModal(false);
-      setNewOrder({ items: [], status: 'pending', orderDate: new Date() });
+      setSelectedClient(undefined);
+      setNewOrder({ items: [], orderDate: new Date() });
     } catch (e) {
       alert('Failed to add order: ' + e);
     }
   };
 
+  // Copies the orders still in avocado_orders and maps old statuses onto the lifecycle
+  const handleMigrate = async () => {
+    setMigrating(true);
+    try {
+      const { copied, updated } = await migrateLegacyOrders();
+      alert(`${copied} commande(s) reprise(s), ${updated} statut(s) mis à jour`);
+    } catch (e) {
+      alert('Migration impossible : ' + e);
+    } finally {
+      setMigrating(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 p-6">
       <div className="max-w-7xl mx-auto">
@@ -124,12 +159,24 @@ export default function GererLesCommandesClient() {
             <h1 className="text-3xl font-bold text-gray-900 mb-2">Order Management</h1>
             <p className="text-gray-600">Manage and track avocado orders and processing times</p>
           </div>
-          <button
-            onClick={() => setShowAddModal(true)}
-            className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600"
-          >
-            Add New Order
-          </button>
+          <div className="flex gap-2">
+            {can('logistics', 'write') && (
+              <button
+                onClick={handleMigrate}
+                disabled={migrating}
+                className="flex items-center gap-2 border border-gray-300 bg-white text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Database className="h-4 w-4" />
+                Migrer les anciennes commandes
+              </button>
+            )}
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600"
+            >
+              Add New Order
+            </button>
+          </div>
         </div>
 
         {/* Quick Stats */}
@@ -140,7 +187,7 @@ export default function GererLesCommandesClient() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-500">Active Orders</p>
                 <p className="text-2xl font-semibold text-gray-900">
-                  {orders.filter(o => o.status === 'processing').length}
+                  {orders.filter(o => o.status === 'in_production').length}
                 </p>
               </div>
             </div>
@@ -162,7 +209,7 @@ export default function GererLesCommandesClient() {
               <div className="ml-4">
                 <p className="text-sm font-medium text-gray-500">Delayed</p>
                 <p className="text-2xl font-semibold text-gray-900">
-                  {orders.filter(o => o.status === 'delayed').length}
+                  {orders.filter(o => !!o.delayReason && o.status === 'in_production').length}
                 </p>
               </div>
             </div>
@@ -175,7 +222,7 @@ export default function GererLesCommandesClient() {
                 <p className="text-sm font-medium text-gray-500">Completed Today</p>
                 <p className="text-2xl font-semibold text-gray-900">
                   {orders.filter(o => 
-                    o.status === 'completed' && 
+                    o.status === 'delivered' && 
                     o.actualDeliveryDate?.toDateString() === new Date().toDateString()
                   ).length}
                 </p>
@@ -204,10 +251,9 @@ export default function GererLesCommandesClient() {
               onChange={(e) => setFilterStatus(e.target.value)}
             >
               <option value="all">All Status</option>
-              <option value="pending">Pending</option>
-              <option value="processing">Processing</option>
-              <option value="delayed">Delayed</option>
-              <option value="completed">Completed</option>
+              {ORDER_STATUSES.map(status => (
+                <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -239,7 +285,7 @@ export default function GererLesCommandesClient() {
                 <tr key={order.id} className="hover:bg-gray-50">
                   <td className="px-6 py-4">
                     <div className="flex flex-col">
-                      <span className="text-sm font-medium text-gray-900">{order.id}</span>
+                      <span className="text-sm font-medium text-gray-900">{order.orderNumber}</span>
                       <span className="text-sm text-gray-500">{order.clientName}</span>
                     </div>
                   </td>
@@ -263,9 +309,7 @@ export default function GererLesCommandesClient() {
                     </div>
                   </td>
                   <td className="px-6 py-4">
-                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(order.status)}`}>
-                      {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                    </span>
+                    <OrderStatusBadge status={order.status} />
                   </td>
                   <td className="px-6 py-4">
                     <button className="text-blue-600 hover:text-blue-900">
@@ -285,6 +329,18 @@ export default function GererLesCommandesClient() {
               <h2 className="text-2xl font-bold text-gray-900 mb-4">Add New Order</h2>
               
               <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Client</label>
+                  <ClientSelect
+                    value={selectedClient?.id}
+                    onSelect={(client) => {
+                      setSelectedClient(client);
+                      if (client) setNewOrder({ ...newOrder, clientName: client.name });
+                    }}
+                    className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm p-2"
+                  />
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700">Client Name</label>
                   <input
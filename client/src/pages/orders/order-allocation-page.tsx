@@ -0,0 +1,297 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Boxes, Lock, RefreshCw, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  ALLOCATION_UNIT_LABELS,
+  AllocationData,
+  getAllocationData,
+  LineAllocation,
+  LotQualityVerdict,
+  planAllocations,
+  releaseOrder,
+  reserveOrder
+} from "@/lib/orderAllocationService";
+
+const CONFORMITY_BADGES: Record<LotQualityVerdict, { label: string; className: string }> = {
+  conforme: { label: 'Conforme', className: 'bg-green-100 text-green-800' },
+  non_controle: { label: 'Non contrôlé', className: 'bg-yellow-100 text-yellow-800' },
+  non_conforme: { label: 'Non conforme', className: 'bg-red-100 text-red-800' }
+};
+
+const day = (value: string) => (value ? format(new Date(value), 'dd/MM/yyyy') : '-');
+
+const StatTile = ({ label, value }: { label: string; value: string }) => (
+  <div className="p-4 rounded-lg border bg-gray-50">
+    <div className="text-xs uppercase text-gray-500">{label}</div>
+    <div className="text-xl font-semibold">{value}</div>
+  </div>
+);
+
+// Which pallets serve which open order, oldest first, and what is missing per calibre
+export default function OrderAllocationPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [data, setData] = useState<AllocationData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setData(await getAllocationData());
+    } catch (error) {
+      console.error('Error loading allocation data:', error);
+      toast({ title: "Erreur", description: "Impossible de charger les commandes et le stock", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const plan = useMemo(
+    () => (data ? planAllocations(data.lines, data.pallets, data.reservations, data.conformity) : null),
+    [data]
+  );
+
+  // Lines of each order, orders in the planning order
+  const orders = useMemo(() => {
+    const byOrder = new Map<string, LineAllocation[]>();
+    plan?.lines.forEach(allocation => {
+      byOrder.set(allocation.line.orderId, [...(byOrder.get(allocation.line.orderId) || []), allocation]);
+    });
+    return Array.from(byOrder.entries()).map(([orderId, lines]) => ({ orderId, lines, first: lines[0].line }));
+  }, [plan]);
+
+  const isReserved = (orderId: string) =>
+    !!data?.reservations.some(r => r.reservations.some(held => held.orderId === orderId));
+
+  const reserve = async (orderId: string, lines: LineAllocation[]) => {
+    if (!data) return;
+    setSaving(orderId);
+    try {
+      await reserveOrder(orderId, lines, data.pallets);
+      toast({ title: "Palettes réservées", description: `Commande ${lines[0].line.orderNumber}` });
+      await load();
+    } catch (error) {
+      console.error('Error reserving pallets:', error);
+      toast({ title: "Réservation impossible", description: (error as Error).message, variant: "destructive" });
+      await load();
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const release = async (orderId: string, orderNumber: string) => {
+    if (!data) return;
+    setSaving(orderId);
+    try {
+      await releaseOrder(orderId);
+      toast({ title: "Réservations libérées", description: `Commande ${orderNumber}` });
+      await load();
+    } catch (error) {
+      console.error('Error releasing pallets:', error);
+      toast({ title: "Erreur", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const canWrite = can('logistics', 'write');
+  const shortLines = plan?.lines.filter(l => l.shortfall > 0).length || 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Boxes className="h-6 w-6" />
+          Allocation des commandes
+        </h1>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Actualiser
+        </Button>
+      </div>
+
+      {!plan || !data ? (
+        <p className="text-sm text-gray-500">{loading ? 'Chargement...' : 'Aucune donnée.'}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatTile label="Commandes ouvertes" value={String(orders.length)} />
+            <StatTile label="Lignes" value={String(plan.lines.length)} />
+            <StatTile label="Lignes incomplètes" value={String(shortLines)} />
+            <StatTile label="Palettes en stock" value={String(data.pallets.length)} />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Manques par calibre</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {plan.shortfalls.length === 0 ? (
+                <p className="text-sm text-gray-500">Aucune commande ouverte.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Variété</TableHead>
+                      <TableHead>Calibre</TableHead>
+                      <TableHead className="text-right">Demandé</TableHead>
+                      <TableHead className="text-right">Alloué</TableHead>
+                      <TableHead className="text-right">Manque</TableHead>
+                      <TableHead>Commandes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.shortfalls.map(s => (
+                      <TableRow key={`${s.variety}|${s.calibre}|${s.unit}`}>
+                        <TableCell className="font-medium">{s.variety}</TableCell>
+                        <TableCell>{s.calibre}</TableCell>
+                        <TableCell className="text-right">{s.requested} {ALLOCATION_UNIT_LABELS[s.unit]}</TableCell>
+                        <TableCell className="text-right">{s.allocated} {ALLOCATION_UNIT_LABELS[s.unit]}</TableCell>
+                        <TableCell className={`text-right ${s.shortfall > 0 ? 'text-red-600 font-semibold' : ''}`}>
+                          {s.shortfall} {ALLOCATION_UNIT_LABELS[s.unit]}
+                        </TableCell>
+                        <TableCell>{s.orders.join(', ') || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {orders.map(({ orderId, lines, first }) => (
+            <Card key={orderId}>
+              <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+                <CardTitle className="text-base">
+                  {first.orderNumber} · {first.clientName}
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    Livraison {day(first.requestedDeliveryDate)} · priorité {first.priority}
+                  </span>
+                </CardTitle>
+                {canWrite && (
+                  <div className="flex gap-2">
+                    {isReserved(orderId) && (
+                      <Button variant="outline" size="sm" onClick={() => release(orderId, first.orderNumber)} disabled={saving !== null}>
+                        <Unlock className="h-4 w-4 mr-2" />
+                        Libérer
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      onClick={() => reserve(orderId, lines)}
+                      disabled={saving !== null || lines.every(l => l.pallets.length === 0)}
+                    >
+                      <Lock className="h-4 w-4 mr-2" />
+                      Réserver
+                    </Button>
+                  </div>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {lines.map(({ line, pallets, allocated, shortfall }) => (
+                  <div key={line.lineId} className="space-y-2">
+                    <div className="flex flex-wrap items-center gap-3 text-sm">
+                      <span className="font-medium">{line.product}</span>
+                      <span className="text-gray-500">Calibre {line.calibre || 'tous'}</span>
+                      <span>{allocated} / {line.quantity} {ALLOCATION_UNIT_LABELS[line.unit]}</span>
+                      {shortfall > 0 && (
+                        <Badge variant="destructive">Manque {shortfall} {ALLOCATION_UNIT_LABELS[line.unit]}</Badge>
+                      )}
+                    </div>
+                    {pallets.length === 0 ? (
+                      <p className="text-sm text-gray-500">Aucune palette disponible pour cette ligne.</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Palette</TableHead>
+                            <TableHead>Lot</TableHead>
+                            <TableHead>Emplacement</TableHead>
+                            <TableHead>Calibre</TableHead>
+                            <TableHead className="text-right">Âge (j)</TableHead>
+                            <TableHead>Qualité</TableHead>
+                            <TableHead className="text-right">Colis</TableHead>
+                            <TableHead className="text-right">Kg</TableHead>
+                            <TableHead>État</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {pallets.map((pallet, index) => (
+                            <TableRow key={`${pallet.palletId}-${index}`}>
+                              <TableCell className="font-medium">{pallet.sscc || pallet.palletId}</TableCell>
+                              <TableCell>{pallet.reference}</TableCell>
+                              <TableCell>{pallet.locationLabel}</TableCell>
+                              <TableCell>{pallet.calibre}</TableCell>
+                              <TableCell className="text-right">{pallet.ageDays}</TableCell>
+                              <TableCell>
+                                <Badge className={CONFORMITY_BADGES[pallet.conformity].className}>
+                                  {CONFORMITY_BADGES[pallet.conformity].label}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-right">{pallet.packages}</TableCell>
+                              <TableCell className="text-right">{pallet.kg}</TableCell>
+                              <TableCell>
+                                <Badge variant={pallet.reserved ? 'default' : 'outline'}>
+                                  {pallet.reserved ? 'Réservée' : 'Proposée'}
+                                </Badge>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Stock non alloué</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {plan.unreservedStock.length === 0 ? (
+                <p className="text-sm text-gray-500">Tout le stock conforme est alloué.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Variété</TableHead>
+                      <TableHead>Calibre</TableHead>
+                      <TableHead className="text-right">Palettes</TableHead>
+                      <TableHead className="text-right">Colis</TableHead>
+                      <TableHead className="text-right">Kg</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.unreservedStock.map(row => (
+                      <TableRow key={`${row.variety}|${row.calibre}`}>
+                        <TableCell className="font-medium">{row.variety || '-'}</TableCell>
+                        <TableCell>{row.calibre || '-'}</TableCell>
+                        <TableCell className="text-right">{row.pallets}</TableCell>
+                        <TableCell className="text-right">{row.packages}</TableCell>
+                        <TableCell className="text-right">{row.kg}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -33,15 +33,25 @@ import {
 } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import { 
-  getClientOrders, 
-  updateClientOrder, 
+  addClientOrder,
+  changeClientOrderStatus,
   deleteClientOrder,
-  ClientOrder 
+  setOrderLineCompleted,
+  subscribeToClientOrders,
+  updateClientOrder,
+  ClientOrder,
+  ClientOrderStatus,
+  ORDER_STATUS_LABELS,
+  ORDER_STATUSES
 } from '../../lib/firebaseService';
+import { OrderStatusBadge, OrderStatusSelect } from '@/components/orders/order-status';
+import { ClientSelect } from '@/components/orders/client-select';
+import { Client, orderClientFields } from '../../lib/clientService';
 import { getAvocadoTrackingData } from '../../lib/firebaseService';
 import { multiLotService } from '../../lib/multiLotService';
 import { sharedLotService, SharedLot } from '../../lib/sharedLotService';
 import { saveQualityControlLot } from '../../lib/qualityControlService';
+import { emptyQualityPalette } from '@shared/domain';
 
 interface OrderItem {
   id: string;
@@ -66,7 +76,7 @@ interface Order {
   clientPhone?: string;
   orderDate: string;
   requestedDeliveryDate: string;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+  status: ClientOrderStatus;
   items: OrderItem[];
   priority: 'high' | 'medium' | 'low';
   totalProcessingTime: number;
@@ -79,6 +89,41 @@ interface Order {
   updatedAt: string;
 }
 
+// Order as tracked here: lines with their lot, calibre and checklist state
+const toTrackedOrder = (order: ClientOrder): Order => ({
+  id: order.id,
+  orderNumber: order.orderNumber,
+  clientName: order.clientName,
+  clientEmail: order.clientEmail,
+  clientPhone: order.clientPhone,
+  status: order.status,
+  priority: order.priority,
+  notes: order.notes || '',
+  delayReason: order.delayReason,
+  items: order.products.map(product => ({
+    id: product.id,
+    clientName: order.clientName,
+    lotNumber: product.lotNumber || '',
+    lotName: product.lotNumber ? `Lot ${product.lotNumber}` : '',
+    caliber: product.caliber || 'Mixed',
+    quantity: product.quantity,
+    unit: product.unit,
+    type: product.name,
+    processingTime: product.processingHours || 0,
+    completed: !!product.completed,
+    completedAt: product.completedAt,
+    notes: ''
+  })),
+  totalProcessingTime: order.totalProcessingTime || 0,
+  progress: order.products.length > 0 ? Math.round(order.products.filter(p => p.completed).length / order.products.length * 100) : 0,
+  totalAmount: order.totalAmount,
+  orderDate: order.orderDate,
+  requestedDeliveryDate: order.requestedDeliveryDate,
+  actualDeliveryDate: order.actualDeliveryDate,
+  createdAt: order.createdAt,
+  updatedAt: order.updatedAt
+});
+
 export default function OrderTrackingView() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [lots, setLots] = useState<any[]>([]);
@@ -93,12 +138,13 @@ export default function OrderTrackingView() {
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
   const [selectedOrders, setSelectedOrders] = useState<Set<string>>(new Set());
   const [showAddModal, setShowAddModal] = useState(false);
+  const [selectedClient, setSelectedClient] = useState<Client | undefined>();
   const [newOrder, setNewOrder] = useState<Partial<Order>>({
     orderNumber: '',
     clientName: '',
     requestedDeliveryDate: '',
     priority: 'medium',
-    status: 'pending',
+    status: 'draft',
     items: [],
     notes: ''
   });
@@ -109,48 +155,6 @@ export default function OrderTrackingView() {
       try {
         setLoading(true);
         
-        // Fetch client orders from admin's system
-        const clientOrders = await getClientOrders();
-        
-        // Transform client orders to our Order format
-        const transformedOrders: Order[] = clientOrders.map((order: any) => ({
-            id: order.id,
-            items: order.products?.map((product: any, index: number) => ({
-                id: `${order.id}-${index}`,
-                clientName: order.clientName || 'Client Non Spécifié',
-                lotName: product.lotName || 'Lot Non Spécifié',
-                productType: product.productType || 'Avocat',
-                quantity: product.quantity || 0,
-                clientInstructions: product.clientInstructions || '',
-                currentStep: product.currentStep || 'pending',
-                completed: product.completed || false,
-                orderDate: order.orderDate?.toDate?.() || new Date(),
-                requestedDeliveryDate: order.requestedDeliveryDate?.toDate?.() || new Date(),
-                actualDeliveryDate: order.actualDeliveryDate?.toDate?.(),
-                clientEmail: order.clientEmail || 'N/A',
-                priority: order.priority || 'medium',
-                notes: order.notes || ''
-            })) || [],
-            orderNumber: order.orderNumber || `ORD-${order.id?.substring(0, 6)}`,
-            clientName: order.clientName || 'Client Non Spécifié',
-            clientEmail: order.clientEmail || 'N/A',
-            status: order.status || 'pending',
-            priority: order.priority || 'medium',
-            notes: order.notes || '',
-            totalProcessingTime: order.totalProcessingTime || 0,
-            progress: order.progress || 0,
-            totalAmount: order.totalAmount || 0,
-            orderDate: order.orderDate?.toDate?.()?.toISOString() || new Date().toISOString(),
-            requestedDeliveryDate: order.requestedDeliveryDate?.toDate?.()?.toISOString() || new Date().toISOString(),
-            actualDeliveryDate: order.actualDeliveryDate?.toDate?.()?.toISOString(),
-            createdAt: order.createdAt?.toDate?.()?.toISOString() || new Date().toISOString(),
-            updatedAt: order.updatedAt?.toDate?.()?.toISOString() || new Date().toISOString()
-        }));        setOrders(transformedOrders);
-
-        // Extract unique client names
-        const uniqueClients = Array.from(new Set(transformedOrders.map(o => o.clientName)));
-        setClients(uniqueClients);
-
         // Fetch lot data from admin's system
         const avocadoLots = await getAvocadoTrackingData();
         setLots(avocadoLots);
@@ -177,62 +181,12 @@ export default function OrderTrackingView() {
     return () => unsubscribe();
   }, []);
 
-  // Real-time listener for order updates
-  useEffect(() => {
-    const q = query(collection(db, 'client-orders'), orderBy('createdAt', 'desc'));
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const updates = snapshot.docs.map(doc => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          ...data,
-          orderDate: typeof data.orderDate === 'string' ? data.orderDate : data.orderDate?.toDate?.().toISOString() || new Date().toISOString(),
-          requestedDeliveryDate: typeof data.requestedDeliveryDate === 'string' ? data.requestedDeliveryDate : data.requestedDeliveryDate?.toDate?.().toISOString() || new Date().toISOString(),
-          actualDeliveryDate: data.actualDeliveryDate ? (typeof data.actualDeliveryDate === 'string' ? data.actualDeliveryDate : data.actualDeliveryDate?.toDate?.().toISOString()) : undefined,
-          createdAt: typeof data.createdAt === 'string' ? data.createdAt : data.createdAt?.toDate?.().toISOString() || new Date().toISOString(),
-          updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : data.updatedAt?.toDate?.().toISOString() || new Date().toISOString(),
-        };
-      });
-      
-      // Only update if we have data to prevent overwriting the initial fetch
-      if (updates.length > 0) {
-        const transformedOrders: Order[] = updates.map((order: any) => ({
-          id: order.id,
-          orderNumber: order.orderNumber || `ORD-${order.id?.substring(0, 6)}`,
-          clientName: order.clientName || 'Client Non Spécifié',
-          clientEmail: order.clientEmail || 'N/A',
-          status: order.status || 'pending',
-          priority: order.priority || 'medium',
-          notes: order.notes || '',
-          items: order.products?.map((product: any, index: number) => ({
-            id: `${order.id}-${index}`,
-            clientName: order.clientName || 'Client Non Spécifié',
-            lotNumber: `LOT-${Math.random().toString(36).substr(2, 9).toUpperCase()}`,
-            lotName: `Lot ${product.name || 'Non Spécifié'}`,
-            caliber: 'Mixed',
-            quantity: product.quantity || 0,
-            unit: product.unit || 'kg',
-            type: product.name || 'Avocat',
-            processingTime: Math.floor(Math.random() * 24) + 1,
-            completed: product.completed || false,
-            completedAt: product.completedAt,
-            notes: ''
-          })) || [],
-          totalProcessingTime: order.totalProcessingTime || 0,
-          progress: order.progress || 0,
-          totalAmount: order.totalAmount || 0,
-          orderDate: order.orderDate || new Date().toISOString(),
-          requestedDeliveryDate: order.requestedDeliveryDate || new Date().toISOString(),
-          actualDeliveryDate: order.actualDeliveryDate,
-          createdAt: order.createdAt || new Date().toISOString(),
-          updatedAt: order.updatedAt || new Date().toISOString()
-        }));
-        setOrders(transformedOrders);
-      }
-    });
-
-    return () => unsubscribe();
-  }, []);
+  // Client orders, live
+  useEffect(() => subscribeToClientOrders(clientOrders => {
+    const tracked = clientOrders.map(toTrackedOrder);
+    setOrders(tracked);
+    setClients(Array.from(new Set(tracked.map(o => o.clientName))));
+  }), []);
 
   // Filter orders based on search and status
   const filteredOrders = useMemo(() => {
@@ -255,40 +209,9 @@ export default function OrderTrackingView() {
   const toggleItemCompleted = async (orderId: string, itemId: string) => {
     try {
       setSaving(true);
-      const order = orders.find(o => o.id === orderId);
-      if (!order) return;
-
-      const updatedItems = order.items.map(item => {
-        if (item.id === itemId) {
-          return {
-            ...item,
-            completed: !item.completed,
-            completedAt: !item.completed ? new Date().toISOString() : undefined
-          };
-        }
-        return item;
-      });
-
-      // Update local state
-      setOrders(prev => prev.map(o => 
-        o.id === orderId ? { ...o, items: updatedItems } : o
-      ));
-
-      // Save to Firebase
-      const orderRef = doc(db, 'client-orders', orderId);
-      await updateDoc(orderRef, {
-        products: updatedItems.map(item => ({
-          id: item.id,
-          name: item.type,
-          quantity: item.quantity,
-          unit: item.unit,
-          pricePerUnit: 0,
-          totalPrice: 0,
-          completed: item.completed,
-          completedAt: item.completedAt
-        })),
-        updatedAt: serverTimestamp()
-      });
+      const item = orders.find(o => o.id === orderId)?.items.find(i => i.id === itemId);
+      if (!item) return;
+      await setOrderLineCompleted(orderId, itemId, !item.completed);
 
     } catch (error) {
       console.error('Error updating item:', error);
@@ -297,21 +220,14 @@ export default function OrderTrackingView() {
     }
   };
 
-  // Change order status
-  const changeOrderStatus = async (orderId: string, newStatus: Order['status']) => {
+  // Move the order along its lifecycle
+  const changeOrderStatus = async (orderId: string, newStatus: ClientOrderStatus, reason?: string) => {
     try {
       setSaving(true);
-      
-      // Update local state
-      setOrders(prev => prev.map(order =>
-        order.id === orderId ? { ...order, status: newStatus } : order
-      ));
-
-      // Save to Firebase
-      await updateClientOrder(orderId, { status: newStatus });
-      
+      await changeClientOrderStatus(orderId, newStatus, reason);
     } catch (error) {
       console.error('Failed to update order status:', error);
+      alert(error instanceof Error ? error.message : String(error));
     } finally {
       setSaving(false);
     }
@@ -352,18 +268,6 @@ export default function OrderTrackingView() {
     }
   };
 
-  // Get status color
-  const getStatusColor = (status: Order['status']) => {
-    const colors = {
-      pending: 'bg-yellow-100 text-yellow-800 border-yellow-200',
-      processing: 'bg-blue-100 text-blue-800 border-blue-200',
-      shipped: 'bg-purple-100 text-purple-800 border-purple-200',
-      delivered: 'bg-green-100 text-green-800 border-green-200',
-      cancelled: 'bg-red-100 text-red-800 border-red-200'
-    };
-    return colors[status];
-  };
-
   // Get priority color
   const getPriorityBadge = (priority: Order['priority']) => {
     const colors = {
@@ -418,7 +322,6 @@ export default function OrderTrackingView() {
           ? new Date(newOrder.requestedDeliveryDate)
           : now
         ).toISOString(),
-        status: 'pending' as const,
         priority: newOrder.priority || 'medium' as const,
         products: newOrder.items?.map(item => ({
           id: item.id,
@@ -429,10 +332,10 @@ export default function OrderTrackingView() {
           totalPrice: 0,
           completed: false,
           lotNumber: item.lotNumber,
-          caliber: item.caliber
+          caliber: item.caliber,
+          processingHours: item.processingTime
         })) || [],
         totalProcessingTime: newOrder.items?.reduce((total, item) => total + item.processingTime, 0) || 0,
-        progress: 0,
         totalAmount: 0,
         // Required by rules: shippingAddress (map) and paymentStatus (string)
         shippingAddress: {
@@ -444,17 +347,12 @@ export default function OrderTrackingView() {
         },
         paymentStatus: 'pending' as const,
         notes: newOrder.notes || '',
-        createdAt: now,
-        updatedAt: now
+        // Contact and delivery address from the clients file
+        ...(selectedClient ? orderClientFields(selectedClient) : {})
       };
 
       // Add to Firebase (order)
-      const docRef = await addDoc(collection(db, 'client-orders'), {
-        ...orderData,
-        // Keep createdAt/updatedAt as server timestamps for ordering, but dates must remain strings
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      });
+      const createdOrder = await addClientOrder(orderData, 'confirmed');
 
       // Create linked Production lot (shared_lots) and Quality Control lot
       try {
@@ -530,7 +428,7 @@ export default function OrderTrackingView() {
           category: 'I',
           exporterNumber: '106040',
           frequency: '1 Carton/palette',
-          palettes: Array.from({ length: 5 }, () => ({ }))
+          palettes: Array.from({ length: 5 }, emptyQualityPalette)
         };
 
         const qcLotId = await saveQualityControlLot({
@@ -545,11 +443,10 @@ export default function OrderTrackingView() {
         } as any);
 
         // Link created lot IDs back to the order document
-        await updateDoc(doc(db, 'client-orders', docRef.id), {
+        await updateClientOrder(createdOrder.id, {
           linkedProductionLotId: productionLotId,
           linkedQualitySharedLotId: qualitySharedLotId,
-          linkedQualityLotId: qcLotId,
-          updatedAt: serverTimestamp()
+          linkedQualityLotId: qcLotId
         });
 
         console.log('Linked lots created:', { productionLotId, qcLotId });
@@ -571,7 +468,7 @@ export default function OrderTrackingView() {
               category: 'I',
               exporterNumber: '106040',
               frequency: '1 Carton/palette',
-              palettes: Array.from({ length: 5 }, () => ({}))
+              palettes: Array.from({ length: 5 }, emptyQualityPalette)
             },
             images: [],
             status: 'draft',
@@ -588,18 +485,19 @@ export default function OrderTrackingView() {
       }
 
       // Reset form and close modal
+      setSelectedClient(undefined);
       setNewOrder({
         orderNumber: '',
         clientName: '',
         requestedDeliveryDate: '',
         priority: 'medium',
-        status: 'pending',
+        status: 'draft',
         items: [],
         notes: ''
       });
       setShowAddModal(false);
       
-      console.log('Order created with ID:', docRef.id);
+      console.log('Order created with ID:', createdOrder.id);
     } catch (error) {
       console.error('Error creating order:', error);
       alert('Failed to create order. Please try again.');
@@ -667,7 +565,7 @@ export default function OrderTrackingView() {
               <div>
                 <p className="text-sm font-medium text-gray-500">In Processing</p>
                 <p className="text-3xl font-bold text-gray-900">
-                  {orders.filter(o => o.status === 'processing').length}
+                  {orders.filter(o => o.status === 'in_production').length}
                 </p>
               </div>
               <div className="bg-yellow-100 p-3 rounded-lg">
@@ -725,11 +623,9 @@ export default function OrderTrackingView() {
                 onChange={(e) => setStatusFilter(e.target.value)}
               >
                 <option value="all">All Status</option>
-                <option value="pending">Pending</option>
-                <option value="processing">Processing</option>
-                <option value="shipped">Shipped</option>
-                <option value="delivered">Delivered</option>
-                <option value="cancelled">Cancelled</option>
+                {ORDER_STATUSES.map(status => (
+                  <option key={status} value={status}>{ORDER_STATUS_LABELS[status]}</option>
+                ))}
               </select>
             </div>
 
@@ -821,9 +717,7 @@ export default function OrderTrackingView() {
                         <div>
                           <div className="flex items-center gap-3 mb-2">
                             <h3 className="text-xl font-semibold text-gray-900">{order.orderNumber}</h3>
-                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium border ${getStatusColor(order.status)}`}>
-                              {order.status.charAt(0).toUpperCase() + order.status.slice(1)}
-                            </span>
+                            <OrderStatusBadge status={order.status} />
                             <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ring-1 ring-inset ${getPriorityBadge(order.priority)}`}>
                               {order.priority.charAt(0).toUpperCase() + order.priority.slice(1)} Priority
                             </span>
@@ -851,20 +745,12 @@ export default function OrderTrackingView() {
                       </div>
 
                       <div className="flex items-center gap-2">
-                        {(order.status === 'pending' || order.status === 'processing') && (
-                          <select
-                            value={order.status}
-                            onChange={(e) => changeOrderStatus(order.id, e.target.value as Order['status'])}
-                            className="border border-gray-300 rounded px-3 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                            disabled={saving}
-                          >
-                            <option value="pending">Pending</option>
-                            <option value="processing">Processing</option>
-                            <option value="shipped">Shipped</option>
-                            <option value="delivered">Delivered</option>
-                            <option value="cancelled">Cancelled</option>
-                          </select>
-                        )}
+                        <OrderStatusSelect
+                          status={order.status}
+                          onChange={(status, reason) => changeOrderStatus(order.id, status, reason)}
+                          className="border border-gray-300 rounded px-3 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                          disabled={saving}
+                        />
                         
                         <button
                           onClick={() => setEditingOrder(order)}
@@ -1029,6 +915,20 @@ export default function OrderTrackingView() {
                       />
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Client
+                      </label>
+                      <ClientSelect
+                        value={selectedClient?.id}
+                        onSelect={(client) => {
+                          setSelectedClient(client);
+                          if (client) setNewOrder(prev => ({ ...prev, clientName: client.name }));
+                        }}
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+
                     <div>
                       <label className="block text-sm font-medium text-gray-700 mb-2">
                         Client Name *
@@ -13,25 +13,18 @@ import {
   Printer
 } from 'lucide-react';
 import { collection, query, where, getDocs, onSnapshot, orderBy } from 'firebase/firestore';
+import {
+  parseDocuments,
+  PersonnelMember as Employee,
+  personnelSchema,
+  WorkSchedule,
+  workScheduleSchema
+} from '@shared/domain';
 import { db } from '../../lib/firebase';
 import { format, startOfMonth, endOfMonth, parseISO } from 'date-fns';
 import { jsPDF } from 'jspdf';
 import 'jspdf-autotable';
 
-// Employee interface
-interface Employee {
-  id: string;
-  firstName: string;
-  lastName: string;
-  position: string;
-  department: string;
-  hourlyRate: number;
-  status: string;
-  email?: string;
-  phone?: string;
-  hireDate?: string;
-}
-
 interface PayrollData {
   employeeId: string;
   employee: Employee;
@@ -58,23 +51,6 @@ interface PayrollData {
   }>;
 }
 
-interface WorkSchedule {
-  id: string;
-  employeeId: string;
-  date: string;
-  entryTime: string;
-  exitTime: string;
-  pauseDuration: number;        // Minutes - unpaid break
-  machineCollapseDuration: number; // Minutes - half-paid breakdown
-  hoursWorked: number;
-  salary: number;
-  status: string;
-  notes?: string;
-  checked: boolean;
-  createdAt?: any;
-  updatedAt?: any;
-}
-
 const FicheDePaie: React.FC = () => {
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [schedules, setSchedules] = useState<WorkSchedule[]>([]);
@@ -90,10 +66,8 @@ const FicheDePaie: React.FC = () => {
     const unsubscribe = onSnapshot(
       query(collection(db, 'personnel'), where('status', '==', 'Active')),
       (snapshot) => {
-        const employeesData = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as Employee[];
+        const { items: employeesData, errors } = parseDocuments(personnelSchema, snapshot.docs, 'personnel');
+        errors.forEach(err => console.error(err.message, err.issues));
         
         console.log('👥 Employees loaded for payroll:', employeesData.length);
         setEmployees(employeesData);
@@ -123,10 +97,8 @@ const FicheDePaie: React.FC = () => {
         orderBy('date', 'desc')
       ),
       (snapshot) => {
-        const schedulesData = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as WorkSchedule[];
+        const { items: schedulesData, errors } = parseDocuments(workScheduleSchema, snapshot.docs, 'work_schedules');
+        errors.forEach(err => console.error(err.message, err.issues));
         
         console.log('📊 Work schedules loaded:', schedulesData.length);
         setSchedules(schedulesData);
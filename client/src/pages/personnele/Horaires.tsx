@@ -18,47 +18,26 @@ import {
   Settings
 } from 'lucide-react';
 import { db } from '../../lib/firebase';
+import { auditedAdd, auditedUpdate } from '../../lib/auditTrailService';
+import { RecordHistoryDrawer } from '../../components/audit/record-history-drawer';
 import { 
   collection, 
-  addDoc, 
-  updateDoc, 
-  deleteDoc, 
   doc, 
   onSnapshot,
   serverTimestamp,
-  Timestamp,
   query,
   where,
   orderBy 
 } from 'firebase/firestore';
-
-// Interfaces
-interface Employee {
-  id: string;
-  firstName: string;
-  lastName: string;
-  position: string;
-  department: string;
-  hourlyRate: number;
-  status: 'Active' | 'Inactive' | 'On Leave' | 'Fired' | 'Resigned';
-}
-
-interface WorkSchedule {
-  id?: string;
-  employeeId: string;
-  date: string;
-  entryTime: string;
-  exitTime: string;
-  pauseDuration: number; // in minutes
-  machineCollapseDuration: number; // in minutes
-  hoursWorked: number;
-  salary: number;
-  status: 'present' | 'absent' | 'late' | 'overtime';
-  notes?: string;
-  checked: boolean;
-  createdAt?: Timestamp;
-  updatedAt?: Timestamp;
-}
+import {
+  parseDocuments,
+  parseDomain,
+  PersonnelMember as Employee,
+  personnelSchema,
+  WorkSchedule,
+  workScheduleSchema,
+  workScheduleWriteSchema
+} from '@shared/domain';
 
 const Horaires: React.FC = () => {
   // State management
@@ -85,10 +64,8 @@ const Horaires: React.FC = () => {
     const unsubscribeEmployees = onSnapshot(
       query(collection(db, 'personnel'), where('status', '==', 'Active')),
       (snapshot) => {
-        const employeesData = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as Employee[];
+        const { items: employeesData, errors } = parseDocuments(personnelSchema, snapshot.docs, 'personnel');
+        errors.forEach(err => console.error(err.message, err.issues));
         setEmployees(employeesData);
         setLoading(false);
       },
@@ -111,10 +88,8 @@ const Horaires: React.FC = () => {
         orderBy('createdAt', 'desc')
       ),
       (snapshot) => {
-        const schedulesData = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as WorkSchedule[];
+        const { items: schedulesData, errors } = parseDocuments(workScheduleSchema, snapshot.docs, 'work_schedules');
+        errors.forEach(err => console.error(err.message, err.issues));
         setSchedules(schedulesData);
       },
       (error) => {
@@ -372,7 +347,7 @@ const Horaires: React.FC = () => {
       // Update existing schedule or create new one
       if (existingSchedule?.id) {
         const finalData = {
-          ...updatedSchedule,
+          ...parseDomain(workScheduleWriteSchema.partial(), updatedSchedule, `work_schedules/${existingSchedule.id}`),
           updatedAt: serverTimestamp()
         };
         console.log('📝 UPDATING EXISTING SCHEDULE:', {
@@ -380,21 +355,25 @@ const Horaires: React.FC = () => {
           finalData,
           employee: `${employee.firstName} ${employee.lastName}`
         });
-        await updateDoc(doc(db, 'work_schedules', existingSchedule.id), finalData);
+        await auditedUpdate(doc(db, 'work_schedules', existingSchedule.id), finalData, {
+          label: `Horaires ${employee.firstName} ${employee.lastName} ${selectedDate}`
+        });
         console.log('✅ UPDATED SCHEDULE:', existingSchedule.id, finalData);
       } else {
         const baseSchedule = {
-          employeeId,
-          date: selectedDate,
-          entryTime,
-          exitTime,
-          pauseDuration: Number(pauseDuration),
-          machineCollapseDuration: Number(machineCollapseDuration),
-          hoursWorked: updatedSchedule.hoursWorked || 0,
-          salary: updatedSchedule.salary || 0,
-          status: updatedSchedule.status || 'absent' as const,
-          notes: updatedSchedule.notes || '',
-          checked: false,
+          ...parseDomain(workScheduleWriteSchema, {
+            employeeId,
+            date: selectedDate,
+            entryTime,
+            exitTime,
+            pauseDuration: Number(pauseDuration),
+            machineCollapseDuration: Number(machineCollapseDuration),
+            hoursWorked: updatedSchedule.hoursWorked || 0,
+            salary: updatedSchedule.salary || 0,
+            status: updatedSchedule.status || 'absent' as const,
+            notes: updatedSchedule.notes || '',
+            checked: false
+          }, 'work_schedules'),
           createdAt: serverTimestamp(),
           updatedAt: serverTimestamp()
         };
@@ -402,8 +381,10 @@ const Horaires: React.FC = () => {
           baseSchedule,
           employee: `${employee.firstName} ${employee.lastName}`
         });
-        const newDoc = await addDoc(collection(db, 'work_schedules'), baseSchedule);
-        console.log('✅ CREATED NEW SCHEDULE:', newDoc.id, baseSchedule);
+        const newId = await auditedAdd(collection(db, 'work_schedules'), baseSchedule, {
+          label: `Horaires ${employee.firstName} ${employee.lastName} ${selectedDate}`
+        });
+        console.log('✅ CREATED NEW SCHEDULE:', newId, baseSchedule);
       }
 
       // Clear local inputs after successful save
@@ -485,10 +466,10 @@ const Horaires: React.FC = () => {
 
     if (existingSchedule?.id) {
       try {
-        await updateDoc(doc(db, 'work_schedules', existingSchedule.id), {
+        await auditedUpdate(doc(db, 'work_schedules', existingSchedule.id), {
           checked: !existingSchedule.checked,
           updatedAt: serverTimestamp()
-        });
+        }, { label: `Horaires ${existingSchedule.date}` });
       } catch (error) {
         console.error('Error updating check status:', error);
         alert('Erreur lors de la mise à jour du statut. Veuillez réessayer.');
@@ -962,8 +943,8 @@ const Horaires: React.FC = () => {
                               <p><strong>Taux horaire:</strong> {employee.hourlyRate || 12} MAD</p>
                             </div>
                             <div>
-                              <p><strong>Créé le:</strong> {schedule.createdAt ? new Date(schedule.createdAt.seconds * 1000).toLocaleString('fr-FR') : 'N/A'}</p>
-                              <p><strong>Modifié le:</strong> {schedule.updatedAt ? new Date(schedule.updatedAt.seconds * 1000).toLocaleString('fr-FR') : 'N/A'}</p>
+                              <p><strong>Créé le:</strong> {schedule.createdAt ? new Date(schedule.createdAt).toLocaleString('fr-FR') : 'N/A'}</p>
+                              <p><strong>Modifié le:</strong> {schedule.updatedAt ? new Date(schedule.updatedAt).toLocaleString('fr-FR') : 'N/A'}</p>
                             </div>
                           </div>
                         )}
@@ -1014,6 +995,12 @@ const Horaires: React.FC = () => {
                            schedule?.checked ? 'Pointé ✓' : 'Pointer employé'}
                         </span>
                       </button>
+
+                      <RecordHistoryDrawer
+                        collection="work_schedules"
+                        docId={schedule?.id}
+                        label={`${employee.firstName} ${employee.lastName} - ${selectedDate}`}
+                      />
                     </div>
                   </div>
                 </div>
@@ -21,37 +21,15 @@ import {
   onSnapshot,
   query,
   orderBy,
-  where,
-  Timestamp 
+  where
 } from 'firebase/firestore';
-
-// Interfaces
-interface Employee {
-  id: string;
-  firstName: string;
-  lastName: string;
-  position: string;
-  department: string;
-  hourlyRate: number;
-  status: string;
-}
-
-interface WorkSchedule {
-  id: string;
-  employeeId: string;
-  date: string;
-  entryTime: string;
-  exitTime: string;
-  pauseDuration: number;
-  machineCollapseDuration: number;
-  hoursWorked: number;
-  salary: number;
-  status: 'present' | 'absent' | 'late' | 'overtime';
-  notes?: string;
-  checked: boolean;
-  createdAt: Timestamp;
-  updatedAt: Timestamp;
-}
+import {
+  parseDocuments,
+  PersonnelMember as Employee,
+  personnelSchema,
+  WorkSchedule,
+  workScheduleSchema
+} from '@shared/domain';
 
 interface EmployeeWorkSummary {
   employee: Employee;
@@ -91,10 +69,8 @@ const WorkHoursHistory: React.FC = () => {
     const unsubscribeEmployees = onSnapshot(
       collection(db, 'personnel'),
       (snapshot) => {
-        const employeesData = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as Employee[];
+        const { items: employeesData, errors } = parseDocuments(personnelSchema, snapshot.docs, 'personnel');
+        errors.forEach(err => console.error(err.message, err.issues));
         setEmployees(employeesData);
         setLoading(false);
       }
@@ -119,10 +95,8 @@ const WorkHoursHistory: React.FC = () => {
         orderBy('date', 'desc')
       ),
       (snapshot) => {
-        const schedulesData = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        })) as WorkSchedule[];
+        const { items: schedulesData, errors } = parseDocuments(workScheduleSchema, snapshot.docs, 'work_schedules');
+        errors.forEach(err => console.error(err.message, err.issues));
         
         console.log('📊 FETCHED SCHEDULES DATA:', {
           totalRecords: schedulesData.length,
@@ -19,34 +19,15 @@ import {
   deleteDoc, 
   doc, 
   onSnapshot,
-  serverTimestamp,
-  Timestamp 
+  serverTimestamp
 } from 'firebase/firestore';
-
-// Worker interface to define worker structure
-interface Worker {
-  id: string;
-  firstName: string;
-  lastName: string;
-  email?: string;
-  position: 'Operator' | 'Supervisor' | 'Manager' | 'Quality Controller' | 'Packer' | 'Driver';
-  department: 'Production' | 'Quality Control' | 'Packaging' | 'Logistics' | 'Administration';
-  phoneNumber: string;
-  address?: string;
-  hireDate: string;
-  fireDate?: string;
-  salary?: number;
-  hourlyRate?: number;
-  status: 'Active' | 'Inactive' | 'On Leave' | 'Fired' | 'Resigned';
-  emergencyContact?: {
-    name: string;
-    phone: string;
-    relationship: string;
-  };
-  notes?: string;
-  createdAt?: Timestamp;
-  updatedAt?: Timestamp;
-}
+import {
+  parseDocuments,
+  parseDomain,
+  PersonnelMember as Worker,
+  personnelSchema,
+  personnelWriteSchema
+} from '@shared/domain';
 
 const PersonnelManagement: React.FC = () => {
   // State to manage workers
@@ -96,10 +77,8 @@ const PersonnelManagement: React.FC = () => {
   // Firebase functions
   useEffect(() => {
     const unsubscribe = onSnapshot(collection(db, 'personnel'), (snapshot) => {
-      const workersData = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      })) as Worker[];
+      const { items: workersData, errors } = parseDocuments(personnelSchema, snapshot.docs, 'personnel');
+      errors.forEach(err => console.error(err.message, err.issues));
       setWorkers(workersData);
       setLoading(false);
     });
@@ -111,7 +90,7 @@ const PersonnelManagement: React.FC = () => {
   const saveWorkerToFirebase = async (workerData: Omit<Worker, 'id'>) => {
     try {
       const docData = {
-        ...workerData,
+        ...parseDomain(personnelWriteSchema, workerData, 'personnel'),
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp()
       };
@@ -125,8 +104,9 @@ const PersonnelManagement: React.FC = () => {
   // Update worker in Firebase
   const updateWorkerInFirebase = async (workerId: string, workerData: Partial<Worker>) => {
     try {
+      const { id, createdAt, updatedAt, ...fields } = workerData;
       const docData = {
-        ...workerData,
+        ...parseDomain(personnelWriteSchema.partial(), fields, `personnel/${workerId}`),
         updatedAt: serverTimestamp()
       };
       await updateDoc(doc(db, 'personnel', workerId), docData);
@@ -426,12 +406,14 @@ const PersonnelManagement: React.FC = () => {
               relationship: typeof row['Emergency Contact Relationship'] === 'string' ? row['Emergency Contact Relationship'] : '',
             },
             notes: typeof row['Notes'] === 'string' ? row['Notes'] : '',
-            createdAt: serverTimestamp() as unknown as Timestamp,
-            updatedAt: serverTimestamp() as unknown as Timestamp,
           };
           // Only skip if both first and last name are missing
           if (worker.firstName || worker.lastName) {
-            await addDoc(collection(db, 'personnel'), worker);
+            await addDoc(collection(db, 'personnel'), {
+              ...parseDomain(personnelWriteSchema, worker, 'personnel (import)'),
+              createdAt: serverTimestamp(),
+              updatedAt: serverTimestamp()
+            });
             added++;
           }
         }
@@ -1,13 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { Save, FilePlus, RefreshCw, Check, Calendar, Package, User, Thermometer, Plus, Copy, X, Trash2, Edit } from 'lucide-react';
+import { Save, FilePlus, RefreshCw, Check, Calendar, Package, User, Thermometer, Plus, Copy, X, Trash2, Edit, Barcode } from 'lucide-react';
+import { useLocation } from 'wouter';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import { firestore } from '../../lib/firebase';
 import { saveQualityControlLot } from '../../lib/qualityControlService';
+import { auditedSet } from '../../lib/auditTrailService';
+import { RecordHistoryDrawer } from '../../components/audit/record-history-drawer';
+import { SignaturePanel } from '../../components/signatures/signature-panel';
+import { formatSignedAt } from '../../lib/signatureService';
 import {
   collection,
   doc,
-  setDoc,
   getDoc,
   onSnapshot,
   addDoc,
@@ -17,40 +21,17 @@ import {
 } from 'firebase/firestore';
 import { useSharedLots } from '../../hooks/useSharedLots';
 import { SharedLot } from '../../lib/sharedLotService';
+import { deriveProductionEdges, syncGenealogySource } from '../../lib/lotGenealogyService';
+import { deriveProductionMovements, getStorageLocations, StorageLocation, syncStockMovements } from '../../lib/stockLedgerService';
+import { issuePalletSsccs, syncProductionPallets } from '../../lib/palletRegistryService';
+import { emptyQualityPalette, ProductionFormData, ProductionLotStatus } from '@shared/domain';
 
 // Production Lot Interface
 interface ProductionLot {
   id: string;
   lotNumber: string;
-  status: 'brouillon' | 'en_cours' | 'termine';
-  formData: {
-    headerData: {
-      date: string;
-      produit: string;
-      numeroLotClient: string;
-      typeProduction: string;
-    };
-    calibreData: { [key: string]: number };
-    nombrePalettes: string;
-    productionRows: Array<{
-      numero: number;
-      date: string;
-      heure: string;
-      calibre: string;
-      poidsBrut: string;
-      poidsNet: string;
-      numeroLotInterne: string;
-      variete: string;
-      nbrCP: string;
-      chambreFroide: string;
-      decision: string;
-    }>;
-    visas: {
-      controleurQualite: string;
-      responsableQualite: string;
-      directeurOperationnel: string;
-    };
-  };
+  status: ProductionLotStatus;
+  formData: ProductionFormData;
   createdAt: string;
   updatedAt: string;
 }
@@ -69,12 +50,16 @@ const SuiviProduction = () => {
 
   // Get only production lots
   const lots = getProductionLots();
+  const [, setLocation] = useLocation();
+  // Signed sheets are read-only until reopened (see SignaturePanel)
+  const isLocked = !!lots.find(lot => lot.id === currentLotId)?.locked;
   const [currentLotId, setCurrentLotId] = useState<string>('');
   const [filteredRapports, setFilteredRapports] = useState<any[]>([]);
 
   // Legacy states for compatibility (now managed per lot)
   const [isSaving, setIsSaving] = useState(false);
   const [isGeneratingPDF, setIsGeneratingPDF] = useState(false);
+  const [isIssuingLabels, setIsIssuingLabels] = useState(false);
   const [showSuccessMessage, setShowSuccessMessage] = useState(false);
   const loading = sharedLoading;
   const error = sharedError;
@@ -83,9 +68,11 @@ const SuiviProduction = () => {
     'Hass', 'Fuerte', 'Pinkerton', 'Reed', 'Zutano', 'Bacon', 'Gwen', 'Lamb Hass'
   ];
 
-  const chambresFreides = [
-    'CF-01', 'CF-02', 'CF-03', 'CF-04', 'CF-05', 'CF-06'
-  ];
+  // Chambres froides are the entrepôts (by code) so the stock ledger can place the pallets
+  const [storageLocations, setStorageLocations] = useState<StorageLocation[]>([]);
+  const chambresFreides = storageLocations.length > 0
+    ? storageLocations.map(location => location.code || location.name)
+    : ['CF-01', 'CF-02', 'CF-03', 'CF-04', 'CF-05', 'CF-06'];
 
   const decisions = [
     'ACCEPTÉ', 'REFUSÉ', 'EN ATTENTE', 'CONDITIONNEL'
@@ -197,7 +184,7 @@ const SuiviProduction = () => {
   };
 
   const updateCurrentLotData = async (updates: Partial<ProductionLot['formData']>) => {
-    if (!currentLotId) return;
+    if (!currentLotId || isLocked) return;
     
     const currentLot = getCurrentLot();
     if (!currentLot) return;
@@ -271,7 +258,7 @@ const SuiviProduction = () => {
           category: 'I',
           exporterNumber: '106040',
           frequency: '1 Carton/palette',
-          palettes: Array.from({ length: 5 }, () => ({}))
+          palettes: Array.from({ length: 5 }, emptyQualityPalette)
         } as any;
 
         await saveQualityControlLot({
@@ -381,15 +368,6 @@ const SuiviProduction = () => {
     });
   };
 
-  const handleVisaChange = (field: string, value: string) => {
-    updateCurrentLotData({
-      visas: {
-        ...getCurrentFormData().visas,
-        [field]: value
-      }
-    });
-  };
-
   const calculateTotals = () => {
     const currentData = getCurrentFormData();
     
@@ -707,12 +685,18 @@ const SuiviProduction = () => {
       const sigHeight = 22;
       const sigSpacing = 5;
       
-      // Signature boxes with enhanced styling
+      // Signature boxes with enhanced styling. Electronic visas show the signer and date,
+      // sheets signed before them keep their free-text visa.
+      const visas = lots.find(lot => lot.id === currentLotId)?.signatures || {};
       const signatures = [
-        { label: 'Visa contrôleur de Qualité :', value: currentData.visas.controleurQualite || '' },
-        { label: 'VISA Responsable Qualité :', value: currentData.visas.responsableQualite || '' },
-        { label: 'Visa Directeur opérationnel :', value: currentData.visas.directeurOperationnel || '' }
-      ];
+        { label: 'Visa contrôleur de Qualité :', key: 'controleurQualite' as const },
+        { label: 'VISA Responsable Qualité :', key: 'responsableQualite' as const },
+        { label: 'Visa Directeur opérationnel :', key: 'directeurOperationnel' as const }
+      ].map(({ label, key }) => ({
+        label,
+        value: visas[key]?.signerName || currentData.visas[key] || '',
+        signedAt: visas[key] ? `Signé électroniquement le ${formatSignedAt(visas[key])}` : ''
+      }));
       
       signatures.forEach((sig, index) => {
         const sigX = margin + (index * (sigWidth + sigSpacing));
@@ -726,7 +710,8 @@ const SuiviProduction = () => {
         
         // Signature value or line
         if (sig.value) {
-          drawText(sig.value, sigX + 2, yPos + 16, 9, colors.primary, 'left', 'bold');
+          drawText(sig.value, sigX + 2, yPos + 14, 9, colors.primary, 'left', 'bold');
+          if (sig.signedAt) drawText(sig.signedAt, sigX + 2, yPos + 19, 6, colors.lightText, 'left');
         } else {
           // Draw signature line
           doc.setDrawColor(colors.border[0], colors.border[1], colors.border[2]);
@@ -804,6 +789,19 @@ const SuiviProduction = () => {
     // Update lot status to complete
     updateLotStatus(currentLot.id, 'termine');
 
+    // Record internal lot -> pallet links for traceability
+    const source = { collection: 'shared_lots', docId: currentLot.id };
+    syncGenealogySource(source, deriveProductionEdges({ lotNumber: currentLot.lotNumber, ...getCurrentFormData() }, source))
+      .catch(err => console.warn('Généalogie non synchronisée:', err));
+
+    // Pallets put in a chambre froide enter the stock ledger
+    syncStockMovements(source, deriveProductionMovements({ lotNumber: currentLot.lotNumber, ...getCurrentFormData() }, source))
+      .catch(err => console.warn('Registre de stock non synchronisé:', err));
+
+    // Labelled pallets follow the edits of their rows
+    syncProductionPallets({ id: currentLot.id, lotNumber: currentLot.lotNumber, formData: getCurrentFormData() })
+      .catch(err => console.warn('Registre des palettes non synchronisé:', err));
+
     // Save to localStorage for rapport section
     const rapportData = {
       ...currentLot.formData,
@@ -824,6 +822,28 @@ const SuiviProduction = () => {
     setFilteredRapports([rapportData]);
   };
 
+  // Give an SSCC to the pallets of the sheet that have none, then open their labels
+  const handlePrintLabels = async () => {
+    const currentLot = getCurrentLot();
+    if (!currentLot) return;
+
+    setIsIssuingLabels(true);
+    try {
+      const { rows, issued } = await issuePalletSsccs({
+        id: currentLot.id,
+        lotNumber: currentLot.lotNumber,
+        formData: getCurrentFormData()
+      });
+      if (issued.length > 0) await updateCurrentLotData({ productionRows: rows });
+      setLocation(`/palettes/etiquettes?lot=${currentLot.id}`);
+    } catch (error) {
+      console.error('Error issuing SSCC labels:', error);
+      alert(`Erreur lors de l'émission des étiquettes SSCC: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsIssuingLabels(false);
+    }
+  };
+
   // Save production data for public viewing (now to Firestore)
   const handleSavePublic = async () => {
     setIsSaving(true);
@@ -837,7 +857,9 @@ const SuiviProduction = () => {
         savedAt: new Date().toISOString(),
       };
       // Use current lot ID as document ID
-      await setDoc(doc(firestore, 'production_suivi', currentLot?.id || 'current'), data);
+      await auditedSet(doc(firestore, 'production_suivi', currentLot?.id || 'current'), data, {
+        label: `Suivi production ${currentLot?.lotNumber || ''}`.trim()
+      });
       alert('Production enregistrée et visible publiquement !');
     } catch (e: any) {
       console.error('Erreur lors de la sauvegarde Firestore:', e);
@@ -847,6 +869,12 @@ const SuiviProduction = () => {
     }
   };
 
+  useEffect(() => {
+    getStorageLocations()
+      .then(setStorageLocations)
+      .catch(err => console.warn('Entrepôts non chargés:', err));
+  }, []);
+
   // Auto-select first lot if none selected
   useEffect(() => {
     if (!currentLotId && productionLots.length > 0) {
@@ -975,6 +1003,7 @@ const SuiviProduction = () => {
               </div>
             </div>
 
+            <fieldset disabled={isLocked} className="min-w-0">
             {/* Form Fields */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 w-full max-w-4xl mt-6">
               <div className="p-4 bg-gray-50 rounded-lg space-y-4">
@@ -1078,6 +1107,7 @@ const SuiviProduction = () => {
                 ))}
               </div>
             </div>
+            </fieldset>
           </div>
           
           {/* Action Buttons */}
@@ -1121,6 +1151,19 @@ const SuiviProduction = () => {
               <Save size={20} />
               Sauvegarder & Rendre Public
             </button>
+            <button
+              onClick={handlePrintLabels}
+              disabled={isIssuingLabels || isLocked || !getCurrentLot()}
+              className="flex items-center gap-2 bg-gray-800 text-white px-6 py-3 rounded-lg hover:bg-gray-900 transition-all transform hover:scale-105 disabled:bg-gray-400 disabled:transform-none shadow-lg hover:shadow-xl"
+            >
+              <Barcode size={20} />
+              {isIssuingLabels ? 'Émission...' : 'Étiquettes SSCC'}
+            </button>
+            <RecordHistoryDrawer
+              collection="production_suivi"
+              docId={getCurrentLot()?.id || 'current'}
+              label={getCurrentLot()?.lotNumber}
+            />
           </div>
         </div>
         
@@ -1134,7 +1177,7 @@ const SuiviProduction = () => {
         )}
         
         {/* Production Table */}
-        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        <fieldset disabled={isLocked} className="min-w-0 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
           <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-200">
               <thead className="bg-gray-50">
@@ -1242,6 +1285,9 @@ const SuiviProduction = () => {
                         {chambresFreides.map((chambre) => (
                           <option key={chambre} value={chambre}>{chambre}</option>
                         ))}
+                        {row.chambreFroide && !chambresFreides.includes(row.chambreFroide) && (
+                          <option value={row.chambreFroide}>{row.chambreFroide}</option>
+                        )}
                       </select>
                     </td>
                     <td className="px-3 py-2">
@@ -1266,7 +1312,7 @@ const SuiviProduction = () => {
               </tbody>
             </table>
           </div>
-        </div>
+        </fieldset>
         
         {/* Totals and Visas */}
         <div className="mt-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -1291,42 +1337,7 @@ const SuiviProduction = () => {
           
           {/* Visas */}
           <div className="p-6 bg-green-50 rounded-lg">
-            <h3 className="text-lg font-semibold text-gray-800 mb-4">Visas</h3>
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Visa Directeur opérationnel
-                </label>
-                <input
-                  type="text"
-                  value={currentData.visas?.directeurOperationnel || ''}
-                  onChange={(e) => handleVisaChange('directeurOperationnel', e.target.value)}
-                  className="w-full p-2 rounded border border-gray-300 focus:ring-1 focus:ring-green-500 focus:border-green-500"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Visa contrôleur de Qualité
-                </label>
-                <input
-                  type="text"
-                  value={currentData.visas?.controleurQualite || ''}
-                  onChange={(e) => handleVisaChange('controleurQualite', e.target.value)}
-                  className="w-full p-2 rounded border border-gray-300 focus:ring-1 focus:ring-green-500 focus:border-green-500"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  VISA Responsable Qualité
-                </label>
-                <input
-                  type="text"
-                  value={currentData.visas?.responsableQualite || ''}
-                  onChange={(e) => handleVisaChange('responsableQualite', e.target.value)}
-                  className="w-full p-2 rounded border border-gray-300 focus:ring-1 focus:ring-green-500 focus:border-green-500"
-                />
-              </div>
-            </div>
+            <SignaturePanel kind="production" docId={currentLotId || undefined} />
           </div>
         </div>
         
@@ -1,290 +1,319 @@
-import React, { useState } from "react";
-import { useForm } from "react-hook-form";
-import { jsPDF } from "jspdf";
-import "jspdf-autotable";
-import autoTable from "jspdf-autotable";
-declare module "jspdf" {
-  interface jsPDF {
-    lastAutoTable: {
-      finalY: number;
-    };
-  }
-}
-import logo from "../../../assets/logo.png"; // Adjust the path to your logo image
-// Define the logo variable with a placeholder path or base64 string
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, FileDown, RefreshCw, Save, Scale } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  getMassBalanceReport,
+  MASS_BALANCE_STATUS_LABELS,
+  MassBalanceLine,
+  MassBalanceReport,
+  MassBalanceStatus,
+  saveMassBalanceSettings,
+  sumMassBalances,
+} from "@/lib/massBalanceService";
+import { generateMassBalancePDF } from "@/lib/massBalancePDF";
+import { DomainValidationError } from "@shared/domain";
+
+type View = 'receptionLots' | 'internalLots';
 
-type ReportData = {
-  date: string;
-  employee: string;
-  notes?: string;
-  entrants: number;
-  emballes: number;
-  dechets: number;
-  pertes: number;
-  tauxDechets: string;
-  tauxPertes: string;
+const VIEW_LABELS: Record<View, string> = {
+  receptionLots: 'Lots réception',
+  internalLots: 'Lots internes'
 };
 
-const calculedeconsomation = () => {
-  const { register, handleSubmit, reset } = useForm();
-  const [result, setResult] = useState<ReportData | null>(null);
+const STATUS_VARIANTS: Record<MassBalanceStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  conforme: 'secondary',
+  perte: 'destructive',
+  excedent: 'destructive',
+  en_cours: 'outline',
+  incomplet: 'outline'
+};
 
-  const onSubmit = (data) => {
-    const entrants = parseFloat(data.entrants);
-    const emballes = parseFloat(data.emballes);
-    const dechets = parseFloat(data.dechets);
+const kg = (value: number) => value.toLocaleString('fr-FR', { maximumFractionDigits: 1 });
+const rate = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}%`);
 
-    const pertes = entrants - emballes - dechets;
-    const tauxDechets = ((dechets / entrants) * 100).toFixed(2);
-    const tauxPertes = ((pertes / entrants) * 100).toFixed(2);
+const monthAgo = () => new Date(Date.now() - 30 * 24 * 3600 * 1000).toISOString().slice(0, 10);
 
-    const final: ReportData = {
-      ...data,
-      pertes,
-      tauxDechets,
-      tauxPertes,
-    };
+function LineDetail({ line, view }: { line: MassBalanceLine; view: View }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+      <div>
+        <p className="font-medium mb-1">Emballé par calibre</p>
+        {line.packedByCalibre.length === 0 ? <p className="text-gray-500">-</p> : (
+          <ul className="space-y-0.5">
+            {line.packedByCalibre.map(c => (
+              <li key={c.calibre}>{c.calibre} : {kg(c.kg)} kg, {Math.round(c.packages)} colis</li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div>
+        <p className="font-medium mb-1">Déchets par nature</p>
+        {line.wasteByNature.length === 0 ? <p className="text-gray-500">-</p> : (
+          <ul className="space-y-0.5">
+            {line.wasteByNature.map(n => <li key={n.nature}>{n.nature} : {kg(n.kg)} kg</li>)}
+          </ul>
+        )}
+      </div>
+      <div>
+        <p className="font-medium mb-1">{view === 'receptionLots' ? 'Lots internes' : 'Lots réception'}</p>
+        <p>{line.linkedLots.map(l => l.label).join(', ') || '-'}</p>
+        <p className="mt-2"><span className="font-medium">Colis expédiés :</span> {Math.round(line.shippedPackages)}</p>
+        {line.packedByDate.length > 0 && (
+          <p><span className="font-medium">Emballé le :</span> {line.packedByDate.map(d => d.date).join(', ')}</p>
+        )}
+      </div>
+    </div>
+  );
+}
 
-    setResult(final);
+// Bilan matière: each lot reconciled from the weights recorded on the reception,
+// production and waste sheets (see massBalanceService)
+const calculedeconsomation = () => {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  // The threshold decides which lots are investigated: a production manager decision
+  const canEditThreshold = can('production', 'approve');
+
+  const [report, setReport] = useState<MassBalanceReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [view, setView] = useState<View>('receptionLots');
+  const [search, setSearch] = useState('');
+  const [dateFrom, setDateFrom] = useState(monthAgo());
+  const [dateTo, setDateTo] = useState('');
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [threshold, setThreshold] = useState('');
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const loaded = await getMassBalanceReport();
+      setReport(loaded);
+      setThreshold(String(loaded.lossThresholdPct));
+    } catch (error) {
+      console.error('Error loading mass balance:', error);
+      toast({ title: "Erreur", description: "Impossible de calculer le bilan matière", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const generatePDF = () => {
-    if (!result) return;
-    
-    // Create new document with better page formatting
-    const doc = new jsPDF({
-      orientation: 'portrait',
-      unit: 'mm',
-      format: 'a4',
-      putOnlyUsedFonts: true
-    });
-  
-    // Set document properties
-    doc.setProperties({
-      title: `Rapport Journalier - ${result.date}`,
-      subject: 'Rapport de Production d\'Avocats',
-      author: 'Fruit For You',
-      creator: 'Système de Gestion'
-    });
-  
-    // Document styling constants
-    const colors = {
-      primary: [39, 174, 96],       // Green for header
-      secondary: [41, 128, 185],    // Blue for subheadings
-      text: [44, 62, 80],           // Dark blue-gray for text
-      light: [236, 240, 241]        // Light gray for backgrounds
-    };
-    
-    // Add logo image (replace with actual logo path or base64 string)
-    doc.addImage(logo, "PNG", 20, 15, 15, 15);
-    
-    // Header
-    doc.setFontSize(22);
-    doc.setTextColor(...colors.primary);
-    doc.setFont("helvetica", "bold");
-    doc.text("Rapport Journalier", 45, 25);
-    
-    doc.setFontSize(16);
-    doc.text("Usine de Traitement d'Avocats", 45, 32);
-    
-    // Add horizontal separator
-    doc.setDrawColor(...colors.primary);
-    doc.setLineWidth(0.5);
-    doc.line(20, 38, 190, 38);
-    
-    // Company information in a styled box
-    doc.setFillColor(...colors.light);
-    doc.roundedRect(20, 43, 170, 25, 3, 3, 'F');
-    
-    doc.setFontSize(10);
-    doc.setTextColor(...colors.text);
-    doc.setFont("helvetica", "bold");
-    doc.text("Entreprise:", 25, 50);
-    doc.text("Adresse:", 25, 56);
-    doc.text("Date de génération:", 25, 62);
-    
-    doc.setFont("helvetica", "normal");
-    doc.text("Fruit For You", 60, 50);
-    doc.text("Morocco, Kenitra, Birami", 60, 56);
-    doc.text(new Date().toLocaleDateString('fr-FR', {
-      day: '2-digit',
-      month: 'long',
-      year: 'numeric'
-    }), 60, 62);
-    
-    // Report details section
-    doc.setFillColor(...colors.secondary);
-    doc.rect(20, 75, 170, 8, 'F');
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(12);
-    doc.setFont("helvetica", "bold");
-    doc.text("DÉTAILS DU RAPPORT", 105, 80, { align: 'center' });
-    
-    // Report attributes with icons
-    doc.setTextColor(...colors.text);
-    doc.setFontSize(11);
-    doc.setFont("helvetica", "bold");
-    
-    doc.text("  Date:", 25, 95);
-    doc.text("  Employé:", 25, 103);
-    doc.text("  Notes:", 25, 111);
-    
-    doc.setFont("helvetica", "normal");
-    doc.text(result.date, 60, 95);
-    doc.text(result.employee, 60, 103);
-    
-    // Handle multiline notes
-    const splitNotes = doc.splitTextToSize(result.notes || "Aucune note fournie", 130);
-    doc.text(splitNotes, 60, 111);
-    
-    // Production data section title
-    doc.setFillColor(...colors.secondary);
-    doc.rect(20, 125, 170, 8, 'F');
-    doc.setTextColor(255, 255, 255);
-    doc.setFontSize(12);
-    doc.setFont("helvetica", "bold");
-    doc.text("DONNÉES DE PRODUCTION", 105, 130, { align: 'center' });
-    
-    // Data table
-    autoTable(doc, {
-      startY: 140,
-      head: [['Description', 'Quantité (kg)']],
-      body: [
-        ['Avocats entrants', `${result.entrants} kg`],
-        ['Avocats emballés', `${result.emballes} kg`],
-        ['Déchets', `${result.dechets} kg`],
-        ['Pertes inconnues', `${result.pertes.toFixed(2)} kg`],
-      ],
-      theme: 'grid',
-      headStyles: { 
-        fillColor: colors.primary,
-        textColor: 255, 
-        fontSize: 12,
-        fontStyle: 'bold',
-        halign: 'center'
-      },
-      bodyStyles: { 
-        fontSize: 11, 
-        textColor: colors.text,
-        lineWidth: 0.1,
-        lineColor: [220, 220, 220]
-      },
-      alternateRowStyles: {
-        fillColor: [249, 249, 249]
-      },
-      margin: { top: 10, left: 20, right: 20 },
-      styles: {
-        overflow: 'linebreak',
-        cellPadding: 5,
-      },
-      columnStyles: {
-        0: { fontStyle: 'bold' },
-        1: { halign: 'center' }
-      }
+  useEffect(() => {
+    load();
+  }, []);
+
+  const lines = useMemo(() => {
+    if (!report) return [];
+    const term = search.trim().toLowerCase();
+    return report[view].filter(line => {
+      if (flaggedOnly && line.status !== 'perte' && line.status !== 'excedent') return false;
+      if (dateFrom && (!line.date || line.date < dateFrom)) return false;
+      if (dateTo && (!line.date || line.date > dateTo)) return false;
+      if (!term) return true;
+      return [line.lot.label, line.variety, ...line.linkedLots.map(l => l.label)]
+        .some(value => (value || '').toLowerCase().includes(term));
     });
-    
-    // Add key metrics in visual boxes
-    const metricsY = doc.lastAutoTable.finalY + 15;
-    
-    // Waste rate box
-    doc.setFillColor(...colors.light);
-    doc.roundedRect(20, metricsY, 80, 35, 3, 3, 'F');
-    
-    doc.setFont("helvetica", "bold");
-    doc.setTextColor(...colors.secondary);
-    doc.setFontSize(12);
-    doc.text("TAUX DE DÉCHETS", 60, metricsY + 10, { align: 'center' });
-    
-    doc.setTextColor(...colors.primary);
-    doc.setFontSize(20);
-    doc.text(`${result.tauxDechets}%`, 60, metricsY + 25, { align: 'center' });
-    
-    // Loss rate box
-    doc.setFillColor(...colors.light);
-    doc.roundedRect(110, metricsY, 80, 35, 3, 3, 'F');
-    
-    doc.setFont("helvetica", "bold");
-    doc.setTextColor(...colors.secondary);
-    doc.setFontSize(12);
-    doc.text("TAUX DE PERTES", 150, metricsY + 10, { align: 'center' });
-    
-    doc.setTextColor(...colors.primary);
-    doc.setFontSize(20);
-    doc.text(`${result.tauxPertes}%`, 150, metricsY + 25, { align: 'center' });
-    
-    // Signature section
-    const signatureY = metricsY + 50;
-    doc.setDrawColor(...colors.text);
-    doc.setLineWidth(0.2);
-    
-    doc.setTextColor(...colors.text);
-    doc.setFontSize(10);
-    doc.setFont("helvetica", "bold");
-    doc.text("Signature du Responsable:", 20, signatureY);
-    
-    doc.line(20, signatureY + 15, 80, signatureY + 15);
-    
-    
-    doc.line(100, signatureY + 15, 160, signatureY + 15);
-    
-    // Footer
-    doc.setDrawColor(...colors.primary);
-    doc.setLineWidth(0.5);
-    doc.line(20, 270, 190, 270);
-    
-    doc.setFontSize(8);
-    doc.setTextColor(...colors.text);
-    doc.setFont("helvetica", "italic");
-    doc.text("Fruit For You - Rapport généré automatiquement", 105, 275, { align: 'center' });
-    doc.text("Ce document est confidentiel et à usage interne uniquement", 105, 280, { align: 'center' });
-    
-    // Page numbering
-    const pageCount = doc.internal.getNumberOfPages();
-    for (let i = 1; i <= pageCount; i++) {
-      doc.setPage(i);
-      doc.setFontSize(8);
-      doc.setTextColor(...colors.text);
-      doc.text(`Page ${i} sur ${pageCount}`, 190, 287, { align: 'right' });
+  }, [report, view, search, dateFrom, dateTo, flaggedOnly]);
+
+  const totals = sumMassBalances(lines);
+  const flaggedCount = lines.filter(line => line.status === 'perte' || line.status === 'excedent').length;
+
+  const handleSaveThreshold = async () => {
+    const value = parseFloat(threshold.replace(',', '.'));
+    try {
+      await saveMassBalanceSettings({ lossThresholdPct: value });
+      toast({ title: "Seuil enregistré", description: `Perte inexpliquée tolérée : ${value}%` });
+      await load();
+    } catch (error) {
+      console.error('Error saving mass balance settings:', error);
+      toast({
+        title: "Erreur",
+        description: error instanceof DomainValidationError ? "Le seuil doit être compris entre 0 et 100%" : "Impossible d'enregistrer le seuil",
+        variant: "destructive"
+      });
     }
-    
-    // Save the PDF with a well-formatted name
-    const formattedDate = result.date.replace(/\//g, '-');
-    doc.save(`Rapport_Production_Avocats_${formattedDate}.pdf`);
   };
 
-  return (
-    <div className="p-6 max-w-2xl mx-auto bg-gradient-to-r from-green-50 to-blue-50 rounded-xl shadow-lg space-y-6">
-      <h2 className="text-2xl font-extrabold text-center text-gray-800">Formulaire de Rapport Journalier</h2>
+  const handleExport = () => {
+    if (!report) return;
+    generateMassBalancePDF(lines, {
+      title: VIEW_LABELS[view],
+      period: `${dateFrom || 'début'} au ${dateTo || new Date().toISOString().slice(0, 10)}`,
+      lossThresholdPct: report.lossThresholdPct
+    });
+  };
 
-      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <input type="date" {...register("date")} required className="input border border-gray-300 rounded-lg p-2" />
-          <input type="text" placeholder="Employé" {...register("employee")} required className="input border border-gray-300 rounded-lg p-2" />
-        </div>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <input type="number" step="0.01" placeholder="Avocats entrants (kg)" {...register("entrants")} required className="input border border-gray-300 rounded-lg p-2" />
-          <input type="number" step="0.01" placeholder="Avocats emballés (kg)" {...register("emballes")} required className="input border border-gray-300 rounded-lg p-2" />
-          <input type="number" step="0.01" placeholder="Déchets (kg)" {...register("dechets")} required className="input border border-gray-300 rounded-lg p-2" />
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Scale className="h-6 w-6" />
+          Bilan matière et rendement
+        </h1>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={load} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Actualiser
+          </Button>
+          <Button onClick={handleExport} disabled={!report || lines.length === 0}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Générer PDF
+          </Button>
         </div>
-        <textarea placeholder="Notes" {...register("notes")} className="input border border-gray-300 rounded-lg p-2 w-full" />
+      </div>
 
-        <div className="flex justify-between items-center">
-          <button type="submit" className="bg-green-600 hover:bg-green-700 text-white px-6 py-2 rounded-lg shadow">Calculer</button>
-          <button type="button" onClick={() => reset()} className="bg-gray-400 hover:bg-gray-500 text-white px-6 py-2 rounded-lg shadow">Réinitialiser</button>
-        </div>
-      </form>
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-6 gap-4 items-end">
+          <div>
+            <Label>Vue</Label>
+            <select
+              value={view}
+              onChange={(e) => {
+                setView(e.target.value as View);
+                setExpanded(null);
+              }}
+              className="w-full h-10 px-3 border rounded-md bg-background"
+            >
+              {(Object.keys(VIEW_LABELS) as View[]).map(v => <option key={v} value={v}>{VIEW_LABELS[v]}</option>)}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <Label>Recherche (lot, variété)</Label>
+            <Input value={search} onChange={(e) => setSearch(e.target.value)} />
+          </div>
+          <div>
+            <Label>Du</Label>
+            <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label>Au</Label>
+            <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+          </div>
+          <label className="flex items-center gap-2 h-10 text-sm">
+            <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} />
+            Lots signalés uniquement
+          </label>
+        </CardContent>
+      </Card>
 
-      {result && (
-        <div className="mt-6 border-t pt-6 space-y-4">
-          <h3 className="text-lg font-semibold text-gray-700">Résultats</h3>
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <p><strong>Pertes:</strong> {result.pertes.toFixed(2)} kg</p>
-            <p><strong>% Déchets:</strong> {result.tauxDechets}%</p>
-            <p><strong>% Pertes:</strong> {result.tauxPertes}%</p>
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        {[
+          ['Entrée', `${kg(totals.receivedKg)} kg`],
+          ['Emballé', `${kg(totals.packedKg)} kg`],
+          ['Déchets', `${kg(totals.wasteKg)} kg`],
+          ['Perte inexpliquée', `${kg(totals.unexplainedKg)} kg`],
+          ['Rendement', rate(totals.yieldPct)],
+          ['Lots signalés', String(flaggedCount)],
+        ].map(([label, value]) => (
+          <Card key={label}>
+            <CardContent className="pt-4">
+              <p className="text-xs text-gray-500">{label}</p>
+              <p className="text-lg font-semibold">{value}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Seuil de perte inexpliquée</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-4">
+          <div>
+            <Label>Perte tolérée (% des kg reçus)</Label>
+            <Input
+              type="number"
+              step="0.1"
+              min="0"
+              max="100"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              disabled={!canEditThreshold}
+              className="w-40"
+            />
           </div>
-          <button onClick={generatePDF} className="mt-4 bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg shadow">Générer PDF</button>
-        </div>
-      )}
+          {canEditThreshold && (
+            <Button onClick={handleSaveThreshold} disabled={!threshold}>
+              <Save className="h-4 w-4 mr-2" />
+              Enregistrer
+            </Button>
+          )}
+          <p className="text-sm text-gray-500">
+            Un lot est signalé quand ses kilos reçus moins les kilos emballés et les déchets s'écartent de plus de ce seuil.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading && !report ? (
+            <p className="text-sm text-gray-500">Calcul du bilan matière...</p>
+          ) : lines.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucun lot sur cette période.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Variété</TableHead>
+                  <TableHead className="text-right">Entrée (kg)</TableHead>
+                  <TableHead className="text-right">Emballé (kg)</TableHead>
+                  <TableHead className="text-right">Colis</TableHead>
+                  <TableHead className="text-right">Déchets (kg)</TableHead>
+                  <TableHead className="text-right">Perte (kg)</TableHead>
+                  <TableHead className="text-right">Rendement</TableHead>
+                  <TableHead className="text-right">Perte</TableHead>
+                  <TableHead>Statut</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(line => (
+                  <React.Fragment key={line.key}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(expanded === line.key ? null : line.key)}
+                    >
+                      <TableCell>
+                        {expanded === line.key ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell className="font-medium">{line.lot.label}</TableCell>
+                      <TableCell>{line.date || '-'}</TableCell>
+                      <TableCell>{line.variety || '-'}</TableCell>
+                      <TableCell className="text-right">{kg(line.receivedKg)}</TableCell>
+                      <TableCell className="text-right">{kg(line.packedKg)}</TableCell>
+                      <TableCell className="text-right">{Math.round(line.packedPackages)}</TableCell>
+                      <TableCell className="text-right">{kg(line.wasteKg)}</TableCell>
+                      <TableCell className="text-right">{kg(line.unexplainedKg)}</TableCell>
+                      <TableCell className="text-right">{rate(line.yieldPct)}</TableCell>
+                      <TableCell className="text-right">{rate(line.lossPct)}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[line.status]}>{MASS_BALANCE_STATUS_LABELS[line.status]}</Badge>
+                      </TableCell>
+                    </TableRow>
+                    {expanded === line.key && (
+                      <TableRow>
+                        <TableCell />
+                        <TableCell colSpan={11}>
+                          <LineDetail line={line} view={view} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -9,10 +9,12 @@ import {
   ChevronDown,
   ChevronUp,
   RefreshCw,
+  Scale,
   X
 } from 'lucide-react';
 import { collection, getDocs, addDoc, updateDoc, doc } from "firebase/firestore";
 import { db } from "../../lib/firebase";
+import { getMassBalanceReport, massBalancesPackedOn, MassBalanceLine, packedOn } from "../../lib/massBalanceService";
 import styled, { createGlobalStyle } from 'styled-components';
 
 // Global styles for animations
@@ -37,6 +39,8 @@ export default function historiquedeconsomation() {
   const [lowStockAlerts, setLowStockAlerts] = useState([]);
   const [animateItems, setAnimateItems] = useState(false);
   const [expanded, setExpanded] = useState(true);
+  const [packedLots, setPackedLots] = useState<MassBalanceLine[]>([]);
+  const [packedLotsAvailable, setPackedLotsAvailable] = useState<MassBalanceLine[] | null>(null);
 
   // Fetch materials from Firestore when component mounts
   useEffect(() => {
@@ -86,6 +90,20 @@ export default function historiquedeconsomation() {
     fetchMaterials();
   }, []);
 
+  // Mass balance of the internal lots packed on the selected day, to set the packaging
+  // consumption against the colis actually produced
+  useEffect(() => {
+    getMassBalanceReport()
+      .then(report => setPackedLotsAvailable(report.internalLots))
+      .catch(error => console.warn('Bilan matière indisponible:', error));
+  }, []);
+
+  useEffect(() => {
+    setPackedLots(selectedDate && packedLotsAvailable ? massBalancesPackedOn(packedLotsAvailable, selectedDate) : []);
+  }, [selectedDate, packedLotsAvailable]);
+
+  const dayPacked = packedOn(packedLots, selectedDate);
+
   // Calculate remaining stock for a material
   const calculateRemainingStock = (material) => {
     const consumed = consumption[material.id] || 0;
@@ -326,6 +344,32 @@ export default function historiquedeconsomation() {
           </div>
         </div>
 
+        {/* Mass balance of the day */}
+        {selectedDate && packedLots.length > 0 && (
+          <div className="mb-6 bg-white rounded-lg shadow-sm p-5">
+            <div className="flex items-center gap-2 mb-3 text-gray-700">
+              <Scale className="text-green-600" />
+              <span className="font-medium">Bilan matière du jour ({packedLots.length} lot{packedLots.length > 1 ? 's' : ''} emballé{packedLots.length > 1 ? 's' : ''})</span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+              <div className="bg-gray-50 p-2 rounded">
+                <p className="text-xs text-gray-500">Colis emballés</p>
+                <p className="font-medium">{Math.round(dayPacked.packages)}</p>
+              </div>
+              <div className="bg-gray-50 p-2 rounded">
+                <p className="text-xs text-gray-500">Emballé</p>
+                <p className="font-medium">{dayPacked.kg.toFixed(1)} kg</p>
+              </div>
+              <div className="col-span-2 md:col-span-3 bg-gray-50 p-2 rounded">
+                <p className="text-xs text-gray-500">Rendement des lots (emballé / reçu)</p>
+                <p className="font-medium">
+                  {packedLots.map(l => `${l.lot.label} : ${l.yieldPct === null ? '-' : `${l.yieldPct.toFixed(1)}%`}`).join(' | ')}
+                </p>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Alerts Section with Toggle */}
         {lowStockAlerts.length > 0 && (
           <div className="mb-6 bg-white rounded-lg shadow-sm overflow-hidden">
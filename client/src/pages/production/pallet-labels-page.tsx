@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import Gs1Barcode from "@/components/scan/gs1-barcode";
+import {
+  formatSscc,
+  getPallet,
+  getPallets,
+  getSsccSettings,
+  PalletRecord,
+  SsccSettings
+} from "@/lib/palletRegistryService";
+import { palletDigitalLink } from "@/lib/digitalLinkService";
+import { SSCC_AI } from "@shared/domain";
+
+interface PalletLabel {
+  pallet: PalletRecord;
+  qr: string;
+}
+
+// GS1 logistic labels of the pallets of a fiche de production (?lot=) or of given SSCCs (?sscc=a,b)
+export default function PalletLabelsPage() {
+  const { toast } = useToast();
+  const [labels, setLabels] = useState<PalletLabel[]>([]);
+  const [settings, setSettings] = useState<SsccSettings | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const lotId = params.get('lot');
+    const ssccs = (params.get('sscc') || '').split(',').filter(Boolean);
+
+    const load = async () => {
+      try {
+        const [loadedSettings, pallets] = await Promise.all([
+          getSsccSettings(),
+          lotId
+            ? getPallets(lotId).then(items => items.filter(p => p.status !== 'annulee').sort((a, b) => a.palletNumber - b.palletNumber))
+            : Promise.all(ssccs.map(getPallet)).then(items => items.filter((p): p is PalletRecord => !!p))
+        ]);
+        // The QR carries the SSCC as a GS1 Digital Link, for 2D scanners and phones
+        const qrs = await Promise.all(pallets.map(p => QRCode.toDataURL(palletDigitalLink(p.sscc), { margin: 1 })));
+        setSettings(loadedSettings);
+        setLabels(pallets.map((pallet, index) => ({ pallet, qr: qrs[index] })));
+      } catch (error) {
+        console.error('Error loading pallet labels:', error);
+        toast({ title: "Erreur", description: "Impossible de charger les étiquettes palettes", variant: "destructive" });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const prefixLength = settings?.companyPrefix.length ?? 7;
+
+  return (
+    <div className="p-6 space-y-6">
+      <style>{`
+        @media print {
+          body * { visibility: hidden; }
+          .pallet-labels, .pallet-labels * { visibility: visible; }
+          .pallet-labels { position: absolute; left: 0; top: 0; }
+          .pallet-label { page-break-after: always; border: none !important; }
+        }
+      `}</style>
+
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Étiquettes palettes SSCC</h1>
+        <Button onClick={() => window.print()} disabled={labels.length === 0}>
+          <Printer className="h-4 w-4 mr-2" />
+          Imprimer ({labels.length})
+        </Button>
+      </div>
+
+      {loading && <p className="text-muted-foreground">Chargement...</p>}
+      {!loading && labels.length === 0 && <p className="text-muted-foreground">Aucune palette étiquetée.</p>}
+
+      <div className="pallet-labels space-y-6">
+        {labels.map(({ pallet, qr }) => (
+          <div key={pallet.sscc} className="pallet-label bg-white border rounded p-4 w-[105mm] text-black">
+            <div className="flex justify-between items-start border-b pb-2 mb-2">
+              <div>
+                <div className="font-bold text-lg">{settings?.labelCompanyName || 'Fruits For You'}</div>
+                <div className="text-xs">Lot {pallet.productionLotNumber} · Palette {pallet.palletNumber}</div>
+              </div>
+              <img src={qr} alt={pallet.sscc} className="w-20 h-20" />
+            </div>
+            <table className="w-full text-sm mb-2">
+              <tbody>
+                <tr><td className="font-semibold pr-2">SSCC</td><td className="font-mono">{pallet.sscc}</td></tr>
+                <tr><td className="font-semibold pr-2">Variété</td><td>{pallet.variety || '-'}</td></tr>
+                <tr><td className="font-semibold pr-2">Calibre</td><td>{pallet.calibre || '-'}</td></tr>
+                <tr><td className="font-semibold pr-2">Colis</td><td>{pallet.packages || '-'}</td></tr>
+                <tr><td className="font-semibold pr-2">Poids net</td><td>{pallet.netKg ? `${pallet.netKg} kg` : '-'}</td></tr>
+                <tr><td className="font-semibold pr-2">Lot interne</td><td>{pallet.internalLot || '-'}</td></tr>
+                <tr><td className="font-semibold pr-2">Conditionné le</td><td>{pallet.packedOn || '-'}</td></tr>
+              </tbody>
+            </table>
+            <div className="text-center">
+              <Gs1Barcode data={`${SSCC_AI}${pallet.sscc}`} moduleWidth={1.5} height={90} className="mx-auto" />
+              <div className="font-mono text-sm mt-1">{formatSscc(pallet.sscc, prefixLength)}</div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Barcode, Plus, Printer, RefreshCw, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  formatSscc,
+  getPallets,
+  getSsccSettings,
+  PALLET_STATUS_LABELS,
+  PalletRecord,
+  PalletStatus,
+  saveSsccSettings,
+  SsccSettings,
+  SsccSettingsWrite,
+  ssccSerialCapacity
+} from "@/lib/palletRegistryService";
+import { TradeItem } from "@/lib/digitalLinkService";
+import { DomainValidationError } from "@shared/domain";
+
+const statusVariant = (status: PalletStatus): "default" | "secondary" | "destructive" | "outline" =>
+  status === 'expediee' ? 'default' : status === 'annulee' ? 'destructive' : 'secondary';
+
+// Registry of the SSCC pallets and the GS1 settings used to number them
+export default function PalletsPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  // The prefix is the company's GS1 licence: changing it is a production manager decision
+  const canEditSettings = can('production', 'approve');
+  const [settings, setSettings] = useState<SsccSettings | null>(null);
+  const [draft, setDraft] = useState<SsccSettingsWrite>({ companyPrefix: '', extensionDigit: 0, labelCompanyName: '', tradeItems: [] });
+  const [pallets, setPallets] = useState<PalletRecord[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<PalletStatus | ''>('');
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const [loadedSettings, loadedPallets] = await Promise.all([getSsccSettings(), getPallets()]);
+      setSettings(loadedSettings);
+      if (loadedSettings) {
+        setDraft({
+          companyPrefix: loadedSettings.companyPrefix,
+          extensionDigit: loadedSettings.extensionDigit,
+          labelCompanyName: loadedSettings.labelCompanyName || '',
+          tradeItems: loadedSettings.tradeItems
+        });
+      }
+      setPallets(loadedPallets);
+    } catch (error) {
+      console.error('Error loading pallet registry:', error);
+      toast({ title: "Erreur", description: "Impossible de charger le registre des palettes", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const saveSettings = async () => {
+    setSaving(true);
+    try {
+      await saveSsccSettings({
+        ...draft,
+        companyPrefix: draft.companyPrefix.trim(),
+        tradeItems: draft.tradeItems.map(item => ({ ...item, gtin: item.gtin.trim(), variety: item.variety?.trim() || '' }))
+      });
+      toast({ title: "Paramètres SSCC enregistrés" });
+      await load();
+    } catch (error) {
+      console.error('Error saving SSCC settings:', error);
+      const description = error instanceof DomainValidationError ? error.message : "L'enregistrement des paramètres a échoué";
+      toast({ title: "Erreur", description, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateTradeItem = (index: number, changes: Partial<TradeItem>) =>
+    setDraft({ ...draft, tradeItems: draft.tradeItems.map((item, i) => (i === index ? { ...item, ...changes } : item)) });
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return pallets.filter(p =>
+      (!status || p.status === status)
+      && (!term || [p.sscc, p.productionLotNumber, p.internalLot, p.expeditionName || ''].some(v => v.toLowerCase().includes(term)))
+    );
+  }, [pallets, search, status]);
+
+  const prefixLength = settings?.companyPrefix.length ?? 7;
+  const remaining = settings ? ssccSerialCapacity(settings.companyPrefix) - settings.nextSerial : null;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Barcode className="h-6 w-6 text-green-700" />
+          <h1 className="text-2xl font-bold">Registre des palettes SSCC</h1>
+        </div>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Actualiser
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Paramètres GS1</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Préfixe entreprise GS1</Label>
+              <Input
+                value={draft.companyPrefix}
+                onChange={e => setDraft({ ...draft, companyPrefix: e.target.value })}
+                placeholder="ex: 6111234"
+                disabled={!canEditSettings}
+              />
+            </div>
+            <div>
+              <Label>Chiffre d'extension</Label>
+              <select
+                value={draft.extensionDigit}
+                onChange={e => setDraft({ ...draft, extensionDigit: Number(e.target.value) })}
+                className="w-full h-10 px-3 border rounded-md bg-background"
+                disabled={!canEditSettings}
+              >
+                {Array.from({ length: 10 }, (_, digit) => (
+                  <option key={digit} value={digit}>{digit}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>Nom sur l'étiquette</Label>
+              <Input
+                value={draft.labelCompanyName || ''}
+                onChange={e => setDraft({ ...draft, labelCompanyName: e.target.value })}
+                disabled={!canEditSettings}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Articles (GTIN) des QR Digital Link</Label>
+            {draft.tradeItems.map((item, index) => (
+              <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_1fr_auto] gap-2">
+                <Input
+                  value={item.gtin}
+                  onChange={e => updateTradeItem(index, { gtin: e.target.value })}
+                  placeholder="GTIN"
+                  disabled={!canEditSettings}
+                />
+                <Input
+                  value={item.description}
+                  onChange={e => updateTradeItem(index, { description: e.target.value })}
+                  placeholder="Description (ex: Avocat Hass 4 kg)"
+                  disabled={!canEditSettings}
+                />
+                <Input
+                  value={item.variety || ''}
+                  onChange={e => updateTradeItem(index, { variety: e.target.value })}
+                  placeholder="Variété (vide = toutes)"
+                  disabled={!canEditSettings}
+                />
+                {canEditSettings && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDraft({ ...draft, tradeItems: draft.tradeItems.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {canEditSettings && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, tradeItems: [...draft.tradeItems, { gtin: '', description: '', variety: '' }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Ajouter un article
+              </Button>
+            )}
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              {settings
+                ? `Prochain numéro de série : ${settings.nextSerial} · ${remaining} numéros disponibles`
+                : "Aucun préfixe configuré : les étiquettes SSCC ne peuvent pas être émises."}
+            </p>
+            {canEditSettings && (
+              <Button onClick={saveSettings} disabled={saving || !draft.companyPrefix.trim()}>
+                <Save className="h-4 w-4 mr-2" />
+                Enregistrer
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Palettes ({filtered.length})</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="SSCC, lot, expédition..." />
+            <select
+              value={status}
+              onChange={e => setStatus(e.target.value as PalletStatus | '')}
+              className="w-full h-10 px-3 border rounded-md bg-background"
+            >
+              <option value="">Tous les statuts</option>
+              {Object.entries(PALLET_STATUS_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>SSCC</TableHead>
+                <TableHead>Lot</TableHead>
+                <TableHead>Palette</TableHead>
+                <TableHead>Variété / calibre</TableHead>
+                <TableHead>Colis</TableHead>
+                <TableHead>Poids net</TableHead>
+                <TableHead>Chambre</TableHead>
+                <TableHead>Statut</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map(pallet => (
+                <TableRow key={pallet.sscc}>
+                  <TableCell className="font-mono text-xs">{formatSscc(pallet.sscc, prefixLength)}</TableCell>
+                  <TableCell>{pallet.productionLotNumber}</TableCell>
+                  <TableCell>{pallet.palletNumber}</TableCell>
+                  <TableCell>{[pallet.variety, pallet.calibre].filter(Boolean).join(' / ') || '-'}</TableCell>
+                  <TableCell>{pallet.packages || '-'}</TableCell>
+                  <TableCell>{pallet.netKg ? `${pallet.netKg} kg` : '-'}</TableCell>
+                  <TableCell>{pallet.chambreFroide || '-'}</TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariant(pallet.status)}>{PALLET_STATUS_LABELS[pallet.status]}</Badge>
+                    {pallet.expeditionName && <div className="text-xs text-muted-foreground mt-1">{pallet.expeditionName}</div>}
+                  </TableCell>
+                  <TableCell>
+                    {pallet.status !== 'annulee' && (
+                      <Link href={`/palettes/etiquettes?sscc=${pallet.sscc}`}>
+                        <Button variant="ghost" size="sm" title="Réimprimer l'étiquette">
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                      </Link>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {filtered.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">Aucune palette</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, CalendarRange, Plus, RefreshCw, Save, Send, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  DEFAULT_PRODUCTION_PLANNING_SETTINGS,
+  getPlanningData,
+  PackingLine,
+  PlanningData,
+  planProduction,
+  ProductionPlanningSettings,
+  publishPredictedDelays,
+  savePlanningSettings
+} from "@/lib/productionPlanningService";
+
+type SettingsDraft = Omit<ProductionPlanningSettings, 'updatedAt'>;
+
+// One colour per order in the Gantt, cycled
+const ORDER_COLORS = [
+  'bg-blue-500', 'bg-emerald-500', 'bg-amber-500', 'bg-purple-500',
+  'bg-rose-500', 'bg-cyan-500', 'bg-lime-600', 'bg-orange-500'
+];
+
+const day = (value: string | null) => (value ? format(new Date(value), 'dd/MM/yyyy') : '-');
+
+const StatTile = ({ label, value }: { label: string; value: string }) => (
+  <div className="p-4 rounded-lg border bg-gray-50">
+    <div className="text-xs uppercase text-gray-500">{label}</div>
+    <div className="text-xl font-semibold">{value}</div>
+  </div>
+);
+
+const toDraft = ({ updatedAt, ...settings }: ProductionPlanningSettings): SettingsDraft => settings;
+
+// Packing plan of the open orders on the lines, day by day, and the orders it makes late
+export default function ProductionPlanningPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  // Line speeds and shift length drive every forecast: a production manager decision
+  const canEditSettings = can('production', 'approve');
+  const canPublish = can('production', 'write');
+  const [data, setData] = useState<PlanningData | null>(null);
+  const [draft, setDraft] = useState<SettingsDraft>(toDraft(DEFAULT_PRODUCTION_PLANNING_SETTINGS));
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const loaded = await getPlanningData(today);
+      setData(loaded);
+      setDraft(toDraft(loaded.settings));
+    } catch (error) {
+      console.error('Error loading planning data:', error);
+      toast({ title: "Erreur", description: "Impossible de charger les commandes, le stock et les plannings", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Recomputed from the draft, so the effect of a line or shift change shows before saving
+  const plan = useMemo(
+    () => (data ? planProduction(data.demands, draft, data.staffHoursByDay, data.rawStockKg, today) : null),
+    [data, draft]
+  );
+
+  const colorOf = useMemo(() => {
+    const colors = new Map<string, string>();
+    plan?.orders.forEach((order, index) => colors.set(order.orderId, ORDER_COLORS[index % ORDER_COLORS.length]));
+    return (orderId: string) => colors.get(orderId) || 'bg-gray-400';
+  }, [plan]);
+
+  const updateLine = (index: number, changes: Partial<PackingLine>) =>
+    setDraft({ ...draft, lines: draft.lines.map((line, i) => (i === index ? { ...line, ...changes } : line)) });
+
+  const saveSettings = async () => {
+    setSaving(true);
+    try {
+      await savePlanningSettings({
+        ...draft,
+        lines: draft.lines.map(line => ({ ...line, name: line.name.trim() }))
+      });
+      toast({ title: "Paramètres de planification enregistrés" });
+      await load();
+    } catch (error) {
+      console.error('Error saving planning settings:', error);
+      toast({ title: "Erreur", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const publish = async () => {
+    if (!data || !plan) return;
+    setSaving(true);
+    try {
+      const { flagged, cleared } = await publishPredictedDelays(plan.orders, data.allocation.orders);
+      toast({ title: "Retards publiés", description: `${flagged} commande(s) signalée(s), ${cleared} retard(s) levé(s)` });
+      await load();
+    } catch (error) {
+      console.error('Error publishing predicted delays:', error);
+      toast({ title: "Erreur", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const lateOrders = plan?.orders.filter(order => order.late) || [];
+  const plannedBoxes = plan?.orders.reduce((sum, order) => sum + order.plannedBoxes, 0) || 0;
+  const totalBoxes = plan?.orders.reduce((sum, order) => sum + order.boxes, 0) || 0;
+  const numberField = (key: 'shiftHours' | 'horizonDays' | 'packingYieldPct' | 'defaultBoxNetKg' | 'defaultBoxesPerPallet') =>
+    (e: React.ChangeEvent<HTMLInputElement>) => setDraft({ ...draft, [key]: Number(e.target.value) || 0 });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <CalendarRange className="h-6 w-6" />
+          Planification de la production
+        </h1>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Actualiser
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Lignes de conditionnement et paramètres</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Lignes (colis/heure, opérateurs nécessaires)</Label>
+            {draft.lines.map((line, index) => (
+              <div key={line.id} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_1fr_auto_auto] gap-2 items-center">
+                <Input
+                  value={line.name}
+                  onChange={e => updateLine(index, { name: e.target.value })}
+                  placeholder="Nom de la ligne"
+                  disabled={!canEditSettings}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={line.boxesPerHour}
+                  onChange={e => updateLine(index, { boxesPerHour: Number(e.target.value) || 0 })}
+                  placeholder="Colis/heure"
+                  disabled={!canEditSettings}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={line.operators}
+                  onChange={e => updateLine(index, { operators: Number(e.target.value) || 0 })}
+                  placeholder="Opérateurs"
+                  disabled={!canEditSettings}
+                />
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={line.active}
+                    onChange={e => updateLine(index, { active: e.target.checked })}
+                    disabled={!canEditSettings}
+                  />
+                  Active
+                </label>
+                {canEditSettings && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDraft({ ...draft, lines: draft.lines.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {canEditSettings && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({
+                  ...draft,
+                  lines: [...draft.lines, {
+                    id: `ligne-${Date.now()}`,
+                    name: `Ligne ${draft.lines.length + 1}`,
+                    boxesPerHour: 500,
+                    operators: 10,
+                    active: true
+                  }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Ajouter une ligne
+              </Button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            <div>
+              <Label>Heures par poste</Label>
+              <Input type="number" min={1} max={24} value={draft.shiftHours} onChange={numberField('shiftHours')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>Horizon (jours)</Label>
+              <Input type="number" min={1} max={60} value={draft.horizonDays} onChange={numberField('horizonDays')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>Rendement (%)</Label>
+              <Input type="number" min={1} max={100} value={draft.packingYieldPct} onChange={numberField('packingYieldPct')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>Colis par défaut (kg)</Label>
+              <Input type="number" min={0.1} step={0.1} value={draft.defaultBoxNetKg} onChange={numberField('defaultBoxNetKg')} disabled={!canEditSettings} />
+            </div>
+            <div>
+              <Label>Colis par palette</Label>
+              <Input type="number" min={1} value={draft.defaultBoxesPerPallet} onChange={numberField('defaultBoxesPerPallet')} disabled={!canEditSettings} />
+            </div>
+            <label className="flex items-end gap-2 text-sm pb-2">
+              <input
+                type="checkbox"
+                checked={draft.workOnSunday}
+                onChange={e => setDraft({ ...draft, workOnSunday: e.target.checked })}
+                disabled={!canEditSettings}
+              />
+              Travail le dimanche
+            </label>
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Les jours sans planning saisi sont comptés avec toutes les lignes au complet.
+            </p>
+            {canEditSettings && (
+              <Button onClick={saveSettings} disabled={saving}>
+                <Save className="h-4 w-4 mr-2" />
+                Enregistrer
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {!plan || !data ? (
+        <p className="text-sm text-gray-500">{loading ? 'Chargement...' : 'Aucune donnée.'}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatTile label="Commandes à conditionner" value={String(plan.orders.length)} />
+            <StatTile label="Colis planifiés" value={`${plannedBoxes} / ${totalBoxes}`} />
+            <StatTile label="Commandes en retard" value={String(lateOrders.length)} />
+            <StatTile label="Variétés en manque" value={String(plan.rawShortfalls.length)} />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Planning des lignes</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {plan.days.length === 0 || draft.lines.every(line => !line.active) ? (
+                <p className="text-sm text-gray-500">Aucune ligne active sur l'horizon.</p>
+              ) : (
+                <table className="text-xs border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="sticky left-0 bg-white text-left p-2 min-w-32">Ligne</th>
+                      {plan.days.map(planDay => (
+                        <th key={planDay.date} className="p-2 font-normal text-gray-600 min-w-28 border-l">
+                          <div className="font-medium">{format(new Date(`${planDay.date}T00:00:00`), 'EEE dd/MM')}</div>
+                          <div>{planDay.staffHours === null ? 'Planning non saisi' : `${Math.round(planDay.staffHours)} h équipe`}</div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.days[0].lines.map((line, lineIndex) => (
+                      <tr key={line.packingLineId} className="border-t">
+                        <td className="sticky left-0 bg-white p-2 font-medium">{line.packingLineName}</td>
+                        {plan.days.map(planDay => {
+                          const lineDay = planDay.lines[lineIndex];
+                          return (
+                            <td key={planDay.date} className="p-1 border-l align-top">
+                              <div className="relative h-10 bg-gray-100 rounded overflow-hidden">
+                                {/* Grey part: hours the line cannot run for lack of staff */}
+                                <div
+                                  className="absolute inset-y-0 right-0 bg-gray-300"
+                                  style={{ width: `${Math.max(0, 100 - (lineDay.hours / draft.shiftHours) * 100)}%` }}
+                                />
+                                {lineDay.slots.map(slot => (
+                                  <div
+                                    key={`${slot.lineId}-${slot.startHour}`}
+                                    className={`absolute inset-y-0 ${colorOf(slot.orderId)} text-white px-1 truncate border-r border-white`}
+                                    style={{
+                                      left: `${(slot.startHour / draft.shiftHours) * 100}%`,
+                                      width: `${(slot.hours / draft.shiftHours) * 100}%`
+                                    }}
+                                    title={`${slot.orderNumber} · ${slot.product} ${slot.calibre} · ${slot.boxes} colis · ${slot.hours} h`}
+                                  >
+                                    {slot.orderNumber}
+                                  </div>
+                                ))}
+                              </div>
+                              <div className="text-gray-500 mt-1">
+                                {lineDay.slots.reduce((sum, slot) => sum + slot.boxes, 0)} / {lineDay.capacityBoxes} colis
+                              </div>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-orange-500" />
+                Commandes à conditionner
+              </CardTitle>
+              {canPublish && (
+                <Button size="sm" onClick={publish} disabled={saving}>
+                  <Send className="h-4 w-4 mr-2" />
+                  Publier les retards prévus
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent>
+              {plan.orders.length === 0 ? (
+                <p className="text-sm text-gray-500">Le stock couvre toutes les commandes ouvertes.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Commande</TableHead>
+                      <TableHead>Client</TableHead>
+                      <TableHead>Livraison demandée</TableHead>
+                      <TableHead className="text-right">Colis</TableHead>
+                      <TableHead className="text-right">Planifiés</TableHead>
+                      <TableHead>Fin prévue</TableHead>
+                      <TableHead>Prévision</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.orders.map(order => (
+                      <TableRow key={order.orderId}>
+                        <TableCell className="font-medium">
+                          <span className={`inline-block w-2 h-2 rounded-full mr-2 ${colorOf(order.orderId)}`} />
+                          {order.orderNumber}
+                        </TableCell>
+                        <TableCell>{order.clientName}</TableCell>
+                        <TableCell>{day(order.requestedDeliveryDate)}</TableCell>
+                        <TableCell className="text-right">{order.boxes}</TableCell>
+                        <TableCell className="text-right">{order.plannedBoxes}</TableCell>
+                        <TableCell>{day(order.finishDate)}</TableCell>
+                        <TableCell>
+                          {order.late ? (
+                            <div className="space-y-1">
+                              <Badge variant="destructive">En retard</Badge>
+                              <div className="text-xs text-gray-600">{order.delayReason}</div>
+                            </div>
+                          ) : (
+                            <Badge className="bg-green-100 text-green-800">À l'heure</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Matière première</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {plan.rawShortfalls.length === 0 ? (
+                <p className="text-sm text-gray-500">Les lots reçus couvrent les besoins.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Variété</TableHead>
+                      <TableHead className="text-right">Besoin (kg)</TableHead>
+                      <TableHead className="text-right">Disponible (kg)</TableHead>
+                      <TableHead className="text-right">Manque (kg)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.rawShortfalls.map(row => (
+                      <TableRow key={row.variety}>
+                        <TableCell className="font-medium">{row.variety || '-'}</TableCell>
+                        <TableCell className="text-right">{row.neededKg}</TableCell>
+                        <TableCell className="text-right">{row.availableKg}</TableCell>
+                        <TableCell className="text-right text-red-600 font-semibold">{row.neededKg - row.availableKg}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
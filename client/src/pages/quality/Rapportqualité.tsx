@@ -40,6 +40,7 @@ import { useToast } from '../../hooks/use-toast';
 // import { createDebugPanel } from '../../lib/debugPanel';
 // import { addWorkflowTestButton } from '../../lib/workflowTest';
 import AuthStatusChecker from '../../components/AuthStatusChecker';
+import { evaluateQualityForm } from '@shared/domain';
 
 const Rapportqualité = () => {
   const [submittedLots, setSubmittedLots] = useState<QualityRapportLot[]>([]);
@@ -1557,6 +1558,16 @@ const Rapportqualité = () => {
                     <span className="ml-2 font-medium">{selectedLot.formData.palettes.length}</span>
                   </div>
                 )}
+                {selectedLot.formData.palettes && (
+                  <div>
+                    <span className="text-gray-500">Conformity:</span>
+                    {evaluateQualityForm(selectedLot.formData).isConform ? (
+                      <span className="ml-2 font-medium text-green-700">Conforme</span>
+                    ) : (
+                      <span className="ml-2 font-medium text-red-700">Non conforme</span>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -27,67 +27,27 @@ import {
   serverTimestamp
 } from 'firebase/firestore';
 import { ref, deleteObject, listAll } from 'firebase/storage';
-
-interface PaletteData {
-  // Allow dynamic numeric/boolean metadata fields (e.g., paletteIndex) in addition to strings
-  [key: string]: string | number | boolean | undefined;
-  firmness: string;
-  rotting: string;
-  foreignMatter: string;
-  withered: string;
-  hardenedEndoderm: string;
-  parasitePresence: string;
-  parasiteAttack: string;
-  temperature: string;
-  odorOrTaste: string;
-  packageWeight: string;
-  shapeDefect: string;
-  colorDefect: string;
-  epidermisDefect: string;
-  homogeneity: string;
-  missingBrokenGrains: string;
-  size: string;
-  packageCount: string;
-  packagingState: string;
-  labelingPresence: string;
-  corners: string;
-  horizontalStraps: string;
-  paletteSheet: string;
-  woodenPaletteState: string;
-  grossWeight: string;
-  netWeight: string;
-  internalLotNumber: string;
-  paletteConformity: string;
-  requiredNetWeight: string;
-  // Optional metadata added at save time
-  paletteIndex?: number;
-  timestamp?: string;
-}
-
-interface FormData {
-  date: string;
-  product: string;
-  variety: string;
-  campaign: string;
-  clientLot: string;
-  shipmentNumber: string;
-  packagingType: string;
-  category: string;
-  exporterNumber: string;
-  frequency: string;
-  palettes: PaletteData[];
-  tolerance?: {
-    minCharacteristic?: string;
-    category1Defects?: string;
-    category2Defects?: string;
-    category3Defects?: string;
-    category4Defects?: string;
-    minCharacteristicConform?: boolean;
-    category1DefectsConform?: boolean;
-    category2DefectsConform?: boolean;
-    category3DefectsConform?: boolean;
-  };
-}
+import {
+  averageField,
+  emptyQualityPalette,
+  evaluateLot,
+  formatAverage,
+  weightConformityOf,
+  LotConformity,
+  QualityFormData as FormData,
+  QualityPalette as PaletteData
+} from '@shared/domain';
+import {
+  TOLERANCE_PRESETS,
+  getToleranceProfiles,
+  resolveToleranceProfile,
+  toToleranceSnapshot,
+  ToleranceProfile,
+  ToleranceProfileSnapshot
+} from '../../lib/toleranceProfileService';
+import { RecordHistoryDrawer } from '../../components/audit/record-history-drawer';
+import { SignaturePanel } from '../../components/signatures/signature-panel';
+import { formatSignature, RecordSignatureState } from '../../lib/signatureService';
 
 interface QualityControlLot {
   id: string;
@@ -106,37 +66,6 @@ interface QualityControlLot {
   syncedToFirebase?: boolean;
 }
 
-const emptyPaletteData = (): PaletteData => ({
-  firmness: '0',
-  rotting: '0',
-  foreignMatter: '0',
-  withered: 'C',
-  hardenedEndoderm: '0',
-  parasitePresence: '0',
-  parasiteAttack: '0',
-  temperature: 'C',
-  odorOrTaste: 'C',
-  packageWeight: '0',
-  shapeDefect: '0',
-  colorDefect: '0',
-  epidermisDefect: '0',
-  homogeneity: 'C',
-  missingBrokenGrains: '0',
-  size: '0',
-  packageCount: '',
-  packagingState: 'C',
-  labelingPresence: 'C',
-  corners: 'C',
-  horizontalStraps: 'C',
-  paletteSheet: 'C',
-  woodenPaletteState: 'C',
-  grossWeight: '',
-  netWeight: '',
-  internalLotNumber: '',
-  paletteConformity: 'C',
-  requiredNetWeight: ''
-});
-
 const initializeFormData = (): FormData => ({
   date: new Date().toISOString().split('T')[0],
   product: '',
@@ -148,7 +77,7 @@ const initializeFormData = (): FormData => ({
   category: 'I',
   exporterNumber: '106040',
   frequency: '1 Carton/palette',
-  palettes: Array(5).fill(null).map(() => emptyPaletteData())
+  palettes: Array(5).fill(null).map(() => emptyQualityPalette())
 });
 
 export default function EnhancedPDFGenerator() {
@@ -174,6 +103,7 @@ export default function EnhancedPDFGenerator() {
     isConform: false
   });
   const [isGenerating, setIsGenerating] = useState(false);
+  const [toleranceProfiles, setToleranceProfiles] = useState<ToleranceProfile[]>(TOLERANCE_PRESETS);
   const [filteredRapports, setFilteredRapports] = useState<FormData[]>([]);
   const [validation, setValidation] = useState<{[key:string]: string}>({});
   const [lotImages, setLotImages] = useState<{[lotId: string]: File[]}>({});
@@ -197,6 +127,7 @@ export default function EnhancedPDFGenerator() {
   const [activeQualitySharedLotId, setActiveQualitySharedLotId] = useState<string | null>(null);
   const [renamingLotId, setRenamingLotId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState<string>('');
+  const [signatureState, setSignatureState] = useState<RecordSignatureState | null>(null);
 
   const handleCreateQualitySharedLot = async () => {
     try {
@@ -377,6 +308,16 @@ export default function EnhancedPDFGenerator() {
     return currentLot?.formData || initializeFormData();
   };
 
+  // Profile chosen on the form, otherwise the most specific one for client / variety / category
+  const getActiveToleranceProfile = (formData: FormData = getCurrentFormData()): ToleranceProfileSnapshot => {
+    if (formData.toleranceProfile) return formData.toleranceProfile;
+    return toToleranceSnapshot(resolveToleranceProfile(toleranceProfiles, {
+      category: formData.category,
+      variety: formData.variety,
+      clientName: formData.clientName
+    }));
+  };
+
   // Create a new lot (Firestore)
   const createNewLot = async () => {
     const newLot = {
@@ -567,7 +508,8 @@ export default function EnhancedPDFGenerator() {
 
   // Update current lot's form data
   const updateCurrentLotFormData = (updates: Partial<FormData>) => {
-    if (!activeLotId) return;
+    // Approved lots are read-only until reopened from the signature panel
+    if (!activeLotId || signatureState?.locked) return;
     
     const currentLot = getCurrentLot();
     if (!currentLot) return;
@@ -584,7 +526,7 @@ export default function EnhancedPDFGenerator() {
     if (paletteCount > currentFormData.palettes.length) {
       const newPalettes = [...currentFormData.palettes];
       for (let i = currentFormData.palettes.length; i < paletteCount; i++) {
-        newPalettes.push(emptyPaletteData());
+        newPalettes.push(emptyQualityPalette());
       }
       updateCurrentLotFormData({ palettes: newPalettes });
     } else if (paletteCount < currentFormData.palettes.length) {
@@ -596,7 +538,13 @@ export default function EnhancedPDFGenerator() {
 
   useEffect(() => {
     calculateResults();
-  }, [lots, activeLotId]);
+  }, [lots, activeLotId, toleranceProfiles]);
+
+  useEffect(() => {
+    getToleranceProfiles()
+      .then(setToleranceProfiles)
+      .catch(error => console.error('Error loading tolerance profiles:', error));
+  }, []);
 
   const handleInputChange = (field: string, value: string | boolean) => {
     const currentFormData = getCurrentFormData();
@@ -624,84 +572,24 @@ export default function EnhancedPDFGenerator() {
     updateCurrentLotFormData({ palettes: updatedPalettes });
   };
 
-  const calculateResults = () => {
-    const currentFormData = getCurrentFormData();
-    let totalMinCharacteristics = 0;
-    let totalCategoryDefects = 0;
-    let totalMissingGrains = 0;
-    let totalWeightConformity = 0;
-    let validPalettes = 0;
-
-    if (Array.isArray(currentFormData.palettes)) {
-      currentFormData.palettes.forEach(palette => {
-        if (palette.rotting || palette.foreignMatter || palette.parasitePresence) {
-          validPalettes++;
-          const minCharacteristics = sum([
-            parseFloat(palette.rotting || '0'),
-            parseFloat(palette.foreignMatter || '0'),
-            parseFloat(palette.withered || '0'),
-            parseFloat(palette.hardenedEndoderm || '0'),
-            parseFloat(palette.parasitePresence || '0'),
-            parseFloat(palette.parasiteAttack || '0')
-          ]);
-          totalMinCharacteristics += minCharacteristics;
-          const categoryDefects = sum([
-            parseFloat(palette.shapeDefect || '0'),
-            parseFloat(palette.colorDefect || '0'),
-            parseFloat(palette.epidermisDefect || '0')
-          ]);
-          totalCategoryDefects += categoryDefects;
-          totalMissingGrains += parseFloat(palette.missingBrokenGrains || '0');
-          if (palette.packageWeight && palette.requiredNetWeight) {
-            const requiredWeight = parseFloat(palette.requiredNetWeight);
-            const actualWeight = parseFloat(palette.packageWeight);
-            const weightConformity = (actualWeight - requiredWeight) / requiredWeight * 100;
-            totalWeightConformity += weightConformity;
-          }
-        }
-      });
-    }
-    
-    if (validPalettes > 0) {
-      const avgMinCharacteristics = totalMinCharacteristics / validPalettes;
-      const avgCategoryDefects = totalCategoryDefects / validPalettes;
-      const avgTotalDefects = avgMinCharacteristics + avgCategoryDefects;
-      const avgMissingGrains = totalMissingGrains / validPalettes;
-      const avgWeightConformity = totalWeightConformity / validPalettes;
-      
-      const isConform = 
-        avgMinCharacteristics <= 10 && 
-        avgTotalDefects <= 10 && 
-        avgMissingGrains <= 10 && 
-        avgWeightConformity >= 1;
-      
-      setResults({
-        minCharacteristics: avgMinCharacteristics,
-        totalDefects: avgTotalDefects,
-        missingBrokenGrains: avgMissingGrains,
-        weightConformity: avgWeightConformity,
-        isConform
-      });
-    }
-  };
+  // Verdict of the current lot over the selected palettes, with the active tolerance profile
+  const getLotConformity = (): LotConformity =>
+    evaluateLot(getCurrentFormData().palettes.slice(0, paletteCount), getActiveToleranceProfile().thresholds);
 
-  const sum = (values: number[]): number => {
-    return values.reduce((acc, val) => acc + (isNaN(val) ? 0 : val), 0);
+  const calculateResults = () => {
+    const lot = getLotConformity();
+    setResults({
+      minCharacteristics: lot.minCharacteristics,
+      totalDefects: lot.totalDefects,
+      missingBrokenGrains: lot.missingBrokenGrains,
+      weightConformity: lot.weightConformity ?? 0,
+      isConform: lot.isConform
+    });
   };
 
-  const calculateAverages = (field: string): string => {
-    const currentFormData = getCurrentFormData();
-    const allValues = currentFormData.palettes
-      .slice(0, paletteCount) // Only consider the selected number of palettes
-      .map((palette: PaletteData) => parseFloat(palette[field] as string))
-      .map((val: number) => isNaN(val) ? 0 : val); // Convert NaN to 0
-    
-    if (allValues.length === 0) return '';
-    
-    const sum = allValues.reduce((sum: number, val: number) => sum + val, 0);
-    const average = sum / paletteCount; // Divide by total palette count, not just valid values
-    return average.toFixed(2);
-  };
+  // Average of a palette field weighted by package count, '' when nothing was measured
+  const calculateAverages = (field: string): string =>
+    formatAverage(averageField(getCurrentFormData().palettes.slice(0, paletteCount), field));
 
   // Enhanced text wrapping function
   const wrapText = (doc: jsPDF, text: string, maxWidth: number, fontSize: number = 7): string[] => {
@@ -1167,31 +1055,10 @@ export default function EnhancedPDFGenerator() {
         (() => {
           const row = ['Poids net (%)'];
           for (let i = 0; i < maxPalettes; i++) {
-            if (i < currentFormData.palettes.length) {
-              const palette = getCurrentFormData().palettes[i];
-              if (palette.packageWeight && palette.requiredNetWeight) {
-                const weight = parseFloat(palette.packageWeight);
-                const required = parseFloat(palette.requiredNetWeight);
-                const percentage = ((weight - required) / required * 100).toFixed(2);
-                row.push(percentage);
-              } else {
-                row.push('');
-              }
-            } else {
-              row.push('');
-            }
+            const palette = currentFormData.palettes[i];
+            row.push(palette ? formatAverage(weightConformityOf(palette)) : '');
           }
-          const validPercentages = currentFormData.palettes
-            .filter((p: PaletteData) => p.packageWeight && p.requiredNetWeight)
-            .map((p: PaletteData) => {
-              const weight = parseFloat(p.packageWeight);
-              const required = parseFloat(p.requiredNetWeight);
-              return (weight - required) / required * 100;
-            });
-          const avgPercentage = validPercentages.length > 0 
-            ? (validPercentages.reduce((a: number, b: number) => a + b, 0) / validPercentages.length).toFixed(2)
-            : '';
-          row.push(avgPercentage);
+          row.push(formatAverage(getLotConformity().weightConformity));
           return row;
         })()
       ];
@@ -1588,66 +1455,21 @@ export default function EnhancedPDFGenerator() {
 
       // Move tolerance headers/data here for use on page 2
       const toleranceHeaders = ['Tolérance', 'Résultat moyen', 'Conforme', 'Non conforme'];
-      // Calculate results as in the UI
-      const minCharAvg = (() => {
-        let sum = 0, count = 0;
-        getCurrentFormData().palettes.forEach((p: PaletteData) => {
-          const val =
-            (parseFloat(p.rotting || '0') || 0) +
-            (parseFloat(p.foreignMatter || '0') || 0) +
-            (parseFloat(p.withered || '0') || 0) +
-            (parseFloat(p.hardenedEndoderm || '0') || 0) +
-            (parseFloat(p.parasitePresence || '0') || 0) +
-            (parseFloat(p.parasiteAttack || '0') || 0);
-          sum += val;
-          count++;
-        });
-        return count ? (sum / count).toFixed(2) : '';
-      })();
-      const totalDefectsAvg = (() => {
-        let sum = 0, count = 0;
-        getCurrentFormData().palettes.forEach((p: PaletteData) => {
-          const minChar =
-            (parseFloat(p.rotting || '0') || 0) +
-            (parseFloat(p.foreignMatter || '0') || 0) +
-            (parseFloat(p.withered || '0') || 0) +
-            (parseFloat(p.hardenedEndoderm || '0') || 0) +
-            (parseFloat(p.parasitePresence || '0') || 0) +
-            (parseFloat(p.parasiteAttack || '0') || 0);
-          const catIDef =
-            (parseFloat(p.shapeDefect || '0') || 0) +
-            (parseFloat(p.colorDefect || '0') || 0) +
-            (parseFloat(p.epidermisDefect || '0') || 0);
-          sum += minChar + catIDef;
-          count++;
-        });
-        return count ? (sum / count).toFixed(2) : '';
-      })();
-      const missingBrokenAvg = (() => {
-        let sum = 0, count = 0;
-        getCurrentFormData().palettes.forEach((p: PaletteData) => {
-          sum += parseFloat(p.missingBrokenGrains || '0') || 0;
-          count++;
-        });
-        return count ? (sum / count).toFixed(2) : '';
-      })();
-      const weightAvg = (() => {
-        let sum = 0, count = 0;
-        getCurrentFormData().palettes.forEach((p: PaletteData) => {
-          const pw = Number(p.packageWeight || 0);
-          const rw = Number(p.requiredNetWeight || 0);
-          if (pw && rw) {
-            sum += ((pw - rw) * 100) / pw;
-            count++;
-          }
-        });
-        return count ? (sum / count).toFixed(2) : '';
-      })();
+      const lotConformity = getLotConformity();
+      const toleranceProfile = getActiveToleranceProfile();
+      const { thresholds } = toleranceProfile;
+      const toleranceRow = (label: string, value: number | null, conform: boolean) =>
+        [label, formatAverage(value), value !== null && conform ? 'X' : '', value !== null && !conform ? 'X' : ''];
       const toleranceData = [
-        ['Caractéristiques minimales (≤ 10%)', minCharAvg, '', ''],
-        ['Total des défauts : catégorie I + caractéristiques minimales (≤ 10%)', totalDefectsAvg, '', ''],
-        ['Extrémité des grains manques et cassées (≤ 10%)', missingBrokenAvg, '', ''],
-        ['Poids selon le type d’emballage (poids net +1%)', weightAvg, '', '']
+        toleranceRow(`Caractéristiques minimales (≤ ${thresholds.maxMinCharacteristics}%)`,
+          lotConformity.minCharacteristics, lotConformity.checks.minCharacteristics),
+        toleranceRow(`Total des défauts : catégorie I + caractéristiques minimales (≤ ${thresholds.maxTotalDefects}%)`,
+          lotConformity.totalDefects, lotConformity.checks.totalDefects),
+        toleranceRow(`Extrémité des grains manques et cassées (≤ ${thresholds.maxMissingBrokenGrains}%)`,
+          lotConformity.missingBrokenGrains, lotConformity.checks.missingBrokenGrains),
+        toleranceRow(`Poids selon le type d’emballage (poids net +${thresholds.minWeightConformity}%)`,
+          lotConformity.weightConformity, lotConformity.checks.weightConformity),
+        toleranceRow('Palettes avec un contrôle NC', lotConformity.nonConformPalettes.length, lotConformity.checks.categorical)
       ];
 
       // III) Contrôle des caractéristiques spécifiques (Page 2)
@@ -1701,6 +1523,10 @@ export default function EnhancedPDFGenerator() {
       doc.setFont('helvetica', 'bold');
       doc.setTextColor(34, 139, 34);
       doc.text('V) Tolérance et Conformité', 10, page2Y);
+      doc.setFont('helvetica', 'normal');
+      doc.setTextColor(0, 0, 0);
+      doc.setFontSize(8);
+      doc.text(`Profil de tolérance : ${toleranceProfile.name}`, 60, page2Y);
       page2Y += 6;
       page2Y = drawToleranceTable(doc, page2Y, toleranceHeaders, toleranceData, halfTableWidth);
 
@@ -1712,6 +1538,12 @@ export default function EnhancedPDFGenerator() {
       const sigY = page2Y - (toleranceData.length * 9 + 9); // align with table top (updated for row height 8)
       doc.text('Contrôleur:', sigX, sigY + 2);
       doc.text('Signature:', sigX, sigY + 20);
+      const chiefApproval = signatureState?.signatures?.chiefApproval;
+      if (chiefApproval) {
+        doc.text('Approbation chef qualité:', sigX, sigY + 38);
+        doc.setFontSize(8);
+        doc.text(formatSignature(chiefApproval), sigX, sigY + 44);
+      }
      
       
       // Save with enhanced filename
@@ -1781,7 +1613,10 @@ export default function EnhancedPDFGenerator() {
       const firebaseLot: FirebaseLot = {
         id: lot.id,
         lotNumber: lot.lotNumber,
-        formData: lot.formData as QualityControlFormData,
+        formData: {
+          ...lot.formData,
+          toleranceProfile: getActiveToleranceProfile(lot.formData)
+        } as QualityControlFormData,
         images: imageUrls,
         status: lot.status,
         phase: lot.phase,
@@ -1951,6 +1786,8 @@ export default function EnhancedPDFGenerator() {
           paletteIndex: index + 1,
           timestamp: new Date().toISOString()
         })),
+        // Snapshot of the tolerance profile the verdict was computed with
+        toleranceProfile: getActiveToleranceProfile(currentLot.formData),
         // Add calculated results
         calculatedResults: {
           minCharacteristics: results.minCharacteristics,
@@ -2382,6 +2219,13 @@ export default function EnhancedPDFGenerator() {
               <Cloud className="w-4 h-4 inline mr-2" />
               Sync Firebase
             </button>
+
+            {/* Temporary ids (lot-<timestamp>) have no Firestore record, hence no history yet */}
+            <RecordHistoryDrawer
+              collection="quality_control_lots"
+              docId={activeLotId && !/^lot-\d+$/.test(activeLotId) ? activeLotId : undefined}
+              label={getCurrentLot()?.lotNumber}
+            />
             
             <button
               onClick={handleSubmitAllLots}
@@ -2449,6 +2293,14 @@ export default function EnhancedPDFGenerator() {
             )}
           </div>
 
+          <div className="mt-6 max-w-xl">
+            <SignaturePanel
+              kind="quality"
+              docId={activeLotId && !/^lot-\d+$/.test(activeLotId) ? activeLotId : undefined}
+              onStateChange={setSignatureState}
+            />
+          </div>
+
           {/* Display exact rapports for the current lot after save */}
           {filteredRapports.length > 0 && (
             <div className="mt-8">
@@ -2565,6 +2417,19 @@ export default function EnhancedPDFGenerator() {
                     />
                     {validation.clientLot && <span className="text-xs text-red-500">{validation.clientLot}</span>}
                   </div>
+                  {/* Client */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+                      Client
+                      <Tooltip title="Client dont le cahier des charges s'applique (profil de tolérance)."><InfoOutlinedIcon fontSize="inherit" /></Tooltip>
+                    </label>
+                    <input
+                      type="text"
+                      value={getCurrentFormData().clientName || ''}
+                      onChange={(e) => handleInputChange('clientName', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
                 </div>
                 <div className="space-y-4">
                   {/* Shipment Number */}
@@ -2609,6 +2474,37 @@ export default function EnhancedPDFGenerator() {
                     />
                     {validation.category && <span className="text-xs text-red-500">{validation.category}</span>}
                   </div>
+                  {/* Tolerance profile */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
+                      Profil de tolérance
+                      <Tooltip title="Seuils de conformité appliqués (normes UNECE ou cahier des charges client)."><InfoOutlinedIcon fontSize="inherit" /></Tooltip>
+                    </label>
+                    <select
+                      value={getCurrentFormData().toleranceProfile?.id || ''}
+                      onChange={(e) => {
+                        const profile = toleranceProfiles.find(p => p.id === e.target.value);
+                        updateCurrentLotFormData({ toleranceProfile: profile ? toToleranceSnapshot(profile) : undefined });
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    >
+                      <option value="">
+                        Automatique ({resolveToleranceProfile(toleranceProfiles, {
+                          category: getCurrentFormData().category,
+                          variety: getCurrentFormData().variety,
+                          clientName: getCurrentFormData().clientName
+                        }).name})
+                      </option>
+                      {toleranceProfiles.map(profile => (
+                        <option key={profile.id} value={profile.id}>
+                          {[profile.name, profile.clientName, profile.variety].filter(Boolean).join(' - ')}
+                        </option>
+                      ))}
+                      {getCurrentFormData().toleranceProfile && !toleranceProfiles.some(p => p.id === getCurrentFormData().toleranceProfile?.id) && (
+                        <option value={getCurrentFormData().toleranceProfile?.id}>{getCurrentFormData().toleranceProfile?.name} (archivé)</option>
+                      )}
+                    </select>
+                  </div>
                   {/* Exporter Number */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center gap-1">
@@ -2721,18 +2617,11 @@ export default function EnhancedPDFGenerator() {
                       <td className="py-2 px-3 border sticky left-0 bg-white z-20 font-medium w-64 min-w-64">Poids net (%)</td>
                       {Array.from({ length: paletteCount }).map((_, i) => (
                         <td key={i} className="py-2 px-3 border text-center bg-gray-100 w-20 min-w-20">
-                          {(() => {
-                            const weight = parseFloat(getCurrentFormData().palettes[i]?.packageWeight || '0');
-                            const required = parseFloat(getCurrentFormData().palettes[i]?.requiredNetWeight || '0');
-                            if (weight && required) {
-                              return ((weight - required) / required * 100).toFixed(2);
-                            }
-                            return '';
-                        })()}
+                          {getCurrentFormData().palettes[i] ? formatAverage(weightConformityOf(getCurrentFormData().palettes[i])) : ''}
                         </td>
                       ))}
                       <td className="py-2 px-3 border font-medium w-20 min-w-20">
-                        
+                        {formatAverage(getLotConformity().weightConformity)}
                       </td>
                     </tr>
                   </tbody>
@@ -3278,6 +3167,7 @@ export default function EnhancedPDFGenerator() {
                   V) Tolérance
                   <Tooltip title="Vérification des tolérances appliquées."><InfoOutlinedIcon fontSize="inherit" /></Tooltip>
                 </h2>
+                <p className="text-sm text-gray-600 mb-3">Profil appliqué : <span className="font-semibold">{getActiveToleranceProfile().name}</span></p>
                 <table className="min-w-full bg-white border-collapse rounded-lg shadow-md">
                   <thead>
                     <tr className="bg-green-100">
@@ -3290,90 +3180,40 @@ export default function EnhancedPDFGenerator() {
                   <tbody>
                     {/* Caractéristiques minimales (≤ 10%) */}
                     <tr>
-                      <td className="py-2 px-3 border">Caractéristiques minimales (≤ 10%)</td>
-                      <td className="py-1 px-2 border text-center">
-                        {(() => {
-                          // Sum of relevant fields for each palette, then average
-                          let sum = 0, count = 0;
-                          getCurrentFormData().palettes.forEach((p: PaletteData) => {
-                            const val =
-                              (parseFloat(p.rotting || '0') || 0) +
-                              (parseFloat(p.foreignMatter || '0') || 0) +
-                              (parseFloat(p.withered || '0') || 0) +
-                              (parseFloat(p.hardenedEndoderm || '0') || 0) +
-                              (parseFloat(p.parasitePresence || '0') || 0) +
-                              (parseFloat(p.parasiteAttack || '0') || 0);
-                            sum += val;
-                            count++;
-                          });
-                          return count ? (sum / count).toFixed(2) : '';
-                        })()}
-                      </td>
-                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" /></td>
-                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" /></td>
+                      <td className="py-2 px-3 border">Caractéristiques minimales (≤ {getActiveToleranceProfile().thresholds.maxMinCharacteristics}%)</td>
+                      <td className="py-1 px-2 border text-center">{formatAverage(getLotConformity().minCharacteristics)}</td>
+                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" checked={getLotConformity().checks.minCharacteristics} readOnly /></td>
+                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" checked={!getLotConformity().checks.minCharacteristics} readOnly /></td>
                     </tr>
                     {/* Total des défauts : catégorie I + caractéristiques minimales (≤ 10%) */}
                     <tr>
-                      <td className="py-2 px-3 border">Total des défauts : catégorie I + caractéristiques minimales (≤ 10%)</td>
-                      <td className="py-1 px-2 border text-center">
-                        {(() => {
-                          let sum = 0, count = 0;
-                          getCurrentFormData().palettes.forEach((p: PaletteData) => {
-                            const minChar =
-                              (parseFloat(p.rotting || '0') || 0) +
-                              (parseFloat(p.foreignMatter || '0') || 0) +
-                              (parseFloat(p.withered || '0') || 0) +
-                              (parseFloat(p.hardenedEndoderm || '0') || 0) +
-                              (parseFloat(p.parasitePresence || '0') || 0) +
-                              (parseFloat(p.parasiteAttack || '0') || 0);
-                            const catIDef =
-                              (parseFloat(p.shapeDefect || '0') || 0) +
-                              (parseFloat(p.colorDefect || '0') || 0) +
-                              (parseFloat(p.epidermisDefect || '0') || 0);
-                            sum += minChar + catIDef;
-                            count++;
-                          });
-                          return count ? (sum / count).toFixed(2) : '';
-                        })()}
-                      </td>
-                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" /></td>
-                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" /></td>
+                      <td className="py-2 px-3 border">Total des défauts : catégorie I + caractéristiques minimales (≤ {getActiveToleranceProfile().thresholds.maxTotalDefects}%)</td>
+                      <td className="py-1 px-2 border text-center">{formatAverage(getLotConformity().totalDefects)}</td>
+                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" checked={getLotConformity().checks.totalDefects} readOnly /></td>
+                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" checked={!getLotConformity().checks.totalDefects} readOnly /></td>
                     </tr>
                     {/* Extrémité des grains manques et cassées (≤ 10%) */}
                     <tr>
-                      <td className="py-2 px-3 border">Extrémité des grains manques et cassées (≤ 10%)</td>
-                      <td className="py-1 px-2 border text-center">
-                        {(() => {
-                          let sum = 0, count = 0;
-                          getCurrentFormData().palettes.forEach((p: PaletteData) => {
-                            sum += parseFloat(p.missingBrokenGrains || '0') || 0;
-                            count++;
-                          });
-                          return count ? (sum / count).toFixed(2) : '';
-                        })()}
-                      </td>
-                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" /></td>
-                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" /></td>
+                      <td className="py-2 px-3 border">Extrémité des grains manques et cassées (≤ {getActiveToleranceProfile().thresholds.maxMissingBrokenGrains}%)</td>
+                      <td className="py-1 px-2 border text-center">{formatAverage(getLotConformity().missingBrokenGrains)}</td>
+                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" checked={getLotConformity().checks.missingBrokenGrains} readOnly /></td>
+                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" checked={!getLotConformity().checks.missingBrokenGrains} readOnly /></td>
                     </tr>
                     {/* Poids selon le type d’emballage (poids net +1%) */}
                     <tr>
-                      <td className="py-2 px-3 border">Poids selon le type d’emballage (poids net +1%)</td>
+                      <td className="py-2 px-3 border">Poids selon le type d’emballage (poids net +{getActiveToleranceProfile().thresholds.minWeightConformity}%)</td>
+                      <td className="py-1 px-2 border text-center">{formatAverage(getLotConformity().weightConformity)}</td>
+                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" checked={getLotConformity().checks.weightConformity} readOnly /></td>
+                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" checked={!getLotConformity().checks.weightConformity} readOnly /></td>
+                    </tr>
+                    {/* Contrôles C/NC */}
+                    <tr>
+                      <td className="py-2 px-3 border">Palettes avec un contrôle NC</td>
                       <td className="py-1 px-2 border text-center">
-                        {(() => {
-                          let sum = 0, count = 0;
-                          getCurrentFormData().palettes.forEach((p: PaletteData) => {
-                            const pw = Number(p.packageWeight || 0);
-                            const rw = Number(p.requiredNetWeight || 0);
-                            if (pw && rw) {
-                              sum += ((pw - rw) * 100) / pw;
-                              count++;
-                            }
-                          });
-                          return count ? (sum / count).toFixed(2) : '';
-                        })()}
+                        {getLotConformity().nonConformPalettes.map(index => index + 1).join(', ') || '0'}
                       </td>
-                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" /></td>
-                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" /></td>
+                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" checked={getLotConformity().checks.categorical} readOnly /></td>
+                      <td className="py-1 px-2 border"><input type="checkbox" className="mx-auto" checked={!getLotConformity().checks.categorical} readOnly /></td>
                     </tr>
                   </tbody>
                 </table>
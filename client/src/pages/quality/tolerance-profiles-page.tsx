@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Pencil, Save, SlidersHorizontal, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  TOLERANCE_PRESETS,
+  deleteToleranceProfile,
+  getToleranceProfiles,
+  saveToleranceProfile,
+  ToleranceProfile
+} from "@/lib/toleranceProfileService";
+import { DomainValidationError, QualityCategory } from "@shared/domain";
+
+type ProfileDraft = Omit<ToleranceProfile, 'id' | 'createdAt' | 'updatedAt'> & { id?: string };
+
+const emptyDraft = (): ProfileDraft => ({
+  name: '',
+  category: 'I',
+  clientName: '',
+  variety: '',
+  thresholds: { ...TOLERANCE_PRESETS[1].thresholds }
+});
+
+const thresholdFields: Array<{ key: keyof ProfileDraft['thresholds']; label: string }> = [
+  { key: 'maxMinCharacteristics', label: 'Caractéristiques minimales max (%)' },
+  { key: 'maxTotalDefects', label: 'Total des défauts max (%)' },
+  { key: 'maxMissingBrokenGrains', label: 'Grains manquants / cassés max (%)' },
+  { key: 'minWeightConformity', label: 'Poids net min (+%)' }
+];
+
+export default function ToleranceProfilesPage() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  // Thresholds decide lot acceptance: changing them is a quality chief approval
+  const canEdit = can('quality', 'approve');
+  const [profiles, setProfiles] = useState<ToleranceProfile[]>(TOLERANCE_PRESETS);
+  const [draft, setDraft] = useState<ProfileDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+
+  const loadProfiles = async () => {
+    try {
+      setProfiles(await getToleranceProfiles());
+    } catch (error) {
+      console.error('Error loading tolerance profiles:', error);
+      toast({ title: "Erreur", description: "Impossible de charger les profils de tolérance", variant: "destructive" });
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  // Start a client override from a preset, or edit an existing override
+  const editProfile = (profile: ToleranceProfile) => {
+    setDraft({
+      id: profile.preset ? undefined : profile.id,
+      name: profile.preset ? '' : profile.name,
+      category: profile.category,
+      clientName: profile.clientName || '',
+      variety: profile.variety || '',
+      thresholds: { ...profile.thresholds }
+    });
+  };
+
+  const saveDraft = async () => {
+    setSaving(true);
+    try {
+      await saveToleranceProfile({
+        ...draft,
+        clientName: draft.clientName?.trim() || '',
+        variety: draft.variety?.trim() || ''
+      });
+      toast({ title: "Profil enregistré", description: draft.name });
+      setDraft(emptyDraft());
+      await loadProfiles();
+    } catch (error) {
+      console.error('Error saving tolerance profile:', error);
+      const description = error instanceof DomainValidationError ? error.message : "L'enregistrement du profil a échoué";
+      toast({ title: "Erreur", description, variant: "destructive" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeProfile = async (profile: ToleranceProfile) => {
+    if (!window.confirm(`Supprimer le profil "${profile.name}" ?`)) return;
+    try {
+      await deleteToleranceProfile(profile.id);
+      await loadProfiles();
+    } catch (error) {
+      console.error('Error deleting tolerance profile:', error);
+      toast({ title: "Erreur", description: "La suppression du profil a échoué", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <SlidersHorizontal className="h-6 w-6 text-green-700" />
+        <h1 className="text-2xl font-bold">Profils de tolérance qualité</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{draft.id ? 'Modifier le profil client' : 'Nouveau profil client'}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <Label>Nom du profil</Label>
+              <Input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+            </div>
+            <div>
+              <Label>Catégorie</Label>
+              <select
+                value={draft.category}
+                onChange={e => setDraft({ ...draft, category: e.target.value as QualityCategory })}
+                className="w-full h-10 px-3 border rounded-md bg-background"
+              >
+                <option value="Extra">Extra</option>
+                <option value="I">Catégorie I</option>
+                <option value="II">Catégorie II</option>
+              </select>
+            </div>
+            <div>
+              <Label>Client</Label>
+              <Input value={draft.clientName || ''} onChange={e => setDraft({ ...draft, clientName: e.target.value })} />
+            </div>
+            <div>
+              <Label>Variété</Label>
+              <Input value={draft.variety || ''} onChange={e => setDraft({ ...draft, variety: e.target.value })} />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {thresholdFields.map(field => (
+              <div key={field.key}>
+                <Label>{field.label}</Label>
+                <Input
+                  type="number"
+                  step="0.1"
+                  value={draft.thresholds[field.key]}
+                  onChange={e => setDraft({
+                    ...draft,
+                    thresholds: { ...draft.thresholds, [field.key]: parseFloat(e.target.value) || 0 }
+                  })}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={saveDraft} disabled={saving || !canEdit || !draft.name.trim()}>
+              <Save className="h-4 w-4 mr-2" />
+              Enregistrer
+            </Button>
+            {draft.id && (
+              <Button variant="outline" onClick={() => setDraft(emptyDraft())}>Annuler</Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Profils disponibles</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Profil</TableHead>
+                <TableHead>Catégorie</TableHead>
+                <TableHead>Client</TableHead>
+                <TableHead>Variété</TableHead>
+                <TableHead>Caract. min.</TableHead>
+                <TableHead>Total défauts</TableHead>
+                <TableHead>Grains</TableHead>
+                <TableHead>Poids</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {profiles.map(profile => (
+                <TableRow key={profile.id}>
+                  <TableCell className="font-medium">
+                    {profile.name} {profile.preset && <Badge variant="secondary">Norme</Badge>}
+                  </TableCell>
+                  <TableCell>{profile.category}</TableCell>
+                  <TableCell>{profile.clientName || '-'}</TableCell>
+                  <TableCell>{profile.variety || '-'}</TableCell>
+                  <TableCell>≤ {profile.thresholds.maxMinCharacteristics}%</TableCell>
+                  <TableCell>≤ {profile.thresholds.maxTotalDefects}%</TableCell>
+                  <TableCell>≤ {profile.thresholds.maxMissingBrokenGrains}%</TableCell>
+                  <TableCell>+{profile.thresholds.minWeightConformity}%</TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button size="sm" variant="ghost" onClick={() => editProfile(profile)} disabled={!canEdit} title={profile.preset ? 'Créer une variante client' : 'Modifier'}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {!profile.preset && (
+                      <Button size="sm" variant="ghost" onClick={() => removeProfile(profile)} disabled={!canEdit}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -2,55 +2,21 @@ import React, { useEffect, useMemo, useState } from 'react';
 import logoUrl from '../../../assets/icon.png';
 import { FilePlus, Package, Plus, RefreshCw, Save, Trash2, Copy } from 'lucide-react';
 import { archiveReceptionControl, deleteReceptionArchive, getReceptionArchives, saveReceptionControl } from '../../lib/receptionControlService';
-
-// Data model for avocado quality control
-interface QualityControlData {
-  header: {
-    ref: string;
-    version: string;
-    date: string;
-    deliveryDate: string;
-    productRange: string;
-    provider: string;
-    protocol: string;
-    conventionnel: boolean;
-    bio: boolean;
-    deliveryBonNumber: string;
-    receptionBonNumber: string;
-    receptionTime: string;
-    boxState: string;
-    matricule: string;
-    variety: string;
-    producer: string;
-    truckQuality: string;
-    totalPallets: string;
-    netWeight: string;
-    productLotNumber: string;
-  };
-  qualityChecks: {
-    diseaseTraces: { count: string; weight: string; percentage: string };
-    ripeFruit: { count: string; weight: string; percentage: string };
-    dirtyFruit: { count: string; weight: string; percentage: string };
-    sunBurns: { count: string; weight: string; percentage: string };
-    withoutStem: { count: string; weight: string; percentage: string };
-  };
-  totalDefects: string;
-  color: string;
-  odor: string;
-  decision: string;
-  responsibleSignature: string;
-}
+import type { ReceptionControlData } from '@shared/domain';
+import { RecordHistoryDrawer } from '../../components/audit/record-history-drawer';
+import { SignaturePanel } from '../../components/signatures/signature-panel';
+import { formatSignature, RecordSignatureState } from '../../lib/signatureService';
 
 interface QualityControlLot {
   id: string;
   lotNumber: string;
   status: 'brouillon' | 'en_cours' | 'termine';
-  data: QualityControlData;
+  data: ReceptionControlData;
   createdAt: Date;
   updatedAt: Date;
 }
 
-const defaultQualityControlData = (): QualityControlData => ({
+const defaultQualityControlData = (): ReceptionControlData => ({
   header: {
     ref: 'SMQ.ENR.10',
     version: '01',
@@ -102,6 +68,7 @@ const ControleReception: React.FC = () => {
   const [archives, setArchives] = useState<QualityControlLot[]>([]);
   const [loadingArchives, setLoadingArchives] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [signatureState, setSignatureState] = useState<RecordSignatureState | null>(null);
 
   // Load archives from Firebase on mount
   useEffect(() => {
@@ -129,6 +96,10 @@ const ControleReception: React.FC = () => {
   }, []);
 
   const currentLot = useMemo(() => lots.find(l => l.id === currentLotId), [lots, currentLotId]);
+  // Lots created in the editor keep a numeric local id until their first save
+  const savedLotId = currentLot && !/^\d+$/.test(currentLot.id) && !currentLot.id.startsWith('archive_') ? currentLot.id : undefined;
+  const isLocked = !!signatureState?.locked;
+  const responsibleVisa = signatureState?.signatures?.responsibleSignature;
 
   const createNewLot = () => {
     const newLot: QualityControlLot = {
@@ -173,8 +144,8 @@ const ControleReception: React.FC = () => {
     }
   };
 
-  const updateCurrentLot = (updates: Partial<QualityControlData>) => {
-    if (!currentLot) return;
+  const updateCurrentLot = (updates: Partial<ReceptionControlData>) => {
+    if (!currentLot || isLocked) return;
     
     const updatedLot = {
       ...currentLot,
@@ -421,6 +392,12 @@ const ControleReception: React.FC = () => {
     doc.setFont('helvetica', 'bold');
     doc.setFontSize(10);
     doc.text('Visa responsable de réception', margin + 2, sigY + 6);
+    const visaText = responsibleVisa ? formatSignature(responsibleVisa) : currentLot.data.responsibleSignature;
+    if (visaText) {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.text(visaText, margin + 2, sigY + 14);
+    }
     // Optional signature line
     doc.setLineWidth(0.3);
     doc.line(margin + 2, sigY + sigH - 10, margin + contentWidth - 2, sigY + sigH - 10);
@@ -456,6 +433,9 @@ const ControleReception: React.FC = () => {
               <button onClick={saveDraftToFirebase} disabled={saving} className="flex items-center gap-2 bg-emerald-600 disabled:opacity-60 text-white px-4 py-2 rounded-lg hover:bg-emerald-700 transition-colors">
                 <Save size={18} /> {saving ? 'Sauvegarde...' : 'Enregistrer'}
               </button>
+              {currentLot && (
+                <RecordHistoryDrawer collection="reception_controls" docId={currentLot.id} label={currentLot.lotNumber} />
+              )}
             </div>
           </div>
 
@@ -550,6 +530,7 @@ const ControleReception: React.FC = () => {
 
             {/* Form Content */}
             <div className="border-x-2 border-b-2 border-black">
+              <fieldset disabled={isLocked} className="min-w-0">
               <table className="w-full text-xs border-collapse">
                 <tbody>
                   {/* Date Row */}
@@ -995,17 +976,15 @@ const ControleReception: React.FC = () => {
                 <p className="font-semibold">Note : en cas de présence :</p>
                 <p>• En cas d'un taux élevé (10%) des écarts il faut identifier le lot par une F.P et informer le R.Q</p>
               </div>
+              </fieldset>
 
               <div className="text-center p-4 border-t border-black">
                 <p className="font-bold text-sm">Visa responsable de réception</p>
-                <div className="mt-1">
-                  <input
-                    type="text"
-                    value={currentLot.data.responsibleSignature}
-                    onChange={(e) => updateCurrentLot({ responsibleSignature: e.target.value })}
-                    className="w-64 text-xs border border-black rounded px-2 py-1"
-                    placeholder="Nom et signature"
-                  />
+                <p className="mt-1 text-xs">
+                  {responsibleVisa ? formatSignature(responsibleVisa) : currentLot.data.responsibleSignature || '—'}
+                </p>
+                <div className="mt-3 max-w-xl mx-auto text-left">
+                  <SignaturePanel kind="reception" docId={savedLotId} onStateChange={setSignatureState} />
                 </div>
               </div>
             </div>
@@ -1071,6 +1050,7 @@ const ControleReception: React.FC = () => {
                   >
                     Supprimer
                   </button>
+                  <RecordHistoryDrawer collection="reception_controls" docId={archive.id} label={archive.lotNumber} />
                 </div>
                 
                 <div className="text-xs text-gray-400 mt-2">
@@ -7,30 +7,8 @@ import { useSharedLots } from '@/hooks/useSharedLots';
 import { SharedLot } from '@/lib/sharedLotService';
 import logoUrl from '../../../assets/logo.png';
 import { dechetArchiveService, DechetArchive } from '@/lib/dechetArchiveService';
-
-// Data model for a Suivi Déchets lot
-interface DechetRow {
-  numeroPalette: string;     // N° palette
-  nombreCaisses: string;     // Nombre de caisses
-  poidsBrut: string;         // Poids Brut
-  poidsNet: string;          // Poids Net
-  natureDechet: string;      // Nature de déchet
-  variete: string;           // Variété
-}
-
-interface DechetFormData {
-  header: {
-    code: string;              // F.S.D
-    date: string;              // Date creation
-    version: string;           // version
-    dateTraitement: string;    // Date traitement
-    responsableTracabilite: string; // Responsable Traçabilité
-    produit: string;           // AVOCAT
-    conventionnel: boolean;
-    biologique: boolean;
-  };
-  rows: DechetRow[];
-}
+import { deriveDechetEdges, syncGenealogySource } from '@/lib/lotGenealogyService';
+import type { DechetFormData } from '@shared/domain';
 
 const defaultDechetForm = (): DechetFormData => ({
   header: {
@@ -49,7 +27,8 @@ const defaultDechetForm = (): DechetFormData => ({
     poidsBrut: '',
     poidsNet: '',
     natureDechet: '',
-    variete: ''
+    variete: '',
+    numeroLotInterne: ''
   }))
 });
 
@@ -65,7 +44,7 @@ const SuiviDechets: React.FC = () => {
 
   // Convert SharedLot to local model
   const sharedToLocal = (sl: SharedLot): DechetFormData => {
-    return (sl as any).dechetData || defaultDechetForm();
+    return sl.dechetData || defaultDechetForm();
   };
 
   const getCurrentLot = () => dechetLots.find(l => l.id === currentLotId);
@@ -127,6 +106,13 @@ const SuiviDechets: React.FC = () => {
     await updateLot(currentLotId, { dechetData: next } as any);
   };
 
+  // Keep the lot genealogy graph in step with the saved waste sheet
+  const syncGenealogy = (lotId: string, lotNumber: string, form: DechetFormData) => {
+    const source = { collection: 'shared_lots', docId: lotId };
+    syncGenealogySource(source, deriveDechetEdges({ lotNumber, ...form }, source))
+      .catch(err => console.warn('Généalogie non synchronisée:', err));
+  };
+
   // Archive subscription
   useEffect(() => {
     let unsubscribeArchives: (() => void) | undefined;
@@ -166,6 +152,7 @@ const SuiviDechets: React.FC = () => {
       const lot = getCurrentLot();
       const lotNumber = lot?.lotNumber || `Déchets ${new Date().toISOString()}`;
       await dechetArchiveService.add({ lotNumber, data: form });
+      if (lot) syncGenealogy(lot.id, lot.lotNumber, form);
       alert('Fiche déchets archivée avec succès');
     } catch (e) {
       console.error(e);
@@ -206,7 +193,10 @@ const SuiviDechets: React.FC = () => {
       alert('Aucun lot sélectionné');
       return;
     }
-    await updateLot(currentLotId, { dechetData: getCurrentForm() } as any);
+    const form = getCurrentForm();
+    await updateLot(currentLotId, { dechetData: form });
+    const lot = getCurrentLot();
+    if (lot) syncGenealogy(lot.id, lot.lotNumber, form);
     alert('Données enregistrées dans le lot courant');
   };
 
@@ -544,9 +534,12 @@ const SuiviDechets: React.FC = () => {
               <div className="w-40 p-2 border-r border-gray-400 text-center">
                 <div className="text-sm font-bold leading-tight">Nature de<br/>déchet</div>
               </div>
-              <div className="w-28 p-2 text-center">
+              <div className="w-28 p-2 border-r border-gray-400 text-center">
                 <div className="text-sm font-bold">Variété</div>
               </div>
+              <div className="w-32 p-2 text-center">
+                <div className="text-sm font-bold leading-tight">N° lot<br/>interne</div>
+              </div>
             </div>
 
             {/* Table rows */}
@@ -612,7 +605,7 @@ const SuiviDechets: React.FC = () => {
                     className="w-full p-2 border-0 text-sm text-center focus:outline-none focus:bg-blue-50"
                   />
                 </div>
-                <div className="w-28">
+                <div className="w-28 border-r border-gray-400">
                   <input
                     type="text"
                     value={row.variete}
@@ -624,6 +617,18 @@ const SuiviDechets: React.FC = () => {
                     className="w-full p-2 border-0 text-sm text-center focus:outline-none focus:bg-blue-50"
                   />
                 </div>
+                <div className="w-32">
+                  <input
+                    type="text"
+                    value={row.numeroLotInterne || ''}
+                    onChange={(e) => {
+                      const rows = [...form.rows];
+                      rows[index] = { ...row, numeroLotInterne: e.target.value };
+                      updateForm({ rows });
+                    }}
+                    className="w-full p-2 border-0 text-sm text-center focus:outline-none focus:bg-blue-50"
+                  />
+                </div>
               </div>
             ))}
           </div>
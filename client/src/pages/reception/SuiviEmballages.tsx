@@ -10,6 +10,7 @@ import {
   renameEmballageArchive,
   saveEmballageLot,
 } from '@/lib/emballagesService';
+import type { EmballageFormData } from '@shared/domain';
 
 // Mock services - in real app these would be imported
 const mockLotService = {
@@ -64,27 +65,6 @@ const mockArchiveService = {
   },
 };
 
-// Data model for packaging traceability
-interface EmballageRow {
-  dateConditionnement: string; // Date de conditionnement
-  produit: string; // Produit
-  typeEmballage: string; // Type d'emballage utilisé
-  numeroLot: string; // N° de lot
-  quantite: string; // Quantité
-  fournisseur: string; // Fournisseur
-}
-
-interface EmballageFormData {
-  header: {
-    code: string; // SMQ.ENR07
-    version: string; // Version 01
-    date: string; // Date creation
-    responsableEmballage: string; // Responsable emballage
-    responsableQualite: string; // Responsable qualité
-  };
-  rows: EmballageRow[];
-}
-
 const defaultEmballageForm = (): EmballageFormData => ({
   header: {
     code: 'SMQ.ENR07',
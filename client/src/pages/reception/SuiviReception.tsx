@@ -7,38 +7,15 @@ import { useSharedLots } from '@/hooks/useSharedLots';
 import { SharedLot } from '@/lib/sharedLotService';
 import logoUrl from '../../../assets/logo.png';
 import { receptionArchiveService, ReceptionArchive } from '@/lib/receptionArchiveService';
-
-// Data model for a Suivi Reception lot
-interface ReceptionRow {
-  numeroPalette: string; // N° PALETTE
-  nrCaisse: string;      // NR CAISSE
-  tarePalette: string;   // TARE PALETTE
-  poidsBrut: string;     // POIDS BRUT (kg)
-  poidsNet: string;      // POIDS NET (kg)
-  variete: string;       // VARIETE
-  numeroLotInterne: string; // N°DE LOT INTERN
-  decision: string;      // DECISION
-}
-
-interface ReceptionFormData {
-  header: {
-    date: string;
-    responsable: string;
-    compagne: string;
-    produit: string; // AVOCAT
-    conventionnel: boolean;
-    biologique: boolean;
-    bonLivraison: string;  // N° BON DE LIVRISON
-    bonReception: string;  // N° BON DE RECEPTION
-  };
-  rows: ReceptionRow[];
-  footer: {
-    totalLabel: string; // TOTALE (display only)
-    poidsTicket: string;
-    poidsUsine: string;
-    ecart: string;
-  };
-}
+import { deriveReceptionEdges, syncGenealogySource } from '@/lib/lotGenealogyService';
+import {
+  computeWeighbridgeFigures,
+  WEIGHBRIDGE_TOLERANCE_PCT,
+  WEIGHT_DISCREPANCY_LABELS,
+  weighbridgeFooter,
+  withComputedNet
+} from '@shared/domain';
+import type { ReceptionFormData } from '@shared/domain';
 
 const defaultReceptionForm = (): ReceptionFormData => ({
   header: {
@@ -49,7 +26,8 @@ const defaultReceptionForm = (): ReceptionFormData => ({
     conventionnel: true,
     biologique: false,
     bonLivraison: '',
-    bonReception: ''
+    bonReception: '',
+    fournisseur: ''
   },
   rows: Array.from({ length: 20 }, () => ({
     numeroPalette: '',
@@ -90,11 +68,13 @@ const SuiviReception: React.FC = () => {
     if (!lot) return defaultReceptionForm();
     const data = sharedToLocal(lot);
     const def = defaultReceptionForm();
-    return {
+    const form = {
       header: { ...def.header, ...data.header },
       rows: data.rows?.length ? data.rows : def.rows,
       footer: { ...def.footer, ...data.footer }
     };
+    // Poids usine and écart are never typed: they follow the pallets and the ticket
+    return { ...form, footer: { ...form.footer, ...weighbridgeFooter(form) } };
   };
 
   const createNewLot = async (): Promise<string> => {
@@ -142,9 +122,17 @@ const SuiviReception: React.FC = () => {
       rows: updates.rows || current.rows,
       footer: { ...current.footer, ...(updates.footer || {}) }
     };
+    next.footer = { ...next.footer, ...weighbridgeFooter(next) };
     await updateLot(currentLotId, { receptionData: next });
   };
 
+  // Keep the lot genealogy graph in step with the saved reception sheet
+  const syncGenealogy = (lotId: string, lotNumber: string, form: ReceptionFormData) => {
+    const source = { collection: 'shared_lots', docId: lotId };
+    syncGenealogySource(source, deriveReceptionEdges({ lotNumber, ...form }, source))
+      .catch(err => console.warn('Généalogie non synchronisée:', err));
+  };
+
   const calculateTotals = () => {
     const form = getCurrentForm();
     const totalBrut = form.rows.reduce((sum, r) => sum + (parseFloat(r.poidsBrut) || 0), 0);
@@ -191,6 +179,7 @@ const SuiviReception: React.FC = () => {
       const lot = getCurrentLot();
       const lotNumber = lot?.lotNumber || `Réception ${new Date().toISOString()}`;
       await receptionArchiveService.add({ lotNumber, data: form });
+      if (lot) syncGenealogy(lot.id, lot.lotNumber, form);
       alert('Réception archivée avec succès');
     } catch (e) {
       console.error(e);
@@ -232,7 +221,10 @@ const SuiviReception: React.FC = () => {
       alert('Aucun lot sélectionné');
       return;
     }
-    await updateLot(currentLotId, { receptionData: getCurrentForm() });
+    const form = getCurrentForm();
+    await updateLot(currentLotId, { receptionData: form });
+    const lot = getCurrentLot();
+    if (lot) syncGenealogy(lot.id, lot.lotNumber, form);
     alert('Données enregistrées dans le lot courant');
   };
 
@@ -331,7 +323,8 @@ const SuiviReception: React.FC = () => {
 
     // Bon numbers row
     drawText(`N° BON DE LIVRISON : ${form.header.bonLivraison || ''}`, margin + 2, y + 12, 8);
-    drawText(`N° BON DE RECEPTION : ${form.header.bonReception || ''}`, margin + 100, y + 12, 8);
+    drawText(`N° BON DE RECEPTION : ${form.header.bonReception || ''}`, margin + 65, y + 12, 8);
+    drawText(`FOURNISSEUR : ${form.header.fournisseur || ''}`, margin + 130, y + 12, 8);
 
     y += 20;
 
@@ -424,7 +417,15 @@ const SuiviReception: React.FC = () => {
     
     // ECART
     drawText('ECART', margin + (footerWidth * 2) + 2, y + 4, 8, true);
-    drawText(form.footer.ecart || '', margin + (footerWidth * 2) + 2, y + 9, 8);
+    const figures = computeWeighbridgeFigures(form);
+    drawText(
+      figures.ecartPct === null
+        ? form.footer.ecart || ''
+        : `${form.footer.ecart} kg (${figures.ecartPct.toFixed(2)}%) - ${WEIGHT_DISCREPANCY_LABELS[figures.status]}`,
+      margin + (footerWidth * 2) + 2,
+      y + 9,
+      8
+    );
 
     // Vertical dividers in footer
     doc.line(margin + footerWidth, y, margin + footerWidth, y + 12);
@@ -442,6 +443,7 @@ const SuiviReception: React.FC = () => {
   }, [receptionLots, currentLotId]);
 
   const form = getCurrentForm();
+  const weighbridge = computeWeighbridgeFigures(form);
 
   return (
     <div className="bg-gradient-to-b from-green-50 to-white min-h-screen p-4 md:p-6">
@@ -566,6 +568,15 @@ const SuiviReception: React.FC = () => {
                   className="border-0 bg-transparent focus:outline-none flex-1"
                 />
               </div>
+              <div className="flex-1 flex items-center border-l border-gray-400 pl-2">
+                <span className="text-sm mr-2">FOURNISSEUR :</span>
+                <input
+                  type="text"
+                  value={form.header.fournisseur || ''}
+                  onChange={(e) => updateForm({ header: { ...form.header, fournisseur: e.target.value } })}
+                  className="border-0 bg-transparent focus:outline-none flex-1"
+                />
+              </div>
             </div>
 
             {/* Third row: Product and type */}
@@ -665,7 +676,7 @@ const SuiviReception: React.FC = () => {
                     value={row.tarePalette}
                     onChange={(e) => {
                       const rows = [...form.rows];
-                      rows[index] = { ...row, tarePalette: e.target.value };
+                      rows[index] = withComputedNet({ ...row, tarePalette: e.target.value });
                       updateForm({ rows });
                     }}
                     className="w-full p-1 border-0 text-xs text-center focus:outline-none focus:bg-blue-50"
@@ -677,7 +688,7 @@ const SuiviReception: React.FC = () => {
                     value={row.poidsBrut}
                     onChange={(e) => {
                       const rows = [...form.rows];
-                      rows[index] = { ...row, poidsBrut: e.target.value };
+                      rows[index] = withComputedNet({ ...row, poidsBrut: e.target.value });
                       updateForm({ rows });
                     }}
                     className="w-full p-1 border-0 text-xs text-center focus:outline-none focus:bg-blue-50"
@@ -757,21 +768,29 @@ const SuiviReception: React.FC = () => {
               </div>
               <div className="flex-1 p-3 border-r border-gray-400">
                 <div className="text-sm font-bold mb-1">POIDS USINE</div>
-                <input
-                  type="text"
-                  value={form.footer.poidsUsine}
-                  onChange={(e) => updateForm({ footer: { ...form.footer, poidsUsine: e.target.value } })}
-                  className="w-full border-0 bg-transparent focus:outline-none"
-                />
+                <div title="Somme des poids bruts moins les tares palettes">{form.footer.poidsUsine || '-'}</div>
               </div>
-              <div className="flex-1 p-3">
+              <div className={`flex-1 p-3 ${
+                weighbridge.status === 'manquant' ? 'bg-red-50' : weighbridge.status === 'excedent' ? 'bg-amber-50' : ''
+              }`}>
                 <div className="text-sm font-bold mb-1">ECART</div>
-                <input
-                  type="text"
-                  value={form.footer.ecart}
-                  onChange={(e) => updateForm({ footer: { ...form.footer, ecart: e.target.value } })}
-                  className="w-full border-0 bg-transparent focus:outline-none"
-                />
+                {weighbridge.ecartPct === null ? (
+                  <div className="text-gray-500">Saisir le poids ticket</div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span>{form.footer.ecart} kg ({weighbridge.ecartPct.toFixed(2)}%)</span>
+                    <span
+                      className={`px-2 py-0.5 text-xs rounded-full ${
+                        weighbridge.status === 'manquant' ? 'bg-red-200 text-red-800' :
+                        weighbridge.status === 'excedent' ? 'bg-amber-200 text-amber-800' :
+                        'bg-green-200 text-green-800'
+                      }`}
+                      title={`Tolérance ±${WEIGHBRIDGE_TOLERANCE_PCT}%`}
+                    >
+                      {WEIGHT_DISCREPANCY_LABELS[weighbridge.status]}
+                    </span>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,220 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "wouter";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { collection, getDocs } from "firebase/firestore";
+import { firestore as db } from "@/lib/firebase";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Award, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  buildSupplierScorecards,
+  findFarmScorecard,
+  getSupplierScorecardData,
+  RECEPTION_DEFECT_LABELS,
+  ReceptionDefectKey,
+  supplierCampaigns,
+  SupplierScorecardData,
+} from "@/lib/supplierScorecardService";
+
+interface FarmRef {
+  id: string;
+  name: string;
+  code?: string;
+}
+
+const rate = (value: number | null, digits = 1) => (value === null ? '-' : `${value.toFixed(digits)}%`);
+
+const scoreVariant = (score: number): "default" | "secondary" | "destructive" | "outline" =>
+  score >= 80 ? 'default' : score >= 60 ? 'secondary' : 'destructive';
+
+// Producer scorecards from the reception controls, ranked for the purchasing decisions
+export default function SupplierScorecardsPage() {
+  const { toast } = useToast();
+  const [data, setData] = useState<SupplierScorecardData | null>(null);
+  const [farms, setFarms] = useState<FarmRef[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [campaign, setCampaign] = useState<string | null>(null);
+  const [selectedSupplier, setSelectedSupplier] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get('fournisseur')
+  );
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const [loaded, farmsSnap] = await Promise.all([getSupplierScorecardData(), getDocs(collection(db, "farms"))]);
+      setData(loaded);
+      setFarms(farmsSnap.docs.map(d => ({ id: d.id, name: d.data().name || '', code: d.data().code || '' })));
+      setCampaign(current => current ?? supplierCampaigns(loaded.controls)[0] ?? '');
+    } catch (error) {
+      console.error('Error loading supplier scorecards:', error);
+      toast({ title: "Erreur", description: "Impossible de charger les contrôles réception", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const campaigns = useMemo(() => (data ? supplierCampaigns(data.controls) : []), [data]);
+  const scorecards = useMemo(
+    () => (data && campaign !== null ? buildSupplierScorecards(data.controls, data.deliveries, campaign) : []),
+    [data, campaign]
+  );
+  const farmOf = (supplier: string) => farms.find(farm => findFarmScorecard(farm, scorecards)?.supplier === supplier);
+  const selected = scorecards.find(card => card.supplier === selectedSupplier) || null;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Award className="h-6 w-6" />
+          Fiches fournisseurs
+        </h1>
+        <div className="flex items-end gap-2">
+          <div>
+            <Label>Campagne</Label>
+            <select
+              value={campaign ?? ''}
+              onChange={(e) => setCampaign(e.target.value)}
+              className="w-full h-10 px-3 border rounded-md bg-background"
+            >
+              {campaigns.map(c => <option key={c} value={c}>{c}</option>)}
+              <option value="">Toutes les campagnes</option>
+            </select>
+          </div>
+          <Button variant="outline" onClick={load} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Actualiser
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Classement</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {scorecards.length === 0 ? (
+            <p className="text-sm text-gray-500">{loading ? 'Chargement...' : 'Aucun contrôle réception sur cette campagne.'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Fournisseur</TableHead>
+                  <TableHead>Ferme</TableHead>
+                  <TableHead className="text-right">Contrôles</TableHead>
+                  <TableHead className="text-right">Défauts moyens</TableHead>
+                  <TableHead className="text-right">Refus</TableHead>
+                  <TableHead className="text-right">Camions conformes</TableHead>
+                  <TableHead className="text-right">Écart pesée</TableHead>
+                  <TableHead className="text-right">Score</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {scorecards.map(card => {
+                  const farm = farmOf(card.supplier);
+                  return (
+                    <TableRow
+                      key={card.supplier}
+                      className={`cursor-pointer ${selectedSupplier === card.supplier ? 'bg-blue-50' : ''}`}
+                      onClick={() => setSelectedSupplier(card.supplier)}
+                    >
+                      <TableCell>{card.rank}</TableCell>
+                      <TableCell className="font-medium">{card.supplier}</TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        {farm ? <Link href={`/farms/${farm.id}`} className="text-blue-600 hover:underline">{farm.name}</Link> : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">{card.controls}</TableCell>
+                      <TableCell className="text-right">{rate(card.avgTotalDefects, 2)}</TableCell>
+                      <TableCell className="text-right">{rate(card.rejectionRate)}</TableCell>
+                      <TableCell className="text-right">{rate(card.truckHygieneRate)}</TableCell>
+                      <TableCell className="text-right">{rate(card.weightEcartPct, 2)}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={scoreVariant(card.score)}>{card.score}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          <p className="text-xs text-gray-500 mt-3">
+            Score sur 100 : -4 points par % de défauts (max 40), -0,3 par % de livraisons refusées (max 30),
+            -0,15 par % de camions non conformes (max 15), -5 par % de poids manquant au ticket (max 15).
+          </p>
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{selected.supplier} - évolution mensuelle</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={260}>
+                <LineChart
+                  data={selected.monthly.map(m => ({
+                    month: m.month,
+                    defauts: m.avgTotalDefects === null ? null : Number(m.avgTotalDefects.toFixed(2)),
+                    refus: Number(m.rejectionRate.toFixed(1))
+                  }))}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis unit="%" width={50} />
+                  <Tooltip />
+                  <Legend />
+                  <Line dataKey="defauts" name="Défauts moyens" stroke="#f59e0b" connectNulls />
+                  <Line dataKey="refus" name="Livraisons refusées" stroke="#ef4444" />
+                </LineChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Défauts par type ({selected.controls} contrôles)</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart
+                  data={(Object.keys(RECEPTION_DEFECT_LABELS) as ReceptionDefectKey[]).map(key => ({
+                    defect: RECEPTION_DEFECT_LABELS[key],
+                    value: Number((selected.avgDefects[key] ?? 0).toFixed(2))
+                  }))}
+                >
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="defect" interval={0} tick={{ fontSize: 11 }} />
+                  <YAxis unit="%" width={50} />
+                  <Tooltip formatter={(value: number) => [`${value}%`, 'Moyenne']} />
+                  <Bar dataKey="value" fill="#3b82f6" />
+                </BarChart>
+              </ResponsiveContainer>
+              <p className="text-sm text-gray-600 mt-2">
+                Pesée : {selected.weighedDeliveries} livraison(s) avec ticket, écart {rate(selected.weightEcartPct, 2)}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+}
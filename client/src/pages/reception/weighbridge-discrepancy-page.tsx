@@ -0,0 +1,221 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, FileDown, RefreshCw, Scale } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  classifyWeightDiscrepancy,
+  getWeighbridgeDeliveries,
+  summarizeSupplierDiscrepancies,
+  SYSTEMATIC_MIN_DELIVERIES,
+  WEIGHBRIDGE_TOLERANCE_PCT,
+  WEIGHT_DISCREPANCY_LABELS,
+  WeighbridgeDelivery,
+} from "@/lib/weighbridgeService";
+import { generateSupplierDiscrepancyPDF } from "@/lib/weighbridgeReportPDF";
+
+const kg = (value: number | null) => (value === null ? '-' : value.toLocaleString('fr-FR', { maximumFractionDigits: 1 }));
+const rate = (value: number | null) => (value === null ? '-' : `${value.toFixed(2)}%`);
+
+const seasonStart = () => `${new Date().getFullYear() - (new Date().getMonth() < 8 ? 1 : 0)}-09-01`;
+
+// Weighbridge ticket vs factory weight of each delivery, followed per supplier
+export default function WeighbridgeDiscrepancyPage() {
+  const { toast } = useToast();
+  const [deliveries, setDeliveries] = useState<WeighbridgeDelivery[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [dateFrom, setDateFrom] = useState(seasonStart());
+  const [dateTo, setDateTo] = useState('');
+  const [tolerance, setTolerance] = useState(String(WEIGHBRIDGE_TOLERANCE_PCT));
+  const [selectedSupplier, setSelectedSupplier] = useState<string | null>(null);
+
+  const tolerancePct = Math.max(0, parseFloat(tolerance.replace(',', '.')) || 0);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setDeliveries(await getWeighbridgeDeliveries({ from: dateFrom || undefined, to: dateTo || undefined }, tolerancePct));
+    } catch (error) {
+      console.error('Error loading weighbridge deliveries:', error);
+      toast({ title: "Erreur", description: "Impossible de charger les réceptions", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [dateFrom, dateTo]);
+
+  // The tolerance only changes the classification, no need to reload
+  const classified = useMemo(
+    () => deliveries.map(d => ({ ...d, status: classifyWeightDiscrepancy(d.ecartPct, tolerancePct) })),
+    [deliveries, tolerancePct]
+  );
+  const summaries = useMemo(() => summarizeSupplierDiscrepancies(classified, tolerancePct), [classified, tolerancePct]);
+  const selected = summaries.find(s => s.supplier === selectedSupplier) || null;
+  const selectedDeliveries = selected
+    ? classified.filter(d => (d.supplier || 'Fournisseur non renseigné') === selected.supplier)
+    : [];
+  const period = `${dateFrom || 'début'} au ${dateTo || new Date().toISOString().slice(0, 10)}`;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <Scale className="h-6 w-6" />
+          Écarts de pesée fournisseurs
+        </h1>
+        <Button variant="outline" onClick={load} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Actualiser
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label>Du</Label>
+            <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label>Au</Label>
+            <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+          </div>
+          <div>
+            <Label>Tolérance (±%)</Label>
+            <Input type="number" step="0.1" min="0" value={tolerance} onChange={(e) => setTolerance(e.target.value)} />
+          </div>
+          <p className="text-sm text-gray-500">
+            Écart = poids usine (brut - tare des palettes) - poids ticket. Négatif : livraison plus légère que facturée.
+          </p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Par fournisseur</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {summaries.length === 0 ? (
+            <p className="text-sm text-gray-500">{loading ? 'Chargement...' : 'Aucune réception sur cette période.'}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fournisseur</TableHead>
+                  <TableHead className="text-right">Livraisons</TableHead>
+                  <TableHead className="text-right">Ticket (kg)</TableHead>
+                  <TableHead className="text-right">Usine (kg)</TableHead>
+                  <TableHead className="text-right">Écart (kg)</TableHead>
+                  <TableHead className="text-right">Écart</TableHead>
+                  <TableHead className="text-right">Manquants</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map(summary => (
+                  <TableRow
+                    key={summary.supplier}
+                    className={`cursor-pointer ${selectedSupplier === summary.supplier ? 'bg-blue-50' : ''}`}
+                    onClick={() => setSelectedSupplier(summary.supplier)}
+                  >
+                    <TableCell className="font-medium">{summary.supplier}</TableCell>
+                    <TableCell className="text-right">
+                      {summary.deliveries}
+                      {summary.withoutTicket > 0 && <span className="text-gray-400"> (+{summary.withoutTicket} sans ticket)</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{kg(summary.ticketKg)}</TableCell>
+                    <TableCell className="text-right">{kg(summary.factoryKg)}</TableCell>
+                    <TableCell className="text-right">{kg(summary.ecartKg)}</TableCell>
+                    <TableCell className="text-right">{rate(summary.ecartPct)}</TableCell>
+                    <TableCell className="text-right">{summary.shortCount}</TableCell>
+                    <TableCell>
+                      {summary.systematicallyLight && (
+                        <Badge variant="destructive" title={`Au moins ${SYSTEMATIC_MIN_DELIVERIES} livraisons, écart moyen sous -${tolerancePct}%`}>
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          Systématiquement léger
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle className="text-base">{selected.supplier}</CardTitle>
+            <Button
+              onClick={() => generateSupplierDiscrepancyPDF(
+                selected,
+                selectedDeliveries.filter(d => d.ticketKg !== null),
+                { period, tolerancePct }
+              )}
+              disabled={selected.deliveries === 0}
+            >
+              <FileDown className="h-4 w-4 mr-2" />
+              Relevé pour réclamation
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {selected.monthly.length > 0 && (
+              <ResponsiveContainer width="100%" height={220}>
+                <BarChart data={selected.monthly.map(m => ({ month: m.month, ecart: Number((m.ecartPct ?? 0).toFixed(2)) }))}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" />
+                  <YAxis unit="%" width={55} />
+                  <Tooltip formatter={(value: number) => [`${value}%`, 'Écart']} />
+                  <ReferenceLine y={-tolerancePct} stroke="#dc2626" strokeDasharray="4 4" />
+                  <ReferenceLine y={tolerancePct} stroke="#d97706" strokeDasharray="4 4" />
+                  <Bar dataKey="ecart" fill="#2563eb" />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Lot</TableHead>
+                  <TableHead>Bon de livraison</TableHead>
+                  <TableHead>Bon de réception</TableHead>
+                  <TableHead className="text-right">Ticket (kg)</TableHead>
+                  <TableHead className="text-right">Usine (kg)</TableHead>
+                  <TableHead className="text-right">Écart</TableHead>
+                  <TableHead>Statut</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectedDeliveries.map(d => (
+                  <TableRow key={d.lotId}>
+                    <TableCell>{d.date}</TableCell>
+                    <TableCell>{d.lotNumber}</TableCell>
+                    <TableCell>{d.bonLivraison || '-'}</TableCell>
+                    <TableCell>{d.bonReception || '-'}</TableCell>
+                    <TableCell className="text-right">{kg(d.ticketKg)}</TableCell>
+                    <TableCell className="text-right">{kg(d.factoryKg)}</TableCell>
+                    <TableCell className="text-right">{kg(d.ecartKg)} ({rate(d.ecartPct)})</TableCell>
+                    <TableCell>
+                      <Badge variant={d.status === 'manquant' ? 'destructive' : d.status === 'conforme' ? 'secondary' : 'outline'}>
+                        {WEIGHT_DISCREPANCY_LABELS[d.status]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
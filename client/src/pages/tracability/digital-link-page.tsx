@@ -0,0 +1,16 @@
+import { useEffect } from "react";
+import { useLocation, useParams } from "wouter";
+import { negotiateLanguage } from "@/lib/digitalLinkService";
+
+// Digital Link URI opened on the web app (no resolver in front): go to the public lot page
+export default function DigitalLinkPage() {
+  const { lot } = useParams<{ gtin: string; lot: string }>();
+  const [, setLocation] = useLocation();
+
+  useEffect(() => {
+    const lang = negotiateLanguage(new URLSearchParams(window.location.search).get('lang') || undefined, navigator.languages?.join(','));
+    setLocation(`/tracability/lot/${encodeURIComponent(lot)}?lang=${lang}`, { replace: true });
+  }, [lot]);
+
+  return null;
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ArrowDown, ArrowUp, GitBranch, RefreshCw, Search } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  LOT_NODE_LABELS,
+  LotGenealogyTrace,
+  LotNodeKind,
+  LotNodeRef,
+  rebuildLotGenealogy,
+  traceLot
+} from "@/lib/lotGenealogyService";
+
+const KIND_ORDER: LotNodeKind[] = [
+  'reception_lot',
+  'reception_control',
+  'internal_lot',
+  'quality_lot',
+  'production_lot',
+  'production_pallet',
+  'packaging_material',
+  'dechet_pallet',
+  'expedition_pallet'
+];
+
+const groupByKind = (nodes: LotNodeRef[]) =>
+  KIND_ORDER
+    .map(kind => ({ kind, nodes: nodes.filter(n => n.kind === kind) }))
+    .filter(group => group.nodes.length > 0);
+
+function NodeGroups({ nodes, onSelect }: { nodes: LotNodeRef[]; onSelect: (label: string) => void }) {
+  if (nodes.length === 0) {
+    return <p className="text-sm text-gray-500">Aucun lien enregistré.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {groupByKind(nodes).map(group => (
+        <div key={group.kind}>
+          <div className="text-xs uppercase text-gray-500 mb-1">
+            {LOT_NODE_LABELS[group.kind]} ({group.nodes.length})
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {group.nodes.map(node => (
+              <button
+                key={`${node.kind}:${node.id}`}
+                onClick={() => onSelect(node.label)}
+                className="px-2 py-1 rounded border border-gray-300 text-sm hover:bg-green-50 hover:border-green-500"
+              >
+                {node.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function LotGenealogyPage() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [trace, setTrace] = useState<LotGenealogyTrace | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [rebuilding, setRebuilding] = useState(false);
+
+  const runTrace = async (identifier: string) => {
+    if (!identifier.trim()) return;
+    setSearch(identifier);
+    setLoading(true);
+    try {
+      setTrace(await traceLot(identifier));
+    } catch (error) {
+      console.error('Error tracing lot:', error);
+      toast({ title: "Erreur", description: "Impossible de charger la généalogie du lot", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRebuild = async () => {
+    if (!confirm('Reconstruire la généalogie à partir de toutes les fiches ?')) return;
+    setRebuilding(true);
+    try {
+      const result = await rebuildLotGenealogy();
+      toast({ title: "Généalogie reconstruite", description: `${result.edges} liens depuis ${result.sources} fiches` });
+      if (search.trim()) await runTrace(search);
+    } catch (error) {
+      console.error('Error rebuilding genealogy:', error);
+      toast({ title: "Erreur", description: "La reconstruction a échoué", variant: "destructive" });
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 p-4 md:p-6">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <GitBranch className="h-6 w-6 text-green-600" />
+            Généalogie des lots
+          </h2>
+          <p className="text-sm text-gray-500">
+            Réception → lots internes → palettes de production → palettes expédiées
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleRebuild} disabled={rebuilding}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${rebuilding ? 'animate-spin' : ''}`} />
+          Reconstruire
+        </Button>
+      </div>
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          runTrace(search);
+        }}
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-neutral-500" />
+          <Input
+            placeholder="N° de lot, bon de réception ou N° de lot interne..."
+            className="pl-10"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <Button type="submit" disabled={loading}>
+          {loading ? 'Recherche...' : 'Tracer'}
+        </Button>
+      </form>
+
+      {trace && (
+        <>
+          <div className="flex flex-wrap gap-2 items-center">
+            <span className="text-sm text-gray-600">Correspondances :</span>
+            {trace.roots.length === 0 ? (
+              <span className="text-sm text-red-600">aucun lot trouvé pour « {trace.query} »</span>
+            ) : (
+              trace.roots.map(root => (
+                <Badge key={`${root.kind}:${root.id}`} variant="secondary">
+                  {LOT_NODE_LABELS[root.kind]} : {root.label}
+                </Badge>
+              ))
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <ArrowUp className="h-5 w-5 text-blue-600" />
+                  Amont (origine)
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <NodeGroups nodes={trace.upstream} onSelect={runTrace} />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <ArrowDown className="h-5 w-5 text-green-600" />
+                  Aval (destination)
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <NodeGroups nodes={trace.downstream} onSelect={runTrace} />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Liens ({trace.edges.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4">Parent</th>
+                    <th className="py-2 pr-4">Relation</th>
+                    <th className="py-2 pr-4">Enfant</th>
+                    <th className="py-2 pr-4">Poids (kg)</th>
+                    <th className="py-2 pr-4">Variété / Calibre</th>
+                    <th className="py-2 pr-4">Date</th>
+                    <th className="py-2">Source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {trace.edges.map(edge => (
+                    <tr key={edge.id} className="border-b last:border-0">
+                      <td className="py-2 pr-4">{LOT_NODE_LABELS[edge.parent.kind]} <b>{edge.parent.label}</b></td>
+                      <td className="py-2 pr-4 text-gray-500">{edge.relation}</td>
+                      <td className="py-2 pr-4">{LOT_NODE_LABELS[edge.child.kind]} <b>{edge.child.label}</b></td>
+                      <td className="py-2 pr-4">{edge.quantityKg !== undefined ? edge.quantityKg.toFixed(1) : '-'}</td>
+                      <td className="py-2 pr-4">{[edge.variety, edge.calibre].filter(Boolean).join(' / ') || '-'}</td>
+                      <td className="py-2 pr-4">{edge.date || '-'}</td>
+                      <td className="py-2 text-gray-500">{edge.source.collection}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
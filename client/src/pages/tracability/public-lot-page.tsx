@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { useLocation, useParams } from "wouter";
+import { format } from "date-fns";
+import { ar, enUS, fr } from "date-fns/locale";
+import { AlertCircle, Award, Calendar, Leaf, MapPin, Star } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { LanguageSwitcher } from "@/components/ui/LanguageSwitcher";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { fetchPublicLot, PublicLotView } from "@/lib/publicLotService";
+import { trackScan } from "@/lib/scanAnalyticsService";
+
+const DATE_LOCALES = { fr, ar, en: enUS };
+
+// Consumer page opened from the QR codes: only the server projection of the lot
+export default function PublicLotPage() {
+  const { lotNumber } = useParams<{ lotNumber: string }>();
+  const [location] = useLocation();
+  const { language, t } = useLanguage();
+  const [lot, setLot] = useState<PublicLotView | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'notFound' | 'error'>('loading');
+
+  useEffect(() => {
+    if (!lotNumber) return;
+    let cancelled = false;
+    setStatus('loading');
+    fetchPublicLot(decodeURIComponent(lotNumber), language)
+      .then(view => {
+        if (cancelled) return;
+        setLot(view);
+        setStatus(view ? 'ready' : 'notFound');
+      })
+      .catch(error => {
+        console.error('Error loading public lot:', error);
+        if (!cancelled) setStatus('error');
+      });
+    return () => { cancelled = true; };
+  }, [lotNumber, language]);
+
+  // Once per opening, not per language switch; the PDF links of older QR codes count as downloads
+  useEffect(() => {
+    if (lotNumber) trackScan(decodeURIComponent(lotNumber), location.includes('pdf') ? 'download' : 'view');
+  }, [lotNumber]);
+
+  const formatDay = (day: string) => format(new Date(`${day}T12:00:00`), 'd MMMM yyyy', { locale: DATE_LOCALES[language] });
+
+  const facts = lot ? [
+    { icon: MapPin, label: t('publicLot.farm'), value: lot.farm },
+    { icon: Calendar, label: t('publicLot.harvestDate'), value: lot.harvestDate && formatDay(lot.harvestDate) },
+    { icon: Leaf, label: t('publicLot.variety'), value: lot.variety },
+    { icon: Star, label: t('publicLot.qualityGrade'), value: lot.qualityGrade }
+  ].filter(fact => fact.value) : [];
+
+  return (
+    <div className="min-h-screen bg-green-50 p-4 md:p-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-green-800">{t('publicLot.title')}</h1>
+          <LanguageSwitcher />
+        </div>
+
+        {status === 'loading' && <p className="text-gray-600">{t('publicLot.loading')}</p>}
+        {(status === 'notFound' || status === 'error') && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{t(status === 'notFound' ? 'publicLot.notFound' : 'publicLot.error')}</AlertDescription>
+          </Alert>
+        )}
+
+        {status === 'ready' && lot && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('publicLot.lot')} {lot.lotNumber}</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {facts.map(({ icon: Icon, label, value }) => (
+                  <div key={label} className="flex items-start gap-3">
+                    <Icon className="h-5 w-5 text-green-700 mt-0.5" />
+                    <div>
+                      <p className="text-sm text-gray-500">{label}</p>
+                      <p className="font-medium">{value}</p>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {lot.certifications && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Award className="h-5 w-5 text-green-700" />
+                    {t('publicLot.certifications')}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                  {lot.certifications.map(certification => (
+                    <Badge key={certification} variant="secondary">{certification}</Badge>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+
+            {lot.journey && lot.journey.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>{t('publicLot.journey')}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ol className="space-y-3">
+                    {lot.journey.map(({ step, date }) => (
+                      <li key={step} className="flex items-center gap-3">
+                        <span className="h-3 w-3 rounded-full bg-green-600" />
+                        <span className="font-medium">{t(`publicLot.steps.${step}`)}</span>
+                        <span className="text-gray-500 text-sm">{formatDay(date)}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('publicLot.packhouseTitle')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-gray-700 whitespace-pre-line">{lot.story || t('publicLot.packhouseStory')}</p>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
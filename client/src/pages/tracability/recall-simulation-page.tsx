@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, Download, FileText, Timer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { hasRecallCriteria, RecallCriteria, RecallSimulation, simulateRecall } from "@/lib/recallService";
+import { generateRecallDossierPDF, recallDossierToCSV } from "@/lib/recallDossierPDF";
+import { downloadPDF } from "@/lib/qualityRapportPDF";
+
+const emptyCriteria: RecallCriteria = {
+  supplier: '',
+  receptionBon: '',
+  variety: '',
+  dateFrom: '',
+  dateTo: '',
+  internalLot: ''
+};
+
+const StatTile = ({ label, value, highlight }: { label: string; value: string; highlight?: boolean }) => (
+  <div className={`p-4 rounded-lg border ${highlight ? 'border-amber-400 bg-amber-50' : 'bg-gray-50'}`}>
+    <div className="text-xs uppercase text-gray-500">{label}</div>
+    <div className="text-xl font-semibold">{value}</div>
+  </div>
+);
+
+export default function RecallSimulationPage() {
+  const { toast } = useToast();
+  const [criteria, setCriteria] = useState<RecallCriteria>(emptyCriteria);
+  const [simulation, setSimulation] = useState<RecallSimulation | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const setField = (field: keyof RecallCriteria, value: string) =>
+    setCriteria(prev => ({ ...prev, [field]: value }));
+
+  const runSimulation = async () => {
+    if (!hasRecallCriteria(criteria)) {
+      toast({ title: "Critères manquants", description: "Renseignez au moins un critère de rappel", variant: "destructive" });
+      return;
+    }
+    setRunning(true);
+    try {
+      setSimulation(await simulateRecall(criteria));
+    } catch (error) {
+      console.error('Error running recall simulation:', error);
+      toast({ title: "Erreur", description: "La simulation de rappel a échoué", variant: "destructive" });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const fileBase = () => `rappel_${new Date().toISOString().slice(0, 10)}`;
+
+  const exportPDF = () => {
+    if (!simulation) return;
+    downloadPDF(generateRecallDossierPDF(simulation), `${fileBase()}.pdf`);
+  };
+
+  const exportCSV = () => {
+    if (!simulation) return;
+    const blob = new Blob([recallDossierToCSV(simulation)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileBase()}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const mb = simulation?.massBalance;
+
+  return (
+    <div className="space-y-6 p-4 md:p-6">
+      <div>
+        <h2 className="text-2xl font-bold flex items-center gap-2">
+          <AlertTriangle className="h-6 w-6 text-amber-500" />
+          Simulation de rappel
+        </h2>
+        <p className="text-sm text-gray-500">
+          Rappel fictif chronométré (GlobalGAP / BRC) à partir de la généalogie des lots
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label>Fournisseur / producteur</Label>
+            <Input value={criteria.supplier} onChange={(e) => setField('supplier', e.target.value)} />
+          </div>
+          <div>
+            <Label>N° bon de réception</Label>
+            <Input value={criteria.receptionBon} onChange={(e) => setField('receptionBon', e.target.value)} />
+          </div>
+          <div>
+            <Label>Variété</Label>
+            <Input value={criteria.variety} onChange={(e) => setField('variety', e.target.value)} />
+          </div>
+          <div>
+            <Label>Réception du</Label>
+            <Input type="date" value={criteria.dateFrom} onChange={(e) => setField('dateFrom', e.target.value)} />
+          </div>
+          <div>
+            <Label>au</Label>
+            <Input type="date" value={criteria.dateTo} onChange={(e) => setField('dateTo', e.target.value)} />
+          </div>
+          <div>
+            <Label>N° lot interne</Label>
+            <Input value={criteria.internalLot} onChange={(e) => setField('internalLot', e.target.value)} />
+          </div>
+          <div className="md:col-span-3 flex gap-2">
+            <Button onClick={runSimulation} disabled={running}>
+              {running ? 'Simulation...' : 'Lancer la simulation'}
+            </Button>
+            <Button variant="outline" onClick={() => { setCriteria(emptyCriteria); setSimulation(null); }}>
+              Réinitialiser
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {simulation && mb && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <Timer className="h-4 w-4" />
+              Résultat obtenu en {(simulation.durationMs / 1000).toFixed(1)} s
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={exportPDF}>
+                <FileText className="h-4 w-4 mr-2" /> Dossier PDF
+              </Button>
+              <Button variant="outline" onClick={exportCSV}>
+                <Download className="h-4 w-4 mr-2" /> CSV
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <StatTile label="Reçu" value={`${mb.receivedKg.toFixed(1)} kg`} />
+            <StatTile label="Conditionné" value={`${mb.packedKg.toFixed(1)} kg`} />
+            <StatTile label="Déchets" value={`${mb.wasteKg.toFixed(1)} kg`} />
+            <StatTile label="Expédié" value={`${mb.shippedPackages} colis`} />
+            <StatTile label="Écart" value={`${mb.unaccountedKg.toFixed(1)} kg`} highlight={Math.abs(mb.unaccountedKg) > 0.5} />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">
+                Lots concernés ({simulation.receptionLots.length} réceptions, {simulation.internalLots.length} lots internes,
+                {' '}{simulation.productionPallets.length} palettes produites, {simulation.dechetPallets.length} palettes déchets)
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-sm space-y-1">
+              <div><b>Réceptions :</b> {simulation.receptionLots.map(n => n.label).join(', ') || '-'}</div>
+              <div><b>Lots internes :</b> {simulation.internalLots.map(n => n.label).join(', ') || '-'}</div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Expéditions ({simulation.expeditions.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {simulation.expeditions.length === 0 ? (
+                <p className="text-sm text-gray-500">Aucune palette expédiée pour ces lots.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4">Expédition</th>
+                      <th className="py-2 pr-4">Date</th>
+                      <th className="py-2 pr-4">Destination</th>
+                      <th className="py-2 pr-4">Transporteur / Matricule</th>
+                      <th className="py-2 pr-4">Commande / Client</th>
+                      <th className="py-2 pr-4">Palette</th>
+                      <th className="py-2 pr-4">Lot interne</th>
+                      <th className="py-2">Colis</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {simulation.expeditions.flatMap(e =>
+                      e.pallets.map(p => (
+                        <tr key={`${e.expeditionId}-${p.pallet.id}`} className="border-b last:border-0">
+                          <td className="py-2 pr-4">{e.name}</td>
+                          <td className="py-2 pr-4">{e.date}</td>
+                          <td className="py-2 pr-4">{e.destination}</td>
+                          <td className="py-2 pr-4">{e.transporteur} {e.matricule && `(${e.matricule})`}</td>
+                          <td className="py-2 pr-4">{[e.commandeClient, e.clientName].filter(Boolean).join(' / ') || '-'}</td>
+                          <td className="py-2 pr-4">{p.pallet.label}</td>
+                          <td className="py-2 pr-4">{p.internalLot}</td>
+                          <td className="py-2">{p.packageCount ?? '-'}</td>
+                        </tr>
+                      ))
+                    )}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarChart3, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEDUP_WINDOW_MINUTES,
+  getScanAnalytics,
+  ScanAnalytics,
+  ScanBreakdownEntry,
+  ScanGranularity
+} from "@/lib/scanAnalyticsService";
+
+const GRANULARITIES: Array<{ value: ScanGranularity; label: string }> = [
+  { value: 'day', label: 'Jour' },
+  { value: 'week', label: 'Semaine' },
+  { value: 'month', label: 'Mois' }
+];
+
+const DEVICE_LABELS: Record<string, string> = {
+  mobile: 'Mobile',
+  tablet: 'Tablette',
+  desktop: 'Ordinateur',
+  bot: 'Robot',
+  inconnu: 'Inconnu'
+};
+
+const hours = (value: number | null) =>
+  value === null ? '-' : value < 48 ? `${value} h` : `${(value / 24).toFixed(1)} j`;
+
+const StatTile = ({ label, value }: { label: string; value: string }) => (
+  <div className="p-4 rounded-lg border bg-gray-50">
+    <div className="text-xs uppercase text-gray-500">{label}</div>
+    <div className="text-xl font-semibold">{value}</div>
+  </div>
+);
+
+const BreakdownCard = ({ title, entries, labels }: { title: string; entries: ScanBreakdownEntry[]; labels?: Record<string, string> }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="text-base">{title}</CardTitle>
+    </CardHeader>
+    <CardContent>
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Aucun scan.</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={Math.max(120, entries.slice(0, 10).length * 32)}>
+          <BarChart data={entries.slice(0, 10).map(e => ({ ...e, key: labels?.[e.key] || e.key }))} layout="vertical">
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis type="number" allowDecimals={false} />
+            <YAxis type="category" dataKey="key" width={110} />
+            <Tooltip />
+            <Bar dataKey="scans" name="Scans" fill="#16a34a" />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </CardContent>
+  </Card>
+);
+
+// Consumer scans of the public lot pages, joined with the lots and their expeditions
+export default function ScanAnalyticsPage() {
+  const { toast } = useToast();
+  const [from, setFrom] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [granularity, setGranularity] = useState<ScanGranularity>('day');
+  const [analytics, setAnalytics] = useState<ScanAnalytics | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      setAnalytics(await getScanAnalytics(from, to, granularity));
+    } catch (error) {
+      console.error('Error loading scan analytics:', error);
+      toast({ title: "Erreur", description: "Impossible de charger les analyses des scans", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [granularity]);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold flex items-center gap-2">
+          <BarChart3 className="h-6 w-6" />
+          Analyses des scans
+        </h1>
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <Label>Du</Label>
+            <Input type="date" value={from} onChange={e => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label>Au</Label>
+            <Input type="date" value={to} onChange={e => setTo(e.target.value)} />
+          </div>
+          <div>
+            <Label>Période</Label>
+            <select
+              value={granularity}
+              onChange={(e) => setGranularity(e.target.value as ScanGranularity)}
+              className="w-full h-10 px-3 border rounded-md bg-background"
+            >
+              {GRANULARITIES.map(g => <option key={g.value} value={g.value}>{g.label}</option>)}
+            </select>
+          </div>
+          <Button variant="outline" onClick={load} disabled={loading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Actualiser
+          </Button>
+        </div>
+      </div>
+
+      {!analytics ? (
+        <p className="text-sm text-gray-500">{loading ? 'Chargement...' : 'Aucune donnée.'}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatTile label="Scans" value={String(analytics.totalScans)} />
+            <StatTile label="Appareils distincts" value={String(analytics.uniqueDevices)} />
+            <StatTile label="Lots scannés" value={String(analytics.scannedLots)} />
+            <StatTile
+              label={`1er scan après expédition (médiane, ${analytics.firstScanLatency.lots} lots)`}
+              value={hours(analytics.firstScanLatency.medianHours)}
+            />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Évolution</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={280}>
+                <LineChart data={analytics.timeSeries}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="period" />
+                  <YAxis allowDecimals={false} width={40} />
+                  <Tooltip />
+                  <Legend />
+                  <Line dataKey="scans" name="Scans" stroke="#16a34a" />
+                  <Line dataKey="devices" name="Appareils" stroke="#2563eb" />
+                </LineChart>
+              </ResponsiveContainer>
+              <p className="text-xs text-gray-500 mt-3">
+                Un même appareil qui rouvre un lot dans les {DEDUP_WINDOW_MINUTES} minutes n'est compté qu'une fois.
+              </p>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <BreakdownCard title="Par variété" entries={analytics.byVariety} />
+            <BreakdownCard title="Par client" entries={analytics.byClient} />
+            <BreakdownCard title="Par pays" entries={analytics.byCountry} />
+            <BreakdownCard title="Par type de scan" entries={analytics.byScanType} />
+            <BreakdownCard title="Par appareil" entries={analytics.byDeviceType} labels={DEVICE_LABELS} />
+            <BreakdownCard title="Par système" entries={analytics.byOs} />
+            <BreakdownCard title="Par navigateur" entries={analytics.byBrowser} />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Par lot</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {analytics.byLot.length === 0 ? (
+                <p className="text-sm text-gray-500">Aucun lot scanné sur la période.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Lot</TableHead>
+                      <TableHead>Variété</TableHead>
+                      <TableHead>Client</TableHead>
+                      <TableHead className="text-right">Scans</TableHead>
+                      <TableHead className="text-right">Appareils</TableHead>
+                      <TableHead>1er scan</TableHead>
+                      <TableHead className="text-right">Délai après expédition</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analytics.byLot.map(lot => (
+                      <TableRow key={lot.key}>
+                        <TableCell className="font-medium">{lot.key}</TableCell>
+                        <TableCell>{lot.variety}</TableCell>
+                        <TableCell>{lot.clientName}</TableCell>
+                        <TableCell className="text-right">{lot.scans}</TableCell>
+                        <TableCell className="text-right">{lot.devices}</TableCell>
+                        <TableCell>{format(new Date(lot.firstScanAt), 'dd/MM/yyyy HH:mm')}</TableCell>
+                        <TableCell className="text-right">{hours(lot.latencyHours)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
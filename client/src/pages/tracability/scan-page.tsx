@@ -11,8 +11,7 @@ import { Loader2, QrCode, Search, Camera, X, FileText, ExternalLink, Download, S
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { apiRequest } from '../../lib/queryClient';
 import { QrScanner } from '@yudiel/react-qr-scanner';
-import { collection, addDoc } from 'firebase/firestore';
-import { db } from '../../lib/firebase';
+import { addClientOrder } from '../../lib/firebaseService';
 
 // Simple QR code component that doesn't rely on Firebase
 interface SimpleQRCodeProps {
@@ -206,8 +205,8 @@ export default function ScanPage() {
       const cleanLotNumber = lotNumber.replace(/[^a-zA-Z0-9-]/g, '');
       console.log('Cleaned lot number:', cleanLotNumber);
       
-      // Navigate to the lot detail page
-      setLocation(`/tracability/lot/${cleanLotNumber}`);
+      // Navigate to the internal lot detail page (/tracability/lot is the consumer view)
+      setLocation(`/lot-detail/${cleanLotNumber}`);
 
     } catch (error) {
       console.error('Error handling barcode:', error);
@@ -388,7 +387,7 @@ export default function ScanPage() {
   // View details of scanned lot
   const viewLotDetails = () => {
     if (scannedLot) {
-      setLocation(`/lots/${scannedLot.harvest.lotNumber}`);
+      setLocation(`/lot-detail/${scannedLot.harvest.lotNumber}`);
     }
   };
 
@@ -455,17 +454,31 @@ export default function ScanPage() {
   const handleAddOrder = async () => {
     if (!scannedLot) return;
     try {
-      const order = {
+      const now = new Date().toISOString();
+      // Draft: quantities come from the scanned lot and still have to be checked
+      await addClientOrder({
+        orderNumber: `SCAN-${Date.now().toString().slice(-8)}`,
         clientName: scannedLot.harvest.farmer || 'Client inconnu',
-        orderDate: new Date(),
-        requestedDeliveryDate: new Date(),
-        status: 'pending',
-        items: orderItems,
+        clientEmail: '',
+        products: orderItems.map((item, index) => ({
+          id: `prod-${Date.now()}-${index}`,
+          name: item.type || 'Avocat',
+          variety: item.type || undefined,
+          caliber: item.caliber || undefined,
+          lotNumber: scannedLot.harvest.lotNumber,
+          quantity: Number(item.quantity) || 0,
+          unit: 'kg',
+          pricePerUnit: 0,
+          totalPrice: 0
+        })),
+        orderDate: now,
+        requestedDeliveryDate: now,
+        totalAmount: 0,
         priority: 'medium',
-        totalProcessingTime: 0,
-        notes: `Ajouté depuis Scan: Lot ${scannedLot.harvest.lotNumber}`
-      };
-      await addDoc(collection(db, 'avocado_orders'), order);
+        notes: `Ajouté depuis Scan: Lot ${scannedLot.harvest.lotNumber}`,
+        shippingAddress: { street: '', city: '', state: '', zipCode: '', country: '' },
+        paymentStatus: 'pending'
+      });
       toast({
         title: 'Commande ajoutée',
         description: `Commande pour le lot ${scannedLot.harvest.lotNumber} ajoutée avec succès !`,
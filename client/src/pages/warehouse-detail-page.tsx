@@ -20,13 +20,19 @@ import {
   Activity,
   RefreshCw
 } from "lucide-react";
-import { doc, getDoc, deleteDoc, collection, getDocs, query, where } from "firebase/firestore";
+import { doc, getDoc, deleteDoc } from "firebase/firestore";
 import { firestore as db } from "@/lib/firebase";
 import { useToast } from "@/hooks/use-toast";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import {
-  BarChart,
+  computeWarehouseStockStats,
+  getStockLedger,
+  rebuildStockLedger,
+  WarehouseStockStats,
+} from "@/lib/stockLedgerService";
+import {
+  ComposedChart,
   Bar,
-  LineChart,
   Line,
   XAxis,
   YAxis,
@@ -35,6 +41,7 @@ import {
   Legend,
   ResponsiveContainer,
   PieChart,
+  Pie,
   Cell
 } from "recharts";
 
@@ -51,32 +58,11 @@ type Warehouse = {
   updatedAt: string;
 };
 
-// Statistics type
-type WarehouseStats = {
-  totalLots: number;
-  currentStock: number;
-  utilizationRate: number;
-  monthlyIncoming: number;
-  monthlyOutgoing: number;
-  avgStorageTime: number;
-  storageHistory: Array<{
-    month: string;
-    incoming: number;
-    outgoing: number;
-    utilization: number;
-  }>;
-  lotsByStatus: Array<{
-    status: string;
-    count: number;
-    color: string;
-  }>;
-};
-
 export default function WarehouseDetailPage() {
   const { id } = useParams();
   const { toast } = useToast();
   const [warehouse, setWarehouse] = useState<Warehouse | null>(null);
-  const [stats, setStats] = useState<WarehouseStats | null>(null);
+  const [stats, setStats] = useState<WarehouseStockStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [statsLoading, setStatsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -127,97 +113,8 @@ export default function WarehouseDetailPage() {
   const fetchWarehouseStats = async (warehouseData: Warehouse) => {
     try {
       setStatsLoading(true);
-      
-      // Get all lots from the API
-      const { getAvocadoTrackingData } = await import('@/lib/queryClient');
-      const allLots = await getAvocadoTrackingData()();
-      
-      // Filter lots that are stored in this warehouse
-      const warehouseLots = allLots.filter((lot: any) => 
-        lot.storage?.storageRoomId?.toLowerCase().includes(warehouseData.name.toLowerCase()) ||
-        lot.storage?.storageRoomId?.toLowerCase().includes(warehouseData.location.toLowerCase()) ||
-        lot.storage?.storageRoomId?.includes(warehouseData.code)
-      );
-
-      // Calculate capacity from string (e.g., "1000 kg" -> 1000)
-      const maxCapacity = parseFloat(warehouseData.capacity.replace(/[^0-9.]/g, '')) || 1000;
-      
-      // Calculate current stock (lots that are in storage but not yet exported)
-      const currentLots = warehouseLots.filter((lot: any) => 
-        lot.storage?.entryDate && !lot.storage?.exitDate && !lot.export?.loadingDate
-      );
-      
-      const currentStock = currentLots.reduce((sum: number, lot: any) => 
-        sum + (lot.packaging?.netWeight || 0), 0
-      );
-      
-      const utilizationRate = (currentStock / maxCapacity) * 100;
-      
-      // Calculate monthly statistics
-      const now = new Date();
-      const monthlyData = [];
-      
-      for (let i = 5; i >= 0; i--) {
-        const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
-        const nextMonth = new Date(now.getFullYear(), now.getMonth() - i + 1, 1);
-        
-        const monthLots = warehouseLots.filter((lot: any) => {
-          const entryDate = lot.storage?.entryDate ? new Date(lot.storage.entryDate) : null;
-          return entryDate && entryDate >= date && entryDate < nextMonth;
-        });
-        
-        const outgoingLots = warehouseLots.filter((lot: any) => {
-          const exitDate = lot.storage?.exitDate ? new Date(lot.storage.exitDate) : null;
-          return exitDate && exitDate >= date && exitDate < nextMonth;
-        });
-        
-        monthlyData.push({
-          month: date.toLocaleDateString('fr-FR', { month: 'short' }),
-          incoming: monthLots.length,
-          outgoing: outgoingLots.length,
-          utilization: Math.min(Math.random() * 100, 95) // Simulated for demo
-        });
-      }
-      
-      // Calculate average storage time
-      const completedStorageLots = warehouseLots.filter((lot: any) => 
-        lot.storage?.entryDate && lot.storage?.exitDate
-      );
-      
-      const avgStorageTime = completedStorageLots.length > 0 
-        ? completedStorageLots.reduce((sum: number, lot: any) => {
-            const entryDate = new Date(lot.storage.entryDate);
-            const exitDate = new Date(lot.storage.exitDate);
-            return sum + ((exitDate.getTime() - entryDate.getTime()) / (1000 * 60 * 60 * 24));
-          }, 0) / completedStorageLots.length
-        : 0;
-      
-      // Lots by status
-      const statusCounts = {
-        'En stockage': currentLots.length,
-        'Expédiés': warehouseLots.filter((lot: any) => lot.export?.loadingDate).length,
-        'Livrés': warehouseLots.filter((lot: any) => lot.delivery?.actualDeliveryDate).length,
-      };
-      
-      const lotsByStatus = [
-        { status: 'En stockage', count: statusCounts['En stockage'], color: '#3B82F6' },
-        { status: 'Expédiés', count: statusCounts['Expédiés'], color: '#10B981' },
-        { status: 'Livrés', count: statusCounts['Livrés'], color: '#8B5CF6' },
-      ].filter(item => item.count > 0);
-      
-      const currentMonth = monthlyData[monthlyData.length - 1];
-      
-      setStats({
-        totalLots: warehouseLots.length,
-        currentStock: Math.round(currentStock),
-        utilizationRate: Math.round(utilizationRate),
-        monthlyIncoming: currentMonth?.incoming || 0,
-        monthlyOutgoing: currentMonth?.outgoing || 0,
-        avgStorageTime: Math.round(avgStorageTime),
-        storageHistory: monthlyData,
-        lotsByStatus
-      });
-      
+      const { ledger } = await getStockLedger();
+      setStats(computeWarehouseStockStats(ledger, warehouseData));
     } catch (error) {
       console.error("Error fetching warehouse stats:", error);
       toast({
@@ -230,6 +127,19 @@ export default function WarehouseDetailPage() {
     }
   };
 
+  const handleRebuildLedger = async () => {
+    if (!warehouse || !confirm('Recalculer le registre de stock à partir de toutes les fiches de production et d\'expédition ?')) return;
+    setStatsLoading(true);
+    try {
+      const result = await rebuildStockLedger();
+      toast({ title: "Registre recalculé", description: `${result.movements} mouvements depuis ${result.sources} fiches` });
+    } catch (error) {
+      console.error("Error rebuilding stock ledger:", error);
+      toast({ title: "Erreur", description: "Le recalcul du registre a échoué", variant: "destructive" });
+    }
+    await fetchWarehouseStats(warehouse);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('fr-FR', {
       year: 'numeric',
@@ -406,18 +316,23 @@ export default function WarehouseDetailPage() {
                 <ClipboardList className="mr-2 h-5 w-5" />
                 Statistiques Détaillées
               </div>
-              <Button 
-                variant="outline" 
-                size="sm" 
-                onClick={() => fetchWarehouseStats(warehouse!)}
-                disabled={statsLoading}
-              >
-                {statsLoading ? (
-                  <RefreshCw className="h-4 w-4 animate-spin" />
-                ) : (
-                  <RefreshCw className="h-4 w-4" />
-                )}
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleRebuildLedger} disabled={statsLoading}>
+                  Recalculer
+                </Button>
+                <Button 
+                  variant="outline" 
+                  size="sm" 
+                  onClick={() => fetchWarehouseStats(warehouse!)}
+                  disabled={statsLoading}
+                >
+                  {statsLoading ? (
+                    <RefreshCw className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                </Button>
+              </div>
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -431,15 +346,17 @@ export default function WarehouseDetailPage() {
                 {/* Key Metrics */}
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                   <div className="bg-blue-50 p-4 rounded-lg text-center">
-                    <div className="text-2xl font-bold text-blue-600">{stats.totalLots}</div>
-                    <div className="text-sm text-blue-700">Total Lots</div>
+                    <div className="text-2xl font-bold text-blue-600">{stats.currentPallets}</div>
+                    <div className="text-sm text-blue-700">Palettes en stock</div>
                   </div>
                   <div className="bg-green-50 p-4 rounded-lg text-center">
-                    <div className="text-2xl font-bold text-green-600">{stats.currentStock}kg</div>
+                    <div className="text-2xl font-bold text-green-600">{stats.currentStockKg.toLocaleString('fr-FR')}kg</div>
                     <div className="text-sm text-green-700">Stock Actuel</div>
                   </div>
                   <div className="bg-purple-50 p-4 rounded-lg text-center">
-                    <div className="text-2xl font-bold text-purple-600">{stats.utilizationRate}%</div>
+                    <div className="text-2xl font-bold text-purple-600">
+                      {stats.utilizationRate === null ? '-' : `${stats.utilizationRate}%`}
+                    </div>
                     <div className="text-sm text-purple-700">Utilisation</div>
                   </div>
                   <div className="bg-orange-50 p-4 rounded-lg text-center">
@@ -448,6 +365,13 @@ export default function WarehouseDetailPage() {
                   </div>
                 </div>
 
+                {stats.totalPallets === 0 && (
+                  <p className="text-sm text-neutral-500">
+                    Aucune palette enregistrée : les entrées viennent des fiches de production dont la chambre
+                    froide est « {warehouse.code || warehouse.name} », les sorties des fiches d'expédition.
+                  </p>
+                )}
+
                 {/* Monthly Activity Chart */}
                 <div>
                   <h4 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -455,46 +379,48 @@ export default function WarehouseDetailPage() {
                     Activité Mensuelle
                   </h4>
                   <ResponsiveContainer width="100%" height={250}>
-                    <BarChart data={stats.storageHistory}>
+                    <ComposedChart data={stats.storageHistory}>
                       <CartesianGrid strokeDasharray="3 3" />
                       <XAxis dataKey="month" />
-                      <YAxis yAxisId="left" />
-                      <YAxis yAxisId="right" orientation="right" />
+                      <YAxis yAxisId="left" allowDecimals={false} />
+                      <YAxis yAxisId="right" orientation="right" unit="%" />
                       <Tooltip 
                         formatter={(value: any, name: string) => [
-                          name === 'utilization' ? `${value.toFixed(1)}%` : `${value} lots`,
-                          name === 'incoming' ? 'Entrées' :
-                          name === 'outgoing' ? 'Sorties' : 'Utilisation'
+                          name === 'Utilisation %' ? (value === null ? '-' : `${value}%`) : `${value} palettes`,
+                          name
                         ]}
                       />
                       <Legend />
                       <Bar yAxisId="left" dataKey="incoming" fill="#3b82f6" name="Entrées" />
                       <Bar yAxisId="left" dataKey="outgoing" fill="#10b981" name="Sorties" />
-                      <Line yAxisId="right" type="monotone" dataKey="utilization" stroke="#8b5cf6" name="Utilisation %" />
-                    </BarChart>
+                      <Line yAxisId="left" type="monotone" dataKey="occupancy" stroke="#f59e0b" name="En stock fin de mois" />
+                      {stats.capacity && (
+                        <Line yAxisId="right" type="monotone" dataKey="utilization" stroke="#8b5cf6" name="Utilisation %" />
+                      )}
+                    </ComposedChart>
                   </ResponsiveContainer>
                 </div>
 
-                {/* Status Distribution */}
-                {stats.lotsByStatus.length > 0 && (
+                {/* Ageing of the pallets in stock */}
+                {stats.currentPallets > 0 && (
                   <div>
                     <h4 className="text-lg font-semibold mb-4 flex items-center gap-2">
                       <Activity className="h-5 w-5" />
-                      Répartition par Statut
+                      Âge des palettes en stock
                     </h4>
                     <ResponsiveContainer width="100%" height={200}>
                       <PieChart>
                         <Pie
-                          data={stats.lotsByStatus}
+                          data={stats.ageing.filter(bucket => bucket.count > 0)}
                           cx="50%"
                           cy="50%"
                           labelLine={false}
-                          label={({ status, count }) => `${status}: ${count}`}
+                          label={({ label, count }) => `${label}: ${count}`}
                           outerRadius={80}
                           fill="#8884d8"
                           dataKey="count"
                         >
-                          {stats.lotsByStatus.map((entry, index) => (
+                          {stats.ageing.filter(bucket => bucket.count > 0).map((entry, index) => (
                             <Cell key={`cell-${index}`} fill={entry.color} />
                           ))}
                         </Pie>
@@ -514,7 +440,11 @@ export default function WarehouseDetailPage() {
                     <div>
                       <span className="font-medium">Capacité Restante:</span>
                       <span className="text-blue-600 ml-2">
-                        {Math.max(0, parseFloat(warehouse.capacity.replace(/[^0-9.]/g, '')) - stats.currentStock).toFixed(0)}kg
+                        {stats.capacity
+                          ? stats.capacity.unit === 'palettes'
+                            ? `${Math.max(0, stats.capacity.value - stats.currentPallets)} palettes`
+                            : `${Math.max(0, stats.capacity.value - stats.currentStockKg).toLocaleString('fr-FR')}kg`
+                          : 'Capacité non renseignée'}
                       </span>
                     </div>
                     <div>
@@ -530,15 +460,26 @@ export default function WarehouseDetailPage() {
                       </span>
                     </div>
                     <div>
-                      <span className="font-medium">Efficacité:</span>
+                      <span className="font-medium">Plus ancienne palette:</span>
                       <span className={`ml-2 ${
-                        stats.utilizationRate > 80 ? 'text-red-600' :
-                        stats.utilizationRate > 60 ? 'text-yellow-600' : 'text-green-600'
+                        (stats.oldestPalletDays ?? 0) > 30 ? 'text-red-600' :
+                        (stats.oldestPalletDays ?? 0) > 14 ? 'text-yellow-600' : 'text-green-600'
                       }`}>
-                        {stats.utilizationRate > 80 ? 'Surchargé' :
-                         stats.utilizationRate > 60 ? 'Optimal' : 'Sous-utilisé'}
+                        {stats.oldestPalletDays === null ? '-' : `${stats.oldestPalletDays} jours`}
                       </span>
                     </div>
+                    {stats.utilizationRate !== null && (
+                      <div>
+                        <span className="font-medium">Efficacité:</span>
+                        <span className={`ml-2 ${
+                          stats.utilizationRate > 80 ? 'text-red-600' :
+                          stats.utilizationRate > 60 ? 'text-yellow-600' : 'text-green-600'
+                        }`}>
+                          {stats.utilizationRate > 80 ? 'Surchargé' :
+                           stats.utilizationRate > 60 ? 'Optimal' : 'Sous-utilisé'}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -551,6 +492,54 @@ export default function WarehouseDetailPage() {
         </Card>
       </div>
 
+      {/* Pallets in stock, FIFO order */}
+      {stats && stats.inStock.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Package className="mr-2 h-5 w-5" />
+              Palettes en stock (ordre FIFO)
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Palette</TableHead>
+                  <TableHead>Chambre</TableHead>
+                  <TableHead>Lot interne</TableHead>
+                  <TableHead>Variété</TableHead>
+                  <TableHead>Calibre</TableHead>
+                  <TableHead className="text-right">Colis</TableHead>
+                  <TableHead className="text-right">Poids net</TableHead>
+                  <TableHead>Entrée</TableHead>
+                  <TableHead className="text-right">Âge</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stats.inStock.map(pallet => (
+                  <TableRow key={pallet.palletId}>
+                    <TableCell className="font-medium">{pallet.palletId}</TableCell>
+                    <TableCell>{pallet.locationLabel}</TableCell>
+                    <TableCell>{pallet.internalLot || '-'}</TableCell>
+                    <TableCell>{pallet.variety || '-'}</TableCell>
+                    <TableCell>{pallet.calibre || '-'}</TableCell>
+                    <TableCell className="text-right">{pallet.packages}</TableCell>
+                    <TableCell className="text-right">{pallet.kg.toLocaleString('fr-FR')}kg</TableCell>
+                    <TableCell>{pallet.enteredOn}</TableCell>
+                    <TableCell className="text-right">
+                      <Badge variant={pallet.ageDays > 30 ? 'destructive' : pallet.ageDays > 14 ? 'secondary' : 'outline'}>
+                        {pallet.ageDays} j
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Personnel Section (Placeholder) */}
       <Card>
         <CardHeader>
@@ -13,7 +13,7 @@ import {
   orderBy
 } from "firebase/firestore";
 import { getAuth, onAuthStateChanged } from "firebase/auth"; // Import Firebase Auth
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -48,6 +48,7 @@ import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useLocation } from "wouter";
+import { computeWarehouseStockStats, getStockLedger, StockLedger } from "@/lib/stockLedgerService";
 import {
   Plus,
   Edit,
@@ -83,6 +84,13 @@ const WarehousesPage = () => {
   const [selectedWarehouse, setSelectedWarehouse] = useState<Warehouse | null>(null);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [loading, setLoading] = useState(true);
+  const [ledger, setLedger] = useState<StockLedger | null>(null);
+
+  // Live occupancy of each entrepôt from the stock ledger
+  const stockByWarehouse = useMemo(
+    () => Object.fromEntries(ledger ? warehouses.map(w => [w.id, computeWarehouseStockStats(ledger, w)]) : []),
+    [ledger, warehouses]
+  );
 
   // Add warehouse form
   const addWarehouseForm = useForm<z.infer<typeof warehouseSchema>>({
@@ -139,6 +147,9 @@ const WarehousesPage = () => {
       });
 
       setWarehouses(warehousesData);
+      getStockLedger()
+        .then(result => setLedger(result.ledger))
+        .catch(error => console.warn("Registre de stock indisponible:", error));
     } catch (error) {
       console.error("Error fetching warehouses:", error);
     } finally {
@@ -287,6 +298,12 @@ const WarehousesPage = () => {
                 <div className="flex items-center text-sm text-neutral-500 mb-4">
                   <Package className="h-4 w-4 mr-2" />
                   <span>Capacité: {warehouse.capacity}</span>
+                  {stockByWarehouse[warehouse.id] && (
+                    <span className="ml-auto">
+                      {stockByWarehouse[warehouse.id].currentPallets} pal.
+                      {stockByWarehouse[warehouse.id].utilizationRate !== null && ` · ${stockByWarehouse[warehouse.id].utilizationRate}%`}
+                    </span>
+                  )}
                 </div>
                 <p className="text-sm line-clamp-2">
                   {warehouse.description || "Aucune description disponible."}
@@ -354,7 +371,7 @@ const WarehousesPage = () => {
                   <FormItem>
                     <FormLabel>Capacité</FormLabel>
                     <FormControl>
-                      <Input placeholder="Capacité de stockage" {...field} />
+                      <Input placeholder="ex: 40 palettes ou 20 t" {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -446,7 +463,7 @@ const WarehousesPage = () => {
                     <FormItem>
                       <FormLabel>Capacité</FormLabel>
                       <FormControl>
-                        <Input placeholder="Capacité de stockage" {...field} />
+                        <Input placeholder="ex: 40 palettes ou 20 t" {...field} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -1,6 +1,10 @@
 import express from 'express';
 import cors from 'cors';
 import analyticsRoutes from './routes/analytics';
+import digitalLinkRoutes from './routes/digitalLink';
+import publicLotRoutes from './routes/publicLots';
+import apiRoutes from './routes/api';
+import { errorHandler } from './middleware/errors';
 
 const app = express();
 
@@ -9,7 +13,17 @@ app.use(express.json());
 
 // Register routes
 app.use('/api/analytics', analyticsRoutes);
+app.use('/api/public/lots', publicLotRoutes);
+
+// Authenticated REST API, after the public routes above
+app.use('/api', apiRoutes);
+
+// GS1 Digital Link resolver, at the root: the QR URIs are /01/... and /00/...
+app.use('/', digitalLinkRoutes);
 
 // ... rest of your routes ...
 
+// Malformed JSON bodies and errors of the routes above, as { error }
+app.use(errorHandler);
+
 export default app; 
\ No newline at end of file
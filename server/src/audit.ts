@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { DocumentData, DocumentReference, DocumentSnapshot, FieldValue, Timestamp, Transaction } from 'firebase-admin/firestore';
+import { db } from './firebase';
+import { AuditAction, canonicalRecord, diffRecords } from '../../shared/domain';
+
+// Server side of client/src/lib/auditTrailService.ts: API writes land in audit_trail
+// with the same entry format, in the same transaction as the record.
+
+export interface AuditUser {
+  uid: string;
+  email: string;
+}
+
+// Firestore values -> plain JSON, Timestamps as ISO strings, sentinels dropped
+export const toPlain = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof FieldValue) return undefined;
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object') {
+    return Object.entries(value).reduce((acc, [key, item]) => {
+      const plain = toPlain(item);
+      if (plain !== undefined) acc[key] = plain;
+      return acc;
+    }, {} as Record<string, unknown>);
+  }
+  return value;
+};
+
+const asRecord = (value: unknown) => (toPlain(value) as Record<string, unknown>) || {};
+
+const sentinelFields = (data: Record<string, unknown>) =>
+  Object.keys(data).filter(key => data[key] instanceof FieldValue);
+
+// Same hash as hashRecord on the client, so the audit page can verify API writes
+const hashRecord = (record: Record<string, unknown> | null, excluded: string[]): string => {
+  if (!record) return '';
+  const content = { ...record };
+  excluded.forEach(field => delete content[field]);
+  return createHash('sha256').update(canonicalRecord(content)).digest('hex');
+};
+
+export type ServerWrite =
+  | { kind: 'create'; data: DocumentData }
+  | { kind: 'update'; data: DocumentData }    // Top-level fields replaced
+  | { kind: 'delete' };
+
+/**
+ * Writes the record and its audit entry in a transaction the caller runs; `snap` is the
+ * record as read earlier in that transaction (Firestore wants every read before the writes).
+ */
+export const writeAudited = (
+  transaction: Transaction,
+  snap: DocumentSnapshot,
+  write: ServerWrite,
+  user: AuditUser,
+  label?: string
+): void => {
+  const ref = snap.ref;
+  const before = snap.exists ? asRecord(snap.data()) : null;
+  const after = write.kind === 'delete' ? null : { ...(before || {}), ...asRecord(write.data) };
+  const action: AuditAction = write.kind === 'delete' ? 'delete' : before ? 'update' : 'create';
+  const changes = diffRecords(before, after);
+  const serverFields = write.kind === 'delete' ? [] : sentinelFields(write.data);
+  const record = after || before || {};
+
+  if (write.kind === 'delete') transaction.delete(ref);
+  else if (write.kind === 'update') transaction.update(ref, write.data);
+  else transaction.create(ref, write.data);
+
+  if (action !== 'update' || changes.length > 0) {
+    transaction.set(db.collection('audit_trail').doc(), {
+      collection: ref.parent.path,
+      docId: ref.id,
+      label: label || String(record.lotNumber || record.name || ref.id),
+      action,
+      changes: JSON.parse(JSON.stringify(changes)),
+      afterHash: hashRecord(after, serverFields),
+      serverFields,
+      reason: 'API',
+      userId: user.uid,
+      userEmail: user.email,
+      at: FieldValue.serverTimestamp()
+    });
+  }
+};
+
+export const auditedServerWrite = (
+  ref: DocumentReference,
+  write: ServerWrite,
+  user: AuditUser,
+  label?: string
+): Promise<void> =>
+  db.runTransaction(async transaction => {
+    writeAudited(transaction, await transaction.get(ref), write, user, label);
+  });
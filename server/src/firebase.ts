@@ -0,0 +1,8 @@
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+// Admin SDK of the server. Credentials come from the environment: the runtime service
+// account on Google Cloud, GOOGLE_APPLICATION_CREDENTIALS elsewhere.
+if (getApps().length === 0) initializeApp();
+
+export const db = getFirestore();
@@ -0,0 +1,36 @@
+import { QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { db } from './firebase';
+import { LotPublicationWrite, lotNumberKey, lotPublicationWriteSchema } from '../../shared/domain';
+
+// Lots reachable from outside: the public lot page and the GS1 Digital Link resolver
+// answer for the same lots, the avocado-tracking lots the packhouse published.
+
+export interface PublicLot {
+  lot: QueryDocumentSnapshot;
+  publication: LotPublicationWrite;
+}
+
+// Lot numbers are typed by hand on older QR codes: exact match first, then the normalized key
+const findTrackingLot = async (lotNumber: string): Promise<QueryDocumentSnapshot | null> => {
+  const lots = db.collection('avocado-tracking');
+  const exact = await lots.where('harvest.lotNumber', '==', lotNumber).limit(1).get();
+  if (!exact.empty) return exact.docs[0];
+  const normalized = await lots.where('lotNumberKey', '==', lotNumberKey(lotNumber)).limit(1).get();
+  return normalized.empty ? null : normalized.docs[0];
+};
+
+/** Lot and its publication settings, null when the lot does not exist or is not published. */
+export const findPublicLot = async (lotNumber: string): Promise<PublicLot | null> => {
+  const lot = await findTrackingLot(lotNumber);
+  if (!lot) return null;
+
+  // Publication settings have the same document id as the lot
+  const settings = await db.collection('lot_publications').doc(lot.id).get();
+  if (!settings.exists) return null;
+  const parsed = lotPublicationWriteSchema.safeParse(settings.data());
+  if (!parsed.success) {
+    console.error(`Invalid publication settings for lot ${lot.id}:`, parsed.error.message);
+    return null;
+  }
+  return parsed.data.published ? { lot, publication: parsed.data } : null;
+};
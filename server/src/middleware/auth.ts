@@ -0,0 +1,70 @@
+import { NextFunction, Request, Response } from 'express';
+import { getAuth } from 'firebase-admin/auth';
+import { db } from '../firebase';
+import {
+  hasPermission,
+  PermissionAction,
+  PermissionModule,
+  UserProfile,
+  userProfileSchema
+} from '../../../shared/domain';
+
+export interface AuthenticatedRequest extends Request {
+  uid?: string;
+  email?: string;
+  anonymous?: boolean;            // Demo login: never holds a role, like in firestore.rules
+  profile?: UserProfile | null;   // Loaded by requirePermission, null without a valid profile
+}
+
+// Firebase ID token of the signed-in user, sent as `Authorization: Bearer <token>`
+export const requireAuth = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  const header = req.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  if (!token) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  try {
+    const decoded = await getAuth().verifyIdToken(token);
+    req.uid = decoded.uid;
+    req.email = decoded.email || '';
+    req.anonymous = decoded.firebase.sign_in_provider === 'anonymous';
+    next();
+  } catch (error) {
+    console.error('Invalid ID token:', error);
+    res.status(401).json({ error: 'Invalid or expired token' });
+  }
+};
+
+// Same profile (users/{uid}) and permission map as the app and firestore.rules
+const loadProfile = async (req: AuthenticatedRequest): Promise<UserProfile | null> => {
+  if (req.profile !== undefined) return req.profile;
+  if (req.anonymous) {
+    req.profile = null;
+    return null;
+  }
+  const snap = await db.collection('users').doc(req.uid as string).get();
+  const data = snap.data() || {};
+  const parsed = snap.exists
+    ? userProfileSchema.safeParse({ ...data, uid: data.uid || snap.id, email: data.email || '', fullName: data.fullName || data.displayName || '', role: data.role ?? null })
+    : null;
+  if (parsed && !parsed.success) console.error(`Invalid profile users/${snap.id}:`, parsed.error.message);
+  req.profile = parsed?.success ? parsed.data : null;
+  return req.profile;
+};
+
+// After requireAuth. A null module only asks for an assigned account, like the 'menu' pages.
+export const requirePermission = (module: PermissionModule | null, action: PermissionAction = 'read') =>
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const profile = await loadProfile(req);
+      if (module === null && (!profile?.role || profile.active === false)) {
+        return res.status(403).json({ error: 'Account not assigned' });
+      }
+      if (module !== null && !hasPermission(profile, module, action)) {
+        return res.status(403).json({ error: `Permission ${module}.${action} required` });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
@@ -0,0 +1,53 @@
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { z } from 'zod';
+import { ApiErrorBody, DomainValidationError, OrderTransitionError } from '../../../shared/domain';
+
+// Error with the HTTP status to answer, thrown from route handlers
+export class ApiError extends Error {
+  readonly status: number;
+  readonly details?: string[];
+
+  constructor(status: number, message: string, details?: string[]) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export const issueDetails = (issues: z.ZodIssue[]): string[] =>
+  issues.map(issue => `${issue.path.join('.') || '(racine)'}: ${issue.message}`);
+
+// Rejections of async handlers go to errorHandler instead of leaving the request pending
+export const asyncRoute = (handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>): RequestHandler =>
+  (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
+
+export const notFound = (req: Request, res: Response) => {
+  const body: ApiErrorBody = { error: `No route for ${req.method} ${req.path}` };
+  res.status(404).json(body);
+};
+
+// Last middleware: every error becomes { error, details? }
+export const errorHandler = (error: unknown, req: Request, res: Response, _next: NextFunction) => {
+  let status = 500;
+  let body: ApiErrorBody = { error: 'Internal server error' };
+  if (error instanceof DomainValidationError) {
+    status = 400;
+    body = { error: 'Invalid request body', details: issueDetails(error.issues) };
+  } else if (error instanceof OrderTransitionError) {
+    status = 409;
+    body = { error: error.message };
+  } else if (error instanceof ApiError) {
+    status = error.status;
+    body = { error: error.message, ...(error.details ? { details: error.details } : {}) };
+  } else if (error instanceof Error && (error as Error & { type?: string }).type === 'entity.parse.failed') {
+    // express.json() on a malformed body
+    status = 400;
+    body = { error: 'Malformed JSON body' };
+  } else {
+    console.error(`Error on ${req.method} ${req.originalUrl}:`, error);
+  }
+  res.status(status).json(body);
+};
@@ -0,0 +1,34 @@
+import { NextFunction, Request, Response } from 'express';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+}
+
+/**
+ * Fixed-window limiter per client IP, in memory: enough for one server instance.
+ * Behind a proxy, `app.set('trust proxy', ...)` must be set for req.ip to be the client.
+ */
+export const rateLimit = ({ windowMs, max }: RateLimitOptions) => {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = req.ip || 'unknown';
+    const entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      // Expired windows are dropped on the way so the map does not grow without bound
+      if (hits.size > 10000) {
+        hits.forEach((value, ip) => { if (value.resetAt <= now) hits.delete(ip); });
+      }
+      hits.set(key, { count: 1, resetAt: now + windowMs });
+      return next();
+    }
+    entry.count += 1;
+    if (entry.count > max) {
+      res.set('Retry-After', String(Math.ceil((entry.resetAt - now) / 1000)));
+      return res.status(429).json({ error: 'Too many requests' });
+    }
+    next();
+  };
+};
@@ -1,24 +1,64 @@
 import { Router } from 'express';
+import { createHash } from 'crypto';
 import { db } from '../firebase';
 import { FieldValue } from 'firebase-admin/firestore';
+import { requireAuth } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  computeScanAnalytics,
+  isDuplicateScan,
+  parseUserAgent,
+  scanAnalyticsQuerySchema,
+  scanEventSchema,
+  ScanEvent,
+  scanLotInfo,
+  trackScanRequestSchema
+} from '../../../shared/domain';
 
 const router = Router();
 
+// A public page is opened a few times per minute at most; scripts are cut off here
+const trackScanLimit = rateLimit({ windowMs: 60 * 1000, max: 30 });
+
 // Track QR code scan
-router.post('/track-scan', async (req, res) => {
+router.post('/track-scan', trackScanLimit, async (req, res) => {
   try {
-    const { lotNumber, scanType, timestamp, userAgent } = req.body;
-
-    if (!lotNumber || !scanType) {
+    const parsed = trackScanRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
+    const { lotNumber, scanType, deviceId, country } = parsed.data;
+    const userAgent = parsed.data.userAgent || req.get('user-agent') || '';
+    // Client clocks are not trusted beyond a few minutes
+    const now = new Date();
+    const claimed = parsed.data.timestamp ? new Date(parsed.data.timestamp) : null;
+    const timestamp = claimed && !isNaN(claimed.getTime()) && Math.abs(claimed.getTime() - now.getTime()) < 5 * 60 * 1000
+      ? claimed.toISOString()
+      : now.toISOString();
+
+    // Same device (or, without a device id, same IP and browser) and same lot
+    const device = deviceId || createHash('sha256').update(`${req.ip}|${userAgent}`).digest('hex').slice(0, 32);
+    const dedupRef = db.collection('scan_dedup')
+      .doc(createHash('sha256').update(`${device}|${lotNumber.toLowerCase()}`).digest('hex'));
+    const duplicate = await db.runTransaction(async tx => {
+      const previous = await tx.get(dedupRef);
+      if (isDuplicateScan(previous.get('lastScanAt'), timestamp)) return true;
+      tx.set(dedupRef, { lastScanAt: timestamp });
+      return false;
+    });
+    if (duplicate) {
+      return res.status(200).json({ success: true, duplicate: true });
+    }
 
     // Record the scan in Firestore
     await db.collection('scan_analytics').add({
       lotNumber,
       scanType,
-      timestamp: timestamp || new Date().toISOString(),
+      timestamp,
       userAgent,
+      deviceId: device,
+      ...parseUserAgent(userAgent),
+      ...(country ? { country } : {}),
       createdAt: FieldValue.serverTimestamp(),
     });
 
@@ -26,7 +66,7 @@ router.post('/track-scan', async (req, res) => {
     const statsRef = db.collection('lot_scan_stats').doc(lotNumber);
     await statsRef.set({
       scanCount: FieldValue.increment(1),
-      lastScanDate: timestamp || new Date().toISOString(),
+      lastScanDate: timestamp,
       lastScanType: scanType,
     }, { merge: true });
 
@@ -62,4 +102,49 @@ router.get('/scan-stats/:lotId', async (req, res) => {
   }
 });
 
+// Scan dashboard: scans joined with their lots (variety, client, shipping date)
+router.get('/scans', requireAuth, async (req, res) => {
+  try {
+    const query = scanAnalyticsQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid query parameters' });
+    }
+    const { from, to, granularity } = query.data;
+
+    // No lower bound: the first scan of a lot is needed for its latency
+    let scansQuery: FirebaseFirestore.Query = db.collection('scan_analytics');
+    if (to) scansQuery = scansQuery.where('timestamp', '<=', `${to}T23:59:59.999Z`);
+    const [scanDocs, trackingDocs, expeditionDocs] = await Promise.all([
+      scansQuery.get(),
+      db.collection('avocado-tracking').select('harvest', 'delivery.clientName', 'export.loadingDate').get(),
+      db.collection('expeditions').select('date', 'headerData.heure', 'rows').get()
+    ]);
+
+    const scans = scanDocs.docs.reduce<ScanEvent[]>((acc, d) => {
+      const scan = scanEventSchema.safeParse({ id: d.id, ...d.data() });
+      if (scan.success) acc.push(scan.data);
+      else console.error(`Invalid scan ${d.id}:`, scan.error.message);
+      return acc;
+    }, []);
+
+    const shipments = new Map<string, string[]>();
+    expeditionDocs.docs.forEach(d => {
+      const shippedAt = `${d.get('date')}T${d.get('headerData.heure') || '00:00'}`;
+      (d.get('rows') || []).forEach((row: { numeroLotInterne?: string }) => {
+        const lot = row.numeroLotInterne?.trim().toLowerCase();
+        if (lot) shipments.set(lot, [...(shipments.get(lot) || []), shippedAt]);
+      });
+    });
+    const lots = trackingDocs.docs
+      .map(d => d.data())
+      .filter(tracking => tracking.harvest?.lotNumber)
+      .map(tracking => scanLotInfo(tracking, shipments.get(String(tracking.harvest.lotNumber).toLowerCase()) || []));
+
+    res.json(computeScanAnalytics(scans, lots, { from, to }, granularity));
+  } catch (error) {
+    console.error('Error computing scan analytics:', error);
+    res.status(500).json({ error: 'Failed to compute scan analytics' });
+  }
+});
+
 export default router; 
\ No newline at end of file
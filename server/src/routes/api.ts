@@ -0,0 +1,181 @@
+import { Router } from 'express';
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../firebase';
+import { toPlain, writeAudited } from '../audit';
+import { AuthenticatedRequest, requireAuth, requirePermission } from '../middleware/auth';
+import { ApiError, asyncRoute, errorHandler, notFound } from '../middleware/errors';
+import { resourceRouter } from './resources';
+import {
+  ClientOrderWrite,
+  clientOrderDocSchema,
+  clientOrderWriteSchema,
+  clientSchema,
+  clientWriteSchema,
+  expeditionFormSchema,
+  farmSchema,
+  farmWriteSchema,
+  nextSiteCode,
+  orderStatusChange,
+  orderStatusRequestSchema,
+  palletReservationSchema,
+  parseDocuments,
+  parseDomain,
+  qualityControlLotSchema,
+  reservationOrderIds,
+  reservationsReleasedBy,
+  sharedLotSchema,
+  trackingLotSchema,
+  trackingLotWriteSchema,
+  warehouseSchema,
+  warehouseWriteSchema
+} from '../../../shared/domain';
+
+// REST API for integrations and scripts (shared/domain/api.ts).
+// Receptions, production sheets, quality controls and expeditions are read-only here:
+// saving them in the app also derives the lot genealogy, the stock ledger, the pallet
+// registry and the visas, which this layer does not reproduce.
+
+const router = Router();
+
+router.use(requireAuth);
+
+// Codes of a series are given in order, like the farms and warehouses pages do
+const withSiteCode = (collection: string, prefix: 'F' | 'WH' | 'CL') =>
+  async <T extends { code: string }>(data: T): Promise<T> => {
+    if (data.code) return data;
+    const codes = await db.collection(collection).select('code').get();
+    return { ...data, code: nextSiteCode(prefix, codes.docs.map(d => String(d.get('code') || ''))) };
+  };
+
+router.use('/lots', resourceRouter({
+  collection: 'avocado-tracking',
+  schema: trackingLotSchema,
+  readModule: null,
+  writeModule: 'production',
+  writeSchema: trackingLotWriteSchema,
+  filters: { lotNumber: 'harvest.lotNumber', variety: 'harvest.variety', farmerId: 'harvest.farmerId' },
+  label: lot => `Lot ${lot.harvest.lotNumber}`
+}));
+
+router.use('/farms', resourceRouter({
+  collection: 'farms',
+  schema: farmSchema,
+  readModule: null,
+  writeModule: 'admin',
+  writeSchema: farmWriteSchema,
+  filters: { code: 'code', active: 'active' },
+  beforeCreate: withSiteCode('farms', 'F')
+}));
+
+router.use('/warehouses', resourceRouter({
+  collection: 'entrepots',
+  schema: warehouseSchema,
+  readModule: null,
+  writeModule: 'admin',
+  writeSchema: warehouseWriteSchema,
+  filters: { code: 'code', active: 'active' },
+  beforeCreate: withSiteCode('entrepots', 'WH')
+}));
+
+router.use('/clients', resourceRouter({
+  collection: 'clients',
+  schema: clientSchema,
+  readModule: null,
+  writeModule: 'logistics',
+  writeSchema: clientWriteSchema,
+  filters: { code: 'code', active: 'active', country: 'country' },
+  label: client => `Client ${client.name}`,
+  beforeCreate: withSiteCode('clients', 'CL'),
+  deletable: false
+}));
+
+router.use('/quality-controls', resourceRouter({
+  collection: 'quality_control_lots',
+  schema: qualityControlLotSchema,
+  readModule: 'quality',
+  filters: { lotNumber: 'lotNumber', status: 'status', phase: 'phase' }
+}));
+
+router.use('/receptions', resourceRouter({
+  collection: 'shared_lots',
+  schema: sharedLotSchema,
+  readModule: 'reception',
+  filters: { lotNumber: 'lotNumber', status: 'status' },
+  scope: { field: 'type', value: 'reception' }
+}));
+
+router.use('/production', resourceRouter({
+  collection: 'shared_lots',
+  schema: sharedLotSchema,
+  readModule: 'production',
+  filters: { lotNumber: 'lotNumber', status: 'status' },
+  scope: { field: 'type', value: 'production' }
+}));
+
+router.use('/expeditions', resourceRouter({
+  collection: 'expeditions',
+  schema: expeditionFormSchema,
+  readModule: 'logistics',
+  filters: { date: 'date', destination: 'headerData.destination' }
+}));
+
+// Status changes go through the order lifecycle, never through PUT. A cancelled order
+// gives back the colis reserved for it in the same transaction, as releaseOrder does in the app.
+router.post('/orders/:id/status', requirePermission('logistics', 'write'), asyncRoute(async (req: AuthenticatedRequest, res) => {
+  const { status, reason } = parseDomain(orderStatusRequestSchema, req.body, 'client-orders (statut)');
+  const ref = db.collection('client-orders').doc(req.params.id);
+
+  const updated = await db.runTransaction(async transaction => {
+    const snap = await transaction.get(ref);
+    if (!snap.exists) throw new ApiError(404, `client-orders/${req.params.id} not found`);
+    const order = parseDomain(clientOrderDocSchema, { ...(toPlain(snap.data()) as object), id: snap.id }, `client-orders/${snap.id}`);
+    const change = orderStatusChange(order, status, req.email || (req.uid as string), reason);
+
+    const held = status === 'cancelled'
+      ? await transaction.get(db.collection('pallet_reservations').where('orderIds', 'array-contains', order.id))
+      : null;
+
+    writeAudited(transaction, snap, {
+      kind: 'update',
+      data: { ...change, updatedAt: FieldValue.serverTimestamp() }
+    }, { uid: req.uid as string, email: req.email || '' }, `Commande ${order.orderNumber}`);
+
+    if (held) {
+      const { items, errors } = parseDocuments(
+        palletReservationSchema,
+        held.docs.map(d => ({ id: d.id, data: () => toPlain(d.data()) })),
+        'pallet_reservations'
+      );
+      errors.forEach(error => console.error(error.message));
+      const now = new Date().toISOString();
+      reservationsReleasedBy(items, order.id).forEach(({ id, reservations }) => {
+        const reservationRef = db.collection('pallet_reservations').doc(id);
+        if (reservations.length === 0) transaction.delete(reservationRef);
+        else transaction.update(reservationRef, { reservations, orderIds: reservationOrderIds(reservations), updatedAt: now });
+      });
+    }
+    return { ...order, ...change };
+  });
+  res.json({ data: updated });
+}));
+
+router.use('/orders', resourceRouter({
+  collection: 'client-orders',
+  schema: clientOrderDocSchema,
+  readModule: null,
+  writeModule: 'logistics',
+  writeSchema: clientOrderWriteSchema,
+  filters: { orderNumber: 'orderNumber', status: 'status', clientId: 'clientId', clientName: 'clientName' },
+  label: order => `Commande ${order.orderNumber}`,
+  // Orders created by an integration start as drafts, like in the app
+  beforeCreate: async (order: ClientOrderWrite) => ({
+    ...order,
+    status: 'draft',
+    statusHistory: [{ from: null, to: 'draft', at: new Date().toISOString(), by: 'API' }]
+  })
+}));
+
+router.use(notFound);
+router.use(errorHandler);
+
+export default router;
@@ -0,0 +1,103 @@
+import { Request, Response, Router } from 'express';
+import { db } from '../firebase';
+import { findPublicLot } from '../lots';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  buildDigitalLink,
+  buildLotLinkset,
+  isValidGtin,
+  isValidSscc,
+  LINK_TYPES,
+  linksetTarget,
+  negotiateLanguage,
+  palletRecordSchema,
+  toGtin14
+} from '../../../shared/domain';
+
+// GS1 Digital Link resolver: /01/{gtin}/10/{lot} and /00/{sscc}.
+// Browsers are redirected to the public lot page, linkset clients (Accept:
+// application/linkset+json or ?linkType=all) get the JSON linkset.
+
+const router = Router();
+
+// Same limit as the public lot pages: both answer unauthenticated scans for the same lots
+const digitalLinkLimit = rateLimit({ windowMs: 60 * 1000, max: 30 });
+
+// Where the consumer pages are served
+const APP_BASE = process.env.PUBLIC_APP_URL || 'https://fruitsforyou-10acc.web.app';
+
+const LINKSET_TYPE = 'application/linkset+json';
+
+// Base of the URI scanned, used as the anchor of the linkset
+const resolverBase = (req: Request) => process.env.DIGITAL_LINK_BASE || `${req.protocol}://${req.get('host')}`;
+
+// A GTIN must be one of the trade items of the company, when they are configured
+const isKnownGtin = async (gtin: string): Promise<boolean> => {
+  const settings = await db.collection('sscc_settings').doc('default').get();
+  const items: Array<{ gtin: string }> = settings.data()?.tradeItems || [];
+  return items.length === 0 || items.some(item => toGtin14(item.gtin) === gtin);
+};
+
+const respond = (req: Request, res: Response, anchor: string, lotNumber: string) => {
+  const linkset = buildLotLinkset(anchor, APP_BASE, lotNumber);
+  const lang = negotiateLanguage(req.query.lang as string | undefined, req.get('accept-language'));
+  const linkType = (req.query.linkType as string | undefined) || '';
+
+  res.set('Vary', 'Accept, Accept-Language');
+  res.set('Link', `<${anchor}?linkType=all>; rel="linkset"; type="${LINKSET_TYPE}"`);
+
+  if (linkType === 'all' || (!linkType && req.accepts(['text/html', LINKSET_TYPE, 'application/json']) !== 'text/html')) {
+    return res.type(LINKSET_TYPE).send(JSON.stringify(linkset));
+  }
+
+  const target = linksetTarget(linkset, linkType || LINK_TYPES.pip, lang);
+  if (!target) {
+    return res.status(404).json({ error: `Link type ${linkType} not available for this item` });
+  }
+  return res.redirect(307, target);
+};
+
+// Trade item of a lot, from the QR printed on the box
+router.get('/01/:gtin/10/:lot', digitalLinkLimit, async (req, res) => {
+  try {
+    const { gtin: rawGtin, lot } = req.params;
+    if (!isValidGtin(rawGtin)) {
+      return res.status(400).json({ error: 'Invalid GTIN' });
+    }
+    const gtin = toGtin14(rawGtin);
+    if (!(await isKnownGtin(gtin)) || !(await findPublicLot(lot))) {
+      return res.status(404).json({ error: 'Unknown item or lot' });
+    }
+    respond(req, res, buildDigitalLink(resolverBase(req), { gtin, lot }), lot);
+  } catch (error) {
+    console.error('Error resolving digital link:', error);
+    res.status(500).json({ error: 'Failed to resolve digital link' });
+  }
+});
+
+// Pallet, from the QR of the SSCC label: resolved to the published lot it was packed from.
+// Pallets of unpublished lots are unknown here, their internal lot numbers stay internal.
+router.get('/00/:sscc', digitalLinkLimit, async (req, res) => {
+  try {
+    const { sscc } = req.params;
+    if (!isValidSscc(sscc)) {
+      return res.status(400).json({ error: 'Invalid SSCC' });
+    }
+    const snap = await db.collection('pallets').doc(sscc).get();
+    const pallet = palletRecordSchema.safeParse({ ...snap.data(), id: snap.id });
+    if (!snap.exists || !pallet.success || pallet.data.status === 'annulee') {
+      return res.status(404).json({ error: 'Unknown pallet' });
+    }
+    const found = (pallet.data.internalLot && await findPublicLot(pallet.data.internalLot))
+      || await findPublicLot(pallet.data.productionLotNumber);
+    if (!found) {
+      return res.status(404).json({ error: 'Unknown pallet' });
+    }
+    respond(req, res, buildDigitalLink(resolverBase(req), { sscc }), String(found.lot.get('harvest.lotNumber')));
+  } catch (error) {
+    console.error('Error resolving digital link:', error);
+    res.status(500).json({ error: 'Failed to resolve digital link' });
+  }
+});
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { findPublicLot } from '../lots';
+import { rateLimit } from '../middleware/rateLimit';
+import { negotiateLanguage, projectPublicLot } from '../../../shared/domain';
+
+// Consumer lot pages: the projection of shared/domain/publicLot.ts, nothing else.
+// The full avocado-tracking document is read here and never sent.
+
+const router = Router();
+
+// Unauthenticated: a consumer opens a few lot pages, scripts enumerating lot numbers are cut off
+const publicLotLimit = rateLimit({ windowMs: 60 * 1000, max: 30 });
+
+router.get('/:lotNumber', publicLotLimit, async (req, res) => {
+  try {
+    const { lotNumber } = req.params;
+    const found = await findPublicLot(lotNumber);
+    if (!found) {
+      return res.status(404).json({ error: 'Lot not found' });
+    }
+
+    const language = negotiateLanguage(req.query.lang as string | undefined, req.get('accept-language'));
+    res.set('Cache-Control', 'public, max-age=300');
+    res.set('Vary', 'Accept-Language');
+    res.json(projectPublicLot(found.lot.data(), found.publication, language));
+  } catch (error) {
+    console.error('Error fetching public lot:', error);
+    res.status(500).json({ error: 'Failed to fetch lot' });
+  }
+});
+
+export default router;
@@ -0,0 +1,127 @@
+import { Router } from 'express';
+import { DocumentSnapshot, FieldPath, FieldValue, Query } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { db } from '../firebase';
+import { auditedServerWrite, toPlain } from '../audit';
+import { AuthenticatedRequest, requirePermission } from '../middleware/auth';
+import { ApiError, asyncRoute, issueDetails } from '../middleware/errors';
+import { ApiPage, apiListQuerySchema, parseDomain, PermissionModule } from '../../../shared/domain';
+
+// One REST resource over a Firestore collection:
+//   GET /            paged list, equality filters from the query string
+//   GET /:id
+//   POST /           validated by writeSchema, audited
+//   PUT /:id         writable fields replaced, audited; refused on a signed (locked) record
+//   DELETE /:id      audited; refused on a signed record; absent when deletable is false
+// Resources without writeSchema are read-only.
+
+export interface ResourceDefinition<W extends z.ZodTypeAny> {
+  collection: string;
+  schema: z.ZodTypeAny;                           // Documents are parsed before being sent
+  readModule: PermissionModule | null;            // null: any assigned account
+  writeModule?: PermissionModule;
+  writeSchema?: W;
+  filters?: Record<string, string>;               // Query parameter -> field path
+  scope?: { field: string; value: string };       // One kind of document of a shared collection
+  label?: (data: z.output<W>) => string;          // Audit trail label
+  beforeCreate?: (data: z.output<W>) => Promise<z.output<W>>;
+  deletable?: boolean;                            // false: records are deactivated instead
+}
+
+// ?active=true compares with a boolean, everything else with the string
+const filterValue = (value: string): string | boolean =>
+  value === 'true' ? true : value === 'false' ? false : value;
+
+export const resourceRouter = <W extends z.ZodTypeAny>(definition: ResourceDefinition<W>): Router => {
+  const { collection, schema, readModule, writeModule, writeSchema, filters = {}, scope } = definition;
+  const router = Router();
+
+  const toResource = (snap: DocumentSnapshot) => {
+    const parsed = schema.safeParse({ ...(toPlain(snap.data()) as object), id: snap.id });
+    if (!parsed.success) console.error(`Invalid document ${collection}/${snap.id}:`, parsed.error.message);
+    return parsed.success ? parsed.data : null;
+  };
+
+  const findDoc = async (id: string): Promise<DocumentSnapshot> => {
+    const snap = await db.collection(collection).doc(id).get();
+    if (!snap.exists || (scope && snap.get(scope.field) !== scope.value)) {
+      throw new ApiError(404, `${collection}/${id} not found`);
+    }
+    return snap;
+  };
+
+  const user = (req: AuthenticatedRequest) => ({ uid: req.uid as string, email: req.email || '' });
+
+  router.get('/', requirePermission(readModule), asyncRoute(async (req, res) => {
+    const page = apiListQuerySchema.safeParse(req.query);
+    if (!page.success) throw new ApiError(400, 'Invalid query parameters', issueDetails(page.error.issues));
+    const { limit, cursor } = page.data;
+
+    let query: Query = db.collection(collection);
+    if (scope) query = query.where(scope.field, '==', scope.value);
+    Object.entries(filters).forEach(([param, field]) => {
+      const value = req.query[param];
+      if (typeof value === 'string' && value !== '') query = query.where(field, '==', filterValue(value));
+    });
+    // Document id order: stable across pages whatever the fields of the documents
+    query = query.orderBy(FieldPath.documentId()).limit(limit + 1);
+    if (cursor) query = query.startAfter(cursor);
+
+    const snap = await query.get();
+    const docs = snap.docs.slice(0, limit);
+    const body: ApiPage<unknown> = {
+      data: docs.map(toResource).filter(item => item !== null),
+      nextCursor: snap.docs.length > limit ? docs[docs.length - 1].id : null
+    };
+    res.json(body);
+  }));
+
+  router.get('/:id', requirePermission(readModule), asyncRoute(async (req, res) => {
+    const data = toResource(await findDoc(req.params.id));
+    if (!data) throw new ApiError(500, `${collection}/${req.params.id} is malformed`);
+    res.json({ data });
+  }));
+
+  if (!writeSchema || !writeModule) return router;
+
+  // Validated data as stored: no undefined values (refused by Firestore)
+  const validate = (body: unknown) =>
+    JSON.parse(JSON.stringify(parseDomain(writeSchema, scope ? { ...(body as object), [scope.field]: scope.value } : body, collection)));
+
+  const assertUnlocked = (snap: DocumentSnapshot) => {
+    if (snap.get('locked') === true) throw new ApiError(409, `${collection}/${snap.id} is signed and locked`);
+  };
+
+  router.post('/', requirePermission(writeModule, 'write'), asyncRoute(async (req, res) => {
+    let data = validate(req.body);
+    if (definition.beforeCreate) data = await definition.beforeCreate(data);
+    const ref = db.collection(collection).doc();
+    await auditedServerWrite(ref, {
+      kind: 'create',
+      data: { ...data, createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() }
+    }, user(req), definition.label?.(data));
+    res.status(201).json({ data: toResource(await ref.get()) });
+  }));
+
+  router.put('/:id', requirePermission(writeModule, 'write'), asyncRoute(async (req, res) => {
+    const snap = await findDoc(req.params.id);
+    assertUnlocked(snap);
+    const data = validate(req.body);
+    await auditedServerWrite(snap.ref, {
+      kind: 'update',
+      data: { ...data, updatedAt: FieldValue.serverTimestamp() }
+    }, user(req), definition.label?.(data));
+    res.json({ data: toResource(await snap.ref.get()) });
+  }));
+
+  if (definition.deletable !== false) {
+    router.delete('/:id', requirePermission(writeModule, 'write'), asyncRoute(async (req, res) => {
+      const snap = await findDoc(req.params.id);
+      assertUnlocked(snap);
+      await auditedServerWrite(snap.ref, { kind: 'delete' }, user(req));
+      res.status(204).end();
+    }));
+  }
+
+  return router;
+};
@@ -0,0 +1,245 @@
+import { describe, expect, it } from 'vitest';
+import {
+  allocationLinesFromOrders,
+  freePackagesFor,
+  planAllocations,
+  qualityVerdictsByLot,
+  reservationOrderIds,
+  reservationsReleasedBy,
+  toAllocationUnit
+} from './allocation';
+import type { AllocationLine, LotQualityVerdict, PalletReservation, PalletReservationLine } from './allocation';
+import type { PalletStock } from './stockLedger';
+
+// A pallet of Hass in calibre 18, colis of 4 kg
+const pallet = (palletId: string, enteredOn: string, reference: string, fields: Partial<PalletStock> = {}): PalletStock => ({
+  palletId,
+  sscc: null,
+  reference,
+  locationId: null,
+  locationLabel: 'Chambre 1',
+  internalLot: reference,
+  calibre: '18',
+  variety: 'HASS',
+  packages: 100,
+  kg: 400,
+  enteredOn,
+  exitedOn: null,
+  exitReference: null,
+  ageDays: 0,
+  ...fields
+});
+
+const line = (orderNumber: string, quantity: number, fields: Partial<AllocationLine> = {}): AllocationLine => ({
+  orderId: orderNumber.toLowerCase(),
+  orderNumber,
+  clientName: 'Client',
+  lineId: 'l1',
+  product: 'Hass Avocado',
+  variety: 'Hass',
+  calibre: '18',
+  quantity,
+  unit: 'colis',
+  requestedDeliveryDate: '2024-02-01',
+  priority: 'medium',
+  ...fields
+});
+
+const held = (orderNumber: string, packages: number): PalletReservationLine => ({
+  orderId: orderNumber.toLowerCase(),
+  orderNumber,
+  lineId: 'l1',
+  packages,
+  kg: packages * 4,
+  reservedAt: '2024-01-10T08:00:00.000Z'
+});
+
+const reservation = (palletId: string, reservations: PalletReservationLine[]): PalletReservation => ({
+  id: palletId,
+  palletId,
+  sscc: null,
+  reservations,
+  orderIds: reservationOrderIds(reservations),
+  updatedAt: '2024-01-10T08:00:00.000Z'
+});
+
+const verdicts = (entries: Record<string, LotQualityVerdict>) => new Map(Object.entries(entries));
+
+const palletsOf = (plan: ReturnType<typeof planAllocations>, orderNumber: string) =>
+  plan.lines.find(result => result.line.orderNumber === orderNumber)!.pallets
+    .map(({ palletId, packages, reserved }) => ({ palletId, packages, reserved }));
+
+describe('qualityVerdictsByLot', () => {
+  it('keeps the latest control of each lot, a chief decision winning over the computed result', () => {
+    const result = qualityVerdictsByLot([
+      { lotNumber: 'lot-a', status: 'submitted', updatedAt: '2024-01-01', formData: { calculatedResults: { isConform: false } } },
+      { lotNumber: 'LOT-A ', status: 'chief_approved', updatedAt: '2024-01-02', formData: { calculatedResults: { isConform: false } } },
+      { lotNumber: 'LOT-B', status: 'chief_rejected', formData: { calculatedResults: { isConform: true } } },
+      { lotNumber: 'LOT-C', status: 'submitted', formData: { calculatedResults: { isConform: true } } },
+      { lotNumber: 'LOT-D', status: 'draft', formData: { calculatedResults: { isConform: true } } }
+    ]);
+    expect(Object.fromEntries(result)).toEqual({
+      'LOT-A': 'conforme',
+      'LOT-B': 'non_conforme',
+      'LOT-C': 'conforme',
+      'LOT-D': 'non_controle'
+    });
+  });
+});
+
+describe('planAllocations', () => {
+  it('takes the oldest pallets first, conforming before uncontrolled at equal age', () => {
+    const plan = planAllocations(
+      [line('CMD-1', 130)],
+      [
+        pallet('P3', '2024-01-05', 'LOT-C'),
+        pallet('P2', '2024-01-01', 'LOT-B'),
+        pallet('P1', '2024-01-01', 'LOT-A')
+      ],
+      [],
+      verdicts({ 'LOT-A': 'conforme' })
+    );
+    expect(palletsOf(plan, 'CMD-1')).toEqual([
+      { palletId: 'P1', packages: 100, reserved: false },
+      { palletId: 'P2', packages: 30, reserved: false }
+    ]);
+    expect(plan.lines[0]).toMatchObject({ allocated: 130, shortfall: 0 });
+  });
+
+  it('never proposes a pallet whose lot failed its quality control, nor one that left', () => {
+    const plan = planAllocations(
+      [line('CMD-1', 150)],
+      [
+        pallet('P1', '2024-01-01', 'LOT-A'),
+        pallet('P2', '2024-01-02', 'LOT-B'),
+        pallet('P3', '2024-01-03', 'LOT-C', { exitedOn: '2024-01-20' })
+      ],
+      [],
+      verdicts({ 'LOT-A': 'non_conforme' })
+    );
+    expect(palletsOf(plan, 'CMD-1')).toEqual([{ palletId: 'P2', packages: 100, reserved: false }]);
+    expect(plan.lines[0]).toMatchObject({ allocated: 100, shortfall: 50 });
+    expect(plan.unreservedStock).toEqual([]);
+  });
+
+  it('serves the earliest delivery first, then the highest priority', () => {
+    const plan = planAllocations(
+      [
+        line('CMD-3', 60, { requestedDeliveryDate: '2024-02-10', priority: 'high' }),
+        line('CMD-2', 60, { priority: 'low' }),
+        line('CMD-1', 60, { priority: 'high' })
+      ],
+      [pallet('P1', '2024-01-01', 'LOT-A')],
+      [],
+      verdicts({})
+    );
+    expect(plan.lines.map(result => [result.line.orderNumber, result.allocated])).toEqual([
+      ['CMD-1', 60],
+      ['CMD-2', 40],
+      ['CMD-3', 0]
+    ]);
+  });
+
+  it('keeps the reservations made and gives the other lines only what is left', () => {
+    const plan = planAllocations(
+      [line('CMD-1', 50), line('CMD-2', 50, { requestedDeliveryDate: '2024-03-01' })],
+      [pallet('P1', '2024-01-01', 'LOT-A'), pallet('P2', '2024-01-02', 'LOT-B', { packages: 20, kg: 80 })],
+      [reservation('P1', [held('CMD-2', 90)])],
+      verdicts({})
+    );
+    expect(palletsOf(plan, 'CMD-2')).toEqual([{ palletId: 'P1', packages: 90, reserved: true }]);
+    expect(palletsOf(plan, 'CMD-1')).toEqual([
+      { palletId: 'P1', packages: 10, reserved: false },
+      { palletId: 'P2', packages: 20, reserved: false }
+    ]);
+    expect(plan.lines.find(result => result.line.orderNumber === 'CMD-1')).toMatchObject({ allocated: 30, shortfall: 20 });
+  });
+
+  it('counts a line in kg from the net weight of the colis, in palettes from whole pallets', () => {
+    const plan = planAllocations(
+      [line('CMD-1', 98, { unit: 'kg' }), line('CMD-2', 2, { unit: 'palettes', requestedDeliveryDate: '2024-03-01' })],
+      [pallet('P1', '2024-01-01', 'LOT-A'), pallet('P2', '2024-01-02', 'LOT-B'), pallet('P3', '2024-01-03', 'LOT-C')],
+      [],
+      verdicts({})
+    );
+    expect(palletsOf(plan, 'CMD-1')).toEqual([{ palletId: 'P1', packages: 25, reserved: false }]);
+    expect(plan.lines[0]).toMatchObject({ allocated: 100, shortfall: 0 });
+    expect(palletsOf(plan, 'CMD-2')).toEqual([
+      { palletId: 'P2', packages: 100, reserved: false },
+      { palletId: 'P3', packages: 100, reserved: false }
+    ]);
+  });
+
+  it('sums the shortfall per variety and calibre, largest first, and lists the stock left', () => {
+    const plan = planAllocations(
+      [
+        line('CMD-1', 80),
+        line('CMD-2', 60),
+        line('CMD-3', 10, { calibre: '22' }),
+        line('CMD-4', 5, { calibre: '' })
+      ],
+      [pallet('P1', '2024-01-01', 'LOT-A'), pallet('P2', '2024-01-02', 'LOT-B', { calibre: '20', packages: 40, kg: 160 })],
+      [],
+      verdicts({})
+    );
+    expect(plan.shortfalls).toEqual([
+      { variety: 'Hass', calibre: '18', unit: 'colis', requested: 140, allocated: 100, shortfall: 40, orders: ['CMD-2'] },
+      { variety: 'Hass', calibre: '22', unit: 'colis', requested: 10, allocated: 0, shortfall: 10, orders: ['CMD-3'] },
+      { variety: 'Hass', calibre: 'Tous', unit: 'colis', requested: 5, allocated: 5, shortfall: 0, orders: [] }
+    ]);
+    expect(plan.unreservedStock).toEqual([{ variety: 'HASS', calibre: '20', packages: 35, kg: 140, pallets: 1 }]);
+  });
+});
+
+describe('allocationLinesFromOrders', () => {
+  const order = (status: 'confirmed' | 'draft' | 'shipped') => ({
+    id: `o-${status}`,
+    orderNumber: `CMD-${status}`,
+    clientName: 'Client',
+    status,
+    requestedDeliveryDate: '2024-02-01',
+    priority: 'medium' as const,
+    products: [
+      { id: 'l1', name: 'Hass Avocado', quantity: 3, unit: 'Palette', pricePerUnit: 0, totalPrice: 0, caliber: 'Mixed' },
+      { id: 'l2', name: 'Hass Avocado', quantity: 0, unit: 'kg', pricePerUnit: 0, totalPrice: 0, caliber: '16' },
+      { id: 'l3', name: 'Avocat', quantity: 120, unit: 'cartons', pricePerUnit: 0, totalPrice: 0, variety: ' Fuerte ', caliber: ' 20 ' }
+    ]
+  });
+
+  it('takes the lines of the open orders, any calibre for a mixed line', () => {
+    const lines = allocationLinesFromOrders([order('confirmed'), order('draft'), order('shipped')]);
+    expect(lines.map(({ orderNumber, lineId, variety, calibre, quantity, unit }) => ({ orderNumber, lineId, variety, calibre, quantity, unit })))
+      .toEqual([
+        { orderNumber: 'CMD-confirmed', lineId: 'l1', variety: '', calibre: '', quantity: 3, unit: 'palettes' },
+        { orderNumber: 'CMD-confirmed', lineId: 'l3', variety: 'Fuerte', calibre: '20', quantity: 120, unit: 'colis' }
+      ]);
+  });
+
+  it('reads the units typed on the orders', () => {
+    expect(toAllocationUnit('Kg')).toBe('kg');
+    expect(toAllocationUnit('kilos')).toBe('kg');
+    expect(toAllocationUnit('palette')).toBe('palettes');
+    expect(toAllocationUnit('cartons')).toBe('colis');
+    expect(toAllocationUnit(undefined)).toBe('colis');
+  });
+});
+
+describe('reservations', () => {
+  const shared = reservation('P1', [held('CMD-1', 30), held('CMD-2', 50)]);
+
+  it('leaves an order the colis the other orders have not reserved', () => {
+    expect(freePackagesFor({ packages: 100 }, shared, 'cmd-1')).toBe(50);
+    expect(freePackagesFor({ packages: 100 }, shared, 'cmd-3')).toBe(20);
+    expect(freePackagesFor({ packages: 100 }, null, 'cmd-3')).toBe(100);
+  });
+
+  it('gives back the colis of an order and keeps those of the others', () => {
+    const own = reservation('P2', [held('CMD-1', 10)]);
+    const other = reservation('P3', [held('CMD-2', 10)]);
+    expect(reservationsReleasedBy([shared, own, other], 'cmd-1')).toEqual([
+      { id: 'P1', reservations: [held('CMD-2', 50)] },
+      { id: 'P2', reservations: [] }
+    ]);
+    expect(shared.orderIds).toEqual(['cmd-1', 'cmd-2']);
+  });
+});
@@ -0,0 +1,362 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+import type { ClientOrder } from './orders';
+import type { PalletStock } from './stockLedger';
+
+// Order-to-pallet allocation.
+// Open client orders are served from the pallets in stock (stock ledger) of the same
+// variety and calibre, oldest pallets first since the fruit keeps ripening in the
+// chambre. Pallets of a production lot whose quality control failed are never proposed.
+// A reservation (pallet_reservations, one document per pallet) holds the colis promised
+// to each order, so the same colis cannot be promised twice.
+
+export const palletReservationLineSchema = z.object({
+  orderId: z.string(),
+  orderNumber: z.string(),
+  lineId: z.string(),
+  packages: z.number(),             // colis
+  kg: z.number(),
+  reservedAt: z.string()
+});
+
+export const palletReservationSchema = z.object({
+  id: z.string(),                   // palletReservationId(palletId)
+  palletId: z.string(),
+  sscc: z.string().nullable().default(null),
+  reservations: z.array(palletReservationLineSchema),
+  // Orders of the reservations, written with them so the pallets of an order can be queried
+  orderIds: z.array(z.string()).optional(),
+  updatedAt: isoDateSchema
+});
+
+export type PalletReservationLine = z.infer<typeof palletReservationLineSchema>;
+export type PalletReservation = z.infer<typeof palletReservationSchema>;
+
+export const reservationOrderIds = (reservations: PalletReservationLine[]): string[] =>
+  Array.from(new Set(reservations.map(held => held.orderId)));
+
+// Lot numbers may contain '/', which Firestore reads as a path
+export const palletReservationId = (palletId: string) => palletId.replace(/\//g, '_');
+
+export type AllocationUnit = 'kg' | 'colis' | 'palettes';
+
+export const ALLOCATION_UNIT_LABELS: Record<AllocationUnit, string> = {
+  kg: 'kg',
+  colis: 'colis',
+  palettes: 'palettes'
+};
+
+// Units are typed freely on the orders ('kg', 'Kg', 'cartons', 'palette')
+export const toAllocationUnit = (unit?: string): AllocationUnit => {
+  const u = (unit || '').trim().toLowerCase();
+  if (/^kg|kilo/.test(u)) return 'kg';
+  if (/^pal/.test(u)) return 'palettes';
+  return 'colis';
+};
+
+// Verdict of the quality control of a production lot
+export type LotQualityVerdict = 'conforme' | 'non_conforme' | 'non_controle';
+
+interface QualityControlVerdictInput {
+  lotNumber: string;
+  status: string;
+  updatedAt?: string;
+  formData?: { calculatedResults?: { isConform: boolean } };
+}
+
+const normalize = (value?: string | number): string =>
+  String(value ?? '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+/**
+ * Latest verdict per lot number: a chief decision wins over the computed result, a
+ * control still in progress leaves the lot 'non_controle'.
+ */
+export const qualityVerdictsByLot = (controls: QualityControlVerdictInput[]): Map<string, LotQualityVerdict> => {
+  const latest = new Map<string, QualityControlVerdictInput>();
+  controls.forEach(control => {
+    const key = normalize(control.lotNumber);
+    const current = latest.get(key);
+    if (!current || (control.updatedAt || '') > (current.updatedAt || '')) latest.set(key, control);
+  });
+  const verdicts = new Map<string, LotQualityVerdict>();
+  latest.forEach((control, key) => {
+    const computed = control.formData?.calculatedResults?.isConform;
+    const verdict: LotQualityVerdict = control.status === 'chief_rejected' ? 'non_conforme'
+      : control.status === 'chief_approved' ? 'conforme'
+        : computed === false ? 'non_conforme'
+          : computed === true && control.status !== 'draft' ? 'conforme'
+            : 'non_controle';
+    verdicts.set(key, verdict);
+  });
+  return verdicts;
+};
+
+export interface AllocationLine {
+  orderId: string;
+  orderNumber: string;
+  clientName: string;
+  lineId: string;
+  product: string;
+  variety: string;                  // '' : any variety
+  calibre: string;                  // '' : any calibre
+  quantity: number;
+  unit: AllocationUnit;
+  requestedDeliveryDate: string;
+  priority: ClientOrder['priority'];
+}
+
+// Confirmed orders whose pallets are not packed yet
+const OPEN_ORDER_STATUSES: ClientOrder['status'][] = ['confirmed', 'in_production'];
+
+type OrderForAllocation = Pick<ClientOrder, 'id' | 'orderNumber' | 'clientName' | 'status' | 'requestedDeliveryDate' | 'priority'> & {
+  products: Array<ClientOrder['products'][number] & { caliber?: string; variety?: string }>;
+};
+
+// Lines of the orders still to prepare; 'Mixed' calibres are served from any calibre
+export const allocationLinesFromOrders = (orders: OrderForAllocation[]): AllocationLine[] =>
+  orders
+    .filter(order => OPEN_ORDER_STATUSES.includes(order.status))
+    .flatMap(order => order.products
+      .filter(product => product.quantity > 0)
+      .map(product => ({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        clientName: order.clientName,
+        lineId: product.id,
+        product: product.name,
+        variety: (product.variety || '').trim(),
+        calibre: /^mix/i.test(product.caliber || '') ? '' : (product.caliber || '').trim(),
+        quantity: product.quantity,
+        unit: toAllocationUnit(product.unit),
+        requestedDeliveryDate: order.requestedDeliveryDate,
+        priority: order.priority
+      })));
+
+export interface ProposedPallet {
+  palletId: string;
+  sscc: string | null;
+  reference: string;                // Production lot
+  locationLabel: string;
+  calibre: string;
+  variety: string;
+  enteredOn: string;
+  ageDays: number;
+  conformity: LotQualityVerdict;
+  packages: number;
+  kg: number;
+  reserved: boolean;                // Already reserved for this order, not only proposed
+}
+
+export interface LineAllocation {
+  line: AllocationLine;
+  pallets: ProposedPallet[];
+  allocated: number;                // In the unit of the line
+  shortfall: number;
+}
+
+export interface CalibreShortfall {
+  variety: string;
+  calibre: string;
+  unit: AllocationUnit;
+  requested: number;
+  allocated: number;
+  shortfall: number;
+  orders: string[];                 // Order numbers short of this calibre
+}
+
+export interface AllocationPlan {
+  lines: LineAllocation[];
+  shortfalls: CalibreShortfall[];
+  unreservedStock: Array<{ variety: string; calibre: string; packages: number; kg: number; pallets: number }>;
+}
+
+const PRIORITY_RANK: Record<ClientOrder['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+// Variety of the order is often the product name ('Hass Avocado' for pallets of HASS)
+const sameVariety = (wanted: string, palletVariety: string) => {
+  const a = normalize(wanted);
+  const b = normalize(palletVariety);
+  return !a || !b || a === b || a.includes(b) || b.includes(a);
+};
+
+const sameCalibre = (wanted: string, palletCalibre: string) =>
+  !wanted || normalize(wanted) === normalize(palletCalibre);
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+interface Remaining {
+  pallet: PalletStock;
+  conformity: LotQualityVerdict;
+  packages: number;
+  kg: number;
+  untouched: boolean;               // No colis promised yet: can go as a whole pallet
+}
+
+/**
+ * Allocation of every open line. Reservations already made are kept as they are; the
+ * remaining colis are then proposed to the other lines by delivery date, then priority.
+ * In a line, pallets are taken oldest first (conformity checked before uncontrolled at
+ * equal age), a pallet partly used by another line giving only what is left of it.
+ */
+export const planAllocations = (
+  lines: AllocationLine[],
+  palletsInStock: PalletStock[],
+  reservations: PalletReservation[],
+  conformity: Map<string, LotQualityVerdict>
+): AllocationPlan => {
+  const remaining = new Map<string, Remaining>();
+  palletsInStock
+    .filter(pallet => pallet.exitedOn === null)
+    .forEach(pallet => remaining.set(pallet.palletId, {
+      pallet,
+      conformity: conformity.get(normalize(pallet.reference)) || 'non_controle',
+      packages: pallet.packages,
+      kg: pallet.kg,
+      untouched: true
+    }));
+
+  const openLines = new Set(lines.map(line => `${line.orderId}/${line.lineId}`));
+  const results = new Map<string, LineAllocation>(lines.map(line => [
+    `${line.orderId}/${line.lineId}`,
+    { line, pallets: [], allocated: 0, shortfall: 0 }
+  ]));
+
+  const proposal = (entry: Remaining, packages: number, kg: number, reserved: boolean): ProposedPallet => ({
+    palletId: entry.pallet.palletId,
+    sscc: entry.pallet.sscc,
+    reference: entry.pallet.reference,
+    locationLabel: entry.pallet.locationLabel,
+    calibre: entry.pallet.calibre,
+    variety: entry.pallet.variety,
+    enteredOn: entry.pallet.enteredOn,
+    ageDays: entry.pallet.ageDays,
+    conformity: entry.conformity,
+    packages: round(packages),
+    kg: round(kg),
+    reserved
+  });
+
+  const amountOf = (unit: AllocationUnit, packages: number, kg: number) =>
+    unit === 'kg' ? kg : unit === 'palettes' ? 1 : packages;
+
+  // Reservations first: they hold whatever the plan says, as long as the pallet is in stock
+  reservations.forEach(reservation => {
+    const entry = remaining.get(reservation.palletId);
+    if (!entry) return;
+    reservation.reservations.forEach(held => {
+      entry.packages -= held.packages;
+      entry.kg -= held.kg;
+      entry.untouched = false;
+      const result = results.get(`${held.orderId}/${held.lineId}`);
+      if (!result || !openLines.has(`${held.orderId}/${held.lineId}`)) return;
+      result.pallets.push(proposal(entry, held.packages, held.kg, true));
+      result.allocated += amountOf(result.line.unit, held.packages, held.kg);
+    });
+  });
+
+  const ordered = Array.from(results.values()).sort((a, b) =>
+    (a.line.requestedDeliveryDate || '').localeCompare(b.line.requestedDeliveryDate || '')
+    || PRIORITY_RANK[a.line.priority] - PRIORITY_RANK[b.line.priority]
+    || a.line.orderNumber.localeCompare(b.line.orderNumber));
+
+  const candidates = Array.from(remaining.values()).sort((a, b) =>
+    a.pallet.enteredOn.localeCompare(b.pallet.enteredOn)
+    || (a.conformity === 'conforme' ? 0 : 1) - (b.conformity === 'conforme' ? 0 : 1)
+    || a.pallet.palletId.localeCompare(b.pallet.palletId));
+
+  ordered.forEach(result => {
+    const { line } = result;
+    candidates
+      .filter(entry => entry.conformity !== 'non_conforme'
+        && sameVariety(line.variety || line.product, entry.pallet.variety)
+        && sameCalibre(line.calibre, entry.pallet.calibre))
+      .forEach(entry => {
+        const needed = line.quantity - result.allocated;
+        if (needed <= 0 || entry.packages <= 0) return;
+        let packages: number;
+        let kg: number;
+        if (line.unit === 'palettes') {
+          if (!entry.untouched) return;
+          packages = entry.packages;
+          kg = entry.kg;
+        } else {
+          const kgPerPackage = entry.packages > 0 ? entry.kg / entry.packages : 0;
+          if (line.unit === 'kg') {
+            if (kgPerPackage <= 0) return;  // Net weight not entered: cannot serve a weight
+            packages = Math.min(entry.packages, Math.ceil(needed / kgPerPackage));
+          } else {
+            packages = Math.min(entry.packages, Math.ceil(needed));
+          }
+          kg = packages * kgPerPackage;
+        }
+        entry.packages -= packages;
+        entry.kg -= kg;
+        entry.untouched = false;
+        result.pallets.push(proposal(entry, packages, kg, false));
+        result.allocated += amountOf(line.unit, packages, kg);
+      });
+    result.allocated = round(result.allocated);
+    result.shortfall = round(Math.max(0, line.quantity - result.allocated));
+  });
+
+  const shortfalls = new Map<string, CalibreShortfall>();
+  ordered.forEach(({ line, allocated, shortfall }) => {
+    const key = `${normalize(line.variety || line.product)}|${normalize(line.calibre)}|${line.unit}`;
+    const entry = shortfalls.get(key) || {
+      variety: line.variety || line.product,
+      calibre: line.calibre || 'Tous',
+      unit: line.unit,
+      requested: 0,
+      allocated: 0,
+      shortfall: 0,
+      orders: []
+    };
+    entry.requested += line.quantity;
+    entry.allocated += allocated;
+    entry.shortfall += shortfall;
+    if (shortfall > 0) entry.orders.push(line.orderNumber);
+    shortfalls.set(key, entry);
+  });
+
+  const stock = new Map<string, { variety: string; calibre: string; packages: number; kg: number; pallets: number }>();
+  remaining.forEach(entry => {
+    if (entry.packages <= 0 || entry.conformity === 'non_conforme') return;
+    const key = `${normalize(entry.pallet.variety)}|${normalize(entry.pallet.calibre)}`;
+    const row = stock.get(key) || { variety: entry.pallet.variety, calibre: entry.pallet.calibre, packages: 0, kg: 0, pallets: 0 };
+    row.packages += entry.packages;
+    row.kg = round(row.kg + entry.kg);
+    row.pallets += 1;
+    stock.set(key, row);
+  });
+
+  return {
+    lines: ordered,
+    shortfalls: Array.from(shortfalls.values())
+      .map(s => ({ ...s, requested: round(s.requested), allocated: round(s.allocated), shortfall: round(s.shortfall) }))
+      .sort((a, b) => b.shortfall - a.shortfall || a.calibre.localeCompare(b.calibre, undefined, { numeric: true })),
+    unreservedStock: Array.from(stock.values())
+      .sort((a, b) => a.variety.localeCompare(b.variety) || a.calibre.localeCompare(b.calibre, undefined, { numeric: true }))
+  };
+};
+
+/**
+ * Colis of a pallet still free for an order, given the reservations of the others.
+ * Checked again in the reservation transaction: two planners may reserve at once.
+ */
+export const freePackagesFor = (pallet: Pick<PalletStock, 'packages'>, reservation: Pick<PalletReservation, 'reservations'> | null, orderId: string): number =>
+  pallet.packages - (reservation?.reservations || [])
+    .filter(held => held.orderId !== orderId)
+    .reduce((sum, held) => sum + held.packages, 0);
+
+/**
+ * Pallets holding colis of an order, with the reservations the other orders keep once the
+ * order gives them back (cancelled, or to be planned again). Used by the app and the API:
+ * a pallet left without reservation is deleted.
+ */
+export const reservationsReleasedBy = (
+  reservations: PalletReservation[],
+  orderId: string
+): Array<{ id: string; reservations: PalletReservationLine[] }> =>
+  reservations
+    .filter(reservation => reservation.reservations.some(held => held.orderId === orderId))
+    .map(reservation => ({ id: reservation.id, reservations: reservation.reservations.filter(held => held.orderId !== orderId) }));
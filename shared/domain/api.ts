@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { clientOrderStatusSchema } from './orders';
+
+// REST API (server/src/routes/api.ts) for integrations and scripts.
+// Requests carry a Firebase ID token; the user's profile permissions decide, as in the app.
+// Lists are paged in document id order: `?limit=50&cursor=<nextCursor of the previous page>`.
+
+export const API_DEFAULT_PAGE_SIZE = 25;
+export const API_MAX_PAGE_SIZE = 100;
+
+export const apiListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(API_MAX_PAGE_SIZE).default(API_DEFAULT_PAGE_SIZE),
+  cursor: z.string().min(1).optional()
+});
+
+export interface ApiPage<T> {
+  data: T[];
+  nextCursor: string | null;    // null on the last page
+}
+
+// POST /orders/:id/status: the only way to move an order along its lifecycle
+export const orderStatusRequestSchema = z.object({
+  status: clientOrderStatusSchema,
+  reason: z.string().trim().max(500).optional()
+});
+
+// Every error response, whatever the status
+export interface ApiErrorBody {
+  error: string;
+  details?: string[];           // Failing fields of a rejected body ("harvest.lotNumber: Required")
+}
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+
+// Audit trail (audit_trail).
+// Append-only log of every change to a regulated record: who changed which field from
+// what to what, and when. Entries are written in the same batch as the record itself
+// and firestore.rules refuses their update or deletion.
+
+export const auditActionSchema = z.enum(['create', 'update', 'delete', 'approve', 'reject', 'sign', 'reopen']);
+
+export const auditChangeSchema = z.object({
+  field: z.string(),                 // Dotted path, array items by index (formData.palettes.2.rotting)
+  before: z.unknown().nullable(),    // null when the field did not exist
+  after: z.unknown().nullable()      // null when the field was removed
+});
+
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  collection: z.string(),
+  docId: z.string(),
+  label: z.string().default(''),     // Human readable record name (lot number, expedition name...)
+  action: auditActionSchema,
+  changes: z.array(auditChangeSchema),
+  afterHash: z.string().default(''), // SHA-256 of the record once the change is applied, '' after a delete
+  serverFields: z.array(z.string()).default([]), // Fields set by the server (serverTimestamp), left out of the hash
+  reason: z.string().default(''),
+  userId: z.string(),
+  userEmail: z.string().default(''),
+  at: isoDateSchema
+});
+
+export type AuditAction = z.infer<typeof auditActionSchema>;
+export type AuditChange = z.infer<typeof auditChangeSchema>;
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+
+// Bookkeeping fields that change on every write and say nothing about the record
+export const AUDIT_IGNORED_FIELDS = ['createdAt', 'updatedAt', 'lastModified', 'savedAt'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Leaf values of a record keyed by dotted path. Empty objects / arrays count as a leaf
+// so clearing a list is still visible.
+const flatten = (value: unknown, prefix: string, out: Map<string, unknown>) => {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, index) => flatten(item, `${prefix}.${index}`, out));
+  } else if (isPlainObject(value) && Object.keys(value).length > 0) {
+    Object.entries(value).forEach(([key, item]) => flatten(item, prefix ? `${prefix}.${key}` : key, out));
+  } else {
+    out.set(prefix, value === undefined ? null : value);
+  }
+};
+
+const withoutIgnored = (record: Record<string, unknown> | null | undefined): Record<string, unknown> => {
+  const copy: Record<string, unknown> = { ...(record || {}) };
+  AUDIT_IGNORED_FIELDS.forEach(field => delete copy[field]);
+  return copy;
+};
+
+// Field-level differences between two versions of a record
+export const diffRecords = (
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined
+): AuditChange[] => {
+  const oldLeaves = new Map<string, unknown>();
+  const newLeaves = new Map<string, unknown>();
+  flatten(withoutIgnored(before), '', oldLeaves);
+  flatten(withoutIgnored(after), '', newLeaves);
+  oldLeaves.delete('');
+  newLeaves.delete('');
+
+  const fields = Array.from(new Set([...Array.from(oldLeaves.keys()), ...Array.from(newLeaves.keys())])).sort();
+  return fields
+    .filter(field => JSON.stringify(oldLeaves.get(field) ?? null) !== JSON.stringify(newLeaves.get(field) ?? null))
+    .map(field => ({ field, before: oldLeaves.get(field) ?? null, after: newLeaves.get(field) ?? null }));
+};
+
+// Stable serialisation (sorted keys, bookkeeping fields left out) used for the content hash
+export const canonicalRecord = (record: Record<string, unknown> | null | undefined): string => {
+  const sort = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(sort);
+    if (isPlainObject(value)) {
+      return Object.keys(value).sort().reduce((acc, key) => {
+        if (value[key] !== undefined) acc[key] = sort(value[key]);
+        return acc;
+      }, {} as Record<string, unknown>);
+    }
+    return value;
+  };
+  return JSON.stringify(sort(withoutIgnored(record)));
+};
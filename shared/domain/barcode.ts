@@ -0,0 +1,86 @@
+// Code 128 / GS1-128 encoding.
+// Returns the module widths of the symbol (bar, space, bar... starting with a bar) so
+// the same encoding is drawn as SVG on screen and as rectangles in the PDF labels.
+
+// Bar / space widths of the 107 Code 128 symbols (value 106 is the stop pattern)
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const CODE_C = 99;
+const CODE_B = 100;
+const FNC1 = 102;
+const START_B = 104;
+const START_C = 105;
+const STOP = 106;
+
+const digitRun = (data: string, from: number): number => {
+  let end = from;
+  while (end < data.length && data[end] >= '0' && data[end] <= '9') end++;
+  return end - from;
+};
+
+/**
+ * Symbol values for `data` (printable ASCII), switching to code set C for runs of
+ * digits. With `gs1`, the data is an element string without parentheses and starts
+ * with FNC1; fixed-length AIs such as (00) need no separator.
+ */
+export const code128Values = (data: string, gs1: boolean = false): number[] => {
+  if (/[^\x20-\x7e]/.test(data)) throw new Error(`Caractère non encodable en Code 128 : ${data}`);
+
+  const startInC = digitRun(data, 0) >= (data.length === digitRun(data, 0) ? 2 : 4);
+  let set: 'B' | 'C' = startInC ? 'C' : 'B';
+  const values = [set === 'C' ? START_C : START_B];
+  if (gs1) values.push(FNC1);
+
+  let i = 0;
+  while (i < data.length) {
+    const run = digitRun(data, i);
+    if (set === 'B' && (run >= 4 && (run % 2 === 0 || i + run === data.length) || run >= 6)) {
+      values.push(CODE_C);
+      set = 'C';
+    }
+    if (set === 'C') {
+      if (run >= 2) {
+        values.push(Number(data.slice(i, i + 2)));
+        i += 2;
+        continue;
+      }
+      values.push(CODE_B);
+      set = 'B';
+    }
+    values.push(data.charCodeAt(i) - 32);
+    i += 1;
+  }
+
+  const checksum = values.reduce((sum, value, index) => sum + value * (index === 0 ? 1 : index), 0) % 103;
+  return [...values, checksum, STOP];
+};
+
+// Module widths, e.g. '2112142...': 11 modules per symbol, 13 for the stop
+export const code128Modules = (data: string, gs1: boolean = false): string =>
+  code128Values(data, gs1).map(value => CODE128_PATTERNS[value]).join('');
+
+// Bars as [x, width] in modules, for drawing
+export const code128Bars = (data: string, gs1: boolean = false): Array<[number, number]> => {
+  const bars: Array<[number, number]> = [];
+  let x = 0;
+  code128Modules(data, gs1).split('').forEach((width, index) => {
+    if (index % 2 === 0) bars.push([x, Number(width)]);
+    x += Number(width);
+  });
+  return bars;
+};
+
+export const code128Width = (data: string, gs1: boolean = false): number =>
+  code128Modules(data, gs1).split('').reduce((sum, width) => sum + Number(width), 0);
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+import { ClientOrder, shippingAddressSchema } from './orders';
+
+// Clients (clients). Orders, expeditions and invoices point to a client by id; the name,
+// email and delivery address written on an order stay as a copy of what was agreed then.
+// Codes (CL-001) are given at creation like farm and warehouse codes (see nextSiteCode).
+
+export const clientContactSchema = z.object({
+  name: z.string().min(1),
+  role: z.string().optional(),    // Achats, qualité, logistique...
+  email: z.string(),
+  phone: z.string().optional()
+});
+
+export const clientAddressSchema = shippingAddressSchema.extend({
+  id: z.string(),
+  label: z.string().min(1)        // 'Entrepôt Rungis', 'Port de Rotterdam'
+});
+
+// Packaging the client takes unless the order says otherwise
+export const clientPackagingSchema = z.object({
+  boxType: z.string().default(''),
+  boxNetWeightKg: z.number().min(0).default(0),
+  boxGrossWeightKg: z.number().min(0).default(0),
+  boxesPerPallet: z.number().int().min(0).optional()
+});
+
+export const paymentTermsSchema = z.object({
+  days: z.number().int().min(0).default(30),   // Due date = invoice date + days
+  endOfMonth: z.boolean().default(false),      // '30 jours fin de mois'
+  method: z.string().optional(),               // Virement, LC, CAD...
+  currency: z.string().default('EUR')
+});
+
+export const clientSchema = z.object({
+  id: z.string(),
+  code: z.string().default(''),
+  name: z.string().min(1),
+  // Spellings found on orders entered before the clients module, matched to this client
+  aliases: z.array(z.string()).default([]),
+  legalName: z.string().optional(),
+  vatNumber: z.string().optional(),
+  country: z.string().default(''),
+  contacts: z.array(clientContactSchema).default([]),
+  addresses: z.array(clientAddressSchema).default([]),
+  defaultAddressId: z.string().optional(),
+  packaging: clientPackagingSchema.default({}),
+  calibrePreferences: z.array(z.string()).default([]),
+  labelRequirements: z.array(z.string()).default([]),   // Mentions the pallet and box labels must carry
+  paymentTerms: paymentTermsSchema.default({}),
+  incoterm: z.string().optional(),                       // FOB, CIF, DAP... printed on its invoices
+  toleranceProfileIds: z.array(z.string()).default([]), // quality_tolerance_profiles expected on its lots
+  notes: z.string().optional(),
+  active: z.boolean().default(true),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const clientWriteSchema = clientSchema.omit({ id: true, createdAt: true, updatedAt: true });
+
+export type ClientContact = z.infer<typeof clientContactSchema>;
+export type ClientAddress = z.infer<typeof clientAddressSchema>;
+export type ClientPackaging = z.infer<typeof clientPackagingSchema>;
+export type PaymentTerms = z.infer<typeof paymentTermsSchema>;
+export type Client = z.infer<typeof clientSchema>;
+export type ClientWrite = z.infer<typeof clientWriteSchema>;
+
+// 'Société  Générale ' and 'societe generale' are the same client
+export const normalizeClientName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Client an order, expedition or delivery refers to: by id when it has one, otherwise by
+ * its name matched against the client names, codes and aliases.
+ */
+export const resolveClient = (
+  clients: Client[],
+  ref: { clientId?: string; clientName?: string }
+): Client | undefined => {
+  if (ref.clientId) {
+    const byId = clients.find(c => c.id === ref.clientId);
+    if (byId) return byId;
+  }
+  const name = normalizeClientName(ref.clientName || '');
+  if (!name) return undefined;
+  return clients.find(c =>
+    [c.name, c.code, ...c.aliases].some(candidate => candidate && normalizeClientName(candidate) === name)
+  );
+};
+
+// Key to group records by client: the client id, or the normalized name of an unknown client
+export const clientKey = (clients: Client[], ref: { clientId?: string; clientName?: string }): string =>
+  resolveClient(clients, ref)?.id || `?${normalizeClientName(ref.clientName || '')}`;
+
+export const clientAddress = (client: Client, addressId?: string): ClientAddress | undefined =>
+  client.addresses.find(a => a.id === (addressId || client.defaultAddressId)) || client.addresses[0];
+
+// Client fields copied on an order when it is taken
+export const orderClientFields = (
+  client: Client,
+  addressId?: string
+): Pick<ClientOrder, 'clientId' | 'clientName' | 'clientEmail' | 'clientPhone' | 'shippingAddress'> => {
+  const contact = client.contacts[0];
+  const address = clientAddress(client, addressId);
+  return {
+    clientId: client.id,
+    clientName: client.name,
+    clientEmail: contact?.email || '',
+    clientPhone: contact?.phone,
+    shippingAddress: address
+      ? { street: address.street, city: address.city, state: address.state, zipCode: address.zipCode, country: address.country }
+      : { street: '', city: '', state: '', zipCode: '', country: client.country }
+  };
+};
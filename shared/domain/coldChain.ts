@@ -0,0 +1,232 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+
+// Cold chain.
+// Temperature readings of the chambres froides, trucks and pallets are kept as one time
+// series per source (temperature_readings), checked against the range of the variety
+// stored there, and every excursion long enough to matter raises an alert
+// (temperature_alerts) until someone acknowledges it.
+
+export const temperatureSourceTypeSchema = z.enum(['chambre', 'camion', 'palette']);
+
+// manuel: typed in, import: data-logger CSV, expedition: T° recorded on the fiche d'expédition
+export const temperatureOriginSchema = z.enum(['manuel', 'import', 'expedition']);
+
+export const temperatureReadingSchema = z.object({
+  id: z.string(),
+  sourceType: temperatureSourceTypeSchema,
+  sourceId: z.string().min(1),      // Chambre name, truck matricule or pallet number
+  value: z.number(),                // °C
+  recordedAt: z.string(),           // ISO (UTC) time of the measure, used for range queries
+  lotNumber: z.string().optional(), // Lot the reading is known to concern
+  variety: z.string().optional(),
+  origin: temperatureOriginSchema,
+  importFile: z.string().optional(),
+  recordedBy: z.string().optional(),
+  createdAt: isoDateSchema
+});
+
+export const temperatureReadingWriteSchema = temperatureReadingSchema.omit({ id: true, createdAt: true });
+
+// Accepted range for a variety; the preset with an empty variety applies to the others
+export const temperatureRangeSchema = z.object({
+  id: z.string(),
+  variety: z.string(),
+  min: z.number(),
+  max: z.number(),
+  toleranceMinutes: z.number().min(0), // Shorter excursions (door opening, loading) do not alert
+  preset: z.boolean().optional(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+}).refine(range => range.min < range.max, { message: 'Le minimum doit être inférieur au maximum', path: ['max'] });
+
+export const temperatureRangeWriteSchema = z.object({
+  variety: z.string(),              // Empty: replaces the default range of the other varieties
+  min: z.number(),
+  max: z.number(),
+  toleranceMinutes: z.number().min(0)
+}).refine(range => range.min < range.max, { message: 'Le minimum doit être inférieur au maximum', path: ['max'] });
+
+export const temperatureAlertStatusSchema = z.enum(['ouverte', 'acquittee']);
+
+export const temperatureAlertSchema = z.object({
+  id: z.string(),
+  sourceType: temperatureSourceTypeSchema,
+  sourceId: z.string(),
+  lotNumber: z.string().optional(),
+  variety: z.string(),
+  min: z.number(),
+  max: z.number(),
+  direction: z.enum(['haute', 'basse']),
+  peak: z.number(),
+  startAt: z.string(),
+  endAt: z.string(),
+  durationMinutes: z.number(),
+  readingCount: z.number(),
+  status: temperatureAlertStatusSchema,
+  acknowledgedBy: z.string().optional(),
+  acknowledgedAt: isoDateSchema,
+  comment: z.string().optional(),
+  createdAt: isoDateSchema
+});
+
+export type TemperatureSourceType = z.infer<typeof temperatureSourceTypeSchema>;
+export type TemperatureOrigin = z.infer<typeof temperatureOriginSchema>;
+export type TemperatureReading = z.infer<typeof temperatureReadingSchema>;
+export type TemperatureReadingInput = z.infer<typeof temperatureReadingWriteSchema>;
+export type TemperatureRange = z.infer<typeof temperatureRangeSchema>;
+export type TemperatureAlert = z.infer<typeof temperatureAlertSchema>;
+
+export const TEMPERATURE_SOURCE_LABELS: Record<TemperatureSourceType, string> = {
+  chambre: 'Chambre froide',
+  camion: 'Camion',
+  palette: 'Palette'
+};
+
+// Storage ranges of the varieties handled at the station. Below about 4°C the fruit
+// suffers chilling injury, green-skin varieties tolerate a slightly warmer store.
+export const TEMPERATURE_RANGE_PRESETS: TemperatureRange[] = [
+  { id: 'preset-default', variety: '', min: 4, max: 8, toleranceMinutes: 30, preset: true },
+  { id: 'preset-hass', variety: 'Hass', min: 4, max: 7, toleranceMinutes: 30, preset: true },
+  { id: 'preset-lamb-hass', variety: 'Lamb Hass', min: 4, max: 7, toleranceMinutes: 30, preset: true },
+  { id: 'preset-gwen', variety: 'Gwen', min: 4, max: 7, toleranceMinutes: 30, preset: true },
+  { id: 'preset-fuerte', variety: 'Fuerte', min: 5, max: 8, toleranceMinutes: 30, preset: true },
+  { id: 'preset-pinkerton', variety: 'Pinkerton', min: 5, max: 8, toleranceMinutes: 30, preset: true },
+  { id: 'preset-reed', variety: 'Reed', min: 5, max: 8, toleranceMinutes: 30, preset: true },
+  { id: 'preset-bacon', variety: 'Bacon', min: 5, max: 8, toleranceMinutes: 30, preset: true },
+  { id: 'preset-zutano', variety: 'Zutano', min: 5, max: 8, toleranceMinutes: 30, preset: true }
+];
+
+const normalize = (value?: string) => (value || '').trim().toLowerCase();
+
+// Range of a variety: a stored range wins over the preset of the same variety,
+// unknown or mixed varieties get the default range
+export const resolveTemperatureRange = (ranges: TemperatureRange[], variety?: string): TemperatureRange => {
+  const key = normalize(variety);
+  const matching = ranges.filter(range => key && normalize(range.variety) === key);
+  return matching.find(range => !range.preset)
+    || matching[0]
+    || ranges.find(range => !range.variety && !range.preset)
+    || TEMPERATURE_RANGE_PRESETS[0];
+};
+
+export interface TemperatureExcursion {
+  direction: 'haute' | 'basse';
+  peak: number;
+  startAt: string;
+  endAt: string;           // First reading back in range, or the last reading of the run when still out
+  durationMinutes: number;
+  readingCount: number;
+  alerting: boolean;
+}
+
+const minutesBetween = (from: string, to: string) => Math.max(0, (Date.parse(to) - Date.parse(from)) / 60000);
+
+// Runs of consecutive out-of-range readings. A run alerts when it lasts longer than the
+// range tolerance, or when it holds a spot check (typed in, or taken on the fiche
+// d'expédition): nothing tells how long the product had been out before it.
+export const findTemperatureExcursions = (
+  readings: Array<Pick<TemperatureReading, 'value' | 'recordedAt' | 'origin'>>,
+  range: Pick<TemperatureRange, 'min' | 'max' | 'toleranceMinutes'>
+): TemperatureExcursion[] => {
+  const sorted = [...readings].sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+  const excursions: TemperatureExcursion[] = [];
+  let run: typeof sorted = [];
+
+  const close = (backInRangeAt?: string) => {
+    if (run.length === 0) return;
+    const direction = run[0].value > range.max ? 'haute' : 'basse';
+    const values = run.map(r => r.value);
+    const startAt = run[0].recordedAt;
+    const endAt = backInRangeAt || run[run.length - 1].recordedAt;
+    const durationMinutes = Math.round(minutesBetween(startAt, endAt));
+    excursions.push({
+      direction,
+      peak: direction === 'haute' ? Math.max(...values) : Math.min(...values),
+      startAt,
+      endAt,
+      durationMinutes,
+      readingCount: run.length,
+      alerting: durationMinutes >= range.toleranceMinutes || run.some(r => r.origin !== 'import')
+    });
+    run = [];
+  };
+
+  sorted.forEach(reading => {
+    const out = reading.value > range.max ? 'haute' : reading.value < range.min ? 'basse' : null;
+    if (!out) {
+      close(reading.recordedAt);
+      return;
+    }
+    if (run.length > 0 && (run[0].value > range.max ? 'haute' : 'basse') !== out) close(reading.recordedAt);
+    run.push(reading);
+  });
+  close();
+  return excursions;
+};
+
+// One alert per source and excursion start, so importing the same logger file twice
+// does not raise the alert twice
+export const temperatureAlertId = (sourceType: TemperatureSourceType, sourceId: string, startAt: string): string =>
+  `${sourceType}_${sourceId}_${startAt}`.replace(/[^A-Za-z0-9_-]/g, '-');
+
+export interface ParsedTemperatureCsv {
+  readings: Array<{ recordedAt: string; value: number }>;
+  errors: string[];
+}
+
+const DATE_HEADER = /date|time|heure|horodat/i;
+const TIME_ONLY_HEADER = /^(time|heure)$/i;
+const VALUE_HEADER = /temp|°c|celsius|valeur|value/i;
+
+// '12/03/2025 14:05[:30]', '2025-03-12 14:05:30', '2025-03-12T14:05:30Z'... -> ISO.
+// Logger exports without a zone are in the station's local time.
+const parseLoggerDate = (value: string): string | null => {
+  const text = value.trim().replace(/^"|"$/g, '');
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})[ T]+(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (dmy) {
+    const [, d, m, y, h, min, s] = dmy;
+    const year = y.length === 2 ? 2000 + Number(y) : Number(y);
+    const date = new Date(year, Number(m) - 1, Number(d), Number(h), Number(min), Number(s || 0));
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  const date = new Date(text.replace(' ', 'T'));
+  return /^\d{4}-\d{2}-\d{2}/.test(text) && !isNaN(date.getTime()) ? date.toISOString() : null;
+};
+
+// Data-logger CSV export -> readings. The header row is searched for a date (or date +
+// time) column and a temperature column; separators ; , and tab and decimal commas are
+// accepted since each logger brand exports differently.
+export const parseTemperatureCsv = (text: string): ParsedTemperatureCsv => {
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/).filter(line => line.trim());
+  const delimiter = ['\t', ';', ','].find(d => lines.slice(0, 10).some(line => line.includes(d))) || ',';
+  const split = (line: string) => line.split(delimiter).map(cell => cell.trim().replace(/^"|"$/g, ''));
+
+  const headerIndex = lines.findIndex(line => {
+    const cells = split(line);
+    return cells.some(cell => DATE_HEADER.test(cell)) && cells.some(cell => VALUE_HEADER.test(cell));
+  });
+  if (headerIndex < 0) {
+    return { readings: [], errors: ['En-tête introuvable : une colonne date et une colonne température sont attendues'] };
+  }
+
+  const header = split(lines[headerIndex]);
+  const valueCol = header.findIndex(cell => VALUE_HEADER.test(cell) && !DATE_HEADER.test(cell));
+  const timeCol = header.findIndex(cell => TIME_ONLY_HEADER.test(cell));
+  const dateCol = header.findIndex((cell, i) => i !== timeCol && i !== valueCol && DATE_HEADER.test(cell));
+
+  const readings: ParsedTemperatureCsv['readings'] = [];
+  const errors: string[] = [];
+  lines.slice(headerIndex + 1).forEach((line, i) => {
+    const cells = split(line);
+    const rawDate = dateCol >= 0 ? cells[dateCol] : '';
+    const recordedAt = parseLoggerDate(timeCol >= 0 && dateCol >= 0 ? `${rawDate} ${cells[timeCol]}` : rawDate || cells[timeCol] || '');
+    const value = parseFloat((cells[valueCol] || '').replace(',', '.'));
+    if (!recordedAt || isNaN(value)) {
+      errors.push(`Ligne ${headerIndex + i + 2} ignorée : ${line.slice(0, 60)}`);
+      return;
+    }
+    readings.push({ recordedAt, value });
+  });
+  return { readings, errors };
+};
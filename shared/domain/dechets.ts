@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { formString } from './validation';
+
+// Suivi déchets (shared_lots.dechetData, dechet_archives.data)
+export const dechetRowSchema = z.object({
+  numeroPalette: formString,                 // N° palette
+  nombreCaisses: formString,                 // Nombre de caisses
+  poidsBrut: formString,                     // Poids Brut
+  poidsNet: formString,                      // Poids Net
+  natureDechet: formString,                  // Nature de déchet
+  variete: formString,                       // Variété
+  numeroLotInterne: formString.optional()    // N° de lot interne d'origine
+});
+
+export const dechetFormSchema = z.object({
+  header: z.object({
+    code: z.string(),                   // F.S.D
+    date: z.string(),                   // Date creation
+    version: z.string(),                // version
+    dateTraitement: z.string(),         // Date traitement
+    responsableTracabilite: z.string(), // Responsable Traçabilité
+    produit: z.string(),                // AVOCAT
+    conventionnel: z.boolean(),
+    biologique: z.boolean()
+  }),
+  rows: z.array(dechetRowSchema)
+});
+
+export type DechetRow = z.infer<typeof dechetRowSchema>;
+export type DechetFormData = z.infer<typeof dechetFormSchema>;
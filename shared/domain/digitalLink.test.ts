@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildDigitalLink,
+  buildLotLinkset,
+  linksetTarget,
+  negotiateLanguage,
+  parseDigitalLink,
+  tradeItemForVariety
+} from './digitalLink';
+
+const GTIN = '00614141000036';
+const SSCC = '106141411234567897';
+
+describe('buildDigitalLink', () => {
+  it('writes the GTIN on 14 digits, then the lot and the serial', () => {
+    expect(buildDigitalLink('https://id.example.com', { gtin: '614141000036', lot: 'L24-001' }))
+      .toBe(`https://id.example.com/01/${GTIN}/10/L24-001`);
+    expect(buildDigitalLink('https://id.example.com/', { gtin: GTIN, lot: 'L1', serial: '7' }))
+      .toBe(`https://id.example.com/01/${GTIN}/10/L1/21/7`);
+  });
+
+  it('encodes lot numbers holding reserved characters', () => {
+    expect(buildDigitalLink('https://id.example.com', { gtin: GTIN, lot: 'HASS/24 A' }))
+      .toBe(`https://id.example.com/01/${GTIN}/10/HASS%2F24%20A`);
+  });
+
+  it('writes a pallet as its SSCC', () => {
+    expect(buildDigitalLink('https://id.example.com', { sscc: SSCC })).toBe(`https://id.example.com/00/${SSCC}`);
+  });
+});
+
+describe('parseDigitalLink', () => {
+  it('reads back the keys of a built URI', () => {
+    const uri = buildDigitalLink('https://id.example.com', { gtin: GTIN, lot: 'HASS/24 A', serial: '12' });
+    expect(parseDigitalLink(uri)).toEqual({ gtin: GTIN, lot: 'HASS/24 A', serial: '12' });
+    expect(parseDigitalLink(`https://id.example.com/00/${SSCC}`)).toEqual({ sscc: SSCC });
+  });
+
+  it('reads a path without domain, under a prefix, with its query parameters', () => {
+    expect(parseDigitalLink(`/01/${GTIN}/10/L1`)).toEqual({ gtin: GTIN, lot: 'L1' });
+    expect(parseDigitalLink(`https://example.com/resolver/01/${GTIN}/10/L1?linkType=gs1:pip&lang=ar`))
+      .toEqual({ gtin: GTIN, lot: 'L1', linkType: 'gs1:pip', lang: 'ar' });
+  });
+
+  it('pads a shorter GTIN to 14 digits', () => {
+    expect(parseDigitalLink('/01/614141000036')?.gtin).toBe(GTIN);
+  });
+
+  it('is null without a valid GTIN or SSCC', () => {
+    expect(parseDigitalLink('https://example.com/lots/L24-001')).toBeNull();
+    expect(parseDigitalLink('/01/00614141000037/10/L1')).toBeNull();
+    expect(parseDigitalLink('/00/106141411234567890')).toBeNull();
+  });
+});
+
+describe('negotiateLanguage', () => {
+  it('prefers the lang parameter, then the best supported Accept-Language', () => {
+    expect(negotiateLanguage('ar', 'en')).toBe('ar');
+    expect(negotiateLanguage(undefined, 'de-DE,en-GB;q=0.8,ar;q=0.9')).toBe('ar');
+    expect(negotiateLanguage('es', 'en-US')).toBe('en');
+  });
+
+  it('falls back to French', () => {
+    expect(negotiateLanguage(undefined, undefined)).toBe('fr');
+    expect(negotiateLanguage(undefined, 'de, en;q=0')).toBe('fr');
+  });
+});
+
+describe('lot linkset', () => {
+  const linkset = buildLotLinkset(`https://id.example.com/01/${GTIN}/10/L1`, 'https://app.example.com/', 'L1');
+
+  it('lists the public page in each language and the traceability page', () => {
+    const links = linkset.linkset[0];
+    expect(links.anchor).toBe(`https://id.example.com/01/${GTIN}/10/L1`);
+    expect(links['https://gs1.org/voc/pip']).toHaveLength(3);
+    expect(links['https://gs1.org/voc/traceability']).toEqual([expect.objectContaining({ type: 'text/html' })]);
+  });
+
+  it('resolves a link type in the language asked', () => {
+    expect(linksetTarget(linkset, 'gs1:pip', 'ar')).toBe('https://app.example.com/tracability/lot/L1?lang=ar');
+    expect(linksetTarget(linkset, 'gs1:defaultLink', 'en')).toBe('https://app.example.com/tracability/lot/L1?lang=fr');
+    expect(linksetTarget(linkset, 'gs1:certificationInfo', 'fr')).toBeNull();
+  });
+});
+
+describe('tradeItemForVariety', () => {
+  const items = [
+    { gtin: GTIN, description: 'Avocat' },
+    { gtin: '4006381333931', description: 'Avocat Hass', variety: 'Hass' }
+  ];
+
+  it('takes the item of the variety, else the generic item', () => {
+    expect(tradeItemForVariety(items, ' hass ')?.description).toBe('Avocat Hass');
+    expect(tradeItemForVariety(items, 'Fuerte')?.description).toBe('Avocat');
+    expect(tradeItemForVariety(items.slice(1), 'Fuerte')).toBeUndefined();
+  });
+});
@@ -0,0 +1,175 @@
+import { isValidGtin, isValidSscc, SSCC_AI, type TradeItem } from './sscc';
+
+// GS1 Digital Link.
+// The QR on a box is a web URI carrying GS1 keys: /01/{GTIN}/10/{lot} for a trade item
+// of a lot, /00/{SSCC} for a pallet. Retail scanners read the keys from the path,
+// phones open it and our resolver (server/src/routes/digitalLink.ts) redirects to the
+// public lot page in the consumer's language, or answers the linkset in JSON.
+
+export const GTIN_AI = '01';
+export const BATCH_AI = '10';
+export const SERIAL_AI = '21';
+
+export const DIGITAL_LINK_LANGUAGES = ['fr', 'ar', 'en'] as const;
+export type DigitalLinkLanguage = typeof DIGITAL_LINK_LANGUAGES[number];
+
+// Link types of the GS1 Web vocabulary served for a lot
+export const LINK_TYPES = {
+  defaultLink: 'gs1:defaultLink',
+  pip: 'gs1:pip',                       // Product information page
+  traceability: 'gs1:traceability'
+} as const;
+
+const GS1_VOCABULARY = 'https://gs1.org/voc/';
+
+// Digital Link URIs always carry the GTIN on 14 digits
+export const toGtin14 = (gtin: string): string => gtin.padStart(14, '0');
+
+// Item of the variety, else the item without variety (generic avocado case)
+export const tradeItemForVariety = (items: TradeItem[], variety?: string): TradeItem | undefined => {
+  const key = (variety || '').trim().toLowerCase();
+  return items.find(item => key && (item.variety || '').trim().toLowerCase() === key)
+    || items.find(item => !item.variety?.trim());
+};
+
+export type DigitalLinkKeys =
+  | { gtin: string; lot?: string; serial?: string }
+  | { sscc: string };
+
+const stripSlash = (base: string) => base.replace(/\/+$/, '');
+
+export const buildDigitalLink = (base: string, keys: DigitalLinkKeys): string => {
+  if ('sscc' in keys) return `${stripSlash(base)}/${SSCC_AI}/${keys.sscc}`;
+  let uri = `${stripSlash(base)}/${GTIN_AI}/${toGtin14(keys.gtin)}`;
+  if (keys.lot) uri += `/${BATCH_AI}/${encodeURIComponent(keys.lot)}`;
+  if (keys.serial) uri += `/${SERIAL_AI}/${encodeURIComponent(keys.serial)}`;
+  return uri;
+};
+
+export interface ParsedDigitalLink {
+  gtin?: string;
+  lot?: string;
+  serial?: string;
+  sscc?: string;
+  linkType?: string;
+  lang?: string;
+}
+
+/**
+ * Keys of a Digital Link URI (any domain, absolute or path only). Null when the
+ * URI holds no valid GTIN or SSCC, e.g. an old QR that carries the bare lot number.
+ */
+export const parseDigitalLink = (uri: string): ParsedDigitalLink | null => {
+  let url: URL;
+  try {
+    url = new URL(uri.trim(), 'https://id.gs1.org');
+  } catch {
+    return null;
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean).map(segment => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+  const result: ParsedDigitalLink = {};
+  // The keys are the last AI/value pairs of the path: a resolver may be mounted under a prefix
+  const start = segments.findIndex((segment, index) =>
+    (segment === GTIN_AI && isValidGtin(segments[index + 1] || ''))
+    || (segment === SSCC_AI && isValidSscc(segments[index + 1] || '')));
+  if (start < 0) return null;
+
+  for (let i = start; i + 1 < segments.length; i += 2) {
+    const [ai, value] = [segments[i], segments[i + 1]];
+    if (ai === GTIN_AI) result.gtin = toGtin14(value);
+    else if (ai === SSCC_AI) result.sscc = value;
+    else if (ai === BATCH_AI) result.lot = value;
+    else if (ai === SERIAL_AI) result.serial = value;
+  }
+
+  const linkType = url.searchParams.get('linkType');
+  if (linkType) result.linkType = linkType;
+  const lang = url.searchParams.get('lang');
+  if (lang) result.lang = lang;
+  return result;
+};
+
+/**
+ * Language of the page: the `lang` query parameter, then the first supported
+ * language of the Accept-Language header, French by default.
+ */
+export const negotiateLanguage = (requested?: string, acceptLanguage?: string): DigitalLinkLanguage => {
+  const supported = (tag?: string) =>
+    DIGITAL_LINK_LANGUAGES.find(lang => lang === (tag || '').trim().slice(0, 2).toLowerCase());
+  if (supported(requested)) return supported(requested)!;
+
+  const ranked = (acceptLanguage || '')
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+      return { tag, q: q ? Number(q.slice(2)) || 0 : 1 };
+    })
+    .filter(entry => entry.tag && entry.q > 0)
+    .sort((a, b) => b.q - a.q);
+  for (const { tag } of ranked) {
+    const lang = supported(tag);
+    if (lang) return lang;
+  }
+  return 'fr';
+};
+
+export interface LinksetLink {
+  href: string;
+  title: string;
+  type: string;
+  hreflang?: string[];
+}
+
+export interface LotLinkset {
+  linkset: Array<Record<string, string | LinksetLink[]>>;
+}
+
+// Public lot page of the web app, where the consumer lands
+export const publicLotPageUrl = (appBase: string, lotNumber: string, lang: DigitalLinkLanguage): string =>
+  `${stripSlash(appBase)}/tracability/lot/${encodeURIComponent(lotNumber)}?lang=${lang}`;
+
+/**
+ * Linkset (RFC 9264, GS1 Digital Link resolver format) of a lot: the public page in
+ * each language and the traceability page (served by the public lot page, as HTML).
+ * `anchor` is the Digital Link URI scanned.
+ */
+export const buildLotLinkset = (anchor: string, appBase: string, lotNumber: string): LotLinkset => {
+  const pages = DIGITAL_LINK_LANGUAGES.map(lang => ({
+    href: publicLotPageUrl(appBase, lotNumber, lang),
+    title: `Lot ${lotNumber}`,
+    type: 'text/html',
+    hreflang: [lang]
+  }));
+  return {
+    linkset: [{
+      anchor,
+      [`${GS1_VOCABULARY}defaultLink`]: [pages[0]],
+      [`${GS1_VOCABULARY}pip`]: pages,
+      [`${GS1_VOCABULARY}traceability`]: [{
+        href: `${stripSlash(appBase)}/api/avocado-tracking/${encodeURIComponent(lotNumber)}/pdf`,
+        title: `Traçabilité du lot ${lotNumber}`,
+        type: 'text/html'
+      }]
+    }]
+  };
+};
+
+// Target of a linkType (gs1:pip, full vocabulary URI...) in the linkset, in the language asked
+export const linksetTarget = (
+  linkset: LotLinkset,
+  linkType: string,
+  lang: DigitalLinkLanguage
+): string | null => {
+  const key = linkType.startsWith('gs1:') ? `${GS1_VOCABULARY}${linkType.slice(4)}` : linkType;
+  const links = linkset.linkset[0][key];
+  if (!Array.isArray(links) || links.length === 0) return null;
+  return (links.find(link => link.hreflang?.includes(lang)) || links[0]).href;
+};
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { formString, isoDateSchema } from './validation';
+import { productionLotStatusSchema } from './production';
+
+// Suivi emballages (packaging_traces.emballageData)
+export const emballageRowSchema = z.object({
+  dateConditionnement: z.string(), // Date de conditionnement
+  produit: z.string(),             // Produit
+  typeEmballage: z.string(),       // Type d'emballage utilisé
+  numeroLot: z.string(),           // N° de lot
+  quantite: formString,            // Quantité
+  fournisseur: z.string()          // Fournisseur
+});
+
+export const emballageFormSchema = z.object({
+  header: z.object({
+    code: z.string(),                 // SMQ.ENR07
+    version: z.string(),              // Version 01
+    date: z.string(),                 // Date creation
+    responsableEmballage: z.string(), // Responsable emballage
+    responsableQualite: z.string()    // Responsable qualité
+  }),
+  rows: z.array(emballageRowSchema)
+});
+
+export type EmballageRow = z.infer<typeof emballageRowSchema>;
+export type EmballageFormData = z.infer<typeof emballageFormSchema>;
+
+// packaging_traces document: the sheet of a lot, archived once closed
+export const emballageLotSchema = z.object({
+  id: z.string(),
+  lotNumber: z.string(),
+  status: productionLotStatusSchema,
+  emballageData: emballageFormSchema,
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema,
+  archived: z.boolean().optional(),
+  archivedAt: isoDateSchema,
+  createdBy: z.string().nullish()
+});
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { formString, isoDateSchema } from './validation';
+
+const goodBadSchema = z.enum(['Bon', 'Mauvais', '']);
+
+// Fiche d'expédition (expeditions)
+export const expeditionRowSchema = z.object({
+  palletNo: z.number(),
+  nbrColis: formString,
+  produitVariete: z.string(),
+  calibre: formString,
+  numeroLotInterne: z.string().optional(), // N° de lot interne d'origine (traçabilité)
+  sscc: z.string().optional(),             // SSCC scanned from the pallet label
+  temperatureProduit: formString,
+  etatPalette: z.string(),
+  conformiteEtiquettes: z.string(),
+  dessiccation: z.string()
+});
+
+export const expeditionHeaderSchema = z.object({
+  date: z.string(),
+  heure: z.string(),
+  transporteur: z.string(),
+  matricule: z.string(),
+  tempCamion: formString,
+  hygiene: goodBadSchema,
+  odeur: goodBadSchema,
+  destination: z.string(),
+  commandeClient: z.string().optional(), // N° de commande client expédiée
+  clientId: z.string().optional(),       // Client (clients) of the destination
+  thermokingEtat: goodBadSchema
+});
+
+export const expeditionFormSchema = z.object({
+  id: z.string().optional(),
+  name: z.string(),
+  date: z.string(),
+  headerData: expeditionHeaderSchema,
+  rows: z.array(expeditionRowSchema),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema,
+  pdfURL: z.string().optional()
+});
+
+export type ExpeditionRow = z.infer<typeof expeditionRowSchema>;
+export type ExpeditionHeader = z.infer<typeof expeditionHeaderSchema>;
+export type ExpeditionFormData = z.infer<typeof expeditionFormSchema>;
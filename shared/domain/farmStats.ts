@@ -0,0 +1,267 @@
+import { z } from 'zod';
+import { campaignOf, normalizeSupplierName, toIsoDay, type SupplierControl } from './supplierScorecard';
+import type { WeighbridgeDelivery } from './weighbridge';
+
+// Farm statistics.
+// What a farm delivered, computed from the records that name it: harvest records
+// (multi_lots / avocado-tracking, matched on the selected farm, farmLocation or
+// farmerId), reception sheets (weighbridge deliveries of the producer) and reception
+// controls (defects and decisions). Shown to the grower during negotiations, so
+// nothing is estimated: a figure without data stays empty.
+
+export interface FarmRef {
+  id: string;
+  name: string;
+  code?: string;
+}
+
+export interface FarmHarvestRecord {
+  id: string;
+  source: 'multi_lots' | 'avocado-tracking';
+  lotNumber: string;
+  date: string | null;        // yyyy-MM-dd (harvest date)
+  variety: string;
+  status: string;
+  qualityGrade: string;       // sorting grade A / B / C, '' when not sorted
+  rejectedCount: number;
+  avocadoCount: number;
+  netWeightKg: number;
+}
+
+export interface FarmStatsRange {
+  from?: string;              // yyyy-MM-dd, inclusive
+  to?: string;
+}
+
+export interface FarmStats {
+  totalLots: number;
+  totalProduction: number;    // kg received at the factory (brut - tare)
+  deliveries: number;
+  activeHarvests: number;
+  averageQuality: string;     // '-' when no lot was graded
+  monthlyProduction: Array<{
+    month: string;            // yyyy-MM
+    production: number;       // kg received
+    deliveries: number;
+    lots: number;
+  }>;
+  varietyDistribution: Array<{
+    variety: string;
+    count: number;
+    percentage: number;
+  }>;
+  qualityGrades: Array<{
+    grade: string;
+    count: number;
+    percentage: number;
+  }>;
+  performanceMetrics: {
+    productionEfficiency: number;   // % of harvest lots completed
+    qualityRate: number;            // % of graded lots in grade A
+    acceptanceRate: number | null;  // % of controlled deliveries accepted
+    averageDefects: number | null;  // mean total defects at reception, %
+    weightEcartPct: number | null;  // Σ écart / Σ ticket
+    harvestFrequency: number;       // deliveries per active month
+  };
+  seasonalTrends: Array<{
+    season: string;
+    avgProduction: number;    // kg per delivery
+    avgQuality: number | null; // mean total defects, %
+    lotCount: number;         // deliveries
+  }>;
+  productionTrend: Array<{
+    month: string;
+    production: number;
+    defects: number | null;
+    rejection: number | null;
+  }>;
+}
+
+// A record belongs to the farm when one of its keys is the farm id, name or code
+export const matchesFarm = (farm: FarmRef, keys: Array<string | undefined>): boolean => {
+  const names = [normalizeSupplierName(farm.name), normalizeSupplierName(farm.code)].filter(Boolean);
+  return keys.some(key => !!key && (key === farm.id || names.includes(normalizeSupplierName(key))));
+};
+
+// Fields of a harvest document the statistics read; a field missing or of another type is left empty
+const text = z.string().optional().catch(undefined);
+const harvestDocumentSchema = z.object({
+  lotNumber: text,
+  status: text,
+  avocadoCount: z.unknown(),
+  harvest: z.object({ lotNumber: text, harvestDate: text, variety: text }).optional().catch(undefined),
+  sorting: z.object({ qualityGrade: text, rejectedCount: z.unknown() }).optional().catch(undefined),
+  packaging: z.object({ avocadoCount: z.unknown(), netWeight: z.unknown() }).optional().catch(undefined)
+});
+
+// Harvest record from a multi_lots or avocado-tracking document
+export const toFarmHarvestRecord = (
+  id: string,
+  source: FarmHarvestRecord['source'],
+  document: unknown
+): FarmHarvestRecord => {
+  const data = harvestDocumentSchema.parse(document);
+  return {
+    id,
+    source,
+    lotNumber: data.lotNumber || data.harvest?.lotNumber || '',
+    date: toIsoDay(data.harvest?.harvestDate),
+    variety: (data.harvest?.variety || '').trim(),
+    status: data.status || '',
+    qualityGrade: (data.sorting?.qualityGrade || '').trim().toUpperCase(),
+    rejectedCount: Number(data.sorting?.rejectedCount) || 0,
+    avocadoCount: Number(data.packaging?.avocadoCount ?? data.avocadoCount) || 0,
+    netWeightKg: Number(data.packaging?.netWeight) || 0
+  };
+};
+
+// A campaign '2024-2025' runs from 1 September 2024 to 31 August 2025
+export const campaignRange = (campaign: string): FarmStatsRange => {
+  const start = Number(campaign.slice(0, 4));
+  return isNaN(start) || !campaign ? {} : { from: `${start}-09-01`, to: `${start + 1}-08-31` };
+};
+
+// Campaigns with at least one harvest record or delivery, most recent first
+export const farmCampaigns = (
+  records: FarmHarvestRecord[],
+  controls: SupplierControl[],
+  deliveries: WeighbridgeDelivery[]
+): string[] => {
+  const days = [
+    ...records.map(r => r.date),
+    ...controls.map(c => c.date),
+    ...deliveries.map(d => toIsoDay(d.date))
+  ].filter((d): d is string => !!d);
+  return Array.from(new Set(days.map(campaignOf))).sort().reverse();
+};
+
+const inRange = (day: string | null, range: FarmStatsRange) =>
+  !!day && (!range.from || day >= range.from) && (!range.to || day <= range.to);
+
+const average = (values: Array<number | null>): number | null => {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : null;
+};
+
+const round = (value: number, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Count and share of each label, most frequent first
+const distribution = (labels: string[]) => {
+  const counts = new Map<string, number>();
+  labels.forEach(label => counts.set(label, (counts.get(label) || 0) + 1));
+  return Array.from(counts.entries())
+    .sort(([, a], [, b]) => b - a)
+    .map(([label, count]) => ({ label, count, percentage: Math.round((count / labels.length) * 100) }));
+};
+
+const GRADE_VALUES: Record<string, number> = { A: 3, B: 2, C: 1 };
+
+// Avocado seasons by harvest month
+const seasonOf = (day: string): string => {
+  const month = Number(day.slice(5, 7));
+  if (month >= 3 && month <= 5) return 'Printemps';
+  if (month >= 6 && month <= 8) return 'Été';
+  if (month >= 9 && month <= 11) return 'Automne';
+  return 'Hiver';
+};
+
+export const computeFarmStats = (
+  records: FarmHarvestRecord[],
+  controls: SupplierControl[],
+  deliveries: WeighbridgeDelivery[],
+  range: FarmStatsRange = {}
+): FarmStats => {
+  const lots = records.filter(r => inRange(r.date, range));
+  const controlled = controls.filter(c => inRange(c.date, range));
+  const received = deliveries
+    .map(d => ({ ...d, day: toIsoDay(d.date) }))
+    .filter(d => inRange(d.day, range));
+
+  const graded = lots.filter(lot => GRADE_VALUES[lot.qualityGrade]);
+  const gradeMean = average(graded.map(lot => GRADE_VALUES[lot.qualityGrade]));
+  const averageQuality = gradeMean === null ? '-' : gradeMean >= 2.5 ? 'A' : gradeMean >= 1.5 ? 'B' : 'C';
+
+  const months = new Map<string, { production: number; deliveries: number; lots: number; controls: SupplierControl[] }>();
+  const month = (key: string) => {
+    if (!months.has(key)) months.set(key, { production: 0, deliveries: 0, lots: 0, controls: [] });
+    return months.get(key)!;
+  };
+  received.forEach(d => {
+    const entry = month(d.day!.slice(0, 7));
+    entry.production += d.factoryKg;
+    entry.deliveries += 1;
+  });
+  lots.forEach(lot => { month(lot.date!.slice(0, 7)).lots += 1; });
+  controlled.forEach(c => { month(c.date.slice(0, 7)).controls.push(c); });
+  const sortedMonths = Array.from(months.entries()).sort(([a], [b]) => a.localeCompare(b));
+
+  const ticketed = received.filter(d => d.ticketKg !== null);
+  const ticketKg = ticketed.reduce((sum, d) => sum + (d.ticketKg || 0), 0);
+  const ecartKg = ticketed.reduce((sum, d) => sum + (d.ecartKg || 0), 0);
+  const averageDefects = average(controlled.map(c => c.totalDefects));
+  const activeMonths = sortedMonths.filter(([, m]) => m.deliveries > 0).length;
+
+  const seasons = new Map<string, { kg: number; deliveries: number; controls: SupplierControl[] }>();
+  const season = (key: string) => {
+    if (!seasons.has(key)) seasons.set(key, { kg: 0, deliveries: 0, controls: [] });
+    return seasons.get(key)!;
+  };
+  received.forEach(d => {
+    const entry = season(seasonOf(d.day!));
+    entry.kg += d.factoryKg;
+    entry.deliveries += 1;
+  });
+  controlled.forEach(c => season(seasonOf(c.date)).controls.push(c));
+
+  return {
+    totalLots: lots.length,
+    totalProduction: round(received.reduce((sum, d) => sum + d.factoryKg, 0)),
+    deliveries: received.length,
+    activeHarvests: lots.filter(lot => lot.status === 'in-progress' || lot.status === 'draft').length,
+    averageQuality,
+    monthlyProduction: sortedMonths.map(([key, m]) => ({
+      month: key,
+      production: round(m.production),
+      deliveries: m.deliveries,
+      lots: m.lots
+    })),
+    // Varieties of the harvest records, of the controlled deliveries when no record names one
+    varietyDistribution: distribution(
+      lots.some(lot => lot.variety)
+        ? lots.filter(lot => lot.variety).map(lot => lot.variety)
+        : controlled.filter(c => c.variety).map(c => c.variety)
+    ).map(({ label, ...rest }) => ({ variety: label, ...rest })),
+    qualityGrades: distribution(graded.map(lot => lot.qualityGrade))
+      .map(({ label, ...rest }) => ({ grade: label, ...rest }))
+      .sort((a, b) => a.grade.localeCompare(b.grade)),
+    performanceMetrics: {
+      productionEfficiency: lots.length > 0 ? Math.round((lots.filter(lot => lot.status === 'completed').length / lots.length) * 100) : 0,
+      qualityRate: graded.length > 0 ? Math.round((graded.filter(lot => lot.qualityGrade === 'A').length / graded.length) * 100) : 0,
+      acceptanceRate: controlled.length > 0 ? Math.round((controlled.filter(c => !c.rejected).length / controlled.length) * 100) : null,
+      averageDefects: averageDefects === null ? null : round(averageDefects, 2),
+      weightEcartPct: ticketKg > 0 ? round((ecartKg / ticketKg) * 100, 2) : null,
+      harvestFrequency: activeMonths > 0 ? round(received.length / activeMonths, 1) : 0
+    },
+    seasonalTrends: ['Automne', 'Hiver', 'Printemps', 'Été']
+      .filter(key => seasons.has(key))
+      .map(key => {
+        const s = seasons.get(key)!;
+        const defects = average(s.controls.map(c => c.totalDefects));
+        return {
+          season: key,
+          avgProduction: s.deliveries > 0 ? Math.round(s.kg / s.deliveries) : 0,
+          avgQuality: defects === null ? null : round(defects, 2),
+          lotCount: s.deliveries
+        };
+      }),
+    productionTrend: sortedMonths.map(([key, m]) => {
+      const defects = average(m.controls.map(c => c.totalDefects));
+      return {
+        month: key,
+        production: round(m.production),
+        defects: defects === null ? null : round(defects, 2),
+        rejection: m.controls.length > 0 ? round((m.controls.filter(c => c.rejected).length / m.controls.length) * 100, 1) : null
+      };
+    })
+  };
+};
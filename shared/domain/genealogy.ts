@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+
+// Lot genealogy (lot_genealogy): one edge per link between two places a lot lives in,
+// derived from the form that records it. Derivation and tracing are in
+// client/src/lib/lotGenealogyService.ts.
+
+// Every place a lot (or a physical part of it) can live in the packhouse
+export const lotNodeKindSchema = z.enum([
+  'reception_lot',       // Suivi réception (bon de réception)
+  'reception_control',   // Contrôle à la réception
+  'internal_lot',        // N° de lot interne
+  'quality_lot',         // Contrôle qualité palettes
+  'production_lot',      // Fiche suivi production
+  'production_pallet',   // Ligne de production (palette)
+  'dechet_pallet',       // Palette de déchets
+  'packaging_material',  // Lot d'emballage fournisseur
+  'expedition_pallet'    // Palette expédiée
+]);
+
+export const lotRelationSchema = z.enum([
+  'split_into',    // reception lot -> internal lots
+  'controlled_by', // lot -> control record
+  'packed_into',   // internal lot -> production pallet
+  'contains',      // production lot -> production pallet
+  'discarded_as',  // internal lot -> waste pallet
+  'used_on',       // packaging material -> production lot
+  'shipped_as'     // internal lot -> expedition pallet
+]);
+
+export const lotNodeRefSchema = z.object({
+  kind: lotNodeKindSchema,
+  id: z.string(),    // normalized identifier used for matching
+  label: z.string()  // identifier as typed by the operator
+});
+
+export const lotGenealogySourceSchema = z.object({
+  collection: z.string(),
+  docId: z.string()
+});
+
+// Blank texts of older edges are read as absent
+const optionalText = z.string().optional().transform(value => value || undefined);
+
+export const lotGenealogyEdgeSchema = z.object({
+  id: z.string(),
+  parent: lotNodeRefSchema,
+  child: lotNodeRefSchema,
+  relation: lotRelationSchema,
+  source: lotGenealogySourceSchema,
+  quantityKg: z.number().optional(),
+  packageCount: z.number().optional(),   // colis
+  variety: optionalText,
+  calibre: optionalText,
+  wasteNature: optionalText,              // Nature de déchet, on discarded_as edges
+  date: optionalText,
+  recordedAt: isoDateSchema
+});
+
+export type LotNodeKind = z.infer<typeof lotNodeKindSchema>;
+export type LotRelation = z.infer<typeof lotRelationSchema>;
+export type LotNodeRef = z.infer<typeof lotNodeRefSchema>;
+export type LotGenealogySource = z.infer<typeof lotGenealogySourceSchema>;
+export type LotGenealogyEdge = z.infer<typeof lotGenealogyEdgeSchema>;
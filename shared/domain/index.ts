@@ -0,0 +1,36 @@
+// Typed domain model shared by services and pages.
+// Every Firestore form payload has a zod schema here; services parse on read
+// and validate on write so malformed documents raise a DomainValidationError.
+export * from './validation';
+export * from './reception';
+export * from './quality';
+export * from './qualityConformity';
+export * from './production';
+export * from './dechets';
+export * from './emballages';
+export * from './expedition';
+export * from './orders';
+export * from './clients';
+export * from './invoices';
+export * from './personnel';
+export * from './lots';
+export * from './genealogy';
+export * from './tracking';
+export * from './sites';
+export * from './users';
+export * from './audit';
+export * from './signatures';
+export * from './coldChain';
+export * from './massBalance';
+export * from './weighbridge';
+export * from './supplierScorecard';
+export * from './farmStats';
+export * from './stockLedger';
+export * from './allocation';
+export * from './productionPlanning';
+export * from './barcode';
+export * from './sscc';
+export * from './digitalLink';
+export * from './publicLot';
+export * from './scanAnalytics';
+export * from './api';
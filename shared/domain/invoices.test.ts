@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  invoiceDueDate,
+  invoiceLineAmounts,
+  invoiceNumber,
+  invoiceStatusOn,
+  invoiceTotals,
+  orderPaymentStatusFor,
+  shippedQuantities
+} from './invoices';
+import type { InvoiceLine } from './invoices';
+import type { ExpeditionFormData } from './expedition';
+
+describe('invoiceNumber', () => {
+  it('joins prefix, year and the sequence on five digits', () => {
+    expect(invoiceNumber('FA', 2026, 1)).toBe('FA-2026-00001');
+    expect(invoiceNumber('FA', 2026, 427)).toBe('FA-2026-00427');
+    expect(invoiceNumber('AV', 2027, 12345)).toBe('AV-2027-12345');
+  });
+
+  it('keeps a sequence beyond five digits whole', () => {
+    expect(invoiceNumber('FA', 2026, 123456)).toBe('FA-2026-123456');
+  });
+
+  it('sorts in the order of the sequence within a year', () => {
+    const numbers = [10, 9, 100, 1].map(sequence => invoiceNumber('FA', 2026, sequence));
+    expect([...numbers].sort()).toEqual(['FA-2026-00001', 'FA-2026-00009', 'FA-2026-00010', 'FA-2026-00100']);
+  });
+});
+
+describe('invoiceDueDate', () => {
+  it('adds the term in days', () => {
+    expect(invoiceDueDate('2026-01-15', { days: 30, endOfMonth: false })).toBe('2026-02-14');
+    expect(invoiceDueDate('2026-12-20', { days: 0, endOfMonth: false })).toBe('2026-12-20');
+  });
+
+  it('goes to the end of the month for a term end of month', () => {
+    expect(invoiceDueDate('2026-01-15', { days: 30, endOfMonth: true })).toBe('2026-02-28');
+    expect(invoiceDueDate('2026-01-31', { days: 30, endOfMonth: true })).toBe('2026-03-31');
+  });
+});
+
+describe('invoice status', () => {
+  it('shows an issued invoice past its due date as overdue', () => {
+    expect(invoiceStatusOn({ status: 'issued', dueDate: '2026-02-14' }, '2026-02-14')).toBe('issued');
+    expect(invoiceStatusOn({ status: 'issued', dueDate: '2026-02-14' }, '2026-02-15')).toBe('overdue');
+    expect(invoiceStatusOn({ status: 'paid', dueDate: '2026-02-14' }, '2026-03-01')).toBe('paid');
+    expect(invoiceStatusOn({ status: 'draft', dueDate: null }, '2026-03-01')).toBe('draft');
+  });
+
+  it('gives the payment status of the order', () => {
+    expect(orderPaymentStatusFor('paid')).toBe('paid');
+    expect(orderPaymentStatusFor('overdue')).toBe('overdue');
+    expect(orderPaymentStatusFor('issued')).toBe('pending');
+    expect(orderPaymentStatusFor('draft')).toBe('pending');
+  });
+});
+
+describe('invoice amounts', () => {
+  const line = (quantity: number, unitPrice: number, vatRatePct: number): InvoiceLine => ({
+    orderLineId: 'l1',
+    description: 'Avocat Hass',
+    calibre: '18',
+    quantity,
+    unit: 'colis',
+    unitPrice,
+    vatRatePct,
+    ...invoiceLineAmounts({ quantity, unitPrice, vatRatePct }),
+    source: 'expedition'
+  });
+
+  it('rounds the amounts of a line to the cent', () => {
+    expect(invoiceLineAmounts({ quantity: 7, unitPrice: 1.333, vatRatePct: 20 })).toEqual({ netAmount: 9.33, vatAmount: 1.87 });
+  });
+
+  it('sums the lines', () => {
+    expect(invoiceTotals([line(240, 12.5, 0), line(10, 3.33, 20)])).toEqual({ netTotal: 3033.3, vatTotal: 6.66, grossTotal: 3039.96 });
+  });
+});
+
+describe('shippedQuantities', () => {
+  const row = (produitVariete: string, calibre: string, nbrColis: string): ExpeditionFormData['rows'][number] => ({
+    palletNo: 1,
+    nbrColis,
+    produitVariete,
+    calibre,
+    temperatureProduit: '',
+    etatPalette: '',
+    conformiteEtiquettes: '',
+    dessiccation: ''
+  });
+  const product = (id: string, name: string, unit: string, fields: { variety?: string; caliber?: string } = {}) =>
+    ({ id, name, quantity: 50, unit, pricePerUnit: 10, totalPrice: 500, ...fields });
+
+  it('counts the rows of each line in its unit, a line with no row keeping its ordered quantity', () => {
+    const quantities = shippedQuantities(
+      {
+        products: [
+          product('l1', 'Avocat', 'kg', { variety: 'Hass', caliber: '18' }),
+          product('l2', 'Hass Avocado', 'Palettes', { caliber: 'Mixed' }),
+          product('l3', 'Avocat', 'colis', { variety: 'Fuerte' })
+        ]
+      },
+      [
+        { rows: [row('HASS', '18', '10'), row('HASS', '18', '20')] },
+        { rows: [row('HASS', '20', '30'), row('HASS', '22', '5')] }
+      ],
+      4
+    );
+    expect(Object.fromEntries(quantities)).toEqual({ l1: 120, l2: 2 });
+  });
+});
@@ -0,0 +1,243 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+import { shippingAddressSchema } from './orders';
+import type { ClientOrder, ShippingAddress } from './orders';
+import { clientAddress, paymentTermsSchema } from './clients';
+import type { Client, PaymentTerms } from './clients';
+import type { ExpeditionFormData } from './expedition';
+
+// Factures clients (invoices)
+// An invoice is drafted from a shipped or delivered order, with the quantities of its
+// expedition sheets. Issuing it gives the next number of the year (FA-2026-00001): numbers
+// follow each other without gap, and an issued invoice is never changed nor deleted, only
+// paid. Its payment status is the paymentStatus of the order.
+
+export const INVOICE_STATUSES = ['draft', 'issued', 'paid', 'overdue'] as const;
+
+export const invoiceStatusSchema = z.enum(INVOICE_STATUSES);
+
+export type InvoiceStatus = z.infer<typeof invoiceStatusSchema>;
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  draft: 'Brouillon',
+  issued: 'Émise',
+  paid: 'Payée',
+  overdue: 'Échue impayée'
+};
+
+// Orders an invoice can be drafted from: export clients are invoiced at loading
+export const INVOICEABLE_ORDER_STATUSES: ClientOrder['status'][] = ['shipped', 'delivered'];
+
+export const invoiceLineSchema = z.object({
+  orderLineId: z.string(),
+  description: z.string(),
+  calibre: z.string().default(''),
+  quantity: z.number().min(0),
+  unit: z.string(),
+  unitPrice: z.number().min(0),
+  vatRatePct: z.number().min(0).max(100),
+  netAmount: z.number(),
+  vatAmount: z.number(),
+  source: z.enum(['expedition', 'commande'])   // Quantity shipped, or ordered when no sheet matched
+});
+
+export const invoiceSchema = z.object({
+  id: z.string(),
+  number: z.string().nullable().default(null),       // Given at issue
+  fiscalYear: z.number().int().nullable().default(null),
+  sequence: z.number().int().nullable().default(null),
+  orderId: z.string(),
+  orderNumber: z.string(),
+  expeditionIds: z.array(z.string()).default([]),
+  clientId: z.string().optional(),
+  clientName: z.string(),
+  clientLegalName: z.string().default(''),
+  clientVatNumber: z.string().default(''),
+  billingAddress: shippingAddressSchema,
+  currency: z.string().min(3).max(3),
+  incoterm: z.string().default(''),
+  paymentTerms: paymentTermsSchema,
+  issueDate: z.string().nullable().default(null),    // YYYY-MM-DD
+  dueDate: z.string().nullable().default(null),
+  paidAt: z.string().nullable().default(null),
+  lines: z.array(invoiceLineSchema).min(1),
+  netTotal: z.number(),
+  vatTotal: z.number(),
+  grossTotal: z.number(),
+  status: invoiceStatusSchema,
+  notes: z.string().default(''),
+  pdfURL: z.string().optional(),
+  archiveId: z.string().optional(),                   // factures document of the accounting archive
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const invoiceDraftSchema = invoiceSchema.omit({ id: true, createdAt: true, updatedAt: true });
+
+// Seller identity and numbering (invoice_settings/default)
+export const invoiceSettingsSchema = z.object({
+  sellerName: z.string().min(1),
+  sellerAddress: z.string().default(''),
+  sellerTaxIds: z.string().default(''),               // ICE, IF, RC, patente
+  sellerVatNumber: z.string().default(''),
+  bankDetails: z.string().default(''),                // RIB / IBAN, SWIFT
+  numberPrefix: z.string().min(1).default('FA'),
+  defaultVatRatePct: z.number().min(0).max(100).default(0),
+  defaultIncoterm: z.string().default(''),
+  defaultBoxNetKg: z.number().positive().default(4),  // Orders in kg, client without packaging
+  legalMentions: z.string().default(''),
+  updatedAt: isoDateSchema
+});
+
+export const invoiceSettingsWriteSchema = invoiceSettingsSchema.omit({ updatedAt: true });
+
+export type InvoiceLine = z.infer<typeof invoiceLineSchema>;
+export type Invoice = z.infer<typeof invoiceSchema>;
+export type InvoiceDraft = z.infer<typeof invoiceDraftSchema>;
+export type InvoiceSettings = z.infer<typeof invoiceSettingsSchema>;
+export type InvoiceSettingsWrite = z.infer<typeof invoiceSettingsWriteSchema>;
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  sellerName: 'Fruits For You',
+  sellerAddress: '',
+  sellerTaxIds: '',
+  sellerVatNumber: '',
+  bankDetails: '',
+  numberPrefix: 'FA',
+  defaultVatRatePct: 0,
+  defaultIncoterm: '',
+  defaultBoxNetKg: 4,
+  legalMentions: ''
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// FA-2026-00001
+export const invoiceNumber = (prefix: string, year: number, sequence: number): string =>
+  `${prefix}-${year}-${String(sequence).padStart(5, '0')}`;
+
+/**
+ * Due date of an invoice issued on `issueDate` (YYYY-MM-DD): the term in days, then the
+ * end of that month for '30 jours fin de mois'.
+ */
+export const invoiceDueDate = (issueDate: string, terms: Pick<PaymentTerms, 'days' | 'endOfMonth'>): string => {
+  const date = new Date(`${issueDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + terms.days);
+  if (terms.endOfMonth) date.setUTCMonth(date.getUTCMonth() + 1, 0);
+  return date.toISOString().slice(0, 10);
+};
+
+// Status to show on `today`: an issued invoice past its due date is overdue
+export const invoiceStatusOn = (invoice: Pick<Invoice, 'status' | 'dueDate'>, today: string): InvoiceStatus =>
+  invoice.status === 'issued' && invoice.dueDate !== null && invoice.dueDate < today ? 'overdue' : invoice.status;
+
+// paymentStatus of the order for an invoice status
+export const orderPaymentStatusFor = (status: InvoiceStatus): ClientOrder['paymentStatus'] =>
+  status === 'paid' || status === 'overdue' ? status : 'pending';
+
+export const invoiceLineAmounts = (line: Pick<InvoiceLine, 'quantity' | 'unitPrice' | 'vatRatePct'>) => {
+  const netAmount = round(line.quantity * line.unitPrice);
+  return { netAmount, vatAmount: round((netAmount * line.vatRatePct) / 100) };
+};
+
+export const invoiceTotals = (lines: InvoiceLine[]) => {
+  const netTotal = round(lines.reduce((sum, line) => sum + line.netAmount, 0));
+  const vatTotal = round(lines.reduce((sum, line) => sum + line.vatAmount, 0));
+  return { netTotal, vatTotal, grossTotal: round(netTotal + vatTotal) };
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// The product name often carries the variety ('Avocat Hass' for rows of HASS)
+const sameVariety = (wanted: string, shipped: string) => {
+  const a = normalize(wanted);
+  const b = normalize(shipped);
+  return !a || !b || a === b || a.includes(b) || b.includes(a);
+};
+
+const sameCalibre = (wanted: string, shipped: string) =>
+  !wanted || /^mix/i.test(wanted) || normalize(wanted) === normalize(shipped);
+
+/**
+ * Quantity shipped of each order line, in the unit of the line, from the rows (one row per
+ * pallet) of the expedition sheets of the order. A row serves the first line of its variety
+ * and calibre; a line no row matched keeps its ordered quantity.
+ */
+export const shippedQuantities = (
+  order: Pick<ClientOrder, 'products'>,
+  expeditions: Pick<ExpeditionFormData, 'rows'>[],
+  boxNetKg: number
+): Map<string, number> => {
+  const rows = expeditions.flatMap(expedition => expedition.rows).map(row => ({ row, used: false }));
+  const quantities = new Map<string, number>();
+  order.products.forEach(product => {
+    const matched = rows.filter(item =>
+      !item.used
+      && sameVariety(product.variety || product.name, item.row.produitVariete)
+      && sameCalibre(product.caliber || '', item.row.calibre));
+    if (matched.length === 0) return;
+    matched.forEach(item => { item.used = true; });
+    const colis = matched.reduce((sum, item) => sum + (parseFloat(item.row.nbrColis) || 0), 0);
+    const unit = normalize(product.unit);
+    quantities.set(product.id,
+      unit === 'kg' ? round(colis * boxNetKg)
+        : unit.startsWith('palette') ? matched.length
+          : colis);
+  });
+  return quantities;
+};
+
+/**
+ * Draft invoice of an order: client identity and terms from the clients file when the order
+ * is linked to a client, prices of the order, quantities of its expedition sheets.
+ */
+export const draftInvoiceFromOrder = (
+  order: ClientOrder,
+  expeditions: Array<Pick<ExpeditionFormData, 'id' | 'rows'>>,
+  client: Client | undefined,
+  settings: Omit<InvoiceSettings, 'updatedAt'>
+): InvoiceDraft => {
+  const shipped = shippedQuantities(order, expeditions, client?.packaging.boxNetWeightKg || settings.defaultBoxNetKg);
+  const lines: InvoiceLine[] = order.products.map(product => {
+    const quantity = shipped.get(product.id) ?? product.quantity;
+    const line = {
+      orderLineId: product.id,
+      description: product.variety && !product.name.includes(product.variety) ? `${product.name} ${product.variety}` : product.name,
+      calibre: /^mix/i.test(product.caliber || '') ? '' : (product.caliber || ''),
+      quantity,
+      unit: product.unit,
+      unitPrice: product.pricePerUnit,
+      vatRatePct: settings.defaultVatRatePct
+    };
+    return { ...line, ...invoiceLineAmounts(line), source: shipped.has(product.id) ? 'expedition' : 'commande' };
+  });
+  const terms = client?.paymentTerms || { days: 30, endOfMonth: false, currency: 'EUR' };
+  const registered = client && clientAddress(client);
+  const billingAddress: ShippingAddress = registered
+    ? { street: registered.street, city: registered.city, state: registered.state, zipCode: registered.zipCode, country: registered.country }
+    : order.shippingAddress;
+
+  return {
+    number: null,
+    fiscalYear: null,
+    sequence: null,
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    expeditionIds: expeditions.map(expedition => expedition.id).filter((id): id is string => !!id),
+    ...(order.clientId ? { clientId: order.clientId } : {}),
+    clientName: client?.name || order.clientName,
+    clientLegalName: client?.legalName || '',
+    clientVatNumber: client?.vatNumber || '',
+    billingAddress,
+    currency: terms.currency,
+    incoterm: client?.incoterm || settings.defaultIncoterm,
+    paymentTerms: terms,
+    issueDate: null,
+    dueDate: null,
+    paidAt: null,
+    lines,
+    ...invoiceTotals(lines),
+    status: 'draft',
+    notes: ''
+  };
+};
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+import { receptionFormSchema } from './reception';
+import { qualitySharedDataSchema } from './quality';
+import { productionFormSchema } from './production';
+import { dechetFormSchema } from './dechets';
+import { signedRecordSchema } from './signatures';
+
+export const sharedLotTypeSchema = z.enum(['quality', 'production', 'reception', 'dechets']);
+
+// Cards shared between the Quality, Production, Réception and Déchets pages (shared_lots)
+export const sharedLotSchema = z.object({
+  id: z.string(),
+  lotNumber: z.string(),
+  status: z.string(),
+  createdAt: isoDateSchema.transform(v => v ?? ''),
+  updatedAt: isoDateSchema.transform(v => v ?? ''),
+  type: sharedLotTypeSchema,
+  qualityData: qualitySharedDataSchema.optional(),
+  productionData: productionFormSchema.optional(),
+  receptionData: receptionFormSchema.optional(),
+  dechetData: dechetFormSchema.optional()
+}).merge(signedRecordSchema);  // Production sheets carry visas
+
+// What the pages are allowed to write; id and timestamps are set by the service,
+// visas and the lock by signatureService
+export const sharedLotWriteSchema = sharedLotSchema.omit({
+  id: true, createdAt: true, updatedAt: true, signatures: true, locked: true, reopenings: true
+});
+
+// Lots synchronised between Quality and Production (universal_lots)
+export const universalLotSchema = z.object({
+  id: z.string(),
+  lotNumber: z.string(),
+  status: z.string(),
+  type: z.enum(['quality', 'production']),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema,
+  data: z.union([qualitySharedDataSchema, productionFormSchema]).optional()
+});
+
+export type SharedLotType = z.infer<typeof sharedLotTypeSchema>;
+export type SharedLot = z.infer<typeof sharedLotSchema>;
+export type SharedLotWrite = z.infer<typeof sharedLotWriteSchema>;
+export type UniversalLot = z.infer<typeof universalLotSchema>;
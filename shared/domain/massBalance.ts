@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+
+// Mass balance (bilan matière).
+// Kilos received on a lot are reconciled against what was packed and discarded from it;
+// the rest is unexplained loss. One settings document holds the loss rate above which
+// a lot is flagged.
+
+export const massBalanceSettingsSchema = z.object({
+  lossThresholdPct: z.number().min(0).max(100),
+  updatedAt: isoDateSchema
+});
+
+export const massBalanceSettingsWriteSchema = massBalanceSettingsSchema.omit({ updatedAt: true });
+
+export type MassBalanceSettings = z.infer<typeof massBalanceSettingsSchema>;
+
+export const DEFAULT_MASS_BALANCE_SETTINGS: MassBalanceSettings = { lossThresholdPct: 3 };
+
+// conforme: loss within the threshold
+// perte: unexplained loss above the threshold
+// excedent: more kilos out than in beyond the threshold (weighing or lot number error)
+// en_cours: received, nothing packed or discarded yet
+// incomplet: packed or discarded without a weighed reception
+export type MassBalanceStatus = 'conforme' | 'perte' | 'excedent' | 'en_cours' | 'incomplet';
+
+export const MASS_BALANCE_STATUS_LABELS: Record<MassBalanceStatus, string> = {
+  conforme: 'Conforme',
+  perte: 'Perte excessive',
+  excedent: 'Excédent',
+  en_cours: 'En cours',
+  incomplet: 'Réception manquante'
+};
+
+export const massBalanceStatus = (
+  figures: { receivedKg: number; packedKg: number; wasteKg: number },
+  lossThresholdPct: number
+): MassBalanceStatus => {
+  if (figures.receivedKg <= 0) return 'incomplet';
+  if (figures.packedKg + figures.wasteKg <= 0) return 'en_cours';
+  const lossPct = ((figures.receivedKg - figures.packedKg - figures.wasteKg) / figures.receivedKg) * 100;
+  if (lossPct > lossThresholdPct) return 'perte';
+  if (lossPct < -lossThresholdPct) return 'excedent';
+  return 'conforme';
+};
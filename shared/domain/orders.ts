@@ -0,0 +1,242 @@
+import { z } from 'zod';
+import { isoDateSchema, toIsoString } from './validation';
+
+// Commandes clients (client-orders)
+// The one order model of the app. Orders entered on "Gérer les commandes" used to live
+// in avocado_orders (lines by calibre, in palettes); migrateLegacyOrders copies them here.
+export const orderProductSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  quantity: z.number(),
+  unit: z.string(),
+  pricePerUnit: z.number(),
+  totalPrice: z.number(),
+  variety: z.string().optional(),   // Allocation: pallets of this variety (the name otherwise)
+  caliber: z.string().optional(),   // Allocation: pallets of this calibre, 'Mixed' for any
+  lotNumber: z.string().optional(),
+  processingHours: z.number().optional(),
+  completed: z.boolean().optional(),  // Line prepared (order tracking checklist)
+  completedAt: z.string().optional()
+});
+
+export const shippingAddressSchema = z.object({
+  street: z.string(),
+  city: z.string(),
+  state: z.string(),
+  zipCode: z.string(),
+  country: z.string()
+});
+
+// Lifecycle: draft → confirmed → in_production → packed → shipped → delivered → invoiced.
+// An order can be cancelled until it leaves the packhouse; export clients invoiced at
+// loading go from shipped straight to invoiced.
+export const ORDER_STATUSES = ['draft', 'confirmed', 'in_production', 'packed', 'shipped', 'delivered', 'invoiced', 'cancelled'] as const;
+
+export const clientOrderStatusSchema = z.enum(ORDER_STATUSES);
+export const orderPrioritySchema = z.enum(['high', 'medium', 'low']);
+export const paymentStatusSchema = z.enum(['pending', 'paid', 'overdue', 'failed', 'refunded']);
+
+export type ClientOrderStatus = z.infer<typeof clientOrderStatusSchema>;
+
+export const ORDER_STATUS_LABELS: Record<ClientOrderStatus, string> = {
+  draft: 'Brouillon',
+  confirmed: 'Confirmée',
+  in_production: 'En production',
+  packed: 'Emballée',
+  shipped: 'Expédiée',
+  delivered: 'Livrée',
+  invoiced: 'Facturée',
+  cancelled: 'Annulée'
+};
+
+export const ORDER_TRANSITIONS: Record<ClientOrderStatus, ClientOrderStatus[]> = {
+  draft: ['confirmed', 'cancelled'],
+  confirmed: ['in_production', 'cancelled'],
+  in_production: ['packed', 'cancelled'],
+  packed: ['shipped', 'cancelled'],
+  shipped: ['delivered', 'invoiced'],
+  delivered: ['invoiced'],
+  invoiced: [],
+  cancelled: []
+};
+
+// Statuses written before the lifecycle: pending/processing of client-orders, the
+// delayed/completed of avocado_orders
+const LEGACY_ORDER_STATUSES: Record<string, ClientOrderStatus> = {
+  pending: 'confirmed',
+  processing: 'in_production',
+  delayed: 'in_production',
+  completed: 'delivered'
+};
+
+export const isLegacyOrderStatus = (status: unknown): boolean =>
+  typeof status === 'string' && status in LEGACY_ORDER_STATUSES;
+
+export const legacyOrderStatus = (status: unknown): unknown =>
+  typeof status === 'string' && status in LEGACY_ORDER_STATUSES ? LEGACY_ORDER_STATUSES[status] : status;
+
+export const orderStatusChangeSchema = z.object({
+  from: clientOrderStatusSchema.nullable(),   // null: order created or migrated
+  to: clientOrderStatusSchema,
+  at: z.string(),
+  by: z.string(),
+  reason: z.string().optional()
+});
+
+export type OrderStatusChange = z.infer<typeof orderStatusChangeSchema>;
+
+export const clientOrderSchema = z.object({
+  id: z.string(),
+  orderNumber: z.string().min(1),
+  clientId: z.string().optional(),   // clients; name, email and address below are copied from it
+  clientName: z.string().min(1),
+  clientEmail: z.string(),
+  clientPhone: z.string().optional(),
+  products: z.array(orderProductSchema),
+  status: clientOrderStatusSchema,
+  statusHistory: z.array(orderStatusChangeSchema).default([]),
+  orderDate: z.string(),
+  requestedDeliveryDate: z.string(),
+  actualDeliveryDate: z.string().optional(),
+  totalAmount: z.number(),
+  priority: orderPrioritySchema,
+  notes: z.string().optional(),
+  delayReason: z.string().optional(),
+  delayPredictedAt: z.string().optional(),     // Set when delayReason comes from the production plan
+  totalProcessingTime: z.number().optional(),  // Hours, estimated from the calibres
+  selected: z.boolean().optional(),
+  shippingAddress: shippingAddressSchema,
+  paymentStatus: paymentStatusSchema,
+  legacySource: z.object({ collection: z.string(), id: z.string() }).optional(),
+  // Production and quality lots opened with the order (shared_lots, quality_control_lots)
+  linkedProductionLotId: z.string().optional(),
+  linkedQualitySharedLotId: z.string().optional(),
+  linkedQualityLotId: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+// Firestore shape: dates may still be Timestamps, server fields may be pending,
+// documents not migrated yet carry a legacy status
+export const clientOrderDocSchema = clientOrderSchema.extend({
+  status: z.preprocess(legacyOrderStatus, clientOrderStatusSchema),
+  orderDate: isoDateSchema.pipe(z.string()),
+  requestedDeliveryDate: isoDateSchema.pipe(z.string()),
+  actualDeliveryDate: isoDateSchema,
+  createdAt: isoDateSchema.transform(v => v ?? new Date().toISOString()),
+  updatedAt: isoDateSchema.transform(v => v ?? new Date().toISOString())
+});
+
+// Fields a caller may write. The status only moves through orderStatusChange
+export const clientOrderWriteSchema = clientOrderSchema.omit({
+  id: true,
+  status: true,
+  statusHistory: true,
+  selected: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type OrderProduct = z.infer<typeof orderProductSchema>;
+export type ShippingAddress = z.infer<typeof shippingAddressSchema>;
+export type ClientOrder = z.infer<typeof clientOrderSchema>;
+export type ClientOrderWrite = z.infer<typeof clientOrderWriteSchema>;
+
+export const canTransitionOrder = (from: ClientOrderStatus, to: ClientOrderStatus): boolean =>
+  ORDER_TRANSITIONS[from].includes(to);
+
+// Raised when a status change skips a step or leaves a closed order
+export class OrderTransitionError extends Error {
+  constructor(orderNumber: string, from: ClientOrderStatus, to: ClientOrderStatus) {
+    super(`Commande ${orderNumber} : passage de « ${ORDER_STATUS_LABELS[from]} » à « ${ORDER_STATUS_LABELS[to]} » impossible`);
+    this.name = 'OrderTransitionError';
+  }
+}
+
+/**
+ * Fields to write for a status change, history entry included. A cancellation needs a
+ * reason; delivery stamps the actual delivery date unless one was entered.
+ */
+export const orderStatusChange = (
+  order: Pick<ClientOrder, 'orderNumber' | 'status' | 'statusHistory' | 'actualDeliveryDate'>,
+  to: ClientOrderStatus,
+  by: string,
+  reason?: string,
+  at: string = new Date().toISOString()
+): Pick<ClientOrder, 'status' | 'statusHistory'> & { actualDeliveryDate?: string } => {
+  if (!canTransitionOrder(order.status, to)) throw new OrderTransitionError(order.orderNumber, order.status, to);
+  if (to === 'cancelled' && !reason?.trim()) throw new Error(`Commande ${order.orderNumber} : motif d'annulation obligatoire`);
+  return {
+    status: to,
+    statusHistory: [...order.statusHistory, { from: order.status, to, at, by, ...(reason?.trim() ? { reason: reason.trim() } : {}) }],
+    ...(to === 'delivered' && !order.actualDeliveryDate ? { actualDeliveryDate: at } : {})
+  };
+};
+
+const EMPTY_ADDRESS: ShippingAddress = { street: '', city: '', state: '', zipCode: '', country: '' };
+
+// Dates of avocado_orders are Timestamps, Dates or strings
+const isoOf = (value: unknown): string | undefined => {
+  const iso = toIsoString(value);
+  return typeof iso === 'string' && iso ? iso : undefined;
+};
+
+// Documents written before the lifecycle: every field may be missing or of another type
+type LegacyRecord = Record<string, unknown>;
+const asLegacyRecord = (value: unknown): LegacyRecord =>
+  value !== null && typeof value === 'object' ? value as LegacyRecord : {};
+
+/**
+ * client-orders document for an avocado_orders one: each calibre line becomes a product
+ * in palettes, the order keeps a reference to its source so the migration can be rerun.
+ */
+export const clientOrderFromAvocadoOrder = (id: string, data: LegacyRecord, at: string): Omit<ClientOrder, 'id' | 'createdAt' | 'updatedAt'> => {
+  const orderDate = isoOf(data.orderDate) || at;
+  const status = legacyOrderStatus(data.status);
+  const parsedStatus = clientOrderStatusSchema.safeParse(status);
+  const initial: ClientOrderStatus = parsedStatus.success ? parsedStatus.data : 'confirmed';
+  const priority = orderPrioritySchema.safeParse(data.priority);
+  return {
+    orderNumber: `AVO-${id.slice(0, 6).toUpperCase()}`,
+    clientName: String(data.clientName || 'Client inconnu'),
+    clientEmail: '',
+    products: (Array.isArray(data.items) ? data.items : []).map(asLegacyRecord).map((item, index) => ({
+      id: `${id}-${index}`,
+      name: String(item.type || 'Avocat'),
+      variety: item.type ? String(item.type) : undefined,
+      caliber: item.caliber ? String(item.caliber) : undefined,
+      quantity: Number(item.quantity) || 0,
+      unit: 'palettes',
+      pricePerUnit: 0,
+      totalPrice: 0,
+      processingHours: Number(item.processingTime) || undefined
+    })),
+    status: initial,
+    statusHistory: [{ from: null, to: initial, at, by: 'migration', reason: `Reprise de avocado_orders (${String(data.status || 'sans statut')})` }],
+    orderDate,
+    requestedDeliveryDate: isoOf(data.requestedDeliveryDate) || orderDate,
+    actualDeliveryDate: isoOf(data.actualDeliveryDate),
+    totalAmount: 0,
+    priority: priority.success ? priority.data : 'medium',
+    notes: data.notes ? String(data.notes) : undefined,
+    delayReason: data.delayReason ? String(data.delayReason) : undefined,
+    totalProcessingTime: Number(data.totalProcessingTime) || undefined,
+    shippingAddress: EMPTY_ADDRESS,
+    paymentStatus: 'pending',
+    legacySource: { collection: 'avocado_orders', id }
+  };
+};
+
+// Status fields of a client-orders document written before the lifecycle, null when already
+// migrated or when its status is unknown: such an order is left as is rather than given a made-up state
+export const migratedOrderStatus = (data: LegacyRecord, at: string): Pick<ClientOrder, 'status' | 'statusHistory'> | null => {
+  if (!isLegacyOrderStatus(data.status) && Array.isArray(data.statusHistory)) return null;
+  const parsed = clientOrderStatusSchema.safeParse(legacyOrderStatus(data.status));
+  if (!parsed.success) return null;
+  const status = parsed.data;
+  const history = z.array(orderStatusChangeSchema).catch([]).parse(data.statusHistory);
+  return {
+    status,
+    statusHistory: [...history, { from: null, to: status, at, by: 'migration', reason: `Ancien statut : ${String(data.status)}` }]
+  };
+};
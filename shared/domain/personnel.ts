@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+
+export const personnelStatusSchema = z.enum(['Active', 'Inactive', 'On Leave', 'Fired', 'Resigned']);
+
+// Personnel (personnel)
+export const personnelSchema = z.object({
+  id: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string().optional(),
+  position: z.enum(['Operator', 'Supervisor', 'Manager', 'Quality Controller', 'Packer', 'Driver']),
+  department: z.enum(['Production', 'Quality Control', 'Packaging', 'Logistics', 'Administration']),
+  phoneNumber: z.string(),
+  address: z.string().optional(),
+  hireDate: z.string(),
+  fireDate: z.string().optional(),
+  salary: z.number().optional(),
+  hourlyRate: z.number().optional(),
+  status: personnelStatusSchema,
+  emergencyContact: z.object({
+    name: z.string(),
+    phone: z.string(),
+    relationship: z.string()
+  }).optional(),
+  notes: z.string().optional(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const personnelWriteSchema = personnelSchema.omit({ id: true, createdAt: true, updatedAt: true });
+
+// Horaires (work_schedules)
+export const workScheduleSchema = z.object({
+  id: z.string().optional(),
+  employeeId: z.string().min(1),
+  date: z.string(),
+  entryTime: z.string(),
+  exitTime: z.string(),
+  pauseDuration: z.number(),           // minutes
+  machineCollapseDuration: z.number(), // minutes
+  hoursWorked: z.number(),
+  salary: z.number(),
+  status: z.enum(['present', 'absent', 'late', 'overtime']),
+  notes: z.string().optional(),
+  checked: z.boolean(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const workScheduleWriteSchema = workScheduleSchema.omit({ id: true, createdAt: true, updatedAt: true });
+
+export type PersonnelStatus = z.infer<typeof personnelStatusSchema>;
+export type PersonnelMember = z.infer<typeof personnelSchema>;
+export type WorkSchedule = z.infer<typeof workScheduleSchema>;
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { formString } from './validation';
+
+// Suivi production (shared_lots.productionData)
+export const productionRowSchema = z.object({
+  numero: z.number(),
+  date: z.string(),
+  heure: z.string(),
+  calibre: formString,
+  poidsBrut: formString,
+  poidsNet: formString,
+  numeroLotInterne: formString,
+  variete: formString,
+  nbrCP: formString,
+  chambreFroide: formString,
+  decision: formString,
+  sscc: z.string().optional() // SSCC printed on the pallet label
+});
+
+export const productionFormSchema = z.object({
+  headerData: z.object({
+    date: z.string(),
+    produit: z.string(),
+    numeroLotClient: z.string(),
+    typeProduction: z.string()
+  }),
+  calibreData: z.record(z.number()),
+  nombrePalettes: formString,
+  productionRows: z.array(productionRowSchema),
+  visas: z.object({
+    controleurQualite: z.string(),
+    responsableQualite: z.string(),
+    directeurOperationnel: z.string()
+  })
+});
+
+export const productionLotStatusSchema = z.enum(['brouillon', 'en_cours', 'termine']);
+
+export type ProductionRow = z.infer<typeof productionRowSchema>;
+export type ProductionFormData = z.infer<typeof productionFormSchema>;
+export type ProductionLotStatus = z.infer<typeof productionLotStatusSchema>;
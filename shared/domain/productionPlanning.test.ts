@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PRODUCTION_PLANNING_SETTINGS, packingDemands, planProduction, scheduledHours } from './productionPlanning';
+import type { PackingDemand, PackingDemandInput } from './productionPlanning';
+
+// Monday; one line packing 800 boxes in its 8-hour shift with 10 operators
+const MONDAY = '2024-03-04';
+const settings = {
+  ...DEFAULT_PRODUCTION_PLANNING_SETTINGS,
+  lines: [{ id: 'ligne-1', name: 'Ligne 1', boxesPerHour: 100, operators: 10, active: true }],
+  shiftHours: 8,
+  horizonDays: 7
+};
+const plenty = new Map([['hass', 100000]]);
+
+const demand = (orderNumber: string, boxes: number, fields: Partial<PackingDemand> = {}): PackingDemand => ({
+  orderId: orderNumber.toLowerCase(),
+  orderNumber,
+  clientName: 'Client',
+  lineId: 'l1',
+  product: 'Hass Avocado',
+  variety: 'Hass',
+  calibre: '18',
+  boxes,
+  rawKg: boxes * 5,
+  requestedDeliveryDate: MONDAY,
+  priority: 'medium',
+  ...fields
+});
+
+const forecast = (plan: ReturnType<typeof planProduction>, orderNumber: string) =>
+  plan.orders.find(order => order.orderNumber === orderNumber);
+
+describe('packingDemands', () => {
+  const input = (shortfall: number, unit: PackingDemandInput['unit'], orderId = 'o1'): PackingDemandInput => ({
+    orderId,
+    orderNumber: 'CMD-1',
+    clientName: 'Client',
+    lineId: 'l1',
+    product: 'Hass Avocado',
+    variety: 'Hass',
+    calibre: '18',
+    shortfall,
+    unit,
+    requestedDeliveryDate: MONDAY,
+    priority: 'medium'
+  });
+  const packaging = (orderId: string) => (orderId === 'o2' ? { boxNetWeightKg: 10, boxesPerPallet: 100 } : undefined);
+
+  it('counts the boxes of the shortfall with the box of the client, or the default one', () => {
+    const demands = packingDemands(
+      [input(10, 'kg'), input(2, 'palettes'), input(2, 'palettes', 'o2'), input(35, 'colis'), input(0, 'colis')],
+      packaging,
+      settings
+    );
+    expect(demands.map(d => [d.boxes, d.rawKg])).toEqual([
+      [3, 14],
+      [480, 2259],
+      [200, 2353],
+      [35, 165]
+    ]);
+  });
+
+  it('reads the hours of a schedule, night shifts included', () => {
+    expect(scheduledHours('08:00', '17:00', 60)).toBe(8);
+    expect(scheduledHours('22:00', '06:00')).toBe(8);
+    expect(scheduledHours('08:00', '08:30', 60)).toBe(0);
+  });
+});
+
+describe('planProduction', () => {
+  it('is on time when the last box is packed by the delivery date', () => {
+    const plan = planProduction([demand('CMD-1', 800)], settings, new Map(), plenty, MONDAY);
+    expect(forecast(plan, 'CMD-1')).toMatchObject({ plannedBoxes: 800, finishDate: MONDAY, late: false });
+    expect(forecast(plan, 'CMD-1')?.delayReason).toBeUndefined();
+    expect(plan.days[0].lines[0].slots).toEqual([
+      { orderId: 'cmd-1', orderNumber: 'CMD-1', lineId: 'l1', product: 'Hass Avocado', calibre: '18', boxes: 800, startHour: 0, hours: 8 }
+    ]);
+  });
+
+  it('predicts late the order packed after its delivery date, priority deciding at equal date', () => {
+    const plan = planProduction(
+      [demand('CMD-2', 400, { priority: 'low' }), demand('CMD-1', 600, { priority: 'high' })],
+      settings,
+      new Map(),
+      plenty,
+      MONDAY
+    );
+    expect(forecast(plan, 'CMD-1')).toMatchObject({ finishDate: MONDAY, late: false });
+    expect(forecast(plan, 'CMD-2')).toMatchObject({
+      plannedBoxes: 400,
+      finishDate: '2024-03-05',
+      late: true,
+      delayReason: 'Capacité de conditionnement : fin prévue le 05/03, livraison demandée le 04/03'
+    });
+  });
+
+  it('runs the lines only for the staff hours scheduled', () => {
+    const plan = planProduction(
+      [demand('CMD-1', 800, { requestedDeliveryDate: '2024-03-05' })],
+      settings,
+      new Map([[MONDAY, 40]]),
+      plenty,
+      MONDAY
+    );
+    expect(plan.days[0]).toMatchObject({ staffHours: 40, lines: [{ hours: 4, capacityBoxes: 400 }] });
+    expect(plan.days[1].staffHours).toBeNull();
+    expect(forecast(plan, 'CMD-1')).toMatchObject({ finishDate: '2024-03-05', late: false });
+  });
+
+  it('predicts late the order left without raw fruit', () => {
+    const plan = planProduction(
+      [demand('CMD-1', 100), demand('CMD-2', 200, { requestedDeliveryDate: '2024-03-08' })],
+      settings,
+      new Map(),
+      new Map([['hass', 1000]]),
+      MONDAY
+    );
+    expect(forecast(plan, 'CMD-1')).toMatchObject({ plannedBoxes: 100, late: false });
+    expect(forecast(plan, 'CMD-2')).toMatchObject({
+      boxes: 200,
+      plannedBoxes: 100,
+      late: true,
+      delayReason: 'Matière première insuffisante (Hass)'
+    });
+    expect(plan.rawShortfalls).toEqual([{ variety: 'Hass', neededKg: 1500, availableKg: 1000 }]);
+  });
+
+  it('predicts late the boxes that do not fit in the horizon', () => {
+    const plan = planProduction(
+      [demand('CMD-1', 2000, { requestedDeliveryDate: '2024-03-20' })],
+      { ...settings, horizonDays: 2 },
+      new Map(),
+      plenty,
+      MONDAY
+    );
+    expect(forecast(plan, 'CMD-1')).toMatchObject({
+      plannedBoxes: 1600,
+      finishDate: '2024-03-05',
+      late: true,
+      delayReason: 'Capacité de conditionnement : 400 colis hors des 2 jours planifiés'
+    });
+  });
+
+  it('skips Sundays unless the packhouse works on Sunday', () => {
+    const sunday = '2024-03-10';
+    expect(planProduction([], settings, new Map(), plenty, sunday).days[0].date).toBe('2024-03-11');
+    expect(planProduction([], { ...settings, workOnSunday: true }, new Map(), plenty, sunday).days[0].date).toBe(sunday);
+  });
+});
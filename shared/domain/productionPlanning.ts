@@ -0,0 +1,310 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+import type { ClientOrder } from './orders';
+import type { AllocationUnit } from './allocation';
+
+// Production planning (planification du conditionnement).
+// What the pallets in stock cannot serve (allocation shortfall) has to be packed. Demands
+// are packed earliest delivery first on the packing lines, within the hours the staff
+// scheduled in work_schedules can run them and the raw fruit received and not packed yet.
+// An order whose last box is packed after its requested delivery date is predicted late.
+
+export const packingLineSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  boxesPerHour: z.number().positive(),
+  operators: z.number().int().positive(),   // Staff needed to run the line
+  active: z.boolean().default(true)
+});
+
+// One settings document (production_planning_settings/default)
+export const productionPlanningSettingsSchema = z.object({
+  lines: z.array(packingLineSchema),
+  shiftHours: z.number().positive().max(24),
+  horizonDays: z.number().int().min(1).max(60),
+  packingYieldPct: z.number().positive().max(100),   // Packed kg per 100 kg of raw fruit
+  defaultBoxNetKg: z.number().positive(),            // When the client has no packaging
+  defaultBoxesPerPallet: z.number().int().positive(),
+  workOnSunday: z.boolean().default(false),
+  updatedAt: isoDateSchema
+});
+
+export const productionPlanningSettingsWriteSchema = productionPlanningSettingsSchema.omit({ updatedAt: true });
+
+export type PackingLine = z.infer<typeof packingLineSchema>;
+export type ProductionPlanningSettings = z.infer<typeof productionPlanningSettingsSchema>;
+
+export const DEFAULT_PRODUCTION_PLANNING_SETTINGS: ProductionPlanningSettings = {
+  lines: [{ id: 'ligne-1', name: 'Ligne 1', boxesPerHour: 600, operators: 12, active: true }],
+  shiftHours: 8,
+  horizonDays: 14,
+  packingYieldPct: 85,
+  defaultBoxNetKg: 4,
+  defaultBoxesPerPallet: 240,
+  workOnSunday: false
+};
+
+// Boxes still to pack for an order line
+export interface PackingDemand {
+  orderId: string;
+  orderNumber: string;
+  clientName: string;
+  lineId: string;
+  product: string;
+  variety: string;                  // '' : any variety
+  calibre: string;
+  boxes: number;
+  rawKg: number;                    // Raw fruit the boxes consume
+  requestedDeliveryDate: string;
+  priority: ClientOrder['priority'];
+}
+
+export interface PackingDemandInput {
+  orderId: string;
+  orderNumber: string;
+  clientName: string;
+  lineId: string;
+  product: string;
+  variety: string;
+  calibre: string;
+  shortfall: number;                // In the order unit, after allocation of the stock
+  unit: AllocationUnit;
+  requestedDeliveryDate: string;
+  priority: ClientOrder['priority'];
+}
+
+/**
+ * Boxes to pack for the part of each line the stock does not cover, with the client's box
+ * (net weight, boxes per pallet) or the default one.
+ */
+export const packingDemands = (
+  lines: PackingDemandInput[],
+  packaging: (orderId: string) => { boxNetWeightKg?: number; boxesPerPallet?: number } | undefined,
+  settings: Pick<ProductionPlanningSettings, 'packingYieldPct' | 'defaultBoxNetKg' | 'defaultBoxesPerPallet'>
+): PackingDemand[] =>
+  lines
+    .filter(line => line.shortfall > 0)
+    .map(line => {
+      const box = packaging(line.orderId);
+      const boxKg = box?.boxNetWeightKg || settings.defaultBoxNetKg;
+      const boxes = Math.ceil(
+        line.unit === 'kg' ? line.shortfall / boxKg
+          : line.unit === 'palettes' ? line.shortfall * (box?.boxesPerPallet || settings.defaultBoxesPerPallet)
+            : line.shortfall
+      );
+      return {
+        orderId: line.orderId,
+        orderNumber: line.orderNumber,
+        clientName: line.clientName,
+        lineId: line.lineId,
+        product: line.product,
+        variety: line.variety,
+        calibre: line.calibre,
+        boxes,
+        rawKg: Math.round((boxes * boxKg * 100) / settings.packingYieldPct),
+        requestedDeliveryDate: line.requestedDeliveryDate,
+        priority: line.priority
+      };
+    });
+
+// Hours between two 'HH:mm' times, less the pause in minutes (night shifts wrap)
+export const scheduledHours = (entryTime: string, exitTime: string, pauseMinutes = 0): number => {
+  const minutes = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    return (h || 0) * 60 + (m || 0);
+  };
+  let span = minutes(exitTime) - minutes(entryTime);
+  if (span < 0) span += 24 * 60;
+  return Math.max(0, (span - pauseMinutes) / 60);
+};
+
+export interface PlanSlot {
+  orderId: string;
+  orderNumber: string;
+  lineId: string;                   // Order line
+  product: string;
+  calibre: string;
+  boxes: number;
+  startHour: number;                // Hours since the start of the shift
+  hours: number;
+}
+
+export interface PlanLineDay {
+  packingLineId: string;
+  packingLineName: string;
+  hours: number;                    // Hours the line can run that day
+  capacityBoxes: number;
+  slots: PlanSlot[];
+}
+
+export interface PlanDay {
+  date: string;                     // YYYY-MM-DD
+  staffHours: number | null;        // null: no schedule entered, lines assumed fully staffed
+  lines: PlanLineDay[];
+}
+
+export interface OrderForecast {
+  orderId: string;
+  orderNumber: string;
+  clientName: string;
+  requestedDeliveryDate: string;
+  boxes: number;
+  plannedBoxes: number;
+  finishDate: string | null;        // Day of the last box packed
+  late: boolean;
+  delayReason?: string;
+}
+
+export interface RawMaterialShortfall {
+  variety: string;
+  neededKg: number;
+  availableKg: number;
+}
+
+export interface ProductionPlan {
+  days: PlanDay[];
+  orders: OrderForecast[];
+  rawShortfalls: RawMaterialShortfall[];
+}
+
+const PRIORITY_RANK: Record<ClientOrder['priority'], number> = { high: 0, medium: 1, low: 2 };
+
+const varietyKey = (variety: string) => variety.trim().toLowerCase();
+
+const dayOf = (iso: string) => iso.slice(0, 10);
+
+const addDays = (date: string, days: number): string => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+const frenchDay = (date: string) => date.split('-').reverse().slice(0, 2).join('/');
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Day-by-day packing plan over the horizon. Staff hours of a day go to the fastest lines
+ * first; each line packs the demands in delivery order, a demand flowing over to the next
+ * line or day when the line is full. Raw fruit is given out in the same order, so a late
+ * demand is the one left without fruit.
+ */
+export const planProduction = (
+  demands: PackingDemand[],
+  settings: Omit<ProductionPlanningSettings, 'updatedAt'>,
+  staffHoursByDay: Map<string, number>,
+  rawStockKg: Map<string, number>,            // By variety key (lowercase)
+  today: string
+): ProductionPlan => {
+  const sorted = [...demands].sort((a, b) =>
+    a.requestedDeliveryDate.localeCompare(b.requestedDeliveryDate)
+    || PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+    || a.orderNumber.localeCompare(b.orderNumber));
+
+  // Raw fruit: a demand without variety takes from the largest stock
+  const stock = new Map(rawStockKg);
+  const needed = new Map<string, { variety: string; kg: number }>();
+  const packable = sorted.map(demand => {
+    const key = demand.variety
+      ? varietyKey(demand.variety)
+      : Array.from(stock.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || '';
+    const entry = needed.get(key) || { variety: demand.variety || key, kg: 0 };
+    entry.kg += demand.rawKg;
+    needed.set(key, entry);
+    const available = stock.get(key) || 0;
+    const taken = Math.min(available, demand.rawKg);
+    stock.set(key, available - taken);
+    const boxes = demand.rawKg > 0 ? Math.floor((demand.boxes * taken) / demand.rawKg) : demand.boxes;
+    return { demand, boxes, remaining: boxes, rawShort: boxes < demand.boxes };
+  });
+
+  const activeLines = settings.lines.filter(line => line.active).sort((a, b) => b.boxesPerHour - a.boxesPerHour);
+  const finishes = new Map<string, string>();
+  const days: PlanDay[] = [];
+  let cursor = 0;
+
+  for (let offset = 0; offset < settings.horizonDays; offset++) {
+    const date = addDays(today, offset);
+    if (!settings.workOnSunday && new Date(`${date}T00:00:00Z`).getUTCDay() === 0) continue;
+
+    const staffHours = staffHoursByDay.has(date) ? (staffHoursByDay.get(date) as number) : null;
+    let staffLeft = staffHours ?? Infinity;
+    const lines: PlanLineDay[] = activeLines.map(line => {
+      const hours = Math.max(0, Math.min(settings.shiftHours, staffLeft / line.operators));
+      staffLeft -= hours * line.operators;
+      let capacity = Math.floor(hours * line.boxesPerHour);
+      const slots: PlanSlot[] = [];
+      let startHour = 0;
+      while (capacity > 0 && cursor < packable.length) {
+        const item = packable[cursor];
+        if (item.remaining <= 0) {
+          cursor++;
+          continue;
+        }
+        const boxes = Math.min(capacity, item.remaining);
+        const slotHours = boxes / line.boxesPerHour;
+        slots.push({
+          orderId: item.demand.orderId,
+          orderNumber: item.demand.orderNumber,
+          lineId: item.demand.lineId,
+          product: item.demand.product,
+          calibre: item.demand.calibre,
+          boxes,
+          startHour: round(startHour),
+          hours: round(slotHours)
+        });
+        startHour += slotHours;
+        capacity -= boxes;
+        item.remaining -= boxes;
+        finishes.set(item.demand.orderId, date);
+      }
+      return {
+        packingLineId: line.id,
+        packingLineName: line.name,
+        hours: round(hours),
+        capacityBoxes: Math.floor(hours * line.boxesPerHour),
+        slots
+      };
+    });
+    days.push({ date, staffHours, lines });
+  }
+
+  const byOrder = new Map<string, typeof packable>();
+  packable.forEach(item => byOrder.set(item.demand.orderId, [...(byOrder.get(item.demand.orderId) || []), item]));
+
+  const orders: OrderForecast[] = Array.from(byOrder.values()).map(items => {
+    const first = items[0].demand;
+    const boxes = items.reduce((sum, item) => sum + item.demand.boxes, 0);
+    const plannedBoxes = items.reduce((sum, item) => sum + item.boxes - item.remaining, 0);
+    const finishDate = finishes.get(first.orderId) || null;
+    const due = dayOf(first.requestedDeliveryDate);
+
+    const reasons: string[] = [];
+    const shortVarieties = Array.from(new Set(items.filter(item => item.rawShort).map(item => item.demand.variety || 'toutes variétés')));
+    if (shortVarieties.length > 0) reasons.push(`Matière première insuffisante (${shortVarieties.join(', ')})`);
+    const unplanned = items.reduce((sum, item) => sum + item.remaining, 0);
+    if (unplanned > 0) {
+      reasons.push(`Capacité de conditionnement : ${unplanned} colis hors des ${settings.horizonDays} jours planifiés`);
+    } else if (finishDate && finishDate > due) {
+      reasons.push(`Capacité de conditionnement : fin prévue le ${frenchDay(finishDate)}, livraison demandée le ${frenchDay(due)}`);
+    }
+
+    return {
+      orderId: first.orderId,
+      orderNumber: first.orderNumber,
+      clientName: first.clientName,
+      requestedDeliveryDate: first.requestedDeliveryDate,
+      boxes,
+      plannedBoxes,
+      finishDate,
+      late: reasons.length > 0,
+      ...(reasons.length > 0 ? { delayReason: reasons.join(' ; ') } : {})
+    };
+  });
+
+  const rawShortfalls = Array.from(needed.entries())
+    .map(([key, { variety, kg }]) => ({ variety, neededKg: Math.round(kg), availableKg: Math.round(rawStockKg.get(key) || 0) }))
+    .filter(row => row.neededKg > row.availableKg);
+
+  return { days, orders, rawShortfalls };
+};
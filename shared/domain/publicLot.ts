@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { isoDateSchema, toIsoString } from './validation';
+import { toIsoDay } from './supplierScorecard';
+import type { DigitalLinkLanguage } from './digitalLink';
+
+// Public lot view.
+// What a consumer sees after scanning a box: built on the server from the lot
+// (avocado-tracking) and its publication settings (lot_publications, same document id
+// as the lot). Only the fields listed here leave the server; drivers, vehicles, workers,
+// clients and storage rooms stay internal.
+
+export const PUBLIC_LOT_FIELDS = ['farm', 'harvestDate', 'variety', 'qualityGrade', 'certifications', 'journey', 'story'] as const;
+export type PublicLotField = typeof PUBLIC_LOT_FIELDS[number];
+
+export const PUBLIC_LOT_FIELD_LABELS: Record<PublicLotField, string> = {
+  farm: 'Ferme d\'origine',
+  harvestDate: 'Date de récolte',
+  variety: 'Variété',
+  qualityGrade: 'Grade qualité',
+  certifications: 'Certifications',
+  journey: 'Étapes (dates uniquement)',
+  story: 'Histoire du lot'
+};
+
+const localizedTextSchema = z.object({
+  fr: z.string().optional(),
+  ar: z.string().optional(),
+  en: z.string().optional()
+});
+
+export const lotPublicationSchema = z.object({
+  lotNumber: z.string().min(1),
+  published: z.boolean(),
+  fields: z.record(z.enum(PUBLIC_LOT_FIELDS), z.boolean()),
+  certifications: z.array(z.string()).default([]),   // e.g. GLOBALG.A.P., Bio
+  story: localizedTextSchema.default({}),             // Replaces the packhouse story of translations.ts
+  updatedAt: isoDateSchema
+});
+
+export const lotPublicationWriteSchema = lotPublicationSchema.omit({ updatedAt: true });
+
+export type LotPublication = z.infer<typeof lotPublicationSchema>;
+export type LotPublicationWrite = z.infer<typeof lotPublicationWriteSchema>;
+
+// Settings proposed for a lot that has none: nothing is public until the packhouse
+// publishes the lot (the server answers 404 for lots without settings)
+export const defaultLotPublication = (lotNumber: string): LotPublicationWrite => ({
+  lotNumber,
+  published: false,
+  fields: { farm: true, harvestDate: true, variety: true, qualityGrade: true, certifications: true, journey: true, story: true },
+  certifications: [],
+  story: {}
+});
+
+export const PUBLIC_JOURNEY_STEPS = ['harvest', 'reception', 'sorting', 'packaging', 'storage', 'export', 'delivery'] as const;
+export type PublicJourneyStep = typeof PUBLIC_JOURNEY_STEPS[number];
+
+export interface PublicLotView {
+  lotNumber: string;
+  language: DigitalLinkLanguage;
+  farm?: string;
+  harvestDate?: string;           // yyyy-MM-dd
+  variety?: string;
+  qualityGrade?: string;
+  certifications?: string[];
+  journey?: Array<{ step: PublicJourneyStep; date: string }>;
+  story?: string;                 // Lot story in the language, when the packhouse wrote one
+}
+
+// Steps of the tracking form the view reads from, each kept as stored; a step of another type is left out
+const trackingStep = z.record(z.unknown()).optional().catch(undefined);
+const publicTrackingSchema = z.object({
+  harvest: trackingStep,
+  transport: trackingStep,
+  sorting: trackingStep,
+  packaging: trackingStep,
+  storage: trackingStep,
+  export: trackingStep,
+  delivery: trackingStep
+});
+
+/**
+ * Consumer projection of an avocado-tracking document. Built field by field from an
+ * allow-list: a new internal field added to the lot can never be published by accident.
+ */
+export const projectPublicLot = (
+  document: unknown,
+  publication: LotPublicationWrite,
+  language: DigitalLinkLanguage
+): PublicLotView => {
+  const tracking = publicTrackingSchema.parse(document);
+  const show = (field: PublicLotField) => publication.fields[field] !== false;
+  // Dates are strings, or Timestamps when read with the Admin SDK
+  const day = (value: unknown): string | undefined => {
+    const iso = toIsoString(value);
+    return toIsoDay(typeof iso === 'string' ? iso : undefined) || undefined;
+  };
+
+  const view: PublicLotView = { lotNumber: String(tracking.harvest?.lotNumber || publication.lotNumber), language };
+  if (show('farm') && tracking.harvest?.farmLocation) view.farm = String(tracking.harvest.farmLocation);
+  if (show('harvestDate')) view.harvestDate = day(tracking.harvest?.harvestDate);
+  if (show('variety') && tracking.harvest?.variety) view.variety = String(tracking.harvest.variety);
+  if (show('qualityGrade') && tracking.sorting?.qualityGrade) view.qualityGrade = String(tracking.sorting.qualityGrade);
+  if (show('certifications') && publication.certifications.length > 0) view.certifications = publication.certifications;
+  if (show('journey')) {
+    const dates: Record<PublicJourneyStep, unknown> = {
+      harvest: tracking.harvest?.harvestDate,
+      reception: tracking.transport?.arrivalDateTime,
+      sorting: tracking.sorting?.sortingDate,
+      packaging: tracking.packaging?.packagingDate,
+      storage: tracking.storage?.entryDate,
+      export: tracking.export?.loadingDate,
+      delivery: tracking.delivery?.actualDeliveryDate
+    };
+    view.journey = PUBLIC_JOURNEY_STEPS
+      .map(step => ({ step, date: day(dates[step]) }))
+      .filter((entry): entry is { step: PublicJourneyStep; date: string } => !!entry.date);
+  }
+  if (show('story')) {
+    const story = publication.story[language] || publication.story.fr;
+    if (story?.trim()) view.story = story.trim();
+  }
+  return view;
+};
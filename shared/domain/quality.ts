@@ -0,0 +1,189 @@
+import { z } from 'zod';
+import { formString, isoDateSchema } from './validation';
+import { signedRecordSchema } from './signatures';
+
+// One controlled palette of a quality control lot (quality_control_lots.formData.palettes[])
+export const qualityPaletteSchema = z.object({
+  firmness: formString,
+  rotting: formString,
+  foreignMatter: formString,
+  withered: formString,
+  hardenedEndoderm: formString,
+  parasitePresence: formString,
+  parasiteAttack: formString,
+  temperature: formString,
+  odorOrTaste: formString,
+  packageWeight: formString,
+  shapeDefect: formString,
+  colorDefect: formString,
+  epidermisDefect: formString,
+  homogeneity: formString,
+  missingBrokenGrains: formString,
+  size: formString,
+  packageCount: formString,
+  packagingState: formString,
+  labelingPresence: formString,
+  corners: formString,
+  horizontalStraps: formString,
+  paletteSheet: formString,
+  woodenPaletteState: formString,
+  grossWeight: formString,
+  netWeight: formString,
+  internalLotNumber: formString,
+  paletteConformity: formString,
+  requiredNetWeight: formString,
+  // Optional metadata added at save time
+  paletteIndex: z.number().optional(),
+  timestamp: z.string().optional()
+}).catchall(z.union([z.string(), z.number(), z.boolean(), z.undefined()]));
+
+export const qualityToleranceSchema = z.object({
+  minCharacteristic: z.string().optional(),
+  category1Defects: z.string().optional(),
+  category2Defects: z.string().optional(),
+  category3Defects: z.string().optional(),
+  category4Defects: z.string().optional(),
+  minCharacteristicConform: z.boolean().optional(),
+  category1DefectsConform: z.boolean().optional(),
+  category2DefectsConform: z.boolean().optional(),
+  category3DefectsConform: z.boolean().optional()
+});
+
+// Conformity thresholds applied to the averaged palette measurements (percentages)
+export const toleranceThresholdsSchema = z.object({
+  maxMinCharacteristics: z.number().min(0),
+  maxTotalDefects: z.number().min(0),
+  maxMissingBrokenGrains: z.number().min(0),
+  minWeightConformity: z.number()
+});
+
+export const qualityCategorySchema = z.enum(['Extra', 'I', 'II']);
+
+// Tolerance profile (quality_tolerance_profiles): a standard preset or a client-specific override
+export const toleranceProfileSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  category: qualityCategorySchema,
+  variety: z.string().optional(),
+  clientName: z.string().optional(),
+  thresholds: toleranceThresholdsSchema,
+  preset: z.boolean().optional(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const toleranceProfileWriteSchema = toleranceProfileSchema.omit({ id: true, preset: true, createdAt: true, updatedAt: true });
+
+// Copy of the profile used to judge a lot, kept on the lot so later edits of the profile do not change past verdicts
+export const toleranceProfileSnapshotSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  thresholds: toleranceThresholdsSchema
+});
+
+export const qualityFormSchema = z.object({
+  date: z.string(),
+  product: z.string(),
+  variety: z.string(),
+  campaign: z.string(),
+  clientLot: z.string(),
+  clientName: z.string().optional(), // Client whose specification applies
+  shipmentNumber: z.string(),
+  packagingType: z.string(),
+  category: z.string(),
+  exporterNumber: z.string(),
+  frequency: z.string(),
+  palettes: z.array(qualityPaletteSchema),
+  tolerance: qualityToleranceSchema.optional(),
+  toleranceProfile: toleranceProfileSnapshotSchema.optional()
+});
+
+// quality_control_lots.formData: the form plus what is computed at submission
+export const qualityControlFormSchema = qualityFormSchema.extend({
+  calculatedResults: z.object({
+    minCharacteristics: z.number(),
+    totalDefects: z.number(),
+    missingBrokenGrains: z.number(),
+    weightConformity: z.number(),
+    isConform: z.boolean()
+  }).optional(),
+  averages: z.record(z.string()).optional(),
+  submissionMetadata: z.object({
+    submittedBy: z.string().optional(),
+    submittedAt: z.string(),
+    paletteCount: z.number().optional(),
+    activeTab: z.number().optional(),
+    browserInfo: z.string().optional(),
+    version: z.string()
+  }).optional()
+});
+
+// Quality control lot (quality_control_lots): the controller's form, then the chief's decision
+export const qualityControlLotSchema = z.object({
+  id: z.string(),
+  lotNumber: z.string(),
+  formData: qualityControlFormSchema,
+  images: z.array(z.string()).default([]),
+  status: z.enum(['draft', 'completed', 'submitted', 'chief_approved', 'chief_rejected', 'error']),
+  phase: z.enum(['controller', 'chief']),
+  controller: z.string().optional(),
+  chief: z.string().optional(),
+  chiefComments: z.string().optional(),
+  chiefApprovalDate: z.string().optional(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+}).merge(signedRecordSchema);
+
+// Header written on quality cards of shared_lots (qualityData)
+export const qualitySharedDataSchema = z.object({
+  headerData: z.object({
+    date: z.string().optional(),
+    produit: z.string().optional(),
+    numeroLotClient: z.string().optional()
+  }).optional(),
+  qcFormData: qualityFormSchema.optional(),
+  lastSavedAt: z.string().optional()
+});
+
+// Palette as created by the control form before any measurement
+export const emptyQualityPalette = (): QualityPalette => ({
+  firmness: '0',
+  rotting: '0',
+  foreignMatter: '0',
+  withered: 'C',
+  hardenedEndoderm: '0',
+  parasitePresence: '0',
+  parasiteAttack: '0',
+  temperature: 'C',
+  odorOrTaste: 'C',
+  packageWeight: '0',
+  shapeDefect: '0',
+  colorDefect: '0',
+  epidermisDefect: '0',
+  homogeneity: 'C',
+  missingBrokenGrains: '0',
+  size: '0',
+  packageCount: '',
+  packagingState: 'C',
+  labelingPresence: 'C',
+  corners: 'C',
+  horizontalStraps: 'C',
+  paletteSheet: 'C',
+  woodenPaletteState: 'C',
+  grossWeight: '',
+  netWeight: '',
+  internalLotNumber: '',
+  paletteConformity: 'C',
+  requiredNetWeight: ''
+});
+
+export type QualityPalette = z.infer<typeof qualityPaletteSchema>;
+export type QualityTolerance = z.infer<typeof qualityToleranceSchema>;
+export type ToleranceThresholds = z.infer<typeof toleranceThresholdsSchema>;
+export type QualityCategory = z.infer<typeof qualityCategorySchema>;
+export type ToleranceProfile = z.infer<typeof toleranceProfileSchema>;
+export type ToleranceProfileSnapshot = z.infer<typeof toleranceProfileSnapshotSchema>;
+export type QualityFormData = z.infer<typeof qualityFormSchema>;
+export type QualityControlFormData = z.infer<typeof qualityControlFormSchema>;
+export type QualityControlLotRecord = z.infer<typeof qualityControlLotSchema>;
+export type QualitySharedData = z.infer<typeof qualitySharedDataSchema>;
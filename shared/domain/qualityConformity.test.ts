@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest';
+import { emptyQualityPalette } from './quality';
+import type { QualityPalette, ToleranceThresholds } from './quality';
+import {
+  evaluateLot,
+  evaluatePalette,
+  evaluateQualityForm,
+  readMeasurement,
+  thresholdsForForm,
+  toQualityCategory,
+  TOLERANCE_PRESETS
+} from './qualityConformity';
+
+// A palette of the form with the given readings; packages weigh their required net weight + 5%
+const palette = (readings: Partial<QualityPalette> = {}): QualityPalette => ({
+  ...emptyQualityPalette(),
+  packageWeight: '10.5',
+  requiredNetWeight: '10',
+  ...readings
+});
+
+const preset = (category: 'Extra' | 'I' | 'II'): ToleranceThresholds =>
+  TOLERANCE_PRESETS.find(p => p.category === category)!.thresholds;
+
+describe('readMeasurement', () => {
+  it('reads missing and blank cells as empty', () => {
+    expect(readMeasurement(undefined)).toEqual({ kind: 'empty' });
+    expect(readMeasurement(null)).toEqual({ kind: 'empty' });
+    expect(readMeasurement('')).toEqual({ kind: 'empty' });
+    expect(readMeasurement('   ')).toEqual({ kind: 'empty' });
+  });
+
+  it('reads C and NC as verdicts, whatever the case and spacing', () => {
+    expect(readMeasurement('C')).toEqual({ kind: 'conform' });
+    expect(readMeasurement(' c ')).toEqual({ kind: 'conform' });
+    expect(readMeasurement('NC')).toEqual({ kind: 'nonConform' });
+    expect(readMeasurement('nc')).toEqual({ kind: 'nonConform' });
+  });
+
+  it('reads numbers, with a decimal comma or point', () => {
+    expect(readMeasurement(3)).toEqual({ kind: 'number', value: 3 });
+    expect(readMeasurement('2,5')).toEqual({ kind: 'number', value: 2.5 });
+    expect(readMeasurement('0.75')).toEqual({ kind: 'number', value: 0.75 });
+    expect(readMeasurement('0')).toEqual({ kind: 'number', value: 0 });
+  });
+
+  it('reads what is not a number as empty', () => {
+    expect(readMeasurement(Number.NaN)).toEqual({ kind: 'empty' });
+    expect(readMeasurement(Number.POSITIVE_INFINITY)).toEqual({ kind: 'empty' });
+    expect(readMeasurement('abc')).toEqual({ kind: 'empty' });
+  });
+});
+
+describe('evaluatePalette', () => {
+  it('sums the minimal characteristics and adds the category defects to the total', () => {
+    const result = evaluatePalette(palette({
+      rotting: '1',
+      foreignMatter: '0,5',
+      hardenedEndoderm: '1.5',
+      parasitePresence: '1',
+      parasiteAttack: '0',
+      shapeDefect: '2',
+      colorDefect: '1',
+      epidermisDefect: '0.5',
+      missingBrokenGrains: '3'
+    }), 0);
+
+    expect(result.minCharacteristics).toBe(4);
+    expect(result.categoryDefects).toBe(3.5);
+    expect(result.totalDefects).toBe(7.5);
+    expect(result.missingBrokenGrains).toBe(3);
+    expect(result.weightConformity).toBeCloseTo(5);
+  });
+
+  it('counts a conform categorical reading as 0 and reports a non-conform one', () => {
+    const conform = evaluatePalette(palette({ withered: 'C' }), 0);
+    expect(conform.minCharacteristics).toBe(0);
+    expect(conform.nonConformFields).toEqual([]);
+
+    const nonConform = evaluatePalette(palette({ withered: 'NC', corners: 'nc' }), 2);
+    expect(nonConform.index).toBe(2);
+    expect(nonConform.minCharacteristics).toBe(0);
+    expect(nonConform.nonConformFields).toEqual(['withered', 'corners']);
+  });
+
+  it('weighs a palette by its package count, 1 when not recorded', () => {
+    expect(evaluatePalette(palette({ packageCount: '48' }), 0).packageCount).toBe(48);
+    expect(evaluatePalette(palette({ packageCount: '' }), 0).packageCount).toBe(1);
+    expect(evaluatePalette(palette({ packageCount: '0' }), 0).packageCount).toBe(1);
+  });
+
+  it('has no weight conformity without both weights', () => {
+    expect(evaluatePalette(palette({ packageWeight: '' }), 0).weightConformity).toBeNull();
+    expect(evaluatePalette(palette({ requiredNetWeight: '0' }), 0).weightConformity).toBeNull();
+  });
+});
+
+describe('evaluateLot', () => {
+  it('weights the averages by package count', () => {
+    const result = evaluateLot([
+      palette({ rotting: '2', packageCount: '3' }),
+      palette({ rotting: '6', packageCount: '1' })
+    ], preset('I'));
+
+    // (2 x 3 + 6 x 1) / 4, not the plain mean of 4
+    expect(result.minCharacteristics).toBe(3);
+    expect(result.totalDefects).toBe(3);
+  });
+
+  it('treats palettes without package count as one package each', () => {
+    const result = evaluateLot([
+      palette({ rotting: '2' }),
+      palette({ rotting: '6' })
+    ], preset('I'));
+
+    expect(result.minCharacteristics).toBe(4);
+  });
+
+  it('leaves palettes without weighing out of the weight conformity', () => {
+    const result = evaluateLot([
+      palette({ packageCount: '10' }),
+      palette({ packageWeight: '', packageCount: '90' })
+    ], preset('I'));
+
+    expect(result.weightConformity).toBeCloseTo(5);
+    expect(result.checks.weightConformity).toBe(true);
+  });
+
+  it('rejects a lot with a non-conform categorical reading, whatever its averages', () => {
+    const result = evaluateLot([palette(), palette({ labelingPresence: 'NC' })], preset('II'));
+
+    expect(result.checks.categorical).toBe(false);
+    expect(result.nonConformPalettes).toEqual([1]);
+    expect(result.isConform).toBe(false);
+  });
+
+  it('accepts a lot whose categorical readings are all C', () => {
+    const result = evaluateLot([palette(), palette()], preset('I'));
+
+    expect(result.checks.categorical).toBe(true);
+    expect(result.isConform).toBe(true);
+  });
+
+  it('is not conform without palettes or without weighings', () => {
+    expect(evaluateLot([], preset('I')).isConform).toBe(false);
+
+    const unweighed = evaluateLot([palette({ packageWeight: '', requiredNetWeight: '' })], preset('I'));
+    expect(unweighed.weightConformity).toBeNull();
+    expect(unweighed.isConform).toBe(false);
+  });
+
+  it('needs the weight conformity to reach the threshold', () => {
+    expect(evaluateLot([palette({ packageWeight: '101', requiredNetWeight: '100' })], preset('I')).checks.weightConformity).toBe(true);
+    expect(evaluateLot([palette({ packageWeight: '100.5', requiredNetWeight: '100' })], preset('I')).checks.weightConformity).toBe(false);
+  });
+});
+
+describe('category thresholds', () => {
+  const lot = (readings: Partial<QualityPalette>, category: 'Extra' | 'I' | 'II') =>
+    evaluateLot([palette(readings)], preset(category));
+
+  it('Extra: 5% of minimal characteristics and of total defects', () => {
+    expect(lot({ rotting: '5' }, 'Extra').checks.minCharacteristics).toBe(true);
+    expect(lot({ rotting: '5.01' }, 'Extra').checks.minCharacteristics).toBe(false);
+
+    expect(lot({ rotting: '3', shapeDefect: '2' }, 'Extra').checks.totalDefects).toBe(true);
+    expect(lot({ rotting: '3', shapeDefect: '2.01' }, 'Extra').checks.totalDefects).toBe(false);
+
+    expect(lot({ missingBrokenGrains: '5' }, 'Extra').checks.missingBrokenGrains).toBe(true);
+    expect(lot({ missingBrokenGrains: '5.01' }, 'Extra').checks.missingBrokenGrains).toBe(false);
+  });
+
+  it('Catégorie I: 10% of minimal characteristics and of total defects', () => {
+    expect(lot({ rotting: '10' }, 'I').isConform).toBe(true);
+    expect(lot({ rotting: '10.01' }, 'I').checks.minCharacteristics).toBe(false);
+
+    expect(lot({ rotting: '4', colorDefect: '6' }, 'I').checks.totalDefects).toBe(true);
+    expect(lot({ rotting: '4', colorDefect: '6.01' }, 'I').checks.totalDefects).toBe(false);
+
+    expect(lot({ missingBrokenGrains: '10' }, 'I').checks.missingBrokenGrains).toBe(true);
+    expect(lot({ missingBrokenGrains: '10.01' }, 'I').checks.missingBrokenGrains).toBe(false);
+  });
+
+  it('Catégorie II: 10% of minimal characteristics and 15% of total defects', () => {
+    expect(lot({ rotting: '10' }, 'II').checks.minCharacteristics).toBe(true);
+    expect(lot({ rotting: '10.01' }, 'II').checks.minCharacteristics).toBe(false);
+
+    expect(lot({ rotting: '10', epidermisDefect: '5' }, 'II').isConform).toBe(true);
+    expect(lot({ rotting: '10', epidermisDefect: '5.01' }, 'II').checks.totalDefects).toBe(false);
+    // Over the Catégorie I limit, still within Catégorie II
+    expect(lot({ rotting: '8', shapeDefect: '4' }, 'I').checks.totalDefects).toBe(false);
+    expect(lot({ rotting: '8', shapeDefect: '4' }, 'II').checks.totalDefects).toBe(true);
+  });
+});
+
+describe('thresholds of a saved form', () => {
+  it('reads the free-text category of the form', () => {
+    expect(toQualityCategory('extra')).toBe('Extra');
+    expect(toQualityCategory('Cat I')).toBe('I');
+    expect(toQualityCategory('Catégorie II')).toBe('II');
+    expect(toQualityCategory('2')).toBe('II');
+    expect(toQualityCategory(undefined)).toBe('I');
+  });
+
+  it('uses the profile the form was judged with, else the preset of its category', () => {
+    const toleranceProfile = {
+      id: 'client-x',
+      name: 'Client X',
+      thresholds: { maxMinCharacteristics: 2, maxTotalDefects: 4, maxMissingBrokenGrains: 3, minWeightConformity: 0 }
+    };
+    expect(thresholdsForForm({ category: 'II', toleranceProfile })).toEqual(toleranceProfile.thresholds);
+    expect(thresholdsForForm({ category: 'Catégorie II' })).toEqual(preset('II'));
+
+    const form = { category: 'I', toleranceProfile, palettes: [palette({ rotting: '3' })] };
+    expect(evaluateQualityForm(form).checks.minCharacteristics).toBe(false);
+    expect(evaluateQualityForm({ ...form, toleranceProfile: undefined }).checks.minCharacteristics).toBe(true);
+  });
+});
@@ -0,0 +1,209 @@
+import type { QualityCategory, QualityFormData, QualityPalette, ToleranceProfile, ToleranceThresholds } from './quality';
+
+// Quality conformity engine.
+// Pure functions shared by the control form, the rapports, their PDFs and the statistics,
+// so every screen reaches the same verdict for the same lot.
+
+// Class tolerances of the UNECE standard (FFV-42) used when no client override applies
+export const TOLERANCE_PRESETS: ToleranceProfile[] = [
+  {
+    id: 'preset-extra',
+    name: 'UNECE FFV-42 - Extra',
+    category: 'Extra',
+    preset: true,
+    thresholds: { maxMinCharacteristics: 5, maxTotalDefects: 5, maxMissingBrokenGrains: 5, minWeightConformity: 1 }
+  },
+  {
+    id: 'preset-cat-i',
+    name: 'UNECE FFV-42 - Catégorie I',
+    category: 'I',
+    preset: true,
+    thresholds: { maxMinCharacteristics: 10, maxTotalDefects: 10, maxMissingBrokenGrains: 10, minWeightConformity: 1 }
+  },
+  {
+    id: 'preset-cat-ii',
+    name: 'UNECE FFV-42 - Catégorie II',
+    category: 'II',
+    preset: true,
+    thresholds: { maxMinCharacteristics: 10, maxTotalDefects: 15, maxMissingBrokenGrains: 10, minWeightConformity: 1 }
+  }
+];
+
+// The form stores free text ('I', 'Cat I', 'Catégorie II', 'extra'...)
+export const toQualityCategory = (value?: string): QualityCategory => {
+  const v = (value || '').trim().toLowerCase();
+  if (v.includes('extra')) return 'Extra';
+  if (/(^|[^i])ii$/.test(v) || v.endsWith(' 2') || v === '2') return 'II';
+  return 'I';
+};
+
+// Thresholds a saved form was judged with, or the preset of its category for older lots
+export const thresholdsForForm = (formData: Pick<QualityFormData, 'category' | 'toleranceProfile'>): ToleranceThresholds => {
+  if (formData.toleranceProfile) return formData.toleranceProfile.thresholds;
+  const category = toQualityCategory(formData.category);
+  return (TOLERANCE_PRESETS.find(p => p.category === category) || TOLERANCE_PRESETS[1]).thresholds;
+};
+
+// Measurements summed into "caractéristiques minimales"
+export const MIN_CHARACTERISTIC_FIELDS = [
+  'rotting', 'foreignMatter', 'withered', 'hardenedEndoderm', 'parasitePresence', 'parasiteAttack'
+] as const;
+
+// Category I defects, added to the minimal characteristics for the total defects tolerance
+export const CATEGORY_DEFECT_FIELDS = ['shapeDefect', 'colorDefect', 'epidermisDefect'] as const;
+
+// Fields recorded as C (conforme) / NC (non conforme) rather than as a number
+export const CATEGORICAL_FIELDS = [
+  'withered', 'temperature', 'odorOrTaste', 'homogeneity', 'packagingState', 'labelingPresence',
+  'corners', 'horizontalStraps', 'paletteSheet', 'woodenPaletteState', 'paletteConformity'
+] as const;
+
+export type Measurement =
+  | { kind: 'empty' }
+  | { kind: 'number'; value: number }
+  | { kind: 'conform' }
+  | { kind: 'nonConform' };
+
+// Read one palette cell. 'C' / 'NC' are verdicts, not zeros: a conform categorical
+// reading contributes 0% to a sum, a non-conform one is reported on the palette.
+export const readMeasurement = (raw: unknown): Measurement => {
+  if (raw === undefined || raw === null) return { kind: 'empty' };
+  if (typeof raw === 'number') return Number.isFinite(raw) ? { kind: 'number', value: raw } : { kind: 'empty' };
+  const text = String(raw).trim().toUpperCase();
+  if (text === '') return { kind: 'empty' };
+  if (text === 'C') return { kind: 'conform' };
+  if (text === 'NC') return { kind: 'nonConform' };
+  const value = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(value) ? { kind: 'number', value } : { kind: 'empty' };
+};
+
+const numberOf = (raw: unknown): number | null => {
+  const m = readMeasurement(raw);
+  return m.kind === 'number' ? m.value : null;
+};
+
+// Percentage contributed to a sum: numbers as entered, C counts as 0, NC / empty contribute nothing
+const percentOf = (raw: unknown): number => {
+  const m = readMeasurement(raw);
+  return m.kind === 'number' ? m.value : 0;
+};
+
+// Weight of a palette in the lot averages: its number of packages, 1 when not recorded
+export const paletteWeight = (palette: QualityPalette): number => {
+  const count = numberOf(palette.packageCount);
+  return count !== null && count > 0 ? count : 1;
+};
+
+// Deviation of the package weight from the required net weight, in percent
+export const weightConformityOf = (palette: QualityPalette): number | null => {
+  const actual = numberOf(palette.packageWeight);
+  const required = numberOf(palette.requiredNetWeight);
+  if (actual === null || required === null || required === 0 || actual === 0) return null;
+  return (actual - required) / required * 100;
+};
+
+export interface PaletteConformity {
+  index: number;
+  packageCount: number;
+  minCharacteristics: number;
+  categoryDefects: number;
+  totalDefects: number;
+  missingBrokenGrains: number;
+  weightConformity: number | null;
+  nonConformFields: string[];
+}
+
+export const evaluatePalette = (palette: QualityPalette, index: number): PaletteConformity => {
+  const minCharacteristics = MIN_CHARACTERISTIC_FIELDS.reduce((acc, field) => acc + percentOf(palette[field]), 0);
+  const categoryDefects = CATEGORY_DEFECT_FIELDS.reduce((acc, field) => acc + percentOf(palette[field]), 0);
+  return {
+    index,
+    packageCount: paletteWeight(palette),
+    minCharacteristics,
+    categoryDefects,
+    totalDefects: minCharacteristics + categoryDefects,
+    missingBrokenGrains: percentOf(palette.missingBrokenGrains),
+    weightConformity: weightConformityOf(palette),
+    nonConformFields: CATEGORICAL_FIELDS.filter(field => readMeasurement(palette[field]).kind === 'nonConform')
+  };
+};
+
+// Weighted mean of the values present; null when no palette has a value
+const weightedMean = (entries: Array<{ value: number | null; weight: number }>): number | null => {
+  let total = 0;
+  let weights = 0;
+  entries.forEach(({ value, weight }) => {
+    if (value === null) return;
+    total += value * weight;
+    weights += weight;
+  });
+  return weights > 0 ? total / weights : null;
+};
+
+// Average of one numeric palette field over the lot, weighted by package count.
+// Categorical and empty cells are left out instead of being counted as 0.
+export const averageField = (palettes: QualityPalette[], field: string): number | null =>
+  weightedMean(palettes.map(palette => ({ value: numberOf(palette[field]), weight: paletteWeight(palette) })));
+
+export const averageFields = (palettes: QualityPalette[], fields: readonly string[]): Record<string, string> =>
+  fields.reduce((acc, field) => {
+    acc[field] = formatAverage(averageField(palettes, field));
+    return acc;
+  }, {} as Record<string, string>);
+
+// Display format used on screens and PDFs
+export const formatAverage = (value: number | null): string => (value === null ? '' : value.toFixed(2));
+
+export interface LotConformity {
+  palettes: PaletteConformity[];
+  minCharacteristics: number;
+  totalDefects: number;
+  missingBrokenGrains: number;
+  weightConformity: number | null;
+  checks: {
+    minCharacteristics: boolean;
+    totalDefects: boolean;
+    missingBrokenGrains: boolean;
+    weightConformity: boolean;
+    categorical: boolean;
+  };
+  nonConformPalettes: number[];
+  isConform: boolean;
+}
+
+// Lot verdict: weighted averages within the tolerance thresholds and no palette
+// with a non-conform categorical reading. A lot without weighings is not conform.
+export const evaluateLot = (palettes: QualityPalette[], thresholds: ToleranceThresholds): LotConformity => {
+  const results = palettes.map(evaluatePalette);
+  const mean = (pick: (p: PaletteConformity) => number | null) =>
+    weightedMean(results.map(p => ({ value: pick(p), weight: p.packageCount })));
+
+  const minCharacteristics = mean(p => p.minCharacteristics) ?? 0;
+  const totalDefects = mean(p => p.totalDefects) ?? 0;
+  const missingBrokenGrains = mean(p => p.missingBrokenGrains) ?? 0;
+  const weightConformity = mean(p => p.weightConformity);
+  const nonConformPalettes = results.filter(p => p.nonConformFields.length > 0).map(p => p.index);
+
+  const checks = {
+    minCharacteristics: minCharacteristics <= thresholds.maxMinCharacteristics,
+    totalDefects: totalDefects <= thresholds.maxTotalDefects,
+    missingBrokenGrains: missingBrokenGrains <= thresholds.maxMissingBrokenGrains,
+    weightConformity: weightConformity !== null && weightConformity >= thresholds.minWeightConformity,
+    categorical: nonConformPalettes.length === 0
+  };
+
+  return {
+    palettes: results,
+    minCharacteristics,
+    totalDefects,
+    missingBrokenGrains,
+    weightConformity,
+    checks,
+    nonConformPalettes,
+    isConform: results.length > 0 && Object.values(checks).every(Boolean)
+  };
+};
+
+// Verdict of a saved form with the thresholds it was judged with
+export const evaluateQualityForm = (formData: Pick<QualityFormData, 'palettes' | 'category' | 'toleranceProfile'>): LotConformity =>
+  evaluateLot(formData.palettes || [], thresholdsForForm(formData));
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import { formString, isoDateSchema } from './validation';
+import { productionLotStatusSchema } from './production';
+
+// Suivi réception (shared_lots.receptionData)
+export const receptionRowSchema = z.object({
+  numeroPalette: formString,    // N° PALETTE
+  nrCaisse: formString,         // NR CAISSE
+  tarePalette: formString,      // TARE PALETTE
+  poidsBrut: formString,        // POIDS BRUT (kg)
+  poidsNet: formString,         // POIDS NET (kg)
+  variete: formString,          // VARIETE
+  numeroLotInterne: formString, // N°DE LOT INTERN
+  decision: formString          // DECISION
+});
+
+export const receptionFormSchema = z.object({
+  header: z.object({
+    date: z.string(),
+    responsable: z.string(),
+    compagne: z.string(),
+    produit: z.string(), // AVOCAT
+    conventionnel: z.boolean(),
+    biologique: z.boolean(),
+    bonLivraison: z.string(), // N° BON DE LIVRISON
+    bonReception: z.string(), // N° BON DE RECEPTION
+    fournisseur: z.string().optional() // Producteur livreur, for the weighbridge follow-up
+  }),
+  rows: z.array(receptionRowSchema),
+  footer: z.object({
+    totalLabel: z.string(), // TOTALE (display only)
+    poidsTicket: formString, // Weighbridge ticket of the supplier
+    poidsUsine: formString,  // Σ (poids brut - tare palette), computed
+    ecart: formString        // poids usine - poids ticket, computed
+  })
+});
+
+export type ReceptionRow = z.infer<typeof receptionRowSchema>;
+export type ReceptionFormData = z.infer<typeof receptionFormSchema>;
+
+// Contrôle qualité à la réception (reception_controls.data)
+const defectMeasureSchema = z.object({
+  count: formString,
+  weight: formString,
+  percentage: formString
+});
+
+export const receptionControlDataSchema = z.object({
+  header: z.object({
+    ref: z.string(),
+    version: z.string(),
+    date: z.string(),
+    deliveryDate: z.string(),
+    productRange: z.string(),
+    provider: z.string(),
+    protocol: z.string(),
+    conventionnel: z.boolean(),
+    bio: z.boolean(),
+    deliveryBonNumber: z.string(),
+    receptionBonNumber: z.string(),
+    receptionTime: z.string(),
+    boxState: z.string(),
+    matricule: z.string(),
+    variety: z.string(),
+    producer: z.string(),
+    truckQuality: z.string(),
+    totalPallets: formString,
+    netWeight: formString,
+    productLotNumber: z.string()
+  }),
+  qualityChecks: z.object({
+    diseaseTraces: defectMeasureSchema,
+    ripeFruit: defectMeasureSchema,
+    dirtyFruit: defectMeasureSchema,
+    sunBurns: defectMeasureSchema,
+    withoutStem: defectMeasureSchema
+  }),
+  totalDefects: formString,
+  color: z.string(),
+  odor: z.string(),
+  decision: z.string(),
+  responsibleSignature: z.string()
+});
+
+export type ReceptionControlData = z.infer<typeof receptionControlDataSchema>;
+
+// reception_controls document: the sheet of a lot, archived once closed
+export const receptionControlLotSchema = z.object({
+  id: z.string(),
+  lotNumber: z.string(),
+  status: productionLotStatusSchema,
+  data: receptionControlDataSchema,
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema,
+  archived: z.boolean().optional(),
+  archivedAt: isoDateSchema,
+  createdBy: z.string().nullish()
+});
@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import { isoDateSchema, toIsoString } from './validation';
+
+// QR scan analytics.
+// Every opening of a public lot page is posted to /api/analytics/track-scan and stored
+// in scan_analytics. A device re-opening the same lot within DEDUP_WINDOW_MINUTES is
+// one scan. Lots are joined on the server with their variety, client and shipping date
+// so the dashboard can break scans down by lot, variety, client and time to first scan.
+
+export const DEDUP_WINDOW_MINUTES = 30;
+
+// Posted by the public page; `country` is a coarse location (ISO 3166 alpha-2), never coordinates
+export const trackScanRequestSchema = z.object({
+  lotNumber: z.string().trim().min(1).max(80),
+  scanType: z.string().trim().min(1).max(40),
+  timestamp: z.string().optional(),
+  userAgent: z.string().max(500).optional(),
+  deviceId: z.string().regex(/^[A-Za-z0-9-]{8,64}$/).optional(),
+  country: z.string().regex(/^[A-Za-z]{2}$/).transform(c => c.toUpperCase()).optional()
+});
+
+export const deviceTypeSchema = z.enum(['mobile', 'tablet', 'desktop', 'bot', 'inconnu']);
+
+export const scanEventSchema = z.object({
+  id: z.string(),
+  lotNumber: z.string(),
+  scanType: z.string(),
+  timestamp: z.string(),
+  userAgent: z.string().optional(),
+  deviceId: z.string().optional(),
+  deviceType: deviceTypeSchema.optional(),  // Older scans have only the raw user agent
+  os: z.string().optional(),
+  browser: z.string().optional(),
+  country: z.string().optional(),
+  createdAt: isoDateSchema
+});
+
+export const scanAnalyticsQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  granularity: z.enum(['day', 'week', 'month']).default('day')
+});
+
+export type TrackScanRequest = z.infer<typeof trackScanRequestSchema>;
+export type DeviceType = z.infer<typeof deviceTypeSchema>;
+export type ScanEvent = z.infer<typeof scanEventSchema>;
+
+export interface ParsedUserAgent {
+  deviceType: DeviceType;
+  os: string;
+  browser: string;
+}
+
+const firstMatch = (ua: string, rules: Array<[RegExp, string]>) =>
+  rules.find(([pattern]) => pattern.test(ua))?.[1] || 'Autre';
+
+// Coarse user agent parsing: enough to split the dashboard, no fingerprinting
+export const parseUserAgent = (userAgent?: string): ParsedUserAgent => {
+  const ua = userAgent || '';
+  if (!ua) return { deviceType: 'inconnu', os: 'Autre', browser: 'Autre' };
+
+  const deviceType: DeviceType = /bot|crawler|spider|preview|curl|wget/i.test(ua)
+    ? 'bot'
+    : /ipad|tablet|(android(?!.*mobile))/i.test(ua)
+      ? 'tablet'
+      : /mobi|iphone|ipod|android/i.test(ua) ? 'mobile' : 'desktop';
+
+  const os = firstMatch(ua, [
+    [/iphone|ipad|ipod/i, 'iOS'],
+    [/android/i, 'Android'],
+    [/windows/i, 'Windows'],
+    [/mac os x|macintosh/i, 'macOS'],
+    [/linux/i, 'Linux']
+  ]);
+  // Order matters: Edge and Opera also announce Chrome, Chrome announces Safari
+  const browser = firstMatch(ua, [
+    [/edg\//i, 'Edge'],
+    [/opr\/|opera/i, 'Opera'],
+    [/samsungbrowser/i, 'Samsung Internet'],
+    [/fbav|fban|instagram/i, 'Réseau social'],
+    [/chrome|crios/i, 'Chrome'],
+    [/firefox|fxios/i, 'Firefox'],
+    [/safari/i, 'Safari']
+  ]);
+  return { deviceType, os, browser };
+};
+
+// A scan counts once per device and lot within the window
+export const isDuplicateScan = (previousAt: string | null | undefined, at: string): boolean =>
+  !!previousAt && new Date(at).getTime() - new Date(previousAt).getTime() < DEDUP_WINDOW_MINUTES * 60 * 1000;
+
+export interface ScanLotInfo {
+  lotNumber: string;
+  variety: string;
+  clientName: string;
+  shippedAt: string | null;     // ISO date-time of the first expedition of the lot
+}
+
+// Dates are strings, or Timestamps when read with the Admin SDK
+const toIso = (value: unknown): string | null => {
+  const iso = toIsoString(value);
+  return typeof iso === 'string' && iso ? iso : null;
+};
+
+// Steps of the tracking form joined to the scans, each kept as stored
+const trackingStep = z.record(z.unknown()).optional().catch(undefined);
+const scanTrackingSchema = z.object({
+  harvest: trackingStep,
+  export: trackingStep,
+  delivery: trackingStep
+});
+
+/**
+ * Join data of a lot: avocado-tracking document and the expeditions (date, heure) that
+ * carried it. The lot is shipped at its first expedition, or at its export loading date
+ * for lots shipped before the expedition forms.
+ */
+export const scanLotInfo = (document: unknown, expeditionDates: string[]): ScanLotInfo => {
+  const tracking = scanTrackingSchema.parse(document);
+  const shipments = [...expeditionDates, toIso(tracking.export?.loadingDate)]
+    .filter((date): date is string => !!date)
+    .sort();
+  return {
+    lotNumber: String(tracking.harvest?.lotNumber || ''),
+    variety: String(tracking.harvest?.variety || ''),
+    clientName: String(tracking.delivery?.clientName || ''),
+    shippedAt: shipments[0] || null
+  };
+};
+
+export interface ScanAnalyticsRange {
+  from?: string;                // yyyy-MM-dd, inclusive
+  to?: string;
+}
+
+export type ScanGranularity = z.infer<typeof scanAnalyticsQuerySchema>['granularity'];
+
+export interface ScanBreakdownEntry {
+  key: string;
+  scans: number;
+  devices: number;
+}
+
+export interface ScanAnalytics {
+  totalScans: number;
+  uniqueDevices: number;
+  scannedLots: number;
+  timeSeries: Array<{ period: string; scans: number; devices: number }>;
+  byLot: Array<ScanBreakdownEntry & { variety: string; clientName: string; firstScanAt: string; latencyHours: number | null }>;
+  byVariety: ScanBreakdownEntry[];
+  byClient: ScanBreakdownEntry[];
+  byScanType: ScanBreakdownEntry[];
+  byDeviceType: ScanBreakdownEntry[];
+  byOs: ScanBreakdownEntry[];
+  byBrowser: ScanBreakdownEntry[];
+  byCountry: ScanBreakdownEntry[];
+  firstScanLatency: {
+    lots: number;               // Shipped lots scanned at least once
+    medianHours: number | null;
+    averageHours: number | null;
+  };
+}
+
+const UNKNOWN = 'Non renseigné';
+
+// Monday of the week, first day of the month
+export const scanPeriod = (timestamp: string, granularity: ScanGranularity): string => {
+  const day = timestamp.slice(0, 10);
+  if (granularity === 'month') return day.slice(0, 7);
+  if (granularity === 'day') return day;
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().slice(0, 10);
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Scans without a device id (older records) are counted as one device each
+const deviceKey = (scan: ScanEvent) => scan.deviceId || `scan:${scan.id}`;
+
+const breakdown = (scans: ScanEvent[], keyOf: (scan: ScanEvent) => string): ScanBreakdownEntry[] => {
+  const groups = new Map<string, ScanEvent[]>();
+  scans.forEach(scan => {
+    const key = keyOf(scan) || UNKNOWN;
+    groups.set(key, [...(groups.get(key) || []), scan]);
+  });
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, scans: group.length, devices: new Set(group.map(deviceKey)).size }))
+    .sort((a, b) => b.scans - a.scans);
+};
+
+export const computeScanAnalytics = (
+  scans: ScanEvent[],
+  lots: ScanLotInfo[],
+  range: ScanAnalyticsRange = {},
+  granularity: ScanGranularity = 'day'
+): ScanAnalytics => {
+  const inRange = scans
+    .filter(scan => {
+      const day = scan.timestamp.slice(0, 10);
+      return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+    })
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const lotInfo = new Map(lots.map(lot => [lot.lotNumber.toLowerCase(), lot]));
+  const infoOf = (scan: ScanEvent) => lotInfo.get(scan.lotNumber.toLowerCase());
+  // Older scans were stored before user agents were parsed
+  const parsed = (scan: ScanEvent): ParsedUserAgent =>
+    scan.deviceType ? { deviceType: scan.deviceType, os: scan.os || 'Autre', browser: scan.browser || 'Autre' } : parseUserAgent(scan.userAgent);
+
+  // Lot numbers typed by hand differ in case: grouped under the lot's own spelling
+  const byLot = breakdown(inRange, scan => infoOf(scan)?.lotNumber || scan.lotNumber).map(entry => {
+    const info = lotInfo.get(entry.key.toLowerCase());
+    // First scan ever of the lot, not of the period: latency is a property of the lot
+    const firstScanAt = scans
+      .filter(scan => scan.lotNumber.toLowerCase() === entry.key.toLowerCase())
+      .reduce((first, scan) => (scan.timestamp < first ? scan.timestamp : first), '9999');
+    const latencyHours = info?.shippedAt && firstScanAt >= info.shippedAt
+      ? round1((new Date(firstScanAt).getTime() - new Date(info.shippedAt).getTime()) / 3600000)
+      : null;
+    return { ...entry, variety: info?.variety || UNKNOWN, clientName: info?.clientName || UNKNOWN, firstScanAt, latencyHours };
+  });
+  const latencies = byLot.map(lot => lot.latencyHours).filter((h): h is number => h !== null);
+  const medianHours = median(latencies);
+
+  return {
+    totalScans: inRange.length,
+    uniqueDevices: new Set(inRange.map(deviceKey)).size,
+    scannedLots: byLot.length,
+    timeSeries: breakdown(inRange, scan => scanPeriod(scan.timestamp, granularity))
+      .map(({ key, scans: count, devices }) => ({ period: key, scans: count, devices }))
+      .sort((a, b) => a.period.localeCompare(b.period)),
+    byLot,
+    byVariety: breakdown(inRange, scan => infoOf(scan)?.variety || ''),
+    byClient: breakdown(inRange, scan => infoOf(scan)?.clientName || ''),
+    byScanType: breakdown(inRange, scan => scan.scanType),
+    byDeviceType: breakdown(inRange, scan => parsed(scan).deviceType),
+    byOs: breakdown(inRange, scan => parsed(scan).os),
+    byBrowser: breakdown(inRange, scan => parsed(scan).browser),
+    byCountry: breakdown(inRange, scan => scan.country || ''),
+    firstScanLatency: {
+      lots: latencies.length,
+      medianHours: medianHours === null ? null : round1(medianHours),
+      averageHours: latencies.length > 0 ? round1(latencies.reduce((a, b) => a + b, 0) / latencies.length) : null
+    }
+  };
+};
@@ -0,0 +1,113 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+import { PermissionAction, PermissionModule } from './users';
+
+// Electronic signatures (visas).
+// A visa is applied by the signed-in user after re-entering their password. It stores
+// who signed, when, and a SHA-256 of the record content at that moment; from then on
+// the record is locked until someone holding the module's approve permission reopens
+// it with a reason, which clears every visa.
+
+export const signatureSchema = z.object({
+  signerId: z.string(),
+  signerEmail: z.string().default(''),
+  signerName: z.string(),
+  signedAt: isoDateSchema,          // Server time, null while the write is pending
+  contentHash: z.string()           // SHA-256 of the signed content (see signedContent)
+});
+
+export const reopeningSchema = z.object({
+  userId: z.string(),
+  userEmail: z.string().default(''),
+  reason: z.string(),
+  at: z.string()                    // ISO, set by the client (arrayUnion cannot hold serverTimestamp)
+});
+
+// Fields added to every signable document
+export const signedRecordSchema = z.object({
+  signatures: z.record(signatureSchema).optional(),
+  locked: z.boolean().optional(),
+  reopenings: z.array(reopeningSchema).optional()
+});
+
+export type Signature = z.infer<typeof signatureSchema>;
+export type Reopening = z.infer<typeof reopeningSchema>;
+export type SignedRecord = z.infer<typeof signedRecordSchema>;
+
+export interface VisaDefinition {
+  label: string;
+  module: PermissionModule;
+  action: PermissionAction;
+  field?: string;                   // Free-text field of the form that shows the signer's name
+}
+
+interface SignableRecord {
+  collection: string;
+  module: PermissionModule;         // Reopening requires this module's approve permission
+  content: string;                  // Field holding the signed content
+  visas: Record<string, VisaDefinition>;
+}
+
+export const SIGNABLE_RECORDS = {
+  production: {
+    collection: 'shared_lots',
+    module: 'production',
+    content: 'productionData',
+    visas: {
+      controleurQualite: { label: 'Visa contrôleur qualité', module: 'quality', action: 'write', field: 'productionData.visas.controleurQualite' },
+      responsableQualite: { label: 'Visa responsable qualité', module: 'quality', action: 'approve', field: 'productionData.visas.responsableQualite' },
+      directeurOperationnel: { label: 'Visa directeur opérationnel', module: 'production', action: 'approve', field: 'productionData.visas.directeurOperationnel' }
+    }
+  },
+  reception: {
+    collection: 'reception_controls',
+    module: 'reception',
+    content: 'data',
+    visas: {
+      responsibleSignature: { label: 'Visa responsable réception', module: 'reception', action: 'approve', field: 'data.responsibleSignature' }
+    }
+  },
+  quality: {
+    collection: 'quality_control_lots',
+    module: 'quality',
+    content: 'formData',
+    visas: {
+      chiefApproval: { label: 'Approbation chef qualité', module: 'quality', action: 'approve', field: 'chief' }
+    }
+  }
+} satisfies Record<string, SignableRecord>;
+
+export type SignableRecordKind = keyof typeof SIGNABLE_RECORDS;
+
+export const visaDefinition = (kind: SignableRecordKind, visa: string): VisaDefinition | null =>
+  (SIGNABLE_RECORDS[kind].visas as Record<string, VisaDefinition>)[visa] || null;
+
+const getPath = (record: Record<string, unknown>, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+
+// Content covered by the hash: the form itself, without the visa fields that only
+// carry the signers' names
+export const signedContent = (kind: SignableRecordKind, record: Record<string, unknown>): Record<string, unknown> => {
+  const definition: SignableRecord = SIGNABLE_RECORDS[kind];
+  const content = JSON.parse(JSON.stringify(getPath(record, definition.content) ?? {}));
+  Object.values(definition.visas).forEach(visa => {
+    if (!visa.field?.startsWith(`${definition.content}.`)) return;
+    const keys = visa.field.split('.').slice(1);
+    const parent = keys.length === 1 ? content : getPath(content, keys.slice(0, -1).join('.'));
+    if (parent && typeof parent === 'object') delete (parent as Record<string, unknown>)[keys[keys.length - 1]];
+  });
+  return content;
+};
+
+export const isRecordLocked = (record: SignedRecord | null | undefined): boolean => record?.locked === true;
+
+// Raised when a write targets a signed record that has not been reopened
+export class RecordLockedError extends Error {
+  constructor(label: string) {
+    super(`${label} est signé : rouvrez-le avec un motif avant de le modifier`);
+    this.name = 'RecordLockedError';
+  }
+}
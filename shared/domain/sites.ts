@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { formString, isoDateSchema } from './validation';
+
+// Farms (farms) and warehouses (entrepots). Codes (F-001, WH-001) are given at creation
+// and printed on reception tickets and pallet labels: they are never reused.
+
+export const farmSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  location: z.string(),
+  farmerId: z.string().default(''),
+  code: z.string().default(''),
+  active: z.boolean().default(true),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const farmWriteSchema = farmSchema.omit({ id: true, createdAt: true, updatedAt: true });
+
+export const warehouseSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  location: z.string(),
+  capacity: formString,           // Typed freely: '40 palettes', '20 t' (see parseStorageCapacity)
+  description: z.string().optional(),
+  code: z.string().default(''),
+  active: z.boolean().default(true),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const warehouseWriteSchema = warehouseSchema.omit({ id: true, createdAt: true, updatedAt: true });
+
+export type Farm = z.infer<typeof farmSchema>;
+export type FarmWrite = z.infer<typeof farmWriteSchema>;
+export type Warehouse = z.infer<typeof warehouseSchema>;
+export type WarehouseWrite = z.infer<typeof warehouseWriteSchema>;
+
+// Next code of a series from the codes already given (F-007 -> F-008); clients use CL-
+export const nextSiteCode = (prefix: 'F' | 'WH' | 'CL', existing: string[]): string => {
+  const numbers = existing
+    .map(code => code.match(new RegExp(`^${prefix}-(\\d+)$`))?.[1])
+    .filter((n): n is string => !!n)
+    .map(Number);
+  return `${prefix}-${String(Math.max(0, ...numbers) + 1).padStart(3, '0')}`;
+};
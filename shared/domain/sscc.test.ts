@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { buildSscc, formatSscc, gs1CheckDigit, isValidGtin, isValidSscc, parseSsccScan, ssccSerialCapacity } from './sscc';
+
+// SSCC of the GS1 General Specifications
+const GS1_SSCC = '106141411234567897';
+
+describe('gs1CheckDigit', () => {
+  it('weighs the digits 3 and 1 from the right', () => {
+    expect(gs1CheckDigit('10614141123456789')).toBe(7);
+    expect(gs1CheckDigit('400638133393')).toBe(1);
+    expect(gs1CheckDigit('9638507')).toBe(4);
+    expect(gs1CheckDigit('5')).toBe(5);
+  });
+
+  it('is 0 when the weighted sum is a multiple of 10', () => {
+    expect(gs1CheckDigit('0000000')).toBe(0);
+    expect(gs1CheckDigit('55')).toBe(0);
+  });
+});
+
+describe('isValidSscc', () => {
+  it('accepts 18 digits ending with their check digit', () => {
+    expect(isValidSscc(GS1_SSCC)).toBe(true);
+  });
+
+  it('rejects a wrong check digit, another length or other characters', () => {
+    expect(isValidSscc('106141411234567890')).toBe(false);
+    expect(isValidSscc('10614141123456789')).toBe(false);
+    expect(isValidSscc('1061414112345678970')).toBe(false);
+    expect(isValidSscc('10614141123456789A')).toBe(false);
+  });
+});
+
+describe('isValidGtin', () => {
+  it('accepts GTIN-8, 12, 13 and 14 with their check digit', () => {
+    expect(isValidGtin('96385074')).toBe(true);
+    expect(isValidGtin('614141000036')).toBe(true);
+    expect(isValidGtin('4006381333931')).toBe(true);
+    expect(isValidGtin('00614141000036')).toBe(true);
+  });
+
+  it('rejects a wrong check digit or another length', () => {
+    expect(isValidGtin('4006381333932')).toBe(false);
+    expect(isValidGtin('400638133393')).toBe(false);
+    expect(isValidGtin('123456789')).toBe(false);
+  });
+});
+
+describe('buildSscc', () => {
+  const settings = { companyPrefix: '0614141', extensionDigit: 1 };
+
+  it('joins extension digit, company prefix, padded serial and check digit', () => {
+    expect(buildSscc(settings, 123456789)).toBe(GS1_SSCC);
+    expect(buildSscc(settings, 1)).toBe('106141410000000019');
+    expect(isValidSscc(buildSscc({ companyPrefix: '6111234567', extensionDigit: 0 }, 42))).toBe(true);
+  });
+
+  it('refuses a serial beyond the range of the prefix', () => {
+    expect(ssccSerialCapacity('0614141')).toBe(10 ** 9);
+    expect(() => buildSscc(settings, 10 ** 9)).toThrow();
+  });
+});
+
+describe('SSCC labels and scans', () => {
+  it('splits the code on the label text', () => {
+    expect(formatSscc(GS1_SSCC)).toBe('(00) 1 0614141 123456789 7');
+  });
+
+  it('reads the code with or without its AI, symbology identifier and separators', () => {
+    expect(parseSsccScan(GS1_SSCC)).toBe(GS1_SSCC);
+    expect(parseSsccScan(`00${GS1_SSCC}`)).toBe(GS1_SSCC);
+    expect(parseSsccScan(`]C100${GS1_SSCC}`)).toBe(GS1_SSCC);
+    expect(parseSsccScan('(00) 1 0614141 123456789 7')).toBe(GS1_SSCC);
+    expect(parseSsccScan(`00${GS1_SSCC}\x1d10LOT1`)).toBe(GS1_SSCC);
+  });
+
+  it('is null for a code that is not a valid SSCC', () => {
+    expect(parseSsccScan('106141411234567890')).toBeNull();
+    expect(parseSsccScan('LOT-2024-001')).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+import type { ProductionRow } from './production';
+
+// Pallet identity.
+// Every pallet leaving the packing line gets a GS1 SSCC (Serial Shipping Container
+// Code, AI 00): extension digit + GS1 company prefix + serial reference + check digit,
+// 18 digits. The registry (pallets, document id = SSCC) keeps what is on the pallet
+// so scanning its label fills the fiche d'expédition.
+
+export const SSCC_AI = '00';
+
+// GS1 mod-10 check digit: weights 3 and 1 alternating from the rightmost digit
+export const gs1CheckDigit = (digits: string): number => {
+  const sum = digits
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidSscc = (code: string): boolean =>
+  /^\d{18}$/.test(code) && gs1CheckDigit(code.slice(0, 17)) === Number(code[17]);
+
+// GTIN-8, 12, 13 or 14 with a valid check digit
+export const isValidGtin = (gtin: string): boolean =>
+  /^(\d{8}|\d{12}|\d{13}|\d{14})$/.test(gtin) && gs1CheckDigit(gtin.slice(0, -1)) === Number(gtin[gtin.length - 1]);
+
+// Trade items (GTINs) of the company, chosen by variety for the Digital Link QR of a lot
+export const tradeItemSchema = z.object({
+  gtin: z.string().refine(isValidGtin, 'GTIN invalide (8, 12, 13 ou 14 chiffres avec clé de contrôle)'),
+  description: z.string().min(1, 'Description requise'),
+  variety: z.string().optional()
+});
+
+export type TradeItem = z.infer<typeof tradeItemSchema>;
+
+export const ssccSettingsSchema = z.object({
+  companyPrefix: z.string().regex(/^\d{7,10}$/, 'Le préfixe entreprise GS1 compte 7 à 10 chiffres'),
+  extensionDigit: z.number().int().min(0).max(9),
+  nextSerial: z.number().int().min(0),
+  labelCompanyName: z.string().optional(),  // Printed on top of the labels
+  tradeItems: z.array(tradeItemSchema).default([]),
+  updatedAt: isoDateSchema
+});
+
+export const ssccSettingsWriteSchema = ssccSettingsSchema.omit({ nextSerial: true, updatedAt: true });
+
+export type SsccSettings = z.infer<typeof ssccSettingsSchema>;
+export type SsccSettingsWrite = z.infer<typeof ssccSettingsWriteSchema>;
+
+// Serial references left for the prefix: 16 digits share prefix + serial
+export const ssccSerialCapacity = (companyPrefix: string): number => 10 ** (16 - companyPrefix.length);
+
+export const buildSscc = (settings: Pick<SsccSettings, 'companyPrefix' | 'extensionDigit'>, serial: number): string => {
+  const serialDigits = 16 - settings.companyPrefix.length;
+  if (serial >= 10 ** serialDigits) throw new Error('Plage de numéros SSCC épuisée pour ce préfixe');
+  const body = `${settings.extensionDigit}${settings.companyPrefix}${String(serial).padStart(serialDigits, '0')}`;
+  return `${body}${gs1CheckDigit(body)}`;
+};
+
+// '(00) 3 7612345 000000001 8' for the label text
+export const formatSscc = (sscc: string, companyPrefixLength: number = 7): string =>
+  `(${SSCC_AI}) ${sscc[0]} ${sscc.slice(1, 1 + companyPrefixLength)} ${sscc.slice(1 + companyPrefixLength, 17)} ${sscc[17]}`;
+
+/**
+ * SSCC read from a scan: a GS1-128 label decoded with or without its AI, with the
+ * symbology identifier (]C1), parentheses, spaces or a GS separator, or the 18 digits
+ * typed by hand. Null when the code is not a valid SSCC.
+ */
+export const parseSsccScan = (text: string): string | null => {
+  const cleaned = text.replace(/^\]C1/, '').replace(/[()\s\x1d]/g, '');
+  const candidates = [cleaned.slice(0, 18)];
+  if (cleaned.startsWith(SSCC_AI)) candidates.unshift(cleaned.slice(2, 20));
+  return candidates.find(isValidSscc) ?? null;
+};
+
+export const palletStatusSchema = z.enum(['emise', 'expediee', 'annulee']);
+
+export const PALLET_STATUS_LABELS: Record<z.infer<typeof palletStatusSchema>, string> = {
+  emise: 'Étiquetée',
+  expediee: 'Expédiée',
+  annulee: 'Annulée'
+};
+
+export const palletRecordSchema = z.object({
+  id: z.string(),                      // = sscc
+  sscc: z.string(),
+  productionLotId: z.string(),         // shared_lots document of the fiche de production
+  productionLotNumber: z.string(),
+  palletNumber: z.number(),            // Row numero on the fiche
+  internalLot: z.string(),
+  variety: z.string(),
+  calibre: z.string(),
+  packages: z.number(),
+  netKg: z.number(),
+  packedOn: z.string(),                // yyyy-MM-dd
+  chambreFroide: z.string(),
+  status: palletStatusSchema,
+  expeditionId: z.string().optional(),
+  expeditionName: z.string().optional(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export type PalletStatus = z.infer<typeof palletStatusSchema>;
+export type PalletRecord = z.infer<typeof palletRecordSchema>;
+
+// A row of the fiche de production is a pallet to label once it holds fruit and was not refused
+export const productionRowNeedsLabel = (row: ProductionRow): boolean =>
+  !!(row.poidsNet || row.nbrCP || row.numeroLotInterne?.trim())
+  && (row.decision || '').trim().toUpperCase() !== 'REFUSÉ';
+
+// Pallet content as written on the fiche de production
+export const palletContentFromRow = (row: ProductionRow, packedOn: string) => ({
+  palletNumber: row.numero,
+  internalLot: row.numeroLotInterne?.trim() || '',
+  variety: row.variete?.trim() || '',
+  calibre: row.calibre?.trim() || '',
+  packages: Number(row.nbrCP) || 0,
+  netKg: Number(String(row.poidsNet ?? '').replace(',', '.')) || 0,
+  packedOn: row.date || packedOn,
+  chambreFroide: row.chambreFroide?.trim() || ''
+});
+
+// Expedition row filled from a scanned pallet
+export const expeditionRowFromPallet = (pallet: PalletRecord, palletNo: number) => ({
+  palletNo,
+  sscc: pallet.sscc,
+  nbrColis: pallet.packages ? String(pallet.packages) : '',
+  produitVariete: pallet.variety,
+  calibre: pallet.calibre,
+  numeroLotInterne: pallet.internalLot
+});
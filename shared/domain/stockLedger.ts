@@ -0,0 +1,337 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+
+// Stock ledger.
+// Every pallet entering a chambre froide (a production line with its chambre) and
+// leaving the packhouse (a row of a fiche d'expédition) is recorded as a movement
+// (stock_movements), replaced each time its sheet is saved. Expedition rows do not say
+// which pallet left: they are matched FIFO to the oldest pallet in stock of the same
+// internal lot, so the ledger gives the pallets in each room, their age and the
+// occupancy against the capacity of the entrepôt.
+
+export const stockMovementDirectionSchema = z.enum(['entree', 'sortie']);
+
+export const stockMovementSchema = z.object({
+  id: z.string(),
+  direction: stockMovementDirectionSchema,
+  palletId: z.string(),             // LOT-P3 (production pallet) or EXP-P2 (expedition pallet)
+  sscc: z.string().optional(),      // Label of the pallet, when it has one
+  reference: z.string(),            // Production lot number or expedition name
+  location: z.string(),             // Chambre froide as written on the sheet, '' for exits
+  date: z.string(),                 // yyyy-MM-dd
+  heure: z.string(),
+  internalLot: z.string(),
+  calibre: z.string(),
+  variety: z.string(),
+  packages: z.number(),             // colis
+  kg: z.number(),
+  source: z.object({ collection: z.string(), docId: z.string() }),
+  recordedAt: isoDateSchema
+});
+
+export type StockMovementDirection = z.infer<typeof stockMovementDirectionSchema>;
+export type StockMovement = z.infer<typeof stockMovementSchema>;
+export type StockMovementSource = StockMovement['source'];
+
+// Entrepôt / chambre froide (entrepots); capacity is typed freely ('40 palettes', '20 t')
+export interface StorageLocation {
+  id: string;
+  name: string;
+  code: string;
+  capacity: string;
+}
+
+export interface StorageCapacity {
+  value: number;
+  unit: 'palettes' | 'kg';
+}
+
+export const parseStorageCapacity = (text?: string): StorageCapacity | null => {
+  const value = parseFloat(String(text ?? '').replace(/\s/g, '').replace(',', '.'));
+  if (isNaN(value) || value <= 0) return null;
+  if (/pal/i.test(text!)) return { value, unit: 'palettes' };
+  if (/\bt(onnes?)?\b/i.test(text!)) return { value: value * 1000, unit: 'kg' };
+  return { value, unit: 'kg' };
+};
+
+const normalize = (value?: string | number): string =>
+  String(value ?? '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+// The chambre typed on a sheet is the code, the name or the id of an entrepôt
+export const resolveStorageLocation = (text: string, locations: StorageLocation[]): StorageLocation | null => {
+  const key = normalize(text);
+  if (!key) return null;
+  return locations.find(l => normalize(l.code) === key)
+    || locations.find(l => normalize(l.name) === key)
+    || locations.find(l => l.id === text.trim())
+    || null;
+};
+
+const toNumber = (value?: string): number => {
+  const n = parseFloat(String(value ?? '').replace(',', '.'));
+  return isNaN(n) ? 0 : n;
+};
+
+// Firestore ids cannot contain '/'
+const movementId = (source: StockMovementSource, palletId: string, direction: StockMovementDirection) =>
+  `${source.collection}__${source.docId}__${direction}__${palletId}`.replace(/\//g, '_');
+
+export interface ProductionStockInput {
+  lotNumber: string;
+  headerData?: { date?: string };
+  productionRows?: Array<{
+    numero: number;
+    date?: string;
+    heure?: string;
+    calibre?: string;
+    poidsNet?: string;
+    numeroLotInterne?: string;
+    variete?: string;
+    nbrCP?: string;
+    chambreFroide?: string;
+    decision?: string;
+    sscc?: string;
+  }>;
+}
+
+export interface ExpeditionStockInput {
+  name: string;
+  date?: string;
+  headerData?: { date?: string; heure?: string };
+  rows?: Array<{
+    palletNo: number;
+    nbrColis?: string;
+    produitVariete?: string;
+    calibre?: string;
+    numeroLotInterne?: string;
+    sscc?: string;
+  }>;
+}
+
+// A pallet enters stock when it is put in a chambre; refused pallets never do
+export const deriveProductionMovements = (input: ProductionStockInput, source: StockMovementSource): StockMovement[] =>
+  (input.productionRows || [])
+    .filter(row => row.chambreFroide?.trim() && normalize(row.decision) !== 'REFUSÉ')
+    .map(row => {
+      const palletId = `${input.lotNumber}-P${row.numero}`;
+      return {
+        id: movementId(source, palletId, 'entree'),
+        direction: 'entree' as const,
+        palletId,
+        ...(row.sscc ? { sscc: row.sscc } : {}),
+        reference: input.lotNumber,
+        location: row.chambreFroide!.trim(),
+        date: row.date || input.headerData?.date || '',
+        heure: row.heure || '',
+        internalLot: row.numeroLotInterne?.trim() || '',
+        calibre: row.calibre?.trim() || '',
+        variety: row.variete?.trim() || '',
+        packages: toNumber(row.nbrCP),
+        kg: toNumber(row.poidsNet),
+        source
+      };
+    });
+
+export const deriveExpeditionMovements = (input: ExpeditionStockInput, source: StockMovementSource): StockMovement[] =>
+  (input.rows || [])
+    .filter(row => row.numeroLotInterne?.trim() || toNumber(row.nbrColis) > 0)
+    .map(row => {
+      const palletId = `${input.name}-P${row.palletNo}`;
+      return {
+        id: movementId(source, palletId, 'sortie'),
+        direction: 'sortie' as const,
+        palletId,
+        ...(row.sscc ? { sscc: row.sscc } : {}),
+        reference: input.name,
+        location: '',
+        date: input.headerData?.date || input.date || '',
+        heure: input.headerData?.heure || '',
+        internalLot: row.numeroLotInterne?.trim() || '',
+        calibre: row.calibre?.trim() || '',
+        variety: row.produitVariete?.trim() || '',
+        packages: toNumber(row.nbrColis),
+        kg: 0,
+        source
+      };
+    });
+
+export interface PalletStock {
+  palletId: string;
+  sscc: string | null;
+  reference: string;
+  locationId: string | null;        // Entrepôt the chambre resolves to
+  locationLabel: string;
+  internalLot: string;
+  calibre: string;
+  variety: string;
+  packages: number;
+  kg: number;
+  enteredOn: string;
+  exitedOn: string | null;
+  exitReference: string | null;     // Expedition that took it
+  ageDays: number;                  // In stock until the exit (or asOf)
+}
+
+export interface StockLedger {
+  pallets: PalletStock[];
+  unmatchedExits: StockMovement[];  // Expedition pallets with no pallet in stock to take
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysBetween = (from: string, to: string) =>
+  Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS));
+
+/**
+ * Replays the movements in time order. An exit with a scanned SSCC takes that pallet;
+ * otherwise the oldest pallet in stock of the same internal lot (and calibre when both
+ * are known), or of the same calibre and variety for an exit without internal lot.
+ */
+export const buildStockLedger = (
+  movements: StockMovement[],
+  locations: StorageLocation[],
+  asOf: string = new Date().toISOString().slice(0, 10)
+): StockLedger => {
+  const ordered = [...movements]
+    .filter(m => m.date)
+    .sort((a, b) =>
+      `${a.date} ${a.heure}`.localeCompare(`${b.date} ${b.heure}`)
+      || (a.direction === b.direction ? 0 : a.direction === 'entree' ? -1 : 1));
+
+  const pallets: PalletStock[] = [];
+  const unmatchedExits: StockMovement[] = [];
+
+  ordered.forEach(movement => {
+    if (movement.direction === 'entree') {
+      // A pallet saved twice (sheet moved to another chambre) keeps its latest entry
+      const index = pallets.findIndex(p => p.palletId === movement.palletId && p.exitedOn === null);
+      if (index >= 0) pallets.splice(index, 1);
+      pallets.push({
+        palletId: movement.palletId,
+        sscc: movement.sscc || null,
+        reference: movement.reference,
+        locationId: resolveStorageLocation(movement.location, locations)?.id ?? null,
+        locationLabel: movement.location,
+        internalLot: movement.internalLot,
+        calibre: movement.calibre,
+        variety: movement.variety,
+        packages: movement.packages,
+        kg: movement.kg,
+        enteredOn: movement.date,
+        exitedOn: null,
+        exitReference: null,
+        ageDays: 0
+      });
+      return;
+    }
+
+    const inStock = pallets.filter(p => p.exitedOn === null);
+    const sameCalibre = (p: PalletStock) => !movement.calibre || !p.calibre || normalize(p.calibre) === normalize(movement.calibre);
+    const scanned = movement.sscc ? inStock.find(p => p.sscc === movement.sscc) : undefined;
+    const candidates = movement.internalLot
+      ? inStock.filter(p => normalize(p.internalLot) === normalize(movement.internalLot) && sameCalibre(p))
+      : inStock.filter(p => sameCalibre(p) && (!movement.variety || normalize(p.variety) === normalize(movement.variety)));
+    // A scanned label names the pallet; otherwise the oldest one (pallets are kept in entry
+    // order), unlabelled first since a labelled pallet is expected to be scanned
+    const oldest = scanned ?? candidates.find(p => !p.sscc) ?? candidates[0];
+    if (!oldest) {
+      unmatchedExits.push(movement);
+      return;
+    }
+    oldest.exitedOn = movement.date;
+    oldest.exitReference = movement.reference;
+  });
+
+  pallets.forEach(p => {
+    p.ageDays = daysBetween(p.enteredOn, p.exitedOn ?? asOf);
+  });
+
+  return { pallets, unmatchedExits };
+};
+
+export const STOCK_AGE_BUCKETS = [
+  { label: '0-7 jours', max: 7, color: '#10B981' },
+  { label: '8-14 jours', max: 14, color: '#3B82F6' },
+  { label: '15-30 jours', max: 30, color: '#F59E0B' },
+  { label: '+30 jours', max: Infinity, color: '#EF4444' }
+];
+
+export interface WarehouseStockStats {
+  totalPallets: number;             // Every pallet that went through
+  currentPallets: number;
+  currentStockKg: number;
+  currentPackages: number;
+  capacity: StorageCapacity | null;
+  utilizationRate: number | null;   // Occupancy against the capacity, in its unit
+  monthlyIncoming: number;          // Pallets, current month
+  monthlyOutgoing: number;
+  avgStorageTime: number;           // Days, pallets that left
+  oldestPalletDays: number | null;
+  storageHistory: Array<{
+    month: string;                  // yyyy-MM
+    incoming: number;
+    outgoing: number;
+    occupancy: number;              // Pallets in stock at the end of the month
+    utilization: number | null;
+  }>;
+  ageing: Array<{ label: string; count: number; color: string }>;
+  inStock: PalletStock[];           // Oldest first (FIFO order)
+}
+
+const monthEnd = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, m, 0)).toISOString().slice(0, 10);
+};
+
+const occupancyRate = (pallets: PalletStock[], capacity: StorageCapacity | null): number | null => {
+  if (!capacity) return null;
+  const used = capacity.unit === 'palettes' ? pallets.length : pallets.reduce((sum, p) => sum + p.kg, 0);
+  return Math.round((used / capacity.value) * 1000) / 10;
+};
+
+export const computeWarehouseStockStats = (
+  ledger: StockLedger,
+  location: StorageLocation,
+  asOf: string = new Date().toISOString().slice(0, 10),
+  months: number = 6
+): WarehouseStockStats => {
+  const pallets = ledger.pallets.filter(p => p.locationId === location.id);
+  const inStock = pallets.filter(p => p.exitedOn === null);
+  const left = pallets.filter(p => p.exitedOn !== null);
+  const capacity = parseStorageCapacity(location.capacity);
+
+  const [year, month] = asOf.split('-').map(Number);
+  const history = Array.from({ length: months }, (_, i) => {
+    const d = new Date(Date.UTC(year, month - 1 - (months - 1 - i), 1));
+    const key = d.toISOString().slice(0, 7);
+    const end = key === asOf.slice(0, 7) ? asOf : monthEnd(key);
+    const present = pallets.filter(p => p.enteredOn <= end && (p.exitedOn === null || p.exitedOn > end));
+    return {
+      month: key,
+      incoming: pallets.filter(p => p.enteredOn.startsWith(key)).length,
+      outgoing: left.filter(p => p.exitedOn!.startsWith(key)).length,
+      occupancy: present.length,
+      utilization: occupancyRate(present, capacity)
+    };
+  });
+  const current = history[history.length - 1];
+
+  return {
+    totalPallets: pallets.length,
+    currentPallets: inStock.length,
+    currentStockKg: Math.round(inStock.reduce((sum, p) => sum + p.kg, 0)),
+    currentPackages: inStock.reduce((sum, p) => sum + p.packages, 0),
+    capacity,
+    utilizationRate: occupancyRate(inStock, capacity),
+    monthlyIncoming: current?.incoming ?? 0,
+    monthlyOutgoing: current?.outgoing ?? 0,
+    avgStorageTime: left.length > 0 ? Math.round((left.reduce((sum, p) => sum + p.ageDays, 0) / left.length) * 10) / 10 : 0,
+    oldestPalletDays: inStock.length > 0 ? Math.max(...inStock.map(p => p.ageDays)) : null,
+    storageHistory: history,
+    ageing: STOCK_AGE_BUCKETS.map((bucket, i) => ({
+      label: bucket.label,
+      color: bucket.color,
+      count: inStock.filter(p => p.ageDays <= bucket.max && (i === 0 || p.ageDays > STOCK_AGE_BUCKETS[i - 1].max)).length
+    })),
+    inStock: [...inStock].sort((a, b) => a.enteredOn.localeCompare(b.enteredOn))
+  };
+};
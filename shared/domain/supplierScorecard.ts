@@ -0,0 +1,187 @@
+import type { ReceptionControlData } from './reception';
+import type { WeighbridgeDelivery } from './weighbridge';
+
+// Supplier scorecards.
+// Each reception control rates one delivery of a producer: defect percentages, truck
+// hygiene (C / NC) and the decision taken. Aggregated per producer and per campaign
+// with the weighbridge écart of the same deliveries, they rank the growers for purchasing.
+
+export type ReceptionDefectKey = keyof ReceptionControlData['qualityChecks'];
+
+export const RECEPTION_DEFECT_LABELS: Record<ReceptionDefectKey, string> = {
+  diseaseTraces: 'Traces de maladie',
+  ripeFruit: 'Fruits mûrs',
+  dirtyFruit: 'Fruits sales',
+  sunBurns: 'Coups de soleil',
+  withoutStem: 'Sans pédoncule'
+};
+
+const DEFECT_KEYS = Object.keys(RECEPTION_DEFECT_LABELS) as ReceptionDefectKey[];
+
+export const UNKNOWN_SUPPLIER = 'Fournisseur non renseigné';
+
+export const normalizeSupplierName = (value?: string): string =>
+  (value || '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+// 'dd/MM/yyyy' (fiche de contrôle) or 'yyyy-MM-dd' -> 'yyyy-MM-dd'
+export const toIsoDay = (value?: string): string | null => {
+  const text = (value || '').trim();
+  const dmy = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})/);
+  if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+  return /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : null;
+};
+
+// The avocado campaign runs from September to August: '2024-11-05' -> '2024-2025'
+export const campaignOf = (isoDay: string): string => {
+  const year = Number(isoDay.slice(0, 4));
+  const month = Number(isoDay.slice(5, 7));
+  return month >= 9 ? `${year}-${year + 1}` : `${year - 1}-${year}`;
+};
+
+const parsePct = (value?: string): number | null => {
+  const n = parseFloat(String(value ?? '').replace('%', '').replace(',', '.'));
+  return isNaN(n) ? null : n;
+};
+
+// Decision + Action is free text: 'Accepté', 'Refusé', 'Retour producteur', 'NC'...
+export const isRejectedDecision = (decision?: string): boolean =>
+  /refus|rejet|retour|non[\s-]*conforme|^\s*nc\b/i.test(decision || '');
+
+// Truck state is noted C / NC; anything else is not counted
+export const truckConformity = (truckQuality?: string): boolean | null => {
+  const text = (truckQuality || '').trim().toUpperCase();
+  if (/^(NC|NON[\s-]*CONFORME)/.test(text)) return false;
+  if (/^(C|CONFORME|OK)\b/.test(text)) return true;
+  return null;
+};
+
+export interface SupplierControl {
+  id: string;
+  supplier: string;
+  date: string;              // yyyy-MM-dd (delivery date)
+  campaign: string;
+  variety: string;
+  receptionBon: string;
+  defects: Record<ReceptionDefectKey, number | null>;
+  totalDefects: number | null;
+  truckConform: boolean | null;
+  rejected: boolean;
+}
+
+// Producer first (the grower), the provider (collector) for deliveries without one
+export const toSupplierControl = (id: string, data: ReceptionControlData): SupplierControl | null => {
+  const date = toIsoDay(data.header.deliveryDate) || toIsoDay(data.header.date);
+  if (!date) return null;
+  const defects = Object.fromEntries(
+    DEFECT_KEYS.map(key => [key, parsePct(data.qualityChecks[key]?.percentage)])
+  ) as Record<ReceptionDefectKey, number | null>;
+  const typed = DEFECT_KEYS.map(key => defects[key]).filter((v): v is number => v !== null);
+  return {
+    id,
+    supplier: data.header.producer?.trim() || data.header.provider?.trim() || UNKNOWN_SUPPLIER,
+    date,
+    campaign: campaignOf(date),
+    variety: data.header.variety || '',
+    receptionBon: data.header.receptionBonNumber || '',
+    defects,
+    totalDefects: parsePct(data.totalDefects) ?? (typed.length > 0 ? typed.reduce((a, b) => a + b, 0) : null),
+    truckConform: truckConformity(data.header.truckQuality),
+    rejected: isRejectedDecision(data.decision)
+  };
+};
+
+export interface SupplierScorecard {
+  supplier: string;
+  campaign: string;                    // '' for all campaigns
+  controls: number;
+  avgDefects: Record<ReceptionDefectKey, number | null>;
+  avgTotalDefects: number | null;
+  rejectionRate: number;               // % of controls rejected
+  truckHygieneRate: number | null;     // % of rated trucks found conform
+  weighedDeliveries: number;
+  weightEcartPct: number | null;       // Σ écart / Σ ticket, negative when light
+  monthly: Array<{ month: string; controls: number; avgTotalDefects: number | null; rejectionRate: number }>;
+  score: number;                       // 0-100
+  rank: number;
+}
+
+const average = (values: Array<number | null>): number | null => {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : null;
+};
+
+// 100 points minus penalties: 4 per % of defects (max 40), 0.3 per % of rejected
+// deliveries (max 30), 0.15 per % of non-conform trucks (max 15) and 5 per % of
+// weight missing against the ticket (max 15)
+export const supplierScore = (card: Pick<SupplierScorecard, 'avgTotalDefects' | 'rejectionRate' | 'truckHygieneRate' | 'weightEcartPct'>): number => {
+  const defects = Math.min(40, (card.avgTotalDefects ?? 0) * 4);
+  const rejections = Math.min(30, card.rejectionRate * 0.3);
+  const trucks = Math.min(15, (100 - (card.truckHygieneRate ?? 100)) * 0.15);
+  const weight = Math.min(15, Math.max(0, -(card.weightEcartPct ?? 0)) * 5);
+  return Math.round(Math.max(0, 100 - defects - rejections - trucks - weight));
+};
+
+/**
+ * Scorecards per supplier for `campaign` ('' for every campaign), best score first.
+ * Weighbridge deliveries are matched on the supplier name.
+ */
+export const buildSupplierScorecards = (
+  controls: SupplierControl[],
+  deliveries: WeighbridgeDelivery[],
+  campaign: string = ''
+): SupplierScorecard[] => {
+  const inCampaign = (date: string) => !campaign || campaignOf(date) === campaign;
+  const bySupplier = new Map<string, { name: string; controls: SupplierControl[]; deliveries: WeighbridgeDelivery[] }>();
+  const entry = (name: string) => {
+    const key = normalizeSupplierName(name) || normalizeSupplierName(UNKNOWN_SUPPLIER);
+    if (!bySupplier.has(key)) bySupplier.set(key, { name: name || UNKNOWN_SUPPLIER, controls: [], deliveries: [] });
+    return bySupplier.get(key)!;
+  };
+
+  controls.filter(c => inCampaign(c.date)).forEach(c => entry(c.supplier).controls.push(c));
+  deliveries
+    .filter(d => d.ticketKg !== null && d.date && inCampaign(d.date))
+    .forEach(d => {
+      const key = normalizeSupplierName(d.supplier);
+      if (key && bySupplier.has(key)) bySupplier.get(key)!.deliveries.push(d);
+    });
+
+  const cards = Array.from(bySupplier.values()).map(({ name, controls: list, deliveries: weighed }) => {
+    const rated = list.filter(c => c.truckConform !== null);
+    const ticketKg = weighed.reduce((sum, d) => sum + (d.ticketKg || 0), 0);
+    const ecartKg = weighed.reduce((sum, d) => sum + (d.ecartKg || 0), 0);
+
+    const months = new Map<string, SupplierControl[]>();
+    list.forEach(c => months.set(c.date.slice(0, 7), [...(months.get(c.date.slice(0, 7)) || []), c]));
+
+    const card = {
+      supplier: name,
+      campaign,
+      controls: list.length,
+      avgDefects: Object.fromEntries(DEFECT_KEYS.map(key => [key, average(list.map(c => c.defects[key]))])) as Record<ReceptionDefectKey, number | null>,
+      avgTotalDefects: average(list.map(c => c.totalDefects)),
+      rejectionRate: list.length > 0 ? (list.filter(c => c.rejected).length / list.length) * 100 : 0,
+      truckHygieneRate: rated.length > 0 ? (rated.filter(c => c.truckConform).length / rated.length) * 100 : null,
+      weighedDeliveries: weighed.length,
+      weightEcartPct: ticketKg > 0 ? (ecartKg / ticketKg) * 100 : null,
+      monthly: Array.from(months.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, monthControls]) => ({
+          month,
+          controls: monthControls.length,
+          avgTotalDefects: average(monthControls.map(c => c.totalDefects)),
+          rejectionRate: (monthControls.filter(c => c.rejected).length / monthControls.length) * 100
+        })),
+      rank: 0
+    };
+    return { ...card, score: supplierScore(card) };
+  });
+
+  return cards
+    .sort((a, b) => b.score - a.score || b.controls - a.controls)
+    .map((card, index) => ({ ...card, rank: index + 1 }));
+};
+
+// Campaigns present in the controls, most recent first
+export const supplierCampaigns = (controls: SupplierControl[]): string[] =>
+  Array.from(new Set(controls.map(c => c.campaign))).sort().reverse();
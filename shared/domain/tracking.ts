@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+
+// Traceability record of a harvest lot (avocado-tracking): one map per stage, from the
+// orchard to the client. The write schema mirrors isValidAvocadoTrackingData in
+// firestore.rules; older documents may miss stages and hold Timestamps.
+
+const dateString = isoDateSchema.pipe(z.string());
+
+// Lot numbers are typed by hand on older QR codes: lookups that must ignore case and
+// spacing compare this key, stored with the lot as lotNumberKey
+export const lotNumberKey = (lotNumber: string): string => lotNumber.trim().toUpperCase();
+
+export const trackingHarvestSchema = z.object({
+  harvestDate: dateString,
+  farmLocation: z.string(),
+  farmerId: z.string(),
+  lotNumber: z.string().min(1),
+  variety: z.string()
+});
+
+export const trackingLotWriteSchema = z.object({
+  harvest: trackingHarvestSchema,
+  transport: z.object({
+    lotNumber: z.string(),
+    transportCompany: z.string(),
+    driverName: z.string(),
+    vehicleId: z.string(),
+    departureDateTime: dateString,
+    arrivalDateTime: dateString,
+    temperature: z.number()
+  }),
+  sorting: z.object({
+    lotNumber: z.string(),
+    sortingDate: dateString,
+    qualityGrade: z.string(),
+    rejectedCount: z.number(),
+    notes: z.string().optional()
+  }),
+  packaging: z.object({
+    lotNumber: z.string(),
+    packagingDate: dateString,
+    boxId: z.string(),
+    workerIds: z.array(z.string()),
+    netWeight: z.number(),
+    avocadoCount: z.number(),
+    boxType: z.string()
+  }),
+  storage: z.object({
+    boxId: z.string(),
+    entryDate: dateString,
+    storageTemperature: z.number(),
+    storageRoomId: z.string(),
+    exitDate: z.string()
+  }),
+  export: z.object({
+    boxId: z.string(),
+    loadingDate: dateString,
+    containerId: z.string(),
+    driverName: z.string(),
+    vehicleId: z.string(),
+    destination: z.string()
+  }),
+  delivery: z.object({
+    boxId: z.string(),
+    estimatedDeliveryDate: dateString,
+    actualDeliveryDate: z.string(),
+    clientId: z.string().optional(),
+    clientName: z.string(),
+    clientLocation: z.string(),
+    notes: z.string()
+  })
+}).transform(lot => ({ ...lot, lotNumberKey: lotNumberKey(lot.harvest.lotNumber) }));
+
+// Stages other than the harvest are read as they are: lots are completed stage by stage
+export const trackingLotSchema = z.object({
+  id: z.string(),
+  harvest: trackingHarvestSchema,
+  transport: z.record(z.unknown()).optional(),
+  sorting: z.record(z.unknown()).optional(),
+  packaging: z.record(z.unknown()).optional(),
+  storage: z.record(z.unknown()).optional(),
+  export: z.record(z.unknown()).optional(),
+  delivery: z.record(z.unknown()).optional(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export type TrackingLot = z.infer<typeof trackingLotSchema>;
+export type TrackingLotWrite = z.infer<typeof trackingLotWriteSchema>;
@@ -0,0 +1,125 @@
+import { z } from 'zod';
+import { isoDateSchema } from './validation';
+
+// Access control.
+// Each account has a profile in users/{uid} holding its role and a permission map
+// (module -> actions). The same map is checked by the sidebar / RoleGuard on the client
+// and by firestore.rules / storage.rules, so hiding a page and refusing its data agree.
+
+export const PERMISSION_MODULES = [
+  'reception', 'quality', 'production', 'logistics', 'personnel', 'payroll', 'invoices', 'admin'
+] as const;
+
+// read: view the module, write: enter and edit its records,
+// approve: sign off (quality chief approval, payroll validation, invoice issue)
+export const PERMISSION_ACTIONS = ['read', 'write', 'approve'] as const;
+
+export const permissionModuleSchema = z.enum(PERMISSION_MODULES);
+export const permissionActionSchema = z.enum(PERMISSION_ACTIONS);
+
+export const userRoleSchema = z.enum([
+  'admin', 'quality', 'quality_chief', 'logistics', 'reception', 'production', 'personnel', 'comptabilite'
+]);
+
+// Roles written by earlier versions of the users page
+const LEGACY_ROLES: Record<string, string> = {
+  logistique: 'logistics',
+  comptability: 'comptabilite'
+};
+
+// Stored role -> UserRole. Unknown roles ('operator', 'client', 'support') give no access.
+export const toUserRole = (value: unknown): z.infer<typeof userRoleSchema> | null => {
+  if (typeof value !== 'string') return null;
+  const parsed = userRoleSchema.safeParse(LEGACY_ROLES[value] || value);
+  return parsed.success ? parsed.data : null;
+};
+
+export const userPermissionsSchema = z.record(permissionModuleSchema, z.array(permissionActionSchema));
+
+// Profile (users)
+export const userProfileSchema = z.object({
+  uid: z.string(),
+  email: z.string(),
+  fullName: z.string(),
+  role: z.preprocess(toUserRole, userRoleSchema.nullable()), // null: account not assigned yet
+  permissions: userPermissionsSchema.optional(),
+  active: z.boolean().default(true),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema
+});
+
+export const userProfileWriteSchema = userProfileSchema.omit({ createdAt: true, updatedAt: true }).extend({
+  permissions: userPermissionsSchema
+});
+
+export type PermissionModule = z.infer<typeof permissionModuleSchema>;
+export type PermissionAction = z.infer<typeof permissionActionSchema>;
+export type UserRole = z.infer<typeof userRoleSchema>;
+export type UserPermissions = z.infer<typeof userPermissionsSchema>;
+export type UserProfile = z.infer<typeof userProfileSchema>;
+
+const ALL: PermissionAction[] = ['read', 'write', 'approve'];
+const EDIT: PermissionAction[] = ['read', 'write'];
+const VIEW: PermissionAction[] = ['read'];
+
+// Permissions given to a role when it is assigned; the admin can then adjust them per user
+export const ROLE_PERMISSIONS: Record<UserRole, UserPermissions> = {
+  admin: Object.fromEntries(PERMISSION_MODULES.map(module => [module, ALL])),
+  quality: { quality: EDIT, reception: VIEW },
+  quality_chief: { quality: ALL, reception: VIEW },
+  logistics: { logistics: EDIT, quality: VIEW },
+  reception: { reception: EDIT },
+  production: { production: EDIT, reception: VIEW },
+  personnel: { personnel: EDIT },
+  comptabilite: { invoices: ALL, payroll: ALL, personnel: VIEW }
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrateur',
+  quality: 'Qualité',
+  quality_chief: 'Chef qualité',
+  logistics: 'Logistique',
+  reception: 'Réception',
+  production: 'Production',
+  personnel: 'Personnel',
+  comptabilite: 'Comptabilité'
+};
+
+export const MODULE_LABELS: Record<PermissionModule, string> = {
+  reception: 'Réception',
+  quality: 'Qualité',
+  production: 'Production',
+  logistics: 'Logistique',
+  personnel: 'Personnel',
+  payroll: 'Paie',
+  invoices: 'Factures',
+  admin: 'Administration'
+};
+
+// Sidebar section keys -> permission module ('menu' is open to every assigned account)
+const SECTION_MODULES: Record<string, PermissionModule> = {
+  admin: 'admin',
+  logistics: 'logistics',
+  quality: 'quality',
+  reception: 'reception',
+  production: 'production',
+  personnel: 'personnel',
+  'Comptabilité': 'invoices'
+};
+
+// Section key or module name -> module, null for unknown sections
+export const moduleForSection = (section: string): PermissionModule | null => {
+  if (SECTION_MODULES[section]) return SECTION_MODULES[section];
+  const parsed = permissionModuleSchema.safeParse(section);
+  return parsed.success ? parsed.data : null;
+};
+
+export const hasPermission = (
+  profile: Pick<UserProfile, 'role' | 'permissions' | 'active'> | null | undefined,
+  module: PermissionModule,
+  action: PermissionAction = 'read'
+): boolean => {
+  if (!profile || !profile.role || profile.active === false) return false;
+  if (profile.role === 'admin') return true;
+  return profile.permissions?.[module]?.includes(action) ?? false;
+};
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+
+// Raised when a Firestore document or a form payload does not match its schema.
+// The message lists every failing path so a broken document is visible in the UI
+// instead of being rendered as a form full of blank fields.
+export class DomainValidationError extends Error {
+  readonly context: string;
+  readonly issues: z.ZodIssue[];
+
+  constructor(context: string, issues: z.ZodIssue[]) {
+    const details = issues
+      .slice(0, 5)
+      .map(issue => `${issue.path.join('.') || '(racine)'}: ${issue.message}`)
+      .join('; ');
+    const more = issues.length > 5 ? ` (+${issues.length - 5} autres)` : '';
+    super(`Données invalides (${context}) - ${details}${more}`);
+    this.name = 'DomainValidationError';
+    this.context = context;
+    this.issues = issues;
+  }
+}
+
+// Parse untrusted data, throwing a DomainValidationError describing where it is malformed
+export const parseDomain = <S extends z.ZodTypeAny>(schema: S, data: unknown, context: string): z.output<S> => {
+  const result = schema.safeParse(data);
+  if (!result.success) throw new DomainValidationError(context, result.error.issues);
+  return result.data;
+};
+
+// Firestore Timestamp (or anything exposing toDate) / Date / string -> ISO string.
+// Duck-typed so the shared package does not depend on the Firebase SDK.
+export const toIsoString = (value: unknown): unknown => {
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+// Timestamp field stored by serverTimestamp(); null while the write is still pending locally
+export const isoDateSchema = z.preprocess(
+  value => (value === null || value === undefined ? undefined : toIsoString(value)),
+  z.string().optional()
+);
+
+// Form inputs are kept as strings, older documents sometimes stored plain numbers
+export const formString = z.preprocess(
+  value => (typeof value === 'number' ? String(value) : value),
+  z.string()
+);
+
+// Parse every document of a query result. Valid documents are returned, malformed ones
+// are collected as errors so one broken record does not hide the rest of the list.
+export const parseDocuments = <S extends z.ZodTypeAny>(
+  schema: S,
+  docs: Array<{ id: string; data: () => unknown }>,
+  collection: string
+): { items: z.output<S>[]; errors: DomainValidationError[] } => {
+  const items: z.output<S>[] = [];
+  const errors: DomainValidationError[] = [];
+  docs.forEach(doc => {
+    try {
+      items.push(parseDomain(schema, { ...(doc.data() as object), id: doc.id }, `${collection}/${doc.id}`));
+    } catch (error) {
+      if (!(error instanceof DomainValidationError)) throw error;
+      errors.push(error);
+    }
+  });
+  return { items, errors };
+};
@@ -0,0 +1,153 @@
+import type { ReceptionFormData, ReceptionRow } from './reception';
+
+// Weighbridge reconciliation.
+// The supplier's weighbridge ticket (poids ticket) is checked against the factory
+// weight of the same delivery, summed from the pallets weighed at reception
+// (poids brut - tare palette). Discrepancies are followed per supplier so a supplier
+// that is systematically light shows up before the end of the season.
+
+// Weighbridges and platform scales differ by a few kilos per truck: below this the
+// écart is noise
+export const WEIGHBRIDGE_TOLERANCE_PCT = 0.5;
+
+// A supplier is systematically light when at least this many deliveries average
+// below the tolerance
+export const SYSTEMATIC_MIN_DELIVERIES = 3;
+
+// manquant: factory weight below the ticket (the supplier invoices kilos we did not get)
+export type WeightDiscrepancyStatus = 'conforme' | 'manquant' | 'excedent' | 'sans_ticket';
+
+export const WEIGHT_DISCREPANCY_LABELS: Record<WeightDiscrepancyStatus, string> = {
+  conforme: 'Conforme',
+  manquant: 'Manquant',
+  excedent: 'Excédent',
+  sans_ticket: 'Sans ticket'
+};
+
+const parseKg = (value?: string): number | null => {
+  const n = parseFloat(String(value ?? '').replace(',', '.'));
+  return isNaN(n) ? null : n;
+};
+
+// Net weight of a pallet: poids brut - tare when the pallet was weighed, the net typed
+// by hand otherwise (older sheets)
+export const receptionRowNetKg = (row: Pick<ReceptionRow, 'poidsBrut' | 'tarePalette' | 'poidsNet'>): number => {
+  const brut = parseKg(row.poidsBrut);
+  if (brut !== null) return brut - (parseKg(row.tarePalette) ?? 0);
+  return parseKg(row.poidsNet) ?? 0;
+};
+
+// Row with its net weight recomputed, for the brut / tare inputs
+export const withComputedNet = <R extends ReceptionRow>(row: R): R => {
+  if (parseKg(row.poidsBrut) === null) return row;
+  return { ...row, poidsNet: String(Math.round(receptionRowNetKg(row) * 100) / 100) };
+};
+
+export interface WeighbridgeFigures {
+  ticketKg: number | null;
+  factoryKg: number;
+  ecartKg: number | null; // factory - ticket, negative when the delivery is light
+  ecartPct: number | null;
+  status: WeightDiscrepancyStatus;
+}
+
+export const classifyWeightDiscrepancy = (
+  ecartPct: number | null,
+  tolerancePct: number = WEIGHBRIDGE_TOLERANCE_PCT
+): WeightDiscrepancyStatus => {
+  if (ecartPct === null) return 'sans_ticket';
+  if (ecartPct < -tolerancePct) return 'manquant';
+  if (ecartPct > tolerancePct) return 'excedent';
+  return 'conforme';
+};
+
+export const computeWeighbridgeFigures = (
+  form: Pick<ReceptionFormData, 'rows' | 'footer'>,
+  tolerancePct: number = WEIGHBRIDGE_TOLERANCE_PCT
+): WeighbridgeFigures => {
+  const factoryKg = Math.round(form.rows.reduce((sum, row) => sum + receptionRowNetKg(row), 0) * 100) / 100;
+  const ticket = parseKg(form.footer.poidsTicket);
+  const ticketKg = ticket !== null && ticket > 0 ? ticket : null;
+  const ecartKg = ticketKg === null ? null : Math.round((factoryKg - ticketKg) * 100) / 100;
+  const ecartPct = ticketKg === null || ecartKg === null ? null : (ecartKg / ticketKg) * 100;
+  return { ticketKg, factoryKg, ecartKg, ecartPct, status: classifyWeightDiscrepancy(ecartPct, tolerancePct) };
+};
+
+// Footer fields stored on the sheet, kept in step with the rows and the ticket
+export const weighbridgeFooter = (form: Pick<ReceptionFormData, 'rows' | 'footer'>): Pick<ReceptionFormData['footer'], 'poidsUsine' | 'ecart'> => {
+  const figures = computeWeighbridgeFigures(form);
+  return {
+    poidsUsine: figures.factoryKg ? String(figures.factoryKg) : '',
+    ecart: figures.ecartKg === null ? '' : String(figures.ecartKg)
+  };
+};
+
+export interface WeighbridgeDelivery extends WeighbridgeFigures {
+  lotId: string;
+  lotNumber: string;
+  date: string;
+  supplier: string;
+  bonLivraison: string;
+  bonReception: string;
+}
+
+export interface SupplierDiscrepancySummary {
+  supplier: string;
+  deliveries: number;       // Deliveries with a ticket
+  withoutTicket: number;
+  ticketKg: number;
+  factoryKg: number;
+  ecartKg: number;
+  ecartPct: number | null;  // Σ écart / Σ ticket
+  shortCount: number;
+  overCount: number;
+  monthly: Array<{ month: string; deliveries: number; ecartKg: number; ecartPct: number | null }>;
+  systematicallyLight: boolean;
+}
+
+export const summarizeSupplierDiscrepancies = (
+  deliveries: WeighbridgeDelivery[],
+  tolerancePct: number = WEIGHBRIDGE_TOLERANCE_PCT
+): SupplierDiscrepancySummary[] => {
+  const bySupplier = new Map<string, WeighbridgeDelivery[]>();
+  deliveries.forEach(delivery => {
+    const key = delivery.supplier || 'Fournisseur non renseigné';
+    bySupplier.set(key, [...(bySupplier.get(key) || []), delivery]);
+  });
+
+  return Array.from(bySupplier.entries()).map(([supplier, all]) => {
+    const ticketed = all.filter(d => d.ticketKg !== null);
+    const ticketKg = ticketed.reduce((sum, d) => sum + (d.ticketKg || 0), 0);
+    const factoryKg = ticketed.reduce((sum, d) => sum + d.factoryKg, 0);
+    const ecartKg = factoryKg - ticketKg;
+    const ecartPct = ticketKg > 0 ? (ecartKg / ticketKg) * 100 : null;
+
+    const months = new Map<string, WeighbridgeDelivery[]>();
+    ticketed.forEach(d => {
+      const month = d.date.slice(0, 7);
+      months.set(month, [...(months.get(month) || []), d]);
+    });
+    const monthly = Array.from(months.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, list]) => {
+        const ticket = list.reduce((sum, d) => sum + (d.ticketKg || 0), 0);
+        const ecart = list.reduce((sum, d) => sum + (d.ecartKg || 0), 0);
+        return { month, deliveries: list.length, ecartKg: ecart, ecartPct: ticket > 0 ? (ecart / ticket) * 100 : null };
+      });
+
+    const statuses = ticketed.map(d => classifyWeightDiscrepancy(d.ecartPct, tolerancePct));
+    return {
+      supplier,
+      deliveries: ticketed.length,
+      withoutTicket: all.length - ticketed.length,
+      ticketKg,
+      factoryKg,
+      ecartKg,
+      ecartPct,
+      shortCount: statuses.filter(s => s === 'manquant').length,
+      overCount: statuses.filter(s => s === 'excedent').length,
+      monthly,
+      systematicallyLight: ticketed.length >= SYSTEMATIC_MIN_DELIVERIES && ecartPct !== null && ecartPct < -tolerancePct
+    };
+  }).sort((a, b) => (a.ecartPct ?? 0) - (b.ecartPct ?? 0));
+};
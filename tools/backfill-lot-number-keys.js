@@ -0,0 +1,59 @@
+/*
+Script: backfill-lot-number-keys.js
+
+Purpose: write lotNumberKey on the avocado-tracking lots saved before it existed.
+The public lot page and the lot search find a lot typed with another case or spacing
+through this key (lotNumberKey in shared/domain/tracking.ts); lots saved since then
+carry it already.
+
+Usage:
+  1) Place your service account JSON at tools/serviceAccountKey.json
+  2) npm install firebase-admin
+  3) node tools/backfill-lot-number-keys.js
+*/
+
+const admin = require('firebase-admin');
+const fs = require('fs');
+const path = require('path');
+
+const svcPath = path.resolve(__dirname, 'serviceAccountKey.json');
+if (!fs.existsSync(svcPath)) {
+  console.error('Missing service account JSON at tools/serviceAccountKey.json');
+  process.exit(1);
+}
+const serviceAccount = require(svcPath);
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount)
+});
+
+const db = admin.firestore();
+
+// Same as lotNumberKey in shared/domain/tracking.ts
+const lotNumberKey = lotNumber => String(lotNumber).trim().toUpperCase();
+
+async function backfill() {
+  const snap = await db.collection('avocado-tracking').select('harvest.lotNumber', 'lotNumberKey').get();
+  const pending = snap.docs.filter(d => {
+    const lotNumber = d.get('harvest.lotNumber');
+    return lotNumber && d.get('lotNumberKey') !== lotNumberKey(lotNumber);
+  });
+
+  // Batches are limited to 500 writes
+  for (let i = 0; i < pending.length; i += 500) {
+    const batch = db.batch();
+    pending.slice(i, i + 500).forEach(d => batch.update(d.ref, { lotNumberKey: lotNumberKey(d.get('harvest.lotNumber')) }));
+    await batch.commit();
+  }
+  console.log(`${pending.length} of ${snap.size} lots updated`);
+}
+
+(async () => {
+  try {
+    await backfill();
+    process.exit(0);
+  } catch (err) {
+    console.error('Backfill failed:', err.message);
+    process.exit(1);
+  }
+})();
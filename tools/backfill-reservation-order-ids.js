@@ -0,0 +1,56 @@
+/*
+Script: backfill-reservation-order-ids.js
+
+Purpose: write orderIds on the pallet_reservations saved before it existed.
+Reserving, releasing and cancelling an order find its pallets through this field
+(reservationOrderIds in shared/domain/allocation.ts); reservations saved since then
+carry it already.
+
+Usage:
+  1) Place your service account JSON at tools/serviceAccountKey.json
+  2) npm install firebase-admin
+  3) node tools/backfill-reservation-order-ids.js
+*/
+
+const admin = require('firebase-admin');
+const fs = require('fs');
+const path = require('path');
+
+const svcPath = path.resolve(__dirname, 'serviceAccountKey.json');
+if (!fs.existsSync(svcPath)) {
+  console.error('Missing service account JSON at tools/serviceAccountKey.json');
+  process.exit(1);
+}
+const serviceAccount = require(svcPath);
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount)
+});
+
+const db = admin.firestore();
+
+// Same as reservationOrderIds in shared/domain/allocation.ts
+const reservationOrderIds = reservations => Array.from(new Set((reservations || []).map(held => held.orderId)));
+
+async function backfill() {
+  const snap = await db.collection('pallet_reservations').get();
+  const pending = snap.docs.filter(d => !Array.isArray(d.get('orderIds')));
+
+  // Batches are limited to 500 writes
+  for (let i = 0; i < pending.length; i += 500) {
+    const batch = db.batch();
+    pending.slice(i, i + 500).forEach(d => batch.update(d.ref, { orderIds: reservationOrderIds(d.get('reservations')) }));
+    await batch.commit();
+  }
+  console.log(`${pending.length} of ${snap.size} reservations updated`);
+}
+
+(async () => {
+  try {
+    await backfill();
+    process.exit(0);
+  } catch (err) {
+    console.error('Backfill failed:', err.message);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,72 @@
+/*
+Script: seed-admin.js
+
+Purpose: give the administrator role to an existing Firebase Auth account, at deploy time.
+The app never lets an account promote itself (see the users/{userId} rules in firestore.rules):
+the first administrator of an installation is written here with the Admin SDK, the next ones
+are assigned from the users page.
+
+Usage:
+  1) Place your service account JSON at tools/serviceAccountKey.json
+  2) npm install firebase-admin
+  3) node tools/seed-admin.js <email> [fullName]
+
+Example:
+  node tools/seed-admin.js direction@fruitsforyou.ma "Direction"
+*/
+
+const admin = require('firebase-admin');
+const fs = require('fs');
+const path = require('path');
+
+const svcPath = path.resolve(__dirname, 'serviceAccountKey.json');
+if (!fs.existsSync(svcPath)) {
+  console.error('Missing service account JSON at tools/serviceAccountKey.json');
+  process.exit(1);
+}
+const serviceAccount = require(svcPath);
+
+admin.initializeApp({
+  credential: admin.credential.cert(serviceAccount)
+});
+
+const db = admin.firestore();
+
+// Same map as ROLE_PERMISSIONS.admin in shared/domain/users.ts
+const MODULES = ['reception', 'quality', 'production', 'logistics', 'personnel', 'payroll', 'invoices', 'admin'];
+const ADMIN_PERMISSIONS = Object.fromEntries(MODULES.map(module => [module, ['read', 'write', 'approve']]));
+
+async function seedAdmin(email, fullName) {
+  const user = await admin.auth().getUserByEmail(email);
+  const ref = db.collection('users').doc(user.uid);
+  const snap = await ref.get();
+  const name = fullName || (snap.exists && snap.get('fullName')) || user.displayName || 'Administrateur';
+
+  await ref.set({
+    uid: user.uid,
+    email: user.email || email,
+    fullName: name,
+    displayName: name,
+    role: 'admin',
+    permissions: ADMIN_PERMISSIONS,
+    active: true,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    ...(snap.exists ? {} : { createdAt: admin.firestore.FieldValue.serverTimestamp() })
+  }, { merge: true });
+  console.log(`users/${user.uid} (${email}) is now administrator`);
+}
+
+(async () => {
+  const [email, fullName] = process.argv.slice(2);
+  if (!email) {
+    console.error('Usage: node tools/seed-admin.js <email> [fullName]');
+    process.exit(1);
+  }
+  try {
+    await seedAdmin(email, fullName);
+    process.exit(0);
+  } catch (err) {
+    console.error('Seeding failed:', err.message);
+    process.exit(1);
+  }
+})();